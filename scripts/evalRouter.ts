@@ -0,0 +1,45 @@
+/**
+ * Offline router evaluation.
+ *
+ *   npm run eval:router                      # routes from intent_routes, embed edge function
+ *   npm run eval:router -- --local           # deterministic local embedder (no network for vectors)
+ *   npm run eval:router -- --routes r.json   # routes from a JSON file instead of the DB
+ *   npm run eval:router -- --set other.json  # labeled utterances (default src/config/router/eval_utterances.json)
+ */
+import "dotenv/config";
+import { readFileSync } from "fs";
+import { createClient } from "@supabase/supabase-js";
+import { createLocalEmbedder, setEmbedder } from "../src/core/router/embed";
+import { evaluateRouter, formatConfusionMatrix, type LabeledUtterance } from "../src/core/router/routerEval";
+import type { IntentRoute } from "../src/core/router/semanticRouter";
+
+function arg(name: string) {
+  const i = process.argv.indexOf(name);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+async function loadRoutes(): Promise<IntentRoute[]> {
+  const file = arg("--routes");
+  if (file) return JSON.parse(readFileSync(file, "utf8"));
+
+  const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+  const { data, error } = await supabase.from("intent_routes").select("id,name,examples,embedding,hi_threshold,mid_threshold");
+  if (error) throw error;
+  return data || [];
+}
+
+(async function main(){
+
+  if (process.argv.includes("--local")) setEmbedder(createLocalEmbedder());
+
+  const samples: LabeledUtterance[] = JSON.parse(readFileSync(arg("--set") ?? "src/config/router/eval_utterances.json", "utf8"));
+  const routes = await loadRoutes();
+
+  const report = await evaluateRouter(samples, routes);
+
+  console.log(formatConfusionMatrix(report));
+  for (const m of report.misses) {
+    console.log(`MISS "${m.text}": expected ${m.expected}, got ${m.predicted} (sim ${m.sim})`);
+  }
+
+})().catch(e=>{ console.error(e); process.exit(1); });
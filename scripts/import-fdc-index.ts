@@ -0,0 +1,119 @@
+#!/usr/bin/env node
+/**
+ * Build the offline USDA FoodData Central index
+ *
+ * Reads food, food_nutrient, food_portion and measure_unit from the FDC CSV bundle
+ * (the ZIP in the workspace root, or an extracted folder under data/usda) and writes
+ * a deterministic per-100 g index used by the usdaLocal macro provider.
+ *
+ * Usage:
+ *   npm run import-fdc                       # default foundation ZIP
+ *   npm run import-fdc -- path/to/bundle.zip
+ *   npm run import-fdc -- path/to/extracted/bundle-folder
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { inflateRawSync } from 'zlib';
+import { parseCsv } from '../src/agents/shared/nutrition/usda/csv';
+import { buildFdcIndex, type FdcTables } from '../src/agents/shared/nutrition/usda/fdcIndex';
+
+const DEFAULT_BUNDLE = path.join(process.cwd(), 'FoodData_Central_foundation_food_csv_2025-04-24.zip');
+const OUTPUT_JSON = path.join(process.cwd(), 'public', 'nutrition', 'fdc-foundation-index.json');
+const TABLES: (keyof FdcTables)[] = ['food', 'food_nutrient', 'food_portion', 'measure_unit'];
+
+/**
+ * Read named entries from a ZIP archive (stored or deflated) without external tools
+ */
+function readZipEntries(zipPath: string): Map<string, Buffer> {
+  const buf = fs.readFileSync(zipPath);
+  const entries = new Map<string, Buffer>();
+
+  // End of central directory record: signature 0x06054b50, within the last 64 KB
+  let eocd = -1;
+  for (let i = buf.length - 22; i >= Math.max(0, buf.length - 65557); i--) {
+    if (buf.readUInt32LE(i) === 0x06054b50) { eocd = i; break; }
+  }
+  if (eocd < 0) throw new Error(`Not a ZIP archive: ${zipPath}`);
+
+  const count = buf.readUInt16LE(eocd + 10);
+  let offset = buf.readUInt32LE(eocd + 16);
+
+  for (let n = 0; n < count; n++) {
+    if (buf.readUInt32LE(offset) !== 0x02014b50) throw new Error('Corrupt ZIP central directory');
+    const method = buf.readUInt16LE(offset + 10);
+    const compressedSize = buf.readUInt32LE(offset + 20);
+    const nameLen = buf.readUInt16LE(offset + 28);
+    const extraLen = buf.readUInt16LE(offset + 30);
+    const commentLen = buf.readUInt16LE(offset + 32);
+    const localOffset = buf.readUInt32LE(offset + 42);
+    const name = buf.toString('utf8', offset + 46, offset + 46 + nameLen);
+
+    const localNameLen = buf.readUInt16LE(localOffset + 26);
+    const localExtraLen = buf.readUInt16LE(localOffset + 28);
+    const dataStart = localOffset + 30 + localNameLen + localExtraLen;
+    const data = buf.subarray(dataStart, dataStart + compressedSize);
+
+    if (!name.endsWith('/')) {
+      if (method === 0) entries.set(name, Buffer.from(data));
+      else if (method === 8) entries.set(name, inflateRawSync(data));
+      else console.warn(`   ⚠️  Skipping ${name}: unsupported compression method ${method}`);
+    }
+
+    offset += 46 + nameLen + extraLen + commentLen;
+  }
+
+  return entries;
+}
+
+function loadTables(bundle: string): FdcTables {
+  const tables = {} as FdcTables;
+
+  if (bundle.endsWith('.zip')) {
+    const entries = readZipEntries(bundle);
+    for (const table of TABLES) {
+      const entry = [...entries.keys()].find(k => path.basename(k) === `${table}.csv`);
+      if (!entry) throw new Error(`${table}.csv missing from ${path.basename(bundle)}`);
+      console.log(`   Reading ${entry}...`);
+      tables[table] = parseCsv(entries.get(entry)!.toString('utf8'));
+    }
+    return tables;
+  }
+
+  for (const table of TABLES) {
+    const file = path.join(bundle, `${table}.csv`);
+    if (!fs.existsSync(file)) throw new Error(`${table}.csv missing from ${bundle}`);
+    console.log(`   Reading ${file}...`);
+    tables[table] = parseCsv(fs.readFileSync(file, 'utf8'));
+  }
+  return tables;
+}
+
+function main() {
+  console.log('🌾 USDA FoodData Central Local Index');
+  console.log('====================================\n');
+
+  const bundle = path.resolve(process.argv[2] ?? DEFAULT_BUNDLE);
+  if (!fs.existsSync(bundle)) {
+    console.error(`❌ FDC bundle not found: ${bundle}`);
+    process.exit(1);
+  }
+
+  const tables = loadTables(bundle);
+  const index = buildFdcIndex(tables, { source: path.basename(bundle).replace(/\.zip$/, '') });
+
+  if (index.foods.length === 0) {
+    console.error('❌ No foods with energy data found');
+    process.exit(1);
+  }
+
+  fs.mkdirSync(path.dirname(OUTPUT_JSON), { recursive: true });
+  fs.writeFileSync(OUTPUT_JSON, JSON.stringify(index) + '\n', 'utf8');
+
+  const portions = index.foods.reduce((n, f) => n + f.portions.length, 0);
+  console.log(`\n✅ Wrote ${OUTPUT_JSON}`);
+  console.log(`   - Foods: ${index.foods.length}`);
+  console.log(`   - Portions: ${portions}`);
+}
+
+main();
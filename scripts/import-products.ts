@@ -0,0 +1,108 @@
+#!/usr/bin/env node
+/**
+ * Import packaged products from an Open Food Facts dump
+ *
+ * Streams the JSONL export (openfoodfacts-products.jsonl[.gz]) or the
+ * tab-separated CSV export (en.openfoodfacts.org.products.csv[.gz]) and upserts
+ * usable rows into packaged_products, keyed by normalised barcode.
+ *
+ * Usage:
+ *   npm run import-products -- path/to/openfoodfacts-products.jsonl.gz
+ *   npm run import-products -- path/to/products.csv --dry-run
+ *
+ * Needs SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY unless --dry-run.
+ */
+
+import 'dotenv/config';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createInterface } from 'readline';
+import { createGunzip } from 'zlib';
+import { createClient } from '@supabase/supabase-js';
+import { productFromOff, type PackagedProduct } from '../src/agents/shared/nutrition/products/packagedProduct';
+
+const BATCH_SIZE = 500;
+
+function openLines(file: string) {
+  const stream = fs.createReadStream(file);
+  const input = file.endsWith('.gz') ? stream.pipe(createGunzip()) : stream;
+  return createInterface({ input, crlfDelay: Infinity });
+}
+
+async function main() {
+  console.log('🛒 Packaged Product Import');
+  console.log('==========================\n');
+
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const file = args.find(a => !a.startsWith('--'));
+  if (!file || !fs.existsSync(file)) {
+    console.error(`❌ Dump not found: ${file ?? '(no path given)'}`);
+    process.exit(1);
+  }
+
+  const isCsv = /\.(csv|tsv)(\.gz)?$/.test(file);
+  const supabase = dryRun ? null : createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+  let headers: string[] | null = null;
+  let read = 0;
+  let skipped = 0;
+  let written = 0;
+  // Keyed by barcode so a batch never upserts the same row twice
+  let batch = new Map<string, PackagedProduct>();
+
+  const flush = async () => {
+    if (!batch.size) return;
+    const rows = [...batch.values()];
+    batch = new Map();
+    if (supabase) {
+      const { error } = await supabase.from('packaged_products').upsert(rows, { onConflict: 'barcode' });
+      if (error) throw new Error(`Upsert failed after ${written} rows: ${error.message}`);
+    }
+    written += rows.length;
+    if (written % (BATCH_SIZE * 20) < rows.length) console.log(`   ${written} products written...`);
+  };
+
+  console.log(`   Reading ${path.basename(file)} (${isCsv ? 'CSV' : 'JSONL'})${dryRun ? ' [dry run]' : ''}`);
+
+  for await (const line of openLines(file)) {
+    if (!line.trim()) continue;
+
+    let record: Record<string, unknown>;
+    if (isCsv) {
+      const values = line.split('\t');
+      if (!headers) {
+        headers = values.map(h => h.trim().toLowerCase());
+        continue;
+      }
+      record = Object.fromEntries(headers.map((h, i) => [h, values[i] ?? '']));
+    } else {
+      try {
+        record = JSON.parse(line);
+      } catch {
+        skipped++;
+        continue;
+      }
+    }
+
+    read++;
+    const product = productFromOff(record);
+    if (!product) {
+      skipped++;
+      continue;
+    }
+
+    batch.set(product.barcode, product);
+    if (batch.size >= BATCH_SIZE) await flush();
+  }
+  await flush();
+
+  console.log(`\n✅ ${dryRun ? 'Parsed' : 'Imported'} ${written} products`);
+  console.log(`   - Records read: ${read}`);
+  console.log(`   - Skipped (no barcode, name or energy): ${skipped}`);
+}
+
+main().catch(err => {
+  console.error('❌ Import failed:', err);
+  process.exit(1);
+});
@@ -24,6 +24,7 @@ import { ChatHistoryPage } from './pages/ChatHistoryPage';
 import CameraPage from './pages/CameraPage';
 import TDEEOnboardingWizard from './pages/TDEEOnboardingWizard';
 import TrainerDashboardPage from './pages/TrainerDashboardPage';
+import InvitePage from './pages/InvitePage';
 import AdminPage from './pages/AdminPage';
 
 // Admin/agents
@@ -76,6 +77,7 @@ function App() {
             element={<TDEEOnboardingWizard onComplete={() => window.location.href = '/dashboard'} />}
           />
           <Route path="trainer-dashboard" element={<TrainerDashboardPage userProfile={null} />} />
+          <Route path="invite/:token" element={<InvitePage />} />
 
           {/* ADMIN-ONLY NESTED ROUTES */}
           <Route path="admin">
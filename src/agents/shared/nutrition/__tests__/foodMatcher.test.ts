@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  MATCH_THRESHOLD,
+  getCacheStats,
+  matchKey,
+  rankFoodCandidates,
+  recordCacheLookup,
+  resetCacheStats,
+  scoreFoodMatch,
+  searchTerms,
+  trigramSimilarity,
+} from '../foodMatcher';
+
+describe('foodMatcher', () => {
+  it('treats word order, plurals and inflections as the same food', () => {
+    const key = matchKey('scrambled eggs');
+    expect(matchKey('eggs scrambled')).toBe(key);
+    expect(matchKey('Scrambled Egg')).toBe(key);
+    expect(matchKey('the scrambled eggs')).toBe(key);
+  });
+
+  it('searches stored plural and singular names alike', () => {
+    const matchesStored = (query: string, stored: string) => searchTerms(query).some(t => stored.includes(t));
+    expect(matchesStored('blueberries', 'blueberries')).toBe(true);
+    expect(matchesStored('blueberry', 'blueberries')).toBe(false);
+    expect(matchesStored('blueberries', 'blueberry')).toBe(true);
+    expect(matchesStored('cherry tomatoes', 'tomatoes cherry')).toBe(true);
+    expect(searchTerms('the blueberries')).toEqual(['blueberries', 'blueberry']);
+  });
+
+  it('scores trigram similarity like pg_trgm', () => {
+    expect(trigramSimilarity('banana', 'banana')).toBe(1);
+    expect(trigramSimilarity('banana', 'bananna')).toBeGreaterThan(0.5);
+    expect(trigramSimilarity('banana', 'steak')).toBe(0);
+  });
+
+  it('ranks close names above the threshold and unrelated names below it', () => {
+    expect(scoreFoodMatch('scrambled egg', 'eggs, scrambled')).toBe(1);
+    expect(scoreFoodMatch('grilled chicken breast', 'chicken breast grilled skinless')).toBeGreaterThan(MATCH_THRESHOLD);
+    expect(scoreFoodMatch('chicken breast', 'chocolate cake')).toBeLessThan(MATCH_THRESHOLD);
+  });
+
+  it('returns ranked candidates with scores and match kinds', () => {
+    const rows = [
+      { normalized_name: 'egg salad' },
+      { normalized_name: 'scrambled eggs' },
+      { normalized_name: 'egg white omelette' },
+    ];
+    const ranked = rankFoodCandidates('eggs scrambled', rows, r => r.normalized_name);
+    expect(ranked[0]).toMatchObject({ name: 'scrambled eggs', kind: 'exact', score: 1 });
+    expect(ranked[1].score).toBeLessThan(1);
+  });
+
+  it('uses aliases to map names with no lexical overlap', () => {
+    const rows = [{ normalized_name: 'milk, reduced fat' }, { normalized_name: 'milk chocolate' }];
+    const ranked = rankFoodCandidates('2% milk', rows, r => r.normalized_name, [
+      { canonical_name: 'milk, reduced fat', confidence: 0.95 },
+    ]);
+    expect(ranked[0]).toMatchObject({ name: 'milk, reduced fat', kind: 'alias', score: 0.95 });
+  });
+
+  describe('cache stats', () => {
+    beforeEach(() => resetCacheStats());
+
+    it('reports hit rate by match kind', () => {
+      recordCacheLookup('exact');
+      recordCacheLookup('fuzzy');
+      recordCacheLookup('alias');
+      recordCacheLookup('miss');
+      expect(getCacheStats()).toEqual({
+        lookups: 4,
+        hits: { exact: 1, alias: 1, fuzzy: 1 },
+        misses: 1,
+        hitRate: 0.75,
+      });
+    });
+  });
+});
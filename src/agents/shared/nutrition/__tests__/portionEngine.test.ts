@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  convertPortion,
+  findFoodProfile,
+  mergePortionTables,
+  normalizeUnit,
+  profileFromUnitDefault,
+  scalePer100g,
+  DEFAULT_PORTION_TABLES,
+} from '../portionEngine';
+import { portionResolver } from '../portionResolver';
+
+describe('portionEngine', () => {
+  it('normalizes unit spellings', () => {
+    expect(normalizeUnit('Tablespoons')).toBe('tbsp');
+    expect(normalizeUnit('fluid ounces')).toBe('fl oz');
+    expect(normalizeUnit('cup_cooked')).toBe('cup');
+    expect(normalizeUnit('')).toBeNull();
+  });
+
+  it('converts mass units exactly', () => {
+    const c = convertPortion({ name: 'ribeye steak', quantity: 8, unit: 'oz' });
+    expect(c.grams).toBeCloseTo(226.8, 1);
+    expect(c.method).toBe('mass');
+    expect(c.confidence).toBe(1);
+  });
+
+  it('prefers food-specific household measures', () => {
+    const rice = convertPortion({ name: 'white rice', quantity: 1, unit: 'cups' });
+    expect(rice.grams).toBe(158);
+    expect(rice.method).toBe('measure');
+    expect(rice.explanation).toContain('158 g');
+
+    const bread = convertPortion({ name: 'sourdough bread', quantity: 2, unit: 'slices' });
+    expect(bread.grams).toBe(100);
+  });
+
+  it('converts volume through food density', () => {
+    const oil = convertPortion({ name: 'olive oil', quantity: 1, unit: 'tbsp' });
+    expect(oil.method).toBe('density');
+    expect(oil.grams).toBeCloseTo(13.6, 1);
+    expect(oil.confidence).toBeGreaterThan(0.7);
+  });
+
+  it('falls back to water density with low confidence', () => {
+    const c = convertPortion({ name: 'mystery smoothie', quantity: 250, unit: 'ml' });
+    expect(c.grams).toBe(250);
+    expect(c.method).toBe('assumed');
+    expect(c.confidence).toBeLessThan(0.7);
+  });
+
+  it('reads sizes from the name or the unit', () => {
+    expect(convertPortion({ name: 'large eggs', quantity: 2, unit: null }).grams).toBe(100);
+    expect(convertPortion({ name: 'banana', quantity: 1, unit: 'small' }).grams).toBe(101);
+    const sized = convertPortion({ name: 'chicken thigh', quantity: 1, unit: 'large' });
+    expect(sized.method).toBe('size_estimate');
+  });
+
+  it('uses food-specific handfuls', () => {
+    expect(convertPortion({ name: 'almonds', quantity: 1, unit: 'handful' }).grams).toBe(28);
+    expect(convertPortion({ name: 'blueberries', quantity: 1, unit: 'handful' }).grams).toBe(75);
+  });
+
+  it('assumes default unit and quantity with a confidence penalty', () => {
+    const c = convertPortion({ name: 'banana', quantity: null, unit: null });
+    expect(c.unit).toBe('piece');
+    expect(c.grams).toBe(118);
+    expect(c.confidence).toBeLessThan(0.9);
+    expect(c.explanation).toMatch(/assumed 1/);
+  });
+
+  it('returns null grams when a unit cannot be converted', () => {
+    const c = convertPortion({ name: 'big mac', quantity: 1, unit: null });
+    expect(c.grams).toBeNull();
+    expect(c.method).toBe('unknown');
+  });
+
+  it('picks the most specific profile', () => {
+    expect(findFoodProfile('peanut butter')?.names).toEqual(['peanut butter']);
+    expect(findFoodProfile('scrambled eggs')?.names).toEqual(['egg']);
+  });
+
+  it('scales per-100 g macros', () => {
+    const m = scalePer100g({ kcal: 130, protein_g: 2.7, carbs_g: 28, fat_g: 0.3, fiber_g: 0.4 }, 158);
+    expect(m.kcal).toBeCloseTo(205.4, 1);
+  });
+
+  it('merges food_unit_defaults rows', () => {
+    const profile = profileFromUnitDefault({ food_key: 'bagel.everything', unit: 'piece', grams: 110 });
+    expect(profile?.names).toEqual(['bagel everything']);
+
+    const egg = profileFromUnitDefault({ food_key: 'egg.large', unit: 'large', grams: 52 });
+    const tables = mergePortionTables(DEFAULT_PORTION_TABLES, [profile!, egg!]);
+    expect(convertPortion({ name: 'everything bagel', quantity: 1, unit: null }, tables).grams).toBe(110);
+    expect(convertPortion({ name: 'large egg', quantity: 1, unit: null }, tables).grams).toBe(52);
+    // Built-in table untouched
+    expect(convertPortion({ name: 'large egg', quantity: 1, unit: null }).grams).toBe(50);
+  });
+});
+
+describe('portionResolver', () => {
+  it('attaches grams and explanation to each item', () => {
+    const [eggs, rice] = portionResolver([
+      { name: 'Eggs', amount: 3, unit: null },
+      { name: 'rice', amount: null, unit: null },
+    ]);
+    expect(eggs.unit).toBe('piece');
+    expect(eggs.grams).toBe(150);
+    expect(eggs.portion?.explanation).toContain('50 g');
+    expect(rice.unit).toBe('cup');
+    expect(rice.reason).toBe('Missing quantity');
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Food Aliases
+ * Reads the food_aliases table and learns new aliases from confirmed verify cards
+ */
+
+import { getSupabase } from '../../../lib/supabase';
+import { normalizeFoodName, matchKey, type FoodMatch } from './foodMatcher';
+
+export interface FoodAlias {
+  alias: string;
+  canonical_name: string;
+  confidence: number;
+}
+
+/**
+ * Aliases for a query, matched on the normalized text and the order-independent key
+ */
+export async function loadAliases(query: string): Promise<FoodAlias[]> {
+  const keys = [...new Set([normalizeFoodName(query), matchKey(query)])].filter(Boolean);
+  if (keys.length === 0) return [];
+
+  const { data, error } = await getSupabase()
+    .from('food_aliases')
+    .select('alias, canonical_name, confidence')
+    .in('alias', keys);
+
+  if (error) {
+    console.warn('[food-aliases] Lookup failed:', error);
+    return [];
+  }
+  return (data ?? []) as FoodAlias[];
+}
+
+/**
+ * Vote for user-confirmed fuzzy matches as aliases. A mapping only becomes a
+ * shared alias once several users confirm it (food_alias_votes trigger).
+ * Exact matches teach nothing.
+ */
+export async function recordConfirmedMatches(items: Array<{ match?: FoodMatch | null }>): Promise<number> {
+  const matches = items
+    .map(i => i.match)
+    .filter((m): m is FoodMatch => !!m && m.kind !== 'exact');
+
+  let recorded = 0;
+  for (const m of matches) {
+    const { error } = await getSupabase()
+      .from('food_alias_votes')
+      .upsert({ alias: normalizeFoodName(m.query), canonical_name: m.matched_name }, { onConflict: 'user_id,alias' });
+    if (error) {
+      console.warn('[food-aliases] Failed to record alias:', m.query, '→', m.matched_name, error);
+    } else {
+      recorded++;
+    }
+  }
+
+  if (recorded > 0) {
+    console.log(`[food-aliases] Voted for ${recorded} alias(es) from confirmed meal`);
+  }
+  return recorded;
+}
@@ -0,0 +1,192 @@
+/**
+ * Food Name Matcher
+ * Ranks cache entries against free-text food names so "scrambled eggs",
+ * "eggs scrambled" and "scrambled egg" resolve to the same entry.
+ *
+ * Pure functions only; data access lives in the providers and foodAliases.
+ */
+
+export type MatchKind = 'exact' | 'alias' | 'fuzzy';
+
+export interface FoodMatch {
+  query: string;          // Name as the user typed it
+  matched_name: string;   // Cache entry name it resolved to
+  score: number;          // 0..1
+  kind: MatchKind;
+}
+
+export interface MatchCandidate<T> {
+  name: string;
+  score: number;
+  kind: MatchKind;
+  entry: T;
+}
+
+// Candidates below this score are treated as misses
+export const MATCH_THRESHOLD = 0.6;
+
+const STOPWORDS = new Set(['a', 'an', 'the', 'of', 'some', 'my', 'fresh', 'plain']);
+
+/**
+ * Reduce plural forms to singular ("berries" → "berry", "tomatoes" → "tomato")
+ */
+export function singularize(token: string): string {
+  if (token.length <= 3) return token;
+  if (token.endsWith('ies')) return token.slice(0, -3) + 'y';
+  if (/(ch|sh|x|o)es$/.test(token)) return token.slice(0, -2);
+  if (token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+  return token;
+}
+
+/**
+ * Light stemming on top of singularization ("scrambled"/"scrambling" → "scrambl")
+ */
+export function stemToken(token: string): string {
+  const t = singularize(token);
+  if (t.length > 5 && t.endsWith('ing')) return t.slice(0, -3);
+  if (t.length > 4 && t.endsWith('ed')) return t.slice(0, -2).replace(/e$/, '');
+  return t;
+}
+
+/**
+ * Lower-case, strip punctuation, collapse whitespace
+ */
+export function normalizeFoodName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9%\s]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function foodTokens(name: string): string[] {
+  return normalizeFoodName(name)
+    .split(' ')
+    .filter(t => t && !STOPWORDS.has(t))
+    .map(stemToken);
+}
+
+/**
+ * Substring search terms for candidate lookups: each token as typed and its
+ * stem. Stems alone miss stored plurals ("blueberry" is not a substring of
+ * "blueberries"), raw tokens alone miss stored singulars.
+ */
+export function searchTerms(name: string): string[] {
+  const raw = normalizeFoodName(name).split(' ').filter(t => t && !STOPWORDS.has(t));
+  return [...new Set(raw.flatMap(t => [t, stemToken(t)]))];
+}
+
+/**
+ * Order-independent key: equal keys are the same food
+ */
+export function matchKey(name: string): string {
+  return [...new Set(foodTokens(name))].sort().join(' ');
+}
+
+/**
+ * pg_trgm-style trigrams: each word padded with two leading and one trailing space
+ */
+export function trigrams(text: string): Set<string> {
+  const grams = new Set<string>();
+  for (const word of normalizeFoodName(text).split(' ').filter(Boolean)) {
+    const padded = `  ${word} `;
+    for (let i = 0; i < padded.length - 2; i++) {
+      grams.add(padded.slice(i, i + 3));
+    }
+  }
+  return grams;
+}
+
+export function trigramSimilarity(a: string, b: string): number {
+  const ta = trigrams(a);
+  const tb = trigrams(b);
+  if (ta.size === 0 || tb.size === 0) return 0;
+  let shared = 0;
+  ta.forEach(g => { if (tb.has(g)) shared++; });
+  return shared / (ta.size + tb.size - shared);
+}
+
+function tokenOverlap(a: string[], b: string[]): number {
+  const sa = new Set(a);
+  const sb = new Set(b);
+  if (sa.size === 0 || sb.size === 0) return 0;
+  let shared = 0;
+  sa.forEach(t => { if (sb.has(t)) shared++; });
+  return shared / Math.max(sa.size, sb.size);
+}
+
+/**
+ * Similarity between a query and a candidate name, 0..1
+ */
+export function scoreFoodMatch(query: string, candidate: string): number {
+  const qKey = matchKey(query);
+  if (!qKey) return 0;
+  if (qKey === matchKey(candidate)) return 1;
+
+  const overlap = tokenOverlap(foodTokens(query), foodTokens(candidate));
+  const trigram = trigramSimilarity(qKey, matchKey(candidate));
+  return Math.round((0.6 * overlap + 0.4 * trigram) * 1000) / 1000;
+}
+
+/**
+ * Rank candidates for a query, best first.
+ * `aliases` holds canonical names the query is known to map to; a candidate
+ * matching one of them scores as an alias hit at the alias' confidence.
+ */
+export function rankFoodCandidates<T>(
+  query: string,
+  candidates: T[],
+  nameOf: (entry: T) => string,
+  aliases: Array<{ canonical_name: string; confidence: number }> = []
+): MatchCandidate<T>[] {
+  const aliasKeys = new Map(aliases.map(a => [matchKey(a.canonical_name), a.confidence]));
+
+  return candidates
+    .map(entry => {
+      const name = nameOf(entry);
+      const fuzzy = scoreFoodMatch(query, name);
+      if (fuzzy === 1) return { name, score: 1, kind: 'exact' as const, entry };
+
+      const aliasConfidence = aliasKeys.get(matchKey(name));
+      if (aliasConfidence !== undefined && aliasConfidence >= fuzzy) {
+        return { name, score: aliasConfidence, kind: 'alias' as const, entry };
+      }
+      return { name, score: fuzzy, kind: 'fuzzy' as const, entry };
+    })
+    .sort((a, b) => b.score - a.score || a.name.length - b.name.length);
+}
+
+/**
+ * Cache lookup counters, exposed as a telemetry stat
+ */
+export interface CacheStats {
+  lookups: number;
+  hits: Record<MatchKind, number>;
+  misses: number;
+  hitRate: number;
+}
+
+const counters = { lookups: 0, misses: 0, hits: { exact: 0, alias: 0, fuzzy: 0 } as Record<MatchKind, number> };
+
+export function recordCacheLookup(kind: MatchKind | 'miss'): void {
+  counters.lookups++;
+  if (kind === 'miss') counters.misses++;
+  else counters.hits[kind]++;
+}
+
+export function getCacheStats(): CacheStats {
+  const hits = counters.hits.exact + counters.hits.alias + counters.hits.fuzzy;
+  return {
+    lookups: counters.lookups,
+    hits: { ...counters.hits },
+    misses: counters.misses,
+    hitRate: counters.lookups ? Math.round((hits / counters.lookups) * 1000) / 1000 : 0,
+  };
+}
+
+export function resetCacheStats(): void {
+  counters.lookups = 0;
+  counters.misses = 0;
+  counters.hits = { exact: 0, alias: 0, fuzzy: 0 };
+}
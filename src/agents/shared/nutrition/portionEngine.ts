@@ -0,0 +1,451 @@
+/**
+ * Portion Engine
+ * Converts quantity + unit (cups, tbsp, oz, ml, slices, handful, small/medium/large)
+ * into grams using per-food densities and household measures.
+ *
+ * Every conversion carries a confidence and a one-line explanation so the
+ * verify card can show how a portion was sized. Household measures are seeded
+ * from food_unit_defaults; loadPortionTables() merges the live table on top.
+ */
+
+import { getSupabase } from '../../../lib/supabase';
+import { foodTokens } from './foodMatcher';
+
+export type PortionMethod =
+  | 'mass'           // g, oz, lb: exact
+  | 'measure'        // Food-specific household measure (1 slice bread = 40 g)
+  | 'density'        // Volume × food density
+  | 'size_estimate'  // Size scaled from the food's medium/default measure
+  | 'assumed'        // Generic guess (water density, 100 g piece)
+  | 'unknown';
+
+export interface PortionConversion {
+  quantity: number;              // Quantity actually used (1 when missing)
+  unit: string | null;           // Canonical unit
+  grams: number | null;          // Total grams for quantity × unit (null when unknown)
+  grams_per_unit: number | null;
+  confidence: number;            // 0..1
+  method: PortionMethod;
+  explanation: string;
+}
+
+export interface PortionInput {
+  name: string;
+  quantity: number | null;
+  unit: string | null;
+}
+
+export interface FoodPortionProfile {
+  names: string[];                               // Any name whose tokens are all present matches
+  density?: number;                              // g/ml
+  measures?: Partial<Record<string, number>>;    // Grams per household measure
+  default_unit?: string;                         // Unit assumed when none given
+}
+
+export interface PortionTables {
+  foods: FoodPortionProfile[];
+}
+
+export const MASS_GRAMS: Record<string, number> = {
+  g: 1,
+  kg: 1000,
+  oz: 28.3495,
+  lb: 453.592,
+};
+
+export const VOLUME_ML: Record<string, number> = {
+  ml: 1,
+  l: 1000,
+  tsp: 4.929,
+  tbsp: 14.787,
+  'fl oz': 29.574,
+  cup: 236.588,
+  pint: 473.176,
+  quart: 946.353,
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  g: 'g', gr: 'g', gram: 'g', grams: 'g', gm: 'g',
+  kg: 'kg', kilo: 'kg', kilos: 'kg', kilogram: 'kg', kilograms: 'kg',
+  oz: 'oz', ounce: 'oz', ounces: 'oz',
+  lb: 'lb', lbs: 'lb', pound: 'lb', pounds: 'lb',
+  ml: 'ml', milliliter: 'ml', milliliters: 'ml', millilitre: 'ml', millilitres: 'ml',
+  l: 'l', liter: 'l', liters: 'l', litre: 'l', litres: 'l',
+  tsp: 'tsp', teaspoon: 'tsp', teaspoons: 'tsp',
+  tbsp: 'tbsp', tbs: 'tbsp', tablespoon: 'tbsp', tablespoons: 'tbsp',
+  'fl oz': 'fl oz', floz: 'fl oz', 'fluid ounce': 'fl oz', 'fluid ounces': 'fl oz',
+  cup: 'cup', cups: 'cup', cup_cooked: 'cup',
+  pint: 'pint', pints: 'pint', quart: 'quart', quarts: 'quart',
+  slice: 'slice', slices: 'slice',
+  piece: 'piece', pieces: 'piece', pc: 'piece', pcs: 'piece', each: 'piece', whole: 'piece', item: 'piece',
+  handful: 'handful', handfuls: 'handful',
+  scoop: 'scoop', scoops: 'scoop',
+  serving: 'serving', servings: 'serving', portion: 'serving', portions: 'serving',
+  small: 'small', medium: 'medium', large: 'large',
+  'extra large': 'extra large', xl: 'extra large', jumbo: 'jumbo',
+};
+
+const SIZE_UNITS = ['small', 'medium', 'large', 'extra large', 'jumbo'];
+
+// Relative to the medium (or default) measure when a food has no size table
+const SIZE_FACTORS: Record<string, number> = {
+  small: 0.75,
+  medium: 1,
+  large: 1.3,
+  'extra large': 1.5,
+  jumbo: 1.7,
+};
+
+// Food-agnostic fallbacks when nothing better is known
+const GENERIC_MEASURES: Record<string, number> = {
+  handful: 30,
+  scoop: 30,
+  piece: 100,
+  serving: 100,
+};
+
+/**
+ * Built-in tables. Measures are USDA household weights; the food_unit_defaults
+ * seed rows (bacon, bread, egg, cheese, rice, chicken breast, steak) are included.
+ */
+export const DEFAULT_PORTION_TABLES: PortionTables = {
+  foods: [
+    // Count foods
+    { names: ['egg'], measures: { piece: 50, small: 38, medium: 44, large: 50, 'extra large': 56, jumbo: 63 }, default_unit: 'piece' },
+    { names: ['egg white'], measures: { piece: 33, large: 33 }, default_unit: 'piece' },
+    { names: ['banana'], measures: { piece: 118, small: 101, medium: 118, large: 136 }, default_unit: 'piece' },
+    { names: ['apple'], measures: { piece: 182, small: 149, medium: 182, large: 223 }, default_unit: 'piece' },
+    { names: ['orange'], measures: { piece: 131, small: 96, medium: 131, large: 184 }, default_unit: 'piece' },
+    { names: ['avocado'], measures: { piece: 150, small: 120, medium: 150, large: 200 }, default_unit: 'piece' },
+    { names: ['potato'], measures: { piece: 213, small: 170, medium: 213, large: 299 }, default_unit: 'piece' },
+    { names: ['sweet potato'], measures: { piece: 130, small: 60, medium: 130, large: 180 }, default_unit: 'piece' },
+    { names: ['tomato'], measures: { piece: 123, small: 91, medium: 123, large: 182 }, default_unit: 'piece' },
+    { names: ['carrot'], measures: { piece: 61, small: 50, medium: 61, large: 72 }, default_unit: 'piece' },
+    { names: ['tortilla'], measures: { piece: 45, small: 30, medium: 45, large: 70 }, default_unit: 'piece' },
+    { names: ['bagel'], measures: { piece: 105, small: 70, medium: 105, large: 131 }, default_unit: 'piece' },
+    { names: ['english muffin'], measures: { piece: 57 }, default_unit: 'piece' },
+    { names: ['pancake'], measures: { piece: 38, small: 22, medium: 38, large: 77 }, default_unit: 'piece' },
+    { names: ['cookie'], measures: { piece: 30, small: 15, medium: 30, large: 60 }, default_unit: 'piece' },
+
+    // Sliced foods
+    { names: ['bread'], measures: { slice: 40, piece: 40 }, default_unit: 'slice' },
+    { names: ['sourdough bread', 'sourdough'], measures: { slice: 50, piece: 50 }, default_unit: 'slice' },
+    { names: ['toast'], measures: { slice: 40, piece: 40 }, default_unit: 'slice' },
+    { names: ['bacon'], measures: { slice: 10, piece: 10 }, default_unit: 'slice' },
+    { names: ['cheese'], density: 0.48, measures: { slice: 23, cup: 113, handful: 28 } },
+    { names: ['pizza'], measures: { slice: 107, piece: 107 }, default_unit: 'slice' },
+    { names: ['ham'], measures: { slice: 28 } },
+    { names: ['turkey'], measures: { slice: 28, serving: 85 } },
+
+    // Proteins
+    { names: ['chicken breast'], measures: { piece: 170, serving: 170, small: 120, medium: 170, large: 225 }, default_unit: 'serving' },
+    { names: ['chicken thigh'], measures: { piece: 116, serving: 116 }, default_unit: 'piece' },
+    { names: ['steak'], measures: { piece: 227, serving: 227, small: 170, medium: 227, large: 340 }, default_unit: 'serving' },
+    { names: ['salmon'], measures: { piece: 170, serving: 170 }, default_unit: 'serving' },
+    { names: ['protein powder'], measures: { scoop: 30, serving: 30 }, default_unit: 'scoop' },
+    { names: ['whey'], measures: { scoop: 30, serving: 30 }, default_unit: 'scoop' },
+
+    // Grains and legumes (cooked unless noted)
+    { names: ['rice'], density: 0.668, measures: { cup: 158 }, default_unit: 'cup' },
+    { names: ['oatmeal'], density: 0.99, measures: { cup: 234 }, default_unit: 'cup' },
+    { names: ['oat'], density: 0.34, measures: { cup: 81 }, default_unit: 'cup' },
+    { names: ['pasta'], density: 0.59, measures: { cup: 140 } },
+    { names: ['spaghetti'], density: 0.59, measures: { cup: 140 } },
+    { names: ['quinoa'], density: 0.78, measures: { cup: 185 } },
+    { names: ['bean'], density: 0.73, measures: { cup: 172 } },
+    { names: ['lentil'], density: 0.84, measures: { cup: 198 } },
+    { names: ['cereal'], density: 0.13, measures: { cup: 30 } },
+    { names: ['granola'], density: 0.51, measures: { cup: 122 } },
+    { names: ['flour'], density: 0.53, measures: { cup: 125 } },
+
+    // Produce
+    { names: ['broccoli'], density: 0.38, measures: { cup: 91, handful: 40 }, default_unit: 'cup' },
+    { names: ['spinach'], density: 0.13, measures: { cup: 30, handful: 30 }, default_unit: 'cup' },
+    { names: ['lettuce'], density: 0.15, measures: { cup: 36, handful: 20 } },
+    { names: ['salad'], density: 0.15, measures: { cup: 36, handful: 20 } },
+    { names: ['berry'], density: 0.63, measures: { cup: 148, handful: 75 } },
+    { names: ['blueberry'], density: 0.63, measures: { cup: 148, handful: 75 } },
+    { names: ['strawberry'], density: 0.64, measures: { cup: 152, handful: 75, piece: 12 } },
+    { names: ['grape'], density: 0.64, measures: { cup: 151, handful: 75, piece: 5 } },
+
+    // Snacks
+    { names: ['almond'], density: 0.6, measures: { cup: 143, handful: 28, piece: 1.2 } },
+    { names: ['nut'], density: 0.6, measures: { cup: 140, handful: 28 } },
+    { names: ['peanut'], density: 0.62, measures: { cup: 146, handful: 28 } },
+    { names: ['chip'], measures: { handful: 28, serving: 28 } },
+    { names: ['popcorn'], density: 0.03, measures: { cup: 8, handful: 8 } },
+
+    // Liquids and spreads
+    { names: ['water'], density: 1.0 },
+    { names: ['milk'], density: 1.03, measures: { cup: 244 }, default_unit: 'cup' },
+    { names: ['juice'], density: 1.04, measures: { cup: 248 } },
+    { names: ['coffee'], density: 1.0 },
+    { names: ['yogurt'], density: 1.04, measures: { cup: 245 }, default_unit: 'cup' },
+    { names: ['olive oil'], density: 0.92 },
+    { names: ['oil'], density: 0.92 },
+    { names: ['butter'], density: 0.96, measures: { tbsp: 14.2, piece: 5 } },
+    { names: ['peanut butter'], density: 1.08, measures: { tbsp: 16 } },
+    { names: ['honey'], density: 1.42, measures: { tbsp: 21 } },
+    { names: ['maple syrup'], density: 1.32, measures: { tbsp: 20 } },
+    { names: ['sugar'], density: 0.85, measures: { tsp: 4.2, tbsp: 12.5 } },
+    { names: ['hummus'], density: 1.0, measures: { tbsp: 15 } },
+  ],
+};
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+function fmt(n: number): string {
+  return String(round1(n));
+}
+
+/**
+ * Canonical unit name, or the trimmed lower-case input when unknown
+ */
+export function normalizeUnit(unit: string | null | undefined): string | null {
+  if (!unit) return null;
+  const u = unit.trim().toLowerCase().replace(/\.$/, '').replace(/\s+/g, ' ');
+  if (!u) return null;
+  return UNIT_ALIASES[u] ?? u;
+}
+
+/**
+ * Most specific profile whose name tokens all appear in the food name
+ */
+export function findFoodProfile(name: string, tables: PortionTables = DEFAULT_PORTION_TABLES): FoodPortionProfile | null {
+  const tokens = new Set(foodTokens(name));
+  let best: FoodPortionProfile | null = null;
+  let bestSize = 0;
+
+  for (const profile of tables.foods) {
+    for (const candidate of profile.names) {
+      const needed = foodTokens(candidate);
+      if (needed.length > bestSize && needed.every(t => tokens.has(t))) {
+        best = profile;
+        bestSize = needed.length;
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Size word mentioned in the name ("large egg", "small banana")
+ */
+function sizeFromName(name: string): string | null {
+  const lower = name.toLowerCase();
+  if (/\b(extra[\s-]large|xl)\b/.test(lower)) return 'extra large';
+  for (const size of SIZE_UNITS) {
+    if (new RegExp(`\\b${size}\\b`).test(lower)) return size;
+  }
+  return null;
+}
+
+/**
+ * Grams for one unit of the food, with how it was derived
+ */
+function gramsPerUnit(
+  name: string,
+  unit: string,
+  profile: FoodPortionProfile | null
+): { grams: number; confidence: number; method: PortionMethod; explanation: string } | null {
+  if (MASS_GRAMS[unit]) {
+    return { grams: MASS_GRAMS[unit], confidence: 1, method: 'mass', explanation: `1 ${unit} = ${fmt(MASS_GRAMS[unit])} g` };
+  }
+
+  const measured = profile?.measures?.[unit];
+  if (measured) {
+    return { grams: measured, confidence: 0.9, method: 'measure', explanation: `1 ${unit} ${name} ≈ ${fmt(measured)} g (household measure)` };
+  }
+
+  if (VOLUME_ML[unit]) {
+    const ml = VOLUME_ML[unit];
+    if (profile?.density) {
+      const grams = ml * profile.density;
+      return {
+        grams,
+        confidence: 0.8,
+        method: 'density',
+        explanation: `1 ${unit} = ${fmt(ml)} ml × ${profile.density} g/ml ≈ ${fmt(grams)} g`,
+      };
+    }
+    return { grams: ml, confidence: 0.5, method: 'assumed', explanation: `1 ${unit} = ${fmt(ml)} ml, assumed density of water` };
+  }
+
+  if (SIZE_UNITS.includes(unit) && profile?.measures) {
+    const base = profile.measures.medium ?? profile.measures.piece ?? profile.measures.serving;
+    if (base) {
+      const grams = base * SIZE_FACTORS[unit];
+      return {
+        grams,
+        confidence: 0.6,
+        method: 'size_estimate',
+        explanation: `${unit} ${name} estimated at ${SIZE_FACTORS[unit]}× a ${fmt(base)} g portion`,
+      };
+    }
+  }
+
+  const generic = GENERIC_MEASURES[SIZE_UNITS.includes(unit) ? 'piece' : unit];
+  if (generic) {
+    const grams = generic * (SIZE_FACTORS[unit] ?? 1);
+    return { grams, confidence: 0.3, method: 'assumed', explanation: `No ${unit} weight for ${name}; assumed ${fmt(grams)} g` };
+  }
+
+  return null;
+}
+
+/**
+ * Convert one item's quantity + unit to grams
+ */
+export function convertPortion(input: PortionInput, tables: PortionTables = DEFAULT_PORTION_TABLES): PortionConversion {
+  const name = (input.name ?? '').trim().toLowerCase();
+  const profile = findFoodProfile(name, tables);
+  let unit = normalizeUnit(input.unit);
+  const notes: string[] = [];
+  let penalty = 1;
+
+  // "2 large eggs": size lives in the name, the unit is a count
+  const size = sizeFromName(name);
+  if (size && (!unit || (unit === 'piece' && profile?.measures?.[size]))) {
+    unit = size;
+  }
+
+  if (!unit) {
+    unit = profile?.default_unit ?? (profile?.measures ? Object.keys(profile.measures)[0] : null) ?? null;
+    if (unit) {
+      notes.push(`no unit given, assumed ${unit}`);
+      penalty *= 0.85;
+    }
+  }
+
+  const quantity = input.quantity != null && input.quantity > 0 ? input.quantity : 1;
+  if (input.quantity == null) {
+    notes.push('no quantity given, assumed 1');
+    penalty *= 0.8;
+  }
+
+  const perUnit = unit ? gramsPerUnit(name, unit, profile) : null;
+
+  if (!perUnit) {
+    return {
+      quantity,
+      unit,
+      grams: null,
+      grams_per_unit: null,
+      confidence: 0.2,
+      method: 'unknown',
+      explanation: [`No gram weight for ${unit ? `"${unit}" of ` : ''}${name || 'item'}; using the source's serving size`, ...notes].join('; '),
+    };
+  }
+
+  const grams = perUnit.grams * quantity;
+  const head = quantity === 1
+    ? perUnit.explanation
+    : `${fmt(quantity)} × ${fmt(perUnit.grams)} g = ${fmt(grams)} g (${perUnit.explanation})`;
+
+  return {
+    quantity,
+    unit,
+    grams: round1(grams),
+    grams_per_unit: round1(perUnit.grams),
+    confidence: Math.round(perUnit.confidence * penalty * 100) / 100,
+    method: perUnit.method,
+    explanation: [head, ...notes].join('; '),
+  };
+}
+
+export interface Per100g {
+  kcal: number;
+  protein_g: number;
+  carbs_g: number;
+  fat_g: number;
+  fiber_g: number;
+}
+
+/**
+ * Scale per-100 g macros to the converted portion
+ */
+export function scalePer100g(per100g: Per100g, grams: number): Per100g {
+  const factor = grams / 100;
+  return {
+    kcal: per100g.kcal * factor,
+    protein_g: per100g.protein_g * factor,
+    carbs_g: per100g.carbs_g * factor,
+    fat_g: per100g.fat_g * factor,
+    fiber_g: per100g.fiber_g * factor,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// food_unit_defaults
+// ---------------------------------------------------------------------------
+
+interface FoodUnitDefaultRow {
+  food_key: string;
+  unit: string;
+  grams: number;
+}
+
+const KEY_NOISE = new Set(['cooked', 'raw', 'default']);
+
+/**
+ * 'bread.sourdough.slice' + unit 'slice' → profile "bread sourdough" { slice: 50 }
+ */
+export function profileFromUnitDefault(row: FoodUnitDefaultRow): FoodPortionProfile | null {
+  const unit = normalizeUnit(row.unit);
+  const grams = Number(row.grams);
+  if (!unit || !(grams > 0)) return null;
+
+  const unitWords = new Set([row.unit.toLowerCase(), unit, ...row.unit.toLowerCase().split('_')]);
+  const words = row.food_key
+    .toLowerCase()
+    .split(/[._]/)
+    .filter(w => w && !KEY_NOISE.has(w) && !unitWords.has(w));
+  if (words.length === 0) return null;
+
+  return { names: [words.join(' ')], measures: { [unit]: grams }, default_unit: unit };
+}
+
+/**
+ * Merge profiles: measures from `extra` override built-ins for the same name
+ */
+export function mergePortionTables(base: PortionTables, extra: FoodPortionProfile[]): PortionTables {
+  const foods: FoodPortionProfile[] = base.foods.map(f => ({ ...f, measures: { ...f.measures } }));
+  for (const profile of extra) {
+    const key = profile.names[0];
+    const existing = foods.find(f => f.names.includes(key));
+    if (existing) {
+      existing.measures = { ...existing.measures, ...profile.measures };
+      existing.default_unit ??= profile.default_unit;
+    } else {
+      foods.push(profile);
+    }
+  }
+  return { foods };
+}
+
+let tablesPromise: Promise<PortionTables> | null = null;
+
+/**
+ * Built-in tables merged with food_unit_defaults (loaded once per session)
+ */
+export function loadPortionTables(): Promise<PortionTables> {
+  tablesPromise ??= (async () => {
+    try {
+      const supabase = getSupabase();
+      const { data, error } = await supabase
+        .from('food_unit_defaults')
+        .select('food_key, unit, grams');
+      if (error) throw error;
+
+      const extra = (data ?? [])
+        .map(row => profileFromUnitDefault(row as FoodUnitDefaultRow))
+        .filter((p): p is FoodPortionProfile => p !== null);
+      return mergePortionTables(DEFAULT_PORTION_TABLES, extra);
+    } catch (err) {
+      console.warn('[portionEngine] Failed to load food_unit_defaults, using built-in tables:', err);
+      tablesPromise = null; // Retry next time
+      return DEFAULT_PORTION_TABLES;
+    }
+  })();
+  return tablesPromise;
+}
@@ -1,4 +1,5 @@
 import type { PortionedItem } from "./types";
+import { convertPortion, DEFAULT_PORTION_TABLES, type PortionTables } from "./portionEngine";
 
 type RawItem = { 
   name: string; 
@@ -12,51 +13,24 @@ type RawItem = {
   is_branded?: boolean;
 };
 
-const UNIT_MAP: Record<string, string> = {
-  piece: "piece", pieces: "piece", egg: "piece", eggs: "piece",
-  cup: "cup", cups: "cup", tbsp: "tbsp", teaspoon: "tsp", tsp: "tsp",
-  gram: "g", grams: "g", g: "g", kilogram: "g", kg: "g",
-  ounce: "oz", ounces: "oz", oz: "oz", ml: "ml",
-  slice: "slice", slices: "slice"
-};
-
-function normUnit(u: string | null): string | null {
-  if (!u) return null;
-  const k = u.trim().toLowerCase();
-  return UNIT_MAP[k] ?? u.trim().toLowerCase();
-}
-
-export function portionResolver(raw: RawItem[]): PortionedItem[] {
+/**
+ * Resolve units and gram weights through the portion engine.
+ * Items without a unit get the food's default household measure (egg → piece, rice → cup).
+ */
+export function portionResolver(raw: RawItem[], tables: PortionTables = DEFAULT_PORTION_TABLES): PortionedItem[] {
   return (raw ?? []).map((it) => {
     const name = (it?.name ?? "").trim().toLowerCase();
-    let quantity = it?.amount ?? null;
-    let unit = normUnit(it?.unit ?? null);
-    let confidence = 0.0;
-
-    // Simple rules
-    if (!unit) {
-      if (/\begg(s)?\b/.test(name)) unit = "piece";
-      if (/\b(sourdough|bread)\b/.test(name)) unit = "slice";
-      if (/\boatmeal\b/.test(name)) unit = "cup";
-      if (/\bmilk\b/.test(name)) unit = "cup";
-      if (/\brice\b/.test(name)) unit = "cup";
-      if (/\byogurt\b/.test(name)) unit = "cup";
-      if (/\bbroccoli\b/.test(name)) unit = "cup";
-      if (/\bspinach\b/.test(name)) unit = "cup";
-      if (/\bbanana\b/.test(name)) unit = "piece";
-      if (/\bapple\b/.test(name)) unit = "piece";
-    }
+    const quantity = it?.amount ?? null;
+    const portion = convertPortion({ name, quantity, unit: it?.unit ?? null }, tables);
+    const unit = portion.unit;
 
     let reason: string | undefined = undefined;
-    
-    if (quantity !== null && unit) {
-      confidence = 1.0;
-    } else if (quantity === null && unit) {
-      confidence = 0.9;
-      reason = "Missing quantity";
-    } else {
-      confidence = 0.0;
+    if (quantity === null && !unit) {
       reason = "Missing both quantity and unit";
+    } else if (quantity === null) {
+      reason = "Missing quantity";
+    } else if (portion.confidence < 0.7) {
+      reason = portion.explanation;
     }
 
     // Preserve brand fields if present
@@ -64,8 +38,10 @@ export function portionResolver(raw: RawItem[]): PortionedItem[] {
       name, 
       quantity, 
       unit, 
-      confidence, 
+      confidence: portion.confidence,
       reason,
+      grams: portion.grams,
+      portion,
       brand: it?.brand ?? null,
       serving_label: it?.serving_label ?? null,
       size_label: it?.size_label ?? null,
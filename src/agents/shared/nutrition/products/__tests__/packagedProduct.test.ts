@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { parseServingSize, productFromOff, productServing, type PackagedProduct } from '../packagedProduct';
+import { rankProducts, type ProductStore } from '../productStore';
+import { createPackagedProductProvider } from '../../providers/packagedProducts';
+
+const nutella: PackagedProduct = {
+  barcode: '3017620422003',
+  name: 'Nutella',
+  brand: 'Ferrero',
+  serving_label: '15 g',
+  serving_g: 15,
+  kcal_100g: 539,
+  protein_100g: 6.3,
+  carbs_100g: 57.5,
+  fat_100g: 30.9,
+  fiber_100g: 0,
+  source: 'open_food_facts',
+};
+
+const cheerios: PackagedProduct = {
+  ...nutella,
+  barcode: '0016000275287',
+  name: 'Honey Nut Cheerios',
+  brand: 'General Mills',
+  serving_label: '1 cup (37 g)',
+  serving_g: 37,
+  kcal_100g: 378,
+  protein_100g: 8.1,
+  carbs_100g: 78.4,
+  fat_100g: 5.4,
+  fiber_100g: 8.1,
+};
+
+describe('parseServingSize', () => {
+  it('prefers metric amounts in the label', () => {
+    expect(parseServingSize('30 g')).toBe(30);
+    expect(parseServingSize('1 cup (240 ml)')).toBe(240);
+    expect(parseServingSize('2 biscuits (25,5g)')).toBe(25.5);
+    expect(parseServingSize('1 oz')).toBe(28.3);
+    expect(parseServingSize('1 bar')).toBeNull();
+  });
+});
+
+describe('productFromOff', () => {
+  it('reads a JSONL record with nested nutriments', () => {
+    const product = productFromOff({
+      code: '3017620422003',
+      product_name: 'Nutella',
+      brands: 'Ferrero,Nutella',
+      serving_size: '15 g',
+      serving_quantity: 15,
+      nutriments: { 'energy-kcal_100g': 539, proteins_100g: 6.3, carbohydrates_100g: 57.5, fat_100g: 30.9 },
+    });
+    expect(product).toMatchObject({ barcode: '3017620422003', brand: 'Ferrero', serving_g: 15, kcal_100g: 539, fiber_100g: 0 });
+  });
+
+  it('reads a flat CSV row, pads UPC-A and converts kJ', () => {
+    const product = productFromOff({
+      code: '016000275287',
+      product_name: 'Honey Nut Cheerios',
+      brands: 'General Mills',
+      serving_size: '1 cup (37 g)',
+      serving_quantity: '',
+      energy_100g: '1582',
+      proteins_100g: '8.1',
+      carbohydrates_100g: '78.4',
+      fat_100g: '5.4',
+      fiber_100g: '8.1',
+    });
+    expect(product).toMatchObject({ barcode: '0016000275287', serving_g: 37, kcal_100g: 378.1 });
+  });
+
+  it('skips records without a valid barcode, name or energy', () => {
+    expect(productFromOff({ code: '123', product_name: 'x', 'energy-kcal_100g': 100 })).toBeNull();
+    expect(productFromOff({ code: '3017620422003', product_name: '', 'energy-kcal_100g': 100 })).toBeNull();
+    expect(productFromOff({ code: '3017620422003', product_name: 'Nutella' })).toBeNull();
+  });
+});
+
+describe('productServing', () => {
+  it('counts label servings unless the unit is a mass or volume', () => {
+    expect(productServing(cheerios)).toMatchObject({ grams: 37, label: '1 cup (37 g)' });
+    expect(productServing(cheerios, 2, 'serving').grams).toBe(74);
+    expect(productServing(nutella, 100, 'g').macros.kcal).toBeCloseTo(539);
+  });
+});
+
+describe('rankProducts', () => {
+  it('needs half the query words to match', () => {
+    expect(rankProducts('honey nut cheerios', [nutella, cheerios])?.barcode).toBe(cheerios.barcode);
+    expect(rankProducts('multigrain cheerios with oats', [cheerios])).toBeNull();
+  });
+});
+
+describe('packagedProducts provider', () => {
+  const store: ProductStore = {
+    getByBarcode: async code => [nutella, cheerios].find(p => p.barcode === code) ?? null,
+    search: async name => rankProducts(name, [nutella, cheerios]),
+  };
+  const provider = createPackagedProductProvider(store);
+
+  it('resolves barcodes exactly with per-serving macros', async () => {
+    const item = { name: 'nutella', amount: 2, unit: null, barcode: '3017620422003' };
+    expect(provider.supports(item)).toBe(true);
+
+    const result = await provider.fetch(item);
+    expect(result).toMatchObject({ serving_label: '15 g', grams_per_serving: 15, source: 'packaged_products', confidence: 0.98 });
+    expect(result?.macros.kcal).toBeCloseTo(539 * 0.3);
+    expect(result?.portion?.grams).toBe(30);
+  });
+
+  it('searches branded items by name and ignores unbranded ones', async () => {
+    expect(provider.supports({ name: 'cheerios', amount: 1, unit: 'cup' })).toBe(false);
+
+    const result = await provider.fetch({ name: 'honey nut cheerios', amount: 1, unit: null, brand: 'General Mills', is_branded: true });
+    expect(result?.grams_per_serving).toBe(37);
+    expect(result?.confidence).toBe(0.85);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Packaged products
+ * Label nutrition keyed by barcode, imported from Open Food Facts-style dumps
+ * into packaged_products by `npm run import-products`.
+ */
+
+import { normalizeBarcode } from '../../../../lib/barcode/decode';
+import { MASS_GRAMS, VOLUME_ML, normalizeUnit, scalePer100g, type Per100g } from '../portionEngine';
+
+export interface PackagedProduct {
+  barcode: string;
+  name: string;
+  brand: string | null;
+  /** Serving as printed on the label ("1 bar (40 g)") */
+  serving_label: string | null;
+  serving_g: number | null;
+  kcal_100g: number;
+  protein_100g: number;
+  carbs_100g: number;
+  fat_100g: number;
+  fiber_100g: number;
+  source: string;
+}
+
+export interface ProductServing {
+  grams: number;
+  label: string;
+  macros: Per100g;
+}
+
+const KJ_PER_KCAL = 4.184;
+
+const SERVING_UNIT_GRAMS: Record<string, number> = {
+  g: 1, gr: 1, gram: 1, grams: 1,
+  mg: 0.001,
+  kg: 1000,
+  ml: 1, cl: 10, dl: 100, l: 1000,
+  oz: 28.3495,
+};
+
+/**
+ * Grams in a label serving ("30 g", "1 cup (240 ml)", "2 biscuits (25g)").
+ * Metric amounts win over household ones; liquids assume 1 g/ml.
+ */
+export function parseServingSize(text: string | null | undefined): number | null {
+  if (!text) return null;
+  const matches = [...text.toLowerCase().matchAll(/(\d+(?:[.,]\d+)?)\s*(kg|mg|grams?|gr|g|ml|cl|dl|l|oz)\b/g)];
+  const metric = matches.find(m => m[2] !== 'oz') ?? matches[0];
+  if (!metric) return null;
+  const grams = parseFloat(metric[1].replace(',', '.')) * SERVING_UNIT_GRAMS[metric[2]];
+  return grams > 0 ? Math.round(grams * 10) / 10 : null;
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const n = typeof value === 'number' ? value : parseFloat(String(value).replace(',', '.'));
+  return Number.isFinite(n) && n >= 0 ? n : null;
+}
+
+function toText(value: unknown): string | null {
+  const text = typeof value === 'string' ? value.trim() : '';
+  return text || null;
+}
+
+/**
+ * One Open Food Facts record (JSONL export with `nutriments`, or a flat CSV
+ * row) as a PackagedProduct. Null when the barcode, name or energy is unusable.
+ */
+export function productFromOff(record: Record<string, unknown>): PackagedProduct | null {
+  const barcode = normalizeBarcode(String(record.code ?? ''));
+  const name = toText(record.product_name_en) ?? toText(record.product_name) ?? toText(record.generic_name);
+  if (!barcode || !name) return null;
+
+  const nutriments = (record.nutriments && typeof record.nutriments === 'object'
+    ? record.nutriments
+    : record) as Record<string, unknown>;
+
+  const kj = toNumber(nutriments['energy_100g']);
+  const kcal = toNumber(nutriments['energy-kcal_100g']) ?? (kj !== null ? kj / KJ_PER_KCAL : null);
+  // Above pure fat is a unit mix-up in the source data
+  if (kcal === null || kcal > 900) return null;
+
+  const servingLabel = toText(record.serving_size);
+  const servingQuantity = toNumber(record.serving_quantity);
+
+  return {
+    barcode,
+    name,
+    brand: toText(String(record.brands ?? '').split(',')[0]),
+    serving_label: servingLabel,
+    serving_g: servingQuantity || parseServingSize(servingLabel),
+    kcal_100g: Math.round(kcal * 10) / 10,
+    protein_100g: toNumber(nutriments['proteins_100g']) ?? 0,
+    carbs_100g: toNumber(nutriments['carbohydrates_100g']) ?? 0,
+    fat_100g: toNumber(nutriments['fat_100g']) ?? 0,
+    fiber_100g: toNumber(nutriments['fiber_100g']) ?? 0,
+    source: 'open_food_facts',
+  };
+}
+
+export function productPer100g(product: PackagedProduct): Per100g {
+  return {
+    kcal: Number(product.kcal_100g),
+    protein_g: Number(product.protein_100g),
+    carbs_g: Number(product.carbs_100g),
+    fat_g: Number(product.fat_100g),
+    fiber_g: Number(product.fiber_100g),
+  };
+}
+
+/**
+ * Macros for an amount of a product: mass and volume units are weighed
+ * directly, anything else counts label servings (100 g when the label has none).
+ */
+export function productServing(product: PackagedProduct, amount: number | null = 1, unit: string | null = null): ProductServing {
+  const u = normalizeUnit(unit);
+  const quantity = amount && amount > 0 ? amount : 1;
+  const perUnit = u ? MASS_GRAMS[u] ?? VOLUME_ML[u] : undefined;
+  const servingGrams = Number(product.serving_g) || 100;
+
+  const grams = perUnit ? quantity * perUnit : quantity * servingGrams;
+  const label = perUnit
+    ? `${quantity} ${u}`
+    : product.serving_label ?? (product.serving_g ? `${servingGrams} g` : '100 g');
+
+  return {
+    grams: Math.round(grams * 10) / 10,
+    label: !perUnit && quantity !== 1 ? `${quantity} × ${label}` : label,
+    macros: scalePer100g(productPer100g(product), grams),
+  };
+}
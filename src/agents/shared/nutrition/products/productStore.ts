@@ -0,0 +1,85 @@
+/**
+ * Packaged product store
+ * Reads packaged_products; the import script is the only writer.
+ */
+
+import { getSupabase } from '../../../../lib/supabase';
+import { normalizeBarcode } from '../../../../lib/barcode/decode';
+import type { PackagedProduct } from './packagedProduct';
+
+export interface ProductStore {
+  getByBarcode(barcode: string): Promise<PackagedProduct | null>;
+  /** Best branded match for a free-text product name */
+  search(name: string, brand?: string | null): Promise<PackagedProduct | null>;
+}
+
+const PRODUCT_COLUMNS = 'barcode, name, brand, serving_label, serving_g, kcal_100g, protein_100g, carbs_100g, fat_100g, fiber_100g, source';
+
+const SEARCH_LIMIT = 10;
+
+function tokens(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(t => t.length > 1);
+}
+
+/**
+ * Share of the query's tokens in the product name; ties go to the shorter name
+ */
+export function rankProducts(query: string, products: PackagedProduct[]): PackagedProduct | null {
+  const wanted = tokens(query);
+  if (!wanted.length) return null;
+
+  let best: PackagedProduct | null = null;
+  let bestScore = 0;
+  for (const product of products) {
+    const have = new Set(tokens(product.name));
+    const score = wanted.filter(t => have.has(t)).length / wanted.length - have.size * 0.001;
+    if (score > bestScore) {
+      best = product;
+      bestScore = score;
+    }
+  }
+  // Require at least half the words to match before trusting a name search
+  return bestScore >= 0.5 ? best : null;
+}
+
+export function createSupabaseProductStore(): ProductStore {
+  return {
+    async getByBarcode(barcode) {
+      const code = normalizeBarcode(barcode);
+      if (!code) return null;
+
+      const { data, error } = await getSupabase()
+        .from('packaged_products')
+        .select(PRODUCT_COLUMNS)
+        .eq('barcode', code)
+        .maybeSingle();
+
+      if (error) {
+        console.warn('[productStore] Barcode lookup failed:', error);
+        return null;
+      }
+      return data as PackagedProduct | null;
+    },
+
+    async search(name, brand) {
+      const words = tokens(name);
+      if (!words.length) return null;
+
+      let query = getSupabase()
+        .from('packaged_products')
+        .select(PRODUCT_COLUMNS)
+        .ilike('name', `%${words.join('%')}%`)
+        .limit(SEARCH_LIMIT);
+      if (brand) query = query.ilike('brand', brand.trim());
+
+      const { data, error } = await query;
+      if (error) {
+        console.warn('[productStore] Product search failed:', error);
+        return null;
+      }
+      return rankProducts(name, (data ?? []) as PackagedProduct[]);
+    },
+  };
+}
+
+export const productStore = createSupabaseProductStore();
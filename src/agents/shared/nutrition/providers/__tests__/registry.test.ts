@@ -0,0 +1,123 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ProviderRegistry } from '../registry';
+import type { MacroProvider, MacroResult, NormalizedItem } from '../types';
+
+function macros(kcal: number, source: string): MacroResult {
+  return {
+    name: 'food',
+    serving_label: 'serving',
+    grams_per_serving: 100,
+    macros: { kcal, protein_g: 1, carbs_g: 1, fat_g: 1, fiber_g: 0 },
+    confidence: 0.9,
+    source
+  };
+}
+
+function provider(id: string, priority: number, fetch: MacroProvider['fetch'], extra: Partial<MacroProvider> = {}): MacroProvider {
+  return { id, priority, supports: () => true, fetch, ...extra };
+}
+
+const egg: NormalizedItem = { name: 'egg', amount: 2, unit: 'piece' };
+const bigMac: NormalizedItem = { name: 'big mac', amount: 1, unit: null, brand: "McDonald's", is_branded: true };
+
+describe('ProviderRegistry', () => {
+  it('orders providers per item class', async () => {
+    const registry = new ProviderRegistry();
+    registry.register(provider('brandMap', 1, async () => macros(550, 'brandMap')));
+    registry.register(provider('generic', 3, async () => macros(140, 'generic'), { priorities: { whole_food: 0 } }));
+
+    expect(registry.getProviders('branded').map(p => p.id)).toEqual(['brandMap', 'generic']);
+    expect(registry.getProviders('whole_food').map(p => p.id)).toEqual(['generic', 'brandMap']);
+
+    expect((await registry.resolve(bigMac)).providerId).toBe('brandMap');
+    expect((await registry.resolve(egg)).providerId).toBe('generic');
+  });
+
+  it('skips disabled providers and falls through misses and zero-kcal results', async () => {
+    const registry = new ProviderRegistry();
+    registry.register(provider('first', 1, async () => macros(999, 'first')));
+    registry.register(provider('empty', 2, async () => macros(0, 'empty')));
+    registry.register(provider('miss', 3, async () => null));
+    registry.register(provider('local', 4, async () => macros(140, 'local')));
+    registry.configure({ providers: { first: { enabled: false } } });
+
+    const outcome = await registry.resolve(egg);
+    expect(outcome.providerId).toBe('local');
+    expect(outcome.attempts.map(a => [a.providerId, a.status])).toEqual([
+      ['empty', 'miss'],
+      ['miss', 'miss'],
+      ['local', 'hit'],
+    ]);
+  });
+
+  it('sizes one-serving hits to the engine grams', async () => {
+    const registry = new ProviderRegistry();
+    registry.register(provider('cache', 1, async () => macros(140, 'cache')));
+
+    const outcome = await registry.resolve({ ...egg, grams: 150 });
+    expect(outcome.result?.grams).toBe(150);
+    expect(outcome.result?.macros.kcal).toBeCloseTo(210);
+    expect(outcome.result?.macros.protein_g).toBeCloseTo(1.5);
+  });
+
+  it('leaves hits the provider already sized', async () => {
+    const registry = new ProviderRegistry();
+    registry.register(provider('usda', 1, async () => ({ ...macros(140, 'usda'), grams: 100 })));
+
+    const outcome = await registry.resolve({ ...egg, grams: 150 });
+    expect(outcome.result?.macros.kcal).toBe(140);
+  });
+
+  it('times out slow providers and continues the cascade', async () => {
+    vi.useFakeTimers();
+    try {
+      const registry = new ProviderRegistry({ defaultTimeoutMs: 50 });
+      registry.register(provider('slow', 1, () => new Promise(() => {})));
+      registry.register(provider('fast', 2, async () => macros(140, 'fast')));
+
+      const pending = registry.resolve(egg);
+      await vi.advanceTimersByTimeAsync(60);
+      const outcome = await pending;
+
+      expect(outcome.attempts[0]).toMatchObject({ providerId: 'slow', status: 'timeout' });
+      expect(outcome.providerId).toBe('fast');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('opens the circuit after repeated failures and half-opens after cooldown', async () => {
+    let now = 0;
+    const registry = new ProviderRegistry({ breaker: { failureThreshold: 2, cooldownMs: 1000 } }, () => now);
+    const flaky = vi.fn(async (): Promise<MacroResult | null> => { throw new Error('502'); });
+    registry.register(provider('flaky', 1, flaky));
+
+    await registry.resolve(egg);
+    await registry.resolve(egg);
+    expect(registry.getBreakerState('flaky')).toBe('open');
+
+    const skipped = await registry.resolve(egg);
+    expect(skipped.attempts[0].status).toBe('circuit_open');
+    expect(flaky).toHaveBeenCalledTimes(2);
+
+    now = 1500;
+    expect(registry.getBreakerState('flaky')).toBe('half_open');
+    flaky.mockResolvedValueOnce(macros(140, 'flaky'));
+    expect((await registry.resolve(egg)).providerId).toBe('flaky');
+    expect(registry.getBreakerState('flaky')).toBe('closed');
+  });
+
+  it('does not count a miss as a success for the breaker', async () => {
+    const registry = new ProviderRegistry({ breaker: { failureThreshold: 2, cooldownMs: 1000 } }, () => 0);
+    const flaky = vi.fn(async (): Promise<MacroResult | null> => { throw new Error('502'); });
+    registry.register(provider('flaky', 1, flaky));
+
+    await registry.resolve(egg);
+    flaky.mockResolvedValueOnce(null);
+    await registry.resolve(egg);
+    expect(registry.getBreakerState('flaky')).toBe('closed');
+
+    await registry.resolve(egg);
+    expect(registry.getBreakerState('flaky')).toBe('open');
+  });
+});
@@ -10,6 +10,7 @@ import { getSupabase } from '../../../../lib/supabase';
 export const brandMapProvider: MacroProvider = {
   id: 'brandMap',
   priority: 1, // Highest priority for branded items
+  timeoutMs: 5000,
   
   supports(item: NormalizedItem): boolean {
     return item.is_branded === true && !!item.brand;
@@ -66,6 +67,7 @@ export const brandMapProvider: MacroProvider = {
       name: item.name,
       serving_label: entry.serving_label,
       grams_per_serving: entry.grams_per_serving,
+      grams: entry.grams_per_serving * qty,
       macros: {
         kcal: entry.macros.kcal * qty,
         protein_g: entry.macros.protein_g * qty,
@@ -0,0 +1,115 @@
+/**
+ * Brand Resolver Provider
+ * Final fallback for unknown foods; resolved results are written to the global cache
+ */
+
+import type { MacroProvider, MacroResult, NormalizedItem } from './types';
+import { getSupabase } from '../../../../lib/supabase';
+import { safeJsonParse } from '../safeJson';
+
+export const brandResolverProvider: MacroProvider = {
+  id: 'brandResolver',
+  priority: 9, // Always last
+  timeoutMs: 15000,
+
+  supports(): boolean {
+    return true;
+  },
+
+  async fetch(item: NormalizedItem): Promise<MacroResult | null> {
+    const supabase = getSupabase();
+
+    // Create a specific prompt for brand resolution
+    const prompt = `You are a nutrition database expert. Find the verifiable nutritional information for this food item.
+
+Food: ${item.name}${item.brand ? ` (${item.brand})` : ''}${item.serving_label ? ` - ${item.serving_label}` : ''}${item.size_label ? ` ${item.size_label}` : ''}${item.grams ? `\nAmount: ${item.grams} g` : ''}
+
+IMPORTANT: Search for official sources like USDA, FDA, or brand websites. Return ONLY valid JSON in this exact format:
+{"calories": number, "protein_g": number, "carbs_g": number, "fat_g": number, "fiber_g": number}
+
+If you cannot find reliable data, return: {"error": "not_found"}
+Do not make up numbers. Only return verified nutritional data.`;
+
+    const { data, error } = await supabase.functions.invoke('gemini-chat', {
+      body: {
+        prompt,
+        temperature: 0.1, // Low temperature for accuracy
+        max_tokens: 500
+      }
+    });
+
+    if (error) throw new Error(`Gemini call failed: ${error.message}`);
+    if (!data?.ok) throw new Error(`Gemini call failed: ${data?.error ?? 'no response'}`);
+
+    const responseText = data.text || '';
+    console.log('[brand-resolver] Gemini response:', responseText);
+
+    const parsed = safeJsonParse(responseText);
+    if (!parsed || parsed.error === 'not_found') {
+      console.log('[brand-resolver] No reliable data found for:', item.name);
+      return null;
+    }
+
+    // Validate we have required fields
+    if (typeof parsed.calories !== 'number' || typeof parsed.protein_g !== 'number' ||
+        typeof parsed.carbs_g !== 'number' || typeof parsed.fat_g !== 'number') {
+      console.warn('[brand-resolver] Invalid response format:', parsed);
+      return null;
+    }
+
+    const result: MacroResult = {
+      name: item.name,
+      serving_label: item.grams ? `${item.grams} g` : item.serving_label || 'serving',
+      // Sized to the engine's grams when known, otherwise one serving
+      grams_per_serving: item.grams || 100,
+      grams: item.grams || undefined,
+      macros: {
+        kcal: parsed.calories,
+        protein_g: parsed.protein_g,
+        carbs_g: parsed.carbs_g,
+        fat_g: parsed.fat_g,
+        fiber_g: parsed.fiber_g || 0
+      },
+      confidence: 0.8, // Brand resolver confidence
+      source: 'brand_resolver',
+      notes: 'Data resolved by AI brand resolver'
+    };
+
+    await cacheResult(item, result);
+
+    console.log(`[brand-resolver] Successfully resolved "${item.name}"`);
+    return result;
+  }
+};
+
+/**
+ * Cache the result for future lookups; failures never block the response
+ */
+async function cacheResult(item: NormalizedItem, result: MacroResult): Promise<void> {
+  try {
+    const { error } = await getSupabase()
+      .from('global_nutrition_cache')
+      .insert({
+        normalized_name: item.name.toLowerCase().trim(),
+        brand: item.brand || null,
+        serving_label: result.serving_label,
+        size_label: item.size_label || null,
+        grams_per_serving: result.grams_per_serving,
+        calories: result.macros.kcal,
+        protein_g: result.macros.protein_g,
+        carbs_g: result.macros.carbs_g,
+        fat_g: result.macros.fat_g,
+        fiber_g: result.macros.fiber_g,
+        source: 'brand_resolver',
+        confidence: result.confidence
+      });
+
+    if (error) {
+      console.warn('[brand-resolver] Failed to cache result:', error);
+    } else {
+      console.log('[brand-resolver] Cached result for future lookups');
+    }
+  } catch (err) {
+    console.warn('[brand-resolver] Cache exception:', err);
+  }
+}
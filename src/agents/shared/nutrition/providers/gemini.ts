@@ -9,6 +9,7 @@ import type { MacroProvider, MacroResult, NormalizedItem } from './types';
 export const geminiProvider: MacroProvider = {
   id: 'gemini',
   priority: 2, // After brandMap, before generic
+  timeoutMs: 15000,
 
   supports(item: NormalizedItem): boolean {
     // Use Gemini for branded items or items without explicit weight
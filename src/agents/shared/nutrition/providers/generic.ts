@@ -6,46 +6,6 @@
 import type { MacroProvider, MacroResult, NormalizedItem } from './types';
 import { getSupabase } from '../../../../lib/supabase';
 
-/**
- * Convert quantity + unit to grams
- */
-function convertToGrams(qty: number, unit: string, foodName: string): number {
-  const unitLower = unit.toLowerCase();
-  const foodNameLower = foodName.toLowerCase();
-
-  // Special cases based on food name
-  if (unitLower === 'large' && foodNameLower.includes('egg')) return qty * 50;
-  if ((unitLower === 'slice' || unitLower === 'slices') && foodNameLower.includes('bacon')) return qty * 10;
-  if ((unitLower === 'slice' || unitLower === 'slices') && (foodNameLower.includes('bread') || foodNameLower.includes('sourdough'))) return qty * 50;
-
-  // Weight-based units
-  const conversions: Record<string, number> = {
-    'g': 1,
-    'gram': 1,
-    'grams': 1,
-    'oz': 28.35,
-    'ounce': 28.35,
-    'ounces': 28.35,
-    'lb': 453.59,
-    'pound': 453.59,
-    'pounds': 453.59,
-    'kg': 1000,
-    // Volume (approximate for solids)
-    'cup': 240,
-    'cups': 240,
-    'tbsp': 15,
-    'tablespoon': 15,
-    'tsp': 5,
-    'teaspoon': 5,
-    // Count-based defaults
-    'serving': 100,
-    'piece': 100,
-    'item': 100,
-  };
-
-  return (conversions[unitLower] || 100) * qty;
-}
-
 /**
  * Normalize food name with USDA synonyms
  * Only normalize when no brand is present to avoid breaking branded hits
@@ -73,8 +33,10 @@ function normalizeFoodName(name: string, brand?: string | null): string {
 
 export const genericProvider: MacroProvider = {
   id: 'generic',
-  priority: 3, // Lowest priority (fallback)
-  
+  priority: 3, // Fallback for branded items
+  priorities: { whole_food: 1 }, // USDA-backed cache first for whole foods
+  timeoutMs: 5000,
+
   supports(): boolean {
     return true; // Always supports (fallback)
   },
@@ -141,15 +103,16 @@ function convertToMacroResult(dbRow: any, item: NormalizedItem): MacroResult {
   const micros = dbRow.micros || {};
   const gramsPerServing = dbRow.grams_per_serving || 100;
   
-  // Convert user's quantity+unit to grams
+  // Grams come from the portion engine; without them, count whole servings
   const qty = item.amount ?? 1;
-  const userGrams = item.unit ? convertToGrams(qty, item.unit, item.name) : qty * gramsPerServing;
+  const userGrams = item.grams ?? qty * gramsPerServing;
   const multiplier = userGrams / gramsPerServing;
   
   return {
     name: item.name,
     serving_label: dbRow.serving_size || 'serving',
     grams_per_serving: gramsPerServing,
+    grams: userGrams,
     macros: {
       kcal: (dbRow.macros.kcal || 0) * multiplier,
       protein_g: (dbRow.macros.protein_g || 0) * multiplier,
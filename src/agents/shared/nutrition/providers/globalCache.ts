@@ -0,0 +1,101 @@
+/**
+ * Global Cache Provider
+ * Shared nutrition cache populated by the LLM-backed resolvers.
+ * Names are matched fuzzily (tokens, stems, trigrams) and through food_aliases.
+ */
+
+import type { MacroProvider, MacroResult, NormalizedItem } from './types';
+import { getSupabase } from '../../../../lib/supabase';
+import { loadAliases } from '../foodAliases';
+import {
+  MATCH_THRESHOLD,
+  normalizeFoodName,
+  rankFoodCandidates,
+  recordCacheLookup,
+  searchTerms,
+} from '../foodMatcher';
+
+// Rows pulled per lookup before ranking
+const CANDIDATE_LIMIT = 25;
+
+interface CacheRow {
+  normalized_name: string;
+  serving_label: string;
+  grams_per_serving: number;
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fat_g: number;
+  fiber_g: number;
+  confidence: number;
+  source: string;
+}
+
+/**
+ * Pull rows sharing any token (or alias canonical name) with the query
+ */
+async function fetchCandidates(item: NormalizedItem, names: string[]): Promise<CacheRow[]> {
+  const patterns = [...new Set(names.flatMap(n => searchTerms(n)).filter(t => t.length > 2))]
+    .map(t => `normalized_name.ilike.%${t}%`);
+  if (patterns.length === 0) return [];
+
+  let query = getSupabase()
+    .from('global_nutrition_cache')
+    .select('*')
+    .or(patterns.join(','))
+    .order('created_at', { ascending: false })
+    .limit(CANDIDATE_LIMIT);
+
+  query = item.brand ? query.eq('brand', item.brand) : query.is('brand', null);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Global cache query failed: ${error.message}`);
+  return (data ?? []) as CacheRow[];
+}
+
+export const globalCacheProvider: MacroProvider = {
+  id: 'globalCache',
+  priority: 0, // Fastest lookup, always first
+  timeoutMs: 5000,
+
+  supports(item: NormalizedItem): boolean {
+    return !!item.name?.trim();
+  },
+
+  async fetch(item: NormalizedItem): Promise<MacroResult | null> {
+    const aliases = await loadAliases(item.name);
+    const candidates = await fetchCandidates(item, [item.name, ...aliases.map(a => a.canonical_name)]);
+    const [best] = rankFoodCandidates(item.name, candidates, row => row.normalized_name, aliases);
+
+    if (!best || best.score < MATCH_THRESHOLD) {
+      recordCacheLookup('miss');
+      return null;
+    }
+
+    recordCacheLookup(best.kind);
+    const data = best.entry;
+    console.log(`[global-cache] ${best.kind} match "${item.name}" → "${data.normalized_name}" (score ${best.score})`);
+
+    return {
+      name: data.normalized_name,
+      serving_label: data.serving_label,
+      grams_per_serving: data.grams_per_serving,
+      macros: {
+        kcal: data.calories,
+        protein_g: data.protein_g,
+        carbs_g: data.carbs_g,
+        fat_g: data.fat_g,
+        fiber_g: data.fiber_g
+      },
+      confidence: best.kind === 'fuzzy' ? Math.min(data.confidence, best.score) : data.confidence,
+      source: data.source,
+      notes: 'Data from global nutrition cache',
+      match: {
+        query: normalizeFoodName(item.name),
+        matched_name: data.normalized_name,
+        score: best.score,
+        kind: best.kind
+      }
+    };
+  }
+};
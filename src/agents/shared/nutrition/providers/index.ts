@@ -1,6 +1,12 @@
-import { lookup as lookupBrand } from "./brandMap";
-import { lookup as lookupGemini } from "./gemini";
-import { lookup as lookupGeneric } from "./generic";
+import { brandMapProvider, lookup as lookupBrand } from "./brandMap";
+import { geminiProvider, lookup as lookupGemini } from "./gemini";
+import { genericProvider, lookup as lookupGeneric } from "./generic";
+import { globalCacheProvider } from "./globalCache";
+import { openaiProvider } from "./openai";
+import { brandResolverProvider } from "./brandResolver";
+import { usdaLocalProvider } from "./usdaLocal";
+import { packagedProductsProvider } from "./packagedProducts";
+import { ProviderRegistry } from "./registry";
 
 export const PROVIDERS = {
   brand:   lookupBrand,
@@ -8,4 +14,40 @@ export const PROVIDERS = {
   generic: lookupGeneric,
 } as const;
 
-export type ProviderKey = keyof typeof PROVIDERS;
\ No newline at end of file
+export type ProviderKey = keyof typeof PROVIDERS;
+
+export { ProviderRegistry, classifyItem, scaleToGrams } from "./registry";
+export type { LookupOutcome, ProviderAttempt, ProviderSettings, RegistryConfig } from "./registry";
+
+// Emergency Gemini kill-switch - temporarily disabled due to 502 errors
+// While it is off, the OpenAI provider takes Gemini's slot in the cascade
+export const GEMINI_ENABLED = false; // import.meta.env.VITE_GEMINI_NUTRITION !== 'false';
+
+/**
+ * Provider ids switched off via VITE_MACRO_PROVIDERS_DISABLED (comma separated)
+ */
+function disabledFromEnv(): string[] {
+  const raw: string = import.meta.env?.VITE_MACRO_PROVIDERS_DISABLED ?? '';
+  return raw.split(',').map(s => s.trim()).filter(Boolean);
+}
+
+export const providerRegistry = new ProviderRegistry();
+
+[
+  globalCacheProvider,
+  usdaLocalProvider,
+  packagedProductsProvider,
+  brandMapProvider,
+  geminiProvider,
+  openaiProvider,
+  genericProvider,
+  brandResolverProvider,
+].forEach(p => providerRegistry.register(p));
+
+providerRegistry.configure({
+  providers: {
+    gemini: { enabled: GEMINI_ENABLED },
+    openai: { enabled: !GEMINI_ENABLED },
+    ...Object.fromEntries(disabledFromEnv().map(id => [id, { enabled: false }])),
+  },
+});
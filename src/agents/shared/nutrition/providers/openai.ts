@@ -0,0 +1,66 @@
+/**
+ * OpenAI Provider
+ * LLM fallback used while the Gemini kill-switch is active
+ */
+
+import type { MacroProvider, MacroResult, NormalizedItem } from './types';
+import { getSupabase } from '../../../../lib/supabase';
+import { safeJsonParse } from '../safeJson';
+
+export const openaiProvider: MacroProvider = {
+  id: 'openai',
+  priority: 2, // Same slot as Gemini; only one of them is enabled
+  timeoutMs: 15000,
+
+  supports(): boolean {
+    return true;
+  },
+
+  async fetch(item: NormalizedItem): Promise<MacroResult | null> {
+    const supabase = getSupabase();
+    const prompt = `You are a nutrition expert. Given this food item, return exact nutritional data in this JSON format only:
+{"calories": number, "protein_g": number, "carbs_g": number, "fat_g": number, "fiber_g": number}
+
+Food: ${item.name}${item.brand ? ` (${item.brand})` : ''}${item.serving_label ? ` - ${item.serving_label}` : ''}${item.size_label ? ` ${item.size_label}` : ''}${item.grams ? `\nAmount: ${item.grams} g` : ''}
+
+Return only the JSON object, no other text.`;
+
+    const { data, error } = await supabase.functions.invoke('openai-chat', {
+      body: {
+        messages: [
+          { role: 'system', content: prompt },
+          { role: 'user', content: item.name }
+        ],
+        temperature: 0.1,
+        model: 'gpt-4o-mini'
+      }
+    });
+
+    if (error) throw new Error(`OpenAI call failed: ${error.message}`);
+    if (!data?.message) return null;
+
+    // Try multiple response shape possibilities
+    const responseText = data.choices?.[0]?.message?.content || data.message || '';
+    if (!responseText) return null;
+
+    const parsed = safeJsonParse(responseText);
+    if (!parsed) return null;
+
+    return {
+      name: item.name,
+      serving_label: item.grams ? `${item.grams} g` : item.serving_label || 'serving',
+      grams_per_serving: item.grams || 100,
+      grams: item.grams || undefined,
+      macros: {
+        kcal: parsed.calories || 0,
+        protein_g: parsed.protein_g || 0,
+        carbs_g: parsed.carbs_g || 0,
+        fat_g: parsed.fat_g || 0,
+        fiber_g: parsed.fiber_g || 0
+      },
+      confidence: 0.8,
+      source: 'openai-fallback',
+      notes: 'Data provided by AI assistant'
+    };
+  }
+};
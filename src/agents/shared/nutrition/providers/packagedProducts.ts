@@ -0,0 +1,56 @@
+/**
+ * Packaged Products Provider
+ * Label nutrition from packaged_products: exact by barcode, or by brand + name.
+ * Sits ahead of the LLM providers so branded items get printed label values.
+ */
+
+import type { MacroProvider, MacroResult, NormalizedItem } from './types';
+import { productServing } from '../products/packagedProduct';
+import { productStore, type ProductStore } from '../products/productStore';
+
+export function createPackagedProductProvider(store: ProductStore = productStore): MacroProvider {
+  return {
+    id: 'packagedProducts',
+    priority: 0.5, // After the global cache, before brandMap and the LLM providers
+    timeoutMs: 4000,
+
+    supports(item: NormalizedItem): boolean {
+      return !!item.barcode || (!!item.brand && !!item.name?.trim());
+    },
+
+    async fetch(item: NormalizedItem): Promise<MacroResult | null> {
+      const product = item.barcode
+        ? await store.getByBarcode(item.barcode)
+        : await store.search(item.name, item.brand);
+
+      if (!product) {
+        console.log(`[packagedProducts] No product for "${item.barcode ?? item.name}", trying next provider`);
+        return null;
+      }
+
+      const serving = productServing(product, item.amount, item.unit);
+      const perServing = productServing(product);
+
+      return {
+        name: item.name,
+        serving_label: perServing.label,
+        grams_per_serving: perServing.grams,
+        macros: serving.macros,
+        confidence: item.barcode ? 0.98 : 0.85,
+        source: 'packaged_products',
+        notes: `${[product.brand, product.name].filter(Boolean).join(' ')} (${product.barcode})`,
+        portion: {
+          quantity: item.amount ?? 1,
+          unit: item.unit,
+          grams: serving.grams,
+          grams_per_unit: perServing.grams,
+          confidence: product.serving_g ? 0.95 : 0.6,
+          method: product.serving_g ? 'measure' : 'assumed',
+          explanation: `${serving.label} ≈ ${serving.grams} g (product label)`,
+        },
+      };
+    },
+  };
+}
+
+export const packagedProductsProvider = createPackagedProductProvider();
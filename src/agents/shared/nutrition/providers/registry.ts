@@ -0,0 +1,263 @@
+/**
+ * Macro Provider Registry
+ * Orders providers per item class and guards each one with a timeout
+ * and a circuit breaker, so new sources plug in without touching the pipeline.
+ */
+
+import type { ItemClass, MacroProvider, MacroProviderId, MacroResult, NormalizedItem } from './types';
+
+export interface ProviderSettings {
+  enabled?: boolean;
+  timeoutMs?: number;
+  priorities?: Partial<Record<ItemClass, number>>;
+}
+
+export interface RegistryConfig {
+  providers: Record<string, ProviderSettings>;
+  defaultTimeoutMs: number;
+  breaker: {
+    failureThreshold: number; // Consecutive failures before the circuit opens
+    cooldownMs: number;       // Time the circuit stays open before a trial call
+  };
+}
+
+export type AttemptStatus = 'hit' | 'miss' | 'error' | 'timeout' | 'circuit_open';
+
+export interface ProviderAttempt {
+  providerId: MacroProviderId;
+  status: AttemptStatus;
+  durationMs: number;
+  error?: string;
+}
+
+export interface LookupOutcome {
+  result: MacroResult | null;
+  providerId: MacroProviderId | null;
+  itemClass: ItemClass;
+  attempts: ProviderAttempt[];
+}
+
+export type BreakerState = 'closed' | 'open' | 'half_open';
+
+const DEFAULT_CONFIG: RegistryConfig = {
+  providers: {},
+  defaultTimeoutMs: 8000,
+  breaker: { failureThreshold: 3, cooldownMs: 60_000 }
+};
+
+class ProviderTimeoutError extends Error {
+  constructor(providerId: string, timeoutMs: number) {
+    super(`Provider ${providerId} timed out after ${timeoutMs}ms`);
+    this.name = 'ProviderTimeoutError';
+  }
+}
+
+/**
+ * Classify an item for provider ordering
+ */
+export function classifyItem(item: NormalizedItem): ItemClass {
+  return item.is_branded || item.brand || item.barcode ? 'branded' : 'whole_food';
+}
+
+/**
+ * Size a result to the item's grams. Results a provider already sized carry
+ * `grams` or `portion`; anything else is one serving of grams_per_serving
+ * and scales linearly.
+ */
+export function scaleToGrams(result: MacroResult, grams: number | null | undefined): MacroResult {
+  if (!grams || result.grams != null || result.portion || !(result.grams_per_serving > 0)) return result;
+  const factor = grams / result.grams_per_serving;
+  const { kcal, protein_g, carbs_g, fat_g, fiber_g } = result.macros;
+  return {
+    ...result,
+    grams,
+    macros: {
+      kcal: kcal * factor,
+      protein_g: protein_g * factor,
+      carbs_g: carbs_g * factor,
+      fat_g: fat_g * factor,
+      fiber_g: fiber_g * factor
+    }
+  };
+}
+
+/**
+ * A result only counts as a hit when it carries real energy
+ */
+function isUsableResult(result: MacroResult | null): result is MacroResult {
+  return !!result && !!result.macros && result.macros.kcal > 0;
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, providerId: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new ProviderTimeoutError(providerId, timeoutMs)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+
+  constructor(
+    private readonly threshold: () => number,
+    private readonly cooldownMs: () => number,
+    private readonly now: () => number
+  ) {}
+
+  get state(): BreakerState {
+    if (this.openedAt === null) return 'closed';
+    return this.now() - this.openedAt >= this.cooldownMs() ? 'half_open' : 'open';
+  }
+
+  canAttempt(): boolean {
+    return this.state !== 'open';
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = null;
+  }
+
+  recordFailure(): void {
+    // A failed trial call re-opens the circuit immediately
+    if (this.state === 'half_open') {
+      this.openedAt = this.now();
+      return;
+    }
+    this.failures++;
+    if (this.failures >= this.threshold()) {
+      this.openedAt = this.now();
+    }
+  }
+}
+
+export class ProviderRegistry {
+  private providers: MacroProvider[] = [];
+  private breakers = new Map<string, CircuitBreaker>();
+  private config: RegistryConfig;
+  private readonly now: () => number;
+
+  constructor(config: Partial<RegistryConfig> = {}, now: () => number = Date.now) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.now = now;
+  }
+
+  register(provider: MacroProvider): void {
+    // Remove existing provider with same id if present
+    this.providers = this.providers.filter(p => p.id !== provider.id);
+    this.providers.push(provider);
+  }
+
+  unregister(id: MacroProviderId): void {
+    this.providers = this.providers.filter(p => p.id !== id);
+    this.breakers.delete(id);
+  }
+
+  /**
+   * Merge config; per-provider settings are merged key by key
+   */
+  configure(config: Partial<RegistryConfig>): void {
+    const providers = { ...this.config.providers };
+    for (const [id, settings] of Object.entries(config.providers ?? {})) {
+      providers[id] = { ...providers[id], ...settings };
+    }
+    this.config = {
+      ...this.config,
+      ...config,
+      breaker: { ...this.config.breaker, ...config.breaker },
+      providers
+    };
+  }
+
+  isEnabled(id: MacroProviderId): boolean {
+    return this.config.providers[id]?.enabled !== false;
+  }
+
+  /**
+   * Enabled providers in lookup order for the given item class
+   */
+  getProviders(itemClass?: ItemClass): MacroProvider[] {
+    const enabled = this.providers.filter(p => this.isEnabled(p.id));
+    if (!itemClass) return [...enabled].sort((a, b) => a.priority - b.priority);
+    return [...enabled].sort((a, b) => this.priorityOf(a, itemClass) - this.priorityOf(b, itemClass));
+  }
+
+  getBreakerState(id: MacroProviderId): BreakerState {
+    return this.breakers.get(id)?.state ?? 'closed';
+  }
+
+  resetBreakers(): void {
+    this.breakers.clear();
+  }
+
+  /**
+   * Walk the cascade and report every provider attempt. A hit is sized to
+   * the item's engine grams, so every provider returns the portion eaten.
+   */
+  async resolve(item: NormalizedItem, userId?: string): Promise<LookupOutcome> {
+    const itemClass = classifyItem(item);
+    const attempts: ProviderAttempt[] = [];
+
+    for (const provider of this.getProviders(itemClass)) {
+      if (!provider.supports(item, userId)) continue;
+
+      const breaker = this.breakerFor(provider.id);
+      if (!breaker.canAttempt()) {
+        attempts.push({ providerId: provider.id, status: 'circuit_open', durationMs: 0 });
+        continue;
+      }
+
+      const started = this.now();
+      const timeoutMs = this.config.providers[provider.id]?.timeoutMs
+        ?? provider.timeoutMs
+        ?? this.config.defaultTimeoutMs;
+
+      try {
+        const result = await withTimeout(provider.fetch(item, userId), timeoutMs, provider.id);
+
+        // Only a hit closes the circuit; a miss says nothing about the provider's health
+        if (isUsableResult(result)) {
+          breaker.recordSuccess();
+          attempts.push({ providerId: provider.id, status: 'hit', durationMs: this.now() - started });
+          const sized = scaleToGrams(result, item.grams);
+          console.log(`[macroLookup.trace] item="${item.name}" path=${provider.id} serving="${result.serving_label}" qty=${item.amount ?? 1} grams=${sized.grams ?? 'serving'} kcal=${sized.macros.kcal}`);
+          return { result: sized, providerId: provider.id, itemClass, attempts };
+        }
+        attempts.push({ providerId: provider.id, status: 'miss', durationMs: this.now() - started });
+      } catch (err) {
+        breaker.recordFailure();
+        const status: AttemptStatus = err instanceof ProviderTimeoutError ? 'timeout' : 'error';
+        const message = err instanceof Error ? err.message : String(err);
+        attempts.push({ providerId: provider.id, status, durationMs: this.now() - started, error: message });
+        console.warn(`[macroLookup] Provider ${provider.id} ${status} for "${item.name}":`, message);
+      }
+    }
+
+    return { result: null, providerId: null, itemClass, attempts };
+  }
+
+  async lookup(item: NormalizedItem, userId?: string): Promise<MacroResult | null> {
+    return (await this.resolve(item, userId)).result;
+  }
+
+  private priorityOf(provider: MacroProvider, itemClass: ItemClass): number {
+    return this.config.providers[provider.id]?.priorities?.[itemClass]
+      ?? provider.priorities?.[itemClass]
+      ?? provider.priority;
+  }
+
+  private breakerFor(id: MacroProviderId): CircuitBreaker {
+    let breaker = this.breakers.get(id);
+    if (!breaker) {
+      breaker = new CircuitBreaker(
+        () => this.config.breaker.failureThreshold,
+        () => this.config.breaker.cooldownMs,
+        this.now
+      );
+      this.breakers.set(id, breaker);
+    }
+    return breaker;
+  }
+}
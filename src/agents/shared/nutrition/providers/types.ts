@@ -3,6 +3,9 @@
  * Seam for future MCP integration
  */
 
+import type { FoodMatch } from '../foodMatcher';
+import type { PortionConversion } from '../portionEngine';
+
 export interface NormalizedItem {
   name: string;
   amount: number | null;
@@ -11,6 +14,10 @@ export interface NormalizedItem {
   serving_label?: string | null;
   size_label?: string | null;
   is_branded?: boolean;
+  /** Total grams from the portion engine, when it could convert the unit */
+  grams?: number | null;
+  /** Scanned UPC/EAN; packaged products resolve it exactly */
+  barcode?: string | null;
 }
 
 export interface MacroResult {
@@ -26,42 +33,42 @@ export interface MacroResult {
   };
   confidence: number;
   source: string;
+  notes?: string;
+  /** Grams the macros cover when the provider sized them to the item; unset means one serving */
+  grams?: number;
+  /** How the item name was matched, when the provider matched fuzzily */
+  match?: FoodMatch;
+  /** Set when the provider sized the portion itself (e.g. a measured FDC portion) */
+  portion?: PortionConversion;
 }
 
+/**
+ * Item classes the cascade orders providers for.
+ * Branded items go to brand-aware sources first, whole foods to databases first.
+ */
+export type ItemClass = 'branded' | 'whole_food';
+
+/**
+ * Built-in provider ids. Local providers may register any other id.
+ */
+export type MacroProviderId =
+  | 'globalCache'
+  | 'brandMap'
+  | 'gemini'
+  | 'openai'
+  | 'generic'
+  | 'brandResolver'
+  | 'packagedProducts'
+  | 'mcp-nutrition'
+  | (string & {});
+
 export interface MacroProvider {
-  id: 'gemini' | 'brandMap' | 'generic' | 'mcp-nutrition';
+  id: MacroProviderId;
   supports(item: NormalizedItem, userId?: string): boolean;
   fetch(item: NormalizedItem, userId?: string): Promise<MacroResult | null>;
   priority: number; // Lower = higher priority
+  /** Per item class priority; falls back to `priority` */
+  priorities?: Partial<Record<ItemClass, number>>;
+  /** Abort the lookup after this many ms (registry default when omitted) */
+  timeoutMs?: number;
 }
-
-class ProviderRegistry {
-  private providers: MacroProvider[] = [];
-  
-  register(provider: MacroProvider): void {
-    // Remove existing provider with same id if present
-    this.providers = this.providers.filter(p => p.id !== provider.id);
-    this.providers.push(provider);
-    this.providers.sort((a, b) => a.priority - b.priority);
-  }
-  
-  async lookup(item: NormalizedItem, userId?: string): Promise<MacroResult | null> {
-    for (const provider of this.providers) {
-      if (provider.supports(item, userId)) {
-        const result = await provider.fetch(item, userId);
-        if (result) {
-          console.log(`[macroLookup.trace] item="${item.name}" path=${provider.id} serving="${result.serving_label}" qty=${item.amount ?? 1} kcal=${result.macros.kcal}`);
-          return result;
-        }
-      }
-    }
-    return null;
-  }
-  
-  getProviders(): MacroProvider[] {
-    return [...this.providers];
-  }
-}
-
-export const providerRegistry = new ProviderRegistry();
-
@@ -0,0 +1,172 @@
+/**
+ * USDA Local Provider
+ * Resolves whole foods offline from the FDC index built by `npm run import-fdc`,
+ * using gram weights from food_portion instead of guessed serving sizes.
+ */
+
+import type { MacroProvider, MacroResult, NormalizedItem } from './types';
+import { scalePer100g } from '../portionEngine';
+import { fdcTokens, searchFdcIndex, type FdcFood, type FdcIndex, type FdcPortion } from '../usda/fdcIndex';
+
+export const FDC_INDEX_URL = '/nutrition/fdc-foundation-index.json';
+
+// Mass units convert directly; everything else goes through food_portion
+const GRAMS_PER_UNIT: Record<string, number> = {
+  g: 1, gram: 1, grams: 1,
+  kg: 1000, kilogram: 1000, kilograms: 1000,
+  oz: 28.3495, ounce: 28.3495, ounces: 28.3495,
+  lb: 453.592, lbs: 453.592, pound: 453.592, pounds: 453.592,
+};
+
+// User unit → FDC measure_unit names that mean the same thing
+const UNIT_SYNONYMS: Record<string, string[]> = {
+  cup: ['cup'],
+  tbsp: ['tablespoon', 'tablespoons'],
+  tablespoon: ['tablespoon', 'tablespoons'],
+  tsp: ['teaspoon'],
+  teaspoon: ['teaspoon'],
+  ml: ['milliliter'],
+  'fl oz': ['fl oz'],
+  slice: ['slice', 'slices'],
+  piece: ['piece', 'pieces', 'each', 'unit', 'medium', 'large', 'fruit'],
+  small: ['small'],
+  medium: ['medium'],
+  large: ['large'],
+};
+
+// Portions to use when the item has no unit, most natural first
+const DEFAULT_PORTION_UNITS = ['each', 'medium', 'large', 'piece', 'slice', 'cup'];
+
+export type FdcIndexLoader = () => Promise<FdcIndex | null>;
+
+/**
+ * Default loader: static index served from /public
+ */
+async function loadIndexFromPublic(): Promise<FdcIndex | null> {
+  if (typeof fetch === 'undefined' || typeof window === 'undefined') return null;
+  const res = await fetch(FDC_INDEX_URL);
+  if (!res.ok) {
+    console.warn('[usdaLocal] FDC index unavailable:', res.status);
+    return null;
+  }
+  return await res.json();
+}
+
+interface ResolvedPortion {
+  grams: number;          // Grams per one user unit
+  label: string;
+  exact: boolean;         // Unit matched a measured portion
+}
+
+function perUnit(portion: FdcPortion): number {
+  return portion.gram_weight / (portion.amount || 1);
+}
+
+function portionLabel(portion: FdcPortion): string {
+  return [portion.amount === 1 ? '1' : String(portion.amount), portion.unit, portion.modifier && `(${portion.modifier})`]
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * Resolve grams for one unit of the item
+ */
+export function resolvePortion(food: FdcFood, unit: string | null): ResolvedPortion {
+  const u = (unit ?? '').trim().toLowerCase();
+
+  if (GRAMS_PER_UNIT[u]) {
+    return { grams: GRAMS_PER_UNIT[u], label: u, exact: true };
+  }
+
+  if (u) {
+    const names = UNIT_SYNONYMS[u] ?? [u];
+    for (const name of names) {
+      const match = food.portions.find(p => p.unit === name);
+      if (match) return { grams: perUnit(match), label: portionLabel(match), exact: true };
+    }
+    // Volume or count units we cannot convert for this food: fall through to its default portion
+  }
+
+  for (const name of DEFAULT_PORTION_UNITS) {
+    const match = food.portions.find(p => p.unit === name);
+    if (match) return { grams: perUnit(match), label: portionLabel(match), exact: false };
+  }
+
+  // FDC often measures countable foods in their own name ("1 egg", "1 banana")
+  const nameUnits = fdcTokens(food.description.split(',')[0]);
+  const byName = food.portions.find(p => nameUnits.includes(p.unit));
+  if (byName) {
+    return { grams: perUnit(byName), label: portionLabel(byName), exact: u === 'piece' };
+  }
+
+  if (food.portions.length > 0) {
+    const first = food.portions[0];
+    return { grams: perUnit(first), label: portionLabel(first), exact: false };
+  }
+
+  return { grams: 100, label: '100 g', exact: false };
+}
+
+export function createUsdaLocalProvider(loadIndex: FdcIndexLoader = loadIndexFromPublic): MacroProvider {
+  let indexPromise: Promise<FdcIndex | null> | null = null;
+
+  const getIndex = () => {
+    indexPromise ??= loadIndex().catch(err => {
+      console.warn('[usdaLocal] Failed to load FDC index:', err);
+      indexPromise = null; // Retry on next lookup
+      return null;
+    });
+    return indexPromise;
+  };
+
+  return {
+    id: 'usdaLocal',
+    priority: 5,
+    priorities: { whole_food: 0.5 }, // After the global cache, before the food_cache query
+    timeoutMs: 3000,
+
+    supports(item: NormalizedItem): boolean {
+      return !item.is_branded && !item.brand && !!item.name?.trim();
+    },
+
+    async fetch(item: NormalizedItem): Promise<MacroResult | null> {
+      const index = await getIndex();
+      if (!index) return null;
+
+      const food = searchFdcIndex(index, item.name);
+      if (!food) {
+        console.log(`[usdaLocal] No FDC match for "${item.name}", trying next provider`);
+        return null;
+      }
+
+      // Measured FDC portions beat the engine's household tables; otherwise use engine grams
+      const portion = resolvePortion(food, item.unit);
+      const quantity = item.amount ?? 1;
+      const engineGrams = portion.exact ? null : item.grams ?? null;
+      const useEngine = engineGrams != null;
+      const grams = engineGrams ?? portion.grams * quantity;
+
+      return {
+        name: item.name,
+        serving_label: portion.label,
+        grams_per_serving: Math.round(portion.grams * 10) / 10,
+        macros: scalePer100g(food.per100g, grams),
+        grams: Math.round(grams * 10) / 10,
+        confidence: portion.exact ? 0.95 : useEngine ? 0.85 : 0.8,
+        source: 'usda_local',
+        notes: `USDA FDC ${food.fdc_id}: ${food.description}`,
+        portion: useEngine ? undefined : {
+          quantity,
+          unit: item.unit,
+          grams: Math.round(grams * 10) / 10,
+          grams_per_unit: Math.round(portion.grams * 10) / 10,
+          confidence: portion.exact ? 0.95 : 0.6,
+          method: portion.exact ? 'measure' : 'assumed',
+          explanation: `1 ${item.unit && portion.exact ? item.unit : 'portion'} = ${portion.label} ≈ ${Math.round(portion.grams * 10) / 10} g (USDA FDC portion)`,
+        },
+      };
+    },
+  };
+}
+
+export const usdaLocalProvider = createUsdaLocalProvider();
@@ -0,0 +1,57 @@
+/**
+ * Lenient JSON parsing for LLM responses
+ * Shared by the normalizer and the LLM-backed macro providers
+ */
+
+/**
+ * Safe JSON parsing with repair attempts
+ */
+export function safeJsonParse(text: string) {
+  if (!text || typeof text !== 'string') {
+    console.warn('[safeJsonParse] Invalid input:', typeof text);
+    return null;
+  }
+
+  const stripFences = (s: string) => s.replace(/```json|```/gi, '').trim();
+  const t = stripFences(text).trim();
+
+  // Handle empty or whitespace-only strings
+  if (!t) {
+    console.warn('[safeJsonParse] Empty input after stripping');
+    return null;
+  }
+
+  try {
+    return JSON.parse(t);
+  } catch (e) {
+    console.warn('[safeJsonParse] Initial parse failed:', (e as Error).message, 'input:', t.substring(0, 100));
+  }
+
+  // More aggressive repair attempts
+  const repairs = [
+    // Remove trailing commas
+    t.replace(/,(\s*[}\]])/g, '$1'),
+    // Quote unquoted keys
+    t.replace(/([{,]\s*)([A-Za-z0-9_]+)\s*:/g, '$1"$2":'),
+    // Handle incomplete JSON by adding closing braces/brackets
+    t + (t.startsWith('{') && !t.endsWith('}') ? '}' : ''),
+    t + (t.startsWith('[') && !t.endsWith(']') ? ']' : ''),
+    // Extract JSON from text that might contain extra content
+    t.match(/\{[\s\S]*\}/)?.[0] || t,
+    // Last resort: try to construct minimal valid JSON
+    '{"items":[]}'
+  ];
+
+  for (const repaired of repairs) {
+    try {
+      const result = JSON.parse(repaired);
+      console.log('[safeJsonParse] Repaired successfully');
+      return result;
+    } catch {
+      // Try the next repair
+    }
+  }
+
+  console.error('[safeJsonParse] All repair attempts failed for input:', t.substring(0, 200));
+  return null;
+}
@@ -1,9 +1,14 @@
+import type { PortionConversion } from "./portionEngine";
+
 export type PortionedItem = {
   name: string;
   quantity: number | null;
   unit: string | null;
   confidence: number; // 0..1
   reason?: string; // Optional explanation when confidence < 0.7
+  // Gram conversion from the portion engine
+  grams?: number | null;
+  portion?: PortionConversion;
   // Brand fields (for branded items)
   brand?: string | null;
   serving_label?: string | null;
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import { parseCsv } from '../csv';
+import { buildFdcIndex, searchFdcIndex, type FdcIndex, type FdcTables } from '../fdcIndex';
+import { createUsdaLocalProvider } from '../../providers/usdaLocal';
+
+const FOOD = `"fdc_id","data_type","description","food_category_id","publication_date"
+"1","foundation_food","Eggs, Grade A, Large, egg whole","1","2019-04-01"
+"2","foundation_food","Broccoli, raw","11","2019-04-01"
+"3","foundation_food","Milk, reduced fat, fluid, 2% milkfat","1","2019-04-01"
+"4","sub_sample_food","Broccoli, raw","11","2019-04-01"
+"5","foundation_food","Cookies, oatmeal, soft","18","2019-04-01"
+`;
+
+const FOOD_NUTRIENT = `"id","fdc_id","nutrient_id","amount"
+"10","1","2047","148"
+"11","1","1003","12.4"
+"12","1","1004","9.96"
+"13","1","1005","0.96"
+"20","2","1008","32"
+"21","2","1003","2.57"
+"22","2","1005","6.27"
+"23","2","1079","2.4"
+"24","2","1004","0.34"
+"30","3","1003","3.36"
+"31","3","1005","4.9"
+"32","3","1085","1.9"
+"40","4","1008","999"
+"50","5","1008","430"
+`;
+
+const FOOD_PORTION = `"id","fdc_id","seq_num","amount","measure_unit_id","portion_description","modifier","gram_weight"
+"100","2","2","1.0","1000","","chopped","91"
+"101","2","1","1.0","1043","","","30"
+"102","1","1","1.0","1099","","whole without shell","50.3"
+"103","3","1","1.0","1000","","","244"
+`;
+
+const MEASURE_UNIT = `"id","name"
+"1000","cup"
+"1043","piece"
+"1099","egg"
+`;
+
+function tables(): FdcTables {
+  return {
+    food: parseCsv(FOOD),
+    food_nutrient: parseCsv(FOOD_NUTRIENT),
+    food_portion: parseCsv(FOOD_PORTION),
+    measure_unit: parseCsv(MEASURE_UNIT),
+  };
+}
+
+describe('parseCsv', () => {
+  it('keeps quoted commas and escaped quotes inside fields', () => {
+    const rows = parseCsv('"a","b"\r\n"Milk, 2%","say ""hi"""\r\n');
+    expect(rows).toEqual([{ a: 'Milk, 2%', b: 'say "hi"' }]);
+  });
+});
+
+describe('buildFdcIndex', () => {
+  const index = buildFdcIndex(tables(), { source: 'fixture' });
+
+  it('keeps only foundation foods with energy, sorted by fdc_id', () => {
+    expect(index.foods.map(f => f.fdc_id)).toEqual([1, 2, 3, 5]);
+  });
+
+  it('falls back through Atwater energy and computes energy when missing', () => {
+    expect(index.foods[0].per100g.kcal).toBe(148);
+    // Milk has no energy row: 3.36*4 + 4.9*4 + 1.9*9
+    expect(index.foods[2].per100g.kcal).toBe(50.14);
+    expect(index.foods[2].per100g.fat_g).toBe(1.9);
+  });
+
+  it('orders portions by seq_num and resolves unit names', () => {
+    expect(index.foods[1].portions).toEqual([
+      { amount: 1, unit: 'piece', modifier: '', gram_weight: 30 },
+      { amount: 1, unit: 'cup', modifier: 'chopped', gram_weight: 91 },
+    ]);
+  });
+
+  it('is deterministic', () => {
+    expect(JSON.stringify(buildFdcIndex(tables(), { source: 'fixture' }))).toBe(JSON.stringify(index));
+  });
+
+  it('matches plural names on the head segment only', () => {
+    expect(searchFdcIndex(index, 'eggs')?.fdc_id).toBe(1);
+    expect(searchFdcIndex(index, '2% milk')?.fdc_id).toBe(3);
+    expect(searchFdcIndex(index, 'oatmeal')).toBeNull();
+  });
+});
+
+describe('usdaLocal provider', () => {
+  const provider = createUsdaLocalProvider(async () => buildFdcIndex(tables(), { source: 'fixture' }));
+
+  it('scales per-100 g macros by food_portion gram weights', async () => {
+    const result = await provider.fetch({ name: 'broccoli', amount: 2, unit: 'cup' });
+    expect(result?.grams_per_serving).toBe(91);
+    expect(result?.macros.kcal).toBeCloseTo(32 * 1.82, 5);
+    expect(result?.confidence).toBe(0.95);
+  });
+
+  it('converts mass units directly and uses named portions for counts', async () => {
+    const ounces = await provider.fetch({ name: 'broccoli', amount: 4, unit: 'oz' });
+    expect(ounces?.macros.kcal).toBeCloseTo(32 * 1.13398, 4);
+
+    const eggs = await provider.fetch({ name: 'eggs', amount: 2, unit: 'piece' });
+    expect(eggs?.serving_label).toBe('1 egg (whole without shell)');
+    expect(eggs?.macros.protein_g).toBeCloseTo(12.4 * 1.006, 5);
+  });
+
+  it('ignores branded items and unknown foods', async () => {
+    expect(provider.supports({ name: 'big mac', amount: 1, unit: null, brand: "McDonald's", is_branded: true })).toBe(false);
+    expect(await provider.fetch({ name: 'dragon fruit', amount: 1, unit: null })).toBeNull();
+  });
+});
+
+describe('grains and legumes', () => {
+  const food = (fdc_id: number, description: string, kcal: number) => ({
+    fdc_id,
+    description,
+    category_id: 20,
+    per100g: { kcal, protein_g: 0, carbs_g: 0, fat_g: 0, fiber_g: 0 },
+    portions: [],
+  });
+  const rawOnly: FdcIndex = { version: 1, source: 'fixture', foods: [food(1, 'Rice, black, unenriched, raw', 369.97)] };
+  const withCooked: FdcIndex = {
+    ...rawOnly,
+    foods: [...rawOnly.foods, food(2, 'Rice, white, long-grain, regular, enriched, cooked', 130)],
+  };
+
+  it('skips dry entries unless the name asks for them', () => {
+    expect(searchFdcIndex(rawOnly, 'rice')).toBeNull();
+    expect(searchFdcIndex(rawOnly, 'raw rice')?.fdc_id).toBe(1);
+    expect(searchFdcIndex(withCooked, 'rice')?.fdc_id).toBe(2);
+  });
+
+  it('sizes 1 cup rice as cooked rice', async () => {
+    const provider = createUsdaLocalProvider(async () => withCooked);
+    const result = await provider.fetch({ name: 'rice', amount: 1, unit: 'cup', grams: 158 });
+    expect(result?.macros.kcal).toBeCloseTo(205, 0);
+
+    const rawProvider = createUsdaLocalProvider(async () => rawOnly);
+    expect(await rawProvider.fetch({ name: 'rice', amount: 1, unit: 'cup', grams: 158 })).toBeNull();
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Minimal RFC 4180 CSV parser
+ * FDC descriptions contain quoted commas ("Milk, reduced fat, ..."), so a plain split is not enough
+ */
+
+export type CsvRow = Record<string, string>;
+
+/**
+ * Parse CSV text into rows keyed by lower-cased header
+ */
+export function parseCsv(text: string): CsvRow[] {
+  const records = parseRecords(text);
+  if (records.length === 0) return [];
+
+  const headers = records[0].map(h => h.trim().toLowerCase());
+  const rows: CsvRow[] = [];
+
+  for (let r = 1; r < records.length; r++) {
+    const values = records[r];
+    // Skip blank trailing lines
+    if (values.length === 1 && values[0] === '') continue;
+
+    const row: CsvRow = {};
+    headers.forEach((h, i) => {
+      row[h] = values[i] ?? '';
+    });
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function parseRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip UTF-8 BOM
+  const src = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (src[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      record.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records;
+}
@@ -0,0 +1,247 @@
+/**
+ * USDA FoodData Central Local Index
+ * Normalizes the FDC CSV bundle (food, food_nutrient, food_portion, measure_unit)
+ * into a compact per-100 g index with household portions in grams.
+ *
+ * Pure and deterministic: the same CSVs always produce byte-identical JSON.
+ */
+
+import type { CsvRow } from './csv';
+import { singularize } from '../foodMatcher';
+
+export const FDC_INDEX_VERSION = 1;
+
+// USDA nutrient ids; energy falls back through Atwater factors for Foundation foods
+export const FDC_NUTRIENT_IDS = {
+  energy: [1008, 2047, 2048],
+  protein: [1003],
+  fat: [1004, 1085],
+  carbs: [1005, 1050],
+  fiber: [1079],
+} as const;
+
+export interface FdcMacros {
+  kcal: number;
+  protein_g: number;
+  carbs_g: number;
+  fat_g: number;
+  fiber_g: number;
+}
+
+export interface FdcPortion {
+  amount: number;
+  unit: string;          // measure_unit name, e.g. "cup", "large", "slice"
+  modifier: string;      // free text, e.g. "chopped" or "1 cup, diced"
+  gram_weight: number;   // grams for `amount` units
+}
+
+export interface FdcFood {
+  fdc_id: number;
+  description: string;
+  category_id: number | null;
+  per100g: FdcMacros;
+  portions: FdcPortion[];
+}
+
+export interface FdcIndex {
+  version: number;
+  source: string;
+  foods: FdcFood[];
+}
+
+export interface FdcTables {
+  food: CsvRow[];
+  food_nutrient: CsvRow[];
+  food_portion: CsvRow[];
+  measure_unit: CsvRow[];
+}
+
+export interface BuildOptions {
+  source: string;
+  dataTypes?: string[]; // Defaults to foundation_food and sr_legacy_food
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function num(v: string | undefined): number | null {
+  if (v === undefined || v.trim() === '') return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+function pickNutrient(values: Map<number, number>, ids: readonly number[]): number | null {
+  for (const id of ids) {
+    const v = values.get(id);
+    if (v !== undefined) return v;
+  }
+  return null;
+}
+
+/**
+ * Build the local index from parsed FDC tables
+ */
+export function buildFdcIndex(tables: FdcTables, options: BuildOptions): FdcIndex {
+  const dataTypes = new Set(options.dataTypes ?? ['foundation_food', 'sr_legacy_food']);
+
+  const units = new Map<number, string>();
+  for (const row of tables.measure_unit) {
+    const id = num(row.id);
+    if (id !== null) units.set(id, (row.name ?? '').trim().toLowerCase());
+  }
+
+  const foods = new Map<number, { description: string; category_id: number | null }>();
+  for (const row of tables.food) {
+    const id = num(row.fdc_id);
+    if (id === null || !dataTypes.has(row.data_type)) continue;
+    foods.set(id, { description: row.description.trim(), category_id: num(row.food_category_id) });
+  }
+
+  const nutrients = new Map<number, Map<number, number>>();
+  for (const row of tables.food_nutrient) {
+    const fdcId = num(row.fdc_id);
+    const nutrientId = num(row.nutrient_id);
+    const amount = num(row.amount);
+    if (fdcId === null || nutrientId === null || amount === null || !foods.has(fdcId)) continue;
+    if (!nutrients.has(fdcId)) nutrients.set(fdcId, new Map());
+    nutrients.get(fdcId)!.set(nutrientId, amount);
+  }
+
+  const portions = new Map<number, Array<{ order: number; portion: FdcPortion }>>();
+  for (const row of tables.food_portion) {
+    const fdcId = num(row.fdc_id);
+    const grams = num(row.gram_weight);
+    if (fdcId === null || grams === null || grams <= 0 || !foods.has(fdcId)) continue;
+
+    const unitName = units.get(num(row.measure_unit_id) ?? -1) ?? 'undetermined';
+    const modifier = (row.modifier || row.portion_description || '').trim();
+    const portion: FdcPortion = {
+      amount: num(row.amount) ?? 1,
+      unit: unitName === 'undetermined' ? (modifier.toLowerCase() || 'serving') : unitName,
+      modifier,
+      gram_weight: round2(grams),
+    };
+    const order = (num(row.seq_num) ?? 0) * 1e9 + (num(row.id) ?? 0);
+    if (!portions.has(fdcId)) portions.set(fdcId, []);
+    portions.get(fdcId)!.push({ order, portion });
+  }
+
+  const out: FdcFood[] = [];
+  for (const fdcId of [...foods.keys()].sort((a, b) => a - b)) {
+    const values = nutrients.get(fdcId);
+    if (!values) continue;
+
+    const protein = pickNutrient(values, FDC_NUTRIENT_IDS.protein) ?? 0;
+    const fat = pickNutrient(values, FDC_NUTRIENT_IDS.fat) ?? 0;
+    const carbs = pickNutrient(values, FDC_NUTRIENT_IDS.carbs) ?? 0;
+    const energy = pickNutrient(values, FDC_NUTRIENT_IDS.energy) ?? (protein * 4 + carbs * 4 + fat * 9);
+    if (energy <= 0) continue;
+
+    const info = foods.get(fdcId)!;
+    out.push({
+      fdc_id: fdcId,
+      description: info.description,
+      category_id: info.category_id,
+      per100g: {
+        kcal: round2(energy),
+        protein_g: round2(protein),
+        carbs_g: round2(carbs),
+        fat_g: round2(fat),
+        fiber_g: round2(pickNutrient(values, FDC_NUTRIENT_IDS.fiber) ?? 0),
+      },
+      portions: (portions.get(fdcId) ?? [])
+        .sort((a, b) => a.order - b.order)
+        .map(p => p.portion),
+    });
+  }
+
+  return { version: FDC_INDEX_VERSION, source: options.source, foods: out };
+}
+
+/**
+ * Normalize a food name into comparable tokens ("Eggs, Grade A" → ["egg", "grade", "a"])
+ */
+export function fdcTokens(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9%\s]+/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(singularize);
+}
+
+// FDC heads that only name a category ("Fish, salmon, ..."); the next segment names the food
+const CATEGORY_HEADS = new Set(['fish', 'beef', 'pork', 'lamb', 'cheese', 'nut', 'seed', 'bean', 'crustacean', 'mollusk', 'spice']);
+
+function headTokens(description: string): string[] {
+  const segments = description.split(',');
+  const head = fdcTokens(segments[0]);
+  return head.length === 1 && CATEGORY_HEADS.has(head[0]) && segments[1]
+    ? [...head, ...fdcTokens(segments[1])]
+    : head;
+}
+
+// Processing words that make an entry a worse default for a plain food name
+const PROCESSED_TOKENS = new Set(['dried', 'frozen', 'canned', 'dehydrated', 'powder']);
+
+// Grains and legumes people measure cooked (portionEngine sizes them cooked), with the
+// words that mark their dry FDC entries, which carry about three times the kcal per gram.
+// Raw legumes are fresh ("Beans, snap, green, raw"); dry ones say dry or mature seeds.
+const GRAIN_DRY_TOKENS = ['raw', 'dry', 'uncooked'];
+const LEGUME_DRY_TOKENS = ['dry', 'uncooked', 'mature'];
+const COOKED_STAPLES: Record<string, string[]> = {
+  rice: GRAIN_DRY_TOKENS,
+  pasta: GRAIN_DRY_TOKENS,
+  spaghetti: GRAIN_DRY_TOKENS,
+  noodle: GRAIN_DRY_TOKENS,
+  quinoa: GRAIN_DRY_TOKENS,
+  couscous: GRAIN_DRY_TOKENS,
+  barley: GRAIN_DRY_TOKENS,
+  bean: LEGUME_DRY_TOKENS,
+  lentil: LEGUME_DRY_TOKENS,
+  chickpea: LEGUME_DRY_TOKENS,
+};
+const COOKED_TOKENS = new Set(['cooked', 'boiled', 'canned']);
+
+/**
+ * Find the best index entry for a free-text food name.
+ * Every query token must appear in the description and the head segment
+ * (before the first comma) must name the food; exact heads, whole/raw forms,
+ * entries with measured portions and shorter descriptions win. Grains and
+ * legumes only match dry entries when the name says so ("dry lentils").
+ */
+export function searchFdcIndex(index: FdcIndex, name: string): FdcFood | null {
+  const query = fdcTokens(name);
+  if (query.length === 0) return null;
+
+  const askedDry = query.some(q => GRAIN_DRY_TOKENS.includes(q));
+  const dryTokens = askedDry ? [] : query.flatMap(q => COOKED_STAPLES[q] ?? []);
+  const wantsCooked = dryTokens.length > 0;
+
+  let best: FdcFood | null = null;
+  let bestScore = -Infinity;
+
+  for (const food of index.foods) {
+    const tokens = fdcTokens(food.description);
+    if (!query.every(q => tokens.includes(q))) continue;
+    if (tokens.some(t => dryTokens.includes(t))) continue; // "1 cup rice" is not 1 cup of raw rice
+
+    const head = headTokens(food.description);
+    if (!head.some(h => query.includes(h))) continue; // "oatmeal" must not match "Cookies, oatmeal"
+
+    let score = 0;
+    if (head.every(h => query.includes(h))) score += 5;
+    if (tokens.includes('whole')) score += 2;
+    if (tokens.includes('raw')) score += 1;
+    if (wantsCooked && tokens.some(t => COOKED_TOKENS.has(t))) score += 3;
+    if (food.portions.length > 0) score += 1;
+    score -= tokens.filter(t => PROCESSED_TOKENS.has(t)).length * 2;
+    score -= tokens.length * 0.5;
+
+    if (score > bestScore) {
+      best = food;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
@@ -4,7 +4,7 @@ import { PatAvatar } from './PatAvatar';
 import { VoiceWaveform } from './VoiceWaveform';
 import { TDEEPromptBubble } from './TDEEPromptBubble';
 import ThinkingAvatar from './common/ThinkingAvatar';
-import { Plus, Mic, Folder, Camera, Image, ArrowUp, Check } from 'lucide-react';
+import { Plus, Mic, Folder, Camera, Image, ArrowUp, Check, ThumbsUp, ThumbsDown } from 'lucide-react';
 import { FoodVerificationScreen } from './FoodVerificationScreen';
 import { MealSuccessTransition } from './MealSuccessTransition';
 import { fetchFoodMacros } from '../lib/food';
@@ -22,6 +22,7 @@ import { callChat } from '../lib/chat';
 import { callChatStreaming } from '../lib/streamingChat';
 import { classifyFoodMessage, type ClassificationResult } from '../lib/personality/foodClassifier';
 import { logMealViaRpc as saveMealAction } from '../lib/meals/saveMeal';
+import { recordConfirmedMatches } from '../agents/shared/nutrition/foodAliases';
 import type { SaveMealInput, SaveMealResult } from '../lib/meals/saveMeal';
 import { inferMealSlot } from '../lib/meals/inferMealSlot';
 import { trackFirstChatMessage } from '../lib/analytics';
@@ -40,9 +41,12 @@ import {
   createChatSession
 } from '../lib/chatHistory';
 
-import { spendCredits, PRICING } from '../lib/credits';
 import toast from 'react-hot-toast';
 import MealVerifyCard from './tmwya/MealVerifyCard';
+import WorkoutVerifyCard from './chat/WorkoutVerifyCard';
+import { handleWorkoutLog } from '../lib/handlers/workout';
+import { recordTurnOutcome, type TurnOutcome } from '../lib/experiments';
+import type { WorkoutVerifyData } from '../core/workout/workoutParser';
 import { useRole } from '../hooks/useRole';
 import { isPrivileged } from '../utils/rbac';
 import { AnimatePresence } from 'framer-motion';
@@ -68,6 +72,7 @@ export const ChatPat: React.FC = () => {
   const [isLoadingChat, setIsLoadingChat] = useState(true);
   const [activeChatId, setActiveChatId] = useState<string | null>(null);
   const [userId, setUserId] = useState<string | null>(null);
+  const [turnThumbs, setTurnThumbs] = useState<Record<string, 1 | -1>>({});
   const [sessionId, setSessionId] = useState<string | null>(null);
 
   // Guards against duplicate hydration and sending
@@ -479,6 +484,17 @@ export const ChatPat: React.FC = () => {
     };
   } | null>(null);
 
+  // Outcome of a variant-tagged turn for the experiment report; never blocks chat
+  const trackTurnOutcome = (turnId: string | undefined, outcome: TurnOutcome) => {
+    if (!turnId) return;
+    recordTurnOutcome(turnId, outcome).catch(err => console.warn('[experiments] Failed to record turn outcome:', err));
+  };
+
+  const handleThumbs = (turnId: string, thumbs: 1 | -1) => {
+    setTurnThumbs(prev => ({ ...prev, [turnId]: thumbs }));
+    trackTurnOutcome(turnId, { thumbs });
+  };
+
   // TMWYA verification handlers
   const handleMealVerificationLog = async (editedMeal?: typeof pendingMeal) => {
     const mealToLog = editedMeal || pendingMeal;
@@ -1009,22 +1025,65 @@ export const ChatPat: React.FC = () => {
                 const p = result.roleData;
                 console.log('[ChatPat] TMWYA verify detected, creating message with roleData:', p);
 
-                const verifyMessage: ChatMessage = {
+                // One card per meal when the message covered several ("breakfast was X, lunch was Y")
+                const meals = result.meals && result.meals.length > 1 ? result.meals : [p];
+                const verifyMessages: ChatMessage[] = meals.map(m => ({
                   id: crypto.randomUUID(),
                   text: '',
                   isUser: false,
                   timestamp: new Date(),
+                  turnId: result.turnId,
                   roleData: {
                     type: 'tmwya.verify',
-                    view: p.view,
-                    items: p.items,
-                    totals: p.totals,
-                    tef: p.tef,
-                    tdee: p.tdee
+                    view: m.view,
+                    items: m.items,
+                    totals: m.totals,
+                    tef: m.tef,
+                    tdee: m.tdee
                   }
+                }));
+
+                // A workout reported in the same message gets its card after the meals
+                if (result.workout) {
+                  verifyMessages.push({
+                    id: crypto.randomUUID(),
+                    text: '',
+                    isUser: false,
+                    timestamp: new Date(),
+                    turnId: result.turnId,
+                    roleData: result.workout
+                  });
+                }
+
+                assistantPersist = {
+                  content: '',
+                  metadata: verifyMessages.length > 1
+                    ? { roleData: verifyMessages[0].roleData, meals: verifyMessages.map(m => m.roleData) }
+                    : { roleData: verifyMessages[0].roleData }
                 };
 
-                assistantPersist = { content: '', metadata: { roleData: verifyMessage.roleData } };
+                setMessages(prev => prev.filter(m => m.id && !m.id.startsWith('thinking-')).concat(verifyMessages));
+                setIsSpeaking(false);
+                setIsThinking(false);
+                setIsSending(false);
+                setStatusText('');
+                return;
+              }
+
+              if (result.roleData?.type === 'workout.verify') {
+                const verifyMessage: ChatMessage = {
+                  id: crypto.randomUUID(),
+                  text: '',
+                  isUser: false,
+                  timestamp: new Date(),
+                  turnId: result.turnId,
+                  roleData: result.roleData
+                };
+
+                assistantPersist = {
+                  content: '',
+                  metadata: { roleData: result.roleData }
+                };
 
                 setMessages(prev => prev.filter(m => m.id && !m.id.startsWith('thinking-')).concat(verifyMessage));
                 setIsSpeaking(false);
@@ -1043,6 +1102,7 @@ export const ChatPat: React.FC = () => {
                 text: result.response,
                 isUser: false,
                 timestamp: new Date(),
+                turnId: result.turnId,
                 meta: combinedMeta
               };
 
@@ -1823,6 +1883,11 @@ export const ChatPat: React.FC = () => {
                     const result = await saveMealAction(saveInput);
 
                     if (result.ok) {
+                      trackTurnOutcome(message.turnId, { outcome: 'confirmed' });
+
+                      // Teach the cache matcher the names the user just confirmed
+                      recordConfirmedMatches(items).catch(err => console.warn('[MealVerifyCard] Alias learning failed:', err));
+
                       // Reload dashboard data
                       await loadLiveDashboard();
                       
@@ -1852,6 +1917,7 @@ export const ChatPat: React.FC = () => {
                 };
 
                 const handleMealCancel = () => {
+                  trackTurnOutcome(message.turnId, { outcome: 'cancelled' });
                   const cancelMessage: ChatMessage = {
                     id: crypto.randomUUID(),
                     text: "Meal logging cancelled. Let me know if you'd like to try again!",
@@ -1877,12 +1943,78 @@ export const ChatPat: React.FC = () => {
                         } : undefined}
                         onConfirm={handleMealConfirm}
                         onCancel={handleMealCancel}
+                        onUpdate={() => trackTurnOutcome(message.turnId, { edited: true })}
                       />
                     </div>
                   </div>
                 );
               }
               
+              // Handle workout verify card - nothing is written to workout_logs until confirmed
+              if (message.roleData?.type === 'workout.verify') {
+                const workout = message.roleData as WorkoutVerifyData;
+
+                const handleWorkoutConfirm = async () => {
+                  try {
+                    setIsLoggingActivity(true);
+                    const result = await handleWorkoutLog(userId!, workout);
+
+                    if (result.ok) {
+                      trackTurnOutcome(message.turnId, { outcome: 'confirmed' });
+                      await updateDailyActivitySummary(userId!, workout.performed_on);
+                      const newAchievements = await checkAndAwardAchievements(userId!);
+                      if (newAchievements > 0) {
+                        toast.success(`🏆 ${newAchievements} new achievement${newAchievements > 1 ? 's' : ''} earned!`);
+                      }
+                      await loadLiveDashboard();
+
+                      const { summary } = workout;
+                      const confirmMessage: ChatMessage = {
+                        id: crypto.randomUUID(),
+                        text: `✅ Workout logged! ${summary.exercises_completed} exercise${summary.exercises_completed === 1 ? '' : 's'}, ~${summary.estimated_duration_min} min${summary.volume_lbs ? `, ${summary.volume_lbs} lbs volume` : ''}.`,
+                        isUser: false,
+                        timestamp: new Date(),
+                        meta: {
+                          showDashboardButton: true,
+                          sessionId: sessionId ?? undefined
+                        }
+                      };
+                      setMessages(prev => [...prev, confirmMessage]);
+                    } else {
+                      toast.error(result.error || 'Failed to log workout');
+                    }
+                  } catch (error) {
+                    console.error('[WorkoutVerifyCard] Log failed:', error);
+                    toast.error('Failed to log workout');
+                  } finally {
+                    setIsLoggingActivity(false);
+                  }
+                };
+
+                const handleWorkoutCancel = () => {
+                  trackTurnOutcome(message.turnId, { outcome: 'cancelled' });
+                  const cancelMessage: ChatMessage = {
+                    id: crypto.randomUUID(),
+                    text: "Workout logging cancelled. Let me know if you'd like to try again!",
+                    isUser: false,
+                    timestamp: new Date(),
+                  };
+                  setMessages(prev => [...prev, cancelMessage]);
+                };
+
+                return (
+                  <div key={message.id} className="flex justify-start">
+                    <div className="max-w-2xl">
+                      <WorkoutVerifyCard
+                        data={workout}
+                        onConfirm={handleWorkoutConfirm}
+                        onCancel={handleWorkoutCancel}
+                      />
+                    </div>
+                  </div>
+                );
+              }
+
               // Regular message bubble
               return (
                 <div key={message.id}>
@@ -1930,6 +2062,26 @@ export const ChatPat: React.FC = () => {
                         </div>
                       )}
 
+                      {/* Thumbs feed the per-variant experiment report */}
+                      {!message.isUser && message.turnId && (
+                        <div className="mt-2 flex gap-1 justify-end">
+                          {([1, -1] as const).map(value => {
+                            const Icon = value === 1 ? ThumbsUp : ThumbsDown;
+                            const selected = turnThumbs[message.turnId!] === value;
+                            return (
+                              <button
+                                key={value}
+                                onClick={() => handleThumbs(message.turnId!, value)}
+                                className={`p-1 rounded transition-colors ${selected ? 'text-blue-400' : 'text-gray-500 hover:text-gray-300'}`}
+                                aria-label={value === 1 ? 'Good response' : 'Bad response'}
+                              >
+                                <Icon size={14} />
+                              </button>
+                            );
+                          })}
+                        </div>
+                      )}
+
                       {/* Source display for web-verified content */}
                       {message.meta?.cite && (
                         <div className="mt-3 pt-2 border-t border-gray-600">
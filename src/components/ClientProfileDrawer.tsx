@@ -3,9 +3,11 @@ import { ProgressTabEnhanced } from './dashboard/ProgressTabEnhanced';
 import { AISummaryTab } from './dashboard/AISummaryTab';
 import { PTDirectivesTab } from './dashboard/PTDirectivesTab';
 import { WorkoutPlansTab } from './dashboard/WorkoutPlansTab';
+import { MentorPlanTab } from './dashboard/MentorPlanTab';
+import { ClientAlertsPanel } from './dashboard/ClientAlertsPanel';
 import { X, Edit3, Save, User, Mail, Phone, MapPin, Calendar, Target, CreditCard, Settings, Shield, FileText, AlertTriangle, TrendingUp, Download, Copy, Trash2, Plus, Activity } from 'lucide-react';
 
-interface Client {
+export interface Client {
   id: string;
   profilePicture?: string;
   name: string;
@@ -85,7 +87,7 @@ interface ClientProfileDrawerProps {
   onDelete?: (clientId: string) => void;
 }
 
-type TabType = 'overview' | 'progress' | 'ai-summary' | 'directives' | 'workout-plans' | 'subscription' | 'agents' | 'permissions' | 'notes';
+type TabType = 'overview' | 'progress' | 'ai-summary' | 'directives' | 'workout-plans' | 'mentor-plan' | 'subscription' | 'agents' | 'permissions' | 'notes';
 
 export const ClientProfileDrawer: React.FC<ClientProfileDrawerProps> = ({
   isOpen,
@@ -207,6 +209,7 @@ export const ClientProfileDrawer: React.FC<ClientProfileDrawerProps> = ({
     { id: 'ai-summary', label: 'AI Summary', icon: Target },
     { id: 'directives', label: 'PT Directives', icon: Settings },
     { id: 'workout-plans', label: 'Workout Plans', icon: Activity },
+    { id: 'mentor-plan', label: 'Mentor Plan', icon: Calendar },
     { id: 'subscription', label: 'Subscription', icon: CreditCard },
     { id: 'agents', label: 'Agent Management', icon: Settings },
     { id: 'permissions', label: 'Permissions', icon: Shield },
@@ -320,6 +323,8 @@ export const ClientProfileDrawer: React.FC<ClientProfileDrawerProps> = ({
         </div>
       </div>
 
+      <ClientAlertsPanel clientId={client.id} />
+
       {/* Basic Information */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <div>
@@ -962,6 +967,9 @@ export const ClientProfileDrawer: React.FC<ClientProfileDrawerProps> = ({
           {activeTab === 'workout-plans' && (
             <WorkoutPlansTab clientId={client.id} />
           )}
+          {activeTab === 'mentor-plan' && (
+            <MentorPlanTab clientId={client.id} />
+          )}
           {activeTab === 'subscription' && renderSubscriptionTab()}
           {activeTab === 'agents' && renderAgentsTab()}
           {activeTab === 'permissions' && renderPermissionsTab()}
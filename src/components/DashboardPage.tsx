@@ -10,9 +10,12 @@ import { TimePeriodSelector, TimePeriod } from './dashboard/TimePeriodSelector';
 import { WeeklyDashboard } from './dashboard/WeeklyDashboard';
 import { MonthlyDashboard } from './dashboard/MonthlyDashboard';
 import { MealHistoryList } from './dashboard/MealHistoryList';
+import { TodayWorkoutCard } from './dashboard/TodayWorkoutCard';
+import { AlertCenter } from './dashboard/AlertCenter';
 import { MetricAlert, CrossMetricInsight } from '../types/metrics';
 import { PatMoodCalculator, UserMetrics } from '../utils/patMoodCalculator';
 import { getSupabase, getDashboardMetrics, updateDailyActivitySummary, getUserDayBoundaries } from '../lib/supabase';
+import { refreshMetricAlerts, dismissMetricAlert } from '../lib/metricAlerts';
 import type { FoodEntry } from '../types/food';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
@@ -85,9 +88,7 @@ export const DashboardPage: React.FC = () => {
     }
   }, [location.state]);
   
-  const [alerts, setAlerts] = useState<MetricAlert[]>([
-    // Alerts will be loaded from backend in future
-  ]);
+  const [alerts, setAlerts] = useState<MetricAlert[]>([]);
 
   // Cross-metric insights will be loaded from backend in future
   const insights: CrossMetricInsight[] = [
@@ -117,6 +118,11 @@ export const DashboardPage: React.FC = () => {
       // Update daily activity summary first (idempotent)
       await updateDailyActivitySummary(user.data.user.id);
 
+      // Alerts are non-critical; a failure here shouldn't block the dashboard
+      refreshMetricAlerts(user.data.user.id)
+        .then(setAlerts)
+        .catch(err => console.error('[dashboard-load] Alert refresh failed:', err));
+
       // Get timezone-aware day boundaries (12:01 AM - 11:59:59 PM user local time)
       let dayBoundaries;
       try {
@@ -395,6 +401,7 @@ export const DashboardPage: React.FC = () => {
     setAlerts(prev => prev.map(alert => 
       alert.id === alertId ? { ...alert, dismissed: true } : alert
     ));
+    dismissMetricAlert(alertId).catch(err => console.error('Failed to dismiss alert:', err));
   };
 
   if (isLoading) {
@@ -448,6 +455,11 @@ export const DashboardPage: React.FC = () => {
         <div className="flex justify-center pt-4 pb-2">
           <TimePeriodSelector selected={timePeriod} onChange={setTimePeriod} />
         </div>
+        {/* Metric alerts, beside Pat */}
+        <div className="absolute top-6 right-20 z-10">
+          <AlertCenter alerts={alerts} onDismissAlert={handleDismissAlert} />
+        </div>
+
         {/* Animated Pat Avatar in corner */}
         <div className="absolute top-4 right-4 z-10">
           <button 
@@ -525,6 +537,16 @@ export const DashboardPage: React.FC = () => {
               <EffortSection workouts={dashboardData?.workoutLogs || []} />
             </div>
 
+            {/* Today's Workout */}
+            {userId && (
+              <div className="mt-6">
+                <TodayWorkoutCard
+                  userId={userId}
+                  onSessionCompleted={loadDashboardData}
+                />
+              </div>
+            )}
+
             {/* Meal History */}
             {userId && (
               <div className="mt-6">
@@ -1,69 +1,79 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { X, Mail, Link, Copy, RefreshCw, Send, Check, AlertCircle, Users, Clock, UserCheck, UserX } from 'lucide-react';
+import {
+  createInvitation,
+  INVITE_EXPIRY_DAYS,
+  invitationStatus,
+  inviteLink as buildInviteLink,
+  listInvitations,
+  resendInvitation,
+  revokeInvitation,
+  type OrgInvitation
+} from '../lib/orgInvites';
 
 interface PendingInvite {
   id: string;
-  email: string;
+  /** Null for shareable link invitations */
+  email: string | null;
   status: 'pending' | 'accepted' | 'declined' | 'expired';
   sentAt: Date;
   expiresAt: Date;
   remindersSent: number;
+  token: string;
 }
 
 interface InviteClientModalProps {
   isOpen: boolean;
   onClose: () => void;
+  /** Org the invitations are issued for; null disables sending */
+  orgId: string | null;
   onInviteSent?: (email: string) => void;
 }
 
+function toPendingInvite(invite: OrgInvitation): PendingInvite {
+  const status = invitationStatus(invite);
+  return {
+    id: invite.id,
+    email: invite.invited_email,
+    status: status === 'cancelled' ? 'declined' : status,
+    sentAt: new Date(invite.last_sent_at ?? invite.created_at),
+    expiresAt: new Date(invite.expires_at),
+    remindersSent: invite.reminders_sent ?? 0,
+    token: invite.token
+  };
+}
+
 export const InviteClientModal: React.FC<InviteClientModalProps> = ({
   isOpen,
   onClose,
+  orgId,
   onInviteSent
 }) => {
   const [activeTab, setActiveTab] = useState<'email' | 'link' | 'pending'>('email');
   const [emailInput, setEmailInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [emailSent, setEmailSent] = useState(false);
-  const [inviteLink, setInviteLink] = useState('https://hipat.app/invite/abc123def456');
+  const [linkInvite, setLinkInvite] = useState<OrgInvitation | null>(null);
+  const [linkExpiryDays, setLinkExpiryDays] = useState(INVITE_EXPIRY_DAYS);
   const [linkCopied, setLinkCopied] = useState(false);
   const [error, setError] = useState('');
+  const [pendingInvites, setPendingInvites] = useState<PendingInvite[]>([]);
+
+  const inviteLink = linkInvite ? buildInviteLink(linkInvite.token) : '';
 
-  // Mock pending invites data
-  const [pendingInvites, setPendingInvites] = useState<PendingInvite[]>([
-    {
-      id: '1',
-      email: 'john.doe@example.com',
-      status: 'pending',
-      sentAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000), // 2 days ago
-      expiresAt: new Date(Date.now() + 5 * 24 * 60 * 60 * 1000), // 5 days from now
-      remindersSent: 1
-    },
-    {
-      id: '2',
-      email: 'jane.smith@example.com',
-      status: 'accepted',
-      sentAt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000), // 1 week ago
-      expiresAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000), // Expired (accepted)
-      remindersSent: 0
-    },
-    {
-      id: '3',
-      email: 'bob.wilson@example.com',
-      status: 'declined',
-      sentAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000), // 3 days ago
-      expiresAt: new Date(Date.now() + 4 * 24 * 60 * 60 * 1000), // 4 days from now
-      remindersSent: 0
-    },
-    {
-      id: '4',
-      email: 'alice.brown@example.com',
-      status: 'expired',
-      sentAt: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000), // 10 days ago
-      expiresAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000), // Expired 3 days ago
-      remindersSent: 2
+  const loadInvites = useCallback(async () => {
+    if (!orgId) return;
+    try {
+      const invites = await listInvitations(orgId);
+      setPendingInvites(invites.map(toPendingInvite));
+    } catch (e) {
+      console.error('[InviteClientModal] Failed to load invitations:', e);
     }
-  ]);
+  }, [orgId]);
+
+  useEffect(() => {
+    if (isOpen) void loadInvites();
+  }, [isOpen, loadInvites]);
 
   const handleSendInvite = async () => {
     if (typeof emailInput !== 'string' || !emailInput.trim()) {
@@ -76,10 +86,14 @@ export const InviteClientModal: React.FC<InviteClientModalProps> = ({
       return;
     }
 
+    if (!orgId) {
+      setError('Join or create an organization before inviting clients');
+      return;
+    }
+
     // Check if email already has pending invite
     const existingInvite = pendingInvites.find(
-      invite => typeof invite.email === 'string' && typeof emailInput === 'string' && 
-      invite.email.toLowerCase() === emailInput.toLowerCase() && 
+      invite => invite.email?.toLowerCase() === emailInput.trim().toLowerCase() &&
       invite.status === 'pending'
     );
 
@@ -91,45 +105,36 @@ export const InviteClientModal: React.FC<InviteClientModalProps> = ({
     setIsLoading(true);
     setError('');
 
-    // TODO: Replace with actual API call
-    setTimeout(() => {
-      const newInvite: PendingInvite = {
-        id: Date.now().toString(),
-        email: emailInput.trim(),
-        status: 'pending',
-        sentAt: new Date(),
-        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days from now
-        remindersSent: 0
-      };
-
-      setPendingInvites(prev => [newInvite, ...prev]);
+    const email = emailInput.trim();
+    try {
+      const invite = await createInvitation(orgId, { email });
+      setPendingInvites(prev => [toPendingInvite(invite), ...prev]);
       setEmailSent(true);
       setEmailInput('');
-      setIsLoading(false);
-      onInviteSent?.(emailInput.trim());
-
-      // TODO: Show success toast
-      console.log('Invite sent to:', emailInput);
+      onInviteSent?.(email);
 
       // Reset success state after 3 seconds
       setTimeout(() => {
         setEmailSent(false);
       }, 3000);
-    }, 1500);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to send invitation');
+    } finally {
+      setIsLoading(false);
+    }
   };
 
-  const handleCopyLink = async () => {
+  const handleCopyLink = async (link = inviteLink) => {
+    if (!link) return;
     try {
-      await navigator.clipboard.writeText(inviteLink);
+      await navigator.clipboard.writeText(link);
       setLinkCopied(true);
       setTimeout(() => setLinkCopied(false), 2000);
-      // TODO: Show success toast
-      console.log('Invite link copied to clipboard');
     } catch (error) {
       console.error('Failed to copy link:', error);
       // Fallback for older browsers
       const textArea = document.createElement('textarea');
-      textArea.value = inviteLink;
+      textArea.value = link;
       document.body.appendChild(textArea);
       textArea.select();
       document.execCommand('copy');
@@ -139,45 +144,53 @@ export const InviteClientModal: React.FC<InviteClientModalProps> = ({
     }
   };
 
-  const handleRegenerateLink = () => {
-    // TODO: Replace with actual API call
-    const newLink = `https://hipat.app/invite/${generateRandomId()}`;
-    setInviteLink(newLink);
-    console.log('New invite link generated:', newLink);
-    // TODO: Show success toast
+  // A link is its own single-use invitation; regenerating retires the old one
+  const handleRegenerateLink = async () => {
+    if (!orgId) {
+      setError('Join or create an organization before inviting clients');
+      return;
+    }
+    setIsLoading(true);
+    setError('');
+    try {
+      if (linkInvite) await revokeInvitation(linkInvite.id);
+      setLinkInvite(await createInvitation(orgId, { expiresDays: linkExpiryDays }));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to generate invite link');
+    } finally {
+      setIsLoading(false);
+    }
   };
 
-  const handleResendInvite = (inviteId: string) => {
-    setPendingInvites(prev => prev.map(invite => 
-      invite.id === inviteId 
-        ? { 
-            ...invite, 
-            remindersSent: invite.remindersSent + 1,
-            sentAt: new Date()
-          }
-        : invite
-    ));
-    // TODO: Send reminder email via API
-    console.log('Reminder sent for invite:', inviteId);
-    // TODO: Show success toast
+  const handleResendInvite = async (inviteId: string) => {
+    try {
+      const invite = await resendInvitation(inviteId);
+      setPendingInvites(prev => prev.map(p => (p.id === inviteId ? toPendingInvite(invite) : p)));
+    } catch (e) {
+      console.error('[InviteClientModal] Resend failed:', e);
+    }
   };
 
-  const handleCancelInvite = (inviteId: string) => {
-    setPendingInvites(prev => prev.filter(invite => invite.id !== inviteId));
-    // TODO: Cancel invite via API
-    console.log('Invite cancelled:', inviteId);
-    // TODO: Show success toast
+  const handleCancelInvite = async (inviteId: string) => {
+    try {
+      await revokeInvitation(inviteId);
+      setPendingInvites(prev => prev.filter(invite => invite.id !== inviteId));
+    } catch (e) {
+      console.error('[InviteClientModal] Cancel failed:', e);
+    }
   };
 
+  const handleResendAll = () =>
+    Promise.all(pendingInvites.filter(i => i.status === 'pending').map(i => handleResendInvite(i.id)));
+
+  const handleCancelAll = () =>
+    Promise.all(pendingInvites.filter(i => i.status === 'pending').map(i => handleCancelInvite(i.id)));
+
   const isValidEmail = (email: string): boolean => {
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
     return emailRegex.test(email);
   };
 
-  const generateRandomId = (): string => {
-    return Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
-  };
-
   const getStatusBadge = (status: PendingInvite['status']) => {
     const styles = {
       pending: 'bg-yellow-100 text-yellow-800 border-yellow-200',
@@ -312,7 +325,7 @@ export const InviteClientModal: React.FC<InviteClientModalProps> = ({
               <span className="font-medium">Invitation sent successfully!</span>
             </div>
             <p className="text-sm text-green-700 mt-1">
-              Your client will receive an email with instructions to join your training program.
+              The invitation is saved against this email. Copy its link from Pending Invites to send it to your client.
             </p>
           </div>
         )}
@@ -331,18 +344,12 @@ export const InviteClientModal: React.FC<InviteClientModalProps> = ({
             <p>You've been invited to join HiPat as a client. Your trainer is ready to help you achieve your fitness goals with personalized AI-powered coaching.</p>
             <p>Click the link below to get started:</p>
             <p className="text-blue-600 underline">[Secure Invitation Link]</p>
-            <p>This invitation expires in 7 days.</p>
+            <p>This invitation expires in {INVITE_EXPIRY_DAYS} days.</p>
             <p>Best regards,<br />The HiPat Team</p>
           </div>
         </div>
       </div>
 
-      {/* TODO Comment */}
-      <div className="bg-yellow-50 p-4 rounded-lg border border-yellow-200">
-        <p className="text-sm text-yellow-800">
-          <strong>TODO:</strong> Implement email sending via backend API with customizable email templates
-        </p>
-      </div>
     </div>
   );
 
@@ -366,12 +373,14 @@ export const InviteClientModal: React.FC<InviteClientModalProps> = ({
               <input
                 type="text"
                 value={inviteLink}
+                placeholder="Generate a link to share"
                 readOnly
                 className="w-full pl-10 pr-4 py-3 bg-gray-50 border border-gray-300 rounded-lg text-gray-700 font-mono text-sm"
               />
             </div>
             <button
-              onClick={handleCopyLink}
+              onClick={() => handleCopyLink()}
+              disabled={!inviteLink}
               className={`px-4 py-3 rounded-lg font-medium transition-all ${
                 linkCopied
                   ? 'bg-green-600 text-white'
@@ -396,12 +405,19 @@ export const InviteClientModal: React.FC<InviteClientModalProps> = ({
         <div className="flex gap-3">
           <button
             onClick={handleRegenerateLink}
-            className="flex items-center gap-2 px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg text-sm transition-colors"
+            disabled={isLoading}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-600 hover:bg-gray-700 disabled:bg-gray-300 text-white rounded-lg text-sm transition-colors"
           >
             <RefreshCw size={16} />
-            Regenerate Link
+            {linkInvite ? 'Regenerate Link' : 'Generate Link'}
           </button>
         </div>
+        {activeTab === 'link' && error && (
+          <div className="flex items-center gap-2 text-red-600 text-sm">
+            <AlertCircle size={16} />
+            {error}
+          </div>
+        )}
       </div>
 
       {/* Link Settings */}
@@ -411,63 +427,25 @@ export const InviteClientModal: React.FC<InviteClientModalProps> = ({
           <div className="flex items-center justify-between">
             <div>
               <p className="font-medium text-gray-900">Link Expiration</p>
-              <p className="text-sm text-gray-600">Automatically expire the link after a set time</p>
+              <p className="text-sm text-gray-600">Applies to the next link you generate</p>
             </div>
-            <select className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500">
-              <option value="7">7 days</option>
-              <option value="14">14 days</option>
-              <option value="30">30 days</option>
-              <option value="never">Never</option>
+            <select
+              value={linkExpiryDays}
+              onChange={(e) => setLinkExpiryDays(Number(e.target.value))}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value={7}>7 days</option>
+              <option value={14}>14 days</option>
+              <option value={30}>30 days</option>
             </select>
           </div>
 
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="font-medium text-gray-900">Single Use</p>
-              <p className="text-sm text-gray-600">Link becomes invalid after first use</p>
-            </div>
-            <button className="relative inline-flex h-6 w-11 items-center rounded-full bg-blue-600 transition-colors">
-              <span className="inline-block h-4 w-4 transform rounded-full bg-white transition-transform translate-x-6" />
-            </button>
-          </div>
-
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="font-medium text-gray-900">Require Email Verification</p>
-              <p className="text-sm text-gray-600">Client must verify email before accessing</p>
-            </div>
-            <button className="relative inline-flex h-6 w-11 items-center rounded-full bg-gray-300 transition-colors">
-              <span className="inline-block h-4 w-4 transform rounded-full bg-white transition-transform translate-x-1" />
-            </button>
-          </div>
-        </div>
-      </div>
-
-      {/* Link Analytics */}
-      <div className="bg-white p-6 rounded-lg border border-gray-200">
-        <h5 className="font-medium text-gray-900 mb-4">Link Analytics</h5>
-        <div className="grid grid-cols-3 gap-4">
-          <div className="text-center">
-            <p className="text-2xl font-bold text-blue-600">12</p>
-            <p className="text-sm text-gray-600">Total Clicks</p>
-          </div>
-          <div className="text-center">
-            <p className="text-2xl font-bold text-green-600">3</p>
-            <p className="text-sm text-gray-600">Conversions</p>
-          </div>
-          <div className="text-center">
-            <p className="text-2xl font-bold text-purple-600">25%</p>
-            <p className="text-sm text-gray-600">Success Rate</p>
+          <div>
+            <p className="font-medium text-gray-900">Single Use</p>
+            <p className="text-sm text-gray-600">Each link adds one client, then stops working</p>
           </div>
         </div>
       </div>
-
-      {/* TODO Comment */}
-      <div className="bg-blue-50 p-4 rounded-lg border border-blue-200">
-        <p className="text-sm text-blue-800">
-          <strong>TODO:</strong> Implement link generation, analytics tracking, and security settings via backend API
-        </p>
-      </div>
     </div>
   );
 
@@ -514,7 +492,7 @@ export const InviteClientModal: React.FC<InviteClientModalProps> = ({
                 <div className="flex items-start justify-between gap-4">
                   <div className="flex-1">
                     <div className="flex items-center gap-3 mb-2">
-                      <p className="font-medium text-gray-900">{invite.email}</p>
+                      <p className="font-medium text-gray-900">{invite.email ?? 'Invite link'}</p>
                       {getStatusBadge(invite.status)}
                     </div>
                     
@@ -539,6 +517,12 @@ export const InviteClientModal: React.FC<InviteClientModalProps> = ({
                   <div className="flex items-center gap-2">
                     {invite.status === 'pending' && (
                       <>
+                        <button
+                          onClick={() => handleCopyLink(buildInviteLink(invite.token))}
+                          className="px-3 py-1 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded text-sm transition-colors"
+                        >
+                          Copy Link
+                        </button>
                         <button
                           onClick={() => handleResendInvite(invite.id)}
                           className="px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded text-sm transition-colors"
@@ -584,10 +568,16 @@ export const InviteClientModal: React.FC<InviteClientModalProps> = ({
               {pendingCount} pending invitation{pendingCount !== 1 ? 's' : ''}
             </p>
             <div className="flex gap-2">
-              <button className="px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded text-sm transition-colors">
+              <button
+                onClick={handleResendAll}
+                className="px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded text-sm transition-colors"
+              >
                 Resend All
               </button>
-              <button className="px-3 py-1 bg-red-600 hover:bg-red-700 text-white rounded text-sm transition-colors">
+              <button
+                onClick={handleCancelAll}
+                className="px-3 py-1 bg-red-600 hover:bg-red-700 text-white rounded text-sm transition-colors"
+              >
                 Cancel All
               </button>
             </div>
@@ -595,12 +585,6 @@ export const InviteClientModal: React.FC<InviteClientModalProps> = ({
         </div>
       )}
 
-      {/* TODO Comment */}
-      <div className="bg-green-50 p-4 rounded-lg border border-green-200">
-        <p className="text-sm text-green-800">
-          <strong>TODO:</strong> Implement invitation status tracking, reminder scheduling, and bulk actions via backend API
-        </p>
-      </div>
     </div>
   );
 
@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { PatAvatar } from './PatAvatar';
-import { User, Mail, Phone, MapPin, Calendar, Settings, Bell, Shield, CreditCard, BarChart3, CreditCard as Edit3, Save, X, Camera, Globe, Moon, Sun, Smartphone, Trophy, Target, MessageSquare, Award, TrendingUp, Activity, Clock, CheckCircle, Volume2, Flame } from 'lucide-react';
+import { User, Mail, Phone, MapPin, Calendar, Settings, Bell, Shield, CreditCard, BarChart3, CreditCard as Edit3, Save, X, Camera, Globe, Moon, Sun, Smartphone, Trophy, Target, MessageSquare, Award, TrendingUp, Activity, Clock, CheckCircle, Volume2, Flame, Brain } from 'lucide-react';
 import { AchievementBadges } from './profile/AchievementBadges';
 import { ProgressVisualizations } from './profile/ProgressVisualizations';
 import { AIInsights } from './profile/AIInsights';
@@ -9,6 +9,8 @@ import { TDEEMetricsSection } from './profile/TDEEMetricsSection';
 import { MacrosTab } from './profile/MacrosTab';
 import { PersonalInformationSection } from './profile/PersonalInformationSection';
 import { CreditsWallet } from './profile/CreditsWallet';
+import { MemoryTab } from './profile/MemoryTab';
+import { isFeatureEnabled } from '../lib/featureFlags.v2';
 import { getSupabase, getUserProfile, upsertUserProfile } from '../lib/supabase';
 import { getDashboardMetrics } from '../lib/supabase';
 import RequestRoleUpgrade from './settings/RequestRoleUpgrade';
@@ -85,7 +87,8 @@ const tabs = [
   { id: 'macros', label: 'Macros', icon: Flame },
   { id: 'preferences', label: 'Preferences', icon: Settings },
   { id: 'account', label: 'Account', icon: Shield },
-  { id: 'usage', label: 'Usage', icon: BarChart3 }
+  { id: 'usage', label: 'Usage', icon: BarChart3 },
+  { id: 'memory', label: 'Memory', icon: Brain }
 ];
 
 const QuickActions = () => {
@@ -129,7 +132,7 @@ const QuickActions = () => {
 
 export const ProfilePage: React.FC = () => {
   const navigate = useNavigate();
-  const [activeTab, setActiveTab] = useState<'profile' | 'macros' | 'preferences' | 'account' | 'usage'>('profile');
+  const [activeTab, setActiveTab] = useState<'profile' | 'macros' | 'preferences' | 'account' | 'usage' | 'memory'>('profile');
   const [isEditing, setIsEditing] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
@@ -748,12 +751,14 @@ export const ProfilePage: React.FC = () => {
     </div>
   );
 
+  const memoryUiEnabled = !!dbProfile && isFeatureEnabled('MEMORY_UI_ENABLED', { userId: dbProfile.user_id, userRole: dbProfile.role });
+
   return (
     <div className="min-h-screen bg-gray-950 text-gray-100 pt-[44px]">      
       <div className="px-4 py-6">
         {/* Tab Navigation */}
         <div className="flex overflow-x-auto mb-6 bg-gray-900 rounded-2xl p-2">
-          {tabs.map((tab) => {
+          {tabs.filter(tab => tab.id !== 'memory' || memoryUiEnabled).map((tab) => {
             const IconComponent = tab.icon;
             return (
               <button
@@ -778,6 +783,7 @@ export const ProfilePage: React.FC = () => {
         {activeTab === 'preferences' && renderPreferencesTab()}
         {activeTab === 'account' && renderAccountTab()}
         {activeTab === 'usage' && renderUsageTab()}
+        {activeTab === 'memory' && <MemoryTab />}
       </div>
     </div>
   );
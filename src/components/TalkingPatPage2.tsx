@@ -4,7 +4,9 @@ import { VoiceWaveform } from './VoiceWaveform';
 import { ConversationAgentManager } from '../utils/conversationAgents';
 import { AnalysedFoodItem, AnalysisResult, NormalizedMealData } from '../types/food';
 import { Folder, Video, Image, Upload, Share, Plus, Mic, X, Camera, RotateCcw, ArrowLeft } from 'lucide-react';
-import { fetchFoodMacros } from '../lib/food';
+import { analyzeMealPhoto } from '../lib/vision/photoMeal';
+import { analyzeBarcode } from '../lib/vision/barcodeMeal';
+import { detectBarcode } from '../lib/barcode/scan';
 import { FoodVerificationScreen } from './FoodVerificationScreen';
 import { saveMeal } from '../lib/meals/saveMeal';
 import { useNavigate } from 'react-router-dom';
@@ -42,6 +44,7 @@ export const TalkingPatPage2: React.FC<TalkingPatPage2Props> = ({ initialState }
   // Refs for camera elements
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const animationFrameRef = useRef<number | null>(null);
@@ -210,75 +213,44 @@ export const TalkingPatPage2: React.FC<TalkingPatPage2Props> = ({ initialState }
     }, 'image/jpeg', 0.8);
   };
 
-  // Send image to backend for analysis
+  // Barcodes resolve from the product store; anything else goes to the vision provider,
+  // then each item is sized and priced through the macro cascade
   const sendImageForAnalysis = async (imageBlob: Blob) => {
     try {
-      const formData = new FormData();
-      formData.append('image', imageBlob, 'meal_photo.jpeg');
-      
-      // Simulate image analysis delay
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      
-      // For Phase 1, we'll use a simple mock recognition and then use OpenAI for macros
-      // In future phases, this could be replaced with actual computer vision
-      const recognizedFoods = [
-        'Grilled Chicken Breast',
-        'Brown Rice', 
-        'Steamed Broccoli'
-      ];
-      
-      // Pick a random food for demo purposes
-      const recognizedFood = recognizedFoods[Math.floor(Math.random() * recognizedFoods.length)];
-      
-      setCaption(`I see ${recognizedFood}! Let me get the nutrition information...`);
-      setIsAnalyzing(false);
-      
-      // Use OpenAI to get macros for the recognized food
-      try {
-        const reply = await fetchFoodMacros(recognizedFood);
-
-        if (reply.ok && reply.macros) {
-          const macroData = reply.macros;
-          
-          // Create analysis result for verification screen
-          const verificationResult: AnalysisResult = {
-            items: [{
-              name: recognizedFood,
-              grams: 100,
-              macros: {
-                kcal: macroData.kcal || macroData.calories || 0,
-                protein_g: macroData.protein_g || 0,
-                carbs_g: macroData.carbs_g || 0,
-                fat_g: macroData.fat_g || 0,
-              },
-              confidence: macroData.confidence || 0.85,
-              candidates: [{
-                name: recognizedFood,
-                macros: {
-                  kcal: macroData.kcal || macroData.calories || 0,
-                  protein_g: macroData.protein_g || 0,
-                  carbs_g: macroData.carbs_g || 0,
-                  fat_g: macroData.fat_g || 0,
-                },
-                confidence: macroData.confidence || 0.85,
-              }],
-            }],
-            source: 'photo'
-          };
-          
-          // Show verification screen instead of direct logging
-          setCurrentAnalysisResult(verificationResult);
+      const barcode = await detectBarcode(imageBlob).catch(() => null);
+      if (barcode) {
+        const product = await analyzeBarcode(barcode.code);
+        if (product) {
+          setIsAnalyzing(false);
+          setCaption(`Scanned ${product.items[0].name}! Please check the serving.`);
+          setCurrentAnalysisResult(product);
           setShowFoodVerificationScreen(true);
-        } else {
-          // Fallback to manual entry if macro lookup fails
-          console.error('fetchFoodMacros error:', reply.error);
-          setCaption(`I detected ${recognizedFood}, but couldn't get nutrition info. Please enter manually.`);
+          return;
         }
-      } catch (error) {
-        console.error('Error getting macros for recognized food:', error);
-        setCaption(`I detected ${recognizedFood}, but couldn't get nutrition info. Please enter manually.`);
+        setCaption(`Barcode ${barcode.code} isn't in our product database yet. Checking the photo instead...`);
       }
-      
+
+      const image = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(String(reader.result));
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(imageBlob);
+      });
+
+      const result = await analyzeMealPhoto({ image });
+      setIsAnalyzing(false);
+
+      if (!result.items.length) {
+        setCaption("I couldn't spot any food in that photo. Try again with the plate filling the frame.");
+        return;
+      }
+
+      const names = result.items.map(item => item.name);
+      setCaption(`I see ${names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0]}! Please check the portions.`);
+
+      // Show verification screen instead of direct logging
+      setCurrentAnalysisResult(result);
+      setShowFoodVerificationScreen(true);
     } catch (error) {
       console.error('Analysis error:', error);
       setIsAnalyzing(false);
@@ -286,6 +258,18 @@ export const TalkingPatPage2: React.FC<TalkingPatPage2Props> = ({ initialState }
     }
   };
 
+  // Uploaded image: same barcode / vision path as a camera capture
+  const handleImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setCapturedImage(URL.createObjectURL(file));
+    setIsAnalyzing(true);
+    setCaption('Analyzing your photo...');
+    sendImageForAnalysis(file);
+  };
+
   // Food verification handlers
   const handleConfirmVerification = async (normalizedMeal: NormalizedMealData) => {
     try {
@@ -324,7 +308,7 @@ export const TalkingPatPage2: React.FC<TalkingPatPage2Props> = ({ initialState }
     setCaption('Retrying analysis...');
     
     // Retry the analysis with the captured image
-    if (capturedImage && canvasRef.current) {
+    if (capturedImage) {
       // Convert data URL back to blob for re-analysis
       try {
         const response = await fetch(capturedImage);
@@ -360,6 +344,9 @@ export const TalkingPatPage2: React.FC<TalkingPatPage2Props> = ({ initialState }
     if (optionId === 'take') {
       // Initialize camera for photo capture
       initializeCamera();
+    } else if (optionId === 'photos') {
+      // Meal photo or product barcode from the library
+      fileInputRef.current?.click();
     } else {
       // Handle other options (existing logic)
       setIsAnalyzing(true);
@@ -429,6 +416,14 @@ export const TalkingPatPage2: React.FC<TalkingPatPage2Props> = ({ initialState }
       
       <div className="flex-1 flex flex-col items-center justify-center px-6 text-white">
       <div className="flex-1 flex flex-col items-center justify-center">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={handleImageUpload}
+        />
+
         {/* Camera Feed */}
         {selectedOption === 'take' && (
           <div className="w-full px-4 mb-6">
@@ -1,201 +1,137 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { AppBar } from './AppBar';
 import { NavigationSidebar } from './NavigationSidebar';
-import { ClientProfileDrawer } from './ClientProfileDrawer';
+import { ClientProfileDrawer, type Client as ClientProfile } from './ClientProfileDrawer';
 import { MetricAlert, CrossMetricInsight } from '../types/metrics'; // Keep this import
 import { AnalyticsDashboardSection } from './dashboard/AnalyticsDashboardSection';
 import { PermissionsSettingsPage } from './dashboard/PermissionsSettingsPage';
 import { InviteClientModal } from './InviteClientModal';
-import { Search, Filter, Plus, MoreVertical, Users, UserCheck, UserX, AlertTriangle, ChevronLeft, ChevronRight, CheckSquare, Square } from 'lucide-react';
+import { Search, Filter, Plus, Users, UserCheck, UserX, AlertTriangle, ChevronLeft, ChevronRight, CheckSquare, Square, Clock } from 'lucide-react';
 import { UserProfile } from '../types/user';
+import { getActiveOrgIdSafe } from '../lib/org';
+import { revokeInvitation } from '../lib/orgInvites';
+import { listRoster, revokeMember, ROSTER_PAGE_SIZE, type RosterEntry, type RosterPage, type RosterStatus } from '../lib/roster';
 
 
 interface Client {
+  /** user_id for members, invitation id for pending invitations */
   id: string;
-  profilePicture?: string;
+  userId: string | null;
+  invitationId: string | null;
   name: string;
   email: string;
-  phone?: string;
-  lastLogin: Date;
-  status: 'active' | 'inactive' | 'trial' | 'suspended';
-  role: 'client' | 'premium' | 'enterprise';
-  assignedAgents: string[];
-  joinedDate: Date;
-  subscription?: {
-    plan: string;
-    status: 'active' | 'cancelled' | 'past_due';
-    renewalDate: Date;
-  };
-  metrics?: {
-    workoutStreak: number;
-    lastWorkout?: Date;
-    goalCompletion: number;
-  };
+  lastLogin: Date | null;
+  status: RosterStatus;
+  role: RosterEntry['role'];
+  joinedDate: Date | null;
+  expiresAt: Date | null;
 }
 
 interface TrainerDashboardPageProps {
   userProfile: UserProfile | null;
 }
 
+const SEARCH_DEBOUNCE_MS = 300;
+
+function toClient(entry: RosterEntry): Client {
+  return {
+    id: entry.user_id ?? entry.invitation_id ?? entry.email ?? entry.name,
+    userId: entry.user_id,
+    invitationId: entry.invitation_id,
+    name: entry.name || entry.email || 'Unnamed client',
+    email: entry.email ?? '',
+    lastLogin: entry.last_sign_in_at ? new Date(entry.last_sign_in_at) : null,
+    status: entry.status,
+    role: entry.role,
+    joinedDate: entry.since ? new Date(entry.since) : null,
+    expiresAt: entry.expires_at ? new Date(entry.expires_at) : null
+  };
+}
+
+/** The profile drawer only opens for members, so status is active or inactive */
+function toClientProfile(client: Client): ClientProfile {
+  return {
+    id: client.userId ?? client.id,
+    name: client.name,
+    email: client.email,
+    lastLogin: client.lastLogin ?? client.joinedDate ?? new Date(),
+    status: client.status === 'active' ? 'active' : 'inactive',
+    role: 'client',
+    assignedAgents: [],
+    joinedDate: client.joinedDate ?? new Date()
+  };
+}
+
 export const TrainerDashboardPage: React.FC<TrainerDashboardPageProps> = ({ userProfile }) => {
   const [activeView, setActiveView] = useState<'clients' | 'analytics' | 'permissions'>('clients');
   const [searchQuery, setSearchQuery] = useState('');
-  const [statusFilter, setStatusFilter] = useState<'all' | 'active' | 'inactive' | 'trial'>('all');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [statusFilter, setStatusFilter] = useState<'all' | RosterStatus>('all');
   const [selectedClients, setSelectedClients] = useState<string[]>([]);
   const [currentPage, setCurrentPage] = useState(1);
-  const [isLoading, setIsLoading] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [orgId, setOrgId] = useState<string | null>(null);
+  const [roster, setRoster] = useState<RosterPage | null>(null);
   const [showClientDrawer, setShowClientDrawer] = useState(false);
   const [showInviteModal, setShowInviteModal] = useState(false);
-  const [selectedClient, setSelectedClient] = useState<Client | null>(null);
-
-  const clientsPerPage = 10;
-
-  // TODO: MOCK_DATA_REMOVE (HiPat cleanup)
-  // TODO: Replace with actual API call when backend is ready
-  const mockClients: Client[] = [
-    {
-      id: '1',
-      name: 'Sarah Johnson',
-      email: 'sarah.johnson@email.com',
-      phone: '+1 (555) 123-4567',
-      lastLogin: new Date(Date.now() - 2 * 60 * 60 * 1000), // 2 hours ago
-      status: 'active',
-      role: 'premium',
-      assignedAgents: ['meal-tracker', 'workout-tracker'],
-      joinedDate: new Date('2024-01-15'),
-      subscription: {
-        plan: 'Premium',
-        status: 'active',
-        renewalDate: new Date('2024-02-15')
-      },
-      metrics: {
-        workoutStreak: 12,
-        lastWorkout: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000),
-        goalCompletion: 85
-      }
-    },
-    {
-      id: '2',
-      name: 'Michael Chen',
-      email: 'michael.chen@email.com',
-      phone: '+1 (555) 234-5678',
-      lastLogin: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000), // 1 day ago
-      status: 'active',
-      role: 'client',
-      assignedAgents: ['meal-tracker'],
-      joinedDate: new Date('2024-01-20'),
-      subscription: {
-        plan: 'Basic',
-        status: 'active',
-        renewalDate: new Date('2024-02-20')
-      },
-      metrics: {
-        workoutStreak: 5,
-        lastWorkout: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000),
-        goalCompletion: 72
-      }
-    },
-    {
-      id: '3',
-      name: 'Emily Rodriguez',
-      email: 'emily.rodriguez@email.com',
-      lastLogin: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000), // 1 week ago
-      status: 'inactive',
-      role: 'client',
-      assignedAgents: [],
-      joinedDate: new Date('2023-12-10'),
-      subscription: {
-        plan: 'Basic',
-        status: 'cancelled',
-        renewalDate: new Date('2024-01-10')
-      },
-      metrics: {
-        workoutStreak: 0,
-        lastWorkout: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000),
-        goalCompletion: 23
-      }
-    },
-    {
-      id: '4',
-      name: 'David Thompson',
-      email: 'david.thompson@email.com',
-      phone: '+1 (555) 345-6789',
-      lastLogin: new Date(Date.now() - 30 * 60 * 1000), // 30 minutes ago
-      status: 'trial',
-      role: 'client',
-      assignedAgents: ['meal-tracker', 'workout-tracker', 'meal-planner'],
-      joinedDate: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000), // 3 days ago
-      metrics: {
-        workoutStreak: 3,
-        lastWorkout: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000),
-        goalCompletion: 90
-      }
-    },
-    {
-      id: '5',
-      name: 'Lisa Park',
-      email: 'lisa.park@email.com',
-      phone: '+1 (555) 456-7890',
-      lastLogin: new Date(Date.now() - 4 * 60 * 60 * 1000), // 4 hours ago
-      status: 'active',
-      role: 'enterprise',
-      assignedAgents: ['meal-tracker', 'workout-tracker', 'meal-planner', 'restaurant-finder'],
-      joinedDate: new Date('2023-11-05'),
-      subscription: {
-        plan: 'Enterprise',
-        status: 'active',
-        renewalDate: new Date('2024-11-05')
-      },
-      metrics: {
-        workoutStreak: 28,
-        lastWorkout: new Date(Date.now() - 12 * 60 * 60 * 1000),
-        goalCompletion: 95
-      }
-    },
-    {
-      id: '6',
-      name: 'James Wilson',
-      email: 'james.wilson@email.com',
-      lastLogin: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000), // 5 days ago
-      status: 'suspended',
-      role: 'client',
-      assignedAgents: [],
-      joinedDate: new Date('2024-01-01'),
-      subscription: {
-        plan: 'Basic',
-        status: 'past_due',
-        renewalDate: new Date('2024-01-31')
-      },
-      metrics: {
-        workoutStreak: 0,
-        lastWorkout: new Date(Date.now() - 8 * 24 * 60 * 60 * 1000),
-        goalCompletion: 15
-      }
+  const [selectedClient, setSelectedClient] = useState<ClientProfile | null>(null);
+
+  const clientsPerPage = ROSTER_PAGE_SIZE;
+
+  useEffect(() => {
+    getActiveOrgIdSafe().then(id => {
+      setOrgId(id);
+      if (!id) setIsLoading(false);
+    });
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchQuery), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  // Filters change the result set, so start again from the first page
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [debouncedSearch, statusFilter]);
+
+  const loadRoster = useCallback(async () => {
+    if (!orgId) return;
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      const page = await listRoster(orgId, {
+        search: debouncedSearch,
+        status: statusFilter === 'all' ? null : statusFilter,
+        page: currentPage,
+        pageSize: clientsPerPage
+      });
+      setRoster(page);
+      setSelectedClients([]);
+    } catch (e) {
+      console.error('[TrainerDashboard] Roster load failed:', e);
+      setLoadError(e instanceof Error ? e.message : 'Failed to load clients');
+    } finally {
+      setIsLoading(false);
     }
-  ];
-
-  // Filter clients based on search and status
-  const filteredClients = mockClients.filter(client => {
-    const matchesSearch = (typeof client.name === 'string' && typeof searchQuery === 'string' && 
-                          client.name.toLowerCase().includes(searchQuery.toLowerCase())) ||
-                         (typeof client.email === 'string' && typeof searchQuery === 'string' && 
-                          client.email.toLowerCase().includes(searchQuery.toLowerCase()));
-    const matchesStatus = statusFilter === 'all' || client.status === statusFilter;
-    return matchesSearch && matchesStatus;
-  });
-
-  // Pagination
-  const totalPages = Math.ceil(filteredClients.length / clientsPerPage);
+  }, [orgId, debouncedSearch, statusFilter, currentPage, clientsPerPage]);
+
+  useEffect(() => {
+    void loadRoster();
+  }, [loadRoster]);
+
+  const paginatedClients = (roster?.entries ?? []).map(toClient);
+  const totalClients = roster?.total ?? 0;
+  const totalPages = roster?.pageCount ?? 1;
   const startIndex = (currentPage - 1) * clientsPerPage;
-  const paginatedClients = filteredClients.slice(startIndex, startIndex + clientsPerPage);
 
   // Status badge styling
   const getStatusBadge = (status: Client['status']) => {
     const styles = {
       active: 'bg-green-100 text-green-800 border-green-200',
-      inactive: 'bg-gray-100 text-gray-800 border-gray-200',
-      trial: 'bg-blue-100 text-blue-800 border-blue-200',
-      suspended: 'bg-red-100 text-red-800 border-red-200'
+      invited: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+      inactive: 'bg-gray-100 text-gray-800 border-gray-200'
     };
     
     return (
@@ -207,10 +143,12 @@ export const TrainerDashboardPage: React.FC<TrainerDashboardPageProps> = ({ user
 
   // Role badge styling
   const getRoleBadge = (role: Client['role']) => {
-    const styles = {
+    const styles: Record<Client['role'], string> = {
       client: 'bg-gray-100 text-gray-700',
-      premium: 'bg-purple-100 text-purple-700',
-      enterprise: 'bg-yellow-100 text-yellow-700'
+      member: 'bg-gray-100 text-gray-700',
+      trainer: 'bg-purple-100 text-purple-700',
+      admin: 'bg-yellow-100 text-yellow-700',
+      owner: 'bg-yellow-100 text-yellow-700'
     };
     
     return (
@@ -221,7 +159,10 @@ export const TrainerDashboardPage: React.FC<TrainerDashboardPageProps> = ({ user
   };
 
   // Format last login time
-  const formatLastLogin = (date: Date) => {
+  const formatLastLogin = (date: Date | null) => {
+    if (!date) {
+      return 'Never';
+    }
     const now = new Date();
     const diffInHours = (now.getTime() - date.getTime()) / (1000 * 60 * 60);
     
@@ -254,45 +195,74 @@ export const TrainerDashboardPage: React.FC<TrainerDashboardPageProps> = ({ user
     }
   };
 
-  // Handle client row click
+  // Handle client row click; pending invitations have no profile yet
   const handleClientClick = (client: Client) => {
-    setSelectedClient(client);
+    if (!client.userId) return;
+    setSelectedClient(toClientProfile(client));
     setShowClientDrawer(true);
   };
 
   // Handle client save from drawer
-  const handleClientSave = (updatedClient: Client) => {
-    // TODO: Update client in backend
-    console.log('Saving client:', updatedClient);
+  const handleClientSave = (updatedClient: ClientProfile) => {
+    console.log('[TrainerDashboard] Profile edits are not persisted yet:', updatedClient.id);
     setShowClientDrawer(false);
-    // TODO: Refresh client list or update local state
+  };
+
+  // Remove a member, or withdraw a pending invitation
+  const removeClient = async (client: Client) => {
+    if (!orgId) return;
+    if (client.userId) {
+      await revokeMember(orgId, client.userId);
+    } else if (client.invitationId) {
+      await revokeInvitation(client.invitationId);
+    }
   };
 
   // Handle client delete from drawer
-  const handleClientDelete = (clientId: string) => {
-    // TODO: Delete client from backend
-    console.log('Deleting client:', clientId);
+  const handleClientDelete = async (clientId: string) => {
+    const client = paginatedClients.find(c => c.userId === clientId);
     setShowClientDrawer(false);
-    // TODO: Refresh client list or update local state
+    if (!client) return;
+    try {
+      await removeClient(client);
+    } catch (e) {
+      setLoadError(e instanceof Error ? e.message : 'Failed to remove client');
+    }
+    await loadRoster();
+  };
+
+  const handleRemoveSelected = async () => {
+    const clients = paginatedClients.filter(c => selectedClients.includes(c.id));
+    try {
+      await Promise.all(clients.map(removeClient));
+    } catch (e) {
+      setLoadError(e instanceof Error ? e.message : 'Failed to remove clients');
+    }
+    await loadRoster();
+  };
+
+  const handleRemoveClient = async (client: Client) => {
+    try {
+      await removeClient(client);
+    } catch (e) {
+      setLoadError(e instanceof Error ? e.message : 'Failed to remove client');
+    }
+    await loadRoster();
   };
 
   // Handle invite sent
   const handleInviteSent = (email: string) => {
-    // TODO: Refresh pending invites or update local state
-    console.log('Invite sent to:', email);
-    // TODO: Show success toast
+    console.log('[TrainerDashboard] Invite sent to:', email);
+    void loadRoster();
   };
 
-  // Get summary stats
+  // Summary stats over the current search, independent of the status filter
+  const counts = roster?.counts ?? { active: 0, invited: 0, inactive: 0 };
   const stats = {
-    total: mockClients.length,
-    active: mockClients.filter(c => c.status === 'active').length,
-    trial: mockClients.filter(c => c.status === 'trial').length,
-    atRisk: mockClients.filter(c => 
-      c.status === 'inactive' || 
-      c.status === 'suspended' || 
-      (c.metrics && c.metrics.goalCompletion < 50)
-    ).length
+    total: counts.active + counts.inactive,
+    active: counts.active,
+    invited: counts.invited,
+    inactive: counts.inactive
   };
 
   return (
@@ -389,12 +359,12 @@ export const TrainerDashboardPage: React.FC<TrainerDashboardPageProps> = ({ user
             
             <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
               <div className="flex items-center gap-3">
-                <div className="w-12 h-12 bg-blue-100 rounded-lg flex items-center justify-center">
-                  <UserCheck size={24} className="text-blue-600" />
+                <div className="w-12 h-12 bg-yellow-100 rounded-lg flex items-center justify-center">
+                  <Clock size={24} className="text-yellow-600" />
                 </div>
                 <div>
-                  <p className="text-2xl font-bold text-gray-900">{stats.trial}</p>
-                  <p className="text-gray-600 text-sm">Trial Users</p>
+                  <p className="text-2xl font-bold text-gray-900">{stats.invited}</p>
+                  <p className="text-gray-600 text-sm">Pending Invites</p>
                 </div>
               </div>
             </div>
@@ -402,11 +372,11 @@ export const TrainerDashboardPage: React.FC<TrainerDashboardPageProps> = ({ user
             <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
               <div className="flex items-center gap-3">
                 <div className="w-12 h-12 bg-red-100 rounded-lg flex items-center justify-center">
-                  <AlertTriangle size={24} className="text-red-600" />
+                  <UserX size={24} className="text-red-600" />
                 </div>
                 <div>
-                  <p className="text-2xl font-bold text-gray-900">{stats.atRisk}</p>
-                  <p className="text-gray-600 text-sm">At Risk</p>
+                  <p className="text-2xl font-bold text-gray-900">{stats.inactive}</p>
+                  <p className="text-gray-600 text-sm">Inactive</p>
                 </div>
               </div>
             </div>
@@ -436,13 +406,13 @@ export const TrainerDashboardPage: React.FC<TrainerDashboardPageProps> = ({ user
                 <Filter size={20} className="text-gray-400" />
                 <select
                   value={statusFilter}
-                  onChange={(e) => setStatusFilter(e.target.value as any)}
+                  onChange={(e) => setStatusFilter(e.target.value as 'all' | RosterStatus)}
                   className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                 >
                   <option value="all">All Status</option>
                   <option value="active">Active</option>
+                  <option value="invited">Invited</option>
                   <option value="inactive">Inactive</option>
-                  <option value="trial">Trial</option>
                 </select>
               </div>
             </div>
@@ -459,7 +429,10 @@ export const TrainerDashboardPage: React.FC<TrainerDashboardPageProps> = ({ user
                   <button className="px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded transition-colors">
                     Assign Agent
                   </button>
-                  <button className="px-3 py-1 text-sm bg-red-600 hover:bg-red-700 text-white rounded transition-colors">
+                  <button
+                    onClick={handleRemoveSelected}
+                    className="px-3 py-1 text-sm bg-red-600 hover:bg-red-700 text-white rounded transition-colors"
+                  >
                     Remove
                   </button>
                 </div>
@@ -469,6 +442,12 @@ export const TrainerDashboardPage: React.FC<TrainerDashboardPageProps> = ({ user
 
           {/* Client Table */}
           <div className="overflow-x-auto">
+            {loadError && (
+              <div className="px-6 py-3 bg-red-50 border-b border-red-200 flex items-center gap-2 text-sm text-red-700">
+                <AlertTriangle size={16} />
+                {loadError}
+              </div>
+            )}
             {isLoading ? (
               // Loading State
               <div className="p-8">
@@ -492,7 +471,7 @@ export const TrainerDashboardPage: React.FC<TrainerDashboardPageProps> = ({ user
               <div className="p-12 text-center">
                 <Users size={48} className="text-gray-400 mx-auto mb-4" />
                 <h3 className="text-lg font-medium text-gray-900 mb-2">
-                  {searchQuery || statusFilter !== 'all' ? 'No clients found' : 'No clients yet'}
+                  {!orgId ? 'No organization selected' : searchQuery || statusFilter !== 'all' ? 'No clients found' : 'No clients yet'}
                 </h3>
                 <p className="text-gray-600 mb-6">
                   {searchQuery || statusFilter !== 'all' 
@@ -539,7 +518,7 @@ export const TrainerDashboardPage: React.FC<TrainerDashboardPageProps> = ({ user
                       Last Login
                     </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Progress
+                      Since
                     </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Actions
@@ -550,7 +529,7 @@ export const TrainerDashboardPage: React.FC<TrainerDashboardPageProps> = ({ user
                   {paginatedClients.map((client) => ( // eslint-disable-next-line react/jsx-key
                     <tr 
                       key={client.id}
-                      className="hover:bg-gray-50 cursor-pointer transition-colors"
+                      className={`hover:bg-gray-50 transition-colors ${client.userId ? 'cursor-pointer' : ''}`}
                       onClick={() => handleClientClick(client)}
                     >
                       <td className="px-6 py-4">
@@ -589,31 +568,25 @@ export const TrainerDashboardPage: React.FC<TrainerDashboardPageProps> = ({ user
                         {formatLastLogin(client.lastLogin)}
                       </td>
                       <td className="px-6 py-4">
-                        {client.metrics && (
-                          <div className="flex items-center gap-2">
-                            <div className="w-16 bg-gray-200 rounded-full h-2">
-                              <div 
-                                className="bg-blue-600 h-2 rounded-full transition-all duration-300"
-                                style={{ width: `${client.metrics.goalCompletion}%` }}
-                              />
-                            </div>
-                            <span className="text-sm text-gray-600">
-                              {client.metrics.goalCompletion}%
-                            </span>
-                          </div>
-                        )}
+                        <span className="text-sm text-gray-600">
+                          {client.status === 'invited' && client.expiresAt
+                            ? `Expires ${client.expiresAt.toLocaleDateString()}`
+                            : client.joinedDate?.toLocaleDateString() ?? '—'}
+                        </span>
                       </td>
                       <td className="px-6 py-4">
-                        <button
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            // TODO: Open action menu
-                            console.log('Actions for:', client.name);
-                          }}
-                          className="p-1 hover:bg-gray-100 rounded transition-colors"
-                        >
-                          <MoreVertical size={16} className="text-gray-400" />
-                        </button>
+                        {client.role !== 'owner' && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              void handleRemoveClient(client);
+                            }}
+                            title={client.status === 'invited' ? 'Cancel invitation' : 'Remove client'}
+                            className="p-1 hover:bg-gray-100 rounded transition-colors"
+                          >
+                            <UserX size={16} className="text-gray-400" />
+                          </button>
+                        )}
                       </td>
                     </tr>
                   ))}
@@ -627,7 +600,7 @@ export const TrainerDashboardPage: React.FC<TrainerDashboardPageProps> = ({ user
             <div className="px-6 py-4 border-t border-gray-200">
               <div className="flex items-center justify-between">
                 <p className="text-sm text-gray-600">
-                  Showing {startIndex + 1} to {Math.min(startIndex + clientsPerPage, filteredClients.length)} of {filteredClients.length} clients
+                  Showing {startIndex + 1} to {Math.min(startIndex + clientsPerPage, totalClients)} of {totalClients} clients
                 </p>
                 <div className="flex items-center gap-2">
                   <button
@@ -657,9 +630,8 @@ export const TrainerDashboardPage: React.FC<TrainerDashboardPageProps> = ({ user
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
           <h3 className="font-medium text-blue-900 mb-2">Implementation Notes</h3>
           <ul className="text-sm text-blue-800 space-y-1">
-            <li>• TODO: Connect to backend API for client data</li>
             <li>• TODO: Add real-time updates for client status</li>
-            <li>• TODO: Implement bulk actions (assign agents, remove clients)</li>
+            <li>• TODO: Implement bulk agent assignment</li>
             <li>• TODO: Add export functionality for client data</li>
           </ul>
         </div>
@@ -680,6 +652,7 @@ export const TrainerDashboardPage: React.FC<TrainerDashboardPageProps> = ({ user
       <InviteClientModal
         isOpen={showInviteModal}
         onClose={() => setShowInviteModal(false)}
+        orgId={orgId}
         onInviteSent={handleInviteSent}
       />
     </div>
@@ -0,0 +1,115 @@
+import { useCallback, useEffect, useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { listTurnVariants } from '../../lib/experiments';
+import { buildVariantReport, type VariantMetrics } from '../../core/swarm/experimentReport';
+
+interface ExperimentReportProps {
+  swarmId: string;
+}
+
+const VARIANT_STYLES: Record<VariantMetrics['variant'], string> = {
+  control: 'bg-gray-100 text-gray-700',
+  treatment: 'bg-blue-100 text-blue-700',
+  holdout: 'bg-yellow-100 text-yellow-800'
+};
+
+const pct = (v: number | null) => (v === null ? '—' : `${Math.round(v * 100)}%`);
+const ms = (v: number | null) => (v === null ? '—' : `${v.toLocaleString()} ms`);
+
+export function ExperimentReport({ swarmId }: ExperimentReportProps) {
+  const [days, setDays] = useState(14);
+  const [rows, setRows] = useState<VariantMetrics[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setRows(buildVariantReport(await listTurnVariants(swarmId, days)));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load report');
+    } finally {
+      setLoading(false);
+    }
+  }, [swarmId, days]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return (
+    <div className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Variant Comparison</h3>
+          <p className="text-sm text-gray-500">Outcomes of chat turns tagged with the swarm version that served them.</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={days}
+            onChange={e => setDays(Number(e.target.value))}
+            className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value={7}>Last 7 days</option>
+            <option value={14}>Last 14 days</option>
+            <option value={30}>Last 30 days</option>
+          </select>
+          <button
+            onClick={load}
+            disabled={loading}
+            className="flex items-center gap-2 px-3 py-1.5 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 text-sm disabled:opacity-50"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded text-sm text-red-700">{error}</div>}
+
+      {!loading && !error && rows.length === 0 ? (
+        <div className="text-center py-12 text-gray-500 text-sm">No tagged turns in this window.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200">
+                <th className="py-2 pr-4 font-medium">Experiment</th>
+                <th className="py-2 pr-4 font-medium">Variant</th>
+                <th className="py-2 pr-4 font-medium text-right">Turns</th>
+                <th className="py-2 pr-4 font-medium text-right">Log confirm</th>
+                <th className="py-2 pr-4 font-medium text-right">Edit rate</th>
+                <th className="py-2 pr-4 font-medium text-right">Thumbs</th>
+                <th className="py-2 pr-4 font-medium text-right">Avg cost</th>
+                <th className="py-2 pr-4 font-medium text-right">Latency (avg / p95)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={`${row.experiment_key}-${row.variant}`} className="border-b border-gray-100">
+                  <td className="py-2 pr-4 font-mono text-xs text-gray-600">
+                    {row.experiment_key ? row.experiment_key.split(':').slice(-1)[0].slice(0, 8) : 'no experiment'}
+                  </td>
+                  <td className="py-2 pr-4">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${VARIANT_STYLES[row.variant]}`}>{row.variant}</span>
+                  </td>
+                  <td className="py-2 pr-4 text-right">{row.turns}</td>
+                  <td className="py-2 pr-4 text-right">
+                    {pct(row.confirm_rate)} <span className="text-gray-400">({row.verify_turns})</span>
+                  </td>
+                  <td className="py-2 pr-4 text-right">{pct(row.edit_rate)}</td>
+                  <td className="py-2 pr-4 text-right">
+                    {pct(row.thumbs_up_rate)} <span className="text-gray-400">(👍{row.thumbs_up} 👎{row.thumbs_down})</span>
+                  </td>
+                  <td className="py-2 pr-4 text-right">${row.avg_cost_usd.toFixed(4)}</td>
+                  <td className="py-2 pr-4 text-right">{ms(row.avg_latency_ms)} / {ms(row.p95_latency_ms)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { CheckCircle, FlaskConical, XCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { runPromptRegression, type RegressionReport } from '../../lib/promptFixtures';
+import type { FixtureResult, LLMClient } from '../../core/swarm/fixtureRunner';
+
+interface FixtureSuitePanelProps {
+  agentPromptId: string;
+}
+
+const pct = (v: number | null) => (v === null ? '—' : `${Math.round(v * 100)}%`);
+
+function ResultCell({ result }: { result?: FixtureResult }) {
+  if (!result) return <span className="text-gray-400">—</span>;
+  return (
+    <div>
+      <span className={`flex items-center gap-1 font-medium ${result.passed ? 'text-green-700' : 'text-red-700'}`}>
+        {result.passed ? <CheckCircle size={14} /> : <XCircle size={14} />}
+        {result.passed ? 'pass' : 'fail'}
+      </span>
+      {result.failures.map((f, i) => (
+        <p key={i} className="text-xs text-red-600 mt-0.5">{f}</p>
+      ))}
+    </div>
+  );
+}
+
+export function FixtureSuitePanel({ agentPromptId }: FixtureSuitePanelProps) {
+  const [mode, setMode] = useState<LLMClient['mode']>('live');
+  const [running, setRunning] = useState(false);
+  const [report, setReport] = useState<RegressionReport | null>(null);
+
+  const handleRun = async () => {
+    setRunning(true);
+    try {
+      const result = await runPromptRegression(agentPromptId, mode);
+      setReport(result);
+      if (!result.fixtures.length) toast('No fixtures for this agent yet');
+      else if (result.comparison.regressed) toast.error('Pass rate regressed against the published version');
+      else toast.success('Fixture suite passed the regression check');
+    } catch (e) {
+      toast.error(`Fixture run failed: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const candidateResults = new Map(report?.candidate.results.map(r => [r.fixture_id, r]));
+  const baselineResults = new Map(report?.baseline?.results.map(r => [r.fixture_id, r]));
+
+  return (
+    <div className="mb-6 border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h3 className="font-semibold text-gray-900 text-sm">Fixture Regression</h3>
+          <p className="text-xs text-gray-500">
+            Replays the agent's prompt fixtures through this version and the published one. Publishing is blocked when the pass rate drops.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={mode}
+            onChange={e => setMode(e.target.value as LLMClient['mode'])}
+            className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="live">Live model</option>
+            <option value="recorded">Recorded responses</option>
+          </select>
+          <button
+            onClick={handleRun}
+            disabled={running}
+            className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white text-sm rounded-lg transition-colors flex items-center gap-2"
+          >
+            <FlaskConical size={16} />
+            {running ? 'Running...' : 'Run Fixtures'}
+          </button>
+        </div>
+      </div>
+
+      {report && report.fixtures.length > 0 && (
+        <>
+          <div
+            className={`mb-3 p-3 rounded text-sm border ${
+              report.comparison.regressed ? 'bg-red-50 border-red-200 text-red-800' : 'bg-green-50 border-green-200 text-green-800'
+            }`}
+          >
+            This version: {report.candidate.passed}/{report.candidate.total} ({pct(report.comparison.candidate_rate)})
+            {report.baseline
+              ? ` · Published: ${report.baseline.passed}/${report.baseline.total} (${pct(report.comparison.baseline_rate)})`
+              : ' · No published version to compare against'}
+            {report.comparison.regressed && ` · ${report.comparison.newly_failing.length} newly failing`}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-4 font-medium">Fixture</th>
+                  <th className="py-2 pr-4 font-medium">This version</th>
+                  <th className="py-2 pr-4 font-medium">Published</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.fixtures.map(fixture => (
+                  <tr key={fixture.id} className="border-b border-gray-100 align-top">
+                    <td className="py-2 pr-4">
+                      <p className="text-gray-900">{fixture.description || fixture.input_text}</p>
+                      {fixture.description && <p className="text-xs text-gray-500 mt-0.5">{fixture.input_text}</p>}
+                    </td>
+                    <td className="py-2 pr-4"><ResultCell result={candidateResults.get(fixture.id)} /></td>
+                    <td className="py-2 pr-4"><ResultCell result={baselineResults.get(fixture.id)} /></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
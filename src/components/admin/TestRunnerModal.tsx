@@ -3,6 +3,7 @@ import { X, Play, Save } from 'lucide-react';
 import { useSwarmsStore } from '../../store/swarms';
 import { FilterPipeline } from '../../core/swarm/filters';
 import { ResponseRenderer } from '../../core/swarm/renderer';
+import { FixtureSuitePanel } from './FixtureSuitePanel';
 import type { ResponseObject } from '../../types/swarm';
 import toast from 'react-hot-toast';
 
@@ -160,6 +161,8 @@ export function TestRunnerModal({ isOpen, onClose, agentPromptId, swarmId }: Tes
         </div>
 
         <div className="flex-1 overflow-auto p-4">
+          {agentPromptId && <FixtureSuitePanel agentPromptId={agentPromptId} />}
+
           <div className="mb-4">
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Test Input (meal description or query)
@@ -0,0 +1,89 @@
+import React from "react";
+import { describeExercise, type WorkoutVerifyData } from "../../core/workout/workoutParser";
+
+type Props = {
+  data: WorkoutVerifyData;
+  onConfirm: () => Promise<void>;
+  onCancel: () => void;
+};
+
+export default function WorkoutVerifyCard({ data, onConfirm, onCancel }: Props) {
+  const [isSaving, setIsSaving] = React.useState(false);
+  const { summary } = data;
+
+  const confirm = async () => {
+    setIsSaving(true);
+    try {
+      await onConfirm();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-2xl rounded-2xl bg-neutral-900/70 border border-neutral-800 shadow-lg p-4 text-neutral-100">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <div className="text-sm uppercase tracking-wide text-neutral-400">Verify Workout</div>
+          <div className="text-lg font-semibold">{new Date(`${data.performed_on}T00:00:00`).toLocaleDateString()}</div>
+        </div>
+        <div className="text-right text-sm">
+          <div className="text-neutral-400">Estimated Duration</div>
+          <div className="text-xl font-bold">{summary.estimated_duration_min} min</div>
+          <div className="text-xs text-neutral-500 mt-1 capitalize">{summary.workout_type}</div>
+        </div>
+      </div>
+
+      <div className="rounded-xl overflow-hidden border border-neutral-800">
+        <table className="w-full text-sm">
+          <thead className="bg-neutral-800/60">
+            <tr>
+              <th className="text-left px-3 py-2">Exercise</th>
+              <th className="text-right px-3 py-2">Sets</th>
+              <th className="text-right px-3 py-2">Reps</th>
+              <th className="text-right px-3 py-2">Weight</th>
+              <th className="text-right px-3 py-2">Time</th>
+              <th className="text-right px-3 py-2">Volume</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.exercises.map((ex, i) => (
+              <tr key={i} className="odd:bg-neutral-900/30">
+                <td className="px-3 py-2">
+                  <div>{ex.name}</div>
+                  <div className="text-xs text-neutral-500">{describeExercise(ex)}</div>
+                </td>
+                <td className="px-3 py-2 text-right">{ex.sets ?? "—"}</td>
+                <td className="px-3 py-2 text-right">{ex.reps ?? "—"}</td>
+                <td className="px-3 py-2 text-right">{ex.weight_lbs ? `${ex.weight_lbs} lbs` : "—"}</td>
+                <td className="px-3 py-2 text-right">{ex.duration_min !== null ? `${ex.duration_min} min` : "—"}</td>
+                <td className="px-3 py-2 text-right">
+                  {ex.sets && ex.reps && ex.weight_lbs ? Math.round(ex.sets * ex.reps * ex.weight_lbs) : "—"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot className="bg-neutral-800/60">
+            <tr>
+              <td className="px-3 py-2 font-semibold">Totals</td>
+              <td className="px-3 py-2 text-right font-semibold">{summary.total_sets}</td>
+              <td className="px-3 py-2" colSpan={3}></td>
+              <td className="px-3 py-2 text-right font-semibold">{summary.volume_lbs} lbs</td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+
+      <div className="mt-3 flex gap-2 justify-end">
+        <button onClick={onCancel} className="px-3 py-2 rounded-lg border border-neutral-700 hover:bg-neutral-800">Cancel</button>
+        <button
+          onClick={confirm}
+          disabled={isSaving}
+          className="px-3 py-2 rounded-lg bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 text-white font-semibold"
+        >
+          {isSaving ? "Saving..." : "Confirm log"}
+        </button>
+      </div>
+    </div>
+  );
+}
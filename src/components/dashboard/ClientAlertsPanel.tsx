@@ -0,0 +1,57 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, Bell, Info } from 'lucide-react';
+import { listMetricAlerts } from '../../lib/metricAlerts';
+import type { MetricAlert } from '../../types/metrics';
+
+interface ClientAlertsPanelProps {
+  clientId: string;
+}
+
+const SEVERITY_STYLES: Record<MetricAlert['severity'], string> = {
+  critical: 'border-red-200 bg-red-50 text-red-800',
+  warning: 'border-yellow-200 bg-yellow-50 text-yellow-800',
+  info: 'border-blue-200 bg-blue-50 text-blue-800'
+};
+
+/** Read-only view of a client's recent metric alerts for their trainer */
+export const ClientAlertsPanel: React.FC<ClientAlertsPanelProps> = ({ clientId }) => {
+  const [alerts, setAlerts] = useState<MetricAlert[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listMetricAlerts(clientId)
+      .then(rows => { if (!cancelled) setAlerts(rows); })
+      .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load alerts'); });
+    return () => { cancelled = true; };
+  }, [clientId]);
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-gray-700 mb-2 flex items-center gap-1">
+        <Bell size={16} />
+        Recent Alerts
+      </h4>
+      {error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : alerts.length === 0 ? (
+        <p className="px-3 py-2 bg-gray-50 rounded-lg text-sm text-gray-500">Nothing drifting in the last two weeks.</p>
+      ) : (
+        <div className="space-y-2">
+          {alerts.slice(0, 5).map(alert => (
+            <div key={alert.id} className={`flex items-start gap-2 px-3 py-2 border rounded-lg text-sm ${SEVERITY_STYLES[alert.severity]}`}>
+              {alert.severity === 'info' ? <Info size={16} className="mt-0.5 flex-shrink-0" /> : <AlertTriangle size={16} className="mt-0.5 flex-shrink-0" />}
+              <div className="flex-1">
+                <p>{alert.message}</p>
+                <p className="text-xs opacity-70 mt-0.5">
+                  {alert.timestamp.toLocaleDateString()}
+                  {alert.dismissed && ' · seen by client'}
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,344 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, CheckCircle, ClipboardList, Info, Plus, X } from 'lucide-react';
+import { DataSourceBadge } from '../../lib/devDataSourceBadge';
+import { getActiveOrgIdSafe } from '../../lib/org';
+import {
+  assignMentorPlan,
+  COMPLIANCE_EVENT_TITLES,
+  endMentorPlan,
+  getActiveMentorPlan,
+  listComplianceEvents,
+  validateMentorPlan,
+  type MealSlot,
+  type MentorPlanDraft
+} from '../../lib/mentorPlans';
+import type { ComplianceEvent, MentorPlan } from '../../types/food';
+
+interface MentorPlanTabProps {
+  clientId: string;
+}
+
+const MEAL_SLOTS: MealSlot[] = ['breakfast', 'lunch', 'dinner', 'snack'];
+
+interface SlotForm {
+  enabled: boolean;
+  time: string;
+  kcal: string;
+}
+
+interface PlanForm {
+  plan_name: string;
+  kcal: string;
+  protein_g: string;
+  carbs_g: string;
+  fat_g: string;
+  starts_on: string;
+  ends_on: string;
+  restrictions: string;
+  notes: string;
+  slots: Record<MealSlot, SlotForm>;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const emptyForm = (): PlanForm => ({
+  plan_name: '',
+  kcal: '2000',
+  protein_g: '150',
+  carbs_g: '200',
+  fat_g: '67',
+  starts_on: today(),
+  ends_on: '',
+  restrictions: '',
+  notes: '',
+  slots: {
+    breakfast: { enabled: true, time: '08:00', kcal: '500' },
+    lunch: { enabled: true, time: '12:30', kcal: '600' },
+    dinner: { enabled: true, time: '19:00', kcal: '700' },
+    snack: { enabled: false, time: '16:00', kcal: '200' }
+  }
+});
+
+function toDraft(form: PlanForm): MentorPlanDraft {
+  const schedule: NonNullable<MentorPlanDraft['meal_schedule']> = {};
+  for (const slot of MEAL_SLOTS) {
+    const s = form.slots[slot];
+    if (s.enabled) schedule[slot] = { time: s.time, kcal: Number(s.kcal) || 0, macros: null };
+  }
+  return {
+    plan_name: form.plan_name,
+    daily_targets: {
+      kcal: Number(form.kcal),
+      protein_g: Number(form.protein_g),
+      carbs_g: Number(form.carbs_g) || 0,
+      fat_g: Number(form.fat_g) || 0
+    },
+    meal_schedule: schedule,
+    dietary_restrictions: form.restrictions.split(','),
+    notes: form.notes,
+    starts_on: form.starts_on,
+    ends_on: form.ends_on || undefined
+  };
+}
+
+export const MentorPlanTab: React.FC<MentorPlanTabProps> = ({ clientId }) => {
+  const [plan, setPlan] = useState<MentorPlan | null>(null);
+  const [events, setEvents] = useState<ComplianceEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<PlanForm>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [activePlan, recent] = await Promise.all([
+        getActiveMentorPlan(clientId),
+        listComplianceEvents(clientId, { limit: 30 })
+      ]);
+      setPlan(activePlan);
+      setEvents(recent);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load mentor plan');
+    } finally {
+      setLoading(false);
+    }
+  }, [clientId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const handleAssign = async () => {
+    const draft = toDraft(form);
+    const problems = validateMentorPlan(draft);
+    if (problems.length) {
+      setError(problems[0]);
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      const orgId = await getActiveOrgIdSafe();
+      if (!orgId) throw new Error('No active organization');
+      setPlan(await assignMentorPlan(orgId, clientId, draft));
+      setShowForm(false);
+      setForm(emptyForm());
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to assign plan');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEnd = async () => {
+    if (!plan) return;
+    try {
+      await endMentorPlan(plan.id);
+      setPlan(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to end plan');
+    }
+  };
+
+  const setField = (field: Exclude<keyof PlanForm, 'slots'>, value: string) =>
+    setForm(prev => ({ ...prev, [field]: value }));
+
+  const setSlot = (slot: MealSlot, patch: Partial<SlotForm>) =>
+    setForm(prev => ({ ...prev, slots: { ...prev.slots, [slot]: { ...prev.slots[slot], ...patch } } }));
+
+  const severityIcon = (severity: ComplianceEvent['severity']) => {
+    if (severity === 'warning') return <AlertCircle size={16} className="text-yellow-600" />;
+    if (severity === 'success') return <CheckCircle size={16} className="text-green-600" />;
+    return <Info size={16} className="text-blue-600" />;
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  if (loading) {
+    return <div className="text-center py-8 text-gray-500">Loading mentor plan...</div>;
+  }
+
+  return (
+    <div className="space-y-6" style={{ position: 'relative' }}>
+      <DataSourceBadge source="live" />
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Mentor Plan</h3>
+          <p className="text-gray-600 text-sm">Daily targets and meal schedule Pat checks every meal against</p>
+        </div>
+        {!showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm transition-colors"
+          >
+            <Plus size={16} />
+            {plan ? 'Replace Plan' : 'Assign Plan'}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          <AlertCircle size={16} />
+          {error}
+        </div>
+      )}
+
+      {showForm ? (
+        <div className="bg-white p-6 rounded-lg border border-gray-200 space-y-4">
+          <div className="flex items-center justify-between">
+            <h4 className="font-medium text-gray-900">New Plan</h4>
+            <button onClick={() => setShowForm(false)} className="p-1 hover:bg-gray-100 rounded">
+              <X size={16} className="text-gray-500" />
+            </button>
+          </div>
+
+          <input
+            value={form.plan_name}
+            onChange={e => setField('plan_name', e.target.value)}
+            placeholder="Plan name, e.g. Lean bulk phase 1"
+            className={inputClass}
+          />
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {([['kcal', 'Calories'], ['protein_g', 'Protein (g)'], ['carbs_g', 'Carbs (g)'], ['fat_g', 'Fat (g)']] as const).map(([field, label]) => (
+              <label key={field} className="text-sm text-gray-700">
+                {label}
+                <input type="number" min={0} value={form[field]} onChange={e => setField(field, e.target.value)} className={inputClass} />
+              </label>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-sm text-gray-700">
+              Starts
+              <input type="date" value={form.starts_on} onChange={e => setField('starts_on', e.target.value)} className={inputClass} />
+            </label>
+            <label className="text-sm text-gray-700">
+              Ends (optional)
+              <input type="date" value={form.ends_on} onChange={e => setField('ends_on', e.target.value)} className={inputClass} />
+            </label>
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Meal Schedule</p>
+            <div className="space-y-2">
+              {MEAL_SLOTS.map(slot => (
+                <div key={slot} className="flex items-center gap-3">
+                  <label className="flex items-center gap-2 w-28 text-sm text-gray-700 capitalize">
+                    <input type="checkbox" checked={form.slots[slot].enabled} onChange={e => setSlot(slot, { enabled: e.target.checked })} />
+                    {slot}
+                  </label>
+                  <input
+                    type="time"
+                    value={form.slots[slot].time}
+                    disabled={!form.slots[slot].enabled}
+                    onChange={e => setSlot(slot, { time: e.target.value })}
+                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm disabled:bg-gray-50"
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    value={form.slots[slot].kcal}
+                    disabled={!form.slots[slot].enabled}
+                    onChange={e => setSlot(slot, { kcal: e.target.value })}
+                    className="w-24 px-3 py-2 border border-gray-300 rounded-lg text-sm disabled:bg-gray-50"
+                  />
+                  <span className="text-sm text-gray-500">kcal</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <input
+            value={form.restrictions}
+            onChange={e => setField('restrictions', e.target.value)}
+            placeholder="Dietary restrictions, comma separated"
+            className={inputClass}
+          />
+          <textarea
+            value={form.notes}
+            onChange={e => setField('notes', e.target.value)}
+            placeholder="Notes for the client"
+            rows={2}
+            className={inputClass}
+          />
+
+          <button
+            onClick={handleAssign}
+            disabled={saving}
+            className="w-full px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white rounded-lg text-sm font-medium transition-colors"
+          >
+            {saving ? 'Assigning...' : 'Assign Plan'}
+          </button>
+        </div>
+      ) : plan ? (
+        <div className="bg-white p-6 rounded-lg border border-gray-200">
+          <div className="flex items-start justify-between mb-4">
+            <div>
+              <h4 className="font-medium text-gray-900">{plan.plan_name}</h4>
+              <p className="text-sm text-gray-600">
+                {plan.starts_on}{plan.ends_on ? ` to ${plan.ends_on}` : ' onwards'}
+              </p>
+            </div>
+            <button onClick={handleEnd} className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded transition-colors">
+              End Plan
+            </button>
+          </div>
+          <div className="grid grid-cols-4 gap-4 text-center mb-4">
+            <div><p className="text-xl font-bold text-gray-900">{plan.daily_targets.kcal}</p><p className="text-xs text-gray-600">kcal</p></div>
+            <div><p className="text-xl font-bold text-gray-900">{plan.daily_targets.protein_g}g</p><p className="text-xs text-gray-600">protein</p></div>
+            <div><p className="text-xl font-bold text-gray-900">{plan.daily_targets.carbs_g}g</p><p className="text-xs text-gray-600">carbs</p></div>
+            <div><p className="text-xl font-bold text-gray-900">{plan.daily_targets.fat_g}g</p><p className="text-xs text-gray-600">fat</p></div>
+          </div>
+          {plan.meal_schedule && (
+            <div className="flex flex-wrap gap-2 mb-2">
+              {MEAL_SLOTS.filter(slot => plan.meal_schedule?.[slot]).map(slot => (
+                <span key={slot} className="px-2 py-1 bg-gray-100 text-gray-700 rounded text-xs capitalize">
+                  {slot} {plan.meal_schedule?.[slot]?.time} · {plan.meal_schedule?.[slot]?.kcal} kcal
+                </span>
+              ))}
+            </div>
+          )}
+          {plan.dietary_restrictions?.length ? (
+            <p className="text-sm text-gray-600">Restrictions: {plan.dietary_restrictions.join(', ')}</p>
+          ) : null}
+        </div>
+      ) : (
+        <div className="bg-white p-12 rounded-lg border border-gray-200 text-center">
+          <ClipboardList size={48} className="text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No active plan</h3>
+          <p className="text-gray-600">Assign a plan to start tracking compliance.</p>
+        </div>
+      )}
+
+      {/* Compliance Events */}
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        <div className="p-4 border-b border-gray-200">
+          <h5 className="font-medium text-gray-900">Compliance Events</h5>
+        </div>
+        {events.length === 0 ? (
+          <p className="p-6 text-sm text-gray-500 text-center">No events yet</p>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {events.map(event => (
+              <div key={event.id} className="p-4 flex items-start gap-3">
+                {severityIcon(event.severity)}
+                <div className="flex-1">
+                  <p className="text-sm font-medium text-gray-900">{COMPLIANCE_EVENT_TITLES[event.event_type]}</p>
+                  <p className="text-sm text-gray-600">{event.message}</p>
+                </div>
+                <span className="text-xs text-gray-500">
+                  {event.event_date ?? new Date(event.created_at).toLocaleDateString()}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,22 +1,26 @@
-import React, { useState } from 'react';
-import { Plus, Edit3, Trash2, Eye, MessageSquare, Clock, Target, Zap, Moon, Activity, AlertTriangle, CheckCircle, Play, Pause, MoreVertical } from 'lucide-react';
+import React, { useCallback, useEffect, useState } from 'react';
+import { Plus, Edit3, Trash2, Eye, MessageSquare, Clock, Target, Zap, Moon, Activity, AlertCircle, CheckCircle, Play, Pause, History } from 'lucide-react';
 import { DataSourceBadge } from '../../lib/devDataSourceBadge';
-
-interface PTDirective {
-  id: string;
-  title: string;
-  description: string;
-  category: 'nutrition' | 'workout' | 'recovery' | 'motivation' | 'general';
-  priority: 'high' | 'medium' | 'low';
-  frequency: 'daily' | 'weekly' | 'workout_days' | 'rest_days' | 'as_needed';
-  triggers: string[];
-  patInstructions: string;
-  isActive: boolean;
-  createdAt: Date;
-  lastTriggered?: Date;
-  triggerCount: number;
-  effectiveness?: number;
-}
+import { getActiveOrgIdSafe } from '../../lib/org';
+import {
+  createDirective,
+  deleteDirective,
+  getTrainingDays,
+  listDirectiveFires,
+  listDirectives,
+  saveDirective,
+  setTrainingDays,
+  updateDirective,
+  WEEKDAY_LABELS,
+  type DirectiveDraft,
+  type DirectiveFire
+} from '../../lib/ptDirectives';
+import {
+  TRIGGER_PRESETS,
+  type DirectiveMetric,
+  type DirectiveTrigger,
+  type PTDirective
+} from '../../core/directives/evaluate';
 
 interface DirectiveTemplate {
   id: string;
@@ -31,219 +35,224 @@ interface PTDirectivesTabProps {
   clientId: string;
 }
 
-export const PTDirectivesTab: React.FC<PTDirectivesTabProps> = ({ clientId }) => {
-  const [directives, setDirectives] = useState<PTDirective[]>([
-    // TODO: MOCK_DATA_REMOVE (HiPat cleanup)
-    {
-      id: '1',
-      title: 'Post-Workout Protein Reminder',
-      description: 'Remind client to consume protein within 30 minutes after workouts',
-      category: 'nutrition',
-      priority: 'high',
-      frequency: 'workout_days',
-      triggers: ['workout_completed', 'high_intensity_session'],
-      patInstructions: 'Remind the client to have their protein shake or meal within 30 minutes. Emphasize the importance for recovery and muscle protein synthesis.',
-      isActive: true,
-      createdAt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
-      lastTriggered: new Date(Date.now() - 2 * 60 * 60 * 1000),
-      triggerCount: 12,
-      effectiveness: 85
-    },
-    {
-      id: '2',
-      title: 'Sleep Optimization Nudge',
-      description: 'Encourage better sleep habits when sleep quality drops',
-      category: 'recovery',
-      priority: 'medium',
-      frequency: 'as_needed',
-      triggers: ['poor_sleep_quality', 'late_bedtime', 'insufficient_sleep'],
-      patInstructions: 'When sleep quality is below 75% or duration is under 7 hours, suggest specific sleep hygiene improvements. Be supportive and offer practical tips.',
-      isActive: true,
-      createdAt: new Date(Date.now() - 14 * 24 * 60 * 60 * 1000),
-      lastTriggered: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000),
-      triggerCount: 8,
-      effectiveness: 72
-    },
-    {
-      id: '3',
-      title: 'Consistency Celebration',
-      description: 'Celebrate workout streaks and consistency milestones',
-      category: 'motivation',
-      priority: 'medium',
-      frequency: 'as_needed',
-      triggers: ['workout_streak_milestone', 'weekly_goal_achieved'],
-      patInstructions: 'Celebrate their achievement enthusiastically! Mention the specific milestone and encourage them to keep the momentum going. Set the next mini-goal.',
-      isActive: true,
-      createdAt: new Date(Date.now() - 21 * 24 * 60 * 60 * 1000),
-      lastTriggered: new Date(Date.now() - 12 * 60 * 60 * 1000),
-      triggerCount: 5,
-      effectiveness: 94
-    },
-    {
-      id: '4',
-      title: 'Form Check Reminder',
-      description: 'Remind about proper form during compound movements',
-      category: 'workout',
-      priority: 'high',
-      frequency: 'workout_days',
-      triggers: ['compound_movement', 'heavy_lifting_day'],
-      patInstructions: 'Remind them to focus on form over weight. Suggest they record a set if they want feedback. Emphasize safety and long-term progress.',
-      isActive: false,
-      createdAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
-      lastTriggered: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000),
-      triggerCount: 15,
-      effectiveness: 78
-    }
-  ]);
+const directiveTemplates: DirectiveTemplate[] = [
+  {
+    id: 'hydration',
+    title: 'Hydration Reminder',
+    description: 'Remind client to stay hydrated throughout the day',
+    category: 'general',
+    defaultInstructions: 'Remind the client to drink water regularly, especially before, during, and after workouts. Aim for clear or light yellow urine as a hydration indicator.',
+    commonTriggers: ['workout_started', 'low_water_intake']
+  },
+  {
+    id: 'rest_day_activity',
+    title: 'Active Recovery Suggestion',
+    description: 'Suggest light activities on rest days',
+    category: 'recovery',
+    defaultInstructions: 'Suggest light activities like walking, stretching, or yoga. Emphasize that rest days are for recovery, not complete inactivity.',
+    commonTriggers: ['rest_day', 'high_soreness']
+  },
+  {
+    id: 'meal_prep',
+    title: 'Meal Prep Encouragement',
+    description: 'Encourage meal preparation for better nutrition adherence',
+    category: 'nutrition',
+    defaultInstructions: 'Suggest meal prep strategies to improve nutrition consistency. Offer simple, time-efficient meal ideas that align with their goals.',
+    commonTriggers: ['poor_nutrition_day', 'low_protein_day']
+  },
+  {
+    id: 'post_workout_protein',
+    title: 'Post-Workout Protein Reminder',
+    description: 'Remind client to consume protein within 30 minutes after workouts',
+    category: 'nutrition',
+    defaultInstructions: 'Remind the client to have their protein shake or meal within 30 minutes. Emphasize the importance for recovery and muscle protein synthesis.',
+    commonTriggers: ['workout_completed', 'high_intensity_session']
+  }
+];
+
+const METRIC_LABELS: Record<DirectiveMetric, string> = {
+  kcal: 'Calories today',
+  protein_g: 'Protein today (g)',
+  meals_logged: 'Meals logged today',
+  kcal_pct: 'Calories % of plan',
+  protein_pct: 'Protein % of plan'
+};
+
+const emptyDraft = (): DirectiveDraft => ({
+  title: '',
+  description: '',
+  category: 'general',
+  priority: 'medium',
+  frequency: 'as_needed',
+  triggers: [],
+  pat_instructions: '',
+  is_active: true
+});
+
+/** Short human label for a stored trigger */
+function describeTrigger(trigger: DirectiveTrigger): string {
+  if (trigger.label && trigger.label !== 'custom') return trigger.label.replace(/_/g, ' ');
+  switch (trigger.type) {
+    case 'keyword':
+      return `says "${trigger.keywords.join('" / "')}"`;
+    case 'intent':
+      return `intent: ${trigger.intents.join(', ')}`;
+    case 'time_of_day':
+      return `${trigger.from}:00–${trigger.to}:00`;
+    case 'day_type':
+      return `${trigger.day} day`;
+    case 'metric':
+      return `${METRIC_LABELS[trigger.metric]} ${trigger.op === 'lt' ? '<' : '>'} ${trigger.value}`;
+  }
+}
+
+const isCustom = (t: DirectiveTrigger) => t.label === 'custom';
 
-  const [showCreateModal, setShowCreateModal] = useState(false);
-  const [editingDirective, setEditingDirective] = useState<PTDirective | null>(null);
+export const PTDirectivesTab: React.FC<PTDirectivesTabProps> = ({ clientId }) => {
+  const [directives, setDirectives] = useState<PTDirective[]>([]);
+  const [fires, setFires] = useState<DirectiveFire[]>([]);
+  const [trainingDays, setTrainingDaysState] = useState<number[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [showModal, setShowModal] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<DirectiveDraft>(emptyDraft);
+  const [saving, setSaving] = useState(false);
   const [previewDirective, setPreviewDirective] = useState<PTDirective | null>(null);
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
-
-  // Mock directive templates
-  // TODO: MOCK_DATA_REMOVE (HiPat cleanup)
-  const directiveTemplates: DirectiveTemplate[] = [
-    {
-      id: 'hydration',
-      title: 'Hydration Reminder',
-      description: 'Remind client to stay hydrated throughout the day',
-      category: 'general',
-      defaultInstructions: 'Remind the client to drink water regularly, especially before, during, and after workouts. Aim for clear or light yellow urine as a hydration indicator.',
-      commonTriggers: ['workout_started', 'hot_weather', 'low_water_intake']
-    },
-    {
-      id: 'rest_day_activity',
-      title: 'Active Recovery Suggestion',
-      description: 'Suggest light activities on rest days',
-      category: 'recovery',
-      defaultInstructions: 'Suggest light activities like walking, stretching, or yoga. Emphasize that rest days are for recovery, not complete inactivity.',
-      commonTriggers: ['rest_day', 'high_soreness', 'consecutive_workouts']
-    },
-    {
-      id: 'meal_prep',
-      title: 'Meal Prep Encouragement',
-      description: 'Encourage meal preparation for better nutrition adherence',
-      category: 'nutrition',
-      defaultInstructions: 'Suggest meal prep strategies to improve nutrition consistency. Offer simple, time-efficient meal ideas that align with their goals.',
-      commonTriggers: ['poor_nutrition_day', 'weekend_approaching', 'busy_schedule']
-    },
-    {
-      id: 'progress_photo',
-      title: 'Progress Photo Reminder',
-      description: 'Remind client to take progress photos',
-      category: 'general',
-      defaultInstructions: 'Remind them to take progress photos in consistent lighting and poses. Explain how photos can show changes that the scale might not reflect.',
-      commonTriggers: ['monthly_milestone', 'weight_plateau', 'goal_checkpoint']
+  const [showLog, setShowLog] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const orgId = await getActiveOrgIdSafe();
+      const [list, log, days] = await Promise.all([
+        listDirectives(clientId),
+        listDirectiveFires(clientId),
+        orgId ? getTrainingDays(orgId, clientId) : Promise.resolve(null)
+      ]);
+      setDirectives(list);
+      setFires(log);
+      setTrainingDaysState(days ?? []);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load directives');
+    } finally {
+      setLoading(false);
     }
-  ];
+  }, [clientId]);
 
-  const [newDirective, setNewDirective] = useState<Partial<PTDirective>>({
-    title: '',
-    description: '',
-    category: 'general',
-    priority: 'medium',
-    frequency: 'as_needed',
-    triggers: [],
-    patInstructions: '',
-    isActive: true
-  });
-
-  const availableTriggers = [
-    'workout_completed',
-    'workout_started',
-    'high_intensity_session',
-    'poor_sleep_quality',
-    'late_bedtime',
-    'insufficient_sleep',
-    'workout_streak_milestone',
-    'weekly_goal_achieved',
-    'compound_movement',
-    'heavy_lifting_day',
-    'rest_day',
-    'high_soreness',
-    'poor_nutrition_day',
-    'low_water_intake',
-    'weight_plateau',
-    'goal_checkpoint',
-    'missed_workout',
-    'low_motivation',
-    'high_stress'
-  ];
+  useEffect(() => {
+    void load();
+  }, [load]);
 
-  const handleCreateDirective = () => {
-    if (!newDirective.title || !newDirective.patInstructions) return;
-
-    const directive: PTDirective = {
-      id: Date.now().toString(),
-      title: newDirective.title,
-      description: newDirective.description || '',
-      category: newDirective.category as PTDirective['category'],
-      priority: newDirective.priority as PTDirective['priority'],
-      frequency: newDirective.frequency as PTDirective['frequency'],
-      triggers: newDirective.triggers || [],
-      patInstructions: newDirective.patInstructions,
-      isActive: newDirective.isActive ?? true,
-      createdAt: new Date(),
-      triggerCount: 0
-    };
-
-    setDirectives(prev => [directive, ...prev]);
-    setNewDirective({
-      title: '',
-      description: '',
-      category: 'general',
-      priority: 'medium',
-      frequency: 'as_needed',
-      triggers: [],
-      patInstructions: '',
-      isActive: true
-    });
-    setShowCreateModal(false);
+  const closeModal = () => {
+    setShowModal(false);
+    setEditingId(null);
+    setForm(emptyDraft());
+  };
 
-    // TODO: Save to backend
-    console.log('Created directive:', directive);
+  const openEdit = (directive: PTDirective) => {
+    const { title, description, category, priority, frequency, triggers, pat_instructions, is_active } = directive;
+    setForm({ title, description, category, priority, frequency, triggers, pat_instructions, is_active });
+    setEditingId(directive.id);
+    setShowModal(true);
   };
 
-  const handleUpdateDirective = (updatedDirective: PTDirective) => {
-    setDirectives(prev => prev.map(d => d.id === updatedDirective.id ? updatedDirective : d));
-    setEditingDirective(null);
-    // TODO: Update in backend
-    console.log('Updated directive:', updatedDirective);
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      if (editingId) {
+        const existing = directives.find(d => d.id === editingId);
+        if (!existing) throw new Error('Directive no longer exists');
+        const saved = await saveDirective({ ...existing, ...form });
+        setDirectives(prev => prev.map(d => (d.id === saved.id ? saved : d)));
+      } else {
+        const orgId = await getActiveOrgIdSafe();
+        if (!orgId) throw new Error('No active organization');
+        const created = await createDirective(orgId, clientId, form);
+        setDirectives(prev => [created, ...prev]);
+      }
+      closeModal();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to save directive');
+    } finally {
+      setSaving(false);
+    }
   };
 
-  const handleDeleteDirective = (directiveId: string) => {
-    setDirectives(prev => prev.filter(d => d.id !== directiveId));
-    // TODO: Delete from backend
-    console.log('Deleted directive:', directiveId);
+  const handleDeleteDirective = async (directiveId: string) => {
+    try {
+      await deleteDirective(directiveId);
+      setDirectives(prev => prev.filter(d => d.id !== directiveId));
+      setFires(prev => prev.filter(f => f.directive_id !== directiveId));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to delete directive');
+    }
   };
 
-  const handleToggleDirective = (directiveId: string) => {
-    setDirectives(prev => prev.map(d => 
-      d.id === directiveId ? { ...d, isActive: !d.isActive } : d
-    ));
-    // TODO: Update in backend
+  const handleToggleDirective = async (directive: PTDirective) => {
+    try {
+      const saved = await updateDirective(directive.id, { is_active: !directive.is_active });
+      setDirectives(prev => prev.map(d => (d.id === saved.id ? saved : d)));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to update directive');
+    }
+  };
+
+  const handleToggleTrainingDay = async (day: number) => {
+    const next = trainingDays.includes(day)
+      ? trainingDays.filter(d => d !== day)
+      : [...trainingDays, day].sort();
+    const previous = trainingDays;
+    setTrainingDaysState(next);
+    try {
+      const orgId = await getActiveOrgIdSafe();
+      if (!orgId) throw new Error('No active organization');
+      await setTrainingDays(orgId, clientId, next);
+    } catch (e) {
+      setTrainingDaysState(previous);
+      setError(e instanceof Error ? e.message : 'Failed to save training days');
+    }
   };
 
   const handleUseTemplate = (template: DirectiveTemplate) => {
-    setNewDirective({
+    setForm({
+      ...emptyDraft(),
       title: template.title,
       description: template.description,
       category: template.category,
-      priority: 'medium',
-      frequency: 'as_needed',
-      triggers: template.commonTriggers.slice(0, 2),
-      patInstructions: template.defaultInstructions,
-      isActive: true
+      triggers: template.commonTriggers.map(name => TRIGGER_PRESETS[name]).filter(Boolean),
+      pat_instructions: template.defaultInstructions
     });
   };
 
-  const generatePreviewText = (directive: PTDirective): string => {
-    const triggerText = directive.triggers.length > 0 
-      ? `When ${directive.triggers.join(' or ')} occurs, ` 
-      : 'When appropriate, ';
-    
-    return `${triggerText}Pat will ${directive.patInstructions.toLowerCase()}`;
+  const hasPreset = (name: string) => form.triggers.some(t => t.label === name);
+
+  const togglePreset = (name: string, checked: boolean) =>
+    setForm(prev => ({
+      ...prev,
+      triggers: checked
+        ? [...prev.triggers, TRIGGER_PRESETS[name]]
+        : prev.triggers.filter(t => t.label !== name)
+    }));
+
+  const customKeywords = form.triggers.find(t => isCustom(t) && t.type === 'keyword');
+  const customMetric = form.triggers.find(t => isCustom(t) && t.type === 'metric');
+
+  const setCustomTrigger = (type: DirectiveTrigger['type'], trigger: DirectiveTrigger | null) =>
+    setForm(prev => ({
+      ...prev,
+      triggers: [...prev.triggers.filter(t => !(isCustom(t) && t.type === type)), ...(trigger ? [trigger] : [])]
+    }));
+
+  const generatePreviewText = (directive: Pick<PTDirective, 'triggers' | 'pat_instructions'>): string => {
+    const triggerText = directive.triggers.length > 0
+      ? `When ${directive.triggers.map(describeTrigger).join(' or ')}, `
+      : 'On every message, ';
+
+    return `${triggerText}Pat will ${directive.pat_instructions.toLowerCase()}`;
   };
 
   const getCategoryIcon = (category: PTDirective['category']) => {
@@ -272,15 +281,11 @@ export const PTDirectivesTab: React.FC<PTDirectivesTabProps> = ({ clientId }) =>
     }
   };
 
-  const getEffectivenessColor = (effectiveness?: number) => {
-    if (!effectiveness) return 'text-gray-400';
-    if (effectiveness >= 80) return 'text-green-600';
-    if (effectiveness >= 60) return 'text-yellow-600';
-    return 'text-red-600';
-  };
+  const directiveTitle = (directiveId: string) =>
+    directives.find(d => d.id === directiveId)?.title ?? 'Deleted directive';
 
-  const filteredDirectives = selectedCategory === 'all' 
-    ? directives 
+  const filteredDirectives = selectedCategory === 'all'
+    ? directives
     : directives.filter(d => d.category === selectedCategory);
 
   const categories = [
@@ -292,24 +297,101 @@ export const PTDirectivesTab: React.FC<PTDirectivesTabProps> = ({ clientId }) =>
     { id: 'general', label: 'General', count: directives.filter(d => d.category === 'general').length }
   ];
 
+  if (loading) {
+    return <div className="text-center py-8 text-gray-500">Loading directives...</div>;
+  }
+
   return (
     <div className="space-y-6" style={{ position: 'relative' }}>
-      <DataSourceBadge source="mock" />
+      <DataSourceBadge source="live" />
       {/* Header */}
       <div className="flex items-center justify-between">
         <div>
           <h3 className="text-lg font-semibold text-gray-900">PT Directives</h3>
           <p className="text-gray-600 text-sm">Configure how Pat interacts with your client</p>
         </div>
-        <button
-          onClick={() => setShowCreateModal(true)}
-          className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm transition-colors"
-        >
-          <Plus size={16} />
-          New Directive
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowLog(v => !v)}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg text-sm transition-colors"
+          >
+            <History size={16} />
+            {showLog ? 'Hide Log' : 'Directive Log'}
+          </button>
+          <button
+            onClick={() => setShowModal(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm transition-colors"
+          >
+            <Plus size={16} />
+            New Directive
+          </button>
+        </div>
       </div>
 
+      {error && (
+        <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          <AlertCircle size={16} />
+          {error}
+        </div>
+      )}
+
+      {/* Training Days */}
+      <div className="flex flex-wrap items-center gap-3 bg-gray-50 p-4 rounded-lg">
+        <span className="text-sm font-medium text-gray-700">Training days</span>
+        <div className="flex gap-1">
+          {WEEKDAY_LABELS.map((label, day) => (
+            <button
+              key={label}
+              onClick={() => handleToggleTrainingDay(day)}
+              className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
+                trainingDays.includes(day) ? 'bg-orange-500 text-white' : 'bg-white border border-gray-300 text-gray-600 hover:bg-gray-100'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <span className="text-xs text-gray-500">
+          {trainingDays.length ? 'Other days count as rest days' : 'Workout/rest day directives stay idle until set'}
+        </span>
+      </div>
+
+      {/* Directive Log */}
+      {showLog && (
+        <div className="bg-white rounded-lg border border-gray-200">
+          <div className="p-4 border-b border-gray-200">
+            <h4 className="font-medium text-gray-900">Directive Log</h4>
+            <p className="text-gray-600 text-xs mt-1">Which directive shaped which of your client's messages</p>
+          </div>
+          {fires.length === 0 ? (
+            <p className="p-4 text-sm text-gray-500">No directives have fired yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 max-h-80 overflow-y-auto">
+              {fires.map(fire => (
+                <li key={fire.id} className="p-4 text-sm">
+                  <div className="flex items-center justify-between gap-4 mb-1">
+                    <span className="font-medium text-gray-900">{directiveTitle(fire.directive_id)}</span>
+                    <span className="text-xs text-gray-500">{new Date(fire.fired_at).toLocaleString()}</span>
+                  </div>
+                  {fire.message_excerpt && (
+                    <p className="text-gray-600 italic truncate">"{fire.message_excerpt}"</p>
+                  )}
+                  {fire.matched.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {fire.matched.map((trigger, index) => (
+                        <span key={index} className="px-2 py-0.5 bg-blue-50 text-blue-700 text-xs rounded-full">
+                          {describeTrigger(trigger)}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
       {/* Category Filter */}
       <div className="flex flex-wrap gap-2">
         {categories.map((category) => (
@@ -334,13 +416,13 @@ export const PTDirectivesTab: React.FC<PTDirectivesTabProps> = ({ clientId }) =>
             <MessageSquare size={48} className="text-gray-400 mx-auto mb-4" />
             <h3 className="text-lg font-medium text-gray-900 mb-2">No directives found</h3>
             <p className="text-gray-600 mb-6">
-              {selectedCategory === 'all' 
+              {selectedCategory === 'all'
                 ? 'Create your first directive to guide Pat\'s interactions with your client'
                 : `No directives in the ${selectedCategory} category`
               }
             </p>
             <button
-              onClick={() => setShowCreateModal(true)}
+              onClick={() => setShowModal(true)}
               className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm transition-colors"
             >
               Create Directive
@@ -358,47 +440,39 @@ export const PTDirectivesTab: React.FC<PTDirectivesTabProps> = ({ clientId }) =>
                       {directive.priority}
                     </span>
                     <div className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs ${
-                      directive.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                      directive.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
                     }`}>
-                      {directive.isActive ? <CheckCircle size={12} /> : <Pause size={12} />}
-                      {directive.isActive ? 'Active' : 'Paused'}
+                      {directive.is_active ? <CheckCircle size={12} /> : <Pause size={12} />}
+                      {directive.is_active ? 'Active' : 'Paused'}
                     </div>
                   </div>
-                  
+
                   <p className="text-gray-600 text-sm mb-3">{directive.description}</p>
-                  
+
                   {/* Triggers */}
                   <div className="flex flex-wrap gap-2 mb-3">
                     {directive.triggers.map((trigger, index) => (
                       <span key={index} className="px-2 py-1 bg-blue-100 text-blue-800 text-xs rounded-full">
-                        {trigger.replace('_', ' ')}
+                        {describeTrigger(trigger)}
                       </span>
                     ))}
                   </div>
-                  
+
                   {/* Stats */}
                   <div className="flex items-center gap-6 text-sm text-gray-500">
                     <div className="flex items-center gap-1">
                       <Clock size={14} />
-                      <span>Triggered {directive.triggerCount} times</span>
+                      <span>Triggered {directive.trigger_count} times</span>
                     </div>
-                    {directive.lastTriggered && (
+                    {directive.last_triggered_at && (
                       <div className="flex items-center gap-1">
                         <Activity size={14} />
-                        <span>Last: {directive.lastTriggered.toLocaleDateString()}</span>
-                      </div>
-                    )}
-                    {directive.effectiveness && (
-                      <div className="flex items-center gap-1">
-                        <Target size={14} />
-                        <span className={getEffectivenessColor(directive.effectiveness)}>
-                          {directive.effectiveness}% effective
-                        </span>
+                        <span>Last: {new Date(directive.last_triggered_at).toLocaleDateString()}</span>
                       </div>
                     )}
                   </div>
                 </div>
-                
+
                 <div className="flex items-center gap-2">
                   <button
                     onClick={() => setPreviewDirective(directive)}
@@ -408,18 +482,18 @@ export const PTDirectivesTab: React.FC<PTDirectivesTabProps> = ({ clientId }) =>
                     <Eye size={16} className="text-gray-400" />
                   </button>
                   <button
-                    onClick={() => setEditingDirective(directive)}
+                    onClick={() => openEdit(directive)}
                     className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
                     title="Edit"
                   >
                     <Edit3 size={16} className="text-gray-400" />
                   </button>
                   <button
-                    onClick={() => handleToggleDirective(directive.id)}
+                    onClick={() => handleToggleDirective(directive)}
                     className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
-                    title={directive.isActive ? 'Pause' : 'Activate'}
+                    title={directive.is_active ? 'Pause' : 'Activate'}
                   >
-                    {directive.isActive ? (
+                    {directive.is_active ? (
                       <Pause size={16} className="text-gray-400" />
                     ) : (
                       <Play size={16} className="text-gray-400" />
@@ -440,16 +514,13 @@ export const PTDirectivesTab: React.FC<PTDirectivesTabProps> = ({ clientId }) =>
       </div>
 
       {/* Create/Edit Modal */}
-      {(showCreateModal || editingDirective) && (
+      {showModal && (
         <>
-          <div className="fixed inset-0 bg-black bg-opacity-50 z-50" onClick={() => {
-            setShowCreateModal(false);
-            setEditingDirective(null);
-          }} />
+          <div className="fixed inset-0 bg-black bg-opacity-50 z-50" onClick={closeModal} />
           <div className="fixed top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-white rounded-xl shadow-2xl z-50 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
             <div className="p-6 border-b border-gray-200">
               <h3 className="text-lg font-semibold text-gray-900">
-                {editingDirective ? 'Edit Directive' : 'Create New Directive'}
+                {editingId ? 'Edit Directive' : 'Create New Directive'}
               </h3>
               <p className="text-gray-600 text-sm mt-1">
                 Configure how Pat should interact with your client in specific situations
@@ -458,7 +529,7 @@ export const PTDirectivesTab: React.FC<PTDirectivesTabProps> = ({ clientId }) =>
 
             <div className="p-6 space-y-6">
               {/* Templates (only for new directives) */}
-              {!editingDirective && (
+              {!editingId && (
                 <div>
                   <h4 className="font-medium text-gray-900 mb-3">Quick Start Templates</h4>
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
@@ -485,11 +556,8 @@ export const PTDirectivesTab: React.FC<PTDirectivesTabProps> = ({ clientId }) =>
                   <label className="block text-sm font-medium text-gray-700 mb-2">Title</label>
                   <input
                     type="text"
-                    value={editingDirective?.title || newDirective.title}
-                    onChange={(e) => editingDirective 
-                      ? setEditingDirective({ ...editingDirective, title: e.target.value })
-                      : setNewDirective({ ...newDirective, title: e.target.value })
-                    }
+                    value={form.title}
+                    onChange={(e) => setForm({ ...form, title: e.target.value })}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                     placeholder="e.g., Post-Workout Protein Reminder"
                   />
@@ -498,11 +566,8 @@ export const PTDirectivesTab: React.FC<PTDirectivesTabProps> = ({ clientId }) =>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">Category</label>
                   <select
-                    value={editingDirective?.category || newDirective.category}
-                    onChange={(e) => editingDirective
-                      ? setEditingDirective({ ...editingDirective, category: e.target.value as PTDirective['category'] })
-                      : setNewDirective({ ...newDirective, category: e.target.value as PTDirective['category'] })
-                    }
+                    value={form.category}
+                    onChange={(e) => setForm({ ...form, category: e.target.value as PTDirective['category'] })}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                   >
                     <option value="nutrition">Nutrition</option>
@@ -516,11 +581,8 @@ export const PTDirectivesTab: React.FC<PTDirectivesTabProps> = ({ clientId }) =>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">Priority</label>
                   <select
-                    value={editingDirective?.priority || newDirective.priority}
-                    onChange={(e) => editingDirective
-                      ? setEditingDirective({ ...editingDirective, priority: e.target.value as PTDirective['priority'] })
-                      : setNewDirective({ ...newDirective, priority: e.target.value as PTDirective['priority'] })
-                    }
+                    value={form.priority}
+                    onChange={(e) => setForm({ ...form, priority: e.target.value as PTDirective['priority'] })}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                   >
                     <option value="high">High</option>
@@ -532,18 +594,15 @@ export const PTDirectivesTab: React.FC<PTDirectivesTabProps> = ({ clientId }) =>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">Frequency</label>
                   <select
-                    value={editingDirective?.frequency || newDirective.frequency}
-                    onChange={(e) => editingDirective
-                      ? setEditingDirective({ ...editingDirective, frequency: e.target.value as PTDirective['frequency'] })
-                      : setNewDirective({ ...newDirective, frequency: e.target.value as PTDirective['frequency'] })
-                    }
+                    value={form.frequency}
+                    onChange={(e) => setForm({ ...form, frequency: e.target.value as PTDirective['frequency'] })}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                   >
-                    <option value="daily">Daily</option>
-                    <option value="weekly">Weekly</option>
+                    <option value="daily">Once a day</option>
+                    <option value="weekly">Once a week</option>
                     <option value="workout_days">Workout Days</option>
                     <option value="rest_days">Rest Days</option>
-                    <option value="as_needed">As Needed</option>
+                    <option value="as_needed">Every match</option>
                   </select>
                 </div>
               </div>
@@ -551,11 +610,8 @@ export const PTDirectivesTab: React.FC<PTDirectivesTabProps> = ({ clientId }) =>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
                 <textarea
-                  value={editingDirective?.description || newDirective.description}
-                  onChange={(e) => editingDirective
-                    ? setEditingDirective({ ...editingDirective, description: e.target.value })
-                    : setNewDirective({ ...newDirective, description: e.target.value })
-                  }
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
                   rows={2}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
                   placeholder="Brief description of what this directive does"
@@ -564,30 +620,74 @@ export const PTDirectivesTab: React.FC<PTDirectivesTabProps> = ({ clientId }) =>
 
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">Triggers</label>
+                <p className="text-xs text-gray-500 mb-2">Fires when any trigger matches. With no triggers it applies to every message.</p>
                 <div className="grid grid-cols-2 md:grid-cols-3 gap-2 max-h-32 overflow-y-auto border border-gray-200 rounded-lg p-3">
-                  {availableTriggers.map((trigger) => (
-                    <label key={trigger} className="flex items-center gap-2 text-sm">
+                  {Object.keys(TRIGGER_PRESETS).map((name) => (
+                    <label key={name} className="flex items-center gap-2 text-sm">
                       <input
                         type="checkbox"
-                        checked={(editingDirective?.triggers || newDirective.triggers || []).includes(trigger)}
-                        onChange={(e) => {
-                          const currentTriggers = editingDirective?.triggers || newDirective.triggers || [];
-                          const newTriggers = e.target.checked
-                            ? [...currentTriggers, trigger]
-                            : currentTriggers.filter(t => t !== trigger);
-                          
-                          if (editingDirective) {
-                            setEditingDirective({ ...editingDirective, triggers: newTriggers });
-                          } else {
-                            setNewDirective({ ...newDirective, triggers: newTriggers });
-                          }
-                        }}
+                        checked={hasPreset(name)}
+                        onChange={(e) => togglePreset(name, e.target.checked)}
                         className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
                       />
-                      <span className="text-gray-700">{trigger.replace('_', ' ')}</span>
+                      <span className="text-gray-700">{name.replace(/_/g, ' ')}</span>
                     </label>
                   ))}
                 </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-3">
+                  <input
+                    type="text"
+                    value={customKeywords?.type === 'keyword' ? customKeywords.keywords.join(',') : ''}
+                    onChange={(e) => setCustomTrigger(
+                      'keyword',
+                      e.target.value ? { label: 'custom', type: 'keyword', keywords: e.target.value.split(',') } : null
+                    )}
+                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="Custom keywords, comma separated"
+                  />
+                  <div className="flex gap-2">
+                    <select
+                      value={customMetric?.type === 'metric' ? customMetric.metric : ''}
+                      onChange={(e) => setCustomTrigger(
+                        'metric',
+                        e.target.value
+                          ? {
+                              label: 'custom',
+                              type: 'metric',
+                              metric: e.target.value as DirectiveMetric,
+                              op: customMetric?.type === 'metric' ? customMetric.op : 'lt',
+                              value: customMetric?.type === 'metric' ? customMetric.value : 50
+                            }
+                          : null
+                      )}
+                      className="flex-1 px-2 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">No metric threshold</option>
+                      {(Object.keys(METRIC_LABELS) as DirectiveMetric[]).map(metric => (
+                        <option key={metric} value={metric}>{METRIC_LABELS[metric]}</option>
+                      ))}
+                    </select>
+                    {customMetric?.type === 'metric' && (
+                      <>
+                        <select
+                          value={customMetric.op}
+                          onChange={(e) => setCustomTrigger('metric', { ...customMetric, op: e.target.value as 'lt' | 'gt' })}
+                          className="px-2 py-2 border border-gray-300 rounded-lg text-sm"
+                        >
+                          <option value="lt">&lt;</option>
+                          <option value="gt">&gt;</option>
+                        </select>
+                        <input
+                          type="number"
+                          value={customMetric.value}
+                          onChange={(e) => setCustomTrigger('metric', { ...customMetric, value: Number(e.target.value) })}
+                          className="w-20 px-2 py-2 border border-gray-300 rounded-lg text-sm"
+                        />
+                      </>
+                    )}
+                  </div>
+                </div>
               </div>
 
               <div>
@@ -596,11 +696,8 @@ export const PTDirectivesTab: React.FC<PTDirectivesTabProps> = ({ clientId }) =>
                   <span className="text-red-500 ml-1">*</span>
                 </label>
                 <textarea
-                  value={editingDirective?.patInstructions || newDirective.patInstructions}
-                  onChange={(e) => editingDirective
-                    ? setEditingDirective({ ...editingDirective, patInstructions: e.target.value })
-                    : setNewDirective({ ...newDirective, patInstructions: e.target.value })
-                  }
+                  value={form.pat_instructions}
+                  onChange={(e) => setForm({ ...form, pat_instructions: e.target.value })}
                   rows={4}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
                   placeholder="Detailed instructions for how Pat should respond when this directive is triggered..."
@@ -608,11 +705,11 @@ export const PTDirectivesTab: React.FC<PTDirectivesTabProps> = ({ clientId }) =>
               </div>
 
               {/* Preview */}
-              {(editingDirective?.patInstructions || newDirective.patInstructions) && (
+              {form.pat_instructions && (
                 <div className="bg-blue-50 p-4 rounded-lg border border-blue-200">
                   <h5 className="font-medium text-blue-900 mb-2">Preview</h5>
                   <p className="text-blue-800 text-sm italic">
-                    "{generatePreviewText(editingDirective || newDirective as PTDirective)}"
+                    "{generatePreviewText(form)}"
                   </p>
                 </div>
               )}
@@ -620,23 +717,17 @@ export const PTDirectivesTab: React.FC<PTDirectivesTabProps> = ({ clientId }) =>
 
             <div className="p-6 border-t border-gray-200 flex items-center justify-end gap-3">
               <button
-                onClick={() => {
-                  setShowCreateModal(false);
-                  setEditingDirective(null);
-                }}
+                onClick={closeModal}
                 className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
               >
                 Cancel
               </button>
               <button
-                onClick={() => editingDirective 
-                  ? handleUpdateDirective(editingDirective)
-                  : handleCreateDirective()
-                }
-                disabled={!(editingDirective?.patInstructions || newDirective.patInstructions)}
+                onClick={handleSave}
+                disabled={saving || !form.title.trim() || !form.pat_instructions.trim()}
                 className="px-6 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
               >
-                {editingDirective ? 'Update' : 'Create'} Directive
+                {saving ? 'Saving...' : `${editingId ? 'Update' : 'Create'} Directive`}
               </button>
             </div>
           </div>
@@ -681,7 +772,7 @@ export const PTDirectivesTab: React.FC<PTDirectivesTabProps> = ({ clientId }) =>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-gray-600">Frequency:</span>
-                  <span className="font-medium">{typeof previewDirective.frequency === 'string' ? previewDirective.frequency.replace('_', ' ') : previewDirective.frequency}</span>
+                  <span className="font-medium">{previewDirective.frequency.replace('_', ' ')}</span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-gray-600">Triggers:</span>
@@ -701,33 +792,6 @@ export const PTDirectivesTab: React.FC<PTDirectivesTabProps> = ({ clientId }) =>
           </div>
         </>
       )}
-
-      {/* TODO Comments */}
-      <div className="bg-orange-50 p-4 rounded-lg border border-orange-200">
-        <h4 className="font-medium text-orange-900 mb-3">PT Directives Integration TODOs</h4>
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-orange-800">
-          <div>
-            <h5 className="font-medium mb-2">Backend Requirements:</h5>
-            <ul className="space-y-1 text-xs">
-              <li>• Trigger detection system</li>
-              <li>• Directive execution engine</li>
-              <li>• Effectiveness tracking</li>
-              <li>• Natural language processing for instructions</li>
-              <li>• Integration with conversation agents</li>
-            </ul>
-          </div>
-          <div>
-            <h5 className="font-medium mb-2">Features to Implement:</h5>
-            <ul className="space-y-1 text-xs">
-              <li>• Real-time trigger monitoring</li>
-              <li>• A/B testing for directive effectiveness</li>
-              <li>• Conditional logic for complex triggers</li>
-              <li>• Directive scheduling and timing</li>
-              <li>• Client feedback integration</li>
-            </ul>
-          </div>
-        </div>
-      </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,328 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Dumbbell, Play, Check, X, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  abandonWorkoutSession,
+  completeWorkoutSession,
+  deleteWorkoutSet,
+  getOpenWorkoutSession,
+  listSessionSets,
+  listWorkoutPlans,
+  logWorkoutSet,
+  plansForDay,
+  sessionTotals,
+  startWorkoutSession,
+  toEffortData,
+  type Exercise,
+  type LoggedSet,
+  type WorkoutPlan,
+  type WorkoutSession
+} from '../../lib/workoutPlans';
+
+interface TodayWorkoutCardProps {
+  userId: string;
+  onSessionCompleted?: () => void;
+}
+
+interface SetInput {
+  weight: string;
+  reps: string;
+  rpe: string;
+  rest: string;
+}
+
+const blankInput = (exercise: Exercise): SetInput => ({
+  weight: '',
+  reps: /^\d+$/.test(exercise.reps) ? exercise.reps : '',
+  rpe: '',
+  rest: String(exercise.restTime || '')
+});
+
+export const TodayWorkoutCard: React.FC<TodayWorkoutCardProps> = ({ userId, onSessionCompleted }) => {
+  const [plans, setPlans] = useState<WorkoutPlan[]>([]);
+  const [session, setSession] = useState<WorkoutSession | null>(null);
+  const [sets, setSets] = useState<LoggedSet[]>([]);
+  const [inputs, setInputs] = useState<Record<string, SetInput>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [allPlans, open] = await Promise.all([listWorkoutPlans(userId), getOpenWorkoutSession(userId)]);
+      setPlans(allPlans);
+      setSession(open);
+      setSets(open ? await listSessionSets(open.id) : []);
+    } catch (error) {
+      console.error('Error loading workout:', error);
+      toast.error('Failed to load today\'s workout');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const activePlan = session ? plans.find(p => p.id === session.plan_id) ?? null : null;
+  const todaysPlans = plansForDay(plans, new Date());
+
+  const inputFor = (exercise: Exercise) => inputs[exercise.id] ?? blankInput(exercise);
+
+  const setInput = (exercise: Exercise, patch: Partial<SetInput>) =>
+    setInputs(prev => ({ ...prev, [exercise.id]: { ...inputFor(exercise), ...patch } }));
+
+  const handleStart = async (plan: WorkoutPlan) => {
+    setBusy(true);
+    try {
+      setSession(await startWorkoutSession(plan));
+      setSets([]);
+      setInputs({});
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to start workout');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleLogSet = async (exercise: Exercise) => {
+    if (!session) return;
+    const input = inputFor(exercise);
+    const reps = parseInt(input.reps);
+    if (!(reps > 0)) {
+      toast.error('Enter the reps you completed');
+      return;
+    }
+    setBusy(true);
+    try {
+      const logged = await logWorkoutSet(session.id, {
+        exercise_id: exercise.id,
+        exercise: exercise.name,
+        muscle_group: exercise.muscleGroups[0] ?? '',
+        set_number: sets.filter(s => s.exercise_id === exercise.id).length + 1,
+        reps,
+        weight_lbs: parseFloat(input.weight) || 0,
+        rpe: input.rpe ? parseFloat(input.rpe) : null,
+        rest_sec: input.rest ? parseInt(input.rest) : null
+      });
+      setSets(prev => [...prev, logged]);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to log set');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDeleteSet = async (setId: string) => {
+    try {
+      await deleteWorkoutSet(setId);
+      setSets(prev => prev.filter(s => s.id !== setId));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete set');
+    }
+  };
+
+  const handleFinish = async () => {
+    if (!session) return;
+    setBusy(true);
+    try {
+      const log = await completeWorkoutSession(session.id);
+      toast.success(`Workout saved: ${log.exercises_completed} exercises, ${Math.round(log.volume_lbs ?? 0)} lbs`);
+      setSession(null);
+      setSets([]);
+      onSessionCompleted?.();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to finish workout');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAbandon = async () => {
+    if (!session) return;
+    setBusy(true);
+    try {
+      await abandonWorkoutSession(session.id);
+      setSession(null);
+      setSets([]);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to end workout');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="bg-slate-800/50 rounded-xl p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-4 bg-slate-700 rounded w-1/3"></div>
+          <div className="h-12 bg-slate-700 rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    if (todaysPlans.length === 0) return null;
+    return (
+      <div className="bg-slate-800/50 rounded-xl p-6">
+        <h3 className="text-lg font-semibold text-white mb-4">Today's Workout</h3>
+        <div className="space-y-3">
+          {todaysPlans.map(plan => (
+            <div key={plan.id} className="bg-slate-700/50 rounded-lg p-4 flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <Dumbbell className="w-4 h-4 text-orange-400" />
+                <div>
+                  <div className="text-slate-200 font-medium">{plan.name}</div>
+                  <div className="text-xs text-slate-400">
+                    {plan.exercises.length} exercises · ~{plan.estimated_duration_min} min
+                  </div>
+                </div>
+              </div>
+              <button
+                onClick={() => handleStart(plan)}
+                disabled={busy}
+                className="flex items-center gap-2 px-3 py-2 bg-orange-500 hover:bg-orange-600 disabled:opacity-50 text-white rounded-lg text-sm transition-colors"
+              >
+                <Play className="w-4 h-4" />
+                Start
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  const totals = sessionTotals(sets.map(toEffortData), new Date(session.started_at));
+  const exercises = activePlan?.exercises ?? [];
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white">{activePlan?.name ?? 'Workout'} in progress</h3>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleAbandon}
+            disabled={busy}
+            className="flex items-center gap-1 px-3 py-2 text-slate-400 hover:text-red-400 hover:bg-red-500/10 rounded-lg text-sm transition-colors"
+          >
+            <X className="w-4 h-4" />
+            Abandon
+          </button>
+          <button
+            onClick={handleFinish}
+            disabled={busy || sets.length === 0}
+            className="flex items-center gap-1 px-3 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white rounded-lg text-sm transition-colors"
+          >
+            <Check className="w-4 h-4" />
+            Finish
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-4 gap-2 text-sm mb-4">
+        <div>
+          <div className="text-slate-400 text-xs">Duration</div>
+          <div className="text-white font-semibold">{totals.duration_minutes} min</div>
+        </div>
+        <div>
+          <div className="text-slate-400 text-xs">Sets</div>
+          <div className="text-white font-semibold">{totals.sets}</div>
+        </div>
+        <div>
+          <div className="text-slate-400 text-xs">Volume</div>
+          <div className="text-white font-semibold">{Math.round(totals.volume_lbs)} lbs</div>
+        </div>
+        <div>
+          <div className="text-slate-400 text-xs">Avg RPE</div>
+          <div className="text-white font-semibold">{totals.avg_rpe ?? '–'}</div>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {exercises.map(exercise => {
+          const logged = sets.filter(s => s.exercise_id === exercise.id);
+          const input = inputFor(exercise);
+          return (
+            <div key={exercise.id} className="bg-slate-700/50 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-slate-200 font-medium">{exercise.name}</span>
+                <span className="text-xs text-slate-400">
+                  {logged.length}/{exercise.sets} sets · target {exercise.reps}
+                </span>
+              </div>
+
+              {logged.length > 0 && (
+                <div className="mb-2 space-y-1">
+                  {logged.map(s => (
+                    <div key={s.id} className="flex items-center justify-between bg-slate-800/50 rounded px-3 py-1 text-xs text-slate-300">
+                      <span>
+                        Set {s.set_number}: {s.weight_lbs} lbs × {s.reps}
+                        {s.rpe !== null && ` @ RPE ${s.rpe}`}
+                        {s.rest_sec !== null && ` · ${s.rest_sec}s rest`}
+                      </span>
+                      <button
+                        onClick={() => handleDeleteSet(s.id)}
+                        className="p-1 text-slate-400 hover:text-red-400 rounded"
+                        title="Delete set"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="grid grid-cols-5 gap-2">
+                <input
+                  type="number"
+                  value={input.weight}
+                  onChange={(e) => setInput(exercise, { weight: e.target.value })}
+                  placeholder="lbs"
+                  min="0"
+                  className="px-2 py-1 bg-slate-800 border border-slate-600 rounded text-sm text-white"
+                />
+                <input
+                  type="number"
+                  value={input.reps}
+                  onChange={(e) => setInput(exercise, { reps: e.target.value })}
+                  placeholder="reps"
+                  min="0"
+                  className="px-2 py-1 bg-slate-800 border border-slate-600 rounded text-sm text-white"
+                />
+                <input
+                  type="number"
+                  value={input.rpe}
+                  onChange={(e) => setInput(exercise, { rpe: e.target.value })}
+                  placeholder="RPE"
+                  min="1"
+                  max="10"
+                  step="0.5"
+                  className="px-2 py-1 bg-slate-800 border border-slate-600 rounded text-sm text-white"
+                />
+                <input
+                  type="number"
+                  value={input.rest}
+                  onChange={(e) => setInput(exercise, { rest: e.target.value })}
+                  placeholder="rest s"
+                  min="0"
+                  className="px-2 py-1 bg-slate-800 border border-slate-600 rounded text-sm text-white"
+                />
+                <button
+                  onClick={() => handleLogSet(exercise)}
+                  disabled={busy}
+                  className="px-2 py-1 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded text-sm transition-colors"
+                >
+                  Log set
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -1,381 +1,205 @@
-import React, { useState } from 'react';
-import { Plus, Edit3, Trash2, Copy, Play, Pause, Calendar, Clock, Target, Activity, TrendingUp, CheckCircle, AlertTriangle, MoreVertical } from 'lucide-react';
+import React, { useCallback, useEffect, useState } from 'react';
+import { Plus, Edit3, Trash2, Copy, Pause, Calendar, Clock, Target, Activity, TrendingUp, CheckCircle, AlertCircle, BookmarkPlus, History } from 'lucide-react';
 import { DataSourceBadge } from '../../lib/devDataSourceBadge';
-
-interface Exercise {
-  id: string;
-  name: string;
-  sets: number;
-  reps: string; // Can be "8-12" or "10" etc.
-  weight?: string;
-  restTime: number; // seconds
-  notes?: string;
-  muscleGroups: string[];
-  equipment: string[];
-}
-
-interface WorkoutPlan {
-  id: string;
-  name: string;
-  description: string;
-  type: 'strength' | 'cardio' | 'hybrid' | 'recovery';
-  difficulty: 'beginner' | 'intermediate' | 'advanced';
-  estimatedDuration: number; // minutes
-  exercises: Exercise[];
-  isActive: boolean;
-  isTemplate: boolean;
-  createdAt: Date;
-  lastUsed?: Date;
-  completionRate?: number;
-  assignedDays?: string[]; // ['monday', 'wednesday', 'friday']
-  progressTracking: {
-    totalSessions: number;
-    avgRating: number;
-    lastModified: Date;
-  };
-}
-
-interface WorkoutTemplate {
-  id: string;
-  name: string;
-  description: string;
-  type: WorkoutPlan['type'];
-  difficulty: WorkoutPlan['difficulty'];
-  exercises: Exercise[];
-  tags: string[];
-}
+import { getActiveOrgIdSafe } from '../../lib/org';
+import {
+  createWorkoutPlan,
+  deleteWorkoutPlan,
+  listPlanVersions,
+  listWorkoutPlans,
+  listWorkoutTemplates,
+  planSessionStats,
+  setWorkoutPlanActive,
+  updateWorkoutPlan,
+  validateWorkoutPlan,
+  WEEK_DAYS,
+  type Exercise,
+  type WorkoutPlan,
+  type WorkoutPlanDraft,
+  type WorkoutPlanVersion
+} from '../../lib/workoutPlans';
 
 interface WorkoutPlansTabProps {
   clientId: string;
 }
 
-export const WorkoutPlansTab: React.FC<WorkoutPlansTabProps> = ({ clientId }) => {
-  const [workoutPlans, setWorkoutPlans] = useState<WorkoutPlan[]>([
-    // TODO: MOCK_DATA_REMOVE (HiPat cleanup)
-    {
-      id: '1',
-      name: 'Upper Body Strength',
-      description: 'Comprehensive upper body workout focusing on compound movements',
-      type: 'strength',
-      difficulty: 'intermediate',
-      estimatedDuration: 75,
-      exercises: [
-        {
-          id: '1',
-          name: 'Bench Press',
-          sets: 4,
-          reps: '6-8',
-          weight: '185 lbs',
-          restTime: 180,
-          notes: 'Focus on controlled eccentric',
-          muscleGroups: ['chest', 'triceps', 'shoulders'],
-          equipment: ['barbell', 'bench']
-        },
-        {
-          id: '2',
-          name: 'Pull-ups',
-          sets: 3,
-          reps: '8-12',
-          restTime: 120,
-          muscleGroups: ['back', 'biceps'],
-          equipment: ['pull-up bar']
-        },
-        {
-          id: '3',
-          name: 'Overhead Press',
-          sets: 3,
-          reps: '8-10',
-          weight: '135 lbs',
-          restTime: 150,
-          muscleGroups: ['shoulders', 'triceps'],
-          equipment: ['barbell']
-        }
-      ],
-      isActive: true,
-      isTemplate: false,
-      createdAt: new Date(Date.now() - 14 * 24 * 60 * 60 * 1000),
-      lastUsed: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000),
-      completionRate: 92,
-      assignedDays: ['monday', 'thursday'],
-      progressTracking: {
-        totalSessions: 8,
-        avgRating: 4.2,
-        lastModified: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
-      }
-    },
-    {
-      id: '2',
-      name: 'Lower Body Power',
-      description: 'Explosive lower body movements for strength and power development',
-      type: 'strength',
-      difficulty: 'advanced',
-      estimatedDuration: 90,
-      exercises: [
-        {
-          id: '4',
-          name: 'Back Squat',
-          sets: 5,
-          reps: '3-5',
-          weight: '275 lbs',
-          restTime: 240,
-          notes: 'Focus on depth and speed out of the hole',
-          muscleGroups: ['quadriceps', 'glutes', 'hamstrings'],
-          equipment: ['barbell', 'squat rack']
-        },
-        {
-          id: '5',
-          name: 'Romanian Deadlift',
-          sets: 4,
-          reps: '6-8',
-          weight: '225 lbs',
-          restTime: 180,
-          muscleGroups: ['hamstrings', 'glutes', 'lower back'],
-          equipment: ['barbell']
-        }
-      ],
-      isActive: true,
-      isTemplate: false,
-      createdAt: new Date(Date.now() - 21 * 24 * 60 * 60 * 1000),
-      lastUsed: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000),
-      completionRate: 88,
-      assignedDays: ['tuesday', 'friday'],
-      progressTracking: {
-        totalSessions: 6,
-        avgRating: 4.5,
-        lastModified: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000)
-      }
-    },
-    {
-      id: '3',
-      name: 'Active Recovery',
-      description: 'Light movement and mobility work for recovery days',
-      type: 'recovery',
-      difficulty: 'beginner',
-      estimatedDuration: 30,
-      exercises: [
-        {
-          id: '6',
-          name: 'Walking',
-          sets: 1,
-          reps: '20 min',
-          restTime: 0,
-          notes: 'Moderate pace, focus on breathing',
-          muscleGroups: ['full body'],
-          equipment: ['none']
-        },
-        {
-          id: '7',
-          name: 'Dynamic Stretching',
-          sets: 1,
-          reps: '10 min',
-          restTime: 0,
-          muscleGroups: ['full body'],
-          equipment: ['none']
-        }
-      ],
-      isActive: false,
-      isTemplate: false,
-      createdAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
-      lastUsed: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000),
-      completionRate: 75,
-      assignedDays: ['sunday'],
-      progressTracking: {
-        totalSessions: 4,
-        avgRating: 3.8,
-        lastModified: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000)
-      }
-    }
-  ]);
+type PlanStats = Record<string, { sessions: number; lastSessionAt: string | null }>;
+
+const emptyDraft = (): WorkoutPlanDraft => ({
+  name: '',
+  description: '',
+  type: 'strength',
+  difficulty: 'intermediate',
+  estimated_duration_min: 60,
+  exercises: [],
+  assigned_days: [],
+  tags: [],
+  is_active: true
+});
+
+const toDraft = (plan: WorkoutPlan): WorkoutPlanDraft => ({
+  name: plan.name,
+  description: plan.description,
+  type: plan.type,
+  difficulty: plan.difficulty,
+  estimated_duration_min: plan.estimated_duration_min,
+  exercises: plan.exercises,
+  assigned_days: plan.assigned_days,
+  tags: plan.tags,
+  is_active: plan.is_active
+});
 
-  const [showCreateModal, setShowCreateModal] = useState(false);
-  const [editingPlan, setEditingPlan] = useState<WorkoutPlan | null>(null);
+export const WorkoutPlansTab: React.FC<WorkoutPlansTabProps> = ({ clientId }) => {
+  const [workoutPlans, setWorkoutPlans] = useState<WorkoutPlan[]>([]);
+  const [templates, setTemplates] = useState<WorkoutPlan[]>([]);
+  const [stats, setStats] = useState<PlanStats>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [showModal, setShowModal] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<WorkoutPlanDraft>(emptyDraft);
+  const [saving, setSaving] = useState(false);
   const [selectedPlan, setSelectedPlan] = useState<WorkoutPlan | null>(null);
+  const [versions, setVersions] = useState<WorkoutPlanVersion[]>([]);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [filterType, setFilterType] = useState<'all' | WorkoutPlan['type']>('all');
 
-  // TODO: MOCK_DATA_REMOVE (HiPat cleanup)
-  const workoutTemplates: WorkoutTemplate[] = [
-    {
-      id: 'template-1',
-      name: 'Push Day',
-      description: 'Chest, shoulders, and triceps focused workout',
-      type: 'strength',
-      difficulty: 'intermediate',
-      exercises: [
-        {
-          id: 't1',
-          name: 'Bench Press',
-          sets: 4,
-          reps: '6-8',
-          restTime: 180,
-          muscleGroups: ['chest', 'triceps', 'shoulders'],
-          equipment: ['barbell', 'bench']
-        },
-        {
-          id: 't2',
-          name: 'Overhead Press',
-          sets: 3,
-          reps: '8-10',
-          restTime: 150,
-          muscleGroups: ['shoulders', 'triceps'],
-          equipment: ['barbell']
-        },
-        {
-          id: 't3',
-          name: 'Dips',
-          sets: 3,
-          reps: '10-15',
-          restTime: 120,
-          muscleGroups: ['triceps', 'chest'],
-          equipment: ['dip bars']
-        }
-      ],
-      tags: ['push', 'upper body', 'strength']
-    },
-    {
-      id: 'template-2',
-      name: 'Pull Day',
-      description: 'Back and biceps focused workout',
-      type: 'strength',
-      difficulty: 'intermediate',
-      exercises: [
-        {
-          id: 't4',
-          name: 'Deadlift',
-          sets: 4,
-          reps: '5-6',
-          restTime: 240,
-          muscleGroups: ['back', 'hamstrings', 'glutes'],
-          equipment: ['barbell']
-        },
-        {
-          id: 't5',
-          name: 'Pull-ups',
-          sets: 3,
-          reps: '8-12',
-          restTime: 120,
-          muscleGroups: ['back', 'biceps'],
-          equipment: ['pull-up bar']
-        },
-        {
-          id: 't6',
-          name: 'Barbell Rows',
-          sets: 3,
-          reps: '8-10',
-          restTime: 150,
-          muscleGroups: ['back', 'biceps'],
-          equipment: ['barbell']
-        }
-      ],
-      tags: ['pull', 'upper body', 'strength']
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const orgId = await getActiveOrgIdSafe();
+      const [plans, orgTemplates, sessionStats] = await Promise.all([
+        listWorkoutPlans(clientId),
+        orgId ? listWorkoutTemplates(orgId) : Promise.resolve([]),
+        planSessionStats(clientId)
+      ]);
+      setWorkoutPlans(plans);
+      setTemplates(orgTemplates);
+      setStats(sessionStats);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load workout plans');
+    } finally {
+      setLoading(false);
     }
-  ];
-
-  const [newPlan, setNewPlan] = useState<Partial<WorkoutPlan>>({
-    name: '',
-    description: '',
-    type: 'strength',
-    difficulty: 'intermediate',
-    estimatedDuration: 60,
-    exercises: [],
-    isActive: true,
-    isTemplate: false,
-    assignedDays: []
-  });
+  }, [clientId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  useEffect(() => {
+    if (!selectedPlan) return;
+    setVersions([]);
+    listPlanVersions(selectedPlan.id)
+      .then(setVersions)
+      .catch(e => setError(e instanceof Error ? e.message : 'Failed to load plan history'));
+  }, [selectedPlan]);
+
+  const requireOrg = async (): Promise<string> => {
+    const orgId = await getActiveOrgIdSafe();
+    if (!orgId) throw new Error('No active organization');
+    return orgId;
+  };
 
-  const handleCreatePlan = () => {
-    if (!newPlan.name || !newPlan.exercises?.length) return;
+  const closeModal = () => {
+    setShowModal(false);
+    setEditingId(null);
+    setForm(emptyDraft());
+  };
 
-    const plan: WorkoutPlan = {
-      id: Date.now().toString(),
-      name: newPlan.name,
-      description: newPlan.description || '',
-      type: newPlan.type as WorkoutPlan['type'],
-      difficulty: newPlan.difficulty as WorkoutPlan['difficulty'],
-      estimatedDuration: newPlan.estimatedDuration || 60,
-      exercises: newPlan.exercises,
-      isActive: newPlan.isActive ?? true,
-      isTemplate: false,
-      createdAt: new Date(),
-      assignedDays: newPlan.assignedDays || [],
-      progressTracking: {
-        totalSessions: 0,
-        avgRating: 0,
-        lastModified: new Date()
-      }
-    };
+  const openEdit = (plan: WorkoutPlan) => {
+    setForm(toDraft(plan));
+    setEditingId(plan.id);
+    setShowModal(true);
+  };
 
-    setWorkoutPlans(prev => [plan, ...prev]);
-    setNewPlan({
-      name: '',
-      description: '',
-      type: 'strength',
-      difficulty: 'intermediate',
-      estimatedDuration: 60,
-      exercises: [],
-      isActive: true,
-      isTemplate: false,
-      assignedDays: []
-    });
-    setShowCreateModal(false);
+  const replacePlan = (saved: WorkoutPlan) =>
+    setWorkoutPlans(prev => prev.map(p => (p.id === saved.id ? saved : p)));
 
-    // TODO: Save to backend
-    console.log('Created workout plan:', plan);
+  const handleSavePlan = async () => {
+    const problems = validateWorkoutPlan(form);
+    if (problems.length) {
+      setError(problems[0]);
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      if (editingId) {
+        replacePlan(await updateWorkoutPlan(editingId, form));
+      } else {
+        const created = await createWorkoutPlan(await requireOrg(), clientId, form);
+        setWorkoutPlans(prev => [created, ...prev]);
+      }
+      closeModal();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to save workout plan');
+    } finally {
+      setSaving(false);
+    }
   };
 
-  const handleUpdatePlan = (updatedPlan: WorkoutPlan) => {
-    setWorkoutPlans(prev => prev.map(p => p.id === updatedPlan.id ? updatedPlan : p));
-    setEditingPlan(null);
-    // TODO: Update in backend
-    console.log('Updated workout plan:', updatedPlan);
+  const handleDeletePlan = async (planId: string) => {
+    try {
+      await deleteWorkoutPlan(planId);
+      setWorkoutPlans(prev => prev.filter(p => p.id !== planId));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to delete workout plan');
+    }
   };
 
-  const handleDeletePlan = (planId: string) => {
-    setWorkoutPlans(prev => prev.filter(p => p.id !== planId));
-    // TODO: Delete from backend
-    console.log('Deleted workout plan:', planId);
+  const handleTogglePlan = async (plan: WorkoutPlan) => {
+    try {
+      replacePlan(await setWorkoutPlanActive(plan.id, !plan.is_active));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to update workout plan');
+    }
   };
 
-  const handleTogglePlan = (planId: string) => {
-    setWorkoutPlans(prev => prev.map(p => 
-      p.id === planId ? { ...p, isActive: !p.isActive } : p
-    ));
-    // TODO: Update in backend
+  const handleDuplicatePlan = async (plan: WorkoutPlan) => {
+    try {
+      const copy = await createWorkoutPlan(await requireOrg(), clientId, { ...toDraft(plan), name: `${plan.name} (Copy)` });
+      setWorkoutPlans(prev => [copy, ...prev]);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to duplicate workout plan');
+    }
   };
 
-  const handleDuplicatePlan = (plan: WorkoutPlan) => {
-    const duplicatedPlan: WorkoutPlan = {
-      ...plan,
-      id: Date.now().toString(),
-      name: `${plan.name} (Copy)`,
-      createdAt: new Date(),
-      lastUsed: undefined,
-      progressTracking: {
-        totalSessions: 0,
-        avgRating: 0,
-        lastModified: new Date()
-      }
-    };
+  const handleSaveAsTemplate = async (plan: WorkoutPlan) => {
+    try {
+      const template = await createWorkoutPlan(await requireOrg(), null, { ...toDraft(plan), assigned_days: [], is_active: true });
+      setTemplates(prev => [...prev, template].sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to save template');
+    }
+  };
 
-    setWorkoutPlans(prev => [duplicatedPlan, ...prev]);
-    // TODO: Save to backend
-    console.log('Duplicated workout plan:', duplicatedPlan);
+  const handleDeleteTemplate = async (templateId: string) => {
+    try {
+      await deleteWorkoutPlan(templateId);
+      setTemplates(prev => prev.filter(t => t.id !== templateId));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to delete template');
+    }
   };
 
-  const handleUseTemplate = (template: WorkoutTemplate) => {
-    setNewPlan({
-      name: template.name,
-      description: template.description,
-      type: template.type,
-      difficulty: template.difficulty,
-      estimatedDuration: template.exercises.length * 15, // Rough estimate
-      exercises: template.exercises,
-      isActive: true,
-      isTemplate: false,
-      assignedDays: []
+  const handleUseTemplate = (template: WorkoutPlan) => {
+    setForm({
+      ...toDraft(template),
+      // Fresh exercise ids so sets logged against this plan never collide with the template's
+      exercises: template.exercises.map((ex, i) => ({ ...ex, id: `${Date.now()}-${i}` })),
+      assigned_days: [],
+      is_active: true
     });
   };
 
+  const updateExercise = (index: number, patch: Partial<Exercise>) =>
+    setForm(prev => ({
+      ...prev,
+      exercises: prev.exercises.map((ex, i) => (i === index ? { ...ex, ...patch } : ex))
+    }));
+
   const getTypeIcon = (type: WorkoutPlan['type']) => {
     switch (type) {
       case 'strength':
@@ -400,13 +224,6 @@ export const WorkoutPlansTab: React.FC<WorkoutPlansTabProps> = ({ clientId }) =>
     }
   };
 
-  const getCompletionRateColor = (rate?: number) => {
-    if (!rate) return 'text-gray-400';
-    if (rate >= 90) return 'text-green-600';
-    if (rate >= 75) return 'text-yellow-600';
-    return 'text-red-600';
-  };
-
   const formatDuration = (minutes: number): string => {
     const hours = Math.floor(minutes / 60);
     const mins = minutes % 60;
@@ -416,16 +233,23 @@ export const WorkoutPlansTab: React.FC<WorkoutPlansTabProps> = ({ clientId }) =>
     return `${mins}m`;
   };
 
-  const filteredPlans = filterType === 'all' 
-    ? workoutPlans 
+  const sessionsFor = (planId: string) => stats[planId]?.sessions ?? 0;
+  const lastSessionFor = (planId: string) => stats[planId]?.lastSessionAt ?? null;
+
+  const filteredPlans = filterType === 'all'
+    ? workoutPlans
     : workoutPlans.filter(p => p.type === filterType);
 
-  const activePlans = workoutPlans.filter(p => p.isActive).length;
-  const avgCompletionRate = workoutPlans.reduce((sum, p) => sum + (p.completionRate || 0), 0) / workoutPlans.length;
+  const activePlans = workoutPlans.filter(p => p.is_active).length;
+  const totalSessions = workoutPlans.reduce((sum, p) => sum + sessionsFor(p.id), 0);
+
+  if (loading) {
+    return <div className="text-center py-8 text-gray-500">Loading workout plans...</div>;
+  }
 
   return (
     <div className="space-y-6" style={{ position: 'relative' }}>
-      <DataSourceBadge source="mock" />
+      <DataSourceBadge source="live" />
       {/* Header with Stats */}
       <div className="flex items-center justify-between">
         <div>
@@ -433,7 +257,7 @@ export const WorkoutPlansTab: React.FC<WorkoutPlansTabProps> = ({ clientId }) =>
           <div className="flex items-center gap-6 text-sm text-gray-600 mt-1">
             <span>{workoutPlans.length} total plans</span>
             <span>{activePlans} active</span>
-            <span>{Math.round(avgCompletionRate)}% avg completion</span>
+            <span>{totalSessions} sessions logged</span>
           </div>
         </div>
         <div className="flex items-center gap-3">
@@ -462,7 +286,7 @@ export const WorkoutPlansTab: React.FC<WorkoutPlansTabProps> = ({ clientId }) =>
             </button>
           </div>
           <button
-            onClick={() => setShowCreateModal(true)}
+            onClick={() => setShowModal(true)}
             className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm transition-colors"
           >
             <Plus size={16} />
@@ -471,11 +295,18 @@ export const WorkoutPlansTab: React.FC<WorkoutPlansTabProps> = ({ clientId }) =>
         </div>
       </div>
 
+      {error && (
+        <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          <AlertCircle size={16} />
+          {error}
+        </div>
+      )}
+
       {/* Filters */}
       <div className="flex items-center gap-4">
         <select
           value={filterType}
-          onChange={(e) => setFilterType(e.target.value as any)}
+          onChange={(e) => setFilterType(e.target.value as 'all' | WorkoutPlan['type'])}
           className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
         >
           <option value="all">All Types</option>
@@ -492,13 +323,13 @@ export const WorkoutPlansTab: React.FC<WorkoutPlansTabProps> = ({ clientId }) =>
           <Activity size={48} className="text-gray-400 mx-auto mb-4" />
           <h3 className="text-lg font-medium text-gray-900 mb-2">No workout plans found</h3>
           <p className="text-gray-600 mb-6">
-            {filterType === 'all' 
+            {filterType === 'all'
               ? 'Create your first workout plan to get started'
               : `No ${filterType} workout plans found`
             }
           </p>
           <button
-            onClick={() => setShowCreateModal(true)}
+            onClick={() => setShowModal(true)}
             className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm transition-colors"
           >
             Create Workout Plan
@@ -512,14 +343,16 @@ export const WorkoutPlansTab: React.FC<WorkoutPlansTabProps> = ({ clientId }) =>
                 <div className="flex items-center gap-2">
                   {getTypeIcon(plan.type)}
                   <h4 className="font-medium text-gray-900">{plan.name}</h4>
+                  <span className="text-xs text-gray-400">v{plan.version}</span>
                 </div>
                 <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
-                      setEditingPlan(plan);
+                      openEdit(plan);
                     }}
                     className="p-1 hover:bg-gray-100 rounded"
+                    title="Edit"
                   >
                     <Edit3 size={14} className="text-gray-400" />
                   </button>
@@ -529,15 +362,27 @@ export const WorkoutPlansTab: React.FC<WorkoutPlansTabProps> = ({ clientId }) =>
                       handleDuplicatePlan(plan);
                     }}
                     className="p-1 hover:bg-gray-100 rounded"
+                    title="Duplicate"
                   >
                     <Copy size={14} className="text-gray-400" />
                   </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleSaveAsTemplate(plan);
+                    }}
+                    className="p-1 hover:bg-gray-100 rounded"
+                    title="Save as template"
+                  >
+                    <BookmarkPlus size={14} className="text-gray-400" />
+                  </button>
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
                       handleDeletePlan(plan.id);
                     }}
                     className="p-1 hover:bg-red-100 rounded"
+                    title="Delete"
                   >
                     <Trash2 size={14} className="text-red-400" />
                   </button>
@@ -551,17 +396,17 @@ export const WorkoutPlansTab: React.FC<WorkoutPlansTabProps> = ({ clientId }) =>
                   {plan.difficulty}
                 </span>
                 <div className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs ${
-                  plan.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                  plan.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
                 }`}>
-                  {plan.isActive ? <CheckCircle size={12} /> : <Pause size={12} />}
-                  {plan.isActive ? 'Active' : 'Paused'}
+                  {plan.is_active ? <CheckCircle size={12} /> : <Pause size={12} />}
+                  {plan.is_active ? 'Active' : 'Paused'}
                 </div>
               </div>
 
               <div className="space-y-2 text-sm text-gray-600">
                 <div className="flex justify-between">
                   <span>Duration:</span>
-                  <span className="font-medium">{formatDuration(plan.estimatedDuration)}</span>
+                  <span className="font-medium">{formatDuration(plan.estimated_duration_min)}</span>
                 </div>
                 <div className="flex justify-between">
                   <span>Exercises:</span>
@@ -569,23 +414,21 @@ export const WorkoutPlansTab: React.FC<WorkoutPlansTabProps> = ({ clientId }) =>
                 </div>
                 <div className="flex justify-between">
                   <span>Sessions:</span>
-                  <span className="font-medium">{plan.progressTracking.totalSessions}</span>
+                  <span className="font-medium">{sessionsFor(plan.id)}</span>
                 </div>
-                {plan.completionRate && (
+                {lastSessionFor(plan.id) && (
                   <div className="flex justify-between">
-                    <span>Completion:</span>
-                    <span className={`font-medium ${getCompletionRateColor(plan.completionRate)}`}>
-                      {typeof tag === 'string' ? tag : ''}
-                    </span>
+                    <span>Last session:</span>
+                    <span className="font-medium">{new Date(lastSessionFor(plan.id) as string).toLocaleDateString()}</span>
                   </div>
                 )}
               </div>
 
-              {plan.assignedDays && plan.assignedDays.length > 0 && (
+              {plan.assigned_days.length > 0 && (
                 <div className="mt-4 pt-4 border-t border-gray-200">
                   <div className="flex items-center gap-2 text-xs text-gray-500">
                     <Calendar size={12} />
-                    <span>Assigned: {plan.assignedDays.map(d => d.charAt(0).toUpperCase() + d.slice(1)).join(', ')}</span>
+                    <span>Assigned: {plan.assigned_days.map(d => d.charAt(0).toUpperCase() + d.slice(1)).join(', ')}</span>
                   </div>
                 </div>
               )}
@@ -594,15 +437,15 @@ export const WorkoutPlansTab: React.FC<WorkoutPlansTabProps> = ({ clientId }) =>
                 <button
                   onClick={(e) => {
                     e.stopPropagation();
-                    handleTogglePlan(plan.id);
+                    handleTogglePlan(plan);
                   }}
                   className={`flex-1 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
-                    plan.isActive
+                    plan.is_active
                       ? 'bg-gray-200 hover:bg-gray-300 text-gray-700'
                       : 'bg-green-600 hover:bg-green-700 text-white'
                   }`}
                 >
-                  {plan.isActive ? 'Pause' : 'Activate'}
+                  {plan.is_active ? 'Pause' : 'Activate'}
                 </button>
                 <button
                   onClick={(e) => {
@@ -627,7 +470,7 @@ export const WorkoutPlansTab: React.FC<WorkoutPlansTabProps> = ({ clientId }) =>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Type</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Duration</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Exercises</th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Completion</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Sessions</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
                 </tr>
@@ -637,7 +480,7 @@ export const WorkoutPlansTab: React.FC<WorkoutPlansTabProps> = ({ clientId }) =>
                   <tr key={plan.id} className="hover:bg-gray-50">
                     <td className="px-6 py-4">
                       <div>
-                        <div className="font-medium text-gray-900">{plan.name}</div>
+                        <div className="font-medium text-gray-900">{plan.name} <span className="text-xs text-gray-400">v{plan.version}</span></div>
                         <div className="text-sm text-gray-600">{plan.description}</div>
                       </div>
                     </td>
@@ -648,26 +491,20 @@ export const WorkoutPlansTab: React.FC<WorkoutPlansTabProps> = ({ clientId }) =>
                       </div>
                     </td>
                     <td className="px-6 py-4 text-sm text-gray-600">
-                      {formatDuration(plan.estimatedDuration)}
+                      {formatDuration(plan.estimated_duration_min)}
                     </td>
                     <td className="px-6 py-4 text-sm text-gray-600">
                       {plan.exercises.length}
                     </td>
-                    <td className="px-6 py-4">
-                      {plan.completionRate ? (
-                        <span className={`font-medium ${getCompletionRateColor(plan.completionRate)}`}>
-                          {plan.completionRate}%
-                        </span>
-                      ) : (
-                        <span className="text-gray-400">-</span>
-                      )}
+                    <td className="px-6 py-4 text-sm text-gray-600">
+                      {sessionsFor(plan.id)}
                     </td>
                     <td className="px-6 py-4">
                       <div className={`inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs ${
-                        plan.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                        plan.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
                       }`}>
-                        {plan.isActive ? <CheckCircle size={12} /> : <Pause size={12} />}
-                        {plan.isActive ? 'Active' : 'Paused'}
+                        {plan.is_active ? <CheckCircle size={12} /> : <Pause size={12} />}
+                        {plan.is_active ? 'Active' : 'Paused'}
                       </div>
                     </td>
                     <td className="px-6 py-4">
@@ -679,16 +516,16 @@ export const WorkoutPlansTab: React.FC<WorkoutPlansTabProps> = ({ clientId }) =>
                           View
                         </button>
                         <button
-                          onClick={() => setEditingPlan(plan)}
+                          onClick={() => openEdit(plan)}
                           className="text-gray-600 hover:text-gray-700 text-sm"
                         >
                           Edit
                         </button>
                         <button
-                          onClick={() => handleTogglePlan(plan.id)}
+                          onClick={() => handleTogglePlan(plan)}
                           className="text-gray-600 hover:text-gray-700 text-sm"
                         >
-                          {plan.isActive ? 'Pause' : 'Activate'}
+                          {plan.is_active ? 'Pause' : 'Activate'}
                         </button>
                       </div>
                     </td>
@@ -701,52 +538,68 @@ export const WorkoutPlansTab: React.FC<WorkoutPlansTabProps> = ({ clientId }) =>
       )}
 
       {/* Create/Edit Modal */}
-      {(showCreateModal || editingPlan) && (
+      {showModal && (
         <>
-          <div className="fixed inset-0 bg-black bg-opacity-50 z-50" onClick={() => {
-            setShowCreateModal(false);
-            setEditingPlan(null);
-          }} />
+          <div className="fixed inset-0 bg-black bg-opacity-50 z-50" onClick={closeModal} />
           <div className="fixed top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-white rounded-xl shadow-2xl z-50 w-full max-w-4xl max-h-[90vh] overflow-y-auto">
             <div className="p-6 border-b border-gray-200">
               <h3 className="text-lg font-semibold text-gray-900">
-                {editingPlan ? 'Edit Workout Plan' : 'Create New Workout Plan'}
+                {editingId ? 'Edit Workout Plan' : 'Create New Workout Plan'}
               </h3>
               <p className="text-gray-600 text-sm mt-1">
-                Design a comprehensive workout routine for your client
+                {editingId
+                  ? 'Changes to exercises or schedule save as a new version; past sessions keep the version they used'
+                  : 'Design a comprehensive workout routine for your client'}
               </p>
             </div>
 
             <div className="p-6 space-y-6">
               {/* Templates (only for new plans) */}
-              {!editingPlan && (
+              {!editingId && (
                 <div>
-                  <h4 className="font-medium text-gray-900 mb-3">Quick Start Templates</h4>
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                    {workoutTemplates.map((template) => (
-                      <button // eslint-disable-next-line react/jsx-key
-                        key={template.id}
-                        onClick={() => handleUseTemplate(template)}
-                        className="p-4 text-left border border-gray-200 hover:border-blue-300 hover:bg-blue-50 rounded-lg transition-colors"
-                      >
-                        <div className="flex items-center gap-2 mb-2">
-                          {getTypeIcon(template.type)}
-                          <span className="font-medium text-gray-900">{template.name}</span>
-                          <span className={`px-2 py-1 text-xs rounded-full ${getDifficultyColor(template.difficulty)}`}>
-                            {template.difficulty}
-                          </span>
-                        </div>
-                        <p className="text-gray-600 text-sm mb-2">{template.description}</p>
-                        <div className="flex flex-wrap gap-1">
-                          {template.tags.map((tag, index) => (
-                            <span key={index} className="px-2 py-1 bg-gray-100 text-gray-600 text-xs rounded">
-                              {tag}
-                            </span>
-                          ))}
+                  <h4 className="font-medium text-gray-900 mb-3">Templates</h4>
+                  {templates.length === 0 ? (
+                    <p className="text-sm text-gray-500">
+                      No templates yet. Use the bookmark action on any plan to save it as a template for your organization.
+                    </p>
+                  ) : (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                      {templates.map((template) => (
+                        <div
+                          key={template.id}
+                          className="relative p-4 border border-gray-200 hover:border-blue-300 hover:bg-blue-50 rounded-lg transition-colors"
+                        >
+                          <button onClick={() => handleUseTemplate(template)} className="w-full text-left">
+                            <div className="flex items-center gap-2 mb-2">
+                              {getTypeIcon(template.type)}
+                              <span className="font-medium text-gray-900">{template.name}</span>
+                              <span className={`px-2 py-1 text-xs rounded-full ${getDifficultyColor(template.difficulty)}`}>
+                                {template.difficulty}
+                              </span>
+                            </div>
+                            <p className="text-gray-600 text-sm mb-2">{template.description}</p>
+                            <div className="flex flex-wrap gap-1">
+                              {template.tags.map((tag, index) => (
+                                <span key={index} className="px-2 py-1 bg-gray-100 text-gray-600 text-xs rounded">
+                                  {tag}
+                                </span>
+                              ))}
+                              <span className="px-2 py-1 bg-gray-100 text-gray-600 text-xs rounded">
+                                {template.exercises.length} exercises
+                              </span>
+                            </div>
+                          </button>
+                          <button
+                            onClick={() => handleDeleteTemplate(template.id)}
+                            className="absolute top-2 right-2 p-1 hover:bg-red-100 rounded"
+                            title="Delete template"
+                          >
+                            <Trash2 size={12} className="text-red-400" />
+                          </button>
                         </div>
-                      </button>
-                    ))}
-                  </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -756,11 +609,8 @@ export const WorkoutPlansTab: React.FC<WorkoutPlansTabProps> = ({ clientId }) =>
                   <label className="block text-sm font-medium text-gray-700 mb-2">Plan Name</label>
                   <input
                     type="text"
-                    value={editingPlan?.name || newPlan.name}
-                    onChange={(e) => editingPlan 
-                      ? setEditingPlan({ ...editingPlan, name: e.target.value })
-                      : setNewPlan({ ...newPlan, name: e.target.value })
-                    }
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                     placeholder="e.g., Upper Body Strength"
                   />
@@ -769,11 +619,8 @@ export const WorkoutPlansTab: React.FC<WorkoutPlansTabProps> = ({ clientId }) =>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">Type</label>
                   <select
-                    value={editingPlan?.type || newPlan.type}
-                    onChange={(e) => editingPlan
-                      ? setEditingPlan({ ...editingPlan, type: e.target.value as WorkoutPlan['type'] })
-                      : setNewPlan({ ...newPlan, type: e.target.value as WorkoutPlan['type'] })
-                    }
+                    value={form.type}
+                    onChange={(e) => setForm({ ...form, type: e.target.value as WorkoutPlan['type'] })}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                   >
                     <option value="strength">Strength</option>
@@ -786,11 +633,8 @@ export const WorkoutPlansTab: React.FC<WorkoutPlansTabProps> = ({ clientId }) =>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">Difficulty</label>
                   <select
-                    value={editingPlan?.difficulty || newPlan.difficulty}
-                    onChange={(e) => editingPlan
-                      ? setEditingPlan({ ...editingPlan, difficulty: e.target.value as WorkoutPlan['difficulty'] })
-                      : setNewPlan({ ...newPlan, difficulty: e.target.value as WorkoutPlan['difficulty'] })
-                    }
+                    value={form.difficulty}
+                    onChange={(e) => setForm({ ...form, difficulty: e.target.value as WorkoutPlan['difficulty'] })}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                   >
                     <option value="beginner">Beginner</option>
@@ -803,11 +647,8 @@ export const WorkoutPlansTab: React.FC<WorkoutPlansTabProps> = ({ clientId }) =>
                   <label className="block text-sm font-medium text-gray-700 mb-2">Estimated Duration (minutes)</label>
                   <input
                     type="number"
-                    value={editingPlan?.estimatedDuration || newPlan.estimatedDuration}
-                    onChange={(e) => editingPlan
-                      ? setEditingPlan({ ...editingPlan, estimatedDuration: parseInt(e.target.value) })
-                      : setNewPlan({ ...newPlan, estimatedDuration: parseInt(e.target.value) })
-                    }
+                    value={form.estimated_duration_min}
+                    onChange={(e) => setForm({ ...form, estimated_duration_min: parseInt(e.target.value) || 0 })}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                     min="15"
                     max="180"
@@ -818,11 +659,8 @@ export const WorkoutPlansTab: React.FC<WorkoutPlansTabProps> = ({ clientId }) =>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
                 <textarea
-                  value={editingPlan?.description || newPlan.description}
-                  onChange={(e) => editingPlan
-                    ? setEditingPlan({ ...editingPlan, description: e.target.value })
-                    : setNewPlan({ ...newPlan, description: e.target.value })
-                  }
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
                   rows={3}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
                   placeholder="Describe the workout plan and its goals..."
@@ -833,23 +671,17 @@ export const WorkoutPlansTab: React.FC<WorkoutPlansTabProps> = ({ clientId }) =>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">Assigned Days</label>
                 <div className="grid grid-cols-7 gap-2">
-                  {['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'].map((day) => (
+                  {WEEK_DAYS.map((day) => (
                     <label key={day} className="flex items-center gap-2 text-sm">
                       <input
                         type="checkbox"
-                        checked={(editingPlan?.assignedDays || newPlan.assignedDays || []).includes(day)}
-                        onChange={(e) => {
-                          const currentDays = editingPlan?.assignedDays || newPlan.assignedDays || [];
-                          const newDays = e.target.checked
-                            ? [...currentDays, day]
-                            : currentDays.filter(d => d !== day);
-                          
-                          if (editingPlan) {
-                            setEditingPlan({ ...editingPlan, assignedDays: newDays });
-                          } else {
-                            setNewPlan({ ...newPlan, assignedDays: newDays });
-                          }
-                        }}
+                        checked={form.assigned_days.includes(day)}
+                        onChange={(e) => setForm({
+                          ...form,
+                          assigned_days: e.target.checked
+                            ? [...form.assigned_days, day]
+                            : form.assigned_days.filter(d => d !== day)
+                        })}
                         className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
                       />
                       <span className="capitalize">{day.slice(0, 3)}</span>
@@ -873,12 +705,7 @@ export const WorkoutPlansTab: React.FC<WorkoutPlansTabProps> = ({ clientId }) =>
                         muscleGroups: [],
                         equipment: []
                       };
-                      
-                      if (editingPlan) {
-                        setEditingPlan({ ...editingPlan, exercises: [...editingPlan.exercises, newExercise] });
-                      } else {
-                        setNewPlan({ ...newPlan, exercises: [...(newPlan.exercises || []), newExercise] });
-                      }
+                      setForm({ ...form, exercises: [...form.exercises, newExercise] });
                     }}
                     className="flex items-center gap-1 px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded text-sm transition-colors"
                   >
@@ -888,96 +715,58 @@ export const WorkoutPlansTab: React.FC<WorkoutPlansTabProps> = ({ clientId }) =>
                 </div>
 
                 <div className="space-y-3 max-h-64 overflow-y-auto">
-                  {(editingPlan?.exercises || newPlan.exercises || []).map((exercise, index) => (
+                  {form.exercises.map((exercise, index) => (
                     <div key={exercise.id} className="p-4 border border-gray-200 rounded-lg">
-                      <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                      <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
                         <input
                           type="text"
                           value={exercise.name}
-                          onChange={(e) => {
-                            const updatedExercises = (editingPlan?.exercises || newPlan.exercises || []).map((ex, i) =>
-                              i === index ? { ...ex, name: e.target.value } : ex
-                            );
-                            
-                            if (editingPlan) {
-                              setEditingPlan({ ...editingPlan, exercises: updatedExercises });
-                            } else {
-                              setNewPlan({ ...newPlan, exercises: updatedExercises });
-                            }
-                          }}
+                          onChange={(e) => updateExercise(index, { name: e.target.value })}
                           placeholder="Exercise name"
                           className="px-3 py-2 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
                         />
-                        
+
                         <input
                           type="number"
                           value={exercise.sets}
-                          onChange={(e) => {
-                            const updatedExercises = (editingPlan?.exercises || newPlan.exercises || []).map((ex, i) =>
-                              i === index ? { ...ex, sets: parseInt(e.target.value) } : ex
-                            );
-                            
-                            if (editingPlan) {
-                              setEditingPlan({ ...editingPlan, exercises: updatedExercises });
-                            } else {
-                              setNewPlan({ ...newPlan, exercises: updatedExercises });
-                            }
-                          }}
+                          onChange={(e) => updateExercise(index, { sets: parseInt(e.target.value) || 0 })}
                           placeholder="Sets"
                           min="1"
                           max="10"
                           className="px-3 py-2 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
                         />
-                        
+
                         <input
                           type="text"
                           value={exercise.reps}
-                          onChange={(e) => {
-                            const updatedExercises = (editingPlan?.exercises || newPlan.exercises || []).map((ex, i) =>
-                              i === index ? { ...ex, reps: e.target.value } : ex
-                            );
-                            
-                            if (editingPlan) {
-                              setEditingPlan({ ...editingPlan, exercises: updatedExercises });
-                            } else {
-                              setNewPlan({ ...newPlan, exercises: updatedExercises });
-                            }
-                          }}
+                          onChange={(e) => updateExercise(index, { reps: e.target.value })}
                           placeholder="Reps (e.g., 8-12)"
                           className="px-3 py-2 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
                         />
-                        
+
+                        <input
+                          type="text"
+                          value={exercise.muscleGroups.join(', ')}
+                          onChange={(e) => updateExercise(index, {
+                            muscleGroups: e.target.value.split(',').map(m => m.trim()).filter(Boolean)
+                          })}
+                          placeholder="Muscles (chest, triceps)"
+                          className="px-3 py-2 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+
                         <div className="flex items-center gap-2">
                           <input
                             type="number"
                             value={exercise.restTime}
-                            onChange={(e) => {
-                              const updatedExercises = (editingPlan?.exercises || newPlan.exercises || []).map((ex, i) =>
-                                i === index ? { ...ex, restTime: parseInt(e.target.value) } : ex
-                              );
-                              
-                              if (editingPlan) {
-                                setEditingPlan({ ...editingPlan, exercises: updatedExercises });
-                              } else {
-                                setNewPlan({ ...newPlan, exercises: updatedExercises });
-                              }
-                            }}
+                            onChange={(e) => updateExercise(index, { restTime: parseInt(e.target.value) || 0 })}
                             placeholder="Rest (sec)"
                             min="30"
                             max="600"
                             className="flex-1 px-3 py-2 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
                           />
-                          
+
                           <button
-                            onClick={() => {
-                              const updatedExercises = (editingPlan?.exercises || newPlan.exercises || []).filter((_, i) => i !== index);
-                              
-                              if (editingPlan) {
-                                setEditingPlan({ ...editingPlan, exercises: updatedExercises });
-                              } else {
-                                setNewPlan({ ...newPlan, exercises: updatedExercises });
-                              }
-                            }}
+                            onClick={() => setForm({ ...form, exercises: form.exercises.filter((_, i) => i !== index) })}
                             className="p-2 hover:bg-red-100 rounded transition-colors"
                           >
                             <Trash2 size={14} className="text-red-400" />
@@ -992,23 +781,17 @@ export const WorkoutPlansTab: React.FC<WorkoutPlansTabProps> = ({ clientId }) =>
 
             <div className="p-6 border-t border-gray-200 flex items-center justify-end gap-3">
               <button
-                onClick={() => {
-                  setShowCreateModal(false);
-                  setEditingPlan(null);
-                }}
+                onClick={closeModal}
                 className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
               >
                 Cancel
               </button>
               <button
-                onClick={() => editingPlan 
-                  ? handleUpdatePlan(editingPlan)
-                  : handleCreatePlan()
-                }
-                disabled={!(editingPlan?.name || newPlan.name) || !(editingPlan?.exercises?.length || newPlan.exercises?.length)}
+                onClick={handleSavePlan}
+                disabled={saving || !form.name.trim() || !form.exercises.length}
                 className="px-6 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
               >
-                {editingPlan ? 'Update' : 'Create'} Plan
+                {saving ? 'Saving...' : `${editingId ? 'Update' : 'Create'} Plan`}
               </button>
             </div>
           </div>
@@ -1039,7 +822,7 @@ export const WorkoutPlansTab: React.FC<WorkoutPlansTabProps> = ({ clientId }) =>
               {/* Plan Info */}
               <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
                 <div className="text-center">
-                  <div className="text-2xl font-bold text-gray-900">{formatDuration(selectedPlan.estimatedDuration)}</div>
+                  <div className="text-2xl font-bold text-gray-900">{formatDuration(selectedPlan.estimated_duration_min)}</div>
                   <div className="text-sm text-gray-600">Duration</div>
                 </div>
                 <div className="text-center">
@@ -1047,14 +830,12 @@ export const WorkoutPlansTab: React.FC<WorkoutPlansTabProps> = ({ clientId }) =>
                   <div className="text-sm text-gray-600">Exercises</div>
                 </div>
                 <div className="text-center">
-                  <div className="text-2xl font-bold text-gray-900">{selectedPlan.progressTracking.totalSessions}</div>
+                  <div className="text-2xl font-bold text-gray-900">{sessionsFor(selectedPlan.id)}</div>
                   <div className="text-sm text-gray-600">Sessions</div>
                 </div>
                 <div className="text-center">
-                  <div className={`text-2xl font-bold ${getCompletionRateColor(selectedPlan.completionRate)}`}>
-                    {selectedPlan.completionRate || 0}%
-                  </div>
-                  <div className="text-sm text-gray-600">Completion</div>
+                  <div className="text-2xl font-bold text-gray-900">v{selectedPlan.version}</div>
+                  <div className="text-sm text-gray-600">Version</div>
                 </div>
               </div>
 
@@ -1062,7 +843,7 @@ export const WorkoutPlansTab: React.FC<WorkoutPlansTabProps> = ({ clientId }) =>
               <div>
                 <h4 className="font-medium text-gray-900 mb-4">Exercises</h4>
                 <div className="space-y-3">
-                  {selectedPlan.exercises.map((exercise, index) => (
+                  {selectedPlan.exercises.map((exercise) => (
                     <div key={exercise.id} className="p-4 bg-gray-50 rounded-lg">
                       <div className="flex items-center justify-between mb-2">
                         <h5 className="font-medium text-gray-900">{exercise.name}</h5>
@@ -1070,7 +851,7 @@ export const WorkoutPlansTab: React.FC<WorkoutPlansTabProps> = ({ clientId }) =>
                           {exercise.sets} × {exercise.reps}
                         </span>
                       </div>
-                      
+
                       <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm text-gray-600">
                         {exercise.weight && (
                           <div>
@@ -1091,7 +872,7 @@ export const WorkoutPlansTab: React.FC<WorkoutPlansTabProps> = ({ clientId }) =>
                           </div>
                         )}
                       </div>
-                      
+
                       {exercise.notes && (
                         <div className="mt-2 text-sm text-gray-600">
                           <span className="font-medium">Notes:</span> {exercise.notes}
@@ -1101,37 +882,31 @@ export const WorkoutPlansTab: React.FC<WorkoutPlansTabProps> = ({ clientId }) =>
                   ))}
                 </div>
               </div>
+
+              {/* Version History */}
+              {versions.length > 0 && (
+                <div className="mt-6">
+                  <h4 className="flex items-center gap-2 font-medium text-gray-900 mb-3">
+                    <History size={16} />
+                    Previous Versions
+                  </h4>
+                  <ul className="space-y-2 text-sm text-gray-600">
+                    {versions.map(v => (
+                      <li key={v.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                        <span>
+                          <span className="font-medium text-gray-900">v{v.version}</span> · {v.snapshot.name} · {v.snapshot.exercises.length} exercises
+                          {v.snapshot.assigned_days.length > 0 && ` · ${v.snapshot.assigned_days.map(d => d.slice(0, 3)).join(', ')}`}
+                        </span>
+                        <span className="text-xs text-gray-500">replaced {new Date(v.created_at).toLocaleDateString()}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
           </div>
         </>
       )}
-
-      {/* TODO Comments */}
-      <div className="bg-green-50 p-4 rounded-lg border border-green-200">
-        <h4 className="font-medium text-green-900 mb-3">Workout Plans Integration TODOs</h4>
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-green-800">
-          <div>
-            <h5 className="font-medium mb-2">Backend Requirements:</h5>
-            <ul className="space-y-1 text-xs">
-              <li>• Workout plan CRUD operations</li>
-              <li>• Exercise database integration</li>
-              <li>• Progress tracking and analytics</li>
-              <li>• Plan scheduling and assignment</li>
-              <li>• Performance metrics calculation</li>
-            </ul>
-          </div>
-          <div>
-            <h5 className="font-medium mb-2">Features to Implement:</h5>
-            <ul className="space-y-1 text-xs">
-              <li>• Drag-and-drop exercise ordering</li>
-              <li>• Exercise video/image integration</li>
-              <li>• Progressive overload suggestions</li>
-              <li>• Plan sharing and templates</li>
-              <li>• Real-time workout tracking</li>
-            </ul>
-          </div>
-        </div>
-      </div>
     </div>
   );
-};
\ No newline at end of file
+};
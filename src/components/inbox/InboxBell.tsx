@@ -2,6 +2,8 @@ import { useState, useEffect } from 'react';
 import { Bell } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
 import { InboxPanel } from './InboxPanel';
+import { listComplianceEvents } from '../../lib/mentorPlans';
+import type { ComplianceEvent } from '../../types/food';
 
 export function InboxBell() {
   const [unreadCount, setUnreadCount] = useState(0);
@@ -18,10 +20,13 @@ export function InboxBell() {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
-      const { data: announcements } = await supabase
-        .from('announcements')
-        .select('id')
-        .in('audience', ['all', 'beta', 'admin']);
+      const [{ data: announcements }, unreadEvents] = await Promise.all([
+        supabase
+          .from('announcements')
+          .select('id')
+          .in('audience', ['all', 'beta', 'admin']),
+        listComplianceEvents(user.id, { unreadOnly: true }).catch(() => [] as ComplianceEvent[])
+      ]);
 
       if (!announcements) return;
 
@@ -36,7 +41,7 @@ export function InboxBell() {
       const readIds = new Set(reads?.map(r => r.announcement_id) || []);
       const unread = announcementIds.filter(id => !readIds.has(id));
 
-      setUnreadCount(unread.length);
+      setUnreadCount(unread.length + unreadEvents.length);
     } catch (err) {
       console.error('Failed to load unread count:', err);
     }
@@ -1,13 +1,16 @@
 import { useState, useEffect } from 'react';
 import { X, AlertCircle, Info, CheckCircle } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
+import { COMPLIANCE_EVENT_TITLES, listComplianceEvents, markComplianceEventsRead } from '../../lib/mentorPlans';
+import type { ComplianceEvent } from '../../types/food';
 
-interface Announcement {
+/** Announcements and mentor plan compliance events, shown in one feed */
+interface InboxItem {
   id: string;
+  kind: 'announcement' | 'compliance';
   title: string;
   message: string;
   severity: 'info' | 'warning' | 'success';
-  audience: 'all' | 'beta' | 'admin';
   created_at: string;
   is_read: boolean;
 }
@@ -17,7 +20,7 @@ interface InboxPanelProps {
 }
 
 export function InboxPanel({ onClose }: InboxPanelProps) {
-  const [announcements, setAnnouncements] = useState<Announcement[]>([]);
+  const [announcements, setAnnouncements] = useState<InboxItem[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -29,28 +32,49 @@ export function InboxPanel({ onClose }: InboxPanelProps) {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
-      const { data: announcementsData } = await supabase
-        .from('announcements')
-        .select('*')
-        .in('audience', ['all', 'beta', 'admin'])
-        .order('created_at', { ascending: false })
-        .limit(20);
-
-      if (!announcementsData) return;
+      const eventsPromise = listComplianceEvents(user.id).catch((err): ComplianceEvent[] => {
+        console.error('Failed to load compliance events:', err);
+        return [];
+      });
 
-      const { data: reads } = await supabase
-        .from('announcement_reads')
-        .select('announcement_id')
-        .eq('user_id', user.id);
+      const [{ data: announcementsData }, { data: reads }] = await Promise.all([
+        supabase
+          .from('announcements')
+          .select('*')
+          .in('audience', ['all', 'beta', 'admin'])
+          .order('created_at', { ascending: false })
+          .limit(20),
+        supabase
+          .from('announcement_reads')
+          .select('announcement_id')
+          .eq('user_id', user.id)
+      ]);
+      const events = await eventsPromise;
 
       const readIds = new Set(reads?.map(r => r.announcement_id) || []);
 
-      setAnnouncements(
-        announcementsData.map(a => ({
-          ...a,
+      const items: InboxItem[] = [
+        ...(announcementsData ?? []).map(a => ({
+          id: a.id,
+          kind: 'announcement' as const,
+          title: a.title,
+          message: a.message,
+          severity: a.severity,
+          created_at: a.created_at,
           is_read: readIds.has(a.id)
+        })),
+        ...events.map(e => ({
+          id: e.id,
+          kind: 'compliance' as const,
+          title: COMPLIANCE_EVENT_TITLES[e.event_type],
+          message: e.message,
+          severity: e.severity,
+          created_at: e.created_at,
+          is_read: !!e.read_at
         }))
-      );
+      ];
+
+      setAnnouncements(items.sort((a, b) => b.created_at.localeCompare(a.created_at)));
     } catch (err) {
       console.error('Failed to load announcements:', err);
     } finally {
@@ -58,18 +82,22 @@ export function InboxPanel({ onClose }: InboxPanelProps) {
     }
   }
 
-  async function markAsRead(announcementId: string) {
+  async function markAsRead(item: InboxItem) {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
-
-      await supabase.from('announcement_reads').insert({
-        user_id: user.id,
-        announcement_id: announcementId
-      });
+      if (item.kind === 'compliance') {
+        await markComplianceEventsRead([item.id]);
+      } else {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) return;
+
+        await supabase.from('announcement_reads').insert({
+          user_id: user.id,
+          announcement_id: item.id
+        });
+      }
 
       setAnnouncements(prev =>
-        prev.map(a => a.id === announcementId ? { ...a, is_read: true } : a)
+        prev.map(a => a.id === item.id ? { ...a, is_read: true } : a)
       );
     } catch (err) {
       console.error('Failed to mark as read:', err);
@@ -124,7 +152,7 @@ export function InboxPanel({ onClose }: InboxPanelProps) {
 
           {!loading && announcements.map(announcement => (
             <div
-              key={announcement.id}
+              key={`${announcement.kind}:${announcement.id}`}
               className={`mb-3 p-4 rounded-lg border ${getSeverityBg(announcement.severity)} ${
                 !announcement.is_read ? 'opacity-100' : 'opacity-60'
               }`}
@@ -149,7 +177,7 @@ export function InboxPanel({ onClose }: InboxPanelProps) {
                     </span>
                     {!announcement.is_read && (
                       <button
-                        onClick={() => markAsRead(announcement.id)}
+                        onClick={() => markAsRead(announcement)}
                         className="text-xs text-blue-600 hover:underline"
                       >
                         Mark as read
@@ -0,0 +1,217 @@
+import React, { useEffect, useState } from 'react';
+import { Brain, Check, Download, Pencil, Pin, ShieldAlert, Trash2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { getSupabase } from '../../lib/supabase';
+import { MemoryService } from '../../lib/memory';
+import { buildMemoryExport, correctMemory, downloadJson, groupMemories, TIER_LABELS, TOPIC_LABELS } from '../../lib/memoryReview';
+import { memoryText } from '../../core/memory/longTermMemory';
+import type { MemoryRow } from '../../types/swarm';
+
+const SOURCE_STYLES: Record<MemoryRow['source'], string> = {
+  explicit: 'bg-green-500/20 text-green-300',
+  inferred: 'bg-yellow-500/20 text-yellow-300',
+  system: 'bg-gray-700 text-gray-300'
+};
+
+const isLive = (m: MemoryRow) => !m.ttl || new Date(m.ttl).getTime() > Date.now();
+
+export const MemoryTab: React.FC = () => {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [memories, setMemories] = useState<MemoryRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const loadMemories = async (id: string) => {
+    const rows = await MemoryService.exportForUser(id);
+    setMemories(rows.filter(isLive));
+  };
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const { data: { user } } = await getSupabase().auth.getUser();
+        if (!user) return;
+        setUserId(user.id);
+        await loadMemories(user.id);
+      } finally {
+        setIsLoading(false);
+      }
+    })();
+  }, []);
+
+  const run = async (action: () => Promise<boolean | number | null>, success: string, failure: string) => {
+    if (!userId) return;
+    setBusy(true);
+    try {
+      const result = await action();
+      if (result === false || result === null) throw new Error(failure);
+      toast.success(success);
+      await loadMemories(userId);
+    } catch {
+      toast.error(failure);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const saveEdit = async (memory: MemoryRow) => {
+    const text = draft.trim();
+    if (!text) return;
+    await run(() => correctMemory(memory, text), 'Memory updated', 'Failed to update memory');
+    setEditingId(null);
+  };
+
+  const remove = (memory: MemoryRow) => {
+    if (!window.confirm(`Forget "${memoryText(memory)}"?`)) return;
+    run(() => MemoryService.delete(memory.id), 'Forgotten', 'Failed to delete memory');
+  };
+
+  const purgePii = () => {
+    if (!window.confirm('Delete all sensitive memories (health, injuries, allergies)?')) return;
+    run(() => MemoryService.forget(true), 'Sensitive memories deleted', 'Failed to delete sensitive memories');
+  };
+
+  const forgetAll = () => {
+    if (!window.confirm('Delete everything Pat remembers about you? This cannot be undone.')) return;
+    run(() => MemoryService.forget(false), 'Pat has forgotten everything', 'Failed to delete memories');
+  };
+
+  const exportAll = async () => {
+    if (!userId) return;
+    const rows = await MemoryService.exportForUser(userId);
+    downloadJson(`pat-memory-${new Date().toISOString().slice(0, 10)}.json`, buildMemoryExport(rows));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  const piiCount = memories.filter(m => m.is_pii).length;
+  const groups = groupMemories(memories);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gray-900 rounded-2xl p-6 border border-gray-800">
+        <div className="flex items-start justify-between gap-4 flex-wrap">
+          <div>
+            <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+              <Brain size={20} />
+              What Pat Remembers
+            </h3>
+            <p className="text-sm text-gray-400 mt-1">
+              Facts Pat picked up from your chats. Correct anything that's wrong; corrections always win.
+            </p>
+          </div>
+          <div className="flex gap-2 flex-wrap">
+            <button
+              onClick={exportAll}
+              className="flex items-center gap-2 px-3 py-2 bg-gray-800 hover:bg-gray-700 text-gray-200 rounded-lg text-sm transition-colors"
+            >
+              <Download size={16} />
+              Download JSON
+            </button>
+            <button
+              onClick={purgePii}
+              disabled={busy || piiCount === 0}
+              className="flex items-center gap-2 px-3 py-2 bg-orange-600/20 hover:bg-orange-600/30 text-orange-300 rounded-lg text-sm transition-colors disabled:opacity-50"
+            >
+              <ShieldAlert size={16} />
+              Delete sensitive ({piiCount})
+            </button>
+            <button
+              onClick={forgetAll}
+              disabled={busy}
+              className="flex items-center gap-2 px-3 py-2 bg-red-600/20 hover:bg-red-600/30 text-red-300 rounded-lg text-sm transition-colors disabled:opacity-50"
+            >
+              <Trash2 size={16} />
+              Forget everything
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {groups.length === 0 ? (
+        <div className="bg-gray-900 rounded-2xl p-6 border border-gray-800 text-center text-gray-400">
+          Pat doesn't remember anything about you yet.
+        </div>
+      ) : (
+        groups.map(group => (
+          <div key={group.topic} className="bg-gray-900 rounded-2xl p-6 border border-gray-800">
+            <h4 className="text-white font-semibold mb-4">{TOPIC_LABELS[group.topic]}</h4>
+            <div className="space-y-4">
+              {group.tiers.map(({ tier, memories: rows }) => (
+                <div key={tier}>
+                  <div className="text-xs uppercase tracking-wide text-gray-500 mb-2">{TIER_LABELS[tier]}</div>
+                  <div className="space-y-2">
+                    {rows.map(memory => (
+                      <div key={memory.id} className="flex items-center gap-3 p-3 bg-gray-800 rounded-lg">
+                        <div className="flex-1 min-w-0">
+                          {editingId === memory.id ? (
+                            <input
+                              value={draft}
+                              onChange={e => setDraft(e.target.value)}
+                              onKeyDown={e => e.key === 'Enter' && saveEdit(memory)}
+                              autoFocus
+                              className="w-full px-2 py-1 bg-gray-900 border border-gray-700 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                          ) : (
+                            <div className="text-sm text-white">{memoryText(memory)}</div>
+                          )}
+                          <div className="flex items-center gap-2 mt-1 text-xs text-gray-400">
+                            <span className={`px-1.5 py-0.5 rounded ${SOURCE_STYLES[memory.source]}`}>{memory.source}</span>
+                            <span>{Math.round(memory.confidence * 100)}% sure</span>
+                            {memory.is_pii && <span className="text-orange-300">sensitive</span>}
+                            {memory.ttl && <span>until {new Date(memory.ttl).toLocaleDateString()}</span>}
+                          </div>
+                        </div>
+                        {editingId === memory.id ? (
+                          <>
+                            <button onClick={() => saveEdit(memory)} disabled={busy} className="p-2 text-green-400 hover:bg-gray-700 rounded" title="Save">
+                              <Check size={16} />
+                            </button>
+                            <button onClick={() => setEditingId(null)} className="p-2 text-gray-400 hover:bg-gray-700 rounded" title="Cancel">
+                              <X size={16} />
+                            </button>
+                          </>
+                        ) : (
+                          <>
+                            <button
+                              onClick={() => { setEditingId(memory.id); setDraft(memoryText(memory)); }}
+                              className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded"
+                              title="Edit"
+                            >
+                              <Pencil size={16} />
+                            </button>
+                            {memory.tier !== 'long_term' && (
+                              <button
+                                onClick={() => run(() => MemoryService.promoteToLongTerm(memory.id), 'Pinned to long-term', 'Failed to pin memory')}
+                                disabled={busy}
+                                className="p-2 text-gray-400 hover:text-blue-300 hover:bg-gray-700 rounded"
+                                title="Keep long-term"
+                              >
+                                <Pin size={16} />
+                              </button>
+                            )}
+                            <button onClick={() => remove(memory)} disabled={busy} className="p-2 text-gray-400 hover:text-red-400 hover:bg-gray-700 rounded" title="Delete">
+                              <Trash2 size={16} />
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
@@ -7,7 +7,7 @@ import { computeTEF } from "../../agents/tmwya/tef";
 
 type Props = {
   view: {
-    rows: Array<{ name:string; quantity:number|null; unit:string|null; calories:number; protein_g:number; carbs_g:number; fat_g:number; fiber_g:number; editable:boolean }>;
+    rows: Array<{ name:string; quantity:number|null; unit:string|null; calories:number; protein_g:number; carbs_g:number; fat_g:number; fiber_g:number; editable:boolean; grams?:number|null; portion_note?:string|null; portion_confidence?:number|null }>;
     totals: MealTotals;
     tef: { kcal:number };
     tdee: { target_kcal:number; remaining_kcal:number; remaining_percentage:number };
@@ -15,6 +15,10 @@ type Props = {
     eaten_at: string|null;
     actions: Array<"CONFIRM_LOG"|"EDIT_ITEMS"|"CANCEL">;
     warnings?: Array<{ type:"low_confidence"|"missing_portion"; item?:string; message:string }>;
+    dietary?: {
+      annotations: Array<{ field:string; message:string; severity:"info"|"warning"|"error" }>;
+      substitutions: Array<{ original:string; suggested:string; reason:string }>;
+    } | null;
   };
   items: MacroItem[];
   totals: MealTotals;
@@ -123,6 +127,26 @@ export default function MealVerifyCard({ view, liveDashboard, onConfirm, onCance
         </div>
       ) : null}
 
+      {view.dietary?.annotations.length ? (
+        <div className="mb-3 rounded-lg border border-neutral-700 bg-neutral-800/40 p-2 text-sm space-y-1">
+          {view.dietary.annotations.map((a, i) => (
+            <div
+              key={i}
+              className={a.severity === "error" ? "text-red-300" : a.severity === "warning" ? "text-yellow-200" : "text-neutral-400"}
+            >
+              {a.severity === "error" ? "⛔" : a.severity === "warning" ? "⚠️" : "ℹ️"} {a.message}
+            </div>
+          ))}
+          {view.dietary.substitutions.length ? (
+            <div className="pt-1 border-t border-neutral-700 text-neutral-300">
+              {view.dietary.substitutions.map((s, i) => (
+                <div key={i}>↳ Instead of {s.original}: {s.suggested} <span className="text-neutral-500">({s.reason})</span></div>
+              ))}
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+
       <div className="rounded-xl overflow-hidden border border-neutral-800">
         <table className="w-full text-sm">
           <thead className="bg-neutral-800/60">
@@ -140,7 +164,17 @@ export default function MealVerifyCard({ view, liveDashboard, onConfirm, onCance
           <tbody>
             {view.rows.map((r, i) => (
               <tr key={i} className="odd:bg-neutral-900/30">
-                <td className="px-3 py-2">{r.name}</td>
+                <td className="px-3 py-2">
+                  <div>{r.name}</div>
+                  {r.portion_note && (
+                    <div
+                      className={`text-xs ${(r.portion_confidence ?? 0) >= 0.7 ? 'text-neutral-500' : 'text-yellow-400/80'}`}
+                      title={`Portion confidence: ${Math.round((r.portion_confidence ?? 0) * 100)}%`}
+                    >
+                      {r.grams != null ? `≈${r.grams} g · ` : ''}{r.portion_note}
+                    </div>
+                  )}
+                </td>
                 <td className="px-3 py-2 text-right">{r.quantity ?? "—"}</td>
                 <td className="px-3 py-2 text-right">{r.unit ?? "—"}</td>
                 <td className="px-3 py-2 text-right">{r.calories}</td>
@@ -197,7 +231,7 @@ export default function MealVerifyCard({ view, liveDashboard, onConfirm, onCance
               const tef = computeTEF(estimate.totals);
               
               // Update rows with recomputed macros
-              const updatedRows = estimate.items.map((i: any) => ({
+              const updatedRows = estimate.items.map((i: any, idx: number) => ({
                 name: i.name,
                 quantity: i.quantity ?? null,
                 unit: i.unit ?? null,
@@ -206,6 +240,9 @@ export default function MealVerifyCard({ view, liveDashboard, onConfirm, onCance
                 carbs_g: i.carbs_g ?? 0,
                 fat_g: i.fat_g ?? 0,
                 fiber_g: i.fiber_g ?? 0,
+                grams: portioned[idx]?.grams != null ? Math.round(portioned[idx].grams as number) : null,
+                portion_note: portioned[idx]?.portion?.explanation ?? null,
+                portion_confidence: portioned[idx]?.portion?.confidence ?? null,
                 editable: true
               }));
               
@@ -290,6 +327,11 @@ function EditMealSheet({ initialRows, onApply, onClose }: {
                       <option value="tsp">tsp</option>
                       <option value="ml">ml</option>
                       <option value="slice">slice</option>
+                      <option value="fl oz">fl oz</option>
+                      <option value="handful">handful</option>
+                      <option value="small">small</option>
+                      <option value="medium">medium</option>
+                      <option value="large">large</option>
                     </select>
                   </td>
                 </tr>
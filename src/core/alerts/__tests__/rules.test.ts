@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateAlertRules, mergeAlertConfig, DEFAULT_ALERT_CONFIG, type AlertConfig, type AlertHistory, type RecentAlert } from '../rules';
+
+const NOW = new Date(2025, 10, 20, 9, 0);
+
+/** YYYY-MM-DD for n days before NOW */
+const ago = (n: number) => {
+  const d = new Date(NOW);
+  d.setDate(d.getDate() - n);
+  const pad = (v: number) => String(v).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+const empty = (): AlertHistory => ({ sleep: [], workouts: [], days: [], weights: [] });
+
+const nights = (minutes: number[], bedtimes?: string[]) =>
+  minutes.map((duration_minutes, i) => ({ sleep_date: ago(i), duration_minutes, bedtime: bedtimes ? bedtimes[i] : '23:00' }));
+
+const types = (history: AlertHistory, config?: AlertConfig, recent?: RecentAlert[]) =>
+  evaluateAlertRules(history, NOW, config, recent).map(a => [a.type, a.severity]);
+
+describe('evaluateAlertRules', () => {
+  it('raises nothing for a steady history', () => {
+    const history = empty();
+    history.sleep = nights([480, 470, 490, 480, 460, 480, 475]);
+    history.workouts = [0, 2, 4, 7, 9, 11, 14, 16, 18, 21, 23, 25, 28, 30].map(n => ({
+      workout_date: ago(n), duration_minutes: 45, workout_type: 'resistance', volume_lbs: 10000, avg_rpe: 7
+    }));
+    history.weights = [{ log_date: ago(1), weight_lbs: 180 }];
+    expect(types(history)).toEqual([]);
+  });
+
+  it('grades sleep debt and flags irregular bedtimes', () => {
+    const history = empty();
+    history.sleep = nights([360, 380, 400, 390, 420, 370, 400], ['22:30', '01:30', '23:00', '02:00', '22:00', '00:45', '21:30']);
+    expect(types(history)).toEqual([['sleep_debt', 'critical'], ['circadian_drift', 'warning']]);
+
+    history.sleep = nights([420, 420, 420, 400, 420, 420, 420]);
+    expect(types(history)).toEqual([['sleep_debt', 'warning']]);
+  });
+
+  it('flags fatigue and overreaching from a training spike', () => {
+    const history = empty();
+    history.sleep = nights([360, 370, 380]);
+    history.workouts = [
+      ...[0, 1, 2, 3, 4].map(n => ({ workout_date: ago(n), duration_minutes: 75, workout_type: 'resistance', volume_lbs: 9000, avg_rpe: 9 })),
+      ...[8, 12, 16, 20, 24, 28].map(n => ({ workout_date: ago(n), duration_minutes: 50, workout_type: 'resistance', volume_lbs: 9500, avg_rpe: 7 }))
+    ];
+    const alerts = evaluateAlertRules(history, NOW);
+    expect(alerts.map(a => [a.type, a.severity])).toEqual([
+      ['sleep_debt', 'warning'],
+      ['fatigue_flag', 'warning'],
+      ['overreaching', 'critical']
+    ]);
+    expect(alerts[2].data.ratio).toBeGreaterThan(1.8);
+  });
+
+  it('escalates short protein when weight is falling fast', () => {
+    const history = empty();
+    history.days = [1, 2, 3].map(n => ({ date: ago(n), totals: { protein_g: 90 }, targets: { protein_g: 160 } }));
+    history.weights = [{ log_date: ago(1), weight_lbs: 180 }, { log_date: ago(8), weight_lbs: 184 }];
+    expect(types(history)).toEqual([['protein_insufficient', 'critical']]);
+
+    history.weights = [{ log_date: ago(1), weight_lbs: 180 }];
+    const [alert] = evaluateAlertRules(history, NOW);
+    expect(alert).toMatchObject({ type: 'protein_insufficient', severity: 'warning', data: { avg_pct: 56 } });
+  });
+
+  it('celebrates volume PRs and nudges after a gap', () => {
+    const history = empty();
+    history.workouts = [
+      { workout_date: ago(0), duration_minutes: 60, workout_type: 'resistance', volume_lbs: 12500, avg_rpe: null },
+      ...[3, 6, 9].map(n => ({ workout_date: ago(n), duration_minutes: 60, workout_type: 'resistance', volume_lbs: 11000, avg_rpe: null }))
+    ];
+    history.weights = [{ log_date: ago(2), weight_lbs: 180 }];
+    expect(types(history)).toEqual([['pr_achieved', 'info']]);
+
+    history.workouts = history.workouts.slice(1);
+    history.weights = [{ log_date: ago(10), weight_lbs: 180 }];
+    const [nudge] = evaluateAlertRules(history, NOW);
+    expect(nudge).toMatchObject({ type: 'consistency_nudge', dedupe_key: `consistency_nudge:weigh_in:${ago(10)}` });
+  });
+
+  it('respects cooldowns and config overrides', () => {
+    const history = empty();
+    history.sleep = nights([420, 420, 420, 400, 420, 420, 420]);
+
+    const recent = [{ type: 'sleep_debt' as const, created_at: new Date(2025, 10, 18, 9, 0).toISOString() }];
+    expect(types(history, DEFAULT_ALERT_CONFIG, recent)).toEqual([]);
+    expect(types(history, mergeAlertConfig({ sleep_debt: { cooldown_days: 1 } }), recent)).toEqual([['sleep_debt', 'warning']]);
+    expect(types(history, mergeAlertConfig({ sleep_debt: { target_minutes: 420 } }))).toEqual([]);
+    expect(mergeAlertConfig({ sleep_debt: { target_minutes: 420 } }).sleep_debt.window_days).toBe(7);
+  });
+
+  it('judges windows against the user local date the caller passes', () => {
+    const history = empty();
+    history.workouts = [{ workout_date: ago(1), duration_minutes: 60, workout_type: 'resistance', volume_lbs: null, avg_rpe: null }];
+    history.weights = [{ log_date: ago(1), weight_lbs: 180 }];
+    expect(evaluateAlertRules(history, NOW)).toEqual([]);
+
+    const [nudge] = evaluateAlertRules(history, NOW, DEFAULT_ALERT_CONFIG, [], ago(-4));
+    expect(nudge).toMatchObject({ type: 'consistency_nudge', data: { workout_gap_days: 5 } });
+  });
+});
@@ -0,0 +1,2 @@
+// The rules run in the metric-alerts-evaluate edge function too, so they live in _shared
+export * from '../../../supabase/functions/_shared/alertRules.ts';
@@ -4,7 +4,11 @@
  */
 
 import { detectIntent, shouldTriggerRole, decideAmaChannel } from '../router/intentRouter';
-import { selectModel, estimateCost, getModelDisplayName, type ModelSelection } from '../router/modelRouter';
+import { looksLikeWorkoutLog } from '../router/workoutIntent';
+import { parseWorkout, buildWorkoutVerify, type ParsedExercise, type WorkoutVerifyData } from '../workout/workoutParser';
+import { selectModel, estimateCost, getModelDisplayName, routeWithBudget, type ModelSelection, type RouteTraceStep } from '../router/modelRouter';
+import { recordProviderResult } from '../router/providerHealth';
+import { getBudgetState } from '../../lib/credits';
 import { type UserContext } from '../personality/patSystem';
 import { ensureChatSession } from './sessions';
 import { storeMessage, loadRecentMessages } from './store';
@@ -13,9 +17,17 @@ import { runTMWYAPipeline } from '../../lib/tmwya/pipeline';
 import { loadRoutesOnce, getCachedRoutes } from '../router/routesCache';
 import { decideRoute } from '../router/semanticRouter';
 import { rankTopPreferences, prefsToSystemLine } from '../memory/preferences';
+import { recallMemories, rememberFacts, memoriesToSystemLine } from '../memory/longTermMemory';
+import { parseHistoryQuery } from '../memory/historyQuery';
+import { recordTurnVariant, type PromptVariant } from '../../lib/experiments';
+import type { VariantAssignment } from '../swarm/rollout';
+import { runDirectives, type DirectiveRun } from '../directives/runtime';
 import { TMWYA_TOOL } from '../nutrition/tools';
+import type { VerifyRoleData } from '../nutrition/unifiedPipeline';
 
 const TRIGGER_WORDS = /\b(source|link|links|cite|verify|latest|current|news|today|this week|20\d{2}|19\d{2})\b/i;
+// A workout-report segment that is really a meal ("then ate a steak")
+const FOOD_REPORT = /\b(ate|eaten|had|drank|breakfast|lunch|dinner|snack)\b/i;
 
 /**
  * Strip leading style JSON from assistant responses
@@ -62,28 +74,78 @@ export interface MessageResponse {
   modelUsed: string;
   estimatedCost: number;
   roleData?: any;
+  meals?: VerifyRoleData[]; // One verify card per meal when a message logs several
+  workout?: WorkoutVerifyData; // Workout card shown after the meal cards when one message reported both
   toolCalls?: any;
   rawData?: any;
   blocked?: boolean;
+  modelTrace?: RouteTraceStep[]; // Budget/failover decisions behind modelUsed
+  turnId?: string; // chat_turn_variants row for outcome tracking; set when the turn ran under a versioned swarm/prompt
+}
+
+/** Variant tags collected while a turn runs, recorded once it finishes */
+interface TurnTags {
+  sessionId?: string;
+  messageId?: string;
+  swarmVariant?: VariantAssignment;
+  promptVariants: PromptVariant[];
 }
 
 /**
  * Main entry point for handling user messages
+ * Tags turns that ran on a versioned swarm/prompt with the variants that
+ * produced them so the admin experiment report can compare outcomes per
+ * variant. The tag is written in the background; its cost comes from
+ * llm_usage on the server.
  */
 export async function handleUserMessage(
   message: string,
   context: MessageContext
+): Promise<MessageResponse> {
+  const startedAt = new Date();
+  const tags: TurnTags = { promptVariants: [] };
+  const result = await runTurn(message, context, tags);
+  const latencyMs = Date.now() - startedAt.getTime();
+
+  const swarmVariant = tags.swarmVariant;
+  if (swarmVariant || tags.promptVariants.length) {
+    const turnId = crypto.randomUUID();
+    result.turnId = turnId;
+    recordTurnVariant({
+      id: turnId,
+      swarm_id: 'personality',
+      experiment_key: swarmVariant?.experiment_key ?? null,
+      version_id: swarmVariant?.version_id ?? null,
+      prompt_variants: tags.promptVariants,
+      session_id: tags.sessionId ?? null,
+      message_id: tags.messageId ?? null,
+      intent: result.intent,
+      model: result.modelUsed,
+      started_at: startedAt.toISOString(),
+      latency_ms: latencyMs,
+      has_verify: result.roleData?.type === 'tmwya.verify' || result.roleData?.type === 'workout.verify'
+    }).catch(err => console.warn('[experiments] Failed to tag turn variant:', err));
+  }
+
+  return result;
+}
+
+async function runTurn(
+  message: string,
+  context: MessageContext,
+  tags: TurnTags
 ): Promise<MessageResponse> {
   // Step 0: Ensure chat session exists and load history
   const sessionId = context.sessionId || await ensureChatSession(context.userId);
   console.log('[handleUserMessage] Session ID:', sessionId);
+  tags.sessionId = sessionId;
 
   // Load recent message history if not provided (increased to 20 for better context)
   const messageHistory = context.messageHistory || await loadRecentMessages(sessionId, 20);
   console.log('[handleUserMessage] Message history loaded:', messageHistory.length, 'messages');
 
   // Step 1: Store user message
-  await storeMessage(sessionId, 'user', message);
+  const userMessageId = await storeMessage(sessionId, 'user', message);
 
   // Initialize supabase client
   const { getSupabase } = await import('../../lib/supabase');
@@ -96,16 +158,32 @@ export async function handleUserMessage(
   const prefs = await rankTopPreferences(context.userId, message, supabase, 3);
   const sysPrefs = prefsToSystemLine(prefs);
 
-  // Check for memory queries and inject context from structured data
-  const { detectMemoryQuery, searchMealHistory, buildMemoryContext } = await import('../memory/chatContext');
-  const memoryQuery = detectMemoryQuery(message);
-  let memoryContext = '';
-  
-  if (memoryQuery.isMemoryQuery && memoryQuery.type === 'meal' && memoryQuery.searchTerm) {
-    const results = await searchMealHistory(context.userId, memoryQuery.searchTerm);
-    memoryContext = buildMemoryContext(results);
-    if (memoryContext) {
-      console.info('[memory] Injected context:', memoryContext);
+  // Recall durable facts (injuries, schedule, dislikes...) relevant to this message
+  const memories = await recallMemories(context.userId, message).catch(err => {
+    console.warn('[memory] Recall failed, continuing without memories:', err);
+    return [];
+  });
+  const sysMemories = memoriesToSystemLine(memories);
+
+  // Extract new facts from this turn in the background; never blocks the reply
+  rememberFacts(context.userId, message).catch(err => console.warn('[memory] Fact extraction failed:', err));
+
+  // Questions about the user's own logs are answered from the tables, not guessed by the LLM
+  const historyQuery = parseHistoryQuery(message);
+  if (historyQuery) {
+    const { answerHistoryQuery } = await import('../memory/chatContext');
+    const answer = await answerHistoryQuery(context.userId, historyQuery);
+    if (answer) {
+      console.info('[history] answered', historyQuery.kind, answer.data);
+      tags.messageId = await storeMessage(sessionId, 'assistant', answer.text);
+      return {
+        response: answer.text,
+        intent: 'history_query',
+        intentConfidence: 0.9,
+        modelUsed: 'history-query',
+        estimatedCost: 0,
+        rawData: { query: historyQuery, ...answer.data }
+      };
     }
   }
 
@@ -135,6 +213,78 @@ export async function handleUserMessage(
 
   console.info('[router]', { route: routeDecision.route, sim: routeDecision.sim, hi: routeDecision.hi, mid: routeDecision.mid, why: routeDecision.why, used_web });
 
+  const isWorkoutLog = looksLikeWorkoutLog(message);
+  const mentionsMacros = /\b(macros?|macro|calories|protein|carbs?|fat|nutrition|kcals?)\b/i.test(message);
+  const mealLoggingCue = /\b(i\s+(ate|had|logged)|log\s+(this|my)\s+meal|ate|had)\b/i.test(message);
+  const foodIndicator = /\b(eggs?|egg|steak|ribeye|chicken|oatmeal|salad|burger|fries|sandwich|pizza|rice|smoothie|meal|breakfast|lunch|dinner)\b/i.test(message);
+  const isMealLoggingMessage = mealLoggingCue && foodIndicator;
+  const isNutritionQuery = mentionsMacros || isMealLoggingMessage;
+
+  // Trainer directives are evaluated before the verify-card early returns so
+  // workout and meal turns record their fires too; the LLM path injects them below
+  let directives: DirectiveRun = { block: '', fired: [] };
+  try {
+    const intents = [
+      routeDecision.intent,
+      ...(isNutritionQuery ? ['nutrition'] : []),
+      ...(isMealLoggingMessage ? ['meal_logging'] : []),
+      ...(isWorkoutLog ? ['workout'] : [])
+    ];
+    directives = await runDirectives(context.userId, message, { intents, messageId: userMessageId, sessionId });
+    if (directives.fired.length) console.info('[directives] Fired:', directives.fired.map(m => m.directive.title));
+  } catch (e) {
+    console.warn('[directives] Evaluation failed, continuing without directives:', e);
+  }
+  const directiveData = directives.fired.length ? { directives: directives.fired.map(m => m.directive.title) } : null;
+
+  // Early branch: workout reports parse deterministically into a WorkoutVerifyCard
+  if (isWorkoutLog) {
+    const workoutParse = parseWorkout(message);
+    const workoutVerify = buildWorkoutVerify(workoutParse.exercises);
+    if (workoutVerify) {
+      console.info('[workout] parsed → WorkoutVerifyCard ready', workoutVerify.summary);
+
+      // "walked 30 min then ate a steak": the meal segments get their own verify card
+      const mealText = workoutParse.unparsed.filter(segment => FOOD_REPORT.test(segment)).join(', ');
+      if (mealText) {
+        try {
+          const { processNutrition } = await import('../nutrition/unifiedPipeline');
+          const pipelineResult = await processNutrition({ message: mealText, userId: context.userId, sessionId, showLogButton: true });
+          if (pipelineResult.success && pipelineResult.roleData) {
+            console.info('[tmwya] resolved → MealVerifyCard ready alongside workout', pipelineResult.roleData.view?.totals);
+            return {
+              response: "I've prepared your workout and meal. Please verify.",
+              intent: 'workout',
+              intentConfidence: 0.9,
+              modelUsed: 'workout-parser',
+              estimatedCost: 0,
+              roleData: pipelineResult.roleData,
+              meals: pipelineResult.meals,
+              workout: workoutVerify,
+              toolCalls: null,
+              rawData: directiveData
+            };
+          }
+        } catch (error) {
+          console.error('[handleUserMessage] TMWYA pipeline failed for the meal in a workout report:', error);
+        }
+      }
+
+      return {
+        response: mealText
+          ? "I've prepared your workout. Please verify. I couldn't size the meal, so send it again on its own."
+          : "I've prepared your workout. Please verify.",
+        intent: 'workout',
+        intentConfidence: 0.9,
+        modelUsed: 'workout-parser',
+        estimatedCost: 0,
+        roleData: workoutVerify,
+        toolCalls: null,
+        rawData: directiveData
+      };
+    }
+  }
+
   // Early branch: Route to TMWYA pipeline for meal logging
   if (routeDecision.route === 'TMWYA') {
     try {
@@ -159,8 +309,9 @@ export async function handleUserMessage(
           modelUsed: 'tmwya-pipeline',
           estimatedCost: 0,
           roleData: pipelineResult.roleData, // Full structure: view, items, totals, tef, tdee
+          meals: pipelineResult.meals,
           toolCalls: null,
-          rawData: null
+          rawData: directiveData
         };
         
         console.info("[roledata]", {
@@ -184,12 +335,6 @@ export async function handleUserMessage(
   }
 
   // AMA nutrition for macro queries (when route is AMA but query is about nutrition)
-  const mentionsMacros = /\b(macros?|macro|calories|protein|carbs?|fat|nutrition|kcals?)\b/i.test(message);
-  const mealLoggingCue = /\b(i\s+(ate|had|logged)|log\s+(this|my)\s+meal|ate|had)\b/i.test(message);
-  const foodIndicator = /\b(eggs?|egg|steak|ribeye|chicken|oatmeal|salad|burger|fries|sandwich|pizza|rice|smoothie|meal|breakfast|lunch|dinner)\b/i.test(message);
-  const isMealLoggingMessage = mealLoggingCue && foodIndicator;
-  const isNutritionQuery = mentionsMacros || isMealLoggingMessage;
-
   if (routeDecision.route === 'AMA' && isNutritionQuery) {
     try {
       const { processNutrition } = await import('../nutrition/unifiedPipeline');
@@ -217,8 +362,9 @@ export async function handleUserMessage(
           modelUsed: 'nutrition-unified',
           estimatedCost: 0,
           roleData: pipelineResult.roleData, // Full structure: view, items, totals, tef, tdee
+          meals: pipelineResult.meals,
           toolCalls: null,
-          rawData: null
+          rawData: directiveData
         };
 
         console.info("[roledata]", {
@@ -296,6 +442,29 @@ export async function handleUserMessage(
     } as any;
   }
 
+  // Step 3.5: Enforce plan/user budgets and provider health
+  const budget = await getBudgetState(context.userId);
+  const budgeted = routeWithBudget(modelSelection, { intent: String(routeDecision.route).toLowerCase(), budget });
+  if (!budgeted.allowed) {
+    const limitText = "You've reached your usage limit for now. Top up credits or try again later.";
+    await storeMessage(sessionId, 'assistant', limitText);
+    return {
+      response: limitText,
+      intent: routeDecision.intent,
+      intentConfidence: routeDecision.confidence || 0.8,
+      modelUsed: 'budget-blocked',
+      estimatedCost: 0,
+      blocked: true,
+      modelTrace: budgeted.trace,
+    };
+  }
+  modelSelection = budgeted.selection;
+  if (modelSelection.provider !== provider) {
+    provider = modelSelection.provider;
+    grounded = false;
+    has_google_search = false;
+  }
+
   const cost = estimateCost(modelSelection);
   console.log('[handleUserMessage] Model selected:', getModelDisplayName(modelSelection), `(~$${cost.toFixed(4)})`);
   console.info('[handleUserMessage] Router decision used: yes, grounded:', grounded, 'provider:', provider);
@@ -330,24 +499,26 @@ export async function handleUserMessage(
     // Use AMA intent for all routes (TMWYA uses function calling, not swarm)
     const intentForSwarm = routeDecision.route === 'AMA' ? 'general' : 'general';
 
-    swarm = await getSwarmForIntent(intentForSwarm);
+    swarm = await getSwarmForIntent(intentForSwarm, context.userId);
 
     if (!swarm) {
       // No swarm matched; force-load personality swarm as fallback
       console.warn('[routing] No swarm matched; falling back to personality swarm');
-      swarm = await getSwarmForIntent('general');
+      swarm = await getSwarmForIntent('general', context.userId);
     }
 
     if (swarm) {
       console.log(`[handleUserMessage] Using swarm: ${swarm.swarm_name}`);
-      systemPrompt = await buildSwarmPrompt(swarm, context.userContext);
+      systemPrompt = await buildSwarmPrompt(swarm, context.userContext, context.userId);
+      tags.swarmVariant = swarm.variant;
+      tags.promptVariants = swarm.promptVariants ?? [];
       // Inject user preferences
       if (sysPrefs) {
         systemPrompt += '\n\n' + sysPrefs;
       }
-      // Inject memory context if available
-      if (memoryContext) {
-        systemPrompt += '\n\n' + memoryContext;
+      // Inject remembered facts
+      if (sysMemories) {
+        systemPrompt += '\n\n' + sysMemories;
       }
     } else {
       throw new Error('Personality swarm not configured');
@@ -364,6 +535,11 @@ export async function handleUserMessage(
     console.log('[handleUserMessage] Added history context, length:', historyCtx.length);
   }
 
+  // Inject trainer directives whose triggers matched this message
+  if (directives.block) {
+    systemPrompt += `\n\n${directives.block}`;
+  }
+
   // Step 5.5: AMA fallback for meal logging when TMWYA not available
   if (routeDecision.intent === 'meal_logging' && routeDecision.confidence >= 0.5) {
     try {
@@ -403,12 +579,24 @@ Please acknowledge this meal logging and provide a brief summary.`;
     roleData,
     modelSelection,
     userId: context.userId,
+    intent: String(routeDecision.route).toLowerCase(),
+    sessionId,
   });
 
   let llmResponse = typeof llmResult === 'string' ? llmResult : llmResult.message;
   const toolCalls = typeof llmResult === 'object' && llmResult.tool_calls ? { count: llmResult.tool_calls.length } : null; // Sanitized: just count
   const rawData = typeof llmResult === 'object' ? llmResult.raw_data : null;
 
+  // log_workout only drafts; build the verify card from its exercises instead of saving
+  const workoutCall = Array.isArray(llmResult.tool_calls)
+    ? llmResult.tool_calls.find((tc: { name: string; result?: { success: boolean; result?: { type: string } } }) =>
+        tc.name === 'log_workout' && tc.result?.success && tc.result.result?.type === 'workout.draft')
+    : null;
+  const workoutDraft = workoutCall ? buildWorkoutVerify(workoutCall.result.result.exercises as ParsedExercise[]) : null;
+  if (workoutDraft) {
+    roleData = workoutDraft;
+  }
+
   // Step 6.5: Execute post-agents if swarm has them (personality polish)
   // CRITICAL: Skip post-polish for structured data (Verification Sheets)
   const postMode = (import.meta?.env?.VITE_PERSONALITY_POST_EXECUTOR ?? 'combined') as 'combined' | 'sequential' | 'off';
@@ -436,7 +624,7 @@ Please acknowledge this meal logging and provide a brief summary.`;
   }
 
   // Step 7: Store assistant response
-  await storeMessage(sessionId, 'assistant', assistantText);
+  tags.messageId = await storeMessage(sessionId, 'assistant', assistantText);
 
   return {
     response: assistantText,
@@ -447,6 +635,7 @@ Please acknowledge this meal logging and provide a brief summary.`;
     roleData,
     toolCalls,
     rawData,
+    modelTrace: budgeted.trace,
   };
 }
 
@@ -457,12 +646,14 @@ interface LLMCallParams {
   roleData: any;
   modelSelection: ModelSelection;
   userId: string;
+  intent?: string; // Metering tags for llm_usage
+  sessionId?: string;
 }
 
 /**
  * Helper function for OpenAI fallback calls
  */
-async function callOpenAI(messages: any[], userId: string | undefined, temperature: number): Promise<{ message: string } | null> {
+async function callOpenAI(messages: any[], userId: string | undefined, temperature: number, usageTags: { intent?: string; sessionId?: string } = {}): Promise<{ message: string } | null> {
   const { getSupabase } = await import('../../lib/supabase');
   const supabase = getSupabase();
 
@@ -474,15 +665,18 @@ async function callOpenAI(messages: any[], userId: string | undefined, temperatu
         userId,
         temperature,
         model: 'gpt-4o-mini',
-        provider: 'openai'
+        provider: 'openai',
+        ...usageTags
       }
     });
 
     if (error || !data?.message) {
+      recordProviderResult('openai', false, error);
       console.error('[callOpenAI] Fallback failed:', error);
       return null;
     }
 
+    recordProviderResult('openai', true);
     return { message: data.message };
   } catch (e) {
     console.error('[callOpenAI] Exception:', e);
@@ -494,7 +688,7 @@ async function callOpenAI(messages: any[], userId: string | undefined, temperatu
  * Call LLM with prepared context via OpenAI edge function
  */
 async function callLLM(params: LLMCallParams): Promise<{ message: string; tool_calls?: any; raw_data?: any }> {
-  const { system, userMessage, messageHistory, roleData, modelSelection, userId } = params;
+  const { system, userMessage, messageHistory, roleData, modelSelection, userId, intent, sessionId } = params;
 
   console.log('[callLLM] Calling', getModelDisplayName(modelSelection));
   console.log('[callLLM] System prompt length:', system.length);
@@ -516,20 +710,23 @@ async function callLLM(params: LLMCallParams): Promise<{ message: string; tool_c
   const { getSupabase } = await import('../../lib/supabase');
   const supabase = getSupabase();
 
-  // ✅ Special handling for Gemini web research
+  // ✅ Special handling for Gemini (web research, or failover from OpenAI)
   if (modelSelection.provider === 'gemini') {
-    console.info('[callLLM] Using Gemini for web research');
+    const tools = (modelSelection as { tools?: Array<Record<string, unknown>> }).tools;
+    const search = !!tools?.some(t => 'google_search' in t);
+    console.info('[callLLM] Using Gemini', search ? 'for web research' : 'without search');
 
-    // Call gemini-chat with the user message as prompt
+    // Same conversation and model the router picked; search only on the web path
     const { data, error } = await supabase.functions.invoke('gemini-chat', {
-      body: { prompt: userMessage }
+      body: { messages, model: modelSelection.model, search, intent, sessionId }
     });
 
     if (error) {
+      recordProviderResult('gemini', false, error);
       console.warn('[callLLM] Gemini failed, falling back to OpenAI:', error);
       // Fallback to OpenAI with a notice to the user
-      const fallbackMessage = "Web search failed, answering from model knowledge.\n\n";
-      const openaiResponse = await callOpenAI(messages, userId, modelSelection.temperature ?? 0.3);
+      const fallbackMessage = search ? "Web search failed, answering from model knowledge.\n\n" : "";
+      const openaiResponse = await callOpenAI(messages, userId, modelSelection.temperature ?? 0.3, { intent, sessionId });
       return {
         message: fallbackMessage + (openaiResponse?.message || "I apologize, but I'm having trouble responding right now."),
         tool_calls: null,
@@ -538,10 +735,11 @@ async function callLLM(params: LLMCallParams): Promise<{ message: string; tool_c
     }
 
     if (data?.ok !== true) {
+      recordProviderResult('gemini', false, data?.error);
       console.warn('[callLLM] Gemini returned error:', data);
       // Fallback to OpenAI with a notice to the user
-      const fallbackMessage = "Web search failed, answering from model knowledge.\n\n";
-      const openaiResponse = await callOpenAI(messages, userId, modelSelection.temperature ?? 0.3);
+      const fallbackMessage = search ? "Web search failed, answering from model knowledge.\n\n" : "";
+      const openaiResponse = await callOpenAI(messages, userId, modelSelection.temperature ?? 0.3, { intent, sessionId });
       return {
         message: fallbackMessage + (openaiResponse?.message || "I apologize, but I'm having trouble responding right now."),
         tool_calls: null,
@@ -550,6 +748,7 @@ async function callLLM(params: LLMCallParams): Promise<{ message: string; tool_c
     }
 
     // Gemini succeeded - format response with source
+    recordProviderResult('gemini', true);
     const text = data.text || "No response content";
     const cite = data.cite || "";
     const citeTitle = data.citeTitle || "";
@@ -578,11 +777,14 @@ async function callLLM(params: LLMCallParams): Promise<{ message: string; tool_c
       userId,
       temperature: modelSelection.temperature ?? 0.3,
       model: modelSelection.model,
-      provider: modelSelection.provider
+      provider: modelSelection.provider,
+      intent,
+      sessionId
     }
   });
 
   if (error) {
+    recordProviderResult('openai', false, error);
     console.error('[callLLM] Edge function error:', error);
     throw new Error('Failed to get response from AI assistant');
   }
@@ -592,6 +794,7 @@ async function callLLM(params: LLMCallParams): Promise<{ message: string; tool_c
     throw new Error('No response from AI assistant');
   }
 
+  recordProviderResult('openai', true);
   console.log('[callLLM] Response received, length:', data.message.length);
   if (data.tool_calls) {
     console.log('[callLLM] Tools executed:', data.tool_calls);
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import {
+  directivesToSystemBlock,
+  evaluateDirectives,
+  MAX_DIRECTIVES_PER_MESSAGE,
+  TRIGGER_PRESETS,
+  type DirectiveContext,
+  type PTDirective
+} from '../evaluate';
+
+const directive = (overrides: Partial<PTDirective> = {}): PTDirective => ({
+  id: 'd1',
+  org_id: 'org-1',
+  client_id: 'client-1',
+  title: 'Post-Workout Protein',
+  description: '',
+  category: 'nutrition',
+  priority: 'medium',
+  frequency: 'as_needed',
+  triggers: [TRIGGER_PRESETS.workout_completed],
+  pat_instructions: 'Remind them to get 30g of protein.',
+  is_active: true,
+  trigger_count: 0,
+  last_triggered_at: null,
+  created_at: '2025-11-01T00:00:00Z',
+  ...overrides
+});
+
+const ctx = (overrides: Partial<DirectiveContext> = {}): DirectiveContext => ({
+  message: 'Just trained legs, feeling good',
+  intents: ['ama'],
+  now: new Date(2025, 10, 18, 18, 30),
+  dayType: null,
+  metrics: {},
+  ...overrides
+});
+
+describe('evaluateDirectives', () => {
+  it('fires on keyword triggers with word boundaries', () => {
+    const fired = evaluateDirectives([directive()], ctx());
+    expect(fired).toHaveLength(1);
+    expect(fired[0].matched).toEqual([TRIGGER_PRESETS.workout_completed]);
+
+    const sore = directive({ triggers: [TRIGGER_PRESETS.high_soreness] });
+    expect(evaluateDirectives([sore], ctx({ message: 'my quads are sore' }))).toHaveLength(1);
+    expect(evaluateDirectives([sore], ctx({ message: 'what is a sorehead' }))).toHaveLength(0);
+  });
+
+  it('matches intents, time windows that wrap midnight, day type and metrics', () => {
+    const meal = directive({ triggers: [TRIGGER_PRESETS.meal_logged] });
+    expect(evaluateDirectives([meal], ctx({ intents: ['meal_logging'] }))).toHaveLength(1);
+
+    const late = directive({ triggers: [TRIGGER_PRESETS.late_bedtime] });
+    expect(evaluateDirectives([late], ctx({ now: new Date(2025, 10, 18, 1, 0) }))).toHaveLength(1);
+    expect(evaluateDirectives([late], ctx({ now: new Date(2025, 10, 18, 12, 0) }))).toHaveLength(0);
+
+    const rest = directive({ triggers: [TRIGGER_PRESETS.rest_day] });
+    expect(evaluateDirectives([rest], ctx({ dayType: 'rest' }))).toHaveLength(1);
+    expect(evaluateDirectives([rest], ctx({ dayType: null }))).toHaveLength(0);
+
+    const protein = directive({ triggers: [TRIGGER_PRESETS.low_protein_day] });
+    expect(evaluateDirectives([protein], ctx({ metrics: { protein_pct: 40 } }))).toHaveLength(1);
+    expect(evaluateDirectives([protein], ctx({ metrics: {} }))).toHaveLength(0);
+  });
+
+  it('respects frequency against the last fire', () => {
+    const now = new Date(2025, 10, 18, 18, 30);
+    const daily = directive({ frequency: 'daily', last_triggered_at: new Date(2025, 10, 18, 8, 0).toISOString() });
+    expect(evaluateDirectives([daily], ctx({ now }))).toHaveLength(0);
+    expect(evaluateDirectives([{ ...daily, last_triggered_at: new Date(2025, 10, 17, 8, 0).toISOString() }], ctx({ now }))).toHaveLength(1);
+
+    const weekly = directive({ frequency: 'weekly', last_triggered_at: new Date(2025, 10, 14).toISOString() });
+    expect(evaluateDirectives([weekly], ctx({ now }))).toHaveLength(0);
+
+    const workoutDays = directive({ frequency: 'workout_days' });
+    expect(evaluateDirectives([workoutDays], ctx({ dayType: 'rest' }))).toHaveLength(0);
+    expect(evaluateDirectives([workoutDays], ctx({ dayType: 'workout' }))).toHaveLength(1);
+  });
+
+  it('skips paused directives, treats no triggers as always-on and caps by priority', () => {
+    const list = [
+      directive({ id: 'low', priority: 'low', triggers: [] }),
+      directive({ id: 'paused', priority: 'high', is_active: false }),
+      directive({ id: 'med', priority: 'medium' }),
+      directive({ id: 'high', priority: 'high' }),
+      directive({ id: 'high2', priority: 'high', triggers: [] })
+    ];
+    const fired = evaluateDirectives(list, ctx());
+    expect(fired).toHaveLength(MAX_DIRECTIVES_PER_MESSAGE);
+    expect(fired.map(m => m.directive.id)).toEqual(['high', 'high2', 'med']);
+  });
+
+  it('renders a system prompt block only when something fired', () => {
+    expect(directivesToSystemBlock([])).toBe('');
+    const block = directivesToSystemBlock(evaluateDirectives([directive()], ctx()));
+    expect(block).toContain('- Post-Workout Protein: Remind them to get 30g of protein.');
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * PT DIRECTIVE EVALUATION
+ * Decides which of a client's trainer directives apply to an incoming message
+ */
+
+export type DirectiveCategory = 'nutrition' | 'workout' | 'recovery' | 'motivation' | 'general';
+export type DirectivePriority = 'high' | 'medium' | 'low';
+export type DirectiveFrequency = 'daily' | 'weekly' | 'workout_days' | 'rest_days' | 'as_needed';
+export type DirectiveMetric = 'kcal' | 'protein_g' | 'meals_logged' | 'kcal_pct' | 'protein_pct';
+
+/** Structured triggers as stored in pt_directives.triggers; `label` names the preset it came from */
+export type DirectiveTrigger = { label?: string } & (
+  | { type: 'keyword'; keywords: string[] }
+  | { type: 'intent'; intents: string[] }
+  | { type: 'time_of_day'; from: number; to: number } // local hours, [from, to), wraps past midnight
+  | { type: 'day_type'; day: 'workout' | 'rest' }
+  | { type: 'metric'; metric: DirectiveMetric; op: 'lt' | 'gt'; value: number }
+);
+
+export interface PTDirective {
+  id: string;
+  org_id: string;
+  client_id: string;
+  title: string;
+  description: string;
+  category: DirectiveCategory;
+  priority: DirectivePriority;
+  frequency: DirectiveFrequency;
+  triggers: DirectiveTrigger[];
+  pat_instructions: string;
+  is_active: boolean;
+  trigger_count: number;
+  last_triggered_at: string | null;
+  created_at: string;
+}
+
+export interface DirectiveContext {
+  message: string;
+  intents: string[];
+  now: Date;
+  /** null when the trainer has not set training days */
+  dayType: 'workout' | 'rest' | null;
+  metrics: Partial<Record<DirectiveMetric, number>>;
+}
+
+export interface DirectiveMatch {
+  directive: PTDirective;
+  matched: DirectiveTrigger[];
+}
+
+export const MAX_DIRECTIVES_PER_MESSAGE = 3;
+
+const kw = (label: string, keywords: string[]): DirectiveTrigger => ({ label, type: 'keyword', keywords });
+
+/** Trainer-facing trigger names and what each one checks */
+export const TRIGGER_PRESETS: Record<string, DirectiveTrigger> = {
+  workout_completed: kw('workout_completed', ['finished my workout', 'just worked out', 'just trained', 'done training', 'workout done', 'post workout', 'post-workout', 'after my workout', 'just lifted']),
+  workout_started: kw('workout_started', ['starting my workout', 'heading to the gym', 'going to the gym', 'about to train', 'pre workout', 'pre-workout']),
+  high_intensity_session: kw('high_intensity_session', ['hiit', 'sprints', 'intervals', 'max effort', 'brutal workout']),
+  poor_sleep_quality: kw('poor_sleep_quality', ['slept badly', 'slept poorly', 'bad sleep', 'poor sleep', 'tossed and turned', 'restless night']),
+  morning: { label: 'morning', type: 'time_of_day', from: 5, to: 11 },
+  evening: { label: 'evening', type: 'time_of_day', from: 17, to: 22 },
+  late_bedtime: { label: 'late_bedtime', type: 'time_of_day', from: 23, to: 4 },
+  insufficient_sleep: kw('insufficient_sleep', ['only slept', "couldn't sleep", 'could not sleep', 'insomnia', 'no sleep', 'exhausted']),
+  workout_streak_milestone: kw('workout_streak_milestone', ['streak', 'in a row', 'straight days']),
+  weekly_goal_achieved: kw('weekly_goal_achieved', ['hit my goal', 'reached my goal', 'goal achieved', 'hit my target']),
+  compound_movement: kw('compound_movement', ['squat', 'squats', 'deadlift', 'deadlifts', 'bench press', 'overhead press', 'barbell row']),
+  heavy_lifting_day: kw('heavy_lifting_day', ['heavy day', 'going heavy', 'max out', '1rm', 'pr attempt']),
+  rest_day: { label: 'rest_day', type: 'day_type', day: 'rest' },
+  workout_day: { label: 'workout_day', type: 'day_type', day: 'workout' },
+  high_soreness: kw('high_soreness', ['sore', 'doms', 'aching', 'stiff']),
+  poor_nutrition_day: { label: 'poor_nutrition_day', type: 'metric', metric: 'kcal_pct', op: 'gt', value: 110 },
+  low_protein_day: { label: 'low_protein_day', type: 'metric', metric: 'protein_pct', op: 'lt', value: 60 },
+  low_water_intake: kw('low_water_intake', ['thirsty', 'dehydrated', 'headache']),
+  weight_plateau: kw('weight_plateau', ['plateau', 'stalled', "scale won't move", 'not losing', 'stuck at']),
+  goal_checkpoint: kw('goal_checkpoint', ['progress', 'check in', 'check-in', 'how am i doing']),
+  missed_workout: kw('missed_workout', ['missed my workout', 'skipped the gym', 'skipped my workout', "didn't train", "didn't work out"]),
+  low_motivation: kw('low_motivation', ['unmotivated', 'no motivation', "can't be bothered", "don't feel like", 'give up']),
+  high_stress: kw('high_stress', ['stressed', 'anxious', 'overwhelmed', 'burnt out', 'burned out']),
+  meal_logged: { label: 'meal_logged', type: 'intent', intents: ['meal_logging'] },
+  nutrition_question: { label: 'nutrition_question', type: 'intent', intents: ['nutrition'] }
+};
+
+const PRIORITY_RANK: Record<DirectivePriority, number> = { high: 0, medium: 1, low: 2 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function keywordMatches(message: string, keyword: string): boolean {
+  const k = keyword.trim().toLowerCase();
+  if (!k) return false;
+  // Word boundaries only where the keyword itself starts/ends with a word character
+  const start = /^\w/.test(k) ? '\\b' : '';
+  const end = /\w$/.test(k) ? '\\b' : '';
+  return new RegExp(`${start}${escapeRegExp(k)}${end}`, 'i').test(message);
+}
+
+export function triggerMatches(trigger: DirectiveTrigger, ctx: DirectiveContext): boolean {
+  switch (trigger.type) {
+    case 'keyword':
+      return trigger.keywords.some(k => keywordMatches(ctx.message, k));
+    case 'intent':
+      return trigger.intents.some(i => ctx.intents.includes(i));
+    case 'time_of_day': {
+      const hour = ctx.now.getHours();
+      return trigger.from <= trigger.to
+        ? hour >= trigger.from && hour < trigger.to
+        : hour >= trigger.from || hour < trigger.to;
+    }
+    case 'day_type':
+      return ctx.dayType === trigger.day;
+    case 'metric': {
+      const value = ctx.metrics[trigger.metric];
+      if (value === undefined) return false;
+      return trigger.op === 'lt' ? value < trigger.value : value > trigger.value;
+    }
+  }
+}
+
+/** Whether the directive's frequency allows it to fire again now */
+export function frequencyAllows(directive: PTDirective, ctx: DirectiveContext): boolean {
+  const last = directive.last_triggered_at ? new Date(directive.last_triggered_at) : null;
+  switch (directive.frequency) {
+    case 'as_needed':
+      return true;
+    case 'daily':
+      return !last || last.toDateString() !== ctx.now.toDateString();
+    case 'weekly':
+      return !last || ctx.now.getTime() - last.getTime() >= 7 * DAY_MS;
+    case 'workout_days':
+      return ctx.dayType === 'workout';
+    case 'rest_days':
+      return ctx.dayType === 'rest';
+  }
+}
+
+/**
+ * Active directives whose triggers match, highest priority first, capped at
+ * MAX_DIRECTIVES_PER_MESSAGE. A directive without triggers fires whenever its
+ * frequency allows.
+ */
+export function evaluateDirectives(directives: PTDirective[], ctx: DirectiveContext): DirectiveMatch[] {
+  const matches: DirectiveMatch[] = [];
+  for (const directive of directives) {
+    if (!directive.is_active || !directive.pat_instructions.trim()) continue;
+    if (!frequencyAllows(directive, ctx)) continue;
+
+    const matched = directive.triggers.filter(t => triggerMatches(t, ctx));
+    if (directive.triggers.length && !matched.length) continue;
+    matches.push({ directive, matched });
+  }
+
+  return matches
+    .sort((a, b) => PRIORITY_RANK[a.directive.priority] - PRIORITY_RANK[b.directive.priority])
+    .slice(0, MAX_DIRECTIVES_PER_MESSAGE);
+}
+
+/** System prompt block for the fired directives; empty when nothing fired */
+export function directivesToSystemBlock(matches: DirectiveMatch[]): string {
+  if (!matches.length) return '';
+  const lines = matches.map(m => `- ${m.directive.title}: ${m.directive.pat_instructions.trim()}`);
+  return `Trainer directives for this reply (from the client's coach; follow them naturally, don't quote them):\n${lines.join('\n')}`;
+}
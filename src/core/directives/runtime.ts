@@ -0,0 +1,87 @@
+/**
+ * PT DIRECTIVE RUNTIME
+ * Loads the client's directives, evaluates them for a message and audits fires
+ */
+
+import { getSupabase } from '../../lib/supabase';
+import {
+  directivesToSystemBlock,
+  evaluateDirectives,
+  type DirectiveContext,
+  type DirectiveMatch,
+  type PTDirective
+} from './evaluate';
+
+export interface DirectiveRun {
+  block: string;
+  fired: DirectiveMatch[];
+}
+
+interface ContextRow {
+  metrics?: DirectiveContext['metrics'];
+  training_days?: number[] | null;
+}
+
+function localDate(now: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+export function dayTypeFor(trainingDays: number[] | null | undefined, now: Date): DirectiveContext['dayType'] {
+  if (!trainingDays?.length) return null;
+  return trainingDays.includes(now.getDay()) ? 'workout' : 'rest';
+}
+
+async function loadActiveDirectives(userId: string): Promise<PTDirective[]> {
+  const { data, error } = await getSupabase()
+    .from('pt_directives')
+    .select('*')
+    .eq('client_id', userId)
+    .eq('is_active', true);
+  if (error) throw new Error(`Failed to load directives: ${error.message}`);
+  return (data as PTDirective[]) ?? [];
+}
+
+async function loadContextRow(now: Date): Promise<ContextRow> {
+  const { data, error } = await getSupabase().rpc('directive_context', { p_date: localDate(now) });
+  if (error) throw new Error(`Failed to load directive context: ${error.message}`);
+  return (data as ContextRow) ?? {};
+}
+
+/**
+ * Evaluates the user's directives for this message and records which fired.
+ * The context RPC only runs when the user has directives; recording is not
+ * awaited so it never delays the reply.
+ */
+export async function runDirectives(
+  userId: string,
+  message: string,
+  opts: { intents: string[]; messageId?: string; sessionId?: string; now?: Date }
+): Promise<DirectiveRun> {
+  const directives = await loadActiveDirectives(userId);
+  if (!directives.length) return { block: '', fired: [] };
+
+  const now = opts.now ?? new Date();
+  const row = await loadContextRow(now);
+  const fired = evaluateDirectives(directives, {
+    message,
+    intents: opts.intents,
+    now,
+    dayType: dayTypeFor(row.training_days, now),
+    metrics: row.metrics ?? {}
+  });
+  if (!fired.length) return { block: '', fired };
+
+  void getSupabase()
+    .rpc('record_directive_fires', {
+      p_fires: fired.map(m => ({ directive_id: m.directive.id, matched: m.matched })),
+      p_message_id: opts.messageId ?? null,
+      p_session_id: opts.sessionId ?? null,
+      p_message_excerpt: message
+    })
+    .then(({ error }) => {
+      if (error) console.warn('[directives] Failed to record fires:', error.message);
+    });
+
+  return { block: directivesToSystemBlock(fired), fired };
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { extractMemoryFacts, topicsForMessage } from '../factExtractor';
+import { rankMemories } from '../longTermMemory';
+import type { MemoryRow } from '../../../types/swarm';
+
+const NOW = new Date('2025-11-21T12:00:00Z');
+
+const facts = (message: string) =>
+  extractMemoryFacts(message, NOW).map(f => [f.key, f.value.text, f.tier, f.source]);
+
+describe('extractMemoryFacts', () => {
+  it('pulls injuries, dislikes, equipment, schedule and goals', () => {
+    expect(facts("I tore my left ACL years ago so I have a bad knee. I hate mushrooms and olives.")).toEqual([
+      ['injury:knee', 'Bad knee', 'long_term', 'explicit'],
+      ['dislike:mushrooms', 'Dislikes mushrooms', 'long_term', 'explicit'],
+      ['dislike:olives', 'Dislikes olives', 'long_term', 'explicit']
+    ]);
+    expect(facts('I have dumbbells and a pull-up bar at home')).toEqual([
+      ['equipment:dumbbells', 'Has dumbbells at home', 'long_term', 'explicit'],
+      ['equipment:pull_up_bar', 'Has pull-up bar at home', 'long_term', 'explicit']
+    ]);
+    expect(facts('I work out on Mon, Wed and Fri, usually in the mornings. I work nights.')).toEqual([
+      ['schedule:training_days', 'Trains on monday, wednesday, friday', 'long_term', 'explicit'],
+      ['schedule:training_time', 'Usually trains in the morning', 'long_term', 'explicit'],
+      ['schedule:work_shift', 'Works nights', 'long_term', 'explicit']
+    ]);
+    expect(facts("I'm training for a half marathon in March")).toEqual([
+      ['goal:event', 'Goal: a half marathon in march', 'long_term', 'explicit']
+    ]);
+  });
+
+  it('gives temporary facts a tier and expiry', () => {
+    const [sore] = extractMemoryFacts('My lower back is sore today', NOW);
+    expect(sore).toMatchObject({ key: 'injury:lower_back', tier: 'ephemeral', ttl: '2025-11-22T12:00:00.000Z' });
+
+    const [tweaked] = extractMemoryFacts('I tweaked my shoulder this week', NOW);
+    expect(tweaked).toMatchObject({ key: 'injury:shoulder', tier: 'short_term', ttl: '2025-12-05T12:00:00.000Z' });
+  });
+
+  it('keeps hedged facts as inferred and ignores questions and clauses', () => {
+    expect(facts("I think I'm allergic to shellfish")).toEqual([['allergy:shellfish', 'Allergic to shellfish', 'long_term', 'inferred']]);
+    expect(facts('Is it bad if my knee hurts after squats?')).toEqual([]);
+    expect(facts("I don't like to eat late. Had a bad day at work")).toEqual([]);
+  });
+});
+
+const row = (key: string, topics: string[], embedding: number[] | null, tier: MemoryRow['tier'] = 'long_term'): MemoryRow => ({
+  id: key, user_id: 'u1', tier, key, value: { text: key }, source: 'explicit', confidence: 0.9, ttl: null,
+  topics, is_pii: false, conflict_priority: 2, embedding, created_at: NOW.toISOString(), updated_at: NOW.toISOString()
+});
+
+describe('rankMemories', () => {
+  it('recalls by topic and by embedding, dropping unrelated memories', () => {
+    const memories = [
+      row('injury:knee', ['injury', 'training'], [1, 0, 0]),
+      row('dislike:mushrooms', ['nutrition'], [0, 1, 0]),
+      row('goal:event', ['goals'], [0.9, 0.1, 0]),
+      row('schedule:work_shift', ['schedule'], null)
+    ];
+    const topics = topicsForMessage('What leg workout should I do?');
+    expect(topics).toEqual(['training', 'injury', 'equipment']);
+
+    expect(rankMemories(memories, topics, [1, 0, 0]).map(m => m.key)).toEqual(['injury:knee', 'goal:event']);
+    expect(rankMemories(memories, topicsForMessage('ideas for dinner'), null).map(m => m.key)).toEqual(['dislike:mushrooms']);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { parseDateRange, parseHistoryQuery } from '../historyQuery';
+import { answerLastWorkout, answerNutrition, answerWeightTrend } from '../historyAnswers';
+
+// Thursday 2025-11-20, midday local time
+const NOW = new Date(2025, 10, 20, 12, 0, 0);
+
+describe('parseDateRange', () => {
+  it('resolves weeks Monday to Sunday and weekdays to their last occurrence', () => {
+    expect(parseDateRange('last week', NOW)).toMatchObject({ from: '2025-11-10', to: '2025-11-16' });
+    expect(parseDateRange('this week', NOW)).toMatchObject({ from: '2025-11-17', to: '2025-11-20' });
+    expect(parseDateRange('this month', NOW)).toMatchObject({ from: '2025-11-01', to: '2025-11-20' });
+    expect(parseDateRange('on tuesday', NOW)).toMatchObject({ from: '2025-11-18', to: '2025-11-18' });
+    expect(parseDateRange('thursday', NOW)).toMatchObject({ from: '2025-11-13' });
+    expect(parseDateRange('last 3 days', NOW)).toMatchObject({ from: '2025-11-18', to: '2025-11-20' });
+  });
+});
+
+describe('parseHistoryQuery', () => {
+  it('types the questions chat should answer from logs', () => {
+    expect(parseHistoryQuery('How much protein did I average last week?', NOW)).toMatchObject({
+      kind: 'nutrition', metric: 'protein_g', stat: 'average', range: { from: '2025-11-10', to: '2025-11-16' }
+    });
+    expect(parseHistoryQuery('what did I eat Tuesday', NOW)).toMatchObject({ kind: 'meals', range: { from: '2025-11-18' } });
+    expect(parseHistoryQuery('When did I last train legs?', NOW)).toEqual({ kind: 'last_workout', focus: 'legs' });
+    expect(parseHistoryQuery("what's my weight trend this month", NOW)).toMatchObject({
+      kind: 'weight_trend', range: { from: '2025-11-01', to: '2025-11-20' }
+    });
+    expect(parseHistoryQuery('when was the last time I ate sushi?', NOW)).toEqual({ kind: 'last_food', food: 'sushi' });
+    expect(parseHistoryQuery('how many workouts did I do this week?', NOW)).toMatchObject({ kind: 'workout_count' });
+    expect(parseHistoryQuery('have i eaten enough protein today?', NOW)).toMatchObject({
+      kind: 'nutrition', metric: 'protein_g', stat: 'total', range: { from: '2025-11-20', to: '2025-11-20' }
+    });
+  });
+
+  it('leaves logging statements and general questions alone', () => {
+    expect(parseHistoryQuery('I ate 2 eggs and toast', NOW)).toBeNull();
+    expect(parseHistoryQuery('did 3x5 squats at 225', NOW)).toBeNull();
+    expect(parseHistoryQuery('how much protein is in salmon?', NOW)).toBeNull();
+    expect(parseHistoryQuery('what is creatine?', NOW)).toBeNull();
+    expect(parseHistoryQuery('how much protein should I eat?', NOW)).toBeNull();
+    expect(parseHistoryQuery('how do I lose weight?', NOW)).toBeNull();
+    expect(parseHistoryQuery('I had 2 eggs, how much protein is that?', NOW)).toBeNull();
+    expect(parseHistoryQuery('I just ate a burrito. how many calories was it?', NOW)).toBeNull();
+    expect(parseHistoryQuery('how many calories did i burn today?', NOW)).toBeNull();
+    expect(parseHistoryQuery('what is my TDEE?', NOW)).toBeNull();
+    expect(parseHistoryQuery('how many calories in my protein shake?', NOW)).toBeNull();
+  });
+});
+
+describe('history answers', () => {
+  const week = { from: '2025-11-10', to: '2025-11-16', label: 'last week' };
+
+  it('averages over logged days and says how many were logged', () => {
+    const answer = answerNutrition(
+      [
+        { date: '2025-11-10', totals: { kcal: 2000, protein_g: 150 } },
+        { date: '2025-11-11', totals: { kcal: 1800, protein_g: 130 } },
+        { date: '2025-11-12', totals: { kcal: 0, protein_g: 0 } }
+      ],
+      'protein_g',
+      'average',
+      week
+    );
+    expect(answer.data).toMatchObject({ value: 140, daysLogged: 2 });
+    expect(answer.text).toBe('You averaged 140 g of protein per day last week (2 of 7 days logged).');
+  });
+
+  it('finds the most recent workout matching a focus', () => {
+    const answer = answerLastWorkout(
+      [
+        { workout_date: '2025-11-19', workout_type: 'resistance', duration_minutes: 45, notes: 'Bench Press 3x8 @ 185 lbs' },
+        { workout_date: '2025-11-17', workout_type: 'resistance', duration_minutes: 60, notes: 'Back Squat 5x5 @ 225 lbs' }
+      ],
+      'legs',
+      '2025-11-20'
+    );
+    expect(answer.data).toMatchObject({ found: true, date: '2025-11-17', daysAgo: 3 });
+  });
+
+  it('fits a weekly weight trend', () => {
+    const answer = answerWeightTrend(
+      [
+        { log_date: '2025-11-01', weight_lbs: 200 },
+        { log_date: '2025-11-08', weight_lbs: 199 },
+        { log_date: '2025-11-15', weight_lbs: 198 }
+      ],
+      { from: '2025-11-01', to: '2025-11-20', label: 'this month' }
+    );
+    expect(answer.data).toMatchObject({ change: -2, weeklyRate: -1 });
+    expect(answer.text).toMatch(/^Your weight is down 2 lbs this month/);
+  });
+});
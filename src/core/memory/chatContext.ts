@@ -4,6 +4,21 @@
  */
 
 import { getSupabase } from '../../lib/supabase';
+import { isoDate, type HistoryQuery } from './historyQuery';
+import {
+  answerLastWorkout,
+  answerMeals,
+  answerNutrition,
+  answerSleep,
+  answerWeightTrend,
+  answerWorkoutCount,
+  type DayTotalsRow,
+  type HistoryAnswer,
+  type MealEntry,
+  type SleepEntry,
+  type WeightEntry,
+  type WorkoutEntry
+} from './historyAnswers';
 
 export interface MemoryResult {
   type: 'meal' | 'workout' | 'sleep' | 'metric';
@@ -67,58 +82,100 @@ export async function searchMealHistory(
 }
 
 /**
- * Detect memory keywords and route to appropriate search
+ * Answer a parsed history question from the structured tables. Returns null
+ * when the data can't be loaded so the caller can fall back to the LLM.
  */
-export function detectMemoryQuery(text: string): {
-  isMemoryQuery: boolean;
-  type?: 'meal' | 'workout' | 'sleep' | 'metric';
-  searchTerm?: string;
-} {
-  const lowerText = text.toLowerCase();
-  
-  // Meal memory patterns
-  const mealPatterns = [
-    /when (was the )?(last time|did) i (ate?|had|logged?) (\w+)/i,
-    /have i (ever )?eaten (\w+)/i,
-    /did i (eat|have|log) (\w+)/i,
-    /last time i (ate|had) (\w+)/i
-  ];
+export async function answerHistoryQuery(
+  userId: string,
+  query: HistoryQuery,
+  now: Date = new Date()
+): Promise<HistoryAnswer | null> {
+  const supabase = getSupabase();
+  const today = isoDate(now);
 
-  for (const pattern of mealPatterns) {
-    const match = text.match(pattern);
-    if (match) {
-      // Extract food term from last capture group
-      const searchTerm = match[match.length - 1];
-      return {
-        isMemoryQuery: true,
-        type: 'meal',
-        searchTerm
-      };
-    }
-  }
+  try {
+    switch (query.kind) {
+      case 'nutrition': {
+        const { data, error } = await supabase
+          .from('day_rollups')
+          .select('date, totals')
+          .eq('user_id', userId)
+          .gte('date', query.range.from)
+          .lte('date', query.range.to);
+        if (error) throw error;
+        return answerNutrition((data as DayTotalsRow[]) ?? [], query.metric, query.stat, query.range);
+      }
 
-  // Workout memory patterns
-  if (/when (was the )?(last time|did) i (workout|train|lift)/i.test(lowerText)) {
-    return {
-      isMemoryQuery: true,
-      type: 'workout'
-    };
-  }
+      case 'meals': {
+        const { data, error } = await supabase
+          .from('meal_logs')
+          .select('ts, meal_slot, meal_items(name, energy_kcal)')
+          .eq('user_id', userId)
+          .gte('ts', new Date(`${query.range.from}T00:00:00`).toISOString())
+          .lte('ts', new Date(`${query.range.to}T23:59:59.999`).toISOString())
+          .order('ts', { ascending: true });
+        if (error) throw error;
+        const meals = ((data as Array<Omit<MealEntry, 'items'> & { meal_items: MealEntry['items'] | null }>) ?? [])
+          .map(m => ({ ts: m.ts, meal_slot: m.meal_slot, items: m.meal_items ?? [] }));
+        return answerMeals(meals, query.range);
+      }
 
-  return { isMemoryQuery: false };
-}
+      case 'last_food': {
+        const results = await searchMealHistory(userId, query.food);
+        if (!results.length) {
+          return { text: `I don't see ${query.food} in your meal logs.`, data: { food: query.food, found: false } };
+        }
+        const latest = results[0];
+        return {
+          text: `You last logged ${latest.summary} ${formatRelativeTime(new Date(latest.timestamp))}` +
+            ` (${new Date(latest.timestamp).toLocaleDateString()}).`,
+          data: { food: query.food, found: true, timestamp: latest.timestamp }
+        };
+      }
 
-/**
- * Build context snippet for system prompt injection
- */
-export function buildMemoryContext(results: MemoryResult[]): string {
-  if (!results.length) return '';
+      case 'last_workout':
+      case 'workout_count': {
+        let request = supabase
+          .from('workout_logs')
+          .select('workout_date, workout_type, duration_minutes, notes')
+          .eq('user_id', userId);
+        request = query.kind === 'workout_count'
+          ? request.gte('workout_date', query.range.from).lte('workout_date', query.range.to)
+          : request.order('workout_date', { ascending: false }).limit(60);
+        const { data, error } = await request;
+        if (error) throw error;
+        const workouts = (data as WorkoutEntry[]) ?? [];
+        return query.kind === 'workout_count'
+          ? answerWorkoutCount(workouts, query.range)
+          : answerLastWorkout(workouts, query.focus, today);
+      }
 
-  const latest = results[0];
-  const date = new Date(latest.timestamp);
-  const relativeTime = formatRelativeTime(date);
+      case 'sleep': {
+        const { data, error } = await supabase
+          .from('sleep_logs')
+          .select('sleep_date, duration_minutes')
+          .eq('user_id', userId)
+          .gte('sleep_date', query.range.from)
+          .lte('sleep_date', query.range.to);
+        if (error) throw error;
+        return answerSleep((data as SleepEntry[]) ?? [], query.range);
+      }
 
-  return `[Memory] User's last ${latest.type}: ${latest.summary} (${relativeTime})`;
+      case 'weight_trend': {
+        const { data, error } = await supabase
+          .from('weight_logs')
+          .select('log_date, weight_lbs')
+          .eq('user_id', userId)
+          .gte('log_date', query.range.from)
+          .lte('log_date', query.range.to);
+        if (error) throw error;
+        return answerWeightTrend((data as WeightEntry[]) ?? [], query.range);
+      }
+    }
+  } catch (error) {
+    console.error(`[chatContext] History query ${query.kind} failed:`, error);
+    return null;
+  }
 }
 
 function formatRelativeTime(date: Date): string {
@@ -133,4 +190,3 @@ function formatRelativeTime(date: Date): string {
   if (diffDays < 365) return `${Math.floor(diffDays / 30)} months ago`;
   return `${Math.floor(diffDays / 365)} years ago`;
 }
-
@@ -0,0 +1,278 @@
+/**
+ * Durable fact extraction
+ * Pulls facts worth remembering (injuries, schedule, disliked foods, home
+ * equipment, goals) out of a user's chat message. Deterministic so it can run
+ * after every turn for free; src/core/memory/longTermMemory.ts persists them.
+ */
+
+export type MemoryTier = 'ephemeral' | 'short_term' | 'long_term';
+export type MemorySource = 'explicit' | 'inferred' | 'system';
+export type MemoryTopic = 'injury' | 'schedule' | 'nutrition' | 'training' | 'equipment' | 'goals';
+
+export interface FactValue {
+  /** One-line statement of the fact, as shown to the model and the user */
+  text: string;
+  /** The user's own words it came from */
+  original: string;
+  [detail: string]: string | string[] | null;
+}
+
+export interface ExtractedFact {
+  key: string;
+  value: FactValue;
+  tier: MemoryTier;
+  /** Expiry timestamp for ephemeral and short-term facts */
+  ttl: string | null;
+  topics: MemoryTopic[];
+  source: MemorySource;
+  confidence: number;
+}
+
+const DAY_MS = 86400000;
+
+/** How long temporary facts live */
+export const TIER_TTL_DAYS: Record<Exclude<MemoryTier, 'long_term'>, number> = {
+  ephemeral: 1,
+  short_term: 14
+};
+
+// ========== VOCABULARY ==========
+
+const BODY_PARTS = [
+  'lower back', 'upper back', 'back', 'neck', 'shoulder', 'elbow', 'wrist', 'hand', 'hip', 'knee',
+  'ankle', 'foot', 'hamstring', 'quad', 'calf', 'groin', 'achilles', 'rotator cuff', 'it band', 'shin'
+];
+
+const DAYS: Array<[string, RegExp]> = [
+  ['monday', /\bmon(day)?s?\b/], ['tuesday', /\btues?(day)?s?\b/], ['wednesday', /\bwed(nesday)?s?\b/],
+  ['thursday', /\bthu(rs?)?(day)?s?\b/], ['friday', /\bfri(day)?s?\b/], ['saturday', /\bsat(urday)?s?\b/],
+  ['sunday', /\bsun(day)?s?\b/]
+];
+
+const EQUIPMENT: Array<[string, RegExp]> = [
+  ['dumbbells', /\bdumb ?bells?\b/], ['kettlebell', /\bkettle ?bells?\b/], ['barbell', /\bbarbells?\b/],
+  ['squat rack', /\b(squat|power) rack\b/], ['bench', /\b(weight |flat |adjustable )?bench\b/],
+  ['pull-up bar', /\bpull[- ]?up bar\b/], ['resistance bands', /\b(resistance )?bands\b/],
+  ['treadmill', /\btreadmill\b/], ['exercise bike', /\b(exercise|stationary|spin|peloton) bike\b|\bpeloton\b/],
+  ['rower', /\brow(er|ing machine)\b/], ['cable machine', /\bcable (machine|station)\b/], ['jump rope', /\bjump rope\b/]
+];
+
+const EXERCISE_WORDS = /\b(running|cardio|burpees?|lunges?|squats?|deadlifts?|bench|pull-?ups?|push-?ups?|yoga|hiit|cycling|swimming|rowing|leg day|crossfit)\b/;
+
+// Facts about right now expire quickly; facts about this stretch last a couple of weeks
+const EPHEMERAL_CUES = /\b(today|tonight|this morning|this afternoon|right now|at the moment)\b/;
+const SHORT_TERM_CUES = /\b(this week|these days|lately|recently|for (a|the) (few|couple of) (days|weeks)|for now|until)\b/;
+const HEDGES = /\b(i think|maybe|probably|might|kind of|sort of|not sure)\b/;
+
+// ========== HELPERS ==========
+
+function tierFor(sentence: string, fallback: MemoryTier): MemoryTier {
+  if (EPHEMERAL_CUES.test(sentence)) return 'ephemeral';
+  if (SHORT_TERM_CUES.test(sentence)) return 'short_term';
+  return fallback;
+}
+
+function slug(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+// Clauses, not things: "i don't like to eat late", "i hate it when..."
+const NOT_AN_ITEM = /^(to|it|that|this|when|how|being|you|him|her|them|my|i|me|what|doing)\b/;
+
+/** "mushrooms, olives and blue cheese" → ['mushrooms', 'olives', 'blue cheese'] */
+function splitList(text: string): string[] {
+  return text
+    .split(/,|\band\b|\bor\b|\/|&/)
+    .map(s => s.replace(/^\s*(the|any|all|most|some)\s+/, '').replace(/[.!?]+$/, '').trim())
+    .filter(s => s.length > 1 && s.split(/\s+/).length <= 3 && !NOT_AN_ITEM.test(s));
+}
+
+function bodyPartIn(text: string): string | null {
+  return BODY_PARTS.find(part => new RegExp(`\\b${part}s?\\b`).test(text)) ?? null;
+}
+
+// ========== RULES ==========
+
+type Draft = Omit<ExtractedFact, 'ttl' | 'source' | 'confidence'>;
+type Rule = (sentence: string, original: string) => Draft[];
+
+const PART = `(?:left |right )?(${BODY_PARTS.join('|')})s?\\b`;
+const INJURY_PATTERNS = [
+  new RegExp(`\\b(hurt|injured|tweaked|strained|sprained|pulled|tore|broke|dislocated|bruised)\\s+(?:my|a|the)\\s+${PART}`),
+  new RegExp(`\\bmy\\s+${PART}\\s+(hurts|is (?:sore|injured|tight|bad|killing me|acting up)|has been (?:sore|hurting|bothering me))`),
+  new RegExp(`\\b(bad|injured|sore|torn|dodgy|tight)\\s+${PART}`),
+  new RegExp(`\\b${PART}\\s+(injury|surgery|tendonitis|pain|strain|sprain)\\b`)
+];
+
+const injuries: Rule = (s, original) => {
+  const hurt = INJURY_PATTERNS.map(re => s.match(re)).find(Boolean);
+  if (!hurt) return [];
+
+  const part = bodyPartIn(hurt[0]) as string;
+  const temporary = /\b(sore|tight|hurts|killing me|acting up|bothering)\b/.test(hurt[0]);
+  const condition = (hurt[0].match(/\b(torn|tore|surgery|tendonitis|sprain(ed)?|strain(ed)?|pulled|tweaked|sore|tight|pain|broke|bad|dodgy)\b/) || [])[0] ?? null;
+  return [{
+    key: `injury:${slug(part)}`,
+    value: { text: `${condition ? `${condition[0].toUpperCase()}${condition.slice(1)}` : 'Injured'} ${part}`, original, body_part: part, condition },
+    tier: tierFor(s, temporary ? 'short_term' : 'long_term'),
+    topics: ['injury', 'training']
+  }];
+};
+
+const dislikes: Rule = (s, original) => {
+  const m = s.match(/\b(?:i\s+)?(?:hate|dislike|can'?t stand|don'?t (?:really )?like|do not like|don'?t eat|do not eat|won'?t eat|never eat|am not a fan of|'?m not a fan of|not a fan of)\s+([^.!?;]+)/);
+  const allergy = s.match(/\b(?:i'?m|i am)\s+allergic to\s+([^.!?;]+)/) || s.match(/\b([a-z ]+?)\s+allergy\b/);
+  const facts: Draft[] = [];
+
+  if (m) {
+    for (const item of splitList(m[1].replace(/\b(at all|anymore|very much|much)\b/g, ''))) {
+      const training = EXERCISE_WORDS.test(item);
+      facts.push({
+        key: `dislike:${slug(item)}`,
+        value: { text: `Dislikes ${item}`, original, item },
+        tier: tierFor(s, 'long_term'),
+        topics: training ? ['training'] : ['nutrition']
+      });
+    }
+  }
+  if (allergy) {
+    for (const item of splitList(allergy[1])) {
+      facts.push({
+        key: `allergy:${slug(item)}`,
+        value: { text: `Allergic to ${item}`, original, item },
+        tier: 'long_term',
+        topics: ['nutrition']
+      });
+    }
+  }
+  return facts;
+};
+
+const equipment: Rule = (s, original) => {
+  const atHome = /\b(at home|home gym|in my (garage|basement|apartment|house)|i (own|bought))\b/.test(s);
+  const has = /\b(i (have|got|own|bought)|my home gym has|there'?s)\b/.test(s);
+  const only = /\bi (only|just) have\b/.test(s);
+  if (!((has && atHome) || only)) return [];
+  return EQUIPMENT.filter(([, re]) => re.test(s)).map(([name]) => ({
+    key: `equipment:${slug(name)}`,
+    value: { text: `Has ${name} at home`, original, item: name },
+    tier: tierFor(s, 'long_term'),
+    topics: ['equipment', 'training']
+  }));
+};
+
+const schedule: Rule = (s, original) => {
+  const facts: Draft[] = [];
+  const trains = /\b(train|work ?out|lift|go to the gym|hit the gym|exercise|run)\b/.test(s);
+
+  if (trains && /\b(on|every)\b/.test(s)) {
+    const days = DAYS.filter(([, re]) => re.test(s)).map(([day]) => day);
+    if (days.length) {
+      facts.push({
+        key: 'schedule:training_days',
+        value: { text: `Trains on ${days.join(', ')}`, original, days },
+        tier: tierFor(s, 'long_term'),
+        topics: ['schedule', 'training']
+      });
+    }
+  }
+  const time = s.match(/\b(?:in the |early |before work|after work|at )?(mornings?|evenings?|afternoons?|lunch(?:time)?|before work|after work|nights?)\b/);
+  if (trains && time && /\b(usually|always|only|prefer|can only|tend to|i (train|work ?out|lift|run))\b/.test(s)) {
+    const slot = time[1].replace(/s$/, '').replace('lunchtime', 'lunch');
+    const phrase = /work/.test(slot) ? slot : /night|lunch/.test(slot) ? `at ${slot}` : `in the ${slot}`;
+    facts.push({
+      key: 'schedule:training_time',
+      value: { text: `Usually trains ${phrase}`, original, time: slot },
+      tier: tierFor(s, 'long_term'),
+      topics: ['schedule', 'training']
+    });
+  }
+  const shift = s.match(/\bi work (nights|night shifts?|days|day shifts?|weekends|(\d{1,2}(?::\d{2})?\s*(?:am|pm)?)\s*(?:to|-)\s*(\d{1,2}(?::\d{2})?\s*(?:am|pm)?))/);
+  if (shift) {
+    facts.push({
+      key: 'schedule:work_shift',
+      value: { text: `Works ${shift[1]}`, original, shift: shift[1] },
+      tier: tierFor(s, 'long_term'),
+      topics: ['schedule']
+    });
+  }
+  return facts;
+};
+
+const GOAL_KINDS: Array<[string, RegExp]> = [
+  ['weight_loss', /\b(lose|drop|shed|cut)\b.*\b(weight|fat|lbs?|pounds|kg|kilos|belly)\b|\b(lose|cut) (\d+)/],
+  ['muscle_gain', /\b(gain|build|put on|add)\b.*\b(muscle|mass|size|weight)\b|\bbulk/],
+  ['event', /\b(marathon|half marathon|5k|10k|triathlon|race|competition|meet|wedding|vacation|photoshoot)\b/],
+  ['strength', /\b(stronger|strength|pr|(bench|squat|deadlift) \d+)\b/],
+  ['health', /\b(blood pressure|cholesterol|a1c|blood sugar|healthier|energy|sleep better)\b/]
+];
+
+const goals: Rule = (s, original) => {
+  const m = s.match(/\b(?:my (?:main |big |primary )?goal is (?:to )?|i(?:'m| am) (?:trying|training|working|aiming) (?:to |for )|i want to |i'?d like to |i need to |i hope to |i plan to )([^.!?;]+)/);
+  if (!m) return [];
+  const kind = GOAL_KINDS.find(([, re]) => re.test(m[1]));
+  if (!kind) return [];
+  const target = m[1].trim();
+  return [{
+    key: `goal:${kind[0]}`,
+    value: { text: `Goal: ${target}`, original, kind: kind[0], target },
+    tier: tierFor(s, 'long_term'),
+    topics: ['goals']
+  }];
+};
+
+const RULES: Rule[] = [injuries, dislikes, equipment, schedule, goals];
+
+// ========== PUBLIC API ==========
+
+/**
+ * Extract durable facts from one user message. Statements the user hedges
+ * ("I think", "maybe") are kept as inferred with lower confidence.
+ */
+export function extractMemoryFacts(message: string, now: Date = new Date()): ExtractedFact[] {
+  // Questions ask about things, they don't state them
+  const sentences = message
+    .split(/(?<=[.!?;\n])\s*/)
+    .map(s => s.trim())
+    .filter(s => s && !/\?\s*$/.test(s));
+
+  const byKey = new Map<string, ExtractedFact>();
+  for (const raw of sentences) {
+    const sentence = raw.toLowerCase().replace(/[’‘]/g, "'");
+    const hedged = HEDGES.test(sentence);
+    for (const rule of RULES) {
+      for (const draft of rule(sentence, raw)) {
+        const ttl = draft.tier === 'long_term' ? null : new Date(now.getTime() + TIER_TTL_DAYS[draft.tier] * DAY_MS).toISOString();
+        byKey.set(draft.key, {
+          ...draft,
+          ttl,
+          source: hedged ? 'inferred' : 'explicit',
+          confidence: hedged ? 0.6 : 0.9
+        });
+      }
+    }
+  }
+  return [...byKey.values()];
+}
+
+const TOPIC_CUES: Array<[MemoryTopic, RegExp]> = [
+  ['injury', new RegExp(`\\b(hurt|pain|injur\\w*|sore|${BODY_PARTS.join('|')})\\b`)],
+  ['nutrition', /\b(eat|ate|food|meal|breakfast|lunch|dinner|snack|recipe|protein|carbs?|fat|calories|macros?|diet|hungry|cook)\b/],
+  ['training', /\b(workout|work out|train\w*|exercise|lift\w*|gym|run\w*|cardio|sets?|reps?|program|routine|squat|bench|deadlift)\b/],
+  ['equipment', /\b(equipment|home gym|at home|dumbbells?|kettlebells?|barbell|bands|machine)\b/],
+  ['schedule', /\b(schedule|today|tomorrow|tonight|this week|morning|evening|monday|tuesday|wednesday|thursday|friday|saturday|sunday|when should)\b/],
+  ['goals', /\b(goal|progress|target|lose|gain|cut|bulk|on track|plateau|race|marathon)\b/]
+];
+
+/** Topics a message touches, for selecting which memories to recall */
+export function topicsForMessage(message: string): MemoryTopic[] {
+  const text = message.toLowerCase();
+  const topics = TOPIC_CUES.filter(([, re]) => re.test(text)).map(([topic]) => topic);
+  // Anything about training should respect injuries and available equipment
+  if (topics.includes('training')) {
+    for (const implied of ['injury', 'equipment'] as MemoryTopic[]) {
+      if (!topics.includes(implied)) topics.push(implied);
+    }
+  }
+  return topics;
+}
@@ -0,0 +1,199 @@
+/**
+ * Answers to history queries, computed from rows already fetched for them.
+ * Pure so the numbers can be tested without a database.
+ */
+
+import { FOCUS_PATTERNS, isoDate, rangeDays, shortDate, type DateRange, type NutritionMetric, type WorkoutFocus } from './historyQuery';
+
+export interface DayTotalsRow {
+  date: string;
+  totals: Partial<Record<NutritionMetric, number>> | null;
+}
+
+export interface MealEntry {
+  ts: string;
+  meal_slot: string | null;
+  items: Array<{ name: string; energy_kcal: number | null }>;
+}
+
+export interface WorkoutEntry {
+  workout_date: string;
+  workout_type: string | null;
+  duration_minutes: number | null;
+  notes: string | null;
+}
+
+export interface SleepEntry {
+  sleep_date: string;
+  duration_minutes: number;
+}
+
+export interface WeightEntry {
+  log_date: string;
+  weight_lbs: number;
+}
+
+export interface HistoryAnswer {
+  text: string;
+  data: Record<string, unknown>;
+}
+
+const METRIC_LABELS: Record<NutritionMetric, { name: string; unit: string }> = {
+  kcal: { name: 'calories', unit: 'kcal' },
+  protein_g: { name: 'protein', unit: 'g' },
+  carbs_g: { name: 'carbs', unit: 'g' },
+  fat_g: { name: 'fat', unit: 'g' }
+};
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
+
+function relativeDay(date: string, today: string): string {
+  const diff = daysBetween(date, today);
+  if (diff === 0) return 'today';
+  if (diff === 1) return 'yesterday';
+  return `${diff} days ago`;
+}
+
+/** Average or total of one macro; averages are over days with anything logged */
+export function answerNutrition(
+  days: DayTotalsRow[],
+  metric: NutritionMetric,
+  stat: 'average' | 'total',
+  range: DateRange
+): HistoryAnswer {
+  const { name, unit } = METRIC_LABELS[metric];
+  const logged = days.filter(d => d.totals && Number(d.totals.kcal ?? 0) > 0);
+  if (!logged.length) {
+    return { text: `You haven't logged any meals ${range.label}.`, data: { metric, stat, daysLogged: 0 } };
+  }
+
+  const total = logged.reduce((sum, d) => sum + Number(d.totals?.[metric] ?? 0), 0);
+  const spanDays = rangeDays(range);
+
+  if (stat === 'total' || spanDays === 1) {
+    const value = Math.round(total);
+    return {
+      text: `You've had ${value} ${unit} of ${name} ${range.label}` +
+        (spanDays > 1 ? ` across ${logged.length} logged day${logged.length === 1 ? '' : 's'}.` : '.'),
+      data: { metric, stat: 'total', value, daysLogged: logged.length }
+    };
+  }
+
+  const value = Math.round(total / logged.length);
+  const coverage = logged.length < spanDays ? ` (${logged.length} of ${spanDays} days logged)` : '';
+  return {
+    text: `You averaged ${value} ${unit} of ${name} per day ${range.label}${coverage}.`,
+    data: { metric, stat: 'average', value, daysLogged: logged.length, spanDays }
+  };
+}
+
+/** Meals in the range in the order they were eaten, with calories per meal */
+export function answerMeals(meals: MealEntry[], range: DateRange): HistoryAnswer {
+  if (!meals.length) return { text: `You haven't logged any meals ${range.label}.`, data: { meals: 0 } };
+
+  const sorted = [...meals].sort((a, b) => a.ts.localeCompare(b.ts));
+  const multiDay = rangeDays(range) > 1;
+  const lines = sorted.map(meal => {
+    const kcal = Math.round(meal.items.reduce((sum, i) => sum + Number(i.energy_kcal ?? 0), 0));
+    const names = meal.items.map(i => i.name).join(', ') || 'unnamed items';
+    const slot = meal.meal_slot ? `${meal.meal_slot[0].toUpperCase()}${meal.meal_slot.slice(1)}` : 'Meal';
+    const day = multiDay ? `${shortDate(isoDate(new Date(meal.ts)))} ` : '';
+    return `- ${day}${slot}: ${names} (${kcal} kcal)`;
+  });
+  const totalKcal = Math.round(sorted.reduce((sum, m) => sum + m.items.reduce((s, i) => s + Number(i.energy_kcal ?? 0), 0), 0));
+
+  return {
+    text: `Here's what you logged ${range.label}:\n${lines.join('\n')}\nTotal: ${totalKcal} kcal.`,
+    data: { meals: sorted.length, totalKcal }
+  };
+}
+
+export function workoutMatchesFocus(workout: WorkoutEntry, focus: WorkoutFocus): boolean {
+  const text = `${workout.workout_type ?? ''} ${workout.notes ?? ''}`.toLowerCase();
+  return FOCUS_PATTERNS[focus].test(text);
+}
+
+/** Most recent workout, optionally one that hit a muscle group or modality */
+export function answerLastWorkout(workouts: WorkoutEntry[], focus: WorkoutFocus | null, today: string): HistoryAnswer {
+  const label = focus ? `${focus === 'run' ? 'run' : `${focus} workout`}` : 'workout';
+  const last = [...workouts]
+    .sort((a, b) => b.workout_date.localeCompare(a.workout_date))
+    .find(w => !focus || workoutMatchesFocus(w, focus));
+
+  if (!last) return { text: `I don't see a logged ${label} in your history.`, data: { focus, found: false } };
+
+  const details = [last.workout_type, last.duration_minutes ? `${last.duration_minutes} min` : null].filter(Boolean).join(', ');
+  return {
+    text: `Your last ${label} was ${shortDate(last.workout_date)} (${relativeDay(last.workout_date, today)})` +
+      (details ? ` — ${details}` : '') +
+      (last.notes ? `: ${last.notes}` : '.'),
+    data: { focus, found: true, date: last.workout_date, daysAgo: daysBetween(last.workout_date, today) }
+  };
+}
+
+export function answerWorkoutCount(workouts: WorkoutEntry[], range: DateRange): HistoryAnswer {
+  const days = new Set(workouts.map(w => w.workout_date)).size;
+  const minutes = workouts.reduce((sum, w) => sum + Number(w.duration_minutes ?? 0), 0);
+  return {
+    text: `You logged ${workouts.length} workout${workouts.length === 1 ? '' : 's'} ${range.label}` +
+      (workouts.length ? ` on ${days} day${days === 1 ? '' : 's'}, ${minutes} minutes in total.` : '.'),
+    data: { workouts: workouts.length, days, minutes }
+  };
+}
+
+export function answerSleep(nights: SleepEntry[], range: DateRange): HistoryAnswer {
+  if (!nights.length) return { text: `You haven't logged any sleep ${range.label}.`, data: { nights: 0 } };
+
+  const hours = nights.map(n => n.duration_minutes / 60);
+  const average = round1(hours.reduce((a, b) => a + b, 0) / hours.length);
+  if (nights.length === 1) {
+    return { text: `You slept ${round1(hours[0])} hours ${range.label}.`, data: { nights: 1, averageHours: average } };
+  }
+  const shortest = nights.reduce((a, b) => (b.duration_minutes < a.duration_minutes ? b : a));
+  const longest = nights.reduce((a, b) => (b.duration_minutes > a.duration_minutes ? b : a));
+  return {
+    text: `You averaged ${average} hours of sleep ${range.label} over ${nights.length} nights ` +
+      `(shortest ${round1(shortest.duration_minutes / 60)}h on ${shortDate(shortest.sleep_date)}, ` +
+      `longest ${round1(longest.duration_minutes / 60)}h on ${shortDate(longest.sleep_date)}).`,
+    data: { nights: nights.length, averageHours: average }
+  };
+}
+
+/**
+ * First-to-last change plus a least-squares weekly rate, so a single noisy
+ * weigh-in doesn't define the trend.
+ */
+export function answerWeightTrend(weights: WeightEntry[], range: DateRange): HistoryAnswer {
+  const sorted = [...weights].sort((a, b) => a.log_date.localeCompare(b.log_date));
+  if (sorted.length < 2) {
+    return {
+      text: sorted.length
+        ? `You only have one weigh-in ${range.label} (${round1(sorted[0].weight_lbs)} lbs), so there's no trend yet.`
+        : `You haven't logged your weight ${range.label}.`,
+      data: { weighIns: sorted.length }
+    };
+  }
+
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  const xs = sorted.map(w => daysBetween(first.log_date, w.log_date));
+  const ys = sorted.map(w => Number(w.weight_lbs));
+  const meanX = xs.reduce((a, b) => a + b, 0) / xs.length;
+  const meanY = ys.reduce((a, b) => a + b, 0) / ys.length;
+  const sxx = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+  const slope = sxx ? xs.reduce((sum, x, i) => sum + (x - meanX) * (ys[i] - meanY), 0) / sxx : 0;
+  const weeklyRate = round1(slope * 7);
+  const change = round1(ys[ys.length - 1] - ys[0]);
+  const direction = change < 0 ? `down ${Math.abs(change)} lbs` : change > 0 ? `up ${change} lbs` : 'unchanged';
+
+  return {
+    text: `Your weight is ${direction} ${range.label}: ${round1(ys[0])} lbs on ${shortDate(first.log_date)} → ` +
+      `${round1(ys[ys.length - 1])} lbs on ${shortDate(last.log_date)} (${sorted.length} weigh-ins, ` +
+      `trend ${weeklyRate > 0 ? '+' : ''}${weeklyRate} lbs/week).`,
+    data: { weighIns: sorted.length, start: ys[0], end: ys[ys.length - 1], change, weeklyRate }
+  };
+}
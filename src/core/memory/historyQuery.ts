@@ -0,0 +1,206 @@
+/**
+ * History queries
+ * Turns questions about the user's own logs ("how much protein did I average
+ * last week", "when did I last train legs") into typed queries that
+ * chatContext.ts answers from structured tables with computed numbers.
+ */
+
+/** Inclusive local date range, YYYY-MM-DD */
+export interface DateRange {
+  from: string;
+  to: string;
+  label: string;
+}
+
+export type NutritionMetric = 'kcal' | 'protein_g' | 'carbs_g' | 'fat_g';
+
+export type WorkoutFocus = 'legs' | 'chest' | 'back' | 'shoulders' | 'arms' | 'core' | 'cardio' | 'run';
+
+export type HistoryQuery =
+  | { kind: 'nutrition'; metric: NutritionMetric; stat: 'average' | 'total'; range: DateRange }
+  | { kind: 'meals'; range: DateRange }
+  | { kind: 'last_food'; food: string }
+  | { kind: 'last_workout'; focus: WorkoutFocus | null }
+  | { kind: 'workout_count'; range: DateRange }
+  | { kind: 'sleep'; range: DateRange }
+  | { kind: 'weight_trend'; range: DateRange };
+
+// ========== DATES ==========
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export function isoDate(d: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+function addDays(d: Date, days: number): Date {
+  const copy = new Date(d.getFullYear(), d.getMonth(), d.getDate());
+  copy.setDate(copy.getDate() + days);
+  return copy;
+}
+
+/** "Nov 18" for a YYYY-MM-DD date */
+export function shortDate(date: string): string {
+  const [, m, d] = date.split('-').map(Number);
+  return `${MONTHS[m - 1]} ${d}`;
+}
+
+/** Number of days in a range, inclusive */
+export function rangeDays(range: DateRange): number {
+  return Math.round((Date.parse(`${range.to}T00:00:00Z`) - Date.parse(`${range.from}T00:00:00Z`)) / 86400000) + 1;
+}
+
+function lastNDays(now: Date, n: number, label: string): DateRange {
+  return { from: isoDate(addDays(now, -(n - 1))), to: isoDate(now), label };
+}
+
+/** The date range a question refers to, or null when it names none */
+export function parseDateRange(text: string, now: Date = new Date()): DateRange | null {
+  const t = text.toLowerCase();
+  const today = isoDate(now);
+
+  if (/\btoday\b/.test(t)) return { from: today, to: today, label: 'today' };
+  if (/\byesterday\b/.test(t)) {
+    const y = isoDate(addDays(now, -1));
+    return { from: y, to: y, label: 'yesterday' };
+  }
+
+  const nDays = t.match(/\b(?:last|past) (\d+) days\b/);
+  if (nDays) return lastNDays(now, Number(nDays[1]), `the last ${nDays[1]} days`);
+  if (/\b(past|last) 7 days\b|\bpast week\b/.test(t)) return lastNDays(now, 7, 'the last 7 days');
+
+  // Weeks run Monday to Sunday
+  const monday = addDays(now, -((now.getDay() + 6) % 7));
+  if (/\bthis week\b/.test(t)) return { from: isoDate(monday), to: today, label: 'this week' };
+  if (/\blast week\b/.test(t)) {
+    return { from: isoDate(addDays(monday, -7)), to: isoDate(addDays(monday, -1)), label: 'last week' };
+  }
+
+  if (/\bthis month\b/.test(t)) {
+    return { from: isoDate(new Date(now.getFullYear(), now.getMonth(), 1)), to: today, label: 'this month' };
+  }
+  if (/\blast month\b/.test(t)) {
+    return {
+      from: isoDate(new Date(now.getFullYear(), now.getMonth() - 1, 1)),
+      to: isoDate(new Date(now.getFullYear(), now.getMonth(), 0)),
+      label: 'last month'
+    };
+  }
+  if (/\b(past|last) (30 days|month)\b/.test(t)) return lastNDays(now, 30, 'the last 30 days');
+
+  // A bare weekday means its most recent occurrence before today
+  const weekday = WEEKDAYS.findIndex(day => new RegExp(`\\b${day}\\b`).test(t));
+  if (weekday >= 0) {
+    const back = ((now.getDay() - weekday + 7) % 7) || 7;
+    const date = isoDate(addDays(now, -back));
+    return { from: date, to: date, label: `${WEEKDAYS[weekday][0].toUpperCase()}${WEEKDAYS[weekday].slice(1)} (${shortDate(date)})` };
+  }
+
+  return null;
+}
+
+// ========== PARSING ==========
+
+const METRICS: Array<[NutritionMetric, RegExp]> = [
+  ['protein_g', /\bprotein\b/],
+  ['carbs_g', /\bcarbs?\b|\bcarbohydrates?\b/],
+  ['fat_g', /\bfats?\b/],
+  ['kcal', /\bcalories\b|\bkcals?\b|\bcals\b/]
+];
+
+export const FOCUS_PATTERNS: Record<WorkoutFocus, RegExp> = {
+  legs: /\b(legs?|squats?|lunges?|leg press|deadlifts?|rdls?|hamstrings?|quads?|calf|calves|glutes?)\b/,
+  chest: /\b(chest|bench|press(es)?|push-?ups?|flyes?|dips?|pecs?)\b/,
+  back: /\b(back|rows?|pull-?ups?|chin-?ups?|lat|lats|pulldowns?)\b/,
+  shoulders: /\b(shoulders?|overhead press|ohp|lateral raises?|delts?)\b/,
+  arms: /\b(arms?|biceps?|triceps?|curls?|extensions?)\b/,
+  core: /\b(core|abs|planks?|crunch(es)?|sit-?ups?)\b/,
+  cardio: /\b(cardio|bike|cycling|rower|rowing|swim(ming)?|elliptical|hiit|zone 2|walk)\b/,
+  run: /\b(run|ran|running|jog|jogging)\b/
+};
+
+const FOCUS_WORDS: Array<[WorkoutFocus, RegExp]> = [
+  ['legs', /\b(legs?|leg day|lower body)\b/],
+  ['chest', /\b(chest|bench)\b/],
+  ['back', /\bback\b/],
+  ['shoulders', /\bshoulders?\b/],
+  ['arms', /\b(arms?|biceps|triceps)\b/],
+  ['core', /\b(core|abs)\b/],
+  ['run', /\b(run|ran|running|jog)\b/],
+  ['cardio', /\bcardio\b/]
+];
+
+const ASKS = /\?\s*$|^(what|what's|whats|how|how's|when|did|have|has|show|tell|give|list|was|is)\b/;
+const ADVICE = /\b(should|could|would|need to|ought|recommend|how (do|can) i|how to|is it|is in|are in)\b/;
+const WORKOUT_WORDS = /\b(train(ed)?|work(ed)? ?out|workouts?|lift(ed)?|gym|sessions?|exercised?|leg day|run|ran)\b/;
+// Something already logged: a past-tense verb, "so far", "last", a trend
+const PAST_LOGS = /\b(did|have i|had|ate|eaten|logged|averaged?|so far|last|ever|trend|slept|trained)\b/;
+// "I had 2 eggs, how much protein is that?" asks about the food just reported
+const FOOD_REPORT = /(^|[,.;!]\s*|\band\s+)i (just )?(had|ate|drank|eaten)\b|\b(is|in) (that|this|those|these|it)\b/;
+// Energy burned isn't in the food or workout logs
+const EXPENDITURE = /\b(burn|burned|burnt|burning|expend(ed|iture)?|tdee|bmr)\b/;
+
+function cleanTerm(raw: string): string {
+  return raw
+    .replace(/[?.!]+$/, '')
+    .replace(/^(some|any|a|an|the)\s+/, '')
+    .trim()
+    .split(/\s+/)
+    .slice(0, 3)
+    .join(' ');
+}
+
+/**
+ * Parse a question about the user's history into a typed query. Returns null
+ * for anything that isn't one, including meal and workout reports to log.
+ */
+export function parseHistoryQuery(text: string, now: Date = new Date()): HistoryQuery | null {
+  const t = text.toLowerCase().replace(/[’‘]/g, "'").trim();
+  // Only questions about the user's own logs; "how much protein should I eat" is advice
+  if (!ASKS.test(t) || !/\b(i|i've|my|me)\b/.test(t) || ADVICE.test(t)) return null;
+  if (FOOD_REPORT.test(t) || EXPENDITURE.test(t)) return null;
+  const range = parseDateRange(t, now);
+  if (!range && !PAST_LOGS.test(t)) return null;
+
+  if (/\bweight\b|\bweigh\b/.test(t) && /\b(trend|change|changed|going|doing|progress|lost|gained|lose|gain|down|up|how)\b/.test(t)) {
+    return { kind: 'weight_trend', range: range ?? lastNDays(now, 30, 'the last 30 days') };
+  }
+
+  if (/\b(sleep|slept)\b/.test(t)) {
+    return { kind: 'sleep', range: range ?? lastNDays(now, 7, 'the last 7 days') };
+  }
+
+  const lastFood = t.match(/\b(?:when (?:was the )?(?:last time|did) i (?:last )?|last time i |have i (?:ever )?)(?:eat|ate|eaten|have|had|log|logged)\s+(.+)$/);
+  if (lastFood && !WORKOUT_WORDS.test(lastFood[1]) && !/\benough\b/.test(lastFood[1]) && !METRICS.some(([, re]) => re.test(lastFood[1]))) {
+    const food = cleanTerm(lastFood[1].replace(/\b(last|recently|ever)\b/g, ''));
+    if (food) return { kind: 'last_food', food };
+  }
+
+  if (/\b(when|last time)\b/.test(t) && WORKOUT_WORDS.test(t)) {
+    const focus = FOCUS_WORDS.find(([, re]) => re.test(t));
+    return { kind: 'last_workout', focus: focus ? focus[0] : null };
+  }
+
+  if (/\bhow many (workouts|times|sessions|days)\b/.test(t) && WORKOUT_WORDS.test(t)) {
+    return { kind: 'workout_count', range: range ?? parseDateRange('this week', now) as DateRange };
+  }
+
+  const metric = METRICS.find(([, re]) => re.test(t));
+  if (metric && /\b(how much|how many|average|avg|total|what was|what's|what is|did i|have i)\b/.test(t)) {
+    const average = /\b(average|avg|averaged|per day|a day|daily)\b/.test(t);
+    return {
+      kind: 'nutrition',
+      metric: metric[0],
+      stat: average ? 'average' : 'total',
+      range: range ?? (average ? lastNDays(now, 7, 'the last 7 days') : { from: isoDate(now), to: isoDate(now), label: 'today' })
+    };
+  }
+
+  if (/\bwhat (did|have) i (eat|eaten|have|had)\b|\bwhat i (ate|had)\b|\b(show|list) (me )?my meals\b/.test(t)) {
+    return { kind: 'meals', range: range ?? { from: isoDate(now), to: isoDate(now), label: 'today' } };
+  }
+
+  return null;
+}
@@ -0,0 +1,108 @@
+/**
+ * Long-term user memory for chat
+ * Writes extracted facts to user_memory after each turn and recalls the ones
+ * relevant to a new message by topic overlap and embedding similarity.
+ */
+
+import { MemoryService } from '../../lib/memory';
+import type { MemoryRow } from '../../types/swarm';
+import { getEmbeddings } from '../router/embed';
+import { extractMemoryFacts, topicsForMessage, type MemoryTopic } from './factExtractor';
+
+export type RankedMemory = MemoryRow & { score: number };
+
+/** Below this similarity a memory needs a topic match to be recalled */
+const MIN_SIMILARITY = 0.35;
+
+function cosine(a: number[], b: number[]) {
+  if (a.length !== b.length || !a.length) return 0;
+  let dot = 0, na = 0, nb = 0;
+  for (let i = 0; i < a.length; i++) { dot += a[i] * b[i]; na += a[i] * a[i]; nb += b[i] * b[i]; }
+  return na && nb ? dot / (Math.sqrt(na) * Math.sqrt(nb)) : 0;
+}
+
+async function embedOrNull(texts: string[]): Promise<number[][] | null> {
+  try {
+    const vectors = await getEmbeddings(texts);
+    return vectors.length === texts.length ? vectors : null;
+  } catch (err) {
+    console.warn('[memory] Embedding failed, continuing without vectors:', err);
+    return null;
+  }
+}
+
+/** What Pat says it remembers; falls back to the key for rows written elsewhere */
+export function memoryText(memory: MemoryRow): string {
+  if (typeof memory.value?.text === 'string') return memory.value.text;
+  return typeof memory.value === 'string' ? memory.value : memory.key;
+}
+
+/**
+ * Extract durable facts from a user message and store them. Returns how many
+ * were written; conflict resolution keeps explicit facts over inferred ones.
+ */
+export async function rememberFacts(userId: string, message: string, now: Date = new Date()): Promise<number> {
+  const facts = extractMemoryFacts(message, now);
+  if (!facts.length) return 0;
+
+  const vectors = await embedOrNull(facts.map(f => f.value.text));
+  const ids = await Promise.all(
+    facts.map((fact, i) =>
+      MemoryService.upsertWithConflictResolution(userId, fact.key, fact.value, fact.source, fact.confidence, {
+        tier: fact.tier,
+        topics: fact.topics,
+        ttl: fact.ttl,
+        embedding: vectors ? vectors[i] : null
+      })
+    )
+  );
+  const written = ids.filter(Boolean).length;
+  console.info('[memory] Remembered', written, 'of', facts.length, 'facts:', facts.map(f => f.key));
+  return written;
+}
+
+/**
+ * Score memories against a message: topic overlap and embedding similarity,
+ * nudged by tier and confidence. Memories with neither a topic match nor
+ * enough similarity are dropped.
+ */
+export function rankMemories(
+  memories: MemoryRow[],
+  topics: MemoryTopic[],
+  queryVector: number[] | null,
+  k = 5
+): RankedMemory[] {
+  return memories
+    .map(memory => {
+      const overlap = memory.topics.filter(t => topics.includes(t as MemoryTopic)).length;
+      const topicScore = overlap / Math.max(memory.topics.length, 1);
+      const similarity = queryVector && memory.embedding ? cosine(queryVector, memory.embedding) : 0;
+      const tierScore = memory.tier === 'long_term' ? 1 : memory.tier === 'short_term' ? 0.8 : 0.6;
+      return {
+        memory,
+        relevant: overlap > 0 || similarity >= MIN_SIMILARITY,
+        score: topicScore * 0.45 + Math.max(0, similarity) * 0.45 + tierScore * memory.confidence * 0.1
+      };
+    })
+    .filter(r => r.relevant)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k)
+    .map(r => ({ ...r.memory, score: r.score }));
+}
+
+/** The user's memories worth bringing into this message's context */
+export async function recallMemories(userId: string, message: string, k = 5): Promise<RankedMemory[]> {
+  const candidates = await MemoryService.query({ userId, minConfidence: 0.3, limit: 50 });
+  if (!candidates.length) return [];
+
+  const vectors = await embedOrNull([message]);
+  return rankMemories(candidates, topicsForMessage(message), vectors ? vectors[0] : null, k);
+}
+
+export function memoriesToSystemLine(memories: MemoryRow[]): string {
+  if (!memories.length) return '';
+
+  const list = memories.map(memoryText).join('; ');
+
+  return `What you already know about the user (don't ask again): [${list}]`;
+}
@@ -0,0 +1,228 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeMealText, parseItemPhrase, parseMealText } from '../mealParser';
+import { sanitizeNormalizedItems } from '../sanitizeNormalizedItems';
+
+type Expected = {
+  name: string;
+  amount?: number | null;
+  unit?: string | null;
+  brand?: string | null;
+  serving_label?: string | null;
+  prep_method?: string | null;
+  modifier?: string | null;
+};
+
+// [input, expected items, simple]
+const FIXTURES: Array<[string, Expected[], boolean]> = [
+  // Plain counts and number words
+  ['3 eggs', [{ name: 'eggs', amount: 3, unit: null }], true],
+  ['an apple', [{ name: 'apple', amount: 1 }], true],
+  ['a banana', [{ name: 'banana', amount: 1 }], true],
+  ['banana', [{ name: 'banana', amount: null, unit: null }], true],
+  ['two eggs', [{ name: 'eggs', amount: 2 }], true],
+  ['twelve almonds', [{ name: 'almonds', amount: 12 }], true],
+  ['twenty five almonds', [{ name: 'almonds', amount: 25 }], true],
+  ['twenty-five grapes', [{ name: 'grapes', amount: 25 }], true],
+  ['a couple of eggs', [{ name: 'eggs', amount: 2 }], true],
+  ['a couple eggs', [{ name: 'eggs', amount: 2 }], true],
+  ['a few strawberries', [{ name: 'strawberries', amount: 3 }], true],
+  ['a dozen wings', [{ name: 'wings', amount: 12 }], true],
+  ['half a dozen eggs', [{ name: 'eggs', amount: 6 }], true],
+  ['eggs x3', [{ name: 'eggs', amount: 3 }], true],
+  ['3x eggs', [{ name: 'eggs', amount: 3 }], true],
+
+  // Fractions and decimals
+  ['1/2 avocado', [{ name: 'avocado', amount: 0.5 }], true],
+  ['½ cup greek yogurt', [{ name: 'greek yogurt', amount: 0.5, unit: 'cup' }], true],
+  ['1½ cups oatmeal', [{ name: 'oatmeal', amount: 1.5, unit: 'cup' }], true],
+  ['1 1/2 cups milk', [{ name: 'milk', amount: 1.5, unit: 'cup' }], true],
+  ['1 and 1/2 cups of broccoli', [{ name: 'broccoli', amount: 1.5, unit: 'cup' }], true],
+  ['1.5 cups rice', [{ name: 'rice', amount: 1.5, unit: 'cup' }], true],
+  ['.5 cup blueberries', [{ name: 'blueberries', amount: 0.5, unit: 'cup' }], true],
+  ['half an avocado', [{ name: 'avocado', amount: 0.5 }], true],
+  ['half a cup of oats', [{ name: 'oats', amount: 0.5, unit: 'cup' }], true],
+  ['a half cup of rice', [{ name: 'rice', amount: 0.5, unit: 'cup' }], true],
+  ['a quarter cup of walnuts', [{ name: 'walnuts', amount: 0.25, unit: 'cup' }], true],
+  ['three quarters cup of granola', [{ name: 'granola', amount: 0.75, unit: 'cup' }], true],
+  ['two thirds cup of milk', [{ name: 'milk', amount: 0.667, unit: 'cup' }], true],
+  ['two and a half cups of rice', [{ name: 'rice', amount: 2.5, unit: 'cup' }], true],
+  ['a cup and a half of oatmeal', [{ name: 'oatmeal', amount: 1.5, unit: 'cup' }], true],
+
+  // Ranges use the midpoint
+  ['2-3 eggs', [{ name: 'eggs', amount: 2.5 }], true],
+  ['2 to 3 tbsp peanut butter', [{ name: 'peanut butter', amount: 2.5, unit: 'tbsp' }], true],
+  ['two or three cookies', [{ name: 'cookies', amount: 2.5 }], true],
+  ['4-6 oz chicken', [{ name: 'chicken', amount: 5, unit: 'oz' }], true],
+
+  // Units
+  ['8oz steak', [{ name: 'steak', amount: 8, unit: 'oz' }], true],
+  ['16-oz ribeye steak', [{ name: 'ribeye steak', amount: 16, unit: 'oz' }], true],
+  ['200g salmon', [{ name: 'salmon', amount: 200, unit: 'g' }], true],
+  ['200 grams of chicken breast', [{ name: 'chicken breast', amount: 200, unit: 'g' }], true],
+  ['1 lb ground beef', [{ name: 'ground beef', amount: 1, unit: 'lb' }], true],
+  ['250 ml orange juice', [{ name: 'orange juice', amount: 250, unit: 'ml' }], true],
+  ['12 fl oz cola', [{ name: 'cola', amount: 12, unit: 'fl oz' }], true],
+  ['8 fluid ounces of milk', [{ name: 'milk', amount: 8, unit: 'fl oz' }], true],
+  ['1 tablespoon olive oil', [{ name: 'olive oil', amount: 1, unit: 'tbsp' }], true],
+  ['2 tsp sugar', [{ name: 'sugar', amount: 2, unit: 'tsp' }], true],
+  ['2 slices of sourdough bread', [{ name: 'sourdough bread', amount: 2, unit: 'slice' }], true],
+  ['3 strips of bacon', [{ name: 'bacon', amount: 3, unit: 'strip' }], true],
+  ['a handful of almonds', [{ name: 'almonds', amount: 1, unit: 'handful' }], true],
+  ['2 scoops whey protein', [{ name: 'whey protein', amount: 2, unit: 'scoop' }], true],
+  ['a bowl of cereal', [{ name: 'cereal', amount: 1, unit: 'bowl' }], true],
+  ['cup of coffee', [{ name: 'coffee', amount: 1, unit: 'cup' }], true],
+  ['a glass of milk', [{ name: 'milk', amount: 1, unit: 'glass' }], true],
+  ['1 can of tuna', [{ name: 'tuna', amount: 1, unit: 'can' }], true],
+  ['chicken breast 8oz', [{ name: 'chicken breast', amount: 8, unit: 'oz' }], true],
+  ['rice 1.5 cups', [{ name: 'rice', amount: 1.5, unit: 'cup' }], true],
+
+  // Sizes stay in the name for the portion engine
+  ['2 large eggs', [{ name: 'large eggs', amount: 2, unit: null }], true],
+  ['a medium banana', [{ name: 'medium banana', amount: 1 }], true],
+  ['large fries', [{ name: 'large fries', amount: null }], true],
+
+  // Brands and serving labels
+  ["mcdonald's big mac", [{ name: 'big mac', brand: "McDonald's" }], true],
+  ['starbucks grande latte', [{ name: 'grande latte', brand: 'Starbucks' }], true],
+  ['chick fil a sandwich', [{ name: 'sandwich', brand: 'Chick-fil-A' }], true],
+  ['2 kirkland protein bars', [{ name: 'protein bars', amount: 2, brand: 'Costco' }], true],
+  ['burrito bowl from chipotle', [{ name: 'burrito bowl', brand: 'Chipotle' }], true],
+  ['a quest bar', [{ name: 'bar', amount: 1, brand: 'Quest' }], true],
+  ['chipotle', [{ name: 'chipotle', brand: null }], true],
+  ['10 piece chicken mcnuggets', [{ name: 'chicken mcnuggets', amount: null, serving_label: '10-piece' }], true],
+  ['two 10-piece nuggets', [{ name: 'nuggets', amount: 2, serving_label: '10-piece' }], true],
+  ['3 pieces of chicken', [{ name: 'chicken', amount: 3, unit: 'piece', serving_label: null }], true],
+
+  // Preparation methods are detected and kept in the name
+  ['2 scrambled eggs', [{ name: 'scrambled eggs', amount: 2, prep_method: 'scrambled' }], true],
+  ['grilled chicken breast', [{ name: 'grilled chicken breast', prep_method: 'grilled' }], true],
+  ['6 oz baked salmon', [{ name: 'baked salmon', amount: 6, unit: 'oz', prep_method: 'baked' }], true],
+  ['2 hard boiled eggs', [{ name: 'hard boiled eggs', prep_method: 'hard boiled' }], true],
+  ['air fried potatoes', [{ name: 'air fried potatoes', prep_method: 'air fried' }], true],
+  ['steamed broccoli', [{ name: 'steamed broccoli', prep_method: 'steamed' }], true],
+
+  // Modifiers become attached items
+  ['toast with butter', [{ name: 'toast' }, { name: 'butter', modifier: 'with' }], true],
+  ['coffee w/ cream', [{ name: 'coffee' }, { name: 'cream', modifier: 'with' }], true],
+  ['eggs on toast', [{ name: 'eggs' }, { name: 'toast', modifier: 'on' }], true],
+  ['oatmeal topped with blueberries', [{ name: 'oatmeal' }, { name: 'blueberries', modifier: 'topped with' }], true],
+  ['ice cream with a handful of walnuts', [{ name: 'ice cream' }, { name: 'walnuts', amount: 1, unit: 'handful' }], true],
+  ['salmon over 1 cup rice', [{ name: 'salmon' }, { name: 'rice', amount: 1, unit: 'cup', modifier: 'over' }], true],
+  [
+    'two and a half cups of rice with 1/2 avocado',
+    [{ name: 'rice', amount: 2.5, unit: 'cup' }, { name: 'avocado', amount: 0.5, modifier: 'with' }],
+    true,
+  ],
+
+  // Lists
+  ['3 eggs and toast', [{ name: 'eggs', amount: 3 }, { name: 'toast' }], true],
+  ['3 eggs, toast, and coffee', [{ name: 'eggs' }, { name: 'toast' }, { name: 'coffee' }], true],
+  ['chicken; rice; broccoli', [{ name: 'chicken' }, { name: 'rice' }, { name: 'broccoli' }], true],
+  ['a burger plus fries', [{ name: 'burger', amount: 1 }, { name: 'fries' }], true],
+  ['eggs & bacon', [{ name: 'eggs' }, { name: 'bacon' }], true],
+  [
+    'I had 3 eggs, 2 slices of sourdough toast and a cup of black coffee',
+    [
+      { name: 'eggs', amount: 3 },
+      { name: 'sourdough toast', amount: 2, unit: 'slice' },
+      { name: 'black coffee', amount: 1, unit: 'cup' },
+    ],
+    true,
+  ],
+  [
+    '200g salmon and 1 and 1/2 cups of broccoli',
+    [{ name: 'salmon', amount: 200, unit: 'g' }, { name: 'broccoli', amount: 1.5, unit: 'cup' }],
+    true,
+  ],
+
+  // Compound dish names survive the split
+  ['mac and cheese', [{ name: 'mac and cheese' }], true],
+  ['a peanut butter and jelly sandwich', [{ name: 'peanut butter and jelly sandwich', amount: 1 }], true],
+  ['fish and chips', [{ name: 'fish and chips' }], true],
+  ['coffee with half and half', [{ name: 'coffee' }, { name: 'half and half', amount: null, modifier: 'with' }], true],
+
+  // Lead-in and trailing prose is stripped
+  ['i ate 2 eggs', [{ name: 'eggs', amount: 2 }], true],
+  ['I just had a banana', [{ name: 'banana', amount: 1 }], true],
+  ["I've eaten 2 apples", [{ name: 'apples', amount: 2 }], true],
+  ['for breakfast i had oatmeal', [{ name: 'oatmeal' }], true],
+  ['lunch was a turkey sandwich', [{ name: 'turkey sandwich', amount: 1 }], true],
+  ['log 2 eggs', [{ name: 'eggs', amount: 2 }], true],
+  ['what are the macros of 2 large eggs?', [{ name: 'large eggs', amount: 2 }], true],
+  ['how many calories in a banana', [{ name: 'banana', amount: 1 }], true],
+  ['macros for 1 cup of rice', [{ name: 'rice', amount: 1, unit: 'cup' }], true],
+  ['2 eggs for breakfast', [{ name: 'eggs', amount: 2 }], true],
+  ['a banana this morning', [{ name: 'banana', amount: 1 }], true],
+  ['pizza last night', [{ name: 'pizza' }], true],
+  ['oatmeal at 8am', [{ name: 'oatmeal' }], true],
+  ['some rice', [{ name: 'rice', amount: null }], true],
+  ['about 6 oz of chicken', [{ name: 'chicken', amount: 6, unit: 'oz' }], true],
+
+  // Prose the grammar cannot vouch for goes to the LLM
+  ['i ate eggs but they were cold and i think i had toast', [{ name: 'eggs but they were cold' }, { name: 'i think i had toast' }], false],
+  ['not sure what it was but it had chicken in it', [{ name: 'not sure what it was but it had chicken in it' }], false],
+];
+
+function pick(item: Record<string, unknown>, keys: string[]) {
+  return Object.fromEntries(keys.map(k => [k, item[k]]));
+}
+
+describe('parseMealText fixtures', () => {
+  it.each(FIXTURES)('%s', (input, expected, simple) => {
+    const result = parseMealText(input);
+    expect(result.items).toHaveLength(expected.length);
+    expected.forEach((exp, i) => {
+      const actual = result.items[i] as unknown as Record<string, unknown>;
+      const keys = Object.keys(exp);
+      const got = pick(actual, keys);
+      if (typeof exp.amount === 'number') {
+        expect(got.amount as number).toBeCloseTo(exp.amount, 2);
+        delete got.amount;
+        const rest = { ...exp } as Record<string, unknown>;
+        delete rest.amount;
+        expect(got).toEqual(rest);
+      } else {
+        expect(got).toEqual(exp);
+      }
+    });
+    expect(result.simple).toBe(simple);
+  });
+});
+
+describe('mealParser details', () => {
+  it('records ranges alongside the midpoint', () => {
+    const [item] = parseMealText('2-3 eggs').items;
+    expect(item.range).toEqual([2, 3]);
+  });
+
+  it('collects negated foods instead of items', () => {
+    const result = parseMealText('burger with no cheese and without pickles');
+    expect(result.items.map(i => i.name)).toEqual(['burger']);
+    expect(result.excluded).toEqual(['cheese', 'pickles']);
+  });
+
+  it('links attached items to their head item', () => {
+    const [, butter] = parseMealText('2 slices toast with butter').items;
+    expect(butter.attached_to).toBe('toast');
+  });
+
+  it('normalizes glued units and lead phrases', () => {
+    expect(normalizeMealText('I ate 200g chicken.')).toBe('200 g chicken');
+    expect(normalizeMealText('1½cups rice')).toBe('1 ½ cups rice');
+  });
+
+  it('returns null for a bare number', () => {
+    expect(parseItemPhrase('3')).toBeNull();
+  });
+
+  it('returns no items and not simple for empty input', () => {
+    expect(parseMealText('')).toEqual({ items: [], simple: false, excluded: [] });
+  });
+
+  it('produces items sanitizeNormalizedItems accepts without losing brand or serving', () => {
+    const { items } = parseMealText("two 10-piece mcdonald's nuggets and a starbucks latte");
+    const sanitized = sanitizeNormalizedItems(items);
+    expect(sanitized[0]).toMatchObject({ amount: 2, serving_label: '10-piece', brand: "McDonald's", is_branded: true });
+    expect(sanitized[1]).toMatchObject({ name: 'latte', brand: 'Starbucks', is_branded: true });
+  });
+});
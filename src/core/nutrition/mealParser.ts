@@ -0,0 +1,573 @@
+/**
+ * Deterministic Meal Parser
+ * Grammar-based parse of meal text into the {name, amount, unit, brand, serving_label}
+ * items sanitizeNormalizedItems consumes. Runs before the normalizer LLM; inputs it
+ * parses confidently (`simple`) skip the LLM entirely.
+ *
+ * Grammar per item:  [quantity] [unit [of]] [brand] name [from <brand>] [modifier item]
+ *   quantity: 2 | 1.5 | 1/2 | 1 1/2 | ½ | two | twenty five | a | half (a) | a couple (of)
+ *             | 2-3 | two to three | "and a half" suffix
+ *   modifier: with | w/ | topped with | on | over  → attached item
+ */
+
+export type ModifierRelation = 'with' | 'topped with' | 'on' | 'over';
+
+export interface ParsedMealItem {
+  name: string;
+  amount: number | null;
+  unit: string | null;
+  brand: string | null;
+  serving_label: string | null;
+  prep_method: string | null;
+  /** [low, high] when the quantity was a range; amount is the midpoint */
+  range: [number, number] | null;
+  /** Set on items introduced by "with"/"on"/"topped with" */
+  modifier: ModifierRelation | null;
+  attached_to: string | null;
+  confidence: number;
+  original: string;
+}
+
+export interface MealParseResult {
+  items: ParsedMealItem[];
+  /** True when every item parsed cleanly and the LLM normalizer can be skipped */
+  simple: boolean;
+  /** Foods the user excluded ("without cheese", "no mayo") */
+  excluded: string[];
+}
+
+// Items needed to call a parse "simple"
+const SIMPLE_MIN_CONFIDENCE = 0.8;
+const SIMPLE_MAX_ITEMS = 8;
+
+const LEAD_PHRASES: RegExp[] = [
+  /^(?:what(?:'s| is| are)|how many|tell me|give me|show me|get)\s+(?:the\s+)?(?:macros?|calories|cals|nutrition(?:al)? (?:info|facts)|protein|carbs)\s+(?:of|for|in|on)\s+/,
+  /^(?:macros?|calories|cals|nutrition)\s+(?:of|for|in)\s+/,
+  /^(?:for\s+(?:breakfast|lunch|dinner|brunch|a snack|snack)\s*,?\s*)/,
+  /^(?:(?:breakfast|lunch|dinner|brunch|snack)\s+(?:was|is)\s*:?\s+)/,
+  /^(?:please\s+)?(?:log|track|add|record)\s+/,
+  /^(?:i\s+)?(?:just\s+|also\s+)?(?:ate|had|have had|drank|finished|grabbed|ate up)\s+/,
+  /^i'?ve\s+(?:just\s+)?(?:eaten|had|drunk)\s+/,
+];
+
+const TRAILING_PHRASES =
+  /\s+(?:for\s+(?:breakfast|lunch|dinner|brunch|a snack|snack|dessert)|this\s+(?:morning|afternoon|evening)|last\s+night|tonight|today|yesterday|just now|earlier|at\s+\d{1,2}(?::\d{2})?\s*(?:am|pm)?|around\s+\d{1,2}(?::\d{2})?\s*(?:am|pm)?)\s*$/;
+
+// Dishes whose name contains "and" / "with"
+const COMPOUND_NAMES = [
+  'mac and cheese', 'macaroni and cheese', 'peanut butter and jelly', 'pb and j', 'fish and chips',
+  'half and half', 'sweet and sour', 'salt and vinegar', 'sour cream and onion', 'cookies and cream',
+  'biscuits and gravy', 'spaghetti and meatballs', 'ham and cheese', 'bacon egg and cheese',
+  'rice and beans', 'chips and salsa', 'surf and turf', 'bangers and mash', 'franks and beans',
+];
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  '½': 0.5, '⅓': 1 / 3, '⅔': 2 / 3, '¼': 0.25, '¾': 0.75, '⅕': 0.2, '⅛': 0.125, '⅜': 0.375, '⅝': 0.625, '⅞': 0.875,
+};
+
+const ONES: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19,
+};
+
+const TENS: Record<string, number> = {
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+
+const FRACTION_WORDS: Record<string, number> = {
+  half: 0.5, halves: 0.5, third: 1 / 3, thirds: 1 / 3, quarter: 0.25, quarters: 0.25,
+};
+
+// Quantity words that need "of" or a noun after them
+const VAGUE_QUANTITIES: Record<string, number> = {
+  couple: 2, few: 3, several: 3, dozen: 12,
+};
+
+/**
+ * Unit phrases → canonical unit. Multi-word phrases are matched first.
+ */
+const UNIT_PHRASES: Record<string, string> = {
+  'fluid ounces': 'fl oz', 'fluid ounce': 'fl oz', 'fl oz': 'fl oz', 'fl. oz': 'fl oz', floz: 'fl oz',
+  cups: 'cup', cup: 'cup', c: 'cup',
+  tablespoons: 'tbsp', tablespoon: 'tbsp', tbsps: 'tbsp', tbsp: 'tbsp', tbs: 'tbsp',
+  teaspoons: 'tsp', teaspoon: 'tsp', tsps: 'tsp', tsp: 'tsp',
+  ounces: 'oz', ounce: 'oz', oz: 'oz',
+  grams: 'g', gram: 'g', gr: 'g', g: 'g', gm: 'g',
+  kilograms: 'kg', kilogram: 'kg', kilos: 'kg', kilo: 'kg', kg: 'kg',
+  pounds: 'lb', pound: 'lb', lbs: 'lb', lb: 'lb',
+  milliliters: 'ml', milliliter: 'ml', millilitres: 'ml', ml: 'ml',
+  liters: 'l', liter: 'l', litres: 'l', litre: 'l', l: 'l',
+  slices: 'slice', slice: 'slice',
+  pieces: 'piece', piece: 'piece', pcs: 'piece', pc: 'piece',
+  handfuls: 'handful', handful: 'handful',
+  scoops: 'scoop', scoop: 'scoop',
+  servings: 'serving', serving: 'serving', portions: 'serving', portion: 'serving',
+  bowls: 'bowl', bowl: 'bowl',
+  plates: 'plate', plate: 'plate',
+  cans: 'can', can: 'can',
+  bottles: 'bottle', bottle: 'bottle',
+  glasses: 'glass', glass: 'glass',
+  mugs: 'mug', mug: 'mug',
+  packets: 'packet', packet: 'packet', packs: 'packet', pack: 'packet',
+  sticks: 'stick', stick: 'stick',
+  strips: 'strip', strip: 'strip',
+  links: 'link', link: 'link',
+  fillets: 'fillet', fillet: 'fillet',
+  patties: 'patty', patty: 'patty',
+  cloves: 'clove', clove: 'clove',
+  shots: 'shot', shot: 'shot',
+  containers: 'container', container: 'container',
+  pinches: 'pinch', pinch: 'pinch',
+  dashes: 'dash', dash: 'dash',
+};
+
+// Units that are also ordinary words: only units right after a quantity.
+// Size words (small/medium/large) stay in the name for the portion engine and brand sizes.
+const QUANTITY_ONLY_UNITS = new Set(['c', 'g', 'l', 'gr', 'gm', 'can', 'link', 'shot', 'glass', 'dash']);
+
+const MAX_UNIT_WORDS = 2;
+
+/**
+ * Known brand prefixes → display name
+ */
+const BRANDS: Record<string, string> = {
+  "mcdonald's": "McDonald's", mcdonalds: "McDonald's", mcdonald: "McDonald's", "mcd's": "McDonald's", mcds: "McDonald's",
+  starbucks: 'Starbucks', sbux: 'Starbucks',
+  "wendy's": "Wendy's", wendys: "Wendy's",
+  'burger king': 'Burger King',
+  subway: 'Subway',
+  'taco bell': 'Taco Bell',
+  chipotle: 'Chipotle',
+  'chick-fil-a': 'Chick-fil-A', 'chick fil a': 'Chick-fil-A', chickfila: 'Chick-fil-A',
+  costco: 'Costco', kirkland: 'Costco',
+  "dunkin'": 'Dunkin', dunkin: 'Dunkin', 'dunkin donuts': 'Dunkin',
+  panera: 'Panera',
+  kfc: 'KFC',
+  "domino's": "Domino's", dominos: "Domino's",
+  'pizza hut': 'Pizza Hut',
+  "trader joe's": "Trader Joe's", 'trader joes': "Trader Joe's",
+  "culver's": "Culver's", culvers: "Culver's",
+  'five guys': 'Five Guys',
+  'in-n-out': 'In-N-Out', 'in n out': 'In-N-Out',
+  'panda express': 'Panda Express',
+  quest: 'Quest',
+  fairlife: 'Fairlife',
+  chobani: 'Chobani',
+  oikos: 'Oikos',
+  'premier protein': 'Premier Protein',
+  clif: 'Clif',
+  'rx bar': 'RXBAR', rxbar: 'RXBAR',
+  'optimum nutrition': 'Optimum Nutrition',
+  ghost: 'Ghost',
+};
+
+const MAX_BRAND_WORDS = 3;
+
+const PREP_METHODS = [
+  'deep fried', 'air fried', 'pan fried', 'stir fried', 'hard boiled', 'soft boiled', 'pan seared',
+  'grilled', 'fried', 'baked', 'boiled', 'poached', 'scrambled', 'steamed', 'roasted', 'sauteed',
+  'sautéed', 'broiled', 'smoked', 'mashed', 'toasted', 'raw', 'blackened', 'braised', 'seared',
+  'barbecued', 'bbq', 'microwaved', 'blended', 'cooked',
+];
+
+const FILLER_WORDS = new Set([
+  'some', 'about', 'around', 'roughly', 'approximately', 'approx', 'like', 'maybe', 'probably',
+  'just', 'only', 'also', 'then', 'plus', 'another', 'extra', 'my', 'the', 'of',
+]);
+
+// Words that mean the segment is prose, not a food
+const PROSE_WORDS = new Set([
+  'i', 'ate', 'had', 'was', 'were', 'is', 'it', 'but', 'because', 'think', 'guess', 'not', 'really',
+  'want', 'should', 'could', 'would', 'will', 'did', 'do', 'does', 'how', 'what', 'why', 'when', 'if',
+]);
+
+const NEGATIONS = /^(?:no|without|hold the|minus)\s+/;
+
+type Token = string;
+
+function round3(n: number): number {
+  return Math.round(n * 1000) / 1000;
+}
+
+/**
+ * Lower-case, strip lead/trailing prose, and space out glued tokens ("8oz" → "8 oz")
+ */
+export function normalizeMealText(text: string): string {
+  let s = (text ?? '')
+    .toLowerCase()
+    .replace(/[’‘]/g, "'")
+    .replace(/[()[\]]/g, ' ')
+    .replace(/[!?.]+\s*$/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  for (let changed = true; changed;) {
+    changed = false;
+    for (const re of LEAD_PHRASES) {
+      const next = s.replace(re, '');
+      if (next !== s) {
+        s = next.trim();
+        changed = true;
+      }
+    }
+  }
+  while (TRAILING_PHRASES.test(s)) s = s.replace(TRAILING_PHRASES, '').trim();
+
+  return s
+    .replace(/(\d)([½⅓⅔¼¾⅕⅛⅜⅝⅞])/g, '$1 $2')                      // 1½ → 1 ½
+    .replace(/([½⅓⅔¼¾⅕⅛⅜⅝⅞])(?=[a-z])/g, '$1 ')                   // ½cup → ½ cup
+    .replace(/(\d)\s*-\s*(\d)/g, '$1 to $2')                             // 2-3 → 2 to 3
+    .replace(/(\d)-(?=[a-z])/g, '$1 ')                                    // 16-oz → 16 oz
+    .replace(/(\d)(?=[a-z])/g, '$1 ')                                     // 200g → 200 g
+    .replace(/\b(\d+) x\b/g, '$1')                                        // 3x → 3
+    .replace(/\bw\/\s*/g, 'with ')
+    .replace(/\s&\s/g, ' and ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Split on commas, "and", "plus", keeping compound dish names and "and a half" intact
+ */
+function splitItems(text: string): string[] {
+  let s = text;
+  COMPOUND_NAMES.forEach((name, i) => {
+    s = s.replace(new RegExp(`\\b${name}\\b`, 'g'), `\uE000${i}\uE000`);
+  });
+  s = s
+    .replace(/\band (?:a|one) (half|quarter)\b/g, '+$1')
+    .replace(/\b(\d+) and (\d+\/\d+)\b/g, '$1 $2');
+
+  return s
+    .split(/\s*[,;]\s*|\s+(?:and|plus|and then|then|also)\s+/)
+    .map(part => part
+      .replace(/\uE000(\d+)\uE000/g, (_, i) => COMPOUND_NAMES[Number(i)])
+      .replace(/^(?:and|plus|then|also)\s+/, '')
+      .trim())
+    .filter(Boolean);
+}
+
+/**
+ * Split "eggs on toast with butter" into the head item and its attachments
+ */
+function splitModifiers(segment: string): Array<{ text: string; relation: ModifierRelation | null }> {
+  const parts = segment.split(/\s+(topped with|with|on top of|on|over)\s+/);
+  const out: Array<{ text: string; relation: ModifierRelation | null }> = [{ text: parts[0], relation: null }];
+  for (let i = 1; i < parts.length; i += 2) {
+    const word = parts[i];
+    const relation: ModifierRelation = word === 'on top of' ? 'topped with' : (word as ModifierRelation);
+    if (parts[i + 1]) out.push({ text: parts[i + 1], relation });
+  }
+  return out;
+}
+
+function parseNumberToken(token: Token): number | null {
+  if (/^\d+(?:\.\d+)?$/.test(token)) return parseFloat(token);
+  if (/^\.\d+$/.test(token)) return parseFloat(token);
+  if (/^\d+\/\d+$/.test(token)) {
+    const [n, d] = token.split('/').map(Number);
+    return d ? n / d : null;
+  }
+  if (token in UNICODE_FRACTIONS) return UNICODE_FRACTIONS[token];
+  return null;
+}
+
+interface QuantityMatch {
+  value: number;
+  range: [number, number] | null;
+  next: number;
+}
+
+/**
+ * Number words: "two", "twenty five", "twenty-five"
+ */
+function parseNumberWords(tokens: Token[], i: number): { value: number; next: number } | null {
+  const t = tokens[i];
+  if (t === undefined) return null;
+  const hyphen = t.match(/^([a-z]+)-([a-z]+)$/);
+  if (hyphen && TENS[hyphen[1]] !== undefined && ONES[hyphen[2]] !== undefined) {
+    return { value: TENS[hyphen[1]] + ONES[hyphen[2]], next: i + 1 };
+  }
+  if (TENS[t] !== undefined) {
+    const ones = ONES[tokens[i + 1]];
+    return ones !== undefined && ones < 10 ? { value: TENS[t] + ones, next: i + 2 } : { value: TENS[t], next: i + 1 };
+  }
+  if (ONES[t] !== undefined) return { value: ONES[t], next: i + 1 };
+  return null;
+}
+
+/**
+ * Single quantity (no range) starting at tokens[i]
+ */
+function parseSingleQuantity(tokens: Token[], i: number): { value: number; next: number } | null {
+  const t = tokens[i];
+  if (t === undefined) return null;
+
+  // "half a cup", "half an avocado", "half"
+  if (t === 'half' || t === 'quarter') {
+    let next = i + 1;
+    if (tokens[next] === 'a' || tokens[next] === 'an') next++;
+    if (tokens[next] === 'dozen') return { value: FRACTION_WORDS[t] * 12, next: next + 1 };
+    return { value: FRACTION_WORDS[t], next };
+  }
+
+  // "a", "an", "a half", "a couple of", "a dozen", "a few"
+  if (t === 'a' || t === 'an') {
+    const n = tokens[i + 1];
+    if (n && FRACTION_WORDS[n] !== undefined) return { value: FRACTION_WORDS[n], next: i + 2 };
+    if (n && VAGUE_QUANTITIES[n] !== undefined) {
+      return { value: VAGUE_QUANTITIES[n], next: tokens[i + 2] === 'of' ? i + 3 : i + 2 };
+    }
+    return { value: 1, next: i + 1 };
+  }
+
+  if (VAGUE_QUANTITIES[t] !== undefined) {
+    return { value: VAGUE_QUANTITIES[t], next: tokens[i + 1] === 'of' ? i + 2 : i + 1 };
+  }
+
+  const numeric = parseNumberToken(t);
+  if (numeric !== null) {
+    let value = numeric;
+    let next = i + 1;
+    // Mixed number: "1 1/2", "1 ½"
+    const frac = tokens[next] !== undefined ? parseNumberToken(tokens[next]) : null;
+    if (frac !== null && frac < 1 && Number.isInteger(numeric) && /\/|[½⅓⅔¼¾⅕⅛⅜⅝⅞]/.test(tokens[next])) {
+      value += frac;
+      next++;
+    }
+    if (tokens[next] === 'dozen') return { value: value * 12, next: next + 1 };
+    return { value, next };
+  }
+
+  const words = parseNumberWords(tokens, i);
+  if (words) {
+    // "two thirds", "one half", "three quarters"
+    const fw = tokens[words.next];
+    if (fw && FRACTION_WORDS[fw] !== undefined && words.value < 10) {
+      return { value: words.value * FRACTION_WORDS[fw], next: words.next + 1 };
+    }
+    if (tokens[words.next] === 'dozen') return { value: words.value * 12, next: words.next + 1 };
+    return words;
+  }
+
+  return null;
+}
+
+/**
+ * Quantity with optional range ("2 to 3", "two or three") and "+half" suffix
+ */
+function parseQuantity(tokens: Token[], i: number): QuantityMatch | null {
+  const first = parseSingleQuantity(tokens, i);
+  if (!first) return null;
+
+  let { value, next } = first;
+  let range: [number, number] | null = null;
+
+  if ((tokens[next] === 'to' || tokens[next] === 'or') && tokens[next + 1] !== 'a' && tokens[next + 1] !== 'an') {
+    const second = parseSingleQuantity(tokens, next + 1);
+    if (second && second.value > value) {
+      range = [round3(value), round3(second.value)];
+      value = (value + second.value) / 2;
+      next = second.next;
+    }
+  }
+
+  const plus = applyHalfSuffix(tokens, next);
+  return { value: round3(value + plus.add), range, next: plus.next };
+}
+
+/**
+ * "+half" marker left by splitItems for "and a half"
+ */
+function applyHalfSuffix(tokens: Token[], i: number): { add: number; next: number } {
+  const m = tokens[i]?.match(/^\+(half|quarter)$/);
+  return m ? { add: FRACTION_WORDS[m[1]], next: i + 1 } : { add: 0, next: i };
+}
+
+/**
+ * Longest unit phrase at tokens[i]
+ */
+function parseUnit(tokens: Token[], i: number, afterQuantity: boolean): { unit: string; next: number } | null {
+  for (let len = MAX_UNIT_WORDS; len >= 1; len--) {
+    const phrase = tokens.slice(i, i + len).join(' ');
+    const unit = UNIT_PHRASES[phrase];
+    if (!unit || tokens.slice(i, i + len).length < len) continue;
+    if (!afterQuantity && QUANTITY_ONLY_UNITS.has(phrase)) continue;
+    return { unit, next: i + len };
+  }
+  return null;
+}
+
+/**
+ * Leading brand ("mcdonald's big mac") or trailing "from <brand>"/"at <brand>"
+ */
+function extractBrand(tokens: Token[]): { brand: string | null; tokens: Token[] } {
+  for (let len = MAX_BRAND_WORDS; len >= 1; len--) {
+    const phrase = tokens.slice(0, len).join(' ');
+    if (tokens.length > len && BRANDS[phrase]) {
+      return { brand: BRANDS[phrase], tokens: tokens.slice(len) };
+    }
+  }
+
+  const at = tokens.findIndex((t, idx) => idx > 0 && (t === 'from' || t === 'at'));
+  if (at > 0) {
+    const phrase = tokens.slice(at + 1).join(' ');
+    if (BRANDS[phrase]) return { brand: BRANDS[phrase], tokens: tokens.slice(0, at) };
+  }
+
+  return { brand: null, tokens };
+}
+
+/**
+ * "10 piece nuggets" / "10-piece" / "6 count" → serving label "10-piece"
+ */
+function extractServingLabel(tokens: Token[]): { label: string | null; tokens: Token[] } {
+  for (let i = 0; i < tokens.length; i++) {
+    const glued = tokens[i].match(/^(\d{1,3})-(?:piece|pc|count|ct)$/);
+    if (glued) {
+      return { label: `${glued[1]}-piece`, tokens: [...tokens.slice(0, i), ...tokens.slice(i + 1)] };
+    }
+    if (/^\d{1,3}$/.test(tokens[i]) && /^(?:piece|pc|count|ct)$/.test(tokens[i + 1] ?? '') && tokens[i + 2] && tokens[i + 2] !== 'of') {
+      return { label: `${tokens[i]}-piece`, tokens: [...tokens.slice(0, i), ...tokens.slice(i + 2)] };
+    }
+  }
+  return { label: null, tokens };
+}
+
+function detectPrepMethod(name: string): string | null {
+  for (const method of PREP_METHODS) {
+    if (new RegExp(`\\b${method}\\b`).test(name)) return method.replace('sautéed', 'sauteed');
+  }
+  return null;
+}
+
+function scoreItem(name: string): number {
+  const words = name.split(' ');
+  let confidence = 1;
+  if (words.length > 5) confidence -= 0.3;
+  if (/\d/.test(name)) confidence -= 0.3;
+  if (words.some(w => PROSE_WORDS.has(w))) confidence -= 0.5;
+  return Math.max(0, Math.round(confidence * 100) / 100);
+}
+
+/**
+ * Parse one item phrase ("two and a half cups of cooked rice")
+ */
+export function parseItemPhrase(phrase: string): Omit<ParsedMealItem, 'modifier' | 'attached_to'> | null {
+  const original = phrase.trim();
+  let tokens: Token[] = original.split(' ').filter(Boolean);
+
+  const label = extractServingLabel(tokens);
+  tokens = label.tokens;
+
+  let i = 0;
+  while (FILLER_WORDS.has(tokens[i])) i++;
+
+  let amount: number | null = null;
+  let range: [number, number] | null = null;
+  let unit: string | null = null;
+
+  // "half and half" is a food, not a quantity
+  const startsWithCompound = COMPOUND_NAMES.some(n => tokens.slice(i).join(' ').startsWith(n));
+  const qty = startsWithCompound ? null : parseQuantity(tokens, i);
+  if (qty) {
+    amount = qty.value;
+    range = qty.range;
+    i = qty.next;
+  }
+
+  const u = parseUnit(tokens, i, qty !== null);
+  if (u && u.next < tokens.length) {
+    unit = u.unit;
+    i = u.next;
+    if (amount === null) amount = 1; // "cup of coffee"
+
+    // "a cup and a half of rice"
+    const plus = applyHalfSuffix(tokens, i);
+    if (plus.add) {
+      amount = round3(amount + plus.add);
+      i = plus.next;
+    }
+  }
+
+  while (tokens[i] === 'of' || tokens[i] === 'the' || FILLER_WORDS.has(tokens[i])) i++;
+
+  let rest = tokens.slice(i);
+
+  // Trailing quantity: "chicken breast 8 oz", "eggs x3"
+  if (amount === null && rest.length >= 2) {
+    const tailUnit = parseUnit(rest, rest.length - 1, true);
+    const tailQty = tailUnit
+      ? parseSingleQuantity(rest, rest.length - 2)
+      : parseSingleQuantity(rest, rest.length - 1);
+    const numericTail = tailUnit
+      ? parseNumberToken(rest[rest.length - 2]) !== null
+      : /^x?\d+(?:\.\d+)?$/.test(rest[rest.length - 1]);
+    if (numericTail) {
+      if (tailUnit && tailQty) {
+        amount = tailQty.value;
+        unit = tailUnit.unit;
+        rest = rest.slice(0, -2);
+      } else if (!tailUnit) {
+        amount = parseFloat(rest[rest.length - 1].replace(/^x/, ''));
+        rest = rest.slice(0, -1);
+      }
+    }
+  }
+
+  const branded = extractBrand(rest);
+  const name = branded.tokens.join(' ').replace(/^(?:of|the)\s+/, '').trim();
+  if (!name || parseNumberToken(name) !== null) return null;
+
+  return {
+    name,
+    amount,
+    unit,
+    brand: branded.brand,
+    serving_label: label.label,
+    prep_method: detectPrepMethod(name),
+    range,
+    confidence: scoreItem(name),
+    original,
+  };
+}
+
+/**
+ * Parse free meal text into items
+ */
+export function parseMealText(text: string): MealParseResult {
+  const normalized = normalizeMealText(text);
+  const items: ParsedMealItem[] = [];
+  const excluded: string[] = [];
+
+  for (const segment of splitItems(normalized)) {
+    let head: ParsedMealItem | null = null;
+
+    for (const part of splitModifiers(segment)) {
+      const negated = part.text.match(NEGATIONS);
+      if (negated) {
+        excluded.push(part.text.slice(negated[0].length).trim());
+        continue;
+      }
+
+      const parsed = parseItemPhrase(part.text);
+      if (!parsed) continue;
+
+      const item: ParsedMealItem = {
+        ...parsed,
+        modifier: head ? part.relation : null,
+        attached_to: head ? head.name : null,
+      };
+      items.push(item);
+      head ??= item;
+    }
+  }
+
+  const simple =
+    items.length > 0 &&
+    items.length <= SIMPLE_MAX_ITEMS &&
+    items.every(item => item.confidence >= SIMPLE_MIN_CONFIDENCE);
+
+  return { items, simple, excluded };
+}
@@ -10,6 +10,9 @@ export interface ParsedItem {
   name: string;
   amount: number | null;
   unit: string | null;
+  // Set by the deterministic meal parser; the LLM normalizer leaves them out
+  brand?: string | null;
+  serving_label?: string | null;
 }
 
 /**
@@ -30,15 +33,15 @@ export function sanitizeNormalizedItems(
       name: item.name.toLowerCase().trim(),
       amount: item.amount ?? 1,
       unit: item.unit,
-      is_branded: false,
-      brand: null,
-      serving_label: null,
+      is_branded: !!item.brand,
+      brand: item.brand ?? null,
+      serving_label: item.serving_label ?? null,
       size_label: null
     };
     
     // Detect brand from name or from brands map
     // ✅ Apply brand normalization early
-    const detectedBrand = detectBrand(normalized.name, brands) || detectBrandFromItemName(normalized.name);
+    const detectedBrand = normalized.brand || detectBrand(normalized.name, brands) || detectBrandFromItemName(normalized.name);
     if (detectedBrand) {
       normalized.brand = detectedBrand;
       normalized.is_branded = true;
@@ -5,15 +5,19 @@
  */
 
 import { portionResolver } from '../../agents/shared/nutrition/portionResolver';
+import { loadPortionTables } from '../../agents/shared/nutrition/portionEngine';
 import { computeTEF } from '../../agents/tmwya/tef';
 import { computeTDEE } from '../../agents/tmwya/tdee';
 import { getSupabase } from '../../lib/supabase';
 import { getLatestPromptOrFallback } from '../../lib/admin/prompts';
-import { sanitizeNormalizedItems } from './sanitizeNormalizedItems';
-import { PROVIDERS, type ProviderKey } from '../../agents/shared/nutrition/providers';
-
-// Emergency Gemini kill-switch - temporarily disabled due to 502 errors
-const GEMINI_ENABLED = false; // import.meta.env.VITE_GEMINI_NUTRITION !== 'false';
+import { sanitizeNormalizedItems, type ParsedItem } from './sanitizeNormalizedItems';
+import { parseMealText } from './mealParser';
+import { providerRegistry } from '../../agents/shared/nutrition/providers';
+import { safeJsonParse } from '../../agents/shared/nutrition/safeJson';
+import { getCacheStats } from '../../agents/shared/nutrition/foodMatcher';
+import { parseMealTimes, type MealTimeGroup } from '../../lib/meals/timeParser';
+import { resolveTimeZone, zonedParts } from '../../lib/time/zoned';
+import { FilterPipeline, type FilterResult } from '../swarm/filters';
 
 export interface NutritionPipelineOptions {
   message: string;
@@ -27,102 +31,29 @@ export interface NutritionPipelineOptions {
   showLogButton?: boolean;
 }
 
+export interface VerifyRoleData {
+  type: 'tmwya.verify';
+  view: any;
+  items: any[];
+  totals: any;
+  tef: any;
+  tdee: any;
+  skills_fired?: string[];
+}
+
 export interface NutritionPipelineResult {
   success: boolean;
-  roleData?: {
-    type: 'tmwya.verify';
-    view: any;
-    items: any[];
-    totals: any;
-    tef: any;
-    tdee: any;
-    skills_fired?: string[];
-  };
+  /** First (or only) meal; kept for callers that render a single card */
+  roleData?: VerifyRoleData;
+  /** One verify card per meal when the message mentions several */
+  meals?: VerifyRoleData[];
   error?: string;
 }
 
 /**
- * Strip markdown code fences and preambles from JSON responses
- */
-function stripMarkdownJSON(raw: string): string {
-  if (!raw) return raw;
-  let s = raw.trim();
-
-  // ✅ Remove "Action completed" or similar prefixes
-  s = s.replace(/^Action completed\s*[:\-]?\s*/i, '');
-  s = s.replace(/^Here.*?JSON:\s*/i, '');
-  s = s.replace(/^The.*?result:\s*/i, '');
-  s = s.replace(/^Output:\s*/i, '');
-
-  // ✅ Remove markdown code fences
-  s = s.replace(/^```json\s*/i, '').replace(/\s*```$/i, '');
-  s = s.replace(/^```\s*/i, '').replace(/\s*```$/i, '');
-
-  // ✅ Extract JSON object if wrapped in text
-  const jsonMatch = s.match(/\{[\s\S]*\}/);
-  if (jsonMatch) {
-    s = jsonMatch[0];
-  }
-
-  return s.trim();
-}
-
-/**
- * Safe JSON parsing with repair attempts
- */
-function safeJsonParse(text: string) {
-  if (!text || typeof text !== 'string') {
-    console.warn('[safeJsonParse] Invalid input:', typeof text);
-    return null;
-  }
-
-  const stripFences = (s: string) => s.replace(/```json|```/gi, '').trim();
-  let t = stripFences(text).trim();
-
-  // Handle empty or whitespace-only strings
-  if (!t) {
-    console.warn('[safeJsonParse] Empty input after stripping');
-    return null;
-  }
-
-  try {
-    return JSON.parse(t);
-  } catch (e) {
-    console.warn('[safeJsonParse] Initial parse failed:', e.message, 'input:', t.substring(0, 100));
-  }
-
-  // More aggressive repair attempts
-  const repairs = [
-    // Remove trailing commas
-    t.replace(/,(\s*[}\]])/g, '$1'),
-    // Quote unquoted keys
-    t.replace(/([{,]\s*)([A-Za-z0-9_]+)\s*:/g, '$1"$2":'),
-    // Handle incomplete JSON by adding closing braces/brackets
-    t + (t.startsWith('{') && !t.endsWith('}') ? '}' : ''),
-    t + (t.startsWith('[') && !t.endsWith(']') ? ']' : ''),
-    // Extract JSON from text that might contain extra content
-    t.match(/\{[\s\S]*\}/)?.[0] || t,
-    // Last resort: try to construct minimal valid JSON
-    '{"items":[]}'
-  ];
-
-  for (const repaired of repairs) {
-    try {
-      const result = JSON.parse(repaired);
-      console.log('[safeJsonParse] Repaired successfully');
-      return result;
-    } catch {}
-  }
-
-  console.error('[safeJsonParse] All repair attempts failed for input:', t.substring(0, 200));
-  return null;
-}
-
-/**
- * Infer meal_slot from current time
+ * Infer meal_slot from the hour the meal was eaten (user's local time)
  */
-function inferMealSlotFromTime(): 'breakfast' | 'lunch' | 'dinner' | 'snack' {
-  const hour = new Date().getHours();
+function inferMealSlotFromTime(hour: number): 'breakfast' | 'lunch' | 'dinner' | 'snack' {
   if (hour >= 6 && hour < 11) return 'breakfast';
   if (hour >= 11 && hour < 16) return 'lunch';
   if (hour >= 16 && hour < 22) return 'dinner';
@@ -130,213 +61,8 @@ function inferMealSlotFromTime(): 'breakfast' | 'lunch' | 'dinner' | 'snack' {
 }
 
 /**
- * Global nutrition cache lookup
- */
-async function lookupGlobalCache(normalized: any): Promise<any> {
-  try {
-    const supabase = getSupabase();
-    const { data, error } = await supabase
-      .from('global_nutrition_cache')
-      .select('*')
-      .eq('normalized_name', normalized.name.toLowerCase().trim())
-      .eq('brand', normalized.brand || null)
-      .order('created_at', { ascending: false })
-      .limit(1)
-      .single();
-
-    if (error && error.code !== 'PGRST116') { // PGRST116 = no rows found
-      console.warn('[global-cache] Query error:', error);
-      return null;
-    }
-
-    if (data) {
-      console.log(`[global-cache] Found cached data for "${normalized.name}"`);
-      return {
-        name: data.normalized_name,
-        serving_label: data.serving_label,
-        grams_per_serving: data.grams_per_serving,
-        macros: {
-          kcal: data.calories,
-          protein_g: data.protein_g,
-          carbs_g: data.carbs_g,
-          fat_g: data.fat_g,
-          fiber_g: data.fiber_g
-        },
-        confidence: data.confidence,
-        source: data.source,
-        notes: 'Data from global nutrition cache'
-      };
-    }
-    return null;
-  } catch (e) {
-    console.warn('[global-cache] Exception:', e);
-    return null;
-  }
-}
-
-/**
- * Brand Resolver using Gemini - final fallback for unknown foods
- */
-async function lookupBrandResolver(normalized: any): Promise<any> {
-  try {
-    const supabase = getSupabase();
-
-    // Create a specific prompt for brand resolution
-    const prompt = `You are a nutrition database expert. Find the verifiable nutritional information for this food item.
-
-Food: ${normalized.name}${normalized.brand ? ` (${normalized.brand})` : ''}${normalized.serving_label ? ` - ${normalized.serving_label}` : ''}${normalized.size_label ? ` ${normalized.size_label}` : ''}
-
-IMPORTANT: Search for official sources like USDA, FDA, or brand websites. Return ONLY valid JSON in this exact format:
-{"calories": number, "protein_g": number, "carbs_g": number, "fat_g": number, "fiber_g": number}
-
-If you cannot find reliable data, return: {"error": "not_found"}
-Do not make up numbers. Only return verified nutritional data.`;
-
-    const { data, error } = await supabase.functions.invoke('gemini-chat', {
-      body: {
-        prompt,
-        temperature: 0.1, // Low temperature for accuracy
-        max_tokens: 500
-      }
-    });
-
-    if (error || !data?.ok) {
-      console.warn('[brand-resolver] Gemini call failed:', error);
-      return null;
-    }
-
-    const responseText = data.text || '';
-    console.log('[brand-resolver] Gemini response:', responseText);
-
-    // Try to parse JSON
-    const parsed = safeJsonParse(responseText);
-    if (!parsed || parsed.error === 'not_found') {
-      console.log('[brand-resolver] No reliable data found for:', normalized.name);
-      return null;
-    }
-
-    // Validate we have required fields
-    if (typeof parsed.calories !== 'number' || typeof parsed.protein_g !== 'number' ||
-        typeof parsed.carbs_g !== 'number' || typeof parsed.fat_g !== 'number') {
-      console.warn('[brand-resolver] Invalid response format:', parsed);
-      return null;
-    }
-
-    const result = {
-      name: normalized.name,
-      serving_label: normalized.serving_label || 'serving',
-      grams_per_serving: 100, // Standard assumption
-      macros: {
-        kcal: parsed.calories,
-        protein_g: parsed.protein_g,
-        carbs_g: parsed.carbs_g,
-        fat_g: parsed.fat_g,
-        fiber_g: parsed.fiber_g || 0
-      },
-      confidence: 0.8, // Brand resolver confidence
-      source: 'brand_resolver',
-      notes: 'Data resolved by AI brand resolver'
-    };
-
-    // Cache the result for future use
-    try {
-      const cacheData = {
-        normalized_name: normalized.name.toLowerCase().trim(),
-        brand: normalized.brand || null,
-        serving_label: result.serving_label,
-        size_label: normalized.size_label || null,
-        grams_per_serving: result.grams_per_serving,
-        calories: result.macros.kcal,
-        protein_g: result.macros.protein_g,
-        carbs_g: result.macros.carbs_g,
-        fat_g: result.macros.fat_g,
-        fiber_g: result.macros.fiber_g,
-        source: 'brand_resolver',
-        confidence: result.confidence
-      };
-
-      const { error: cacheError } = await supabase
-        .from('global_nutrition_cache')
-        .insert(cacheData);
-
-      if (cacheError) {
-        console.warn('[brand-resolver] Failed to cache result:', cacheError);
-      } else {
-        console.log('[brand-resolver] Cached result for future lookups');
-      }
-    } catch (cacheErr) {
-      console.warn('[brand-resolver] Cache exception:', cacheErr);
-    }
-
-    console.log(`[brand-resolver] Successfully resolved "${normalized.name}"`);
-    return result;
-
-  } catch (e) {
-    console.warn('[brand-resolver] Exception:', e);
-    return null;
-  }
-}
-
-/**
- * OpenAI nutrition provider - fallback when Gemini is disabled
- */
-async function lookupOpenAI(normalized: any, userId?: string) {
-  try {
-    const supabase = getSupabase();
-    const prompt = `You are a nutrition expert. Given this food item, return exact nutritional data in this JSON format only:
-{"calories": number, "protein_g": number, "carbs_g": number, "fat_g": number, "fiber_g": number}
-
-Food: ${normalized.name}${normalized.brand ? ` (${normalized.brand})` : ''}${normalized.serving_label ? ` - ${normalized.serving_label}` : ''}${normalized.size_label ? ` ${normalized.size_label}` : ''}
-
-Return only the JSON object, no other text.`;
-
-    const { data, error } = await supabase.functions.invoke('openai-chat', {
-      body: {
-        messages: [
-          { role: 'system', content: prompt },
-          { role: 'user', content: normalized.name }
-        ],
-        temperature: 0.1,
-        model: 'gpt-4o-mini'
-      }
-    });
-
-    if (error || !data?.message) {
-      console.warn('[openai-nutrition] OpenAI call failed:', error);
-      return null;
-    }
-
-    // Try multiple response shape possibilities
-    let responseText = data.choices?.[0]?.message?.content || data.message || '';
-    if (!responseText) return null;
-
-    // Use safe JSON parsing
-    const parsed = safeJsonParse(responseText);
-    if (!parsed) return null;
-
-    return {
-      name: normalized.name,
-      serving_label: normalized.serving_label || 'serving',
-      grams_per_serving: 100,
-      macros: {
-        kcal: parsed.calories || 0,
-        protein_g: parsed.protein_g || 0,
-        carbs_g: parsed.carbs_g || 0,
-        fat_g: parsed.fat_g || 0,
-        fiber_g: parsed.fiber_g || 0
-      },
-      confidence: 0.8,
-      source: 'openai-fallback',
-      notes: 'Data provided by AI assistant'
-    };
-  } catch (e) {
-    console.warn('[openai-nutrition] Exception:', e);
-    return null;
-  }
-}
-
-/**
- * Lookup macros in provider cascade: brand → gemini/openai → generic
+ * Lookup macros through the provider registry
+ * Order per item class: branded → brand map first, whole foods → USDA first
  */
 async function lookupMacrosInCascade(items: any[], userId?: string): Promise<any> {
   const results = [];
@@ -351,90 +77,36 @@ async function lookupMacrosInCascade(items: any[], userId?: string): Promise<any
       brand: item.brand,
       serving_label: item.serving_label,
       size_label: item.size_label,
-      is_branded: !!item.brand
+      is_branded: !!item.brand,
+      grams: item.grams ?? null
     };
 
-    // ✅ Check global cache FIRST (fastest lookup)
-    let macroResult = await lookupGlobalCache(normalized);
-    let providerUsed = 'global_cache';
+    const outcome = await providerRegistry.resolve(normalized, userId);
+    let macroResult = outcome.result;
+    let providerUsed: string = outcome.providerId ?? 'stub';
 
     if (macroResult) {
-      skillsFired.push('macro_lookup_global_cache');
-      console.log(`[nutrition] Global cache found macros for "${item.name}"`);
+      skillsFired.push(`macro_lookup_${providerUsed}`); // Track skill usage
+      console.log(`[nutrition] Provider ${providerUsed} found macros for "${item.name}"`);
     } else {
-      // ✅ Choose provider order based on brand status and Gemini availability
-      // Branded: brand map → gemini/openai → generic
-      // Whole foods: generic (USDA) → gemini/openai → brand resolver
-      const ORDER: (ProviderKey | 'openai' | 'brand_resolver')[] = normalized.is_branded
-        ? GEMINI_ENABLED ? ["brand", "gemini", "generic", "brand_resolver"] : ["brand", "openai", "generic", "brand_resolver"]  // Branded: brand map first
-        : GEMINI_ENABLED ? ["generic", "gemini", "brand_resolver"] : ["generic", "openai", "brand_resolver"];                   // Whole foods: USDA first, then fallback
-
-      // Always add brand_resolver as final fallback if not already included
-      if (!ORDER.includes('brand_resolver')) {
-        ORDER.push('brand_resolver');
-      }
-
-      // ✅ Try each provider in order
-      for (const key of ORDER) {
-        let providerFn = null;
-
-        if (key === 'openai') {
-          providerFn = lookupOpenAI;
-          console.log(`[nutrition] trying openai provider for "${item.name}"`);
-        } else if (key === 'brand_resolver') {
-          providerFn = lookupBrandResolver;
-          console.log(`[nutrition] trying brand_resolver for "${item.name}"`);
-        } else {
-          providerFn = PROVIDERS[key];
-        }
-
-        if (providerFn) {
-          try {
-            macroResult = await providerFn(normalized, userId);
-            if (macroResult && macroResult.macros && macroResult.macros.kcal > 0) {
-              providerUsed = key;
-              skillsFired.push(`macro_lookup_${key}`); // Track skill usage
-              console.log(`[nutrition] Provider ${key} found macros for "${item.name}"`);
-              break;
-            }
-          } catch (err) {
-            console.error(`[nutrition] Provider ${key} error for "${item.name}":`, err);
-            continue;  // Try next provider
-          }
-        }
-      }
-
-      // ✅ If still no result, try Brand Resolver as final fallback
-      if (!macroResult || !macroResult.macros || macroResult.macros.kcal === 0) {
-        console.log(`[nutrition] Trying Brand Resolver for "${item.name}"`);
-        macroResult = await lookupBrandResolver(normalized);
-        if (macroResult) {
-          providerUsed = 'brand_resolver';
-          skillsFired.push('macro_lookup_brand_resolver');
-          console.log(`[nutrition] Brand Resolver found macros for "${item.name}"`);
-        }
-      }
-
-      // ✅ Only use stub if ALL providers including Brand Resolver failed
-      if (!macroResult || !macroResult.macros || macroResult.macros.kcal === 0) {
-        console.warn(`[nutrition] All providers including Brand Resolver failed for "${item.name}", using stub`);
-        macroResult = {
-          name: item.name,
-          serving_label: item.unit || 'serving',
-          grams_per_serving: 100,
-          macros: {
-            kcal: 0,  // ✅ Show 0, not fake data
-            protein_g: 0,
-            carbs_g: 0,
-            fat_g: 0,
-            fiber_g: 0
-          },
-          confidence: 0.1,
-          source: 'stub',
-          notes: 'Unable to retrieve macro data. Please verify manually.'
-        };
-        providerUsed = 'stub';
-      }
+      // ✅ Only use stub if ALL providers failed
+      console.warn(`[nutrition] All providers failed for "${item.name}", using stub`, outcome.attempts);
+      macroResult = {
+        name: item.name,
+        serving_label: item.unit || 'serving',
+        grams_per_serving: 100,
+        macros: {
+          kcal: 0,  // ✅ Show 0, not fake data
+          protein_g: 0,
+          carbs_g: 0,
+          fat_g: 0,
+          fiber_g: 0
+        },
+        confidence: 0.1,
+        source: 'stub',
+        notes: 'Unable to retrieve macro data. Please verify manually.'
+      };
+      providerUsed = 'stub';
     }
 
     // Add to results
@@ -447,7 +119,11 @@ async function lookupMacrosInCascade(items: any[], userId?: string): Promise<any
       fiber_g: macroResult.macros.fiber_g || 0,
       confidence: macroResult.confidence || 0.1,
       source: macroResult.source || 'unknown',
-      provider: providerUsed
+      provider: providerUsed,
+      match: macroResult.match ?? null, // Confirmed fuzzy matches become aliases
+      // Provider-measured portions win over the engine's household estimate
+      portion: macroResult.portion ?? item.portion ?? null,
+      grams: macroResult.grams ?? macroResult.portion?.grams ?? item.grams ?? null
     });
   }
 
@@ -468,24 +144,94 @@ async function lookupMacrosInCascade(items: any[], userId?: string): Promise<any
 }
 
 /**
- * Fallback NLU parser when normalizer LLM fails or returns non-JSON
+ * Normalizer LLM for inputs the meal parser could not handle confidently.
+ * Returns null when the call fails or the response is not usable JSON.
  */
-function fallbackNLU(message: string): Array<{ name: string; amount: number | null; unit: string | null }> {
-  // Simple deterministic parser
-  // Extract food items by splitting on common separators
-  const cleanMsg = message.replace(/^(i ate|i had|ate|had)\s+/i, '').trim();
-  const items = cleanMsg.split(/,\s+| and | with | plus /i).map(item => {
-    const trimmed = item.trim();
-    // Extract quantity: "3 eggs" → amount: 3, name: "eggs"
-    const match = trimmed.match(/^(\d+(?:\.\d+)?)\s*(.+)$/);
-    if (match) {
-      return { name: match[2], amount: parseFloat(match[1]), unit: null };
+async function normalizeWithLLM(message: string, userId: string): Promise<ParsedItem[] | null> {
+  const supabase = getSupabase();
+  const NORMALIZER_AGENT_KEY = 'tmwya-normalizer';
+  const NORMALIZER_FALLBACK = `Normalize messy meal text into structured food items. Output JSON only.
+Return: {"items":[{"name":"food","amount":number|null,"unit":"piece|cup|g|oz|etc"|null}]}
+Rules:
+- Split multiple foods by commas or "and"
+- PRESERVE the user's exact food names verbatim (e.g., "skim milk" NOT "milk", "sourdough bread" NOT "bread")
+- Infer common units when missing (eggs→piece, oatmeal→cup, milk→cup, bread→slice)
+- Extract quantities when present
+- Output valid JSON only, no markdown, no explanations`;
+
+  const normalizerPrompt = await getLatestPromptOrFallback(NORMALIZER_AGENT_KEY, NORMALIZER_FALLBACK);
+  console.info('[nutrition] normalizer prompt source:', normalizerPrompt.startsWith('Normalize messy') ? 'fallback' : 'db');
+
+  const { data: normalizerResponse, error: normalizerError } = await supabase.functions.invoke('openai-chat', {
+    body: {
+      messages: [
+        { role: 'system', content: normalizerPrompt + '\n\nIMPORTANT: You MUST output ONLY valid JSON. No prose, no markdown, no explanations. Only JSON.' },
+        { role: 'user', content: message }
+      ],
+      stream: false,
+      userId,
+      temperature: 0.05, // Lower temp for stricter JSON
+      model: 'gpt-4o-mini',
+      provider: 'openai',
+      response_format: { type: 'json_object' }  // ✅ FORCE JSON MODE
     }
-    return { name: trimmed, amount: null, unit: null };
-  }).filter(x => x.name.length > 0 && x.name !== 'a');
-  
-  console.log('[fallbackNLU] Parsed items:', items);
-  return items;
+  });
+
+  if (normalizerError || !normalizerResponse?.message) {
+    console.warn('[nutrition] Normalizer error:', normalizerError);
+    return null;
+  }
+
+  // Try multiple response shape possibilities
+  const responseText = normalizerResponse.choices?.[0]?.message?.content || normalizerResponse.message || '';
+
+  // CRITICAL: If response is plain text (not JSON), fall back to the meal parser
+  if (!responseText.trim().startsWith('{') && !responseText.trim().startsWith('[')) {
+    console.warn('[nutrition] Normalizer returned non-JSON:', responseText);
+    return null;
+  }
+
+  const parsed = safeJsonParse(responseText);
+  if (!parsed || !Array.isArray(parsed.items)) {
+    console.warn('[nutrition] Normalizer returned invalid JSON');
+    return null;
+  }
+
+  console.log('[nutrition] Normalizer parsed items:', parsed.items);
+  return parsed.items;
+}
+
+/**
+ * User's stored timezone (user_preferences.timezone), else the runtime zone
+ */
+async function loadUserTimeZone(userId: string): Promise<string> {
+  try {
+    const supabase = getSupabase();
+    const { data: prefs } = await supabase
+      .from('user_preferences')
+      .select('timezone')
+      .eq('user_id', userId)
+      .maybeSingle();
+    return resolveTimeZone(prefs?.timezone);
+  } catch (err) {
+    console.warn('[nutrition] Failed to fetch timezone preference:', err);
+    return resolveTimeZone();
+  }
+}
+
+/**
+ * Allergen, diet and religious annotations for the verify card (null when filters are unavailable)
+ */
+async function applyDietaryFilters(userId: string, items: any[], totals: any): Promise<FilterResult | null> {
+  try {
+    const pipeline = await FilterPipeline.create(userId);
+    if (!pipeline) return null;
+    const result = await pipeline.applyAll({ items, totals });
+    return result.annotations.length > 0 || result.substitutions.length > 0 ? result : null;
+  } catch (err) {
+    console.warn('[nutrition] Dietary filters failed:', err);
+    return null;
+  }
 }
 
 /**
@@ -494,7 +240,6 @@ function fallbackNLU(message: string): Array<{ name: string; amount: number | nu
  */
 export async function processNutrition(options: NutritionPipelineOptions): Promise<NutritionPipelineResult> {
   const { message, userId, showLogButton = true } = options;
-  const skillsFired: string[] = [];
 
   try {
     console.log('[nutrition] Processing:', { message, userId, showLogButton });
@@ -528,169 +273,24 @@ export async function processNutrition(options: NutritionPipelineOptions): Promi
       };
     }
 
-    // Step 1: Call normalizer LLM to parse meal text
-    const supabase = getSupabase();
-    const NORMALIZER_AGENT_KEY = 'tmwya-normalizer';
-    const NORMALIZER_FALLBACK = `Normalize messy meal text into structured food items. Output JSON only.
-Return: {"items":[{"name":"food","amount":number|null,"unit":"piece|cup|g|oz|etc"|null}]}
-Rules:
-- Split multiple foods by commas or "and"
-- PRESERVE the user's exact food names verbatim (e.g., "skim milk" NOT "milk", "sourdough bread" NOT "bread")
-- Infer common units when missing (eggs→piece, oatmeal→cup, milk→cup, bread→slice)
-- Extract quantities when present
-- Output valid JSON only, no markdown, no explanations`;
+    // Step 0: Split into meals and resolve when each was eaten
+    const timeZone = await loadUserTimeZone(userId);
+    const groups = parseMealTimes(message, timeZone);
+    console.log('[nutrition] Meal groups:', groups.map(g => ({ text: g.text, eaten_at: g.date.toISOString(), slot: g.mealSlot })));
 
-    const normalizerPrompt = await getLatestPromptOrFallback(NORMALIZER_AGENT_KEY, NORMALIZER_FALLBACK);
-    console.info('[nutrition] normalizer prompt source:', normalizerPrompt.startsWith('Normalize messy') ? 'fallback' : 'db');
-
-    const { data: normalizerResponse, error: normalizerError } = await supabase.functions.invoke('openai-chat', {
-      body: {
-        messages: [
-          { role: 'system', content: normalizerPrompt + '\n\nIMPORTANT: You MUST output ONLY valid JSON. No prose, no markdown, no explanations. Only JSON.' },
-          { role: 'user', content: message }
-        ],
-        stream: false,
-        userId,
-        temperature: 0.05, // Lower temp for stricter JSON
-        model: 'gpt-4o-mini',
-        provider: 'openai',
-        response_format: { type: 'json_object' }  // ✅ FORCE JSON MODE
-      }
-    });
-
-    let parsedItems: Array<{ name: string; amount: number | null; unit: string | null }> = [];
-
-    if (!normalizerError && normalizerResponse?.message) {
-      // Try multiple response shape possibilities
-      let responseText = normalizerResponse.choices?.[0]?.message?.content || normalizerResponse.message || '';
-      
-      // CRITICAL: If response is plain text (not JSON), use fallback NLU
-      if (!responseText.trim().startsWith('{') && !responseText.trim().startsWith('[')) {
-        console.warn('[nutrition] Normalizer returned non-JSON, using fallback NLU:', responseText);
-        parsedItems = fallbackNLU(message);
-      } else {
-        const parsed = safeJsonParse(responseText);
-
-        if (parsed && Array.isArray(parsed.items)) {
-          parsedItems = parsed.items;
-          console.log('[nutrition] Normalizer parsed items:', parsedItems);
-
-          // Food search skill fired (meal parsing)
-          if (parsedItems.length > 0) {
-            skillsFired.push('food_search');
-          }
-        } else {
-          console.warn('[nutrition] Normalizer returned invalid JSON, using fallback NLU');
-          parsedItems = fallbackNLU(message);
-        }
-      }
-    } else {
-      // Normalizer failed entirely, use fallback
-      console.warn('[nutrition] Normalizer error, using fallback NLU');
-      parsedItems = fallbackNLU(message);
+    const built: VerifyRoleData[] = [];
+    for (const group of groups) {
+      built.push(await buildMealVerify(group, userId, timeZone));
     }
 
-    // Step 1.5: Sanitize normalized items (fix quantity/serving_label issues)
-    // This handles "10-piece" → qty=1 serving="10-piece", "two 10-piece" → qty=2 serving="10-piece", etc.
-    const sanitizedItems = sanitizeNormalizedItems(parsedItems, new Map());
-    console.log('[nutrition] Sanitized items:', sanitizedItems);
+    // Drop meals that turned out to have no food, but always return at least one card
+    const withItems = built.filter(m => m.items.length > 0);
+    const meals = withItems.length > 0 ? withItems : built.slice(0, 1);
 
-    // Step 2: Convert sanitized items back to PortionedItem format for portionResolver
-    const portionedItems = sanitizedItems.map(item => ({
-      name: item.name,
-      amount: item.amount,
-      unit: item.unit,
-      brand: item.brand,
-      serving_label: item.serving_label,
-      size_label: item.size_label,
-      is_branded: item.is_branded
-    }));
-
-    // Step 3: Resolve portions and lookup macros
-    const portioned = portionResolver(portionedItems);
-    const macroResults = await lookupMacrosInCascade(portioned, userId);
-
-    // Extract skills_fired from macro lookup
-    const macroSkills = macroResults.skills_fired || [];
-    skillsFired.push(...macroSkills);
-
-    // Step 3: Compute TEF and TDEE
-    const tef = computeTEF(macroResults.totals);
-    const tdee = await computeTDEE(userId, macroResults.totals, tef, new Date().toISOString());
-
-    console.log('[nutrition] Pipeline complete:', {
-      items: macroResults.items.length,
-      totals: macroResults.totals,
-      tef: tef.kcal,
-      tdee_remaining: tdee.remaining_kcal
-    });
-
-    // Step 4: Generate warnings for low-confidence or unknown items
-    const warnings: Array<{ type: 'low_confidence' | 'missing_portion'; item?: string; message: string }> = [];
-
-    macroResults.items.forEach((item: any) => {
-      if (item.confidence < 0.7) {
-        warnings.push({
-          type: 'low_confidence',
-          item: item.name,
-          message: `Low confidence on "${item.name}" - please verify macros`
-        });
-      }
-      // Flag items with zero macros (unknown foods)
-      if (item.calories === 0 && item.protein_g === 0 && item.carbs_g === 0 && item.fat_g === 0) {
-        warnings.push({
-          type: 'missing_portion',
-          item: item.name,
-          message: `Unknown food "${item.name}" - please add quantity and unit`
-        });
-      }
-    });
-
-    // Step 5: Build verification view (ALWAYS use existing Verification Sheet schema)
-    const verify = {
-      rows: macroResults.items.map((i: any) => ({
-        name: i.name,
-        quantity: i.quantity ?? null,
-        unit: i.unit ?? null,
-        calories: Math.round(i.calories ?? 0),
-        protein_g: Math.round(i.protein_g ?? 0),
-        carbs_g: Math.round(i.carbs_g ?? 0),
-        fat_g: Math.round(i.fat_g ?? 0),
-        fiber_g: Math.round(i.fiber_g ?? 0), // ALWAYS include fiber, even if 0
-        editable: true
-      })),
-      totals: {
-        calories: Math.round(macroResults.totals.calories ?? 0),
-        protein_g: Math.round(macroResults.totals.protein_g ?? 0),
-        carbs_g: Math.round(macroResults.totals.carbs_g ?? 0),
-        fat_g: Math.round(macroResults.totals.fat_g ?? 0),
-        fiber_g: Math.round(macroResults.totals.fiber_g ?? 0) // Ensure fiber in totals
-      },
-      tef: { kcal: Math.round(tef.kcal) },
-      tdee: {
-        target_kcal: Math.round(tdee.target_kcal),
-        remaining_kcal: Math.round(tdee.remaining_kcal),
-        remaining_percentage: Math.round(tdee.remaining_percentage * 10) / 10
-      },
-      meal_slot: inferMealSlotFromTime(), // Time-based inference
-      eaten_at: new Date().toISOString(),
-      // ALWAYS show CONFIRM_LOG button for both "I ate" and "what are the macros" queries
-      actions: ['CONFIRM_LOG', 'EDIT_ITEMS', 'CANCEL'],
-      warnings
-    };
-
-    // Step 6: Return roleData in the shape ChatPat expects
     return {
       success: true,
-      roleData: {
-        type: 'tmwya.verify',
-        view: verify,
-        items: macroResults.items,
-        totals: verify.totals,
-        tef: verify.tef,
-        tdee: verify.tdee,
-        skills_fired: skillsFired  // ✅ Include skills_fired
-      }
+      roleData: meals[0],
+      ...(meals.length > 1 ? { meals } : {})
     };
 
   } catch (error: any) {
@@ -702,3 +302,145 @@ Rules:
   }
 }
 
+/**
+ * Parse, portion and look up one meal, producing its verify card
+ */
+async function buildMealVerify(group: MealTimeGroup, userId: string, timeZone: string): Promise<VerifyRoleData> {
+  const skillsFired: string[] = [];
+  const message = group.text;
+  const eatenAt = group.date.toISOString();
+
+  // Step 1: Deterministic parse first; only inputs the grammar is unsure about go to the LLM
+  const localParse = parseMealText(message);
+  let parsedItems: ParsedItem[];
+
+  if (localParse.simple) {
+    parsedItems = localParse.items;
+    console.log('[nutrition] Meal parser handled input, skipping normalizer:', parsedItems);
+  } else {
+    const llmItems = await normalizeWithLLM(message, userId);
+    parsedItems = llmItems ?? localParse.items;
+    if (!llmItems) console.warn('[nutrition] Normalizer unavailable, using meal parser output');
+  }
+
+  // Food search skill fired (meal parsing)
+  if (parsedItems.length > 0) {
+    skillsFired.push('food_search');
+  }
+
+  // Step 1.5: Sanitize normalized items (fix quantity/serving_label issues)
+  // This handles "10-piece" → qty=1 serving="10-piece", "two 10-piece" → qty=2 serving="10-piece", etc.
+  const sanitizedItems = sanitizeNormalizedItems(parsedItems, new Map());
+  console.log('[nutrition] Sanitized items:', sanitizedItems);
+
+  // Step 2: Convert sanitized items back to PortionedItem format for portionResolver
+  const portionedItems = sanitizedItems.map(item => ({
+    name: item.name,
+    amount: item.amount,
+    unit: item.unit,
+    brand: item.brand,
+    serving_label: item.serving_label,
+    size_label: item.size_label,
+    is_branded: item.is_branded
+  }));
+
+  // Step 3: Resolve portions and lookup macros
+  const portioned = portionResolver(portionedItems, await loadPortionTables());
+  const macroResults = await lookupMacrosInCascade(portioned, userId);
+
+  // Extract skills_fired from macro lookup
+  const macroSkills = macroResults.skills_fired || [];
+  skillsFired.push(...macroSkills);
+
+  // Step 3: Compute TEF and TDEE
+  const tef = computeTEF(macroResults.totals);
+  const tdee = await computeTDEE(userId, macroResults.totals, tef, eatenAt);
+
+  console.log('[nutrition] Pipeline complete:', {
+    items: macroResults.items.length,
+    totals: macroResults.totals,
+    tef: tef.kcal,
+    tdee_remaining: tdee.remaining_kcal,
+    cache: getCacheStats()
+  });
+
+  // Step 4: Generate warnings for low-confidence or unknown items
+  const warnings: Array<{ type: 'low_confidence' | 'missing_portion'; item?: string; message: string }> = [];
+
+  macroResults.items.forEach((item: any) => {
+    if (item.confidence < 0.7) {
+      warnings.push({
+        type: 'low_confidence',
+        item: item.name,
+        message: `Low confidence on "${item.name}" - please verify macros`
+      });
+    }
+    if (item.portion && item.portion.confidence < 0.5 && item.calories > 0) {
+      warnings.push({
+        type: 'low_confidence',
+        item: item.name,
+        message: `Rough portion estimate for "${item.name}" - ${item.portion.explanation}`
+      });
+    }
+    // Flag items with zero macros (unknown foods)
+    if (item.calories === 0 && item.protein_g === 0 && item.carbs_g === 0 && item.fat_g === 0) {
+      warnings.push({
+        type: 'missing_portion',
+        item: item.name,
+        message: `Unknown food "${item.name}" - please add quantity and unit`
+      });
+    }
+  });
+
+  // Step 4.5: Dietary filters (allergens, diet type, religious restrictions) shown before logging
+  const dietary = await applyDietaryFilters(userId, macroResults.items, macroResults.totals);
+
+  // Step 5: Build verification view (ALWAYS use existing Verification Sheet schema)
+  const verify = {
+    rows: macroResults.items.map((i: any) => ({
+      name: i.name,
+      quantity: i.quantity ?? null,
+      unit: i.unit ?? null,
+      calories: Math.round(i.calories ?? 0),
+      protein_g: Math.round(i.protein_g ?? 0),
+      carbs_g: Math.round(i.carbs_g ?? 0),
+      fat_g: Math.round(i.fat_g ?? 0),
+      fiber_g: Math.round(i.fiber_g ?? 0), // ALWAYS include fiber, even if 0
+      grams: i.grams != null ? Math.round(i.grams) : null,
+      portion_note: i.portion?.explanation ?? null,
+      portion_confidence: i.portion?.confidence ?? null,
+      editable: true
+    })),
+    totals: {
+      calories: Math.round(macroResults.totals.calories ?? 0),
+      protein_g: Math.round(macroResults.totals.protein_g ?? 0),
+      carbs_g: Math.round(macroResults.totals.carbs_g ?? 0),
+      fat_g: Math.round(macroResults.totals.fat_g ?? 0),
+      fiber_g: Math.round(macroResults.totals.fiber_g ?? 0) // Ensure fiber in totals
+    },
+    tef: { kcal: Math.round(tef.kcal) },
+    tdee: {
+      target_kcal: Math.round(tdee.target_kcal),
+      remaining_kcal: Math.round(tdee.remaining_kcal),
+      remaining_percentage: Math.round(tdee.remaining_percentage * 10) / 10
+    },
+    meal_slot: group.mealSlot ?? inferMealSlotFromTime(zonedParts(group.date, timeZone).hour),
+    eaten_at: eatenAt,
+    // ALWAYS show CONFIRM_LOG button for both "I ate" and "what are the macros" queries
+    actions: ['CONFIRM_LOG', 'EDIT_ITEMS', 'CANCEL'],
+    warnings,
+    dietary: dietary ? { annotations: dietary.annotations, substitutions: dietary.substitutions } : null
+  };
+
+  // Step 6: Return roleData in the shape ChatPat expects
+  return {
+    type: 'tmwya.verify',
+    view: verify,
+    items: macroResults.items,
+    totals: verify.totals,
+    tef: verify.tef,
+    tdee: verify.tdee,
+    skills_fired: skillsFired  // ✅ Include skills_fired
+  };
+}
+
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { estimateCost, routeWithBudget, type BudgetState, type ModelSelection } from '../modelRouter';
+import { isProviderHealthy, recordProviderResult, resetProviderHealth } from '../providerHealth';
+
+const PRO: ModelSelection = { provider: 'gemini', model: 'gemini-2.5-pro', tokensEst: 1000, reason: 'web_research' };
+
+function budget(overrides: Partial<BudgetState> = {}): BudgetState {
+  return { plan: 'pro', isUnlimited: false, balanceUsd: 10, spent24hUsd: 0, intentSpend24hUsd: {}, ...overrides };
+}
+
+beforeEach(() => resetProviderHealth());
+
+describe('estimateCost', () => {
+  it('prices input and output tokens per model', () => {
+    expect(estimateCost({ model: 'gpt-4o', tokensEst: 1000 })).toBeCloseTo(0.0025 + 0.004, 6);
+    expect(estimateCost({ model: 'gemini-2.5-flash', tokensEst: 1000 })).toBeLessThan(estimateCost({ model: 'gemini-2.5-pro', tokensEst: 1000 }));
+  });
+});
+
+describe('routeWithBudget', () => {
+  it('keeps the base model when budget allows', () => {
+    const routed = routeWithBudget(PRO, { intent: 'ama', budget: budget() });
+    expect(routed.allowed).toBe(true);
+    expect(routed.selection.model).toBe('gemini-2.5-pro');
+    expect(routed.trace.map(t => t.step)).toEqual(['base', 'final']);
+  });
+
+  it('caps the tier by plan', () => {
+    const routed = routeWithBudget(PRO, { budget: budget({ plan: 'free' }) });
+    expect(routed.selection.model).toBe('gemini-2.5-flash');
+    expect(routed.trace[1]).toEqual({ step: 'plan_cap', from: 'gemini-2.5-pro', to: 'gemini-2.5-flash', plan: 'free' });
+  });
+
+  it('degrades pro → flash → mini as the daily cap runs out', () => {
+    const routed = routeWithBudget(PRO, { intent: 'ama', budget: budget({ spent24hUsd: 0.99985 }) });
+    expect(routed.allowed).toBe(true);
+    expect(routed.selection.model).toBe('gemini-2.5-flash-lite');
+    expect(routed.trace.filter(t => t.step === 'degrade').map(t => t.step === 'degrade' && [t.to, t.reason])).toEqual([
+      ['gemini-2.5-flash', 'daily_cap'],
+      ['gemini-2.5-flash-lite', 'daily_cap']
+    ]);
+  });
+
+  it('blocks on the tightest limit when nothing fits', () => {
+    const routed = routeWithBudget(PRO, { intent: 'ama', budget: budget({ intentSpend24hUsd: { ama: 0.6 } }) });
+    expect(routed.allowed).toBe(false);
+    expect(routed.trace[routed.trace.length - 1]).toEqual({ step: 'blocked', reason: 'intent_cap', remainingUsd: 0 });
+
+    const broke = routeWithBudget(PRO, { budget: budget({ balanceUsd: 0 }) });
+    expect(broke.trace[broke.trace.length - 1]).toMatchObject({ step: 'blocked', reason: 'balance' });
+  });
+
+  it('ignores balance and caps for unlimited users', () => {
+    const routed = routeWithBudget(PRO, { budget: budget({ plan: 'unlimited', isUnlimited: true, balanceUsd: 0, spent24hUsd: 50 }) });
+    expect(routed.allowed).toBe(true);
+    expect(routed.remainingUsd).toBeNull();
+  });
+
+  it('fails over to the other provider at the same tier and drops provider tools', () => {
+    for (let i = 0; i < 3; i++) recordProviderResult('gemini', false, new Error('503'));
+    expect(isProviderHealthy('gemini')).toBe(false);
+
+    const routed = routeWithBudget({ ...PRO, tools: [{ google_search: {} }] } as ModelSelection, { budget: budget() });
+    expect(routed.selection.provider).toBe('openai');
+    expect(routed.selection.model).toBe('gpt-4o');
+    expect('tools' in routed.selection).toBe(false);
+    expect(routed.trace[1]).toEqual({ step: 'failover', from: 'gemini-2.5-pro', to: 'gpt-4o', reason: 'provider_unhealthy' });
+  });
+});
+
+describe('providerHealth', () => {
+  it('reopens for a trial call after the cooldown and closes on success', () => {
+    const t0 = 1_000_000;
+    for (let i = 0; i < 3; i++) recordProviderResult('openai', false, 'timeout', t0);
+    expect(isProviderHealthy('openai', t0 + 1000)).toBe(false);
+    expect(isProviderHealthy('openai', t0 + 60_000)).toBe(true);
+
+    recordProviderResult('openai', true);
+    expect(isProviderHealthy('openai', t0 + 1000)).toBe(true);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createLocalEmbedder, setEmbedder } from '../embed';
+import { buildRouteIndex, classify, decideRoute, type IntentRoute } from '../semanticRouter';
+import { evaluateRouter, formatConfusionMatrix } from '../routerEval';
+
+const ROUTES: IntentRoute[] = [
+  { name: 'TMWYA', examples: ['i ate 4 eggs', 'log my meal', 'i had a chicken salad for lunch', 'just ate a protein bar'], hi_threshold: 0.8, mid_threshold: 0.55 },
+  { name: 'workout_log', examples: ['log my workout', 'i did legs today', 'ran 3 miles this morning', 'bench pressed 3 sets of 10'], hi_threshold: 0.8, mid_threshold: 0.55 },
+  { name: 'general', examples: ['who are you?', 'tell me a story'], hi_threshold: 0.8, mid_threshold: 0.55 }
+];
+
+beforeAll(() => setEmbedder(createLocalEmbedder()));
+afterAll(() => setEmbedder(null));
+
+describe('local embedder', () => {
+  it('is deterministic and normalised', async () => {
+    const embed = createLocalEmbedder(64);
+    const [a, b] = await embed(['log my meal', 'log my meal']);
+    expect(a).toEqual(b);
+    expect(a).toHaveLength(64);
+    expect(Math.sqrt(a.reduce((s, v) => s + v * v, 0))).toBeCloseTo(1, 6);
+  });
+});
+
+describe('route index', () => {
+  it('embeds every example and calibrates routes with enough of them', async () => {
+    const index = await buildRouteIndex(ROUTES);
+    expect(index.examples).toHaveLength(10);
+
+    const food = index.thresholds.get('TMWYA')!;
+    expect(food.calibrated).toBe(true);
+    expect(food.hi).toBeGreaterThan(food.mid);
+    expect(index.thresholds.get('general')).toEqual({ hi: 0.8, mid: 0.55, calibrated: false });
+  });
+
+  it('falls back to a stored centroid when a route has no examples', async () => {
+    const [centroid] = await createLocalEmbedder()(['search the web']);
+    const index = await buildRouteIndex([{ name: 'web', examples: [], embedding: JSON.stringify(centroid) }]);
+    expect(index.examples).toEqual([{ route: 'web', text: 'web', vector: centroid }]);
+  });
+
+  it('votes across nearest neighbours', async () => {
+    const index = await buildRouteIndex(ROUTES);
+    const [q] = await createLocalEmbedder()(['i ate a chicken salad']);
+    const decision = classify(q, index, 3);
+    expect(decision.route).toBe('TMWYA');
+    expect(Object.keys(decision.votes!)[0]).toBe('TMWYA');
+    expect(decision.why).toBe('Using my nutrition tools to log this.');
+  });
+});
+
+describe('decideRoute', () => {
+  it('routes close matches and falls back to AMA for unrelated text', async () => {
+    expect((await decideRoute('log my workout please', ROUTES)).route).toBe('workout_log');
+
+    const unrelated = await decideRoute('quantum chromodynamics lecture notes', ROUTES);
+    expect(unrelated.route).toBe('AMA');
+    expect(unrelated.confidence).toBe('low');
+  });
+
+  it('falls back to AMA when embedding fails', async () => {
+    setEmbedder(async () => { throw new Error('offline'); });
+    const decision = await decideRoute('i ate 4 eggs', ROUTES);
+    setEmbedder(createLocalEmbedder());
+    expect(decision).toMatchObject({ route: 'AMA', why: 'Embedding failed, defaulting to AMA' });
+  });
+});
+
+describe('evaluateRouter', () => {
+  it('builds a confusion matrix over expected and predicted routes', async () => {
+    const report = await evaluateRouter([
+      { text: 'i ate 4 eggs', route: 'TMWYA', intent: 'meal_logging' },
+      { text: 'i did legs today', route: 'workout_log' },
+      { text: 'who won the game last night', route: 'web' }
+    ], ROUTES);
+
+    expect(report.labels).toEqual(['TMWYA', 'workout_log', 'general', 'AMA', 'web']);
+    expect(report.total).toBe(3);
+    expect(report.accuracy).toBe(0.667);
+    expect(report.intentAccuracy).toBe(1);
+    expect(report.perRoute.TMWYA).toEqual({ precision: 1, recall: 1, support: 1 });
+    expect(report.misses.map(m => m.expected)).toEqual(['web']);
+    expect(formatConfusionMatrix(report)).toContain('accuracy 0.667 over 3 utterances');
+  });
+});
@@ -1,14 +1,17 @@
-import { supabase } from '@/lib/supabase';
+import { supabase } from '../../lib/supabase';
 
-export type EmbedResponse = { 
+export type EmbedResponse = {
   ok?: boolean;
-  vectors?: number[][]; 
-  embeddings?: number[][]; 
+  vectors?: number[][];
+  embeddings?: number[][];
   data?: number[][];
   error?: string;
 };
 
-export async function getEmbeddings(texts: string[]) {
+/** Anything that turns a batch of texts into one vector per text */
+export type Embedder = (texts: string[]) => Promise<number[][]>;
+
+async function edgeEmbeddings(texts: string[]) {
   const { data, error } = await supabase.functions.invoke<EmbedResponse>('embed', { body: { texts } });
   if (error) throw error;
   if (data && !data.ok) {
@@ -19,3 +22,53 @@ export async function getEmbeddings(texts: string[]) {
   return vecs as number[][];
 }
 
+let activeEmbedder: Embedder = edgeEmbeddings;
+
+export async function getEmbeddings(texts: string[]) {
+  return activeEmbedder(texts);
+}
+
+/**
+ * Swap the embedding backend (tests, offline eval). Pass null to restore
+ * the `embed` edge function.
+ */
+export function setEmbedder(embedder: Embedder | null) {
+  activeEmbedder = embedder ?? edgeEmbeddings;
+}
+
+function hashToken(token: string) {
+  // FNV-1a
+  let h = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    h ^= token.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Deterministic bag-of-features embedder: hashed words plus character
+ * trigrams, L2-normalised. No network, same vector for the same text.
+ */
+export function createLocalEmbedder(dimensions = 256): Embedder {
+  const embedOne = (text: string) => {
+    const vec = new Array<number>(dimensions).fill(0);
+    const words = text.toLowerCase().match(/[a-z0-9']+/g) || [];
+    const add = (feature: string, weight: number) => {
+      const h = hashToken(feature);
+      vec[h % dimensions] += (h & 0x80000000 ? -1 : 1) * weight;
+    };
+
+    for (const word of words) {
+      add(`w:${word}`, 1);
+      const padded = ` ${word} `;
+      for (let i = 0; i + 3 <= padded.length; i++) add(`c:${padded.slice(i, i + 3)}`, 0.3);
+    }
+    for (let i = 0; i + 1 < words.length; i++) add(`b:${words[i]} ${words[i + 1]}`, 0.7);
+
+    const norm = Math.sqrt(vec.reduce((sum, v) => sum + v * v, 0)) || 1;
+    return vec.map(v => v / norm);
+  };
+
+  return async (texts: string[]) => texts.map(embedOne);
+}
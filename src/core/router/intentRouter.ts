@@ -1,5 +1,6 @@
 import { runPersonalityRouter, normalizeIntent } from '../personality/routerAgent';
 import { normalizeNutritionIntent } from './nutritionIntent';
+import { looksLikeWorkoutLog } from './workoutIntent';
 
 export type AmaChannel = "ama-web" | "ama-local";
 
@@ -28,6 +29,22 @@ export async function detectIntent(inputText: string): Promise<import('../person
   // const webIntent = detectWebIntent(inputText)  // if you have one already
   const webIntent: any = (globalThis as any).__hipat_web_intent || {}; // guard if absent
 
+  // --- workout logging: sets/reps or timed cardio, parsed deterministically ---
+  if (looksLikeWorkoutLog(inputText)) {
+    const decision: import('../personality/routerAgent').RouterDecision = {
+      intent: 'workout',
+      route_to: 'workout',
+      use_gemini: false,
+      reason: 'role_task',
+      needs_clarification: false,
+      clarifier: null,
+      confidence: 0.9,
+      ama_nutrition_estimate: false,
+    };
+    console.info('[router]', decision);
+    return decision;
+  }
+
   // --- nutrition normalization (authoritative) ---
   const n = normalizeNutritionIntent(inputText);
 
@@ -3,6 +3,9 @@
  * Cost-aware model selection
  */
 
+import { isProviderHealthy } from './providerHealth';
+import { costForTokens } from '../../lib/credits/rates';
+
 export type ModelProvider = 'openai' | 'gemini';
 
 // Emergency Gemini kill-switch
@@ -11,8 +14,10 @@ const GEMINI_AMA_ENABLED = import.meta.env.VITE_GEMINI_AMA !== 'false';
 export interface ModelConfig {
   provider: ModelProvider;
   model: string;
+  tier: ModelTier;
   estimatedTokensPerRequest: number;
-  costPer1kTokens: number;
+  /** Typical completion length, used when the selection has no maxTokens */
+  estimatedOutputTokens: number;
 }
 
 export interface ModelSelection {
@@ -21,41 +26,58 @@ export interface ModelSelection {
   tokensEst: number;
   temperature?: number;
   latencyMs?: number;
+  maxTokens?: number;
   reason: string;
 }
 
+/** Capability ladder used for degrading: pro → flash → mini */
+export type ModelTier = 'pro' | 'flash' | 'mini';
+
+const TIER_ORDER: ModelTier[] = ['pro', 'flash', 'mini'];
+
+const TIER_MODELS: Record<ModelProvider, Record<ModelTier, string>> = {
+  openai: { pro: 'gpt-4o', flash: 'gpt-4o-mini', mini: 'gpt-4o-mini' },
+  gemini: { pro: 'gemini-2.5-pro', flash: 'gemini-2.5-flash', mini: 'gemini-2.5-flash-lite' },
+};
+
+// Keyed by model id; prices live in the shared rate table
 const MODELS: Record<string, ModelConfig> = {
   'gpt-4o-mini': {
     provider: 'openai',
     model: 'gpt-4o-mini',
+    tier: 'flash',
     estimatedTokensPerRequest: 500,
-    costPer1kTokens: 0.00015, // pricing verified externally
+    estimatedOutputTokens: 300,
   },
   'gpt-4o': {
     provider: 'openai',
     model: 'gpt-4o',
+    tier: 'pro',
     estimatedTokensPerRequest: 500,
-    costPer1kTokens: 0.0025, // pricing verified externally
+    estimatedOutputTokens: 400,
   },
-  'gemini-flash': {
+  'gemini-2.5-flash': {
     provider: 'gemini',
     model: 'gemini-2.5-flash',
+    tier: 'flash',
     estimatedTokensPerRequest: 500,
-    costPer1kTokens: 0.000075, // pricing verified externally
+    estimatedOutputTokens: 300,
   },
-  'gemini-pro': {
+  'gemini-2.5-pro': {
     provider: 'gemini',
     model: 'gemini-2.5-pro',
+    tier: 'pro',
     estimatedTokensPerRequest: 500,
-    costPer1kTokens: 0.00125, // pricing verified externally
+    estimatedOutputTokens: 400,
   },
-  'gemini-flash-lite': {
+  'gemini-2.5-flash-lite': {
     provider: 'gemini',
     model: 'gemini-2.5-flash-lite',
+    tier: 'mini',
     estimatedTokensPerRequest: 300,
-    costPer1kTokens: 0.00005, // pricing verified externally
+    estimatedOutputTokens: 200,
   },
-} as const;
+};
 
 export interface ModelRouterContext {
   intent?: string;
@@ -208,12 +230,155 @@ export function selectModel(context: ModelRouterContext): ModelSelection {
 /**
  * Calculate estimated cost for a model call
  */
-export function estimateCost(selection: ModelSelection): number {
-  const config = MODELS[selection.model as keyof typeof MODELS];
+export function estimateCost(selection: Pick<ModelSelection, 'model' | 'tokensEst' | 'maxTokens'>): number {
+  const config = MODELS[selection.model];
   if (!config) return 0.02; // Default fallback cost
 
-  const tokens = selection.tokensEst || config.estimatedTokensPerRequest;
-  return (tokens / 1000) * config.costPer1kTokens;
+  const inputTokens = selection.tokensEst || config.estimatedTokensPerRequest;
+  const outputTokens = Math.min(selection.maxTokens ?? config.estimatedOutputTokens, config.estimatedOutputTokens);
+  return costForTokens(config.model, inputTokens, outputTokens);
+}
+
+export interface PlanBudget {
+  /** Rolling 24h spend cap; null = no cap */
+  dailyUsd: number | null;
+  /** Best tier this plan may use */
+  maxTier: ModelTier;
+  /** Rolling 24h caps per intent (ama, tmwya, ...) */
+  intentDailyUsd?: Record<string, number>;
+}
+
+export const PLAN_BUDGETS: Record<string, PlanBudget> = {
+  free: { dailyUsd: 0.05, maxTier: 'flash', intentDailyUsd: { ama: 0.03 } },
+  pro: { dailyUsd: 1.0, maxTier: 'pro', intentDailyUsd: { ama: 0.6 } },
+  unlimited: { dailyUsd: null, maxTier: 'pro' },
+};
+
+/** Per-user budget inputs, loaded from v_user_credits and token_transactions */
+export interface BudgetState {
+  plan: string;
+  isUnlimited: boolean;
+  balanceUsd: number;
+  /** Spend over the last 24 hours */
+  spent24hUsd: number;
+  /** Spend over the last 24 hours keyed by intent */
+  intentSpend24hUsd: Record<string, number>;
+}
+
+export type RouteTraceStep =
+  | { step: 'base'; model: string; reason: string }
+  | { step: 'plan_cap'; from: string; to: string; plan: string }
+  | { step: 'failover'; from: string; to: string; reason: 'provider_unhealthy' }
+  | { step: 'providers_unhealthy'; model: string }
+  | { step: 'degrade'; from: string; to: string; reason: BudgetLimit; costUsd: number; remainingUsd: number }
+  | { step: 'blocked'; reason: BudgetLimit; remainingUsd: number }
+  | { step: 'final'; model: string; costUsd: number; remainingUsd: number | null };
+
+export type BudgetLimit = 'balance' | 'daily_cap' | 'intent_cap';
+
+export interface BudgetedSelection<S extends ModelSelection = ModelSelection> {
+  selection: S;
+  allowed: boolean;
+  tier: ModelTier;
+  estimatedCostUsd: number;
+  /** Tightest remaining budget; null when nothing limits spend */
+  remainingUsd: number | null;
+  /** Machine-readable decision trace (shown in admin) */
+  trace: RouteTraceStep[];
+}
+
+export interface BudgetRouteOptions {
+  intent?: string;
+  budget?: BudgetState | null;
+  isHealthy?: (provider: ModelProvider) => boolean;
+}
+
+function tierOf(model: string): ModelTier {
+  return MODELS[model]?.tier ?? 'flash';
+}
+
+function withModel<S extends ModelSelection>(selection: S, provider: ModelProvider, tier: ModelTier): S {
+  const next = { ...selection, provider, model: TIER_MODELS[provider][tier] };
+  // Provider-specific tools (google_search, OpenAI functions) don't carry across
+  if (provider !== selection.provider) {
+    delete (next as { tools?: unknown }).tools;
+    delete (next as { functions?: unknown }).functions;
+  }
+  return next;
+}
+
+function tightestLimit(budget: BudgetState, plan: PlanBudget, intent?: string): { limit: BudgetLimit; remainingUsd: number } | null {
+  const limits: Array<{ limit: BudgetLimit; remainingUsd: number }> = [];
+  if (!budget.isUnlimited) limits.push({ limit: 'balance', remainingUsd: budget.balanceUsd });
+  if (plan.dailyUsd !== null) limits.push({ limit: 'daily_cap', remainingUsd: plan.dailyUsd - budget.spent24hUsd });
+  const intentCap = intent ? plan.intentDailyUsd?.[intent] : undefined;
+  if (intentCap !== undefined) {
+    limits.push({ limit: 'intent_cap', remainingUsd: intentCap - (budget.intentSpend24hUsd[intent!] ?? 0) });
+  }
+  return limits.sort((a, b) => a.remainingUsd - b.remainingUsd)[0] ?? null;
+}
+
+/**
+ * Apply plan caps, provider health and remaining budget to a base selection.
+ * Degrades pro → flash → mini until the estimate fits, fails over between
+ * OpenAI and Gemini when a provider's circuit is open, and blocks the call
+ * when even the cheapest tier doesn't fit.
+ */
+export function routeWithBudget<S extends ModelSelection>(base: S, options: BudgetRouteOptions = {}): BudgetedSelection<S> {
+  const { intent, budget, isHealthy = (p: ModelProvider) => isProviderHealthy(p) } = options;
+  const trace: RouteTraceStep[] = [{ step: 'base', model: base.model, reason: base.reason }];
+  let selection = base;
+  let tier = tierOf(base.model);
+
+  const plan = budget
+    ? PLAN_BUDGETS[budget.isUnlimited ? 'unlimited' : budget.plan] ?? PLAN_BUDGETS.free
+    : null;
+
+  if (plan && TIER_ORDER.indexOf(tier) < TIER_ORDER.indexOf(plan.maxTier)) {
+    const next = withModel(selection, selection.provider, plan.maxTier);
+    trace.push({ step: 'plan_cap', from: selection.model, to: next.model, plan: budget!.plan });
+    selection = next;
+    tier = plan.maxTier;
+  }
+
+  if (!isHealthy(selection.provider)) {
+    const other: ModelProvider = selection.provider === 'openai' ? 'gemini' : 'openai';
+    if (isHealthy(other)) {
+      const next = withModel(selection, other, tier);
+      trace.push({ step: 'failover', from: selection.model, to: next.model, reason: 'provider_unhealthy' });
+      selection = next;
+    } else {
+      trace.push({ step: 'providers_unhealthy', model: selection.model });
+    }
+  }
+
+  const limit = budget && plan ? tightestLimit(budget, plan, intent) : null;
+  let cost = estimateCost(selection);
+
+  if (limit) {
+    while (cost > limit.remainingUsd && tier !== 'mini') {
+      const nextTier = TIER_ORDER[TIER_ORDER.indexOf(tier) + 1];
+      const next = withModel(selection, selection.provider, nextTier);
+      const nextCost = estimateCost(next);
+      if (next.model !== selection.model) {
+        trace.push({ step: 'degrade', from: selection.model, to: next.model, reason: limit.limit, costUsd: nextCost, remainingUsd: limit.remainingUsd });
+      }
+      selection = next;
+      tier = nextTier;
+      cost = nextCost;
+    }
+
+    if (cost > limit.remainingUsd) {
+      trace.push({ step: 'blocked', reason: limit.limit, remainingUsd: Math.max(0, limit.remainingUsd) });
+      console.info('[modelRouter] Blocked by budget', trace);
+      return { selection, allowed: false, tier, estimatedCostUsd: cost, remainingUsd: Math.max(0, limit.remainingUsd), trace };
+    }
+  }
+
+  const remainingUsd = limit ? limit.remainingUsd : null;
+  trace.push({ step: 'final', model: selection.model, costUsd: cost, remainingUsd });
+  console.info('[modelRouter] Budgeted selection', { model: getModelDisplayName(selection), trace });
+  return { selection, allowed: true, tier, estimatedCostUsd: cost, remainingUsd, trace };
 }
 
 /**
@@ -0,0 +1,71 @@
+/**
+ * PROVIDER HEALTH
+ * In-memory circuit breaker per LLM provider, fed by callLLM outcomes
+ */
+
+import type { ModelProvider } from './modelRouter';
+
+/** Consecutive failures that open the circuit */
+const FAILURE_THRESHOLD = 3;
+/** How long an open circuit stays open before one trial call is allowed */
+const COOLDOWN_MS = 60_000;
+
+interface ProviderState {
+  consecutiveFailures: number;
+  openedAt: number | null;
+  lastError?: string;
+}
+
+export interface ProviderHealthSnapshot {
+  provider: ModelProvider;
+  healthy: boolean;
+  consecutiveFailures: number;
+  lastError?: string;
+}
+
+const states: Record<ModelProvider, ProviderState> = {
+  openai: { consecutiveFailures: 0, openedAt: null },
+  gemini: { consecutiveFailures: 0, openedAt: null },
+};
+
+export function recordProviderResult(provider: ModelProvider, ok: boolean, error?: unknown, now = Date.now()): void {
+  const state = states[provider];
+  if (ok) {
+    state.consecutiveFailures = 0;
+    state.openedAt = null;
+    state.lastError = undefined;
+    return;
+  }
+
+  state.consecutiveFailures++;
+  state.lastError = error instanceof Error ? error.message : error ? String(error) : 'unknown_error';
+  if (state.consecutiveFailures >= FAILURE_THRESHOLD) {
+    if (state.openedAt === null) {
+      console.warn('[providerHealth] Circuit opened for', provider, state.lastError);
+    }
+    state.openedAt = now;
+  }
+}
+
+/** Closed circuit, or open long enough that a trial call is due */
+export function isProviderHealthy(provider: ModelProvider, now = Date.now()): boolean {
+  const { openedAt } = states[provider];
+  return openedAt === null || now - openedAt >= COOLDOWN_MS;
+}
+
+export function getProviderHealth(now = Date.now()): ProviderHealthSnapshot[] {
+  return (Object.keys(states) as ModelProvider[]).map(provider => ({
+    provider,
+    healthy: isProviderHealthy(provider, now),
+    consecutiveFailures: states[provider].consecutiveFailures,
+    lastError: states[provider].lastError,
+  }));
+}
+
+export function resetProviderHealth(): void {
+  for (const state of Object.values(states)) {
+    state.consecutiveFailures = 0;
+    state.openedAt = null;
+    state.lastError = undefined;
+  }
+}
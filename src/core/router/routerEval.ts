@@ -0,0 +1,109 @@
+/**
+ * Offline router evaluation: runs labeled utterances through detectIntent +
+ * decideRoute and tallies a confusion matrix over route names.
+ */
+
+import type { RouterDecision } from '../personality/routerAgent';
+import { detectIntent } from './intentRouter';
+import { decideRoute, type IntentRoute, type RouteDecision } from './semanticRouter';
+
+export interface LabeledUtterance {
+  text: string;
+  /** Expected decideRoute result ("AMA" for anything that should fall through) */
+  route: string;
+  /** Expected detectIntent intent, when the sample pins one */
+  intent?: RouterDecision['intent'];
+}
+
+export interface RouterEvalMiss {
+  text: string;
+  expected: string;
+  predicted: string;
+  sim: number;
+}
+
+export interface RouterEvalReport {
+  total: number;
+  accuracy: number;
+  /** Row/column order for `matrix` */
+  labels: string[];
+  /** matrix[expected][predicted] counts */
+  matrix: number[][];
+  perRoute: Record<string, { precision: number; recall: number; support: number }>;
+  /** Share of samples with an `intent` whose detectIntent result matched; null if none had one */
+  intentAccuracy: number | null;
+  misses: RouterEvalMiss[];
+}
+
+export interface RouterEvalDeps {
+  detectIntent: (text: string) => Promise<Pick<RouterDecision, 'intent'>>;
+  decideRoute: (text: string, routes: IntentRoute[]) => Promise<RouteDecision>;
+}
+
+const ratio = (n: number, d: number) => (d ? Math.round((n / d) * 1000) / 1000 : 0);
+
+export async function evaluateRouter(
+  samples: LabeledUtterance[],
+  routes: IntentRoute[],
+  deps: RouterEvalDeps = { detectIntent, decideRoute }
+): Promise<RouterEvalReport> {
+  const results: Array<{ sample: LabeledUtterance; predicted: string; sim: number; intent: string }> = [];
+
+  // Sequential on purpose: keeps embed calls and logs in sample order
+  for (const sample of samples) {
+    const intent = await deps.detectIntent(sample.text);
+    const decision = await deps.decideRoute(sample.text, routes);
+    results.push({ sample, predicted: decision.route, sim: decision.sim, intent: intent.intent });
+  }
+
+  const labels = Array.from(new Set([
+    ...routes.map(r => r.name),
+    'AMA',
+    ...results.flatMap(r => [r.sample.route, r.predicted])
+  ]));
+  const at = new Map(labels.map((l, i) => [l, i]));
+  const matrix = labels.map(() => labels.map(() => 0));
+  for (const r of results) matrix[at.get(r.sample.route)!][at.get(r.predicted)!]++;
+
+  const perRoute: RouterEvalReport['perRoute'] = {};
+  labels.forEach((label, i) => {
+    const support = matrix[i].reduce((a, b) => a + b, 0);
+    const predicted = matrix.reduce((sum, row) => sum + row[i], 0);
+    if (!support && !predicted) return;
+    perRoute[label] = { precision: ratio(matrix[i][i], predicted), recall: ratio(matrix[i][i], support), support };
+  });
+
+  const withIntent = results.filter(r => r.sample.intent);
+  const correct = results.filter(r => r.predicted === r.sample.route).length;
+
+  return {
+    total: results.length,
+    accuracy: ratio(correct, results.length),
+    labels,
+    matrix,
+    perRoute,
+    intentAccuracy: withIntent.length
+      ? ratio(withIntent.filter(r => r.intent === r.sample.intent).length, withIntent.length)
+      : null,
+    misses: results
+      .filter(r => r.predicted !== r.sample.route)
+      .map(r => ({ text: r.sample.text, expected: r.sample.route, predicted: r.predicted, sim: Math.round(r.sim * 1000) / 1000 }))
+  };
+}
+
+/** Plain-text table: rows are expected routes, columns predicted */
+export function formatConfusionMatrix(report: RouterEvalReport): string {
+  const width = Math.max(8, ...report.labels.map(l => l.length)) + 2;
+  const pad = (s: string | number) => String(s).padStart(width);
+  const lines = [
+    pad('exp\\pred') + report.labels.map(pad).join(''),
+    ...report.labels.map((label, i) => pad(label) + report.matrix[i].map(pad).join(''))
+  ];
+
+  lines.push('', `accuracy ${report.accuracy} over ${report.total} utterances`);
+  if (report.intentAccuracy !== null) lines.push(`intent accuracy ${report.intentAccuracy}`);
+  for (const [label, m] of Object.entries(report.perRoute)) {
+    lines.push(`${label}: precision ${m.precision} recall ${m.recall} (n=${m.support})`);
+  }
+  return lines.join('\n');
+}
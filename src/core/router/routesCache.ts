@@ -1,5 +1,7 @@
 
-let cached: { id:string; name:string; examples:string; embedding:number[]; hi_threshold:number; mid_threshold:number }[] | null = null;
+import type { IntentRoute } from './semanticRouter';
+
+let cached: IntentRoute[] | null = null;
 
 export async function loadRoutesOnce(supabase: any) {
   if (cached) return cached;
@@ -15,10 +17,10 @@ export async function loadRoutesOnce(supabase: any) {
       return cached;
     }
 
-    cached = data || [];
+    cached = (data || []) as IntentRoute[];
     console.info('[router] Loaded', cached.length, 'intent routes from DB');
 
-    return cached!;
+    return cached;
   } catch (err) {
     console.error('[router] Exception loading routes:', err);
     cached = [];
@@ -26,6 +28,9 @@ export async function loadRoutesOnce(supabase: any) {
   }
 }
 
+const noRoutes: IntentRoute[] = [];
+
 export function getCachedRoutes() {
-  return cached || [];
+  // Stable reference so the semantic router's index cache can key on it
+  return cached || noRoutes;
 }
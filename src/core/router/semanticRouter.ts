@@ -1,6 +1,52 @@
-function cosine(a:number[], b:number[]){ let d=0,na=0,nb=0; for(let i=0;i<a.length;i++){d+=a[i]*b[i];na+=a[i]*a[i];nb+=b[i]*b[i];} return d/(Math.sqrt(na)*Math.sqrt(nb)); }
+import { getEmbeddings } from './embed';
 
-import { getEmbeddings } from '@/core/router/embed';
+export interface IntentRoute {
+  id?: string;
+  name: string;
+  /** text[] from intent_routes; older rows may hold a single string */
+  examples?: string[] | string | null;
+  /** Single pgvector centroid; PostgREST returns it as "[0.1,0.2,...]" */
+  embedding?: number[] | string | null;
+  hi_threshold?: number | null;
+  mid_threshold?: number | null;
+}
+
+export interface RouteExample {
+  route: string;
+  text: string;
+  vector: number[];
+}
+
+export interface RouteThresholds {
+  hi: number;
+  mid: number;
+  /** true when derived from the route's own examples rather than the row */
+  calibrated: boolean;
+}
+
+export interface RouteIndex {
+  examples: RouteExample[];
+  thresholds: Map<string, RouteThresholds>;
+}
+
+export interface RouteDecision {
+  route: string;
+  confidence: 'high' | 'mid' | 'low';
+  sim: number;
+  hi: number;
+  mid: number;
+  why: string;
+  /** Similarity-weighted kNN votes per route */
+  votes?: Record<string, number>;
+}
+
+const DEFAULT_HI = 0.85;
+const DEFAULT_MID = 0.60;
+const DEFAULT_K = 5;
+/** Routes need this many examples before their thresholds are calibrated */
+const MIN_CALIBRATION_EXAMPLES = 3;
+
+function cosine(a:number[], b:number[]){ let d=0,na=0,nb=0; for(let i=0;i<a.length;i++){d+=a[i]*b[i];na+=a[i]*a[i];nb+=b[i]*b[i];} return na&&nb ? d/(Math.sqrt(na)*Math.sqrt(nb)) : 0; }
 
 export async function embed(text:string){
   try {
@@ -12,33 +58,136 @@ export async function embed(text:string){
   }
 }
 
-export async function decideRoute(prompt:string, routes:any[]){
-
-  const q = await embed(prompt);
-  
-  // If embedding failed, fallback to AMA
-  if (!q.length) {
-    return { route: "AMA", confidence: "low", sim: 0, hi: 0.85, mid: 0.60, why: "Embedding failed, defaulting to AMA" };
+function parseVector(v: IntentRoute['embedding']): number[] {
+  if (Array.isArray(v)) return v;
+  if (typeof v === 'string' && v.startsWith('[')) {
+    try { return JSON.parse(v); } catch { return []; }
   }
+  return [];
+}
 
-  let best = { name:"AMA", sim:-1, hi:0.85, mid:0.60, why:"Searching my knowledge and the web for this." };
+function routeExamples(r: IntentRoute): string[] {
+  const raw = Array.isArray(r.examples) ? r.examples : r.examples ? [r.examples] : [];
+  return raw.map(e => e.trim()).filter(Boolean);
+}
 
-  for (const r of routes){
+function quantile(values: number[], q: number) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const clamp = (n: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, n));
 
-    if (!r.embedding || !r.embedding.length) continue;
+/**
+ * Per-route thresholds from leave-one-out similarities: `mid` sits just under
+ * how close the route's own examples are to each other, `hi` above the
+ * closest examples of other routes.
+ */
+export function calibrateThresholds(examples: RouteExample[], route: string): RouteThresholds | null {
+  const own = examples.filter(e => e.route === route);
+  if (own.length < MIN_CALIBRATION_EXAMPLES) return null;
 
-    const sim = cosine(q, r.embedding);
+  const inSims = own.map(e => Math.max(...own.filter(o => o !== e).map(o => cosine(e.vector, o.vector))));
+  const outSims = own.flatMap(e => examples.filter(o => o.route !== route).map(o => cosine(e.vector, o.vector)));
 
-    const hi = r.hi_threshold ?? 0.85;
+  const mid = round2(clamp(quantile(inSims, 0.1) * 0.9, 0.2, 0.9));
+  const impostor = outSims.length ? quantile(outSims, 0.9) + 0.05 : 0;
+  const hi = round2(clamp(Math.max(quantile(inSims, 0.5), impostor), mid + 0.05, 0.99));
+  return { hi, mid, calibrated: true };
+}
 
-    const mid = r.mid_threshold ?? 0.60;
+/**
+ * Embed every example utterance of every route (one batch) into a flat
+ * vector index. Routes with no examples fall back to their stored centroid.
+ */
+export async function buildRouteIndex(routes: IntentRoute[]): Promise<RouteIndex> {
+  const pending = routes.flatMap(r => routeExamples(r).map(text => ({ route: r.name, text })));
+  const vectors = pending.length ? await getEmbeddings(pending.map(p => p.text)) : [];
 
-    if (sim > best.sim) best = { name:r.name, sim, hi, mid, why: r.name==="TMWYA" ? "Using my nutrition tools to log this." : "Routing based on semantic match." };
+  const examples: RouteExample[] = pending
+    .map((p, i) => ({ ...p, vector: vectors[i] || [] }))
+    .filter(e => e.vector.length);
+
+  for (const r of routes) {
+    if (examples.some(e => e.route === r.name)) continue;
+    const centroid = parseVector(r.embedding);
+    if (centroid.length) examples.push({ route: r.name, text: r.name, vector: centroid });
+  }
 
+  const thresholds = new Map<string, RouteThresholds>();
+  for (const r of routes) {
+    thresholds.set(r.name, calibrateThresholds(examples, r.name) ?? {
+      hi: Number(r.hi_threshold ?? DEFAULT_HI),
+      mid: Number(r.mid_threshold ?? DEFAULT_MID),
+      calibrated: false
+    });
   }
 
-  const level = best.sim >= best.hi ? "high" : best.sim >= best.mid ? "mid" : "low";
+  console.info('[semanticRouter] Indexed', examples.length, 'examples across', routes.length, 'routes');
+  return { examples, thresholds };
+}
+
+// Keyed by the routes array from routesCache, so the index is built once per load
+const indexCache = new WeakMap<IntentRoute[], Promise<RouteIndex>>();
+
+export function getRouteIndex(routes: IntentRoute[]): Promise<RouteIndex> {
+  let index = indexCache.get(routes);
+  if (!index) {
+    index = buildRouteIndex(routes).catch(err => {
+      console.error('[semanticRouter] Index build failed:', err);
+      indexCache.delete(routes);
+      return { examples: [], thresholds: new Map() };
+    });
+    indexCache.set(routes, index);
+  }
+  return index;
+}
+
+/**
+ * k nearest examples vote for their route, weighted by similarity. The winning
+ * route's best similarity is compared to that route's thresholds.
+ */
+export function classify(query: number[], index: RouteIndex, k = DEFAULT_K): RouteDecision {
+  const neighbours = index.examples
+    .map(e => ({ route: e.route, sim: cosine(query, e.vector) }))
+    .sort((a, b) => b.sim - a.sim)
+    .slice(0, k);
+
+  const votes: Record<string, number> = {};
+  for (const n of neighbours) {
+    if (n.sim > 0) votes[n.route] = (votes[n.route] ?? 0) + n.sim;
+  }
+
+  const [winner] = Object.entries(votes).sort((a, b) => b[1] - a[1])[0] ?? [];
+  if (!winner) {
+    return { route: "AMA", confidence: "low", sim: 0, hi: DEFAULT_HI, mid: DEFAULT_MID, why: "Searching my knowledge and the web for this.", votes };
+  }
+
+  const sim = Math.max(...neighbours.filter(n => n.route === winner).map(n => n.sim));
+  const { hi, mid } = index.thresholds.get(winner) ?? { hi: DEFAULT_HI, mid: DEFAULT_MID };
+  const level = sim >= hi ? "high" : sim >= mid ? "mid" : "low";
+  const why = level === "low"
+    ? "Searching my knowledge and the web for this."
+    : winner === "TMWYA" ? "Using my nutrition tools to log this." : "Routing based on semantic match.";
+
+  for (const route of Object.keys(votes)) votes[route] = round2(votes[route]);
+
+  return { route: level === "low" ? "AMA" : winner, confidence: level, sim, hi, mid, why, votes };
+}
+
+export async function decideRoute(prompt:string, routes:IntentRoute[], k = DEFAULT_K): Promise<RouteDecision> {
+
+  const q = await embed(prompt);
+
+  // If embedding failed, fallback to AMA
+  if (!q.length) {
+    return { route: "AMA", confidence: "low", sim: 0, hi: DEFAULT_HI, mid: DEFAULT_MID, why: "Embedding failed, defaulting to AMA" };
+  }
 
-  return { route: level==="low" ? "AMA" : best.name, confidence: level, sim: best.sim, hi: best.hi, mid: best.mid, why: best.why };
+  return classify(q, await getRouteIndex(routes), k);
 
 }
@@ -0,0 +1,23 @@
+// src/core/router/workoutIntent.ts
+
+// --- simple detectors (fast + deterministic) ---
+
+const hasSetsReps = (text: string) =>
+  /\b\d+\s*[x×]\s*\d+\b|\b\d+\s*sets?\s*(of\s*)?\d+|\b\d+\s*reps?\b/i.test(text);
+
+const hasCardioDuration = (text: string) =>
+  /\b\d+(\.\d+)?\s*(min|mins|minutes?|hrs?|hours?|miles?|mi|km|k)\b/i.test(text) &&
+  /\b(run|ran|running|jog|jogged|bike|biked|cycl\w*|spin|swim|swam|walk|walked|row|rowing|erg|hike|hiked|zone\s*\d|cardio|elliptical|stairmaster)\b/i.test(text);
+
+const looksLikeQuestion = (text: string) =>
+  /\?\s*$/.test(text) || /^\s*(how|what|why|when|should|can|could|is|are|do|does|which)\b/i.test(text);
+
+/**
+ * True for messages that report a finished workout ("3x8 bench 185, then 20 min
+ * zone 2 run"). Questions about training stay with AMA.
+ */
+export function looksLikeWorkoutLog(userText: string): boolean {
+  const t = userText.trim().toLowerCase();
+  if (!t || looksLikeQuestion(t)) return false;
+  return hasSetsReps(t) || hasCardioDuration(t);
+}
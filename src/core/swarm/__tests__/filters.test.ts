@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+import { FilterPipeline, AllergenFilter, KosherFilter, type DietaryFilterRule, type UserDietaryPrefs } from '../filters';
+import { findTerm, resolveAllergens, resolveDietPattern } from '../dietaryTerms';
+
+function prefs(overrides: Partial<UserDietaryPrefs> = {}): UserDietaryPrefs {
+  return { diet_type: 'balanced', macro_overrides: {}, allergens: [], religious_restrictions: [], ...overrides };
+}
+
+function meal(...names: string[]) {
+  return { items: names.map(name => ({ name, carbs_g: 0 })), totals: { carbs_g: 0 } };
+}
+
+describe('dietaryTerms', () => {
+  it('matches whole words and honours exclusions', () => {
+    expect(findTerm('scrambled eggs', ['egg'])).toBe('egg');
+    expect(findTerm('grilled eggplant', ['egg'])).toBeNull();
+    expect(findTerm('peanut butter toast', ['butter'], ['peanut butter'])).toBeNull();
+  });
+
+  it('resolves allergen preferences to canonical keys', () => {
+    expect(resolveAllergens('Tree nuts')).toEqual(['tree_nuts']);
+    expect(resolveAllergens('nuts')).toEqual(['peanuts', 'tree_nuts']);
+    expect(resolveAllergens('kiwi')).toEqual(['kiwi']);
+  });
+});
+
+describe('AllergenFilter', () => {
+  it('flags direct and hidden allergen sources', async () => {
+    const filter = new AllergenFilter([], prefs({ allergens: ['dairy', 'sesame'] }));
+    const result = await filter.apply(meal('chocolate whey protein shake', 'hummus', 'cheddar cheese', 'peanut butter'));
+
+    expect(result.annotations.map(a => a.message)).toEqual([
+      'chocolate whey protein shake usually contains dairy (whey protein).',
+      'hummus usually contains sesame (tahini).',
+      'cheddar cheese may contain dairy (allergen).'
+    ]);
+    expect(result.annotations.every(a => a.severity === 'error')).toBe(true);
+    expect(result.substitutions).toHaveLength(3);
+  });
+
+  it('skips everything under persona override', async () => {
+    const filter = new AllergenFilter([], prefs({ allergens: ['eggs'] }));
+    const result = await filter.apply(meal('omelette'), true);
+    expect(result.annotations).toHaveLength(0);
+  });
+});
+
+describe('religious filters', () => {
+  it('apply only to users whose religious restrictions name them', async () => {
+    const off = await new FilterPipeline([], prefs()).applyAll(meal('bacon'));
+    const on = await new FilterPipeline([], prefs({ religious_restrictions: ['halal'] })).applyAll(meal('bacon'));
+
+    expect(off.annotations).toHaveLength(0);
+    expect(on.annotations[0]).toMatchObject({ severity: 'error', message: 'bacon contains pork, which is not halal (Halal).' });
+    expect(on.substitutions[0].suggested).toContain('turkey bacon');
+  });
+
+  it('halal flags alcohol and notes meat certification', async () => {
+    const result = await new FilterPipeline([], prefs({ religious_restrictions: ['Halal'] }))
+      .applyAll(meal('glass of red wine', 'grilled chicken', 'turkey bacon'));
+
+    expect(result.annotations.map(a => [a.field, a.severity])).toEqual([
+      ['item.glass of red wine', 'error'],
+      ['item.grilled chicken', 'info'],
+      ['item.turkey bacon', 'info']
+    ]);
+  });
+
+  it('kosher flags shellfish and meat with dairy', async () => {
+    const filter = new KosherFilter([], prefs({ religious_restrictions: ['kosher'] }));
+
+    const shrimp = await filter.apply(meal('shrimp tacos'));
+    expect(shrimp.annotations[0].message).toBe('shrimp tacos is seafood without fins and scales (Kosher).');
+
+    const burger = await filter.apply(meal('cheeseburger'));
+    expect(burger.annotations[0].message).toBe('cheeseburger combines meat and dairy (Kosher).');
+
+    const mixed = await filter.apply(meal('steak', 'glass of milk'));
+    expect(mixed.annotations).toEqual([
+      { field: 'items', message: 'This meal mixes meat and dairy items (Kosher).', severity: 'warning' }
+    ]);
+  });
+
+  it('hindu vegetarian and jain rules', async () => {
+    const hindu = await new FilterPipeline([], prefs({ religious_restrictions: ['hindu'] }))
+      .applyAll(meal('beef curry', 'paneer tikka', 'boiled egg', 'veggie burger'));
+    expect(hindu.annotations.map(a => a.field)).toEqual(['item.beef curry', 'item.boiled egg']);
+
+    const jain = await new FilterPipeline([], prefs({ religious_restrictions: ['jain'] }))
+      .applyAll(meal('aloo gobi with potatoes', 'dal with garlic', 'rice', 'honeydew melon'));
+    expect(jain.annotations.map(a => a.field)).toEqual(['item.aloo gobi with potatoes', 'item.dal with garlic']);
+    expect(jain.substitutions[0].suggested).toContain('asafoetida');
+  });
+});
+
+function rule(type: string, condition: Record<string, unknown>, substitutions: unknown[] = []): DietaryFilterRule {
+  return { id: type, type, condition, annotations: [], substitutions, enabled: true };
+}
+
+const DIET_RULES = [
+  rule('vegan', { exclude: ['meat', 'seafood', 'dairy', 'eggs', 'honey', 'gelatin'] }),
+  rule('vegetarian', { exclude: ['meat', 'seafood', 'gelatin'] }),
+  rule('pescatarian', { exclude: ['meat'] }, [{ group: 'meat', suggested: 'Salmon or shrimp' }]),
+  rule('mediterranean', { limit: ['red_meat', 'processed_meat', 'refined_grains', 'refined_sugar'] }),
+  rule('paleo', { exclude: ['grains', 'legumes', 'dairy', 'refined_sugar', 'processed'] }),
+  rule('low_fodmap', { exclude: ['fodmap_fructans', 'fodmap_lactose', 'fodmap_fructose', 'fodmap_gos', 'fodmap_polyols'] })
+];
+
+async function dietCheck(dietType: string, ...names: string[]) {
+  return new FilterPipeline(DIET_RULES, prefs({ diet_type: dietType })).applyAll(meal(...names));
+}
+
+describe('food-group diet filters', () => {
+  it('resolves diet names and aliases', () => {
+    expect(resolveDietPattern('Low-FODMAP')).toBe('low_fodmap');
+    expect(resolveDietPattern('plant based')).toBe('vegan');
+    expect(resolveDietPattern('balanced')).toBeNull();
+  });
+
+  it('vegan flags animal products and suggests swaps', async () => {
+    const result = await dietCheck('vegan', 'greek yogurt with honey', 'oat milk latte', 'tofu scramble', 'eggplant parm');
+    expect(result.annotations.map(a => a.field)).toEqual(['item.greek yogurt with honey', 'item.eggplant parm']);
+    expect(result.annotations[0]).toMatchObject({
+      severity: 'warning',
+      message: "greek yogurt with honey contains dairy (yogurt), which doesn't fit a Vegan diet."
+    });
+    expect(result.substitutions[0].suggested).toContain('coconut yogurt');
+    expect(result.warnings).toHaveLength(1);
+  });
+
+  it('vegetarian and pescatarian draw the line at different places', async () => {
+    const veg = await dietCheck('vegetarian', 'shrimp pasta', 'cheese pizza', 'veggie burger', 'gummy bears');
+    expect(veg.annotations.map(a => a.field)).toEqual(['item.shrimp pasta', 'item.gummy bears']);
+
+    const pesc = await dietCheck('pescatarian', 'shrimp pasta', 'chicken wings');
+    expect(pesc.annotations.map(a => a.field)).toEqual(['item.chicken wings']);
+    expect(pesc.substitutions[0].suggested).toBe('Salmon or shrimp');
+  });
+
+  it('mediterranean only notes foods to limit', async () => {
+    const result = await dietCheck('mediterranean', 'ribeye steak', 'grilled salmon', 'white bread');
+    expect(result.annotations.map(a => [a.field, a.severity])).toEqual([
+      ['item.ribeye steak', 'info'],
+      ['item.white bread', 'info']
+    ]);
+    expect(result.warnings).toHaveLength(0);
+  });
+
+  it('paleo and low-FODMAP flag their excluded groups', async () => {
+    const paleo = await dietCheck('paleo', 'black beans', 'cauliflower rice', 'steak', 'sourdough toast');
+    expect(paleo.annotations.map(a => a.field)).toEqual(['item.black beans', 'item.sourdough toast']);
+
+    const fodmap = await dietCheck('low_fodmap', 'apple', 'garlic bread', 'rice', 'sauteed mushrooms');
+    expect(fodmap.annotations.map(a => a.message)).toEqual([
+      "apple contains excess fructose (apple), which doesn't fit a Low-FODMAP diet.",
+      "garlic bread contains fructans (garlic), which doesn't fit a Low-FODMAP diet.",
+      "sauteed mushrooms contains polyols (mushroom), which doesn't fit a Low-FODMAP diet."
+    ]);
+  });
+
+  it('stays quiet without a matching diet or rule', async () => {
+    expect((await dietCheck('balanced', 'bacon')).annotations).toHaveLength(0);
+    const noRule = await new FilterPipeline([], prefs({ diet_type: 'vegan' })).applyAll(meal('bacon'));
+    expect(noRule.annotations).toHaveLength(0);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { matchField, scoreOutput, validateSchema } from '../fixtureMatchers';
+import {
+  compareSuiteRuns,
+  createRecordedClient,
+  recordingsFromRun,
+  runFixtureSuite,
+  type PromptFixture
+} from '../fixtureRunner';
+
+const mealSchema = {
+  type: 'object' as const,
+  required: ['items', 'totals'],
+  properties: {
+    items: { type: 'array' as const, minItems: 1, items: { type: 'object' as const, required: ['name'] } },
+    totals: { type: 'object' as const, properties: { kcal: { type: 'number' as const, minimum: 0 } } }
+  }
+};
+
+const fixture = (id: string, input: string, expected: unknown): PromptFixture => ({
+  id, agent_prompt_id: 'p0', input_text: input, expected_output: expected, description: null
+});
+
+describe('fixture matchers', () => {
+  it('validates the JSON schema subset', () => {
+    expect(validateSchema({ items: [{ name: 'egg' }], totals: { kcal: 70 } }, mealSchema)).toEqual([]);
+    expect(validateSchema({ items: [], totals: { kcal: -1 } }, mealSchema)).toEqual([
+      '$.items: fewer than 1 items',
+      '$.totals.kcal: -1 < minimum 0'
+    ]);
+    expect(validateSchema({ items: [{}] }, mealSchema)).toEqual(['$.totals: required', '$.items[0].name: required']);
+  });
+
+  it('matches fields by value, tolerance, range and text', () => {
+    expect(matchField(310, { approx: 300 })).toBeNull();
+    expect(matchField(400, { approx: 300, tolerance: 0.2 })).toBe('expected ~300 (±60), got 400');
+    expect(matchField(25, { min: 20, max: 40 })).toBeNull();
+    expect(matchField('Grilled Chicken', { contains: 'chicken' })).toBeNull();
+    expect(matchField(undefined, { exists: false })).toBeNull();
+    expect(matchField(undefined, { min: 0 })).toBe('missing');
+    expect(matchField('food_log', 'food_log')).toBeNull();
+  });
+
+  it('scores fenced JSON output and treats plain objects as field expectations', () => {
+    const output = '```json\n{"items":[{"name":"egg"}],"totals":{"kcal":72}}\n```';
+    expect(scoreOutput({ schema: mealSchema, fields: { 'items[0].name': 'egg', 'totals.kcal': { approx: 70 } } }, output).passed).toBe(true);
+    expect(scoreOutput({ 'totals.kcal': 90 }, output).failures).toEqual(['totals.kcal: expected 90, got 72']);
+    expect(scoreOutput({ 'totals.kcal': 72 }, 'Sure! About 72 calories.').failures).toEqual(['output is not valid JSON']);
+    expect(scoreOutput({ $: { contains: '72 calories' } }, 'Sure! About 72 calories.').passed).toBe(true);
+  });
+});
+
+describe('runFixtureSuite', () => {
+  const fixtures = [
+    fixture('f1', 'two eggs', { 'totals.kcal': { approx: 140 } }),
+    fixture('f2', 'a banana', { 'totals.kcal': { approx: 105 } }),
+    fixture('f3', 'black coffee', { 'totals.kcal': { max: 5 } })
+  ];
+  const published = { id: 'p1', content: 'Published prompt', model: 'gpt-4o-mini' };
+  const draft = { id: 'p2', content: 'Draft prompt', model: 'gpt-4o-mini' };
+  const kcal = (n: number) => `{"totals":{"kcal":${n}}}`;
+
+  const client = createRecordedClient([
+    { system: published.content, input: 'two eggs', output: kcal(143) },
+    { system: published.content, input: 'a banana', output: kcal(105) },
+    { system: published.content, input: 'black coffee', output: kcal(60) },
+    { system: draft.content, input: 'two eggs', output: kcal(140) },
+    { system: draft.content, input: 'a banana', output: kcal(300) }
+  ]);
+
+  it('replays recorded responses and reports missing recordings as failures', async () => {
+    const run = await runFixtureSuite(draft, fixtures, client);
+    expect(run).toMatchObject({ prompt_id: 'p2', mode: 'recorded', total: 3, passed: 1 });
+    expect(run.results[2]).toMatchObject({ output_text: null, passed: false, failures: ['No recorded response for this prompt and input'] });
+  });
+
+  it('flags a regression when the candidate passes fewer fixtures than the published version', async () => {
+    const baseline = await runFixtureSuite(published, fixtures, client);
+    const candidate = await runFixtureSuite(draft, fixtures, client);
+    expect(compareSuiteRuns(candidate, baseline)).toEqual({
+      candidate_rate: 1 / 3,
+      baseline_rate: 2 / 3,
+      regressed: true,
+      newly_failing: ['f2'],
+      newly_passing: []
+    });
+    expect(compareSuiteRuns(baseline, null).regressed).toBe(false);
+    expect(compareSuiteRuns(baseline, baseline).regressed).toBe(false);
+  });
+
+  it('turns a live run into recordings for offline replays', async () => {
+    const run = await runFixtureSuite(draft, fixtures, client);
+    const replay = await runFixtureSuite(draft, fixtures, createRecordedClient(recordingsFromRun(draft, run.results)));
+    expect(replay.results.map(r => r.passed)).toEqual(run.results.map(r => r.passed));
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { assignVersion, hashBucket, inRollout, type LiveVersion } from '../rollout';
+import { buildVariantReport, type ReportTurn } from '../experimentReport';
+
+const users = Array.from({ length: 2000 }, (_, i) => `user-${i}`);
+
+const versions = (rollout: number, extra: Partial<LiveVersion> = {}): LiveVersion[] => [
+  { id: 'v1', rollout_percent: 100, published_at: '2025-11-01T00:00:00Z' },
+  { id: 'v2', rollout_percent: rollout, published_at: '2025-11-20T00:00:00Z', ...extra }
+];
+
+describe('hashBucket', () => {
+  it('is stable and spreads users evenly', () => {
+    expect(hashBucket('user-1', 'swarm:personality:v2')).toBe(hashBucket('user-1', 'swarm:personality:v2'));
+    const inTen = users.filter(u => inRollout(u, 'salt', 10)).length;
+    expect(inTen / users.length).toBeGreaterThan(0.07);
+    expect(inTen / users.length).toBeLessThan(0.13);
+  });
+});
+
+describe('assignVersion', () => {
+  it('serves the newest version to its rollout share and the previous one to everyone else', () => {
+    const assigned = users.map(u => assignVersion(u, 'swarm', 'personality', versions(25))!);
+    const treated = assigned.filter(a => a.variant === 'treatment');
+    expect(treated.every(a => a.version_id === 'v2')).toBe(true);
+    expect(assigned.filter(a => a.variant === 'control').every(a => a.version_id === 'v1')).toBe(true);
+    expect(treated.length / users.length).toBeGreaterThan(0.2);
+    expect(treated.length / users.length).toBeLessThan(0.3);
+    expect(assigned[0].experiment_key).toBe('swarm:personality:v2');
+  });
+
+  it('only adds users when the rollout ramps up', () => {
+    const at10 = users.filter(u => assignVersion(u, 'swarm', 'personality', versions(10))!.variant === 'treatment');
+    const at50 = new Set(users.filter(u => assignVersion(u, 'swarm', 'personality', versions(50))!.variant === 'treatment'));
+    expect(at10.every(u => at50.has(u))).toBe(true);
+  });
+
+  it('keeps a stored treatment assignment when the rollout is dialled back', () => {
+    const user = users.find(u =>
+      assignVersion(u, 'swarm', 'personality', versions(50))!.variant === 'treatment' &&
+      assignVersion(u, 'swarm', 'personality', versions(5))!.variant === 'control'
+    )!;
+    const stored = assignVersion(user, 'swarm', 'personality', versions(50))!;
+    expect(assignVersion(user, 'swarm', 'personality', versions(5), { stored })!.version_id).toBe('v2');
+    expect(assignVersion(user, 'swarm', 'personality', versions(5))!.version_id).toBe('v1');
+  });
+
+  it('sends everyone back to the control when the rollout is set to 0%', () => {
+    const user = users.find(u => assignVersion(u, 'swarm', 'personality', versions(50))!.variant === 'treatment')!;
+    const stored = assignVersion(user, 'swarm', 'personality', versions(50))!;
+    expect(assignVersion(user, 'swarm', 'personality', versions(0), { stored })).toEqual({
+      experiment_key: 'swarm:personality:v2',
+      version_id: 'v1',
+      variant: 'control'
+    });
+  });
+
+  it('holds users out of the experiment and respects the cohort', () => {
+    const withHoldout = users.map(u => assignVersion(u, 'swarm', 'personality', versions(99, { holdout_percent: 10 }))!);
+    const held = withHoldout.filter(a => a.variant === 'holdout');
+    expect(held.length / users.length).toBeGreaterThan(0.07);
+    expect(held.every(a => a.version_id === 'v1')).toBe(true);
+
+    const beta = versions(99, { cohort: 'beta' });
+    expect(assignVersion('user-1', 'swarm', 'personality', beta, { cohorts: { beta: false, paid: true } })!.variant).toBe('control');
+
+    const forged = { experiment_key: 'swarm:personality:v2', version_id: 'v2', variant: 'treatment' as const };
+    expect(assignVersion('user-1', 'swarm', 'personality', beta, { stored: forged, cohorts: { beta: false, paid: false } })!.variant).toBe('control');
+  });
+
+  it('serves a single or fully rolled-out version with no experiment', () => {
+    expect(assignVersion('u', 'swarm', 'personality', versions(100))).toEqual({ experiment_key: null, version_id: 'v2', variant: 'control' });
+    expect(assignVersion('u', 'prompt', 'PERSONALITY_VOICE', [versions(0)[1]])!.version_id).toBe('v2');
+    expect(assignVersion('u', 'swarm', 'personality', [])).toBeNull();
+  });
+});
+
+describe('buildVariantReport', () => {
+  const turn = (variant: ReportTurn['variant'], extra: Partial<ReportTurn> = {}): ReportTurn => ({
+    experiment_key: 'swarm:personality:v2', version_id: variant === 'treatment' ? 'v2' : 'v1', variant,
+    cost_usd: 0.002, latency_ms: 1000, has_verify: false, outcome: null, edited: false, thumbs: null, ...extra
+  });
+
+  it('computes outcome metrics per variant', () => {
+    const report = buildVariantReport([
+      turn('control', { has_verify: true, outcome: 'confirmed' }),
+      turn('control', { has_verify: true, outcome: 'cancelled', edited: true }),
+      turn('treatment', { has_verify: true, outcome: 'confirmed', latency_ms: 3000 }),
+      turn('treatment', { thumbs: 1, cost_usd: 0.004 }),
+      turn('treatment', { thumbs: -1, latency_ms: null })
+    ]);
+
+    expect(report.map(r => r.variant)).toEqual(['control', 'treatment']);
+    expect(report[0]).toMatchObject({ turns: 2, verify_turns: 2, confirm_rate: 0.5, edit_rate: 0.5, thumbs_up_rate: null });
+    expect(report[1]).toMatchObject({ turns: 3, confirm_rate: 1, thumbs_up: 1, thumbs_down: 1, thumbs_up_rate: 0.5, avg_latency_ms: 2000, p95_latency_ms: 3000 });
+    expect(report[1].avg_cost_usd).toBeCloseTo(0.008 / 3);
+  });
+});
@@ -0,0 +1,301 @@
+/**
+ * DIETARY TERM TABLES
+ * Ingredient → allergen map and religious-restriction rules used by the
+ * allergen and religious filters. Matching is by whole word on item names.
+ */
+
+export type Allergen =
+  | 'dairy'
+  | 'eggs'
+  | 'gluten'
+  | 'peanuts'
+  | 'tree_nuts'
+  | 'soy'
+  | 'sesame'
+  | 'fish'
+  | 'shellfish';
+
+export interface AllergenSource {
+  /** Words that name the allergen directly ("cheese" → dairy) */
+  direct: string[];
+  /** Foods where the allergen is easy to miss, with what usually carries it */
+  hidden: Record<string, string>;
+  /** Phrases that look like a match but are not ("peanut butter" is not dairy) */
+  exclude?: string[];
+  label: string;
+  substitute: string;
+}
+
+export const ALLERGEN_SOURCES: Record<Allergen, AllergenSource> = {
+  dairy: {
+    label: 'dairy',
+    substitute: 'Lactose-free or plant-based version (oat or soy milk, dairy-free cheese)',
+    direct: ['milk', 'cheese', 'yogurt', 'yoghurt', 'butter', 'cream', 'ghee', 'kefir', 'paneer', 'ricotta', 'mozzarella', 'parmesan', 'cheddar', 'feta', 'brie', 'lactose', 'buttermilk', 'half and half'],
+    hidden: {
+      whey: 'whey protein', casein: 'casein', caseinate: 'casein', latte: 'milk', cappuccino: 'milk', alfredo: 'cream and parmesan',
+      queso: 'cheese', tzatziki: 'yogurt', ranch: 'buttermilk', custard: 'milk', 'ice cream': 'cream', 'milk chocolate': 'milk',
+      pesto: 'parmesan', pizza: 'cheese', lasagna: 'cheese', quesadilla: 'cheese', cheeseburger: 'cheese', 'mac and cheese': 'cheese',
+      nougat: 'milk powder', 'protein shake': 'whey', 'protein bar': 'whey or milk protein'
+    },
+    exclude: ['peanut butter', 'almond butter', 'cashew butter', 'nut butter', 'apple butter', 'cocoa butter', 'shea butter', 'coconut milk', 'almond milk', 'oat milk', 'soy milk', 'rice milk', 'coconut cream', 'cream of tartar', 'dairy free', 'dairy-free', 'vegan']
+  },
+  eggs: {
+    label: 'eggs',
+    substitute: 'Egg-free version (tofu scramble, flax egg)',
+    direct: ['egg', 'eggs', 'omelet', 'omelette', 'frittata', 'egg white', 'egg yolk'],
+    hidden: {
+      mayonnaise: 'egg yolk', mayo: 'egg yolk', aioli: 'egg yolk', meringue: 'egg white', quiche: 'egg', custard: 'egg',
+      hollandaise: 'egg yolk', eggnog: 'egg', 'french toast': 'egg', brioche: 'egg', carbonara: 'egg yolk', 'caesar dressing': 'egg yolk',
+      'caesar salad': 'egg yolk in the dressing', pancake: 'egg', waffle: 'egg', 'fried rice': 'egg', 'egg noodles': 'egg'
+    },
+    exclude: ['eggplant', 'egg free', 'egg-free', 'vegan']
+  },
+  gluten: {
+    label: 'gluten',
+    substitute: 'Gluten-free version (rice, corn tortilla, gluten-free bread)',
+    direct: ['wheat', 'barley', 'rye', 'spelt', 'farro', 'semolina', 'bulgur', 'couscous', 'seitan', 'flour'],
+    hidden: {
+      bread: 'wheat flour', pasta: 'wheat', noodle: 'wheat', noodles: 'wheat', bagel: 'wheat flour', croissant: 'wheat flour',
+      pizza: 'wheat crust', cracker: 'wheat flour', pretzel: 'wheat flour', muffin: 'wheat flour', pancake: 'wheat flour',
+      waffle: 'wheat flour', cake: 'wheat flour', cookie: 'wheat flour', breadcrumbs: 'wheat', panko: 'wheat', croutons: 'wheat',
+      beer: 'barley malt', malt: 'barley', 'soy sauce': 'wheat', teriyaki: 'soy sauce (wheat)', gravy: 'wheat flour', tortilla: 'wheat flour',
+      burrito: 'wheat tortilla', sandwich: 'bread', burger: 'bun', wrap: 'wheat tortilla', dumpling: 'wheat wrapper'
+    },
+    exclude: ['gluten free', 'gluten-free', 'rice noodle', 'rice noodles', 'corn tortilla', 'buckwheat', 'tamari', 'lettuce wrap']
+  },
+  peanuts: {
+    label: 'peanuts',
+    substitute: 'Sunflower seed butter or a peanut-free version',
+    direct: ['peanut', 'peanuts', 'peanut butter', 'groundnut'],
+    hidden: { satay: 'peanut sauce', 'pad thai': 'crushed peanuts', 'kung pao': 'peanuts', 'pb&j': 'peanut butter', reeses: 'peanut butter', "reese's": 'peanut butter', snickers: 'peanuts' }
+  },
+  tree_nuts: {
+    label: 'tree nuts',
+    substitute: 'Seeds (pumpkin or sunflower) or a nut-free version',
+    direct: ['almond', 'almonds', 'cashew', 'cashews', 'walnut', 'walnuts', 'pecan', 'pecans', 'hazelnut', 'hazelnuts', 'pistachio', 'pistachios', 'macadamia', 'brazil nut', 'pine nut', 'pine nuts'],
+    hidden: { pesto: 'pine nuts', marzipan: 'almonds', praline: 'hazelnuts or pecans', nutella: 'hazelnuts', baklava: 'walnuts or pistachios', frangipane: 'almonds', nougat: 'almonds', biscotti: 'almonds' },
+    exclude: ['nutmeg', 'butternut', 'coconut', 'water chestnut']
+  },
+  soy: {
+    label: 'soy',
+    substitute: 'Coconut aminos instead of soy sauce; chickpeas instead of tofu',
+    direct: ['soy', 'soya', 'soybean', 'tofu', 'tempeh', 'edamame', 'miso', 'natto', 'soy milk'],
+    hidden: { 'soy sauce': 'soy', tamari: 'soy', teriyaki: 'soy sauce', 'soy lecithin': 'soy', 'protein bar': 'soy protein or lecithin' }
+  },
+  sesame: {
+    label: 'sesame',
+    substitute: 'Sesame-free dip (e.g. white bean dip) or sunflower seed butter',
+    direct: ['sesame', 'sesame seeds', 'sesame oil'],
+    hidden: { tahini: 'sesame paste', hummus: 'tahini', halva: 'sesame paste', halvah: 'sesame paste', 'baba ganoush': 'tahini', "za'atar": 'sesame seeds', zaatar: 'sesame seeds', gomasio: 'sesame seeds', 'everything bagel': 'sesame seeds', falafel: 'tahini sauce' }
+  },
+  fish: {
+    label: 'fish',
+    substitute: 'Chicken or a fish-free sauce',
+    direct: ['fish', 'salmon', 'tuna', 'cod', 'tilapia', 'trout', 'halibut', 'sardine', 'sardines', 'anchovy', 'anchovies', 'mackerel', 'bass', 'snapper', 'mahi', 'haddock', 'catfish', 'swordfish', 'pollock'],
+    hidden: { 'fish sauce': 'fermented fish', worcestershire: 'anchovies', 'caesar dressing': 'anchovies', 'caesar salad': 'anchovies in the dressing', sushi: 'raw fish', poke: 'raw fish', 'pad thai': 'fish sauce', 'fish oil': 'fish' }
+  },
+  shellfish: {
+    label: 'shellfish',
+    substitute: 'Chicken, tofu or finfish if tolerated',
+    direct: ['shrimp', 'prawn', 'prawns', 'crab', 'lobster', 'oyster', 'oysters', 'clam', 'clams', 'mussel', 'mussels', 'scallop', 'scallops', 'crawfish', 'crayfish', 'squid', 'calamari', 'octopus'],
+    hidden: { paella: 'shrimp and mussels', gumbo: 'shrimp', 'shrimp paste': 'shrimp', 'oyster sauce': 'oyster extract', cioppino: 'shellfish', 'tom yum': 'shrimp' }
+  }
+};
+
+const ALLERGEN_ALIASES: Record<string, Allergen[]> = {
+  dairy: ['dairy'], milk: ['dairy'], lactose: ['dairy'],
+  eggs: ['eggs'], egg: ['eggs'],
+  gluten: ['gluten'], wheat: ['gluten'], celiac: ['gluten'],
+  peanut: ['peanuts'], peanuts: ['peanuts'],
+  tree_nuts: ['tree_nuts'], tree_nut: ['tree_nuts'], treenuts: ['tree_nuts'],
+  nuts: ['peanuts', 'tree_nuts'], nut: ['peanuts', 'tree_nuts'],
+  soy: ['soy'], soya: ['soy'],
+  sesame: ['sesame'],
+  fish: ['fish'],
+  shellfish: ['shellfish'], crustacean: ['shellfish'], crustaceans: ['shellfish']
+};
+
+/**
+ * Map a stored allergen preference ("Tree nuts", "milk") to canonical allergens
+ * Unknown values are returned as-is so they still match by name
+ */
+export function resolveAllergens(pref: string): Array<Allergen | string> {
+  const key = pref.toLowerCase().trim().replace(/[\s-]+/g, '_');
+  return ALLERGEN_ALIASES[key] ?? [pref.toLowerCase().trim()];
+}
+
+export type ReligiousRestriction = 'halal' | 'kosher' | 'hindu_vegetarian' | 'jain';
+
+const RESTRICTION_ALIASES: Record<string, ReligiousRestriction> = {
+  halal: 'halal', muslim: 'halal', islamic: 'halal',
+  kosher: 'kosher', jewish: 'kosher',
+  hindu_vegetarian: 'hindu_vegetarian', hindu: 'hindu_vegetarian', vegetarian_hindu: 'hindu_vegetarian',
+  jain: 'jain', jainism: 'jain'
+};
+
+export function resolveRestriction(pref: string): ReligiousRestriction | null {
+  return RESTRICTION_ALIASES[pref.toLowerCase().trim().replace(/[\s-]+/g, '_')] ?? null;
+}
+
+export interface RestrictionRule {
+  id: string;
+  terms: string[];
+  severity: 'info' | 'warning' | 'error';
+  /** Why the term is flagged, phrased to follow the item name */
+  reason: string;
+  suggested: string;
+  exclude?: string[];
+}
+
+const PORK = ['pork', 'bacon', 'ham', 'prosciutto', 'pancetta', 'lard', 'chorizo', 'pepperoni', 'salami', 'carnitas', 'pork rinds', 'spare ribs', 'bratwurst', 'mortadella'];
+const ALCOHOL = ['wine', 'beer', 'rum', 'vodka', 'whiskey', 'whisky', 'bourbon', 'tequila', 'gin', 'sake', 'mirin', 'liqueur', 'brandy', 'cocktail', 'margarita', 'mimosa', 'sangria', 'champagne', 'cider', 'ale', 'lager', 'stout'];
+const GELATIN = ['gelatin', 'gelatine', 'marshmallow', 'marshmallows', 'gummy', 'gummies', 'jello', 'jell-o'];
+const MEAT = ['beef', 'steak', 'chicken', 'turkey', 'lamb', 'mutton', 'veal', 'goat', 'venison', 'duck', 'burger', 'meatball', 'meatballs', 'brisket', 'sausage', 'hot dog', 'jerky', 'ground beef', 'pastrami', 'kebab', 'shawarma', 'gyro', 'cheeseburger', 'cheesesteak', 'meat'];
+const SEAFOOD = [...ALLERGEN_SOURCES.fish.direct, ...ALLERGEN_SOURCES.shellfish.direct];
+const EGGS = ALLERGEN_SOURCES.eggs.direct;
+const ROOT_VEGETABLES = ['potato', 'potatoes', 'onion', 'onions', 'garlic', 'carrot', 'carrots', 'beet', 'beets', 'beetroot', 'radish', 'ginger', 'turnip', 'sweet potato', 'yam', 'leek', 'shallot', 'shallots', 'scallion', 'scallions', 'cassava', 'fries', 'french fries', 'hash brown', 'hash browns', 'tater tots', 'mashed potatoes', 'potato chips', 'chips'];
+const NOT_MEAT = ['veggie burger', 'impossible burger', 'beyond burger', 'plant-based', 'plant based', 'vegan', 'vegetarian', 'meatless', 'tofu'];
+
+export const RELIGIOUS_RULES: Record<ReligiousRestriction, RestrictionRule[]> = {
+  halal: [
+    { id: 'pork', terms: PORK, severity: 'error', reason: 'contains pork, which is not halal', suggested: 'Beef or turkey alternative (e.g. turkey bacon)', exclude: ['turkey bacon', 'beef bacon', 'turkey ham', 'halal'] },
+    { id: 'alcohol', terms: ALCOHOL, severity: 'error', reason: 'contains alcohol', suggested: 'Non-alcoholic alternative', exclude: ['non-alcoholic', 'alcohol-free', 'ginger ale', 'apple cider vinegar', 'wine vinegar', 'root beer'] },
+    { id: 'gelatin', terms: GELATIN, severity: 'warning', reason: 'may contain pork gelatin', suggested: 'Halal-certified or agar-based version', exclude: ['halal', 'vegan'] },
+    { id: 'meat', terms: MEAT, severity: 'info', reason: 'should come from halal (zabiha) slaughter', suggested: 'Check for halal certification', exclude: ['halal', ...NOT_MEAT] }
+  ],
+  kosher: [
+    { id: 'pork', terms: PORK, severity: 'error', reason: 'contains pork, which is not kosher', suggested: 'Kosher beef or poultry alternative', exclude: ['turkey bacon', 'beef bacon', 'turkey ham', 'kosher'] },
+    { id: 'shellfish', terms: [...ALLERGEN_SOURCES.shellfish.direct, 'catfish', 'eel', 'shark', 'sturgeon'], severity: 'error', reason: 'is seafood without fins and scales', suggested: 'Fish with fins and scales (e.g. salmon, cod)' },
+    { id: 'gelatin', terms: GELATIN, severity: 'warning', reason: 'may contain non-kosher gelatin', suggested: 'Kosher-certified or agar-based version', exclude: ['kosher', 'vegan'] },
+    { id: 'wine', terms: ['wine', 'champagne', 'brandy'], severity: 'warning', reason: 'grape products need kosher certification', suggested: 'Kosher-certified wine', exclude: ['kosher', 'wine vinegar'] }
+  ],
+  hindu_vegetarian: [
+    { id: 'beef', terms: ['beef', 'steak', 'veal', 'brisket', 'ground beef', 'burger', 'cheeseburger', 'pastrami', 'oxtail'], severity: 'error', reason: 'contains beef', suggested: 'Paneer, lentils or a veggie burger', exclude: NOT_MEAT },
+    { id: 'meat', terms: [...MEAT, ...PORK], severity: 'error', reason: 'contains meat', suggested: 'Paneer, tofu or lentils', exclude: NOT_MEAT },
+    { id: 'seafood', terms: SEAFOOD, severity: 'error', reason: 'contains fish or seafood', suggested: 'Paneer, tofu or lentils' },
+    { id: 'eggs', terms: EGGS, severity: 'error', reason: 'contains egg (not lacto-vegetarian)', suggested: 'Besan (chickpea flour) or paneer', exclude: ['eggplant', 'egg-free', 'eggless'] },
+    { id: 'animal_additives', terms: [...GELATIN, 'fish sauce', 'anchovy', 'worcestershire'], severity: 'warning', reason: 'may contain animal-derived ingredients', suggested: 'Vegetarian-certified version', exclude: ['vegan', 'vegetarian'] }
+  ],
+  jain: [
+    { id: 'meat', terms: [...MEAT, ...PORK], severity: 'error', reason: 'contains meat', suggested: 'Paneer, tofu or lentils', exclude: NOT_MEAT },
+    { id: 'seafood', terms: SEAFOOD, severity: 'error', reason: 'contains fish or seafood', suggested: 'Paneer, tofu or lentils' },
+    { id: 'eggs', terms: EGGS, severity: 'error', reason: 'contains egg', suggested: 'Besan (chickpea flour)', exclude: ['eggplant', 'egg-free', 'eggless'] },
+    { id: 'root_vegetables', terms: ROOT_VEGETABLES, severity: 'error', reason: 'contains root vegetables', suggested: 'Raw banana or bottle gourd; asafoetida (hing) instead of onion and garlic', exclude: ['jain'] },
+    { id: 'honey', terms: ['honey'], severity: 'error', reason: 'contains honey', suggested: 'Jaggery or maple syrup', exclude: ['honeydew'] },
+    { id: 'alcohol', terms: ALCOHOL, severity: 'error', reason: 'contains alcohol', suggested: 'Non-alcoholic alternative', exclude: ['non-alcoholic', 'ginger ale', 'root beer'] },
+    { id: 'mushrooms', terms: ['mushroom', 'mushrooms', 'yeast'], severity: 'warning', reason: 'is usually avoided (fungi)', suggested: 'Paneer or seasonal vegetables' },
+    { id: 'animal_additives', terms: [...GELATIN, 'fish sauce', 'anchovy', 'worcestershire'], severity: 'warning', reason: 'may contain animal-derived ingredients', suggested: 'Vegetarian-certified version', exclude: ['vegan'] }
+  ]
+};
+
+/** Terms used by the kosher meat-and-dairy check */
+export const KOSHER_MEAT_TERMS = MEAT;
+export const KOSHER_NOT_MEAT = NOT_MEAT;
+export const KOSHER_MIXED_DISHES = ['cheeseburger', 'cheesesteak', 'chicken parmesan', 'chicken parm', 'chicken alfredo', 'beef stroganoff', 'meat lasagna', 'chicken quesadilla', 'beef quesadilla', 'butter chicken', 'chicken tikka masala'];
+
+export type FoodGroup =
+  | 'meat'
+  | 'red_meat'
+  | 'processed_meat'
+  | 'seafood'
+  | 'dairy'
+  | 'eggs'
+  | 'honey'
+  | 'gelatin'
+  | 'grains'
+  | 'refined_grains'
+  | 'legumes'
+  | 'refined_sugar'
+  | 'processed'
+  | 'fodmap_fructans'
+  | 'fodmap_lactose'
+  | 'fodmap_fructose'
+  | 'fodmap_gos'
+  | 'fodmap_polyols';
+
+export interface FoodGroupTerms {
+  label: string;
+  terms: string[];
+  exclude?: string[];
+  /** Default swap when the rule row carries no override */
+  swap: string;
+}
+
+const PLANT_BASED = ['plant-based', 'plant based', 'vegan', 'veggie', 'meatless', 'impossible', 'beyond', 'dairy-free', 'dairy free'];
+const PROCESSED_MEAT = ['bacon', 'ham', 'sausage', 'hot dog', 'salami', 'pepperoni', 'prosciutto', 'pastrami', 'bologna', 'jerky', 'chorizo', 'deli meat', 'lunch meat', 'spam', 'bratwurst', 'mortadella', 'corned beef'];
+const PLANT_MILK_DRINKS = ['oat', 'oat milk', 'soy', 'soy milk', 'almond', 'almond milk', 'coconut milk']
+  .flatMap(milk => ['latte', 'cappuccino'].map(drink => `${milk} ${drink}`));
+const REFINED_GRAINS = ['white bread', 'white rice', 'bagel', 'croissant', 'pastry', 'donut', 'doughnut', 'white pasta', 'crackers', 'pretzel', 'muffin', 'pancake', 'waffle', 'cereal', 'flour tortilla'];
+
+export const FOOD_GROUPS: Record<FoodGroup, FoodGroupTerms> = {
+  meat: { label: 'meat', terms: [...MEAT, ...PORK], exclude: [...NOT_MEAT, ...PLANT_BASED], swap: 'Tofu, tempeh, seitan, or beans' },
+  red_meat: { label: 'red meat', terms: ['beef', 'steak', 'lamb', 'mutton', 'veal', 'goat', 'venison', 'pork', 'burger', 'cheeseburger', 'brisket', 'ribs', 'ground beef', 'meatball', 'meatballs'], exclude: [...NOT_MEAT, ...PLANT_BASED, 'turkey burger', 'chicken burger', 'salmon burger'], swap: 'Fish, poultry, or legumes' },
+  processed_meat: { label: 'processed meat', terms: PROCESSED_MEAT, exclude: [...PLANT_BASED, 'turkey bacon'], swap: 'Grilled chicken, fish, or roasted chickpeas' },
+  seafood: { label: 'fish or seafood', terms: [...SEAFOOD, 'fish sauce', 'sushi', 'poke'], exclude: [...PLANT_BASED, 'fish-free'], swap: 'Tofu, tempeh, or seaweed-seasoned chickpeas' },
+  dairy: { label: 'dairy', terms: [...ALLERGEN_SOURCES.dairy.direct, 'whey', 'casein', 'latte', 'cappuccino', 'ice cream', 'pizza', 'quesadilla', 'alfredo', 'parm'], exclude: [...(ALLERGEN_SOURCES.dairy.exclude ?? []), ...PLANT_BASED, ...PLANT_MILK_DRINKS], swap: 'Oat, soy, or almond milk; cashew cheese; coconut yogurt' },
+  eggs: { label: 'eggs', terms: [...EGGS, 'mayonnaise', 'mayo', 'aioli', 'quiche', 'meringue', 'french toast'], exclude: ['eggplant', 'egg-free', 'eggless', ...PLANT_BASED], swap: 'Tofu scramble, chickpea flour, or flax egg' },
+  honey: { label: 'honey', terms: ['honey'], exclude: ['honeydew', 'honeycrisp'], swap: 'Maple syrup or date syrup' },
+  gelatin: { label: 'gelatin', terms: GELATIN, exclude: ['vegan', 'agar'], swap: 'Agar-agar or pectin' },
+  grains: { label: 'grains', terms: ['bread', 'rice', 'pasta', 'oats', 'oatmeal', 'oat', 'quinoa', 'corn', 'tortilla', 'cereal', 'granola', 'bagel', 'noodles', 'noodle', 'couscous', 'barley', 'wheat', 'flour', 'cracker', 'crackers', 'pancake', 'waffle', 'muffin', 'pizza', 'sandwich', 'burrito', 'wrap', 'bun', 'toast'], exclude: ['cauliflower rice', 'zucchini noodles', 'lettuce wrap', 'almond flour', 'coconut flour', 'cassava flour', 'paleo'], swap: 'Cauliflower rice, sweet potato, or lettuce wraps' },
+  refined_grains: { label: 'refined grains', terms: REFINED_GRAINS, exclude: ['whole wheat', 'whole-wheat', 'whole grain', 'wholegrain'], swap: 'Whole-grain bread, brown rice, or farro' },
+  legumes: { label: 'legumes', terms: ['beans', 'black beans', 'kidney beans', 'chickpea', 'chickpeas', 'lentil', 'lentils', 'peanut', 'peanuts', 'peanut butter', 'soy', 'tofu', 'tempeh', 'edamame', 'hummus', 'dal', 'refried beans', 'peas'], exclude: ['green beans', 'snap peas', 'snow peas', 'coffee beans', 'cocoa beans', 'vanilla beans'], swap: 'Extra vegetables, nuts, or seeds' },
+  refined_sugar: { label: 'refined sugar', terms: ['sugar', 'soda', 'candy', 'cookie', 'cookies', 'cake', 'donut', 'doughnut', 'ice cream', 'syrup', 'chocolate bar', 'frosting', 'energy drink', 'sweet tea'], exclude: ['sugar-free', 'sugar free', 'no sugar', 'diet soda', 'maple syrup', 'sugar snap'], swap: 'Fresh fruit or a little raw honey' },
+  processed: { label: 'processed food', terms: ['chips', 'fries', 'nuggets', 'hot dog', 'frozen dinner', 'instant noodles', 'ramen', 'protein bar', 'margarine', 'canola oil', 'vegetable oil', 'soybean oil'], swap: 'Whole-food version (roasted potatoes, olive or avocado oil)' },
+  fodmap_fructans: { label: 'fructans', terms: ['onion', 'onions', 'garlic', 'shallot', 'leek', 'wheat', 'bread', 'pasta', 'bagel', 'rye', 'barley', 'couscous', 'artichoke', 'inulin', 'chicory'], exclude: ['garlic-infused oil', 'garlic infused oil', 'green onion tops', 'spring onion tops', 'gluten-free', 'gluten free', 'sourdough spelt'], swap: 'Garlic-infused oil, green onion tops, or sourdough/gluten-free bread' },
+  fodmap_lactose: { label: 'lactose', terms: ['milk', 'ice cream', 'yogurt', 'yoghurt', 'ricotta', 'cottage cheese', 'cream cheese', 'custard', 'latte', 'cappuccino', 'milkshake'], exclude: ['lactose-free', 'lactose free', 'almond milk', 'oat milk', 'rice milk', 'coconut milk', 'soy milk', ...PLANT_MILK_DRINKS], swap: 'Lactose-free milk or yogurt, hard cheeses' },
+  fodmap_fructose: { label: 'excess fructose', terms: ['apple', 'apples', 'pear', 'pears', 'mango', 'watermelon', 'honey', 'agave', 'high fructose corn syrup', 'asparagus', 'sugar snap peas', 'fruit juice', 'apple juice'], exclude: ['pineapple', 'apple cider vinegar'], swap: 'Oranges, berries, grapes, or kiwi; maple syrup instead of honey' },
+  fodmap_gos: { label: 'galacto-oligosaccharides', terms: ['beans', 'black beans', 'kidney beans', 'baked beans', 'chickpea', 'chickpeas', 'hummus', 'lentil', 'lentils', 'split peas', 'soy milk', 'pistachio', 'pistachios', 'cashew', 'cashews'], exclude: ['green beans', 'canned lentils'], swap: 'Firm tofu or small portions of canned lentils' },
+  fodmap_polyols: { label: 'polyols', terms: ['cauliflower', 'mushroom', 'mushrooms', 'avocado', 'apricot', 'plum', 'prune', 'cherries', 'nectarine', 'peach', 'sorbitol', 'mannitol', 'xylitol', 'sugar-free gum'], swap: 'Oyster mushrooms, zucchini, or carrots' }
+};
+
+export type DietPattern = 'vegan' | 'vegetarian' | 'pescatarian' | 'mediterranean' | 'paleo' | 'low_fodmap';
+
+const DIET_ALIASES: Record<string, DietPattern> = {
+  vegan: 'vegan', plant_based: 'vegan',
+  vegetarian: 'vegetarian', lacto_ovo: 'vegetarian',
+  pescatarian: 'pescatarian', pescetarian: 'pescatarian',
+  mediterranean: 'mediterranean',
+  paleo: 'paleo', paleolithic: 'paleo',
+  low_fodmap: 'low_fodmap', fodmap: 'low_fodmap'
+};
+
+/** Maps a stored diet_type / dietary_preference ("Low-FODMAP", "plant based") to a pattern */
+export function resolveDietPattern(pref: string | null | undefined): DietPattern | null {
+  const key = (pref || '').trim().toLowerCase().replace(/[\s-]+/g, '_');
+  return DIET_ALIASES[key] ?? null;
+}
+
+/** Which food groups an item belongs to (first matching term per group) */
+export function matchFoodGroups(text: string, groups: FoodGroup[]): Array<{ group: FoodGroup; term: string }> {
+  return groups.flatMap(group => {
+    const term = findTerm(text, FOOD_GROUPS[group].terms, FOOD_GROUPS[group].exclude);
+    return term ? [{ group, term }] : [];
+  });
+}
+
+const termPatterns = new Map<string, RegExp>();
+
+/**
+ * Whole-word match, tolerating a plural suffix ("egg" matches "eggs", not "eggplant")
+ */
+export function containsTerm(text: string, term: string): boolean {
+  let re = termPatterns.get(term);
+  if (!re) {
+    const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    re = new RegExp(`(?:^|[^a-z0-9])${escaped}(?:e?s)?(?=$|[^a-z0-9])`, 'i');
+    termPatterns.set(term, re);
+  }
+  return re.test(text);
+}
+
+/**
+ * First term found in `text` after removing exclusion phrases
+ */
+export function findTerm(text: string, terms: string[], exclude: string[] = []): string | null {
+  let haystack = text.toLowerCase();
+  // Longest first, so "oat milk latte" is removed whole before "oat milk"
+  for (const phrase of [...exclude].sort((a, b) => b.length - a.length)) {
+    if (haystack.includes(phrase)) haystack = haystack.split(phrase).join(' ');
+  }
+  return terms.find(t => containsTerm(haystack, t)) ?? null;
+}
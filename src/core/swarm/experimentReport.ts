@@ -0,0 +1,90 @@
+/**
+ * Per-variant outcome metrics for swarm experiments, computed from tagged
+ * chat turns (chat_turn_variants).
+ */
+
+import type { Variant } from './rollout';
+
+export interface ReportTurn {
+  experiment_key: string | null;
+  version_id: string | null;
+  variant: Variant;
+  cost_usd: number;
+  latency_ms: number | null;
+  has_verify: boolean;
+  outcome: 'confirmed' | 'cancelled' | null;
+  edited: boolean;
+  thumbs: -1 | 1 | null;
+}
+
+export interface VariantMetrics {
+  experiment_key: string | null;
+  variant: Variant;
+  version_id: string | null;
+  turns: number;
+  /** Verify cards shown (meal/workout logs) */
+  verify_turns: number;
+  /** Confirmed / verify cards shown */
+  confirm_rate: number | null;
+  /** Edited before confirming or cancelling / verify cards shown */
+  edit_rate: number | null;
+  thumbs_up: number;
+  thumbs_down: number;
+  /** Thumbs up / all thumbs */
+  thumbs_up_rate: number | null;
+  avg_cost_usd: number;
+  avg_latency_ms: number | null;
+  p95_latency_ms: number | null;
+}
+
+const VARIANT_ORDER: Variant[] = ['control', 'treatment', 'holdout'];
+
+const ratio = (n: number, d: number) => (d > 0 ? n / d : null);
+
+function percentile(sorted: number[], p: number): number | null {
+  if (!sorted.length) return null;
+  return sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+}
+
+/**
+ * Group turns by experiment and variant. Turns served outside any experiment
+ * (experiment_key null) form their own baseline group.
+ */
+export function buildVariantReport(turns: ReportTurn[]): VariantMetrics[] {
+  const groups = new Map<string, ReportTurn[]>();
+  for (const turn of turns) {
+    const key = `${turn.experiment_key ?? ''}|${turn.variant}`;
+    const group = groups.get(key);
+    if (group) group.push(turn);
+    else groups.set(key, [turn]);
+  }
+
+  return Array.from(groups.values())
+    .map(group => {
+      const verify = group.filter(t => t.has_verify);
+      const thumbsUp = group.filter(t => t.thumbs === 1).length;
+      const thumbsDown = group.filter(t => t.thumbs === -1).length;
+      const latencies = group.map(t => t.latency_ms).filter((l): l is number => l != null).sort((a, b) => a - b);
+      const versions = new Set(group.map(t => t.version_id));
+
+      return {
+        experiment_key: group[0].experiment_key,
+        variant: group[0].variant,
+        version_id: versions.size === 1 ? group[0].version_id : null,
+        turns: group.length,
+        verify_turns: verify.length,
+        confirm_rate: ratio(verify.filter(t => t.outcome === 'confirmed').length, verify.length),
+        edit_rate: ratio(verify.filter(t => t.edited).length, verify.length),
+        thumbs_up: thumbsUp,
+        thumbs_down: thumbsDown,
+        thumbs_up_rate: ratio(thumbsUp, thumbsUp + thumbsDown),
+        avg_cost_usd: group.reduce((sum, t) => sum + Number(t.cost_usd || 0), 0) / group.length,
+        avg_latency_ms: latencies.length ? Math.round(latencies.reduce((a, b) => a + b, 0) / latencies.length) : null,
+        p95_latency_ms: percentile(latencies, 0.95)
+      };
+    })
+    .sort((a, b) =>
+      (b.experiment_key ?? '').localeCompare(a.experiment_key ?? '') ||
+      VARIANT_ORDER.indexOf(a.variant) - VARIANT_ORDER.indexOf(b.variant)
+    );
+}
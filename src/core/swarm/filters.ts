@@ -1,5 +1,22 @@
 import type { ResponseObject } from '../../types/swarm';
 import { getSupabase } from '../../lib/supabase';
+import {
+  ALLERGEN_SOURCES,
+  FOOD_GROUPS,
+  KOSHER_MEAT_TERMS,
+  KOSHER_MIXED_DISHES,
+  KOSHER_NOT_MEAT,
+  RELIGIOUS_RULES,
+  findTerm,
+  matchFoodGroups,
+  resolveAllergens,
+  resolveDietPattern,
+  resolveRestriction,
+  type Allergen,
+  type DietPattern,
+  type FoodGroup,
+  type ReligiousRestriction
+} from './dietaryTerms';
 
 export interface FilterResult {
   annotations: Array<{ field: string; message: string; severity: 'info' | 'warning' | 'error' }>;
@@ -156,16 +173,6 @@ export class CarnivoreFilter extends DietaryFilter {
 }
 
 export class AllergenFilter extends DietaryFilter {
-  private allergenKeywords: Record<string, string[]> = {
-    gluten: ['wheat', 'bread', 'pasta', 'flour', 'barley', 'rye'],
-    dairy: ['milk', 'cheese', 'yogurt', 'butter', 'cream', 'whey', 'casein'],
-    nuts: ['peanut', 'almond', 'cashew', 'walnut', 'pecan', 'hazelnut'],
-    soy: ['soy', 'tofu', 'tempeh', 'edamame', 'miso'],
-    shellfish: ['shrimp', 'crab', 'lobster', 'oyster', 'clam'],
-    fish: ['salmon', 'tuna', 'cod', 'tilapia', 'trout'],
-    eggs: ['egg']
-  };
-
   async apply(payload: Record<string, any>, personaOverride = false): Promise<FilterResult> {
     const result = this.createResult();
 
@@ -175,21 +182,38 @@ export class AllergenFilter extends DietaryFilter {
 
     if (payload.items) {
       for (const item of payload.items) {
-        const itemName = item.name?.toLowerCase() || '';
+        const itemName = [item.brand, item.name].filter(Boolean).join(' ').toLowerCase();
 
         for (const allergen of this.userPrefs.allergens) {
-          const keywords = this.allergenKeywords[allergen.toLowerCase()] || [allergen.toLowerCase()];
-          const containsAllergen = keywords.some(kw => itemName.includes(kw));
-
-          if (containsAllergen) {
+          for (const key of resolveAllergens(allergen)) {
+            const source = ALLERGEN_SOURCES[key as Allergen];
+            const direct = source
+              ? findTerm(itemName, source.direct, source.exclude)
+              : findTerm(itemName, [key]);
+            const hidden = !direct && source
+              ? findTerm(itemName, Object.keys(source.hidden), source.exclude)
+              : null;
+            if (!direct && !hidden) continue;
+
+            const label = source?.label ?? allergen;
             result.annotations.push({
               field: `item.${item.name}`,
-              message: `${item.name} may contain ${allergen} (allergen).`,
+              message: hidden
+                ? `${item.name} usually contains ${label} (${source!.hidden[hidden]}).`
+                : `${item.name} may contain ${label} (allergen).`,
               severity: 'error'
             });
 
+            if (source) {
+              result.substitutions.push({
+                original: item.name,
+                suggested: source.substitute,
+                reason: `Avoids ${label} (your allergen)`
+              });
+            }
+
             result.warnings.push(
-              `🚨 Allergen Alert: ${item.name} may contain ${allergen}!`
+              `🚨 Allergen Alert: ${item.name} may contain ${label}!`
             );
           }
         }
@@ -200,6 +224,218 @@ export class AllergenFilter extends DietaryFilter {
   }
 }
 
+interface FilterItem {
+  name: string;
+  brand?: string;
+}
+
+/**
+ * Shared matcher for religious restrictions; subclasses pick the rule table
+ * Active only when the user's religious_restrictions include `restriction`
+ */
+export abstract class ReligiousFilter extends DietaryFilter {
+  protected abstract restriction: ReligiousRestriction;
+  protected abstract label: string;
+
+  protected isActive(): boolean {
+    return (this.userPrefs.religious_restrictions || [])
+      .some(pref => resolveRestriction(pref) === this.restriction);
+  }
+
+  async apply(payload: { items?: FilterItem[] }, personaOverride = false): Promise<FilterResult> {
+    const result = this.createResult();
+
+    if (personaOverride || !this.isActive() || !payload.items) {
+      return result;
+    }
+
+    for (const item of payload.items) {
+      const itemName = [item.brand, item.name].filter(Boolean).join(' ').toLowerCase();
+
+      for (const rule of RELIGIOUS_RULES[this.restriction]) {
+        const term = findTerm(itemName, rule.terms, rule.exclude);
+        if (!term) continue;
+
+        result.annotations.push({
+          field: `item.${item.name}`,
+          message: `${item.name} ${rule.reason} (${this.label}).`,
+          severity: rule.severity
+        });
+        if (rule.severity !== 'info') {
+          result.substitutions.push({
+            original: item.name,
+            suggested: rule.suggested,
+            reason: `${this.label}: ${rule.reason}`
+          });
+        }
+        // One rule per item is enough ("bacon cheeseburger" is not also "meat")
+        break;
+      }
+    }
+
+    this.applyMealRules?.(payload.items, result);
+
+    if (result.annotations.some(a => a.severity !== 'info')) {
+      result.warnings.push(
+        `⚠️ ${this.label} Alert: Some items may not fit your ${this.label.toLowerCase()} diet.`
+      );
+    }
+
+    return result;
+  }
+
+  /** Checks that depend on the meal as a whole */
+  protected applyMealRules?(items: FilterItem[], result: FilterResult): void;
+}
+
+export class HalalFilter extends ReligiousFilter {
+  protected restriction: ReligiousRestriction = 'halal';
+  protected label = 'Halal';
+}
+
+export class KosherFilter extends ReligiousFilter {
+  protected restriction: ReligiousRestriction = 'kosher';
+  protected label = 'Kosher';
+
+  /**
+   * Meat and dairy may not be eaten together, in one dish or one meal
+   */
+  protected applyMealRules(items: FilterItem[], result: FilterResult): void {
+    const dairy = ALLERGEN_SOURCES.dairy;
+    const dairyTerms = [...dairy.direct, ...Object.keys(dairy.hidden)];
+    const flagged = new Set(result.annotations.map(a => a.field));
+    let hasMeat = false;
+    let hasDairy = false;
+
+    for (const item of items) {
+      const itemName = item.name?.toLowerCase() || '';
+      const meat = findTerm(itemName, KOSHER_MEAT_TERMS, KOSHER_NOT_MEAT);
+      const milk = findTerm(itemName, dairyTerms, dairy.exclude);
+      hasMeat ||= !!meat;
+      hasDairy ||= !!milk;
+
+      const mixedDish = findTerm(itemName, KOSHER_MIXED_DISHES) || (meat && milk);
+      if (mixedDish && !flagged.has(`item.${item.name}`)) {
+        result.annotations.push({
+          field: `item.${item.name}`,
+          message: `${item.name} combines meat and dairy (Kosher).`,
+          severity: 'error'
+        });
+        result.substitutions.push({
+          original: item.name,
+          suggested: 'Dairy-free version (e.g. no cheese, pareve substitute)',
+          reason: 'Kosher: meat and dairy are not eaten together'
+        });
+      }
+    }
+
+    if (hasMeat && hasDairy && !result.annotations.some(a => a.message.includes('combines meat and dairy'))) {
+      result.annotations.push({
+        field: 'items',
+        message: 'This meal mixes meat and dairy items (Kosher).',
+        severity: 'warning'
+      });
+    }
+  }
+}
+
+export class HinduVegetarianFilter extends ReligiousFilter {
+  protected restriction: ReligiousRestriction = 'hindu_vegetarian';
+  protected label = 'Hindu vegetarian';
+}
+
+export class JainFilter extends ReligiousFilter {
+  protected restriction: ReligiousRestriction = 'jain';
+  protected label = 'Jain';
+}
+
+/**
+ * Shared matcher for food-group diets. The `dietary_filter_rules` row for the
+ * diet lists groups to `exclude` (warning) and groups to `limit` (info);
+ * its `substitutions` may override the default swap per group.
+ */
+export abstract class FoodGroupFilter extends DietaryFilter {
+  protected abstract diet: DietPattern;
+  protected abstract label: string;
+
+  async apply(payload: { items?: FilterItem[] }, personaOverride = false): Promise<FilterResult> {
+    const result = this.createResult();
+
+    if (personaOverride || resolveDietPattern(this.userPrefs.diet_type) !== this.diet || !payload.items) {
+      return result;
+    }
+
+    const rule = this.rules.find(r => r.type === this.diet);
+    if (!rule) return result;
+
+    const exclude: FoodGroup[] = (rule.condition.exclude || []).filter((g: string) => g in FOOD_GROUPS);
+    const limit: FoodGroup[] = (rule.condition.limit || []).filter((g: string) => g in FOOD_GROUPS);
+    const swaps = new Map<string, string>(
+      (rule.substitutions || []).map((s: { group: string; suggested: string }) => [s.group, s.suggested])
+    );
+
+    for (const item of payload.items) {
+      const itemName = [item.brand, item.name].filter(Boolean).join(' ').toLowerCase();
+      const excluded = matchFoodGroups(itemName, exclude)[0];
+      const limited = excluded ? undefined : matchFoodGroups(itemName, limit)[0];
+      const match = excluded || limited;
+      if (!match) continue;
+
+      const group = FOOD_GROUPS[match.group];
+      result.annotations.push({
+        field: `item.${item.name}`,
+        message: excluded
+          ? `${item.name} contains ${group.label} (${match.term}), which doesn't fit a ${this.label} diet.`
+          : `${item.name} is ${group.label} (${match.term}); ${this.label} keeps it occasional.`,
+        severity: excluded ? 'warning' : 'info'
+      });
+      result.substitutions.push({
+        original: item.name,
+        suggested: swaps.get(match.group) ?? group.swap,
+        reason: excluded ? `${this.label}: avoids ${group.label}` : `${this.label}: less ${group.label}`
+      });
+    }
+
+    if (result.annotations.some(a => a.severity === 'warning')) {
+      result.warnings.push(
+        `⚠️ ${this.label} Alert: Some items may not fit your ${this.label.toLowerCase()} diet.`
+      );
+    }
+
+    return result;
+  }
+}
+
+export class VeganFilter extends FoodGroupFilter {
+  protected diet: DietPattern = 'vegan';
+  protected label = 'Vegan';
+}
+
+export class VegetarianFilter extends FoodGroupFilter {
+  protected diet: DietPattern = 'vegetarian';
+  protected label = 'Vegetarian';
+}
+
+export class PescatarianFilter extends FoodGroupFilter {
+  protected diet: DietPattern = 'pescatarian';
+  protected label = 'Pescatarian';
+}
+
+export class MediterraneanFilter extends FoodGroupFilter {
+  protected diet: DietPattern = 'mediterranean';
+  protected label = 'Mediterranean';
+}
+
+export class PaleoFilter extends FoodGroupFilter {
+  protected diet: DietPattern = 'paleo';
+  protected label = 'Paleo';
+}
+
+export class LowFodmapFilter extends FoodGroupFilter {
+  protected diet: DietPattern = 'low_fodmap';
+  protected label = 'Low-FODMAP';
+}
+
 export class FilterPipeline {
   private filters: DietaryFilter[] = [];
 
@@ -207,11 +443,22 @@ export class FilterPipeline {
     private rules: DietaryFilterRule[],
     private userPrefs: UserDietaryPrefs
   ) {
+    // Religious filters are inert unless the user's religious_restrictions name them
     this.filters = [
       new KetoFilter(rules, userPrefs),
       new LowCarbFilter(rules, userPrefs),
       new CarnivoreFilter(rules, userPrefs),
-      new AllergenFilter(rules, userPrefs)
+      new VeganFilter(rules, userPrefs),
+      new VegetarianFilter(rules, userPrefs),
+      new PescatarianFilter(rules, userPrefs),
+      new MediterraneanFilter(rules, userPrefs),
+      new PaleoFilter(rules, userPrefs),
+      new LowFodmapFilter(rules, userPrefs),
+      new AllergenFilter(rules, userPrefs),
+      new HalalFilter(rules, userPrefs),
+      new KosherFilter(rules, userPrefs),
+      new HinduVegetarianFilter(rules, userPrefs),
+      new JainFilter(rules, userPrefs)
     ];
   }
 
@@ -0,0 +1,216 @@
+/**
+ * Scoring for prompt fixtures (prompt_fixtures.expected_output)
+ *
+ * expected_output is either `{ schema?, fields? }` or, for older fixtures, a
+ * plain object whose keys are field paths compared for equality. Paths use
+ * dots and brackets (`items[0].name`, `totals.kcal`); `$` is the whole output,
+ * which is the raw text when the model did not return JSON.
+ */
+
+export type JsonType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/** The JSON Schema subset fixtures use */
+export interface JsonSchema {
+  type?: JsonType | JsonType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+}
+
+export type FieldMatcher =
+  | string
+  | number
+  | boolean
+  | null
+  | { equals: unknown }
+  /** Relative tolerance, default 10% */
+  | { approx: number; tolerance?: number }
+  | { min?: number; max?: number }
+  | { contains: string }
+  /** Case-insensitive regular expression */
+  | { matches: string }
+  | { oneOf: unknown[] }
+  | { exists: boolean };
+
+export interface FixtureExpectation {
+  schema?: JsonSchema;
+  fields?: Record<string, FieldMatcher>;
+}
+
+export interface FixtureScore {
+  passed: boolean;
+  failures: string[];
+}
+
+const isPlainObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+export function normalizeExpectation(expected: unknown): FixtureExpectation {
+  if (isPlainObject(expected)) {
+    if ('schema' in expected || 'fields' in expected) return expected as FixtureExpectation;
+    return { fields: expected as Record<string, FieldMatcher> };
+  }
+  return { fields: { $: expected as FieldMatcher } };
+}
+
+/** Parse model output as JSON, tolerating code fences and surrounding prose */
+export function parseOutput(text: string): unknown {
+  const stripped = text.replace(/```json|```/gi, '').trim();
+  const candidates = [stripped, stripped.match(/\{[\s\S]*\}|\[[\s\S]*\]/)?.[0]];
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // try the next candidate
+    }
+  }
+  return undefined;
+}
+
+export function getPath(value: unknown, path: string): unknown {
+  if (path === '$' || path === '') return value;
+  const keys = path.replace(/\[(\d+)\]/g, '.$1').split('.').filter(Boolean);
+  let current = value;
+  for (const key of keys) {
+    if (Array.isArray(current)) current = current[Number(key)];
+    else if (isPlainObject(current)) current = current[key];
+    else return undefined;
+  }
+  return current;
+}
+
+function typeOf(value: unknown): JsonType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonType;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) return a.length === b.length && a.every((v, i) => deepEqual(v, b[i]));
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(k => deepEqual(a[k], b[k]));
+  }
+  return false;
+}
+
+export function validateSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  const errors: string[] = [];
+  const actual = typeOf(value);
+
+  if (schema.type) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const ok = allowed.includes(actual) || (actual === 'integer' && allowed.includes('number'));
+    if (!ok) return [`${path}: expected ${allowed.join(' | ')}, got ${actual}`];
+  }
+
+  if (schema.enum && !schema.enum.some(v => deepEqual(v, value))) {
+    errors.push(`${path}: ${JSON.stringify(value)} is not one of ${JSON.stringify(schema.enum)}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path}: ${value} < minimum ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path}: ${value} > maximum ${schema.maximum}`);
+  }
+
+  if (typeof value === 'string' && schema.minLength !== undefined && value.length < schema.minLength) {
+    errors.push(`${path}: shorter than ${schema.minLength} characters`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${path}: fewer than ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${path}: more than ${schema.maxItems} items`);
+    if (schema.items) {
+      value.forEach((item, i) => errors.push(...validateSchema(item, schema.items!, `${path}[${i}]`)));
+    }
+  }
+
+  if (isPlainObject(value)) {
+    for (const key of schema.required ?? []) {
+      if (!(key in value)) errors.push(`${path}.${key}: required`);
+    }
+    const properties = schema.properties ?? {};
+    for (const [key, child] of Object.entries(properties)) {
+      if (key in value) errors.push(...validateSchema(value[key], child, `${path}.${key}`));
+    }
+    if (schema.additionalProperties === false) {
+      for (const key of Object.keys(value)) {
+        if (!(key in properties)) errors.push(`${path}.${key}: not allowed`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/** Null when the value matches, otherwise why it didn't */
+export function matchField(actual: unknown, matcher: FieldMatcher): string | null {
+  const shown = JSON.stringify(actual);
+
+  if (!isPlainObject(matcher)) {
+    return deepEqual(actual, matcher) ? null : `expected ${JSON.stringify(matcher)}, got ${shown}`;
+  }
+
+  if ('exists' in matcher) {
+    return (actual !== undefined) === matcher.exists ? null : matcher.exists ? 'missing' : `unexpected ${shown}`;
+  }
+  if (actual === undefined) return 'missing';
+
+  if ('equals' in matcher) {
+    return deepEqual(actual, matcher.equals) ? null : `expected ${JSON.stringify(matcher.equals)}, got ${shown}`;
+  }
+  if ('oneOf' in matcher) {
+    return matcher.oneOf.some(v => deepEqual(actual, v)) ? null : `${shown} is not one of ${JSON.stringify(matcher.oneOf)}`;
+  }
+  if ('contains' in matcher) {
+    const haystack = typeof actual === 'string' ? actual : shown;
+    return haystack.toLowerCase().includes(matcher.contains.toLowerCase()) ? null : `does not contain "${matcher.contains}"`;
+  }
+  if ('matches' in matcher) {
+    const text = typeof actual === 'string' ? actual : shown;
+    return new RegExp(matcher.matches, 'i').test(text) ? null : `does not match /${matcher.matches}/`;
+  }
+
+  const n = typeof actual === 'number' ? actual : Number(actual);
+  if (!Number.isFinite(n)) return `expected a number, got ${shown}`;
+
+  if ('approx' in matcher) {
+    const tolerance = Math.abs(matcher.approx) * (matcher.tolerance ?? 0.1);
+    return Math.abs(n - matcher.approx) <= tolerance ? null : `expected ~${matcher.approx} (±${tolerance}), got ${n}`;
+  }
+  if (matcher.min !== undefined && n < matcher.min) return `${n} < ${matcher.min}`;
+  if (matcher.max !== undefined && n > matcher.max) return `${n} > ${matcher.max}`;
+  return null;
+}
+
+/** Score one model output against a fixture's expected_output */
+export function scoreOutput(expected: unknown, outputText: string): FixtureScore {
+  const { schema, fields = {} } = normalizeExpectation(expected);
+  const parsed = parseOutput(outputText);
+  const failures: string[] = [];
+
+  const needsJson = !!schema || Object.keys(fields).some(path => path !== '$');
+  if (needsJson && parsed === undefined) {
+    return { passed: false, failures: ['output is not valid JSON'] };
+  }
+
+  if (schema) failures.push(...validateSchema(parsed, schema));
+
+  for (const [path, matcher] of Object.entries(fields)) {
+    const actual = path === '$' && parsed === undefined ? outputText : getPath(parsed, path);
+    const failure = matchField(actual, matcher);
+    if (failure) failures.push(`${path}: ${failure}`);
+  }
+
+  return { passed: failures.length === 0, failures };
+}
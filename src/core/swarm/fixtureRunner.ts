@@ -0,0 +1,156 @@
+/**
+ * Prompt fixture regression runner
+ * Replays an agent's prompt_fixtures through a prompt version and scores the
+ * outputs. The LLM is pluggable: the live client calls openai-chat, the
+ * recorded client replays outputs captured by earlier live runs so suites can
+ * run offline and in tests.
+ */
+
+import { scoreOutput } from './fixtureMatchers';
+
+export interface PromptFixture {
+  id: string;
+  agent_prompt_id: string;
+  input_text: string;
+  expected_output: unknown;
+  description: string | null;
+}
+
+export interface FixturePrompt {
+  id: string;
+  content: string;
+  model: string;
+}
+
+export interface LLMRequest {
+  system: string;
+  input: string;
+  model: string;
+}
+
+export interface LLMClient {
+  mode: 'live' | 'recorded';
+  complete(request: LLMRequest): Promise<string>;
+}
+
+/** A captured model output for one system prompt and input */
+export interface Recording {
+  system: string;
+  input: string;
+  output: string;
+}
+
+export interface FixtureResult {
+  fixture_id: string;
+  input_text: string;
+  /** Null when the client failed before producing output */
+  output_text: string | null;
+  passed: boolean;
+  failures: string[];
+  latency_ms: number;
+}
+
+export interface SuiteRun {
+  prompt_id: string;
+  mode: LLMClient['mode'];
+  total: number;
+  passed: number;
+  /** 1 when there are no fixtures, so an empty suite never blocks */
+  pass_rate: number;
+  results: FixtureResult[];
+}
+
+export interface SuiteComparison {
+  candidate_rate: number;
+  baseline_rate: number | null;
+  regressed: boolean;
+  /** Fixtures the baseline passes and the candidate fails */
+  newly_failing: string[];
+  newly_passing: string[];
+}
+
+const recordingKey = (system: string, input: string) => `${system}\u0000${input}`;
+
+/** Replays recordings; the first recording for a prompt and input wins */
+export function createRecordedClient(recordings: Recording[]): LLMClient {
+  const byKey = new Map<string, string>();
+  for (const r of recordings) {
+    const key = recordingKey(r.system, r.input);
+    if (!byKey.has(key)) byKey.set(key, r.output);
+  }
+
+  return {
+    mode: 'recorded',
+    async complete({ system, input }) {
+      const output = byKey.get(recordingKey(system, input));
+      if (output === undefined) throw new Error('No recorded response for this prompt and input');
+      return output;
+    }
+  };
+}
+
+/** Run fixtures one at a time so a live suite doesn't burst the rate limit */
+export async function runFixtureSuite(
+  prompt: FixturePrompt,
+  fixtures: PromptFixture[],
+  client: LLMClient
+): Promise<SuiteRun> {
+  const results: FixtureResult[] = [];
+
+  for (const fixture of fixtures) {
+    const started = Date.now();
+    try {
+      const output = await client.complete({ system: prompt.content, input: fixture.input_text, model: prompt.model });
+      const score = scoreOutput(fixture.expected_output, output);
+      results.push({ fixture_id: fixture.id, input_text: fixture.input_text, output_text: output, ...score, latency_ms: Date.now() - started });
+    } catch (e) {
+      results.push({
+        fixture_id: fixture.id,
+        input_text: fixture.input_text,
+        output_text: null,
+        passed: false,
+        failures: [e instanceof Error ? e.message : String(e)],
+        latency_ms: Date.now() - started
+      });
+    }
+  }
+
+  const passed = results.filter(r => r.passed).length;
+  return {
+    prompt_id: prompt.id,
+    mode: client.mode,
+    total: results.length,
+    passed,
+    pass_rate: results.length ? passed / results.length : 1,
+    results
+  };
+}
+
+/** A candidate regresses when it passes a smaller share of fixtures than the baseline */
+export function compareSuiteRuns(candidate: SuiteRun, baseline: SuiteRun | null): SuiteComparison {
+  if (!baseline) {
+    return { candidate_rate: candidate.pass_rate, baseline_rate: null, regressed: false, newly_failing: [], newly_passing: [] };
+  }
+
+  const baselinePassed = new Map(baseline.results.map(r => [r.fixture_id, r.passed]));
+  const changed = (passedNow: boolean) =>
+    candidate.results
+      .filter(r => r.passed === passedNow && baselinePassed.get(r.fixture_id) === !passedNow)
+      .map(r => r.fixture_id);
+
+  return {
+    candidate_rate: candidate.pass_rate,
+    baseline_rate: baseline.pass_rate,
+    // Cross-multiplied so equal rates over different totals never differ by float error
+    regressed: candidate.passed * baseline.total < baseline.passed * candidate.total,
+    newly_failing: changed(false),
+    newly_passing: changed(true)
+  };
+}
+
+/** Recordings from stored run results, for replaying with createRecordedClient */
+export function recordingsFromRun(prompt: FixturePrompt, results: FixtureResult[]): Recording[] {
+  return results
+    .filter((r): r is FixtureResult & { output_text: string } => r.output_text !== null)
+    .map(r => ({ system: prompt.content, input: r.input_text, output: r.output_text }));
+}
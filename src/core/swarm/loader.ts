@@ -3,6 +3,9 @@
  * Loads agent configs from database and builds dynamic system prompts
  */
 
+import type { VariantAssignment } from './rollout';
+import type { PromptVariant } from '../../lib/experiments';
+
 /**
  * Load master personality from database (single source of truth)
  * Returns the DB-driven Pat personality that all swarms inherit
@@ -57,6 +60,8 @@ export interface AgentConfig {
 export interface SwarmConfig {
   swarm_name: string;
   agents: AgentConfig[];
+  variant?: VariantAssignment; // Published swarm version this user was bucketed into
+  promptVariants?: PromptVariant[]; // Filled in by buildSwarmPrompt when a userId is given
 }
 
 /**
@@ -98,10 +103,35 @@ export async function loadSwarmFromFile(swarmName: string): Promise<SwarmConfig
   }
 }
 
+/**
+ * Load the published swarm version the signed-in user is bucketed into. Versions whose
+ * manifest carries no agents only tag the turn; agents come from agent_configs.
+ */
+async function loadSwarmVariant(swarmName: string): Promise<{ variant: VariantAssignment; agents: AgentConfig[] | null } | null> {
+  try {
+    const { resolveSwarmVariant } = await import('../../lib/experiments');
+    const resolved = await resolveSwarmVariant(swarmName);
+    if (!resolved) return null;
+    const agents = Array.isArray(resolved.manifest.agents) ? (resolved.manifest.agents as AgentConfig[]) : null;
+    console.log(`[swarm-loader] ${swarmName} variant=${resolved.assignment.variant} version=${resolved.assignment.version_id}`);
+    return { variant: resolved.assignment, agents };
+  } catch (err) {
+    console.warn(`[swarm-loader] Variant assignment failed for ${swarmName}, using agent_configs:`, err);
+    return null;
+  }
+}
+
 /**
  * Load swarm config (database only - no filesystem fallback)
+ * With a userId, the user's bucketed swarm version overrides the agents.
  */
-export async function loadSwarm(swarmName: string): Promise<SwarmConfig | null> {
+export async function loadSwarm(swarmName: string, userId?: string): Promise<SwarmConfig | null> {
+  const variant = userId ? await loadSwarmVariant(swarmName) : null;
+  if (variant?.agents?.length) {
+    console.log(`[swarm-loader] ✓ Loaded ${swarmName} from swarm version ${variant.variant.version_id}`);
+    return { swarm_name: swarmName, agents: variant.agents, variant: variant.variant };
+  }
+
   // Database is the single source of truth
   const dbConfig = await loadSwarmFromDB(swarmName);
   if (dbConfig) {
@@ -110,7 +140,7 @@ export async function loadSwarm(swarmName: string): Promise<SwarmConfig | null>
     if (swarmName === 'personality') {
       console.info('[swarm-loader] personality agents loaded:', dbConfig.agents.length, 'hasRouter=', hasRouter);
     }
-    return dbConfig;
+    return variant ? { ...dbConfig, variant: variant.variant } : dbConfig;
   }
 
   // No fallback - if not in DB, it's an error
@@ -122,12 +152,31 @@ export async function loadSwarm(swarmName: string): Promise<SwarmConfig | null>
 /**
  * Build system prompt from swarm agents
  * Combines all enabled pre-phase and main agents' prompts
+ * With a userId, prompt refs resolve to the user's bucketed prompt version
+ * and the assignments are collected on swarm.promptVariants.
  */
-export async function buildSwarmPrompt(swarm: SwarmConfig, userContext?: Record<string, any>): Promise<string> {
+export async function buildSwarmPrompt(swarm: SwarmConfig, userContext?: Record<string, any>, userId?: string): Promise<string> {
   const sections: string[] = [];
 
   // Import prompt library
   const { resolvePromptRef } = await import('./prompts');
+  const { resolvePromptVariant } = await import('../../lib/experiments');
+  const promptVariants: PromptVariant[] = [];
+
+  const resolvePrompt = async (promptRef: string): Promise<string | null> => {
+    if (userId) {
+      try {
+        const resolved = await resolvePromptVariant(promptRef);
+        if (resolved) {
+          promptVariants.push(resolved.assignment);
+          return resolved.content;
+        }
+      } catch (err) {
+        console.warn(`[swarm-loader] Prompt variant lookup failed for ${promptRef}:`, err);
+      }
+    }
+    return resolvePromptRef(promptRef);
+  };
 
   // Get all enabled agents sorted by phase and order
   const enabledAgents = swarm.agents
@@ -149,7 +198,7 @@ export async function buildSwarmPrompt(swarm: SwarmConfig, userContext?: Record<
       sections.push(agent.prompt);
     } else if (agent.promptRef) {
       // Reference to prompt library (database-first, then fallback)
-      const prompt = await resolvePromptRef(agent.promptRef);
+      const prompt = await resolvePrompt(agent.promptRef);
       if (prompt) {
         sections.push(`[${agent.name}]`);
         sections.push(prompt);
@@ -168,13 +217,15 @@ export async function buildSwarmPrompt(swarm: SwarmConfig, userContext?: Record<
     }
   }
 
+  if (userId) swarm.promptVariants = promptVariants;
+
   return sections.join('\n\n');
 }
 
 /**
  * Get swarm for a given intent/role
  */
-export async function getSwarmForIntent(intent: string): Promise<SwarmConfig | null> {
+export async function getSwarmForIntent(intent: string, userId?: string): Promise<SwarmConfig | null> {
   const intentToSwarm: Record<string, string> = {
     // NUTRITION INTENTS: Handled by unified pipeline before reaching swarm loader
     // These are redirected to personality for any post-processing text only
@@ -191,8 +242,8 @@ export async function getSwarmForIntent(intent: string): Promise<SwarmConfig | n
   const swarmName = intentToSwarm[intent];
   if (!swarmName) {
     console.warn(`[swarm-loader] No swarm mapped for intent: ${intent}, defaulting to personality`);
-    return await loadSwarm('personality');
+    return await loadSwarm('personality', userId);
   }
 
-  return await loadSwarm(swarmName);
+  return await loadSwarm(swarmName, userId);
 }
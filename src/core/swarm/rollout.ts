@@ -0,0 +1,101 @@
+/**
+ * Percentage rollouts for swarm and prompt versions
+ * Users are bucketed by a stable hash of their id, so the same user gets the
+ * same version on every turn and every device. The newest published version
+ * is the treatment at its rollout_percent; the one before it is the control.
+ * experiment_assignment_for in the database is what actually assigns and
+ * stores variants; this is its reference implementation, keep them identical.
+ */
+
+export type Variant = 'control' | 'treatment' | 'holdout';
+export type Cohort = 'beta' | 'paid' | 'all';
+
+/** A published version competing for traffic (swarm_versions or agent_prompts row) */
+export interface LiveVersion {
+  id: string;
+  rollout_percent: number;
+  published_at: string | null;
+  holdout_percent?: number;
+  cohort?: Cohort;
+}
+
+export interface VariantAssignment {
+  /** `<kind>:<target>:<treatment version id>`; null when no experiment is running */
+  experiment_key: string | null;
+  version_id: string;
+  variant: Variant;
+}
+
+export interface UserCohorts {
+  beta: boolean;
+  paid: boolean;
+}
+
+/** Buckets are basis points so rollouts can go below 1% */
+const BUCKETS = 10000;
+
+/** FNV-1a, 32-bit. Mirrored by experiment_bucket in SQL; keep them identical. */
+export function hashBucket(userId: string, salt: string): number {
+  let hash = 0x811c9dc5;
+  const input = `${salt}:${userId}`;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % BUCKETS;
+}
+
+export function inRollout(userId: string, salt: string, percent: number): boolean {
+  return hashBucket(userId, salt) < Math.round(Math.max(0, Math.min(100, percent)) * (BUCKETS / 100));
+}
+
+function cohortMatches(cohort: Cohort | undefined, cohorts: UserCohorts | undefined): boolean {
+  if (!cohort || cohort === 'all') return true;
+  return !!cohorts?.[cohort];
+}
+
+/**
+ * Pick the version a user should see.
+ *
+ * - Holdout users (holdout_percent of everyone, hashed per target) always
+ *   get the control so there's a baseline no experiment touches.
+ * - Users outside the treatment's cohort get the control, whatever is
+ *   stored for them.
+ * - A stored assignment is sticky: someone already in treatment stays there
+ *   if the rollout is dialled back, and ramping up only adds users.
+ * - A rollout of 0% is the kill switch: everyone gets the control, stored
+ *   assignments included.
+ */
+export function assignVersion(
+  userId: string,
+  kind: 'swarm' | 'prompt',
+  target: string,
+  versions: LiveVersion[],
+  options: { stored?: VariantAssignment | null; cohorts?: UserCohorts } = {}
+): VariantAssignment | null {
+  const live = [...versions].sort((a, b) => (b.published_at ?? '').localeCompare(a.published_at ?? ''));
+  if (!live.length) return null;
+
+  const [treatment, control] = live;
+  if (!control || treatment.rollout_percent >= 100) {
+    return { experiment_key: null, version_id: treatment.id, variant: 'control' };
+  }
+
+  const experimentKey = `${kind}:${target}:${treatment.id}`;
+  const assign = (variant: Variant): VariantAssignment => ({
+    experiment_key: experimentKey,
+    version_id: variant === 'treatment' ? treatment.id : control.id,
+    variant
+  });
+
+  if (inRollout(userId, `${kind}:${target}:holdout`, treatment.holdout_percent ?? 0)) return assign('holdout');
+
+  if (treatment.rollout_percent <= 0) return assign('control');
+
+  if (!cohortMatches(treatment.cohort, options.cohorts)) return assign('control');
+
+  const stored = options.stored;
+  if (stored?.experiment_key === experimentKey && stored.variant !== 'control') return assign(stored.variant);
+
+  return assign(inRollout(userId, experimentKey, treatment.rollout_percent) ? 'treatment' : 'control');
+}
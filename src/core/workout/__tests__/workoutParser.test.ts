@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { buildWorkoutVerify, describeExercise, parseWorkout, summarizeWorkout } from '../workoutParser';
+import { looksLikeWorkoutLog } from '../../router/workoutIntent';
+
+const brief = (text: string) =>
+  parseWorkout(text).exercises.map(e => [e.name, e.kind, e.sets, e.reps, e.weight_lbs, e.duration_min, e.distance_mi, e.zone]);
+
+describe('parseWorkout', () => {
+  it('splits lifts and cardio in one message', () => {
+    expect(brief('3x8 bench 185, then 20 min zone 2 run')).toEqual([
+      ['Bench Press', 'strength', 3, 8, 185, null, null, null],
+      ['Run', 'cardio', null, null, null, 20, null, 2]
+    ]);
+  });
+
+  it('reads sets, reps and load in any order and converts kg', () => {
+    expect(brief('bench 185 3x8')).toEqual([['Bench Press', 'strength', 3, 8, 185, null, null, null]]);
+    expect(brief('5x5 squats at 225 and 3 sets of 10 pull-ups')).toEqual([
+      ['Squat', 'strength', 5, 5, 225, null, null, null],
+      ['Pull-up', 'strength', 3, 10, null, null, null, null]
+    ]);
+    expect(brief('today I did 4x6 deadlift @ 140kg')).toEqual([['Deadlift', 'strength', 4, 6, 309, null, null, null]]);
+  });
+
+  it('splits on "and" before the next exercise name', () => {
+    expect(brief('squats 5x5 at 225 and deadlift 3x5 315')).toEqual([
+      ['Squat', 'strength', 5, 5, 225, null, null, null],
+      ['Deadlift', 'strength', 3, 5, 315, null, null, null]
+    ]);
+    expect(brief('3x3 clean and jerk 135')).toEqual([['Clean And Jerk', 'strength', 3, 3, 135, null, null, null]]);
+  });
+
+  it('leaves a meal reported alongside the workout unparsed', () => {
+    const result = parseWorkout('walked 30 min then ate a steak');
+    expect(result.exercises.map(e => e.name)).toEqual(['Walk']);
+    expect(result.unparsed).toEqual(['ate a steak']);
+  });
+
+  it('reads cardio duration and distance, leaving chatter unparsed', () => {
+    expect(brief('I ran 3 miles in 25 minutes')).toEqual([['Run', 'cardio', null, null, null, 25, 3, null]]);
+    expect(brief('1 hour bike ride')).toEqual([['Bike', 'cardio', null, null, null, 60, null, null]]);
+    expect(parseWorkout('20 min walk, felt great').unparsed).toEqual(['felt great']);
+  });
+});
+
+describe('summarizeWorkout', () => {
+  it('totals sets and volume and estimates duration', () => {
+    const { exercises } = parseWorkout('3x8 bench 185, then 20 min zone 2 run');
+    expect(summarizeWorkout(exercises)).toEqual({
+      workout_type: 'hybrid',
+      exercises_completed: 2,
+      total_sets: 3,
+      volume_lbs: 4440,
+      estimated_duration_min: 28
+    });
+    expect(summarizeWorkout(parseWorkout('3 sets of 10 pull-ups').exercises).workout_type).toBe('resistance');
+    expect(exercises.map(describeExercise)).toEqual(['3×8 Bench Press @ 185 lbs', 'Run 20 min · zone 2']);
+  });
+
+  it('builds a verify payload only when something parsed', () => {
+    expect(buildWorkoutVerify([])).toBeNull();
+    const verify = buildWorkoutVerify(parseWorkout('5k run').exercises, new Date(2025, 10, 20, 7, 0));
+    expect(verify).toMatchObject({ type: 'workout.verify', performed_on: '2025-11-20', summary: { workout_type: 'cardio', estimated_duration_min: 31 } });
+  });
+});
+
+describe('looksLikeWorkoutLog', () => {
+  it('routes workout reports but not training questions or meals', () => {
+    expect(looksLikeWorkoutLog('3x8 bench 185, then 20 min zone 2 run')).toBe(true);
+    expect(looksLikeWorkoutLog('went for a 30 min walk')).toBe(true);
+    expect(looksLikeWorkoutLog('how many sets of 8 should I do for bench?')).toBe(false);
+    expect(looksLikeWorkoutLog('I had 2 eggs and 10 oz ribeye')).toBe(false);
+  });
+});
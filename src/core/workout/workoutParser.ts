@@ -0,0 +1,248 @@
+/**
+ * Deterministic Workout Parser
+ * Grammar-based parse of workout text ("3x8 bench 185, then 20 min zone 2 run") into
+ * exercises plus the totals the workout verify card shows before anything is written
+ * to workout_logs.
+ *
+ * Grammar per segment (segments split on , ; "then" "followed by" "plus" "and"):
+ *   strength: [sets x reps | N sets of N | N reps] name [@ | at] [weight [lbs|kg]]  (any order)
+ *   cardio:   [duration min|hr] [distance mi|km] [zone N] name                     (any order)
+ */
+
+export type WorkoutExerciseKind = 'strength' | 'cardio';
+
+export interface ParsedExercise {
+  name: string;
+  kind: WorkoutExerciseKind;
+  sets: number | null;
+  reps: number | null;
+  weight_lbs: number | null;
+  duration_min: number | null;
+  distance_mi: number | null;
+  /** Heart-rate zone for cardio ("zone 2") */
+  zone: number | null;
+  original: string;
+}
+
+export interface WorkoutParseResult {
+  exercises: ParsedExercise[];
+  /** Segments that looked like neither sets nor cardio */
+  unparsed: string[];
+}
+
+export interface WorkoutSummary {
+  /** workout_logs.workout_type */
+  workout_type: 'resistance' | 'cardio' | 'hybrid';
+  exercises_completed: number;
+  total_sets: number;
+  volume_lbs: number;
+  estimated_duration_min: number;
+}
+
+/** roleData for the workout verify card; nothing is saved until the user confirms */
+export interface WorkoutVerifyData {
+  type: 'workout.verify';
+  exercises: ParsedExercise[];
+  summary: WorkoutSummary;
+  /** Local YYYY-MM-DD the workout is logged against */
+  performed_on: string;
+}
+
+// Working set plus rest, used when estimating how long the lifting took
+const MINUTES_PER_SET = 2.5;
+// Pace assumed for cardio given only as a distance
+const MINUTES_PER_MILE = 10;
+
+const KG_TO_LBS = 2.20462;
+const KM_TO_MI = 0.621371;
+
+// "and" splits before a number or a word ("squats 5x5 at 225 and deadlift 3x5 315"), except in "clean and jerk"
+const SEGMENT_SPLIT = /\s*(?:[,;\n]|\band then\b|\bthen\b|\bfollowed by\b|\bplus\b|(?<!\bclean)\s+and\s+(?=[a-z\d])(?!jerk\b))\s*/i;
+
+const LEAD_PHRASES: RegExp[] = [
+  /^(?:today|this morning|this afternoon|this evening|tonight|earlier)\s*,?\s*/,
+  /^(?:please\s+)?(?:log|track|add|record)\s+/,
+  /^i\s+/,
+  /^(?:just|also)\s+/,
+  /^(?:did|hit|finished|completed|got in|went for|went on|worked out)\s+/,
+  /^(?:a|an|my|some)\s+/,
+];
+
+const TRAILING_PHRASE = /\s+(?:today|this morning|this afternoon|this evening|tonight|earlier|just now)\s*$/;
+
+const CANONICAL_NAMES: Array<[RegExp, string]> = [
+  [/^(?:flat\s+)?bench(?:\s+press)?$/, 'Bench Press'],
+  [/^incline(?:\s+bench)?(?:\s+press)?$/, 'Incline Bench Press'],
+  [/^(?:back\s+)?squats?$/, 'Squat'],
+  [/^front\s+squats?$/, 'Front Squat'],
+  [/^(?:deadlifts?|dl|dls)$/, 'Deadlift'],
+  [/^(?:rdls?|romanian deadlifts?)$/, 'Romanian Deadlift'],
+  [/^(?:ohp|overhead press|military press|shoulder press)$/, 'Overhead Press'],
+  [/^(?:barbell\s+|bent over\s+)?rows?$/, 'Row'],
+  [/^pull[\s-]?ups?$/, 'Pull-up'],
+  [/^chin[\s-]?ups?$/, 'Chin-up'],
+  [/^push[\s-]?ups?$/, 'Push-up'],
+  [/^dips?$/, 'Dip'],
+  [/^(?:bicep\s+)?curls?$/, 'Curl'],
+  [/^lunges?$/, 'Lunge'],
+  [/^(?:run|ran|running|jog|jogged|jogging)$/, 'Run'],
+  [/^(?:bike|biked|biking|bike ride|cycle|cycled|cycling|spin|spin class)$/, 'Bike'],
+  [/^(?:swim|swam|swimming)$/, 'Swim'],
+  [/^(?:walk|walked|walking)$/, 'Walk'],
+  [/^(?:rowing|row erg|erg|rower)$/, 'Rowing'],
+  [/^(?:hike|hiked|hiking)$/, 'Hike'],
+];
+
+const CARDIO_NAMES = new Set(['Run', 'Bike', 'Swim', 'Walk', 'Rowing', 'Hike', 'Elliptical', 'Stairmaster']);
+
+const FILLER_WORDS = /\b(?:of|at|for|in|with|a|an|the|my|some|reps?|sets?|total)\b|@/g;
+
+function titleCase(text: string): string {
+  return text.replace(/\b[a-z]/g, c => c.toUpperCase());
+}
+
+function canonicalName(raw: string): string {
+  const name = raw.replace(/\s+/g, ' ').trim();
+  for (const [pattern, canonical] of CANONICAL_NAMES) {
+    if (pattern.test(name)) return canonical;
+  }
+  return titleCase(name);
+}
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+function parseSegment(segment: string): ParsedExercise | null {
+  const original = segment.trim();
+  let stripped = original.toLowerCase();
+  for (const lead of LEAD_PHRASES) stripped = stripped.replace(lead, '');
+  let rest = ` ${stripped.replace(TRAILING_PHRASE, '')} `;
+
+  const take = (pattern: RegExp): RegExpMatchArray | null => {
+    const m = rest.match(pattern);
+    if (m) rest = rest.replace(m[0], ' ');
+    return m;
+  };
+
+  const zoneMatch = take(/\b(?:zone\s*|z)(\d)\b/);
+  const distanceMatch = take(/(\d+(?:\.\d+)?)\s*(miles?|mi|km|k)\b/);
+  const hoursMatch = take(/(\d+(?:\.\d+)?)\s*(?:hours?|hrs?|h)\b/);
+  const minutesMatch = take(/(\d+(?:\.\d+)?)\s*(?:minutes?|mins?)\b/);
+
+  let sets: number | null = null;
+  let reps: number | null = null;
+  const setsByReps = take(/(\d+)\s*[x×*]\s*(\d+)/);
+  const setsOfReps = setsByReps ? null : take(/(\d+)\s*sets?\s*(?:of\s*)?(\d+)(?:\s*reps?)?/);
+  const repsOnly = setsByReps || setsOfReps ? null : take(/(\d+)\s*reps?\b/);
+  if (setsByReps || setsOfReps) {
+    const m = (setsByReps ?? setsOfReps) as RegExpMatchArray;
+    sets = parseInt(m[1]);
+    reps = parseInt(m[2]);
+  } else if (repsOnly) {
+    sets = 1;
+    reps = parseInt(repsOnly[1]);
+  }
+
+  let weight: number | null = null;
+  const weightWithUnit = take(/(\d+(?:\.\d+)?)\s*(lbs?|pounds?|kgs?|kilos?)\b/);
+  if (weightWithUnit) {
+    const value = parseFloat(weightWithUnit[1]);
+    weight = /^k/.test(weightWithUnit[2]) ? Math.round(value * KG_TO_LBS) : value;
+  } else if (sets !== null) {
+    // "bench 185" / "squats @ 225": the one number left after sets x reps is the load
+    const bare = take(/(?:@|\bat\b)?\s*(\d+(?:\.\d+)?)\b/);
+    if (bare) weight = parseFloat(bare[1]);
+  }
+
+  const name = rest.replace(FILLER_WORDS, ' ').replace(/[^a-z\s-]/g, ' ').replace(/\s+/g, ' ').trim();
+  if (!name) return null;
+
+  let duration: number | null = null;
+  if (hoursMatch || minutesMatch) {
+    duration = (hoursMatch ? parseFloat(hoursMatch[1]) * 60 : 0) + (minutesMatch ? parseFloat(minutesMatch[1]) : 0);
+  }
+  let distance: number | null = null;
+  if (distanceMatch) {
+    const value = parseFloat(distanceMatch[1]);
+    distance = /^k/.test(distanceMatch[2]) ? round1(value * KM_TO_MI) : value;
+  }
+
+  const canonical = canonicalName(name);
+  if (sets !== null && reps !== null) {
+    return {
+      name: canonical, kind: 'strength', sets, reps, weight_lbs: weight,
+      duration_min: duration, distance_mi: null, zone: null, original
+    };
+  }
+  if (duration !== null || distance !== null) {
+    return {
+      name: canonical, kind: 'cardio', sets: null, reps: null, weight_lbs: null,
+      duration_min: duration, distance_mi: distance, zone: zoneMatch ? parseInt(zoneMatch[1]) : null, original
+    };
+  }
+  return null;
+}
+
+/**
+ * Parse workout text into exercises. Segments that carry no sets, reps,
+ * duration or distance are returned in `unparsed` rather than guessed at.
+ */
+export function parseWorkout(text: string): WorkoutParseResult {
+  const exercises: ParsedExercise[] = [];
+  const unparsed: string[] = [];
+  for (const segment of text.split(SEGMENT_SPLIT)) {
+    if (!segment.trim()) continue;
+    const exercise = parseSegment(segment);
+    if (exercise) exercises.push(exercise);
+    else unparsed.push(segment.trim());
+  }
+  return { exercises, unparsed };
+}
+
+/** Estimated minutes an exercise took */
+export function exerciseMinutes(ex: ParsedExercise): number {
+  if (ex.duration_min !== null) return ex.duration_min;
+  if (ex.kind === 'cardio') return (ex.distance_mi ?? 0) * MINUTES_PER_MILE;
+  return (ex.sets ?? 0) * MINUTES_PER_SET;
+}
+
+export function summarizeWorkout(exercises: ParsedExercise[]): WorkoutSummary {
+  const hasStrength = exercises.some(e => e.kind === 'strength');
+  const hasCardio = exercises.some(e => e.kind === 'cardio' || CARDIO_NAMES.has(e.name));
+  return {
+    workout_type: hasStrength && hasCardio ? 'hybrid' : hasCardio ? 'cardio' : 'resistance',
+    exercises_completed: exercises.length,
+    total_sets: exercises.reduce((sum, e) => sum + (e.sets ?? 0), 0),
+    volume_lbs: Math.round(exercises.reduce((sum, e) => sum + (e.sets ?? 0) * (e.reps ?? 0) * (e.weight_lbs ?? 0), 0)),
+    estimated_duration_min: Math.max(1, Math.round(exercises.reduce((sum, e) => sum + exerciseMinutes(e), 0)))
+  };
+}
+
+/** One-line description, e.g. "3×8 Bench Press @ 185 lbs" or "Run 20 min · zone 2" */
+export function describeExercise(ex: ParsedExercise): string {
+  if (ex.kind === 'strength') {
+    return `${ex.sets}×${ex.reps} ${ex.name}${ex.weight_lbs ? ` @ ${ex.weight_lbs} lbs` : ''}`;
+  }
+  const parts = [ex.name];
+  if (ex.distance_mi !== null) parts.push(`${ex.distance_mi} mi`);
+  if (ex.duration_min !== null) parts.push(`${ex.duration_min} min`);
+  if (ex.zone !== null) parts.push(`· zone ${ex.zone}`);
+  return parts.join(' ');
+}
+
+function localDate(now: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+/** Verify-card payload for parsed exercises, or null when nothing parsed */
+export function buildWorkoutVerify(exercises: ParsedExercise[], now: Date = new Date()): WorkoutVerifyData | null {
+  if (!exercises.length) return null;
+  return {
+    type: 'workout.verify',
+    exercises,
+    summary: summarizeWorkout(exercises),
+    performed_on: localDate(now)
+  };
+}
@@ -1,5 +1,4 @@
 import { FoodResult } from './format';
-import { spendCredits, calculateCost } from '@/lib/credits/spendHook';
 import { TMWYA_INTENT_SYSTEM } from '@/agents/tmwya/intent.system';
 import { TMWYA_NORMALIZE_SYSTEM } from '@/agents/tmwya/normalize.system';
 
@@ -161,12 +160,6 @@ async function resolveMacros(normalized: any): Promise<FoodResult> {
   const data = await response.json();
   const result = JSON.parse(data.choices[0].message.content);
 
-  const inputTokens = data.usage?.prompt_tokens || 0;
-  const outputTokens = data.usage?.completion_tokens || 0;
-  const cost = calculateCost('gpt-4o-mini', inputTokens, outputTokens);
-
-  await spendCredits(cost, `TMWYA: resolver`);
-
   console.log('[SWARM] resolver ok:', {
     kcal: result.totals?.kcal,
     protein_g: result.totals?.protein_g
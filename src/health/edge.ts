@@ -1,11 +1,15 @@
+import { getSupabase } from '../lib/supabase';
+
 export async function edgeHealth() {
   const base = import.meta.env.VITE_SUPABASE_URL!;
   const anon = import.meta.env.VITE_SUPABASE_ANON_KEY!;
 
+  // The LLM functions bill the signed-in user and reject the anon key
+  const { data } = await getSupabase().auth.getSession();
   const headers = {
     'Content-Type': 'application/json',
     apikey: anon,
-    Authorization: `Bearer ${anon}`,
+    Authorization: `Bearer ${data.session?.access_token ?? anon}`,
   } as const;
 
   // CHAT check
@@ -0,0 +1,46 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { rpc, from } = vi.hoisted(() => ({ rpc: vi.fn(), from: vi.fn() }));
+
+vi.mock('../supabase', () => ({
+  getSupabase: () => ({ rpc, from })
+}));
+
+import { recordTurnOutcome, recordTurnVariant, resolveSwarmVariant } from '../experiments';
+
+describe('experiments', () => {
+  beforeEach(() => {
+    rpc.mockReset();
+    from.mockReset();
+  });
+
+  it('gets the assignment from the server and only reads the assigned manifest', async () => {
+    const assignment = { experiment_key: 'swarm:personality:v2', version_id: 'v2', variant: 'treatment' };
+    rpc.mockResolvedValue({ data: assignment, error: null });
+    const eq = vi.fn(() => ({ maybeSingle: () => Promise.resolve({ data: { manifest: { agents: [] } }, error: null }) }));
+    from.mockReturnValue({ select: () => ({ eq }) });
+
+    await expect(resolveSwarmVariant('personality')).resolves.toEqual({ assignment, manifest: { agents: [] } });
+    expect(rpc).toHaveBeenCalledWith('assign_experiment', { p_kind: 'swarm', p_target: 'personality' });
+    expect(eq).toHaveBeenCalledWith('id', 'v2');
+    expect(from).not.toHaveBeenCalledWith('experiment_assignments');
+  });
+
+  it('records turns and outcomes through RPCs', async () => {
+    rpc.mockResolvedValue({ error: null });
+
+    await recordTurnVariant({
+      id: 'turn-1',
+      swarm_id: 'personality',
+      experiment_key: 'swarm:personality:v2',
+      version_id: 'v2',
+      prompt_variants: []
+    });
+    await recordTurnOutcome('turn-1', { thumbs: 1 });
+
+    expect(rpc).toHaveBeenCalledWith('record_chat_turn', expect.objectContaining({ p_id: 'turn-1', p_experiment_key: 'swarm:personality:v2' }));
+    expect(rpc.mock.calls[0][1]).not.toHaveProperty('p_variant');
+    expect(rpc).toHaveBeenCalledWith('record_chat_turn_outcome', { p_turn_id: 'turn-1', p_outcome: null, p_edited: null, p_thumbs: 1 });
+    expect(from).not.toHaveBeenCalled();
+  });
+});
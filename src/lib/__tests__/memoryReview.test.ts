@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { MemoryRow } from '../../types/swarm';
+
+const { update, getEmbeddings } = vi.hoisted(() => ({ update: vi.fn(), getEmbeddings: vi.fn() }));
+vi.mock('../memory', () => ({ MemoryService: { update } }));
+vi.mock('../../core/router/embed', () => ({ getEmbeddings }));
+
+import { buildMemoryExport, correctMemory, groupMemories } from '../memoryReview';
+
+const row = (key: string, topics: string[], tier: MemoryRow['tier'], extra: Partial<MemoryRow> = {}): MemoryRow => ({
+  id: key, user_id: 'u1', tier, key, value: { text: key, original: key }, source: 'inferred', confidence: 0.6, ttl: null,
+  topics, is_pii: false, conflict_priority: 1, embedding: [0.1, 0.2], created_at: '', updated_at: '', ...extra
+});
+
+describe('groupMemories', () => {
+  it('groups by first topic in display order, long-term first', () => {
+    const groups = groupMemories([
+      row('dislike:olives', ['nutrition'], 'long_term'),
+      row('injury:knee', ['injury', 'training'], 'ephemeral'),
+      row('injury:back', ['injury', 'training'], 'long_term'),
+      row('legacy', [], 'short_term')
+    ]);
+    expect(groups.map(g => [g.topic, g.tiers.map(t => [t.tier, t.memories.map(m => m.key)])])).toEqual([
+      ['injury', [['long_term', ['injury:back']], ['ephemeral', ['injury:knee']]]],
+      ['nutrition', [['long_term', ['dislike:olives']]]],
+      ['other', [['short_term', ['legacy']]]]
+    ]);
+  });
+});
+
+describe('buildMemoryExport', () => {
+  it('exports every row without embedding vectors', () => {
+    const out = buildMemoryExport([row('goal:event', ['goals'], 'long_term')], new Date('2025-11-22T00:00:00Z'));
+    expect(out.exported_at).toBe('2025-11-22T00:00:00.000Z');
+    expect(out.memories[0]).not.toHaveProperty('embedding');
+    expect(out.memories[0].key).toBe('goal:event');
+  });
+});
+
+describe('correctMemory', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    update.mockResolvedValue(true);
+  });
+
+  it('makes the correction explicit and re-embeds it', async () => {
+    getEmbeddings.mockResolvedValue([[0.9, 0.1]]);
+    await correctMemory(row('injury:knee', ['injury'], 'long_term'), 'Left knee, not right');
+    expect(update).toHaveBeenCalledWith('injury:knee', {
+      value: { text: 'Left knee, not right', original: 'injury:knee' },
+      source: 'explicit',
+      conflict_priority: 2,
+      confidence: 1,
+      embedding: [0.9, 0.1]
+    });
+  });
+
+  it('drops the stale embedding when re-embedding fails', async () => {
+    getEmbeddings.mockRejectedValue(new Error('offline'));
+    await correctMemory(row('injury:knee', ['injury'], 'long_term'), 'Left knee');
+    expect(update.mock.calls[0][1].embedding).toBeNull();
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { rpc } = vi.hoisted(() => ({ rpc: vi.fn() }));
+
+vi.mock('../supabase', () => ({
+  getSupabase: () => ({ rpc })
+}));
+
+import { assignMentorPlan, endMentorPlan, markComplianceEventsRead, validateMentorPlan, type MentorPlanDraft } from '../mentorPlans';
+
+const draft: MentorPlanDraft = {
+  plan_name: 'Cut phase',
+  daily_targets: { kcal: 2100, protein_g: 170, carbs_g: 190, fat_g: 70 },
+  meal_schedule: {
+    breakfast: { time: '07:30', kcal: 500, macros: null },
+    dinner: { time: '19:00', kcal: 800, macros: null }
+  },
+  dietary_restrictions: [' dairy-free ', ''],
+  notes: '',
+  starts_on: '2025-11-17',
+  ends_on: '2025-12-31'
+};
+
+describe('validateMentorPlan', () => {
+  it('accepts a complete plan', () => {
+    expect(validateMentorPlan(draft)).toEqual([]);
+  });
+
+  it('rejects empty targets, inverted dates and bad schedule times', () => {
+    const errors = validateMentorPlan({
+      ...draft,
+      plan_name: ' ',
+      daily_targets: { kcal: 0, protein_g: 150, carbs_g: 200, fat_g: 60 },
+      ends_on: '2025-11-01',
+      meal_schedule: { lunch: { time: '25:00', kcal: 600, macros: null } }
+    });
+    expect(errors).toEqual([
+      'Plan name is required',
+      'Daily calories must be positive',
+      'Plan cannot end before it starts',
+      'lunch time must be HH:MM'
+    ]);
+  });
+});
+
+describe('assignMentorPlan', () => {
+  beforeEach(() => {
+    rpc.mockReset();
+  });
+
+  it('sends a cleaned draft to the RPC', async () => {
+    rpc.mockResolvedValue({ data: { id: 'plan-1' }, error: null });
+    await assignMentorPlan('org-1', 'client-1', draft);
+    expect(rpc).toHaveBeenCalledWith('assign_mentor_plan', expect.objectContaining({
+      p_org_id: 'org-1',
+      p_client_id: 'client-1',
+      p_dietary_restrictions: ['dairy-free'],
+      p_notes: null,
+      p_ends_on: '2025-12-31'
+    }));
+  });
+
+  it('refuses invalid drafts before calling the server', async () => {
+    await expect(assignMentorPlan('org-1', 'client-1', { ...draft, starts_on: 'soon' })).rejects.toThrow('Start date must be YYYY-MM-DD');
+    expect(rpc).not.toHaveBeenCalled();
+  });
+});
+
+describe('endMentorPlan', () => {
+  beforeEach(() => {
+    rpc.mockReset();
+  });
+
+  it('retires the plan through the RPC', async () => {
+    rpc.mockResolvedValue({ data: null, error: null });
+    await endMentorPlan('plan-1');
+    expect(rpc).toHaveBeenCalledWith('end_mentor_plan', { p_plan_id: 'plan-1' });
+  });
+
+  it('surfaces a refused retirement', async () => {
+    rpc.mockResolvedValue({ data: null, error: { message: 'Not allowed to end this plan' } });
+    await expect(endMentorPlan('plan-1')).rejects.toThrow('Failed to end mentor plan: Not allowed to end this plan');
+  });
+});
+
+describe('markComplianceEventsRead', () => {
+  beforeEach(() => {
+    rpc.mockReset();
+  });
+
+  it('marks events read through the RPC instead of updating rows', async () => {
+    rpc.mockResolvedValue({ data: 2, error: null });
+    await markComplianceEventsRead(['event-1', 'event-2']);
+    expect(rpc).toHaveBeenCalledWith('mark_compliance_events_read', { p_event_ids: ['event-1', 'event-2'] });
+  });
+
+  it('skips the call when there is nothing to mark', async () => {
+    await markComplianceEventsRead([]);
+    expect(rpc).not.toHaveBeenCalled();
+  });
+});
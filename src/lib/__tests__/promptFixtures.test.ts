@@ -0,0 +1,38 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { invoke } = vi.hoisted(() => ({ invoke: vi.fn() }));
+
+vi.mock('../supabase', () => ({
+  getSupabase: () => ({ functions: { invoke } })
+}));
+
+import { liveLLMClient } from '../promptFixtures';
+
+describe('liveLLMClient', () => {
+  beforeEach(() => invoke.mockReset());
+
+  it('replays fixtures with tools disabled so nothing is logged on the caller account', async () => {
+    invoke.mockResolvedValue({ data: { message: '{"totals":{"kcal":140}}' }, error: null });
+
+    const output = await liveLLMClient.complete({ system: 'Draft prompt', input: 'I had 2 eggs', model: 'gpt-4o-mini' });
+
+    expect(output).toBe('{"totals":{"kcal":140}}');
+    expect(invoke).toHaveBeenCalledWith('openai-chat', {
+      body: expect.objectContaining({
+        tools: false,
+        stream: false,
+        messages: [
+          { role: 'system', content: 'Draft prompt' },
+          { role: 'user', content: 'I had 2 eggs' }
+        ]
+      })
+    });
+  });
+
+  it('fails the fixture instead of scoring "Action completed" when a tool ran', async () => {
+    invoke.mockResolvedValue({ data: { message: 'Action completed', tool_calls: [{ name: 'log_meal' }] }, error: null });
+
+    await expect(liveLLMClient.complete({ system: 'Draft prompt', input: 'I had 2 eggs', model: 'gpt-4o-mini' }))
+      .rejects.toThrow('LLM response ran tools during a fixture replay');
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { rpc } = vi.hoisted(() => ({ rpc: vi.fn() }));
+
+vi.mock('../supabase', () => ({
+  getSupabase: () => ({ rpc })
+}));
+
+import { listRoster, toRosterPage } from '../roster';
+import { acceptInvitation, createInvitation, invitationStatus } from '../orgInvites';
+
+describe('roster', () => {
+  beforeEach(() => {
+    rpc.mockReset();
+  });
+
+  it('pages through clients with search and status filters', async () => {
+    rpc.mockResolvedValue({ data: { total: 23, counts: { active: 20, invited: 3 }, entries: [] }, error: null });
+
+    const page = await listRoster('org-1', { search: '  sam ', status: 'active', page: 3 });
+
+    expect(rpc).toHaveBeenCalledWith('list_org_roster', {
+      p_org_id: 'org-1',
+      p_search: 'sam',
+      p_status: 'active',
+      p_role: 'client',
+      p_limit: 10,
+      p_offset: 20
+    });
+    expect(page).toMatchObject({ total: 23, page: 3, pageCount: 3, counts: { active: 20, invited: 3, inactive: 0 } });
+  });
+
+  it('lists every role when role is null', async () => {
+    rpc.mockResolvedValue({ data: null, error: null });
+    const page = await listRoster('org-1', { role: null });
+    expect(rpc.mock.calls[0][1]).toMatchObject({ p_role: null, p_search: null, p_offset: 0 });
+    expect(page).toMatchObject({ entries: [], total: 0, pageCount: 1 });
+  });
+
+  it('surfaces RPC errors', async () => {
+    rpc.mockResolvedValue({ data: null, error: { message: 'Not allowed to view this roster' } });
+    await expect(listRoster('org-1')).rejects.toThrow('Not allowed to view this roster');
+  });
+
+  it('coerces bigint counts returned as strings', () => {
+    expect(toRosterPage({ total: '11', counts: { inactive: '2' } }, 1, 10)).toMatchObject({ total: 11, pageCount: 2, counts: { inactive: 2 } });
+  });
+});
+
+describe('org invitations', () => {
+  beforeEach(() => {
+    rpc.mockReset();
+  });
+
+  it('treats lapsed pending invitations as expired', () => {
+    const now = new Date('2025-11-16T12:00:00Z');
+    expect(invitationStatus({ status: 'pending', expires_at: '2025-11-16T11:00:00Z' }, now)).toBe('expired');
+    expect(invitationStatus({ status: 'pending', expires_at: '2025-11-20T00:00:00Z' }, now)).toBe('pending');
+    expect(invitationStatus({ status: 'accepted', expires_at: '2025-11-01T00:00:00Z' }, now)).toBe('accepted');
+  });
+
+  it('creates link invitations without an email', async () => {
+    rpc.mockResolvedValue({ data: { id: 'inv-1', token: 'abc' }, error: null });
+    await createInvitation('org-1', { email: '  ', expiresDays: 14 });
+    expect(rpc).toHaveBeenCalledWith('create_org_invitation', {
+      p_org_id: 'org-1',
+      p_email: null,
+      p_role: 'client',
+      p_expires_days: 14
+    });
+  });
+
+  it('passes the server reason through when accepting fails', async () => {
+    rpc.mockResolvedValue({ data: null, error: { message: 'Invitation has expired' } });
+    await expect(acceptInvitation('abc')).rejects.toThrow('Invitation has expired');
+  });
+});
@@ -67,23 +67,93 @@ describe('shoplens', () => {
     expect(result.notes).toContain('No concerning ingredients or patterns detected');
   });
 
-  it('analyzeLabel returns deterministic results for protein products', async () => {
+  it('analyzeLabel resolves listed ingredients against the knowledge base', async () => {
     const result = await analyzeLabel('WHEY PROTEIN ISOLATE\nWhey Protein Isolate, Natural Flavors, Sucralose');
     
     expect(result.productName).toBe('WHEY PROTEIN ISOLATE');
-    expect(result.ingredients.length).toBeGreaterThan(0);
-    expect(result.ingredients[0].name).toBe('Whey Protein Isolate');
+    expect(result.ingredients.map(i => i.name)).toEqual(['Whey Protein Isolate', 'Natural Flavors', 'Sucralose']);
     expect(result.ingredients[0].riskLevel).toBe('low');
-    expect(result.confidence).toBe(0.85);
+    expect(result.ingredients[2].notes).toBe('Artificial sweetener');
+    // Default caution list flags the artificial sweetener by name
+    expect(result.verdict).toBe('caution');
+    expect(result.notes).toContain('Contains caution keywords: "artificial" (Sucralose)');
+    expect(result.confidence).toBeGreaterThan(0.8);
   });
 
   it('analyzeLabel handles empty input gracefully', async () => {
     const result = await analyzeLabel('');
     
     expect(result.productName).toBe('Unknown Product');
-    expect(result.ingredients.length).toBeGreaterThanOrEqual(2);
+    expect(result.ingredients).toHaveLength(0);
     expect(result.claims).toHaveLength(0);
-    expect(result.verdict).toBe('safe');
+    expect(result.verdict).toBe('caution');
+    expect(result.confidence).toBeLessThan(0.5);
+  });
+
+  it('analyzeLabel reads a Supplement Facts panel with blends and doses', async () => {
+    const label = [
+      'Ultra Pump Pre-Workout',
+      'Supplement Facts',
+      'Serving Size 1 Scoop (10 g)',
+      'Amount Per Serving % Daily Value',
+      'Beta-Alanine 1.6 g †',
+      'Caffeine Anhydrous 450 mg †',
+      'Pump Matrix (Proprietary Blend) 3 g †',
+      'L-Citrulline, Betaine Anhydrous',
+      'Other Ingredients: Citric Acid, Sucralose, Silicon Dioxide.',
+      'Boosts energy and endurance for intense workouts. Burns fat fast!'
+    ].join('\n');
+    const config: ShopLensConfig = {
+      sensitivity: 40,
+      banned: [],
+      caution: [],
+      intendedUse: 'performance',
+      strictLabelMode: true,
+      allowProprietaryBlends: true
+    };
+
+    const result = await analyzeLabel(label, config);
+    const byName = Object.fromEntries(result.ingredients.map(i => [i.name, i]));
+
+    expect(byName['Beta-Alanine']).toMatchObject({ amount: 1.6, unit: 'g' });
+    expect(byName['Beta-Alanine'].notes).toContain('Under-dosed: 1.6 g vs 3.2 g effective dose');
+    expect(byName['Caffeine Anhydrous'].riskLevel).toBe('high');
+    expect(byName['Pump Matrix (Proprietary Blend)'].notes).toBe('Undisclosed ingredient amounts: L-Citrulline, Betaine Anhydrous');
+    expect(byName['L-Citrulline'].notes).toContain('dose not disclosed');
+
+    expect(result.claims).toEqual([
+      { text: 'Boosts energy and endurance for intense workouts', category: 'performance', credibility: 'verified' },
+      { text: 'Burns fat fast', category: 'weight', credibility: 'unsubstantiated' }
+    ]);
+
+    // Sensitivity 40 keeps high-risk ingredients at caution
+    expect(result.verdict).toBe('caution');
+    expect(result.notes).toContain('High-risk ingredient: Caffeine Anhydrous (above safe dose)');
+    expect(result.notes).toContain('Proprietary blend detected in strict mode: Pump Matrix (Proprietary Blend)');
+    expect(result.notes).toContain('Under-dosed: Beta-Alanine (1.6 g vs 3.2 g effective)');
+    expect(result.notes).toContain('Unsubstantiated claim: "Burns fat fast"');
+  });
+
+  it('analyzeLabel escalates high-risk ingredients with sensitivity', async () => {
+    const base: ShopLensConfig = {
+      sensitivity: 70,
+      banned: [],
+      caution: [],
+      intendedUse: 'weight',
+      strictLabelMode: false,
+      allowProprietaryBlends: true
+    };
+    const label = 'Shred X\nCaffeine 200mg, 1,3-Dimethylamylamine, Green Tea Extract';
+
+    const strictUser = await analyzeLabel(label, base);
+    expect(strictUser.verdict).toBe('avoid');
+    expect(strictUser.notes[0]).toMatch(/^High-risk ingredient: 1,3-Dimethylamylamine/);
+
+    const relaxedUser = await analyzeLabel(label, { ...base, sensitivity: 20 });
+    expect(relaxedUser.verdict).toBe('caution');
+
+    const banned = await analyzeLabel(label, { ...base, banned: ['dmaa'] });
+    expect(banned.notes[0]).toBe('Banned ingredients detected: 1,3-Dimethylamylamine');
   });
 
   it('fetchUserFeedback returns protein-specific feedback', async () => {
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { parseMealTime, parseMealTimes, stripTimePhrases } from '../meals/timeParser';
+import { zonedDate, zonedParts } from '../time/zoned';
+
+const TZ = 'America/New_York';
+// Wednesday 2026-10-14 11:30 in New York
+const NOW = zonedDate({ year: 2026, month: 10, day: 14 }, 11, 30, TZ);
+
+function local(date: Date, tz = TZ) {
+  const p = zonedParts(date, tz);
+  return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')} ${String(p.hour).padStart(2, '0')}:${String(p.minute).padStart(2, '0')}`;
+}
+
+describe('parseMealTime', () => {
+  it('resolves clock times in the user timezone', () => {
+    const t = parseMealTime('eggs at 9 AM today', TZ, NOW);
+    expect(local(t.date)).toBe('2026-10-14 09:00');
+    expect(t.explicit).toBe(true);
+    expect(t.date.toISOString()).toBe('2026-10-14T13:00:00.000Z');
+
+    const tokyo = parseMealTime('eggs at 9 AM today', 'Asia/Tokyo', NOW);
+    expect(local(tokyo.date, 'Asia/Tokyo')).toBe('2026-10-15 09:00');
+  });
+
+  it('uses slot defaults and relative days', () => {
+    expect(local(parseMealTime('oatmeal for breakfast', TZ, NOW).date)).toBe('2026-10-14 08:00');
+    const lastNight = parseMealTime('pizza last night', TZ, NOW);
+    expect(local(lastNight.date)).toBe('2026-10-13 20:00');
+    expect(lastNight.mealSlot).toBe('dinner');
+    expect(local(parseMealTime('yesterday lunch was soup', TZ, NOW).date)).toBe('2026-10-13 12:00');
+    expect(local(parseMealTime('oatmeal this morning', TZ, NOW).date)).toBe('2026-10-14 08:00');
+  });
+
+  it('resolves weekdays to the most recent past day', () => {
+    const t = parseMealTime("Monday's dinner was pasta", TZ, NOW);
+    expect(local(t.date)).toBe('2026-10-12 18:00');
+    expect(t.mealSlot).toBe('dinner');
+    expect(local(parseMealTime('last wednesday lunch was tacos', TZ, NOW).date)).toBe('2026-10-07 12:00');
+  });
+
+  it('handles explicit dates', () => {
+    expect(local(parseMealTime('on 3/14 I had pie', TZ, NOW).date)).toBe('2026-03-14 12:00');
+    expect(local(parseMealTime('March 3 dinner was steak', TZ, NOW).date)).toBe('2026-03-03 18:00');
+    expect(local(parseMealTime('2026-10-01 lunch was a wrap', TZ, NOW).date)).toBe('2026-10-01 12:00');
+  });
+
+  it('subtracts relative durations from now', () => {
+    expect(local(parseMealTime('2 eggs 2 hours ago', TZ, NOW).date)).toBe('2026-10-14 09:30');
+    expect(local(parseMealTime('a banana half an hour ago', TZ, NOW).date)).toBe('2026-10-14 11:00');
+    expect(local(parseMealTime('coffee 45 minutes ago', TZ, NOW).date)).toBe('2026-10-14 10:45');
+  });
+
+  it('reads ranges and keeps the start as the meal time', () => {
+    const t = parseMealTime('between 7 and 8am yesterday i had yogurt', TZ, NOW);
+    expect(local(t.date)).toBe('2026-10-13 07:00');
+    expect(t.range && local(t.range.end)).toBe('2026-10-13 08:00');
+  });
+
+  it('infers pm for bare lunch-hour clocks', () => {
+    expect(local(parseMealTime('i had a salad at 1', TZ, NOW).date)).toBe('2026-10-14 13:00');
+    expect(local(parseMealTime('dinner at 7 was steak', TZ, NOW).date)).toBe('2026-10-14 19:00');
+  });
+
+  it('does not read portions or food names as times', () => {
+    const portion = parseMealTime('about 6 oz of chicken', TZ, NOW);
+    expect(portion.date).toBe(NOW);
+    expect(portion.explicit).toBe(false);
+    expect(parseMealTime('a breakfast burrito', TZ, NOW).mealSlot).toBeUndefined();
+  });
+});
+
+describe('parseMealTimes', () => {
+  it('splits lead-style meal lists', () => {
+    const groups = parseMealTimes('breakfast was oatmeal, lunch was a turkey sandwich', TZ, NOW);
+    expect(groups.map(g => [g.text, g.mealSlot, local(g.date)])).toEqual([
+      ['oatmeal', 'breakfast', '2026-10-14 08:00'],
+      ['a turkey sandwich', 'lunch', '2026-10-14 12:00'],
+    ]);
+  });
+
+  it('splits trail-style meal lists', () => {
+    const groups = parseMealTimes('eggs for breakfast and a burger for lunch and salmon for dinner', TZ, NOW);
+    expect(groups.map(g => g.text)).toEqual(['eggs', 'a burger', 'salmon']);
+    expect(groups.map(g => g.mealSlot)).toEqual(['breakfast', 'lunch', 'dinner']);
+  });
+
+  it('carries a leading day across meals', () => {
+    const groups = parseMealTimes('yesterday: breakfast was 2 eggs, dinner was pasta', TZ, NOW);
+    expect(groups.map(g => [g.text, local(g.date)])).toEqual([
+      ['2 eggs', '2026-10-13 08:00'],
+      ['pasta', '2026-10-13 18:00'],
+    ]);
+  });
+
+  it('returns a single group for plain meals', () => {
+    const groups = parseMealTimes('3 eggs and toast', TZ, NOW);
+    expect(groups).toHaveLength(1);
+    expect(groups[0].text).toBe('3 eggs and toast');
+    expect(groups[0].date).toBe(NOW);
+  });
+});
+
+describe('stripTimePhrases', () => {
+  it('leaves only the food text', () => {
+    expect(stripTimePhrases('salmon for dinner')).toBe('salmon');
+    expect(stripTimePhrases('2 eggs at 9 am yesterday')).toBe('2 eggs');
+    expect(stripTimePhrases('a breakfast burrito')).toBe('a breakfast burrito');
+  });
+});
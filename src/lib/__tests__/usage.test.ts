@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { costForTokens, rateFor } from '../credits/rates';
+import { summarizeUsage, type UsageRow } from '../credits/usage';
+import { estimateCost } from '../../core/router/modelRouter';
+
+function row(overrides: Partial<UsageRow>): UsageRow {
+  return {
+    created_at: '2026-10-14T15:00:00Z',
+    provider: 'openai',
+    model: 'gpt-4o-mini',
+    intent: 'ama',
+    input_tokens: 1000,
+    output_tokens: 500,
+    cost_usd: 0.00045,
+    ...overrides
+  };
+}
+
+describe('rate table', () => {
+  it('prices input and output tokens per million', () => {
+    expect(costForTokens('gpt-4o-mini', 1_000_000, 0)).toBeCloseTo(0.15, 10);
+    expect(costForTokens('gpt-4o', 1000, 1000)).toBeCloseTo(0.0125, 10);
+  });
+
+  it('estimates unknown models at the highest rate', () => {
+    expect(rateFor('some-new-model')).toEqual(rateFor('gpt-4o'));
+  });
+
+  it('is the source for model router estimates', () => {
+    expect(estimateCost({ model: 'gemini-2.5-flash', tokensEst: 800, maxTokens: 100 })).toBe(costForTokens('gemini-2.5-flash', 800, 100));
+  });
+});
+
+describe('summarizeUsage', () => {
+  it('breaks spend down by day, intent and model', () => {
+    const summary = summarizeUsage([
+      row({ created_at: '2026-10-14T15:00:00Z' }),
+      row({ created_at: '2026-10-14T16:00:00Z', model: 'gemini-2.5-flash', provider: 'gemini', cost_usd: 0.0002 }),
+      row({ created_at: '2026-10-12T15:00:00Z', intent: 'tmwya', cost_usd: 0.001 }),
+      row({ created_at: '2026-10-12T16:00:00Z', intent: null, cost_usd: 0.0001 })
+    ]);
+
+    expect(summary.totalUsd).toBeCloseTo(0.00175, 10);
+    expect(summary.byDay.map(b => [b.key, b.calls])).toEqual([['2026-10-14', 2], ['2026-10-12', 2]]);
+    expect(summary.byIntent.map(b => b.key)).toEqual(['tmwya', 'ama', 'other']);
+    expect(summary.byModel[0]).toMatchObject({ key: 'gpt-4o-mini', calls: 3, inputTokens: 3000, outputTokens: 1500 });
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { rpc } = vi.hoisted(() => ({ rpc: vi.fn() }));
+
+vi.mock('../supabase', () => ({
+  getSupabase: () => ({ rpc })
+}));
+
+import {
+  completeWorkoutSession,
+  plansForDay,
+  sessionTotals,
+  toEffortData,
+  validateWorkoutPlan,
+  weekDayOf,
+  type LoggedSet,
+  type WorkoutPlan,
+  type WorkoutPlanDraft
+} from '../workoutPlans';
+
+const draft: WorkoutPlanDraft = {
+  name: 'Upper Body Strength',
+  description: '',
+  type: 'strength',
+  difficulty: 'intermediate',
+  estimated_duration_min: 60,
+  exercises: [{ id: 'ex-1', name: 'Bench Press', sets: 4, reps: '6-8', restTime: 180, muscleGroups: ['chest'], equipment: [] }],
+  assigned_days: ['monday', 'thursday'],
+  tags: [],
+  is_active: true
+};
+
+const plan = (overrides: Partial<WorkoutPlan> = {}): WorkoutPlan => ({
+  ...draft,
+  id: 'plan-1',
+  org_id: 'org-1',
+  client_id: 'client-1',
+  is_template: false,
+  version: 1,
+  created_at: '2025-11-19T00:00:00Z',
+  updated_at: '2025-11-19T00:00:00Z',
+  ...overrides
+});
+
+const set = (overrides: Partial<LoggedSet> = {}): LoggedSet => ({
+  id: 's1',
+  session_id: 'session-1',
+  exercise_id: 'ex-1',
+  exercise: 'Bench Press',
+  muscle_group: 'chest',
+  set_number: 1,
+  reps: 8,
+  weight_lbs: 185,
+  rpe: 8,
+  rest_sec: 180,
+  logged_at: '2025-11-20T18:05:00Z',
+  ...overrides
+});
+
+describe('validateWorkoutPlan', () => {
+  it('accepts a complete plan', () => {
+    expect(validateWorkoutPlan(draft)).toEqual([]);
+  });
+
+  it('requires a name, a duration and named exercises with sets', () => {
+    expect(validateWorkoutPlan({
+      ...draft,
+      name: ' ',
+      estimated_duration_min: 0,
+      exercises: [{ ...draft.exercises[0], name: '', sets: 0 }]
+    })).toEqual([
+      'Plan name is required',
+      'Duration must be positive',
+      'Exercise 1 needs a name',
+      'Exercise 1 needs at least one set'
+    ]);
+  });
+});
+
+describe('plansForDay', () => {
+  it('maps dates to monday-first weekday names', () => {
+    expect(weekDayOf(new Date(2025, 10, 17))).toBe('monday');
+    expect(weekDayOf(new Date(2025, 10, 23))).toBe('sunday');
+  });
+
+  it('returns only active, scheduled client plans', () => {
+    const plans = [
+      plan(),
+      plan({ id: 'paused', is_active: false }),
+      plan({ id: 'template', is_template: true, client_id: null }),
+      plan({ id: 'friday', assigned_days: ['friday'] })
+    ];
+    expect(plansForDay(plans, new Date(2025, 10, 20)).map(p => p.id)).toEqual(['plan-1']);
+  });
+});
+
+describe('sessionTotals', () => {
+  it('sums volume per set and averages only rated sets', () => {
+    const sets = [
+      set(),
+      set({ id: 's2', set_number: 2, rpe: 9 }),
+      set({ id: 's3', exercise_id: 'ex-2', exercise: 'Row', weight_lbs: 135, reps: 10, rpe: null })
+    ].map(toEffortData);
+
+    expect(sessionTotals(sets, new Date('2025-11-20T18:00:00Z'), new Date('2025-11-20T18:47:00Z'))).toEqual({
+      duration_minutes: 47,
+      volume_lbs: 185 * 8 * 2 + 135 * 10,
+      avg_rpe: 8.5,
+      exercises_completed: 2,
+      sets: 3
+    });
+  });
+});
+
+describe('completeWorkoutSession', () => {
+  beforeEach(() => {
+    rpc.mockReset();
+  });
+
+  it('closes the session through the RPC and returns the workout log', async () => {
+    rpc.mockResolvedValue({ data: { id: 'log-1', exercises_completed: 2 }, error: null });
+    const log = await completeWorkoutSession('session-1', { rating: 4, notes: '  ' });
+    expect(rpc).toHaveBeenCalledWith('complete_workout_session', {
+      p_session_id: 'session-1',
+      p_rating: 4,
+      p_notes: null
+    });
+    expect(log.id).toBe('log-1');
+  });
+
+  it('surfaces server errors', async () => {
+    rpc.mockResolvedValue({ data: null, error: { message: 'Session is not in progress' } });
+    await expect(completeWorkoutSession('session-1')).rejects.toThrow('Failed to finish workout: Session is not in progress');
+  });
+});
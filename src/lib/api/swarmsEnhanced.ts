@@ -34,10 +34,11 @@ export async function createPromptDraft(payload: {
   return res.json();
 }
 
-export async function publishPrompt(id: string) {
+export async function publishPrompt(id: string, options: { rollout_percent?: number } = {}) {
   const res = await fetch(`${API_BASE}/agent-prompts/${id}/publish`, {
     method: 'PUT',
     headers: await getAuthHeaders(),
+    body: JSON.stringify(options),
   });
 
   if (!res.ok) {
@@ -82,6 +83,7 @@ export async function updateRollout(
   id: string,
   payload: {
     rollout_percent?: number;
+    holdout_percent?: number;
     cohort?: 'beta' | 'paid' | 'all';
   }
 ) {
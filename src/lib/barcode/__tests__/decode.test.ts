@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { checkDigit, decodeImageData, decodeScanline, expandUpcE, normalizeBarcode } from '../decode';
+
+// Module bit patterns, independent of the decoder's width tables
+const L = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+const R = L.map(p => p.replace(/./g, b => (b === '0' ? '1' : '0')));
+const G = R.map(p => p.split('').reverse().join(''));
+const PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+function ean13Modules(code: string): string {
+  const digits = code.split('').map(Number);
+  const parity = PARITY[digits[0]];
+  const left = digits.slice(1, 7).map((d, i) => (parity[i] === 'L' ? L : G)[d]).join('');
+  const right = digits.slice(7).map(d => R[d]).join('');
+  return `101${left}01010${right}101`;
+}
+
+function ean8Modules(code: string): string {
+  const digits = code.split('').map(Number);
+  return `101${digits.slice(0, 4).map(d => L[d]).join('')}01010${digits.slice(4).map(d => R[d]).join('')}101`;
+}
+
+/** Luminance row: quiet zones, `scale` pixels per module, a little blur */
+function scanline(modules: string, scale = 3): number[] {
+  const quiet = new Array(12 * scale).fill(235);
+  const bars = modules.split('').flatMap(m => new Array(scale).fill(m === '1' ? 25 : 235));
+  const row = [...quiet, ...bars, ...quiet];
+  return row.map((v, i) => (i > 0 ? (v * 3 + row[i - 1]) / 4 : v));
+}
+
+describe('GTIN helpers', () => {
+  it('computes GS1 check digits', () => {
+    expect(checkDigit('400638133393')).toBe(1);
+    expect(checkDigit('03600029145')).toBe(2);
+  });
+
+  it('normalises UPC-A to GTIN-13 and rejects bad check digits', () => {
+    expect(normalizeBarcode('036000291452')).toBe('0036000291452');
+    expect(normalizeBarcode('4006381333931')).toBe('4006381333931');
+    expect(normalizeBarcode('4006381333932')).toBeNull();
+    expect(normalizeBarcode('12345')).toBeNull();
+  });
+
+  it('expands UPC-E to UPC-A', () => {
+    expect(expandUpcE('04252614')).toBe('042100005264');
+    expect(normalizeBarcode(expandUpcE('04252614')!)).toBe('0042100005264');
+  });
+});
+
+describe('decodeScanline', () => {
+  it('decodes EAN-13', () => {
+    expect(decodeScanline(scanline(ean13Modules('4006381333931')))).toEqual({ code: '4006381333931', format: 'ean_13' });
+  });
+
+  it('decodes UPC-A as a leading-zero EAN-13', () => {
+    expect(decodeScanline(scanline(ean13Modules('0036000291452'), 2))).toEqual({ code: '0036000291452', format: 'upc_a' });
+  });
+
+  it('decodes EAN-8', () => {
+    expect(decodeScanline(scanline(ean8Modules('96385074')))).toEqual({ code: '96385074', format: 'ean_8' });
+  });
+
+  it('reads upside-down barcodes', () => {
+    expect(decodeScanline(scanline(ean13Modules('5901234123457')).reverse())?.code).toBe('5901234123457');
+  });
+
+  it('returns null for rows without a barcode', () => {
+    expect(decodeScanline(new Array(300).fill(200))).toBeNull();
+    expect(decodeScanline(scanline('1011001110001011100101'))).toBeNull();
+  });
+});
+
+describe('decodeImageData', () => {
+  it('finds a barcode in an RGBA image', () => {
+    const row = scanline(ean13Modules('4006381333931'));
+    const width = row.length;
+    const height = 40;
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const p = (y * width + x) * 4;
+        const v = y > 10 && y < 30 ? row[x] : 235;
+        data[p] = data[p + 1] = data[p + 2] = v;
+        data[p + 3] = 255;
+      }
+    }
+    expect(decodeImageData({ data, width, height })?.code).toBe('4006381333931');
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * UPC/EAN barcode decoding without native support.
+ *
+ * Scanlines are binarised, run-length encoded and matched against the EAN-13
+ * and EAN-8 symbologies (UPC-A is EAN-13 with a leading 0). Codes are
+ * normalised to GTIN-13 (EAN-8 stays 8 digits) so one key works everywhere.
+ */
+
+export interface DecodedBarcode {
+  /** Normalised GTIN (13 digits, or 8 for EAN-8) */
+  code: string;
+  format: 'ean_13' | 'upc_a' | 'ean_8';
+}
+
+export interface LumaImage {
+  data: ArrayLike<number>; // RGBA, as in ImageData
+  width: number;
+  height: number;
+}
+
+// Module widths for each digit, starting with a space (L) or bar (R/G)
+const L_CODES = ['3211', '2221', '2122', '1411', '1132', '1231', '1114', '1312', '1213', '3112'];
+const G_CODES = L_CODES.map(w => w.split('').reverse().join(''));
+// R codes have the same widths as L codes, with bars and spaces swapped
+const R_CODES = L_CODES;
+
+// L/G parity of the six left digits encodes the first EAN-13 digit
+const FIRST_DIGIT_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+/** Worst average per-module deviation a digit may have and still match */
+const MAX_DIGIT_ERROR = 0.38;
+
+/** GS1 mod-10 check digit over everything but the last digit */
+export function checkDigit(body: string): number {
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    const digit = Number(body[body.length - 1 - i]);
+    sum += i % 2 === 0 ? digit * 3 : digit;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+export function isValidGtin(code: string): boolean {
+  return /^\d{8}$|^\d{12,14}$/.test(code) && checkDigit(code.slice(0, -1)) === Number(code[code.length - 1]);
+}
+
+/** UPC-E (8 digits with number system and check) to the equivalent UPC-A */
+export function expandUpcE(code: string): string | null {
+  if (!/^[01]\d{7}$/.test(code)) return null;
+  const [ns, d1, d2, d3, d4, d5, d6, check] = code.split('');
+  let body: string;
+  if (d6 <= '2') body = `${d1}${d2}${d6}0000${d3}${d4}${d5}`;
+  else if (d6 === '3') body = `${d1}${d2}${d3}00000${d4}${d5}`;
+  else if (d6 === '4') body = `${d1}${d2}${d3}${d4}00000${d5}`;
+  else body = `${d1}${d2}${d3}${d4}${d5}0000${d6}`;
+  return `${ns}${body}${check}`;
+}
+
+/**
+ * Digits-only GTIN key: UPC-A/GTIN-12 and GTIN-14 with a leading 0 become
+ * GTIN-13. Returns null for anything with a bad check digit.
+ */
+export function normalizeBarcode(raw: string): string | null {
+  let code = String(raw ?? '').replace(/\D/g, '');
+  if (code.length === 12) code = `0${code}`;
+  if (code.length === 14 && code.startsWith('0')) code = code.slice(1);
+  if (code.length !== 8 && code.length !== 13) return null;
+  return isValidGtin(code) ? code : null;
+}
+
+interface Run {
+  dark: boolean;
+  width: number;
+}
+
+function toRuns(row: ArrayLike<number>): Run[] {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] < min) min = row[i];
+    if (row[i] > max) max = row[i];
+  }
+  if (max - min < 32) return [];
+
+  const threshold = (min + max) / 2;
+  const runs: Run[] = [];
+  for (let i = 0; i < row.length; i++) {
+    const dark = row[i] < threshold;
+    const last = runs[runs.length - 1];
+    if (last && last.dark === dark) last.width++;
+    else runs.push({ dark, width: 1 });
+  }
+  return runs;
+}
+
+/** Best matching digit for four runs, or -1 */
+function matchDigit(widths: number[], table: string[]): { digit: number; error: number } {
+  const total = widths.reduce((a, b) => a + b, 0);
+  let best = { digit: -1, error: Infinity };
+  table.forEach((pattern, digit) => {
+    let error = 0;
+    for (let i = 0; i < 4; i++) error += Math.abs((widths[i] * 7) / total - Number(pattern[i]));
+    if (error < best.error) best = { digit, error };
+  });
+  return best.error / 4 <= MAX_DIGIT_ERROR ? best : { digit: -1, error: best.error };
+}
+
+function isGuard(runs: Run[], start: number, count: number, firstDark: boolean, module: number): boolean {
+  for (let i = 0; i < count; i++) {
+    const run = runs[start + i];
+    if (!run || run.dark !== (i % 2 === 0 ? firstDark : !firstDark)) return false;
+    if (Math.abs(run.width - module) > module * 0.6 + 0.5) return false;
+  }
+  return true;
+}
+
+function widthsAt(runs: Run[], start: number) {
+  return runs.slice(start, start + 4).map(r => r.width);
+}
+
+function decodeEan13At(runs: Run[], i: number): string | null {
+  if (runs.length < i + 59) return null;
+  const module = (runs[i].width + runs[i + 1].width + runs[i + 2].width) / 3;
+  if (!isGuard(runs, i, 3, true, module)) return null;
+
+  let digits = '';
+  let parity = '';
+  for (let d = 0; d < 6; d++) {
+    const widths = widthsAt(runs, i + 3 + d * 4);
+    const l = matchDigit(widths, L_CODES);
+    const g = matchDigit(widths, G_CODES);
+    const best = l.error <= g.error ? l : g;
+    if (best.digit < 0) return null;
+    digits += best.digit;
+    parity += best === l ? 'L' : 'G';
+  }
+
+  if (!isGuard(runs, i + 27, 5, false, module)) return null;
+
+  for (let d = 0; d < 6; d++) {
+    const { digit } = matchDigit(widthsAt(runs, i + 32 + d * 4), R_CODES);
+    if (digit < 0) return null;
+    digits += digit;
+  }
+
+  if (!isGuard(runs, i + 56, 3, true, module)) return null;
+
+  const first = FIRST_DIGIT_PARITY.indexOf(parity);
+  if (first < 0) return null;
+  const code = `${first}${digits}`;
+  return isValidGtin(code) ? code : null;
+}
+
+function decodeEan8At(runs: Run[], i: number): string | null {
+  if (runs.length < i + 43) return null;
+  const module = (runs[i].width + runs[i + 1].width + runs[i + 2].width) / 3;
+  if (!isGuard(runs, i, 3, true, module)) return null;
+
+  let digits = '';
+  for (let d = 0; d < 4; d++) {
+    const { digit } = matchDigit(widthsAt(runs, i + 3 + d * 4), L_CODES);
+    if (digit < 0) return null;
+    digits += digit;
+  }
+  if (!isGuard(runs, i + 19, 5, false, module)) return null;
+  for (let d = 0; d < 4; d++) {
+    const { digit } = matchDigit(widthsAt(runs, i + 24 + d * 4), R_CODES);
+    if (digit < 0) return null;
+    digits += digit;
+  }
+  if (!isGuard(runs, i + 40, 3, true, module)) return null;
+  return isValidGtin(digits) ? digits : null;
+}
+
+function decodeRuns(runs: Run[]): DecodedBarcode | null {
+  for (let i = 0; i < runs.length; i++) {
+    if (!runs[i].dark) continue;
+    const ean13 = decodeEan13At(runs, i);
+    if (ean13) return { code: ean13, format: ean13.startsWith('0') ? 'upc_a' : 'ean_13' };
+    const ean8 = decodeEan8At(runs, i);
+    if (ean8) return { code: ean8, format: 'ean_8' };
+  }
+  return null;
+}
+
+/**
+ * Decode one row of luminance values (0-255), in either direction
+ */
+export function decodeScanline(row: ArrayLike<number>): DecodedBarcode | null {
+  const runs = toRuns(row);
+  return decodeRuns(runs) ?? decodeRuns([...runs].reverse());
+}
+
+// Rows to try, as fractions of the height; barcodes are usually near the middle
+const SCAN_ROWS = [0.5, 0.45, 0.55, 0.4, 0.6, 0.33, 0.67, 0.25, 0.75];
+
+/**
+ * Decode the first barcode found on a horizontal scanline of an RGBA image
+ */
+export function decodeImageData(image: LumaImage): DecodedBarcode | null {
+  const { data, width, height } = image;
+  const row = new Array<number>(width);
+
+  for (const fraction of SCAN_ROWS) {
+    const y = Math.min(height - 1, Math.floor(height * fraction));
+    for (let x = 0; x < width; x++) {
+      const p = (y * width + x) * 4;
+      row[x] = 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2];
+    }
+    const decoded = decodeScanline(row);
+    if (decoded) return decoded;
+  }
+  return null;
+}
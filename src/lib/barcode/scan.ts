@@ -0,0 +1,83 @@
+import { decodeImageData, expandUpcE, normalizeBarcode, type DecodedBarcode } from './decode';
+
+/**
+ * Barcode detection for camera frames and uploaded images. Uses the
+ * browser's BarcodeDetector where it exists (Chrome/Android, Safari 17+)
+ * and falls back to the scanline decoder everywhere else.
+ */
+
+type BarcodeSource = HTMLCanvasElement | HTMLVideoElement | HTMLImageElement | ImageBitmap | Blob;
+
+interface DetectedBarcode {
+  rawValue: string;
+  format: string;
+}
+
+interface BarcodeDetectorLike {
+  detect(source: ImageBitmapSource): Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorCtor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+const NATIVE_FORMATS = ['ean_13', 'ean_8', 'upc_a', 'upc_e'];
+
+function nativeDetector(): BarcodeDetectorLike | null {
+  const Ctor = (globalThis as { BarcodeDetector?: BarcodeDetectorCtor }).BarcodeDetector;
+  if (!Ctor) return null;
+  try {
+    return new Ctor({ formats: NATIVE_FORMATS });
+  } catch {
+    return null;
+  }
+}
+
+function fromNative(hit: DetectedBarcode): DecodedBarcode | null {
+  const raw = hit.format === 'upc_e' ? expandUpcE(hit.rawValue) : hit.rawValue;
+  const code = raw ? normalizeBarcode(raw) : null;
+  if (!code) return null;
+  const format = code.length === 8 ? 'ean_8' : code.startsWith('0') ? 'upc_a' : 'ean_13';
+  return { code, format };
+}
+
+function readPixels(source: Exclude<BarcodeSource, Blob>): ImageData | null {
+  const width = source instanceof HTMLVideoElement ? source.videoWidth : source.width;
+  const height = source instanceof HTMLVideoElement ? source.videoHeight : source.height;
+  if (!width || !height) return null;
+
+  if (source instanceof HTMLCanvasElement) {
+    return source.getContext('2d')?.getImageData(0, 0, width, height) ?? null;
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+  context.drawImage(source, 0, 0, width, height);
+  return context.getImageData(0, 0, width, height);
+}
+
+/**
+ * First UPC/EAN code in a frame or image, or null when none is readable
+ */
+export async function detectBarcode(source: BarcodeSource): Promise<DecodedBarcode | null> {
+  const image = source instanceof Blob ? await createImageBitmap(source) : source;
+
+  try {
+    const detector = nativeDetector();
+    if (detector) {
+      try {
+        for (const hit of await detector.detect(image)) {
+          const decoded = fromNative(hit);
+          if (decoded) return decoded;
+        }
+      } catch (err) {
+        console.warn('[barcode] Native detector failed, using scanline decoder:', err);
+      }
+    }
+
+    const pixels = readPixels(image);
+    return pixels ? decodeImageData(pixels) : null;
+  } finally {
+    if (source instanceof Blob && 'close' in image) image.close();
+  }
+}
@@ -102,11 +102,21 @@ export async function getChatMessages(sessionId: string): Promise<ChatMessage[]>
     return [];
   }
 
-  // Restore roleData from metadata if present
-  return (data || []).map(msg => ({
-    ...msg,
-    roleData: msg.metadata?.roleData || msg.roleData
-  }));
+  // Restore roleData from metadata if present; multi-card verifies (several meals, or a meal and a workout) expand to one message per card
+  return (data || []).flatMap(msg => {
+    const meals = msg.metadata?.meals;
+    if (Array.isArray(meals) && meals.length > 1) {
+      return meals.map((roleData: unknown, i: number) => ({
+        ...msg,
+        id: i === 0 ? msg.id : `${msg.id}:${i}`,
+        roleData
+      }));
+    }
+    return [{
+      ...msg,
+      roleData: msg.metadata?.roleData || msg.roleData
+    }];
+  });
 }
 
 export async function deleteSession(sessionId: string): Promise<void> {
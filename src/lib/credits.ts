@@ -1,4 +1,5 @@
 import { supabase } from './supabase';
+import type { BudgetState } from '../core/router/modelRouter';
 
 export interface TokenWallet {
   user_id: string;
@@ -37,6 +38,43 @@ export async function getUserCredits(userId: string): Promise<UserCredits | null
   return data;
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Budget inputs for the model router: wallet/plan from v_user_credits plus
+ * rolling 24h spend from token_transactions. Spend is attributed to an intent
+ * by the reason prefix ("TMWYA: resolver" → tmwya).
+ */
+export async function getBudgetState(userId: string): Promise<BudgetState | null> {
+  const since = new Date(Date.now() - DAY_MS).toISOString();
+  const [creditsRes, spendRes] = await Promise.all([
+    supabase.from('v_user_credits').select('plan, is_unlimited, balance_usd').eq('user_id', userId).maybeSingle(),
+    supabase.from('token_transactions').select('delta_usd, reason').eq('user_id', userId).lt('delta_usd', 0).gte('created_at', since)
+  ]);
+
+  if (creditsRes.error || !creditsRes.data) {
+    console.error('[credits] Error fetching budget state:', creditsRes.error);
+    return null;
+  }
+
+  const intentSpend24hUsd: Record<string, number> = {};
+  let spent24hUsd = 0;
+  for (const row of spendRes.data || []) {
+    const amount = -Number(row.delta_usd);
+    const intent = String(row.reason || '').split(/[:\s]/)[0].toLowerCase();
+    spent24hUsd += amount;
+    if (intent) intentSpend24hUsd[intent] = (intentSpend24hUsd[intent] ?? 0) + amount;
+  }
+
+  return {
+    plan: creditsRes.data.plan,
+    isUnlimited: !!creditsRes.data.is_unlimited,
+    balanceUsd: Number(creditsRes.data.balance_usd),
+    spent24hUsd,
+    intentSpend24hUsd
+  };
+}
+
 export async function addCredits(amountUsd: number, reason: string): Promise<number> {
   const { data, error } = await supabase.rpc('add_credits', {
     p_amount_usd: amountUsd,
@@ -81,10 +119,3 @@ export async function getTransactionHistory(userId: string, limit = 50): Promise
 
   return data || [];
 }
-
-export const PRICING = {
-  AMA_TURN: 0.02,
-  IMAGE_ANALYSIS: 0.05,
-  VOICE_MINUTE: 0.01,
-  MONTHLY_FREE_CREDITS: 2.0
-} as const;
@@ -0,0 +1,38 @@
+/**
+ * Versioned LLM rate table (USD per 1M tokens).
+ *
+ * The database copy in `model_rates` is what `record_llm_usage` bills from;
+ * this mirror is for client-side estimates. Bump RATE_VERSION and add a
+ * matching model_rates migration when prices change.
+ */
+
+export type RateProvider = 'openai' | 'gemini';
+
+export interface ModelRate {
+  provider: RateProvider;
+  inputPer1M: number;
+  outputPer1M: number;
+}
+
+export const RATE_VERSION = '2025-11-01';
+
+export const MODEL_RATES: Record<string, ModelRate> = {
+  'gpt-4o-mini': { provider: 'openai', inputPer1M: 0.15, outputPer1M: 0.60 },
+  'gpt-4o': { provider: 'openai', inputPer1M: 2.50, outputPer1M: 10.00 },
+  'gemini-2.5-flash': { provider: 'gemini', inputPer1M: 0.075, outputPer1M: 0.30 }, // pricing verified externally
+  'gemini-2.5-pro': { provider: 'gemini', inputPer1M: 1.25, outputPer1M: 5.00 }, // pricing verified externally
+  'gemini-2.5-flash-lite': { provider: 'gemini', inputPer1M: 0.05, outputPer1M: 0.20 }, // pricing verified externally
+};
+
+/**
+ * Unknown models are estimated at the highest known rate so estimates never
+ * undershoot; record_llm_usage refuses to bill them at all
+ */
+export function rateFor(model: string): ModelRate {
+  return MODEL_RATES[model] ?? MODEL_RATES['gpt-4o'];
+}
+
+export function costForTokens(model: string, inputTokens: number, outputTokens: number): number {
+  const rate = rateFor(model);
+  return (inputTokens * rate.inputPer1M + outputTokens * rate.outputPer1M) / 1_000_000;
+}
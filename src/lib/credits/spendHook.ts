@@ -1,4 +1,5 @@
 import { supabase } from '@/lib/supabase';
+import { costForTokens } from './rates';
 
 export async function spendCredits(amount: number, reason: string): Promise<void> {
   try {
@@ -15,8 +16,8 @@ export async function spendCredits(amount: number, reason: string): Promise<void
     }
 
     const { error } = await supabase.rpc('spend_credits', {
-      amount,
-      reason
+      p_amount_usd: amount,
+      p_reason: reason
     });
 
     if (error) {
@@ -58,14 +59,7 @@ async function createLowCreditAnnouncement(): Promise<void> {
   }
 }
 
+/** @deprecated use costForTokens from ./rates (kept for existing callers) */
 export function calculateCost(model: string, inputTokens: number, outputTokens: number): number {
-  const rates: Record<string, { input: number; output: number }> = {
-    'gpt-4o-mini': { input: 0.15 / 1_000_000, output: 0.60 / 1_000_000 },
-    'gpt-4o': { input: 2.50 / 1_000_000, output: 10.00 / 1_000_000 },
-    'gemini-2.5-flash': { input: 0.075 / 1_000_000, output: 0.30 / 1_000_000 }, // pricing verified externally
-    'gemini-2.5-pro': { input: 1.25 / 1_000_000, output: 5.00 / 1_000_000 } // pricing verified externally
-  };
-
-  const rate = rates[model] || rates['gpt-4o-mini'];
-  return (inputTokens * rate.input) + (outputTokens * rate.output);
+  return costForTokens(model, inputTokens, outputTokens);
 }
@@ -0,0 +1,72 @@
+import { supabase } from '../supabase';
+
+/** One metered LLM call, as stored in llm_usage */
+export interface UsageRow {
+  created_at: string;
+  provider: string;
+  model: string;
+  intent: string | null;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+}
+
+export interface UsageBucket {
+  key: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface UsageSummary {
+  totalUsd: number;
+  byDay: UsageBucket[];
+  byIntent: UsageBucket[];
+  byModel: UsageBucket[];
+}
+
+function bucketize(rows: UsageRow[], keyOf: (row: UsageRow) => string): UsageBucket[] {
+  const buckets = new Map<string, UsageBucket>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    const bucket = buckets.get(key) ?? { key, calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+    bucket.calls++;
+    bucket.inputTokens += row.input_tokens;
+    bucket.outputTokens += row.output_tokens;
+    bucket.costUsd += Number(row.cost_usd);
+    buckets.set(key, bucket);
+  }
+  return Array.from(buckets.values());
+}
+
+/** Day keys use the viewer's local date */
+function localDay(iso: string): string {
+  const d = new Date(iso);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+export function summarizeUsage(rows: UsageRow[]): UsageSummary {
+  const byCost = (a: UsageBucket, b: UsageBucket) => b.costUsd - a.costUsd;
+  return {
+    totalUsd: rows.reduce((sum, r) => sum + Number(r.cost_usd), 0),
+    byDay: bucketize(rows, r => localDay(r.created_at)).sort((a, b) => b.key.localeCompare(a.key)),
+    byIntent: bucketize(rows, r => r.intent || 'other').sort(byCost),
+    byModel: bucketize(rows, r => r.model).sort(byCost)
+  };
+}
+
+export async function getUsageSince(userId: string, since: Date): Promise<UsageRow[]> {
+  const { data, error } = await supabase
+    .from('llm_usage')
+    .select('created_at, provider, model, intent, input_tokens, output_tokens, cost_usd')
+    .eq('user_id', userId)
+    .gte('created_at', since.toISOString())
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('[usage] Error fetching usage:', error);
+    return [];
+  }
+  return data || [];
+}
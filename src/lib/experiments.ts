@@ -0,0 +1,126 @@
+import { getSupabase } from './supabase';
+import type { Variant, VariantAssignment } from '../core/swarm/rollout';
+
+export type PromptVariant = VariantAssignment & { prompt_ref: string };
+
+export interface TurnVariantRow {
+  id: string;
+  user_id: string;
+  session_id: string | null;
+  message_id: string | null;
+  swarm_id: string;
+  experiment_key: string | null;
+  version_id: string | null;
+  variant: Variant;
+  prompt_variants: PromptVariant[];
+  intent: string | null;
+  model: string | null;
+  /** Summed from llm_usage for the turn by the server; never sent by the client */
+  cost_usd: number;
+  started_at: string | null;
+  latency_ms: number | null;
+  has_verify: boolean;
+  outcome: 'confirmed' | 'cancelled' | null;
+  edited: boolean;
+  thumbs: -1 | 1 | null;
+  created_at: string;
+}
+
+/** variant comes from the user's stored assignment on the server, never from the client */
+export type TurnVariantInsert = Pick<TurnVariantRow, 'id' | 'swarm_id' | 'experiment_key' | 'version_id' | 'prompt_variants'> &
+  Partial<Pick<TurnVariantRow, 'session_id' | 'message_id' | 'intent' | 'model' | 'started_at' | 'latency_ms' | 'has_verify'>>;
+
+export type TurnOutcome = Partial<Pick<TurnVariantRow, 'outcome' | 'edited' | 'thumbs'>>;
+
+// ========== ASSIGNMENT ==========
+
+/** Bucket the signed-in user on the server (assign_experiment), which also stores the assignment */
+async function assignExperiment(kind: 'swarm' | 'prompt', target: string): Promise<VariantAssignment | null> {
+  const { data, error } = await getSupabase().rpc('assign_experiment', { p_kind: kind, p_target: target });
+  if (error) throw new Error(`Failed to assign experiment variant: ${error.message}`);
+  return (data as VariantAssignment | null) ?? null;
+}
+
+/**
+ * The published swarm version the signed-in user is bucketed into, with its
+ * manifest. Null when the swarm has no published versions.
+ */
+export async function resolveSwarmVariant(
+  swarmId: string
+): Promise<{ assignment: VariantAssignment; manifest: Record<string, unknown> } | null> {
+  const assignment = await assignExperiment('swarm', swarmId);
+  if (!assignment) return null;
+
+  const { data, error } = await getSupabase()
+    .from('swarm_versions')
+    .select('manifest')
+    .eq('id', assignment.version_id)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load swarm version: ${error.message}`);
+  return data ? { assignment, manifest: (data.manifest as Record<string, unknown>) ?? {} } : null;
+}
+
+/** The published prompt version the signed-in user is bucketed into for an agent */
+export async function resolvePromptVariant(
+  promptRef: string
+): Promise<{ content: string; assignment: PromptVariant } | null> {
+  const assignment = await assignExperiment('prompt', promptRef);
+  if (!assignment) return null;
+
+  const { data, error } = await getSupabase()
+    .from('agent_prompts')
+    .select('content')
+    .eq('id', assignment.version_id)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load prompt version: ${error.message}`);
+  return data?.content ? { content: data.content as string, assignment: { ...assignment, prompt_ref: promptRef } } : null;
+}
+
+// ========== TURNS ==========
+
+/**
+ * The caller picks the id so the turn can be referenced before the insert lands.
+ * record_chat_turn takes the variants from the user's stored assignments.
+ */
+export async function recordTurnVariant(turn: TurnVariantInsert): Promise<void> {
+  const { error } = await getSupabase().rpc('record_chat_turn', {
+    p_id: turn.id,
+    p_swarm_id: turn.swarm_id,
+    p_experiment_key: turn.experiment_key,
+    p_version_id: turn.version_id,
+    p_prompt_variants: turn.prompt_variants,
+    p_session_id: turn.session_id ?? null,
+    p_message_id: turn.message_id ?? null,
+    p_intent: turn.intent ?? null,
+    p_model: turn.model ?? null,
+    p_started_at: turn.started_at ?? null,
+    p_latency_ms: turn.latency_ms ?? null,
+    p_has_verify: turn.has_verify ?? false
+  });
+  if (error) throw new Error(`Failed to record turn variant: ${error.message}`);
+}
+
+/** A verify outcome is only kept once, on turns that showed a verify card */
+export async function recordTurnOutcome(turnId: string, outcome: TurnOutcome): Promise<void> {
+  const { error } = await getSupabase().rpc('record_chat_turn_outcome', {
+    p_turn_id: turnId,
+    p_outcome: outcome.outcome ?? null,
+    p_edited: outcome.edited ?? null,
+    p_thumbs: outcome.thumbs ?? null
+  });
+  if (error) throw new Error(`Failed to record turn outcome: ${error.message}`);
+}
+
+/** Admin only (RLS): tagged turns for one swarm over the last `days` days */
+export async function listTurnVariants(swarmId: string, days = 30): Promise<TurnVariantRow[]> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+  const { data, error } = await getSupabase()
+    .from('chat_turn_variants')
+    .select('*')
+    .eq('swarm_id', swarmId)
+    .gte('created_at', since)
+    .order('created_at', { ascending: false })
+    .limit(5000);
+  if (error) throw new Error(`Failed to load turn variants: ${error.message}`);
+  return (data as TurnVariantRow[]) ?? [];
+}
@@ -41,9 +41,8 @@ const DEFAULT_FLAGS: Record<FeatureFlag, FeatureFlagConfig> = {
     allowedRoles: ['admin', 'beta']
   },
   MEMORY_UI_ENABLED: {
-    enabled: false,
-    rolloutPercentage: 0,
-    allowedRoles: ['admin']
+    enabled: true,
+    rolloutPercentage: 100
   },
   ADMIN_PROMPT_EDITOR_ENABLED: {
     enabled: false,
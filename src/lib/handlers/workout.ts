@@ -0,0 +1,44 @@
+/**
+ * Workout Intent Handlers
+ * Pure business logic for workout logging from chat
+ * No UI coupling - handlers return data only
+ */
+
+import { getSupabase } from '../supabase';
+import { describeExercise, type WorkoutVerifyData } from '../../core/workout/workoutParser';
+
+export interface WorkoutLogResult {
+  ok: boolean;
+  workoutLogId?: string;
+  error?: string;
+}
+
+/**
+ * Handle a confirmed workout verify card - write its totals to workout_logs
+ */
+export async function handleWorkoutLog(userId: string, verify: WorkoutVerifyData): Promise<WorkoutLogResult> {
+  if (!verify.exercises.length) {
+    return { ok: false, error: 'No exercises to log' };
+  }
+
+  const { data, error } = await getSupabase()
+    .from('workout_logs')
+    .insert({
+      user_id: userId,
+      workout_date: verify.performed_on,
+      duration_minutes: verify.summary.estimated_duration_min,
+      workout_type: verify.summary.workout_type,
+      exercises_completed: verify.summary.exercises_completed,
+      volume_lbs: verify.summary.volume_lbs || null,
+      notes: verify.exercises.map(describeExercise).join('; ')
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('[handleWorkoutLog] Error inserting workout_log:', error);
+    return { ok: false, error: error.message };
+  }
+
+  return { ok: true, workoutLogId: data.id };
+}
@@ -1,93 +1,379 @@
 /**
  * Time & Meal Slot Parser
  * Phase 8: Parses natural language timestamps for meal logging
+ *
+ * Understands explicit times ("at 9 AM", "7:30pm", "noon"), ranges ("between 7 and 8am"),
+ * relative times ("2 hours ago", "this morning", "last night"), days ("yesterday",
+ * "Monday's dinner", "on 3/14", "March 14") and several meals in one message
+ * ("breakfast was X, lunch was Y"). Wall-clock times resolve in the user's timezone.
  */
 
+import { addDays, compareDays, resolveTimeZone, zonedDate, zonedParts, type CalendarDay } from '../time/zoned';
+
+export type MealSlotName = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+
 export interface ParsedTime {
   date: Date;
-  mealSlot?: 'breakfast' | 'lunch' | 'dinner' | 'snack';
+  mealSlot?: MealSlotName;
   explicit: boolean; // true if user specified time explicitly
+  /** Set for "between 7 and 8am"; `date` is the start */
+  range?: { start: Date; end: Date };
+}
+
+export interface MealTimeGroup extends ParsedTime {
+  /** Food text for this meal with the time phrases removed */
+  text: string;
+}
+
+// Slot words with their default meal times
+const SLOT_WORDS: Record<string, { slot: MealSlotName; hour: number }> = {
+  breakfast: { slot: 'breakfast', hour: 8 },
+  brunch: { slot: 'breakfast', hour: 10 },
+  lunch: { slot: 'lunch', hour: 12 },
+  dinner: { slot: 'dinner', hour: 18 },
+  supper: { slot: 'dinner', hour: 18 },
+  snack: { slot: 'snack', hour: 15 },
+  dessert: { slot: 'snack', hour: 20 },
+};
+
+const SLOT_ALT = Object.keys(SLOT_WORDS).join('|');
+
+// Parts of day without a clock time
+const PARTS_OF_DAY: Array<{ re: RegExp; hour: number; dayOffset: number; slot?: MealSlotName }> = [
+  { re: /\blast\s+night\b/, hour: 20, dayOffset: -1, slot: 'dinner' },
+  { re: /\bthis\s+morning\b/, hour: 8, dayOffset: 0 },
+  { re: /\bthis\s+afternoon\b/, hour: 14, dayOffset: 0 },
+  { re: /\bthis\s+evening\b|\btonight\b/, hour: 19, dayOffset: 0 },
+  { re: /\bin\s+the\s+morning\b|\bmorning\b/, hour: 8, dayOffset: 0 },
+  { re: /\bin\s+the\s+afternoon\b|\bafternoon\b/, hour: 14, dayOffset: 0 },
+  { re: /\bin\s+the\s+evening\b|\bevening\b/, hour: 19, dayOffset: 0 },
+];
+
+// Full names only: "sun", "sat", "wed" are too often ordinary words
+const WEEKDAY_NAMES: Record<string, number> = {
+  sunday: 0, monday: 1, tuesday: 2, tues: 2, wednesday: 3, thursday: 4, thurs: 4, friday: 5, saturday: 6,
+};
+
+const MONTHS: Record<string, number> = {
+  jan: 1, january: 1, feb: 2, february: 2, mar: 3, march: 3, apr: 4, april: 4, may: 5, jun: 6, june: 6,
+  jul: 7, july: 7, aug: 8, august: 8, sep: 9, sept: 9, september: 9, oct: 10, october: 10,
+  nov: 11, november: 11, dec: 12, december: 12,
+};
+
+const MONTH_ALT = Object.keys(MONTHS).sort((a, b) => b.length - a.length).join('|');
+const WEEKDAY_ALT = Object.keys(WEEKDAY_NAMES).sort((a, b) => b.length - a.length).join('|');
+
+const CLOCK = String.raw`(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)?`;
+
+// "at 6 oz" is a portion, not a time
+const NOT_A_PORTION = String.raw`(?![\d/]|\s*(?:oz|ounces?|g|grams?|lbs?|pounds?|cups?|tbsp|tsp|ml|slices?|pieces?|eggs?|%)\b)`;
+
+const PATTERNS = {
+  ago: /\b(?:about\s+|around\s+)?(\d+(?:\.\d+)?|an?|one|two|three|four|five|six|half\s+an?)\s*(hours?|hrs?|h|minutes?|mins?|m)\s+ago\b/,
+  isoDate: /\b(?:on\s+)?(\d{4})-(\d{1,2})-(\d{1,2})\b/,
+  slashDateWithYear: /\b(?:on\s+)?(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})\b/,
+  slashDate: /\bon\s+(\d{1,2})\/(\d{1,2})\b/,
+  monthDay: new RegExp(String.raw`\b(?:on\s+)?(${MONTH_ALT})\.?\s+(\d{1,2})(?:st|nd|rd|th)?(?:,?\s*(\d{4}))?\b`),
+  dayMonth: new RegExp(String.raw`\b(?:on\s+)?(?:the\s+)?(\d{1,2})(?:st|nd|rd|th)?\s+(?:of\s+)?(${MONTH_ALT})\b(?:,?\s*(\d{4}))?`),
+  dayBeforeYesterday: /\b(?:the\s+)?day\s+before\s+yesterday(?:'s)?\b/,
+  yesterday: /\byesterday(?:'s)?\b/,
+  today: /\btoday(?:'s)?\b/,
+  weekday: new RegExp(String.raw`\b(?:(last|this\s+past|past|on)\s+)?(${WEEKDAY_ALT})(?:'s)?\b`),
+  range: new RegExp(String.raw`\b(?:between\s+${CLOCK}\s+and\s+${CLOCK}|from\s+${CLOCK}\s+(?:to|until|till)\s+${CLOCK}|${CLOCK}\s*(?:-|–|to)\s*(\d{1,2})(?::(\d{2}))?\s*(am|pm))\b`),
+  clockAt: new RegExp(String.raw`(?:\b(?:at|around|by)\s+|@\s*)${CLOCK}${NOT_A_PORTION}`),
+  clockBare: /\b(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)(?!\w)|\b(\d{1,2}):(\d{2})\b/,
+  noon: /\b(?:at\s+|around\s+)?(noon|midday|midnight)\b/,
+  slotLead: new RegExp(String.raw`(?:^|[,;.:]\s*|\b(?:and|then|also)\s+)(?:(?:for|at)\s+)?(?:my\s+)?(?:(?:${WEEKDAY_ALT}|yesterday|today)(?:'s)?\s+)?(${SLOT_ALT})\b\s*(?:was|were|is|:|,|i\s+had|i\s+ate|had|ate)`, 'g'),
+  slotTrail: new RegExp(String.raw`\b(?:for|at|during|with)\s+(?:my\s+)?(${SLOT_ALT})\b`, 'g'),
+  slotWord: new RegExp(String.raw`\b(${SLOT_ALT})\b`),
+  // Slot phrases that name the meal rather than a food ("breakfast burrito" is a food)
+  slotPhrase: new RegExp([
+    String.raw`\b(?:for|at|during|with)\s+(?:my\s+)?(?:${SLOT_ALT})\b`,
+    String.raw`\b(?:my\s+)?(?:${SLOT_ALT})\s*(?:was|were|is|:)`,
+    String.raw`\b(?:(?:(?:last|this\s+past|past|on)\s+)?(?:${WEEKDAY_ALT}|yesterday|today|last|this)(?:'s)?\s+)(?:${SLOT_ALT})\b\s*(?:was|were|is|:|,)?`,
+    String.raw`^\s*(?:my\s+)?(?:${SLOT_ALT})\b\s*(?:was|were|is|:|,)?`,
+    String.raw`\b(?:${SLOT_ALT})\s*$`,
+  ].join('|'), 'g'),
+};
+
+interface Clock {
+  hour: number;
+  minute: number;
+  meridiem: 'am' | 'pm' | null;
+}
+
+interface SegmentTime {
+  day: CalendarDay | null;       // Explicit day reference
+  clock: Clock | null;
+  rangeEnd: Clock | null;
+  slot: { slot: MealSlotName; hour: number } | null;
+  partOfDay: { hour: number; slot?: MealSlotName } | null;
+  agoMs: number | null;
+}
+
+function meridiemOf(raw: string | undefined): 'am' | 'pm' | null {
+  if (!raw) return null;
+  return raw.startsWith('p') ? 'pm' : 'am';
+}
+
+function clockFrom(h: string | undefined, m: string | undefined, mer: string | undefined): Clock | null {
+  if (h === undefined) return null;
+  const hour = parseInt(h, 10);
+  const minute = m ? parseInt(m, 10) : 0;
+  if (hour > 23 || minute > 59) return null;
+  return { hour, minute, meridiem: meridiemOf(mer) };
 }
 
 /**
- * Parses time from user message
- * Examples:
- * - "at 9 AM today" → today 9:00
- * - "for breakfast" → today with breakfast default time
- * - "last night at 10 PM" → yesterday 22:00
- * - "yesterday lunch" → yesterday with lunch default time
+ * 24h hour, using the slot or part of day when no am/pm was given
  */
-export function parseMealTime(userMessage: string, userTimezone?: string): ParsedTime {
-  const lowerMsg = userMessage.toLowerCase();
-  const now = new Date();
+function to24h(clock: Clock, hint: { slot?: MealSlotName; partHour?: number }): number {
+  let { hour } = clock;
+  if (clock.meridiem === 'pm' && hour < 12) return hour + 12;
+  if (clock.meridiem === 'am') return hour === 12 ? 0 : hour;
+  if (hour >= 12) return hour;
 
-  // Default meal slot times
-  const slotDefaults = {
-    breakfast: 8,  // 8 AM
-    lunch: 12,     // 12 PM
-    dinner: 18,    // 6 PM
-    snack: 15      // 3 PM
-  };
-
-  // Pattern 1: Explicit time "at 9 AM", "at 2:30 PM"
-  const timeMatch = lowerMsg.match(/at\s+(\d{1,2})(?::(\d{2}))?\s*(am|pm)?/i);
-  if (timeMatch) {
-    let hour = parseInt(timeMatch[1]);
-    const minute = timeMatch[2] ? parseInt(timeMatch[2]) : 0;
-    const meridiem = timeMatch[3]?.toLowerCase();
-
-    // Convert to 24h format
-    if (meridiem === 'pm' && hour < 12) hour += 12;
-    if (meridiem === 'am' && hour === 12) hour = 0;
-
-    // Check for day indicators
-    const date = new Date(now);
-    if (/yesterday|last\s+night/.test(lowerMsg)) {
-      date.setDate(date.getDate() - 1);
-    }
+  if (hint.slot === 'dinner' || (hint.partHour !== undefined && hint.partHour >= 14)) return hour + 12;
+  if (hint.slot === 'lunch' && hour <= 5) return hour + 12;
+  if (hint.slot === 'breakfast') return hour;
+  if (hour <= 5) hour += 12; // "at 5" for a meal is far more often 5 PM
+  return hour;
+}
+
+function agoToMs(amount: string, unit: string): number {
+  const words: Record<string, number> = { a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6 };
+  const n = /^half/.test(amount) ? 0.5 : words[amount] ?? parseFloat(amount);
+  const minutes = /^h/.test(unit) ? n * 60 : n;
+  return minutes * 60_000;
+}
 
-    date.setHours(hour, minute, 0, 0);
+function validDay(year: number, month: number, day: number): CalendarDay | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const d = new Date(Date.UTC(year, month - 1, day));
+  return d.getUTCMonth() === month - 1 ? { year, month, day } : null;
+}
 
-    return {
-      date,
-      explicit: true
-    };
+/**
+ * Dates without a year are the most recent occurrence
+ */
+function pastDay(today: CalendarDay, month: number, day: number, year?: string): CalendarDay | null {
+  if (year) {
+    const y = year.length === 2 ? 2000 + parseInt(year, 10) : parseInt(year, 10);
+    return validDay(y, month, day);
   }
+  const candidate = validDay(today.year, month, day);
+  if (candidate && compareDays(candidate, today) > 0) return validDay(today.year - 1, month, day);
+  return candidate;
+}
 
-  // Pattern 2: Meal slots "for breakfast", "at breakfast", "breakfast at"
-  for (const [slot, defaultHour] of Object.entries(slotDefaults)) {
-    const slotPattern = new RegExp(`\\b(for|at)?\\s*${slot}\\b`, 'i');
-    if (slotPattern.test(lowerMsg)) {
-      const date = new Date(now);
+/**
+ * Extract every time signal in one segment of the message
+ */
+function readSegment(text: string, today: CalendarDay, todayWeekday: number): SegmentTime {
+  const out: SegmentTime = { day: null, clock: null, rangeEnd: null, slot: null, partOfDay: null, agoMs: null };
+
+  const ago = text.match(PATTERNS.ago);
+  if (ago) out.agoMs = agoToMs(ago[1].replace(/\s+/g, ' '), ago[2]);
+
+  let m: RegExpMatchArray | null;
+  if ((m = text.match(PATTERNS.isoDate))) {
+    out.day = validDay(+m[1], +m[2], +m[3]);
+  } else if ((m = text.match(PATTERNS.slashDateWithYear))) {
+    out.day = pastDay(today, +m[1], +m[2], m[3]);
+  } else if ((m = text.match(PATTERNS.slashDate))) {
+    out.day = pastDay(today, +m[1], +m[2]);
+  } else if ((m = text.match(PATTERNS.monthDay))) {
+    out.day = pastDay(today, MONTHS[m[1]], +m[2], m[3]);
+  } else if ((m = text.match(PATTERNS.dayMonth))) {
+    out.day = pastDay(today, MONTHS[m[2]], +m[1], m[3]);
+  } else if (PATTERNS.dayBeforeYesterday.test(text)) {
+    out.day = addDays(today, -2);
+  } else if (PATTERNS.yesterday.test(text)) {
+    out.day = addDays(today, -1);
+  } else if (PATTERNS.today.test(text)) {
+    out.day = today;
+  } else if ((m = text.match(PATTERNS.weekday))) {
+    const target = WEEKDAY_NAMES[m[2]];
+    let back = (todayWeekday - target + 7) % 7;
+    if (back === 0 && m[1] && m[1] !== 'on') back = 7; // "last monday" said on a Monday
+    out.day = addDays(today, -back);
+  }
 
-      // Check for day indicators
-      if (/yesterday/.test(lowerMsg)) {
-        date.setDate(date.getDate() - 1);
+  for (const part of PARTS_OF_DAY) {
+    if (part.re.test(text)) {
+      out.partOfDay = { hour: part.hour, slot: part.slot };
+      if (part.dayOffset !== 0 && !out.day) out.day = addDays(today, part.dayOffset);
+      break;
+    }
+  }
+
+  const range = text.match(PATTERNS.range);
+  if (range) {
+    const g = range.slice(1);
+    const [start, end] =
+      g[0] !== undefined ? [clockFrom(g[0], g[1], g[2]), clockFrom(g[3], g[4], g[5])]
+      : g[6] !== undefined ? [clockFrom(g[6], g[7], g[8]), clockFrom(g[9], g[10], g[11])]
+      : [clockFrom(g[12], g[13], g[14]), clockFrom(g[15], g[16], g[17])];
+    if (start && end) {
+      // "11-1pm": start takes end's meridiem unless that would put it after the end
+      if (!start.meridiem && end.meridiem) {
+        start.meridiem = end.meridiem === 'pm' && start.hour > end.hour && start.hour < 12 ? 'am' : end.meridiem;
       }
+      out.clock = start;
+      out.rangeEnd = end;
+    }
+  }
+
+  if (!out.clock) {
+    const noon = text.match(PATTERNS.noon);
+    const at = text.match(PATTERNS.clockAt);
+    const bare = text.match(PATTERNS.clockBare);
+    if (noon) {
+      out.clock = { hour: noon[1] === 'midnight' ? 0 : 12, minute: 0, meridiem: noon[1] === 'midnight' ? 'am' : 'pm' };
+    } else if (at) {
+      out.clock = clockFrom(at[1], at[2], at[3]);
+    } else if (bare) {
+      out.clock = bare[1] !== undefined ? clockFrom(bare[1], bare[2], bare[3]) : clockFrom(bare[4], bare[5], undefined);
+    }
+  }
+
+  const slotPhrase = text.match(new RegExp(PATTERNS.slotPhrase.source));
+  const slotWord = slotPhrase?.[0].match(PATTERNS.slotWord);
+  if (slotWord) out.slot = SLOT_WORDS[slotWord[1]];
+
+  return out;
+}
+
+/**
+ * Remove every time and slot phrase, leaving the food text
+ */
+export function stripTimePhrases(text: string): string {
+  let s = text;
+  const removals: RegExp[] = [
+    PATTERNS.ago, PATTERNS.isoDate, PATTERNS.slashDateWithYear, PATTERNS.slashDate, PATTERNS.monthDay,
+    PATTERNS.dayMonth, PATTERNS.dayBeforeYesterday, PATTERNS.yesterday, PATTERNS.today, PATTERNS.weekday,
+    PATTERNS.range, PATTERNS.noon, PATTERNS.clockAt, PATTERNS.clockBare,
+    ...PARTS_OF_DAY.map(p => p.re),
+  ];
+  s = s.replace(PATTERNS.slotPhrase, ' ');
+  for (const re of removals) {
+    s = s.replace(new RegExp(re.source, re.flags.includes('g') ? re.flags : re.flags + 'g'), ' ');
+  }
+  return s
+    .replace(/\s+/g, ' ')
+    .replace(/^(?:[\s,;:.-]|and\b|then\b|also\b|on\b|was\b|were\b)+/, '')
+    .replace(/(?:[\s,;:-]|\band|\bthen|\bon)+$/, '')
+    .trim();
+}
 
-      date.setHours(defaultHour, 0, 0, 0);
+interface SlotMarker {
+  index: number;
+  end: number;
+  lead: boolean;
+}
 
-      return {
-        date,
-        mealSlot: slot as any,
-        explicit: false
-      };
+/**
+ * Positions where a new meal starts ("breakfast was", "for lunch I had") or ends ("... for dinner")
+ */
+function findSlotMarkers(text: string): SlotMarker[] {
+  const markers: SlotMarker[] = [];
+  for (const m of text.matchAll(PATTERNS.slotLead)) {
+    const offset = m[0].search(/\S/) + (/^[,;.]/.test(m[0]) ? 1 : 0);
+    markers.push({ index: (m.index ?? 0) + Math.max(0, offset), end: (m.index ?? 0) + m[0].length, lead: true });
+  }
+  for (const m of text.matchAll(PATTERNS.slotTrail)) {
+    const index = m.index ?? 0;
+    if (!markers.some(k => index < k.end && index + m[0].length > k.index)) {
+      markers.push({ index, end: index + m[0].length, lead: false });
     }
   }
+  return markers.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Split a message into one text span per meal
+ */
+function splitMeals(text: string): { preamble: string; spans: string[] } {
+  const markers = findSlotMarkers(text);
+  if (markers.length < 2) return { preamble: '', spans: [text] };
 
-  // Pattern 3: Relative time "last night" without explicit time
-  if (/last\s+night/.test(lowerMsg)) {
-    const date = new Date(now);
-    date.setDate(date.getDate() - 1);
-    date.setHours(20, 0, 0, 0); // 8 PM default
-    return { date, explicit: false };
+  if (markers[0].lead) {
+    const preamble = text.slice(0, markers[0].index);
+    const spans = markers.map((k, i) => text.slice(k.index, markers[i + 1]?.index ?? text.length));
+    return { preamble, spans };
   }
 
-  // Default: current time
-  return {
-    date: now,
-    explicit: false
-  };
+  const spans = markers.map((k, i) => text.slice(i === 0 ? 0 : markers[i - 1].end, k.end));
+  const tail = text.slice(markers[markers.length - 1].end);
+  spans[spans.length - 1] += tail;
+  return { preamble: '', spans };
+}
+
+/**
+ * Parses every meal in a message
+ * Examples:
+ * - "breakfast was oatmeal, lunch was a salad" → two groups, today 8:00 and 12:00
+ * - "Monday's dinner was pasta" → last Monday 18:00
+ * - "2 eggs 2 hours ago" → now minus 2 hours
+ * - "between 7 and 8am yesterday" → yesterday 7:00 with range to 8:00
+ */
+export function parseMealTimes(userMessage: string, userTimezone?: string, now: Date = new Date()): MealTimeGroup[] {
+  const timeZone = resolveTimeZone(userTimezone);
+  const lowerMsg = (userMessage ?? '').toLowerCase().replace(/[’‘]/g, "'");
+  const nowParts = zonedParts(now, timeZone);
+  const today: CalendarDay = { year: nowParts.year, month: nowParts.month, day: nowParts.day };
+
+  const { preamble, spans } = splitMeals(lowerMsg);
+  let inheritedDay = preamble ? readSegment(preamble, today, nowParts.weekday).day : null;
+
+  return spans.map((span) => {
+    const seg = readSegment(span, today, nowParts.weekday);
+    const text = stripTimePhrases(span) || span.trim();
+
+    if (seg.agoMs !== null) {
+      return { text, date: new Date(now.getTime() - seg.agoMs), mealSlot: seg.slot?.slot, explicit: true };
+    }
+
+    const day = seg.day ?? inheritedDay;
+    inheritedDay = day;
+
+    const slot = seg.slot?.slot ?? seg.partOfDay?.slot;
+    const hint = { slot, partHour: seg.partOfDay?.hour };
+
+    if (seg.clock) {
+      const start = zonedDate(day ?? today, to24h(seg.clock, hint), seg.clock.minute, timeZone);
+      const parsed: MealTimeGroup = { text, date: start, mealSlot: slot, explicit: true };
+      if (seg.rangeEnd) {
+        parsed.range = { start, end: zonedDate(day ?? today, to24h(seg.rangeEnd, hint), seg.rangeEnd.minute, timeZone) };
+      }
+      return parsed;
+    }
+
+    const defaultHour = seg.slot?.hour ?? seg.partOfDay?.hour;
+    if (defaultHour !== undefined) {
+      return { text, date: zonedDate(day ?? today, defaultHour, 0, timeZone), mealSlot: slot, explicit: false };
+    }
+
+    if (day && compareDays(day, today) !== 0) {
+      // A past day with no time: midday is the least surprising guess
+      return { text, date: zonedDate(day, 12, 0, timeZone), explicit: false };
+    }
+
+    return { text, date: now, explicit: false };
+  });
+}
+
+/**
+ * Parses time from user message (first meal when several are mentioned)
+ * Examples:
+ * - "at 9 AM today" → today 9:00
+ * - "for breakfast" → today with breakfast default time
+ * - "last night at 10 PM" → yesterday 22:00
+ * - "yesterday lunch" → yesterday with lunch default time
+ */
+export function parseMealTime(userMessage: string, userTimezone?: string, now: Date = new Date()): ParsedTime {
+  const [first] = parseMealTimes(userMessage, userTimezone, now);
+  return { date: first.date, mealSlot: first.mealSlot, explicit: first.explicit, range: first.range };
 }
 
 /**
@@ -117,3 +403,4 @@ export function formatMealTime(parsedTime: ParsedTime): string {
     }) + ` at ${timeStr}`;
   }
 }
+
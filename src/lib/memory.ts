@@ -21,6 +21,14 @@ export interface MemoryCreateInput {
   is_pii?: boolean;
 }
 
+/** Extra columns for a conflict-resolved upsert; defaults match the RPC's */
+export interface MemoryUpsertOptions {
+  tier?: 'ephemeral' | 'short_term' | 'long_term';
+  topics?: string[];
+  ttl?: string | null;
+  embedding?: number[] | null;
+}
+
 export class MemoryService {
   static async create(input: MemoryCreateInput): Promise<MemoryRow | null> {
     const supabase = getSupabase();
@@ -57,7 +65,8 @@ export class MemoryService {
     key: string,
     value: any,
     source: 'explicit' | 'inferred' | 'system',
-    confidence: number = 1.0
+    confidence: number = 1.0,
+    options: MemoryUpsertOptions = {}
   ): Promise<string | null> {
     const supabase = getSupabase();
 
@@ -66,7 +75,11 @@ export class MemoryService {
       p_key: key,
       p_new_value: value,
       p_source: source,
-      p_confidence: confidence
+      p_confidence: confidence,
+      p_tier: options.tier ?? 'long_term',
+      p_topics: options.topics ?? [],
+      p_ttl: options.ttl ?? null,
+      p_embedding: options.embedding ?? null
     });
 
     if (error) {
@@ -80,10 +93,12 @@ export class MemoryService {
   static async query(query: MemoryQuery): Promise<MemoryRow[]> {
     const supabase = getSupabase();
 
+    // Expired rows linger until the nightly purge; never return them
     let queryBuilder = supabase
       .from('user_memory')
       .select('*')
-      .eq('user_id', query.userId);
+      .eq('user_id', query.userId)
+      .or(`ttl.is.null,ttl.gt.${new Date().toISOString()}`);
 
     if (query.tier) {
       queryBuilder = queryBuilder.eq('tier', query.tier);
@@ -135,7 +150,7 @@ export class MemoryService {
 
   static async update(
     memoryId: string,
-    updates: Partial<Pick<MemoryRow, 'value' | 'confidence' | 'topics' | 'tier'>>
+    updates: Partial<Pick<MemoryRow, 'value' | 'confidence' | 'topics' | 'tier' | 'source' | 'conflict_priority' | 'embedding'>>
   ): Promise<boolean> {
     const supabase = getSupabase();
 
@@ -155,13 +170,11 @@ export class MemoryService {
     return true;
   }
 
+  /** Forget one memory through the same path as a full forget */
   static async delete(memoryId: string): Promise<boolean> {
     const supabase = getSupabase();
 
-    const { error } = await supabase
-      .from('user_memory')
-      .delete()
-      .eq('id', memoryId);
+    const { error } = await supabase.rpc('forget_user_memory', { p_memory_id: memoryId });
 
     if (error) {
       console.error('[memory-delete-failed]', error);
@@ -187,6 +200,23 @@ export class MemoryService {
     return true;
   }
 
+  /**
+   * Right-to-be-forgotten for the signed-in user: deletes their memories (or
+   * only PII-flagged ones) along with stored embeddings. Returns rows removed.
+   */
+  static async forget(piiOnly: boolean = false): Promise<number | null> {
+    const supabase = getSupabase();
+
+    const { data, error } = await supabase.rpc('forget_user_memory', { p_pii_only: piiOnly });
+
+    if (error) {
+      console.error('[memory-forget-failed]', error);
+      return null;
+    }
+
+    return data as number;
+  }
+
   static async promoteToLongTerm(memoryId: string): Promise<boolean> {
     const supabase = getSupabase();
 
@@ -0,0 +1,94 @@
+import { MemoryService } from './memory';
+import type { MemoryRow } from '../types/swarm';
+import { getEmbeddings } from '../core/router/embed';
+
+export type MemoryTier = MemoryRow['tier'];
+
+export const TOPIC_LABELS: Record<string, string> = {
+  injury: 'Injuries & health',
+  schedule: 'Schedule',
+  nutrition: 'Food',
+  training: 'Training',
+  equipment: 'Equipment',
+  goals: 'Goals',
+  other: 'Other'
+};
+
+export const TIER_LABELS: Record<MemoryTier, string> = {
+  long_term: 'Long-term',
+  short_term: 'This week or two',
+  ephemeral: 'Today'
+};
+
+const TOPIC_ORDER = Object.keys(TOPIC_LABELS);
+const TIER_ORDER: MemoryTier[] = ['long_term', 'short_term', 'ephemeral'];
+
+export interface MemoryGroup {
+  topic: string;
+  tiers: Array<{ tier: MemoryTier; memories: MemoryRow[] }>;
+}
+
+/**
+ * Group memories by their first topic, then by tier (long-term first). Each
+ * memory appears once; topics and tiers with nothing in them are left out.
+ */
+export function groupMemories(memories: MemoryRow[]): MemoryGroup[] {
+  const topicOf = (m: MemoryRow) => (m.topics[0] && TOPIC_LABELS[m.topics[0]] ? m.topics[0] : 'other');
+
+  return TOPIC_ORDER
+    .map(topic => {
+      const inTopic = memories.filter(m => topicOf(m) === topic);
+      return {
+        topic,
+        tiers: TIER_ORDER
+          .map(tier => ({ tier, memories: inTopic.filter(m => m.tier === tier) }))
+          .filter(t => t.memories.length > 0)
+      };
+    })
+    .filter(g => g.tiers.length > 0);
+}
+
+/** Everything stored about the user, minus the embedding vectors derived from it */
+export function buildMemoryExport(memories: MemoryRow[], now: Date = new Date()) {
+  return {
+    exported_at: now.toISOString(),
+    count: memories.length,
+    memories: memories.map(memory => {
+      const row = { ...memory };
+      delete row.embedding;
+      return row;
+    })
+  };
+}
+
+/**
+ * A user's correction: rewrites the fact, makes it explicit so extraction
+ * can't overwrite it, and re-embeds it so recall doesn't match the old text.
+ */
+export async function correctMemory(memory: MemoryRow, text: string): Promise<boolean> {
+  let embedding: number[] | null = null;
+  try {
+    [embedding] = await getEmbeddings([text]);
+  } catch (err) {
+    console.warn('[memory-review] Re-embedding failed; clearing stale embedding:', err);
+  }
+
+  const value = memory.value && typeof memory.value === 'object' ? { ...memory.value, text } : { text };
+  return MemoryService.update(memory.id, {
+    value,
+    source: 'explicit',
+    conflict_priority: 2,
+    confidence: 1.0,
+    embedding: embedding ?? null
+  });
+}
+
+export function downloadJson(filename: string, data: unknown): void {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
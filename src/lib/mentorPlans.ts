@@ -0,0 +1,113 @@
+import { getSupabase } from './supabase';
+import type { ComplianceEvent, MentorPlan } from '../types/food';
+
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+
+/** What a trainer fills in; ids, ownership and timestamps come from the server */
+export type MentorPlanDraft = Pick<
+  MentorPlan,
+  'plan_name' | 'daily_targets' | 'meal_schedule' | 'dietary_restrictions' | 'notes' | 'starts_on' | 'ends_on'
+>;
+
+export const COMPLIANCE_EVENT_TITLES: Record<ComplianceEvent['event_type'], string> = {
+  over_calories: 'Over calorie target',
+  under_protein: 'Protein target missed',
+  missed_meal: 'Missed meal',
+  excellent_day: 'Excellent day',
+  custom: 'Note from your coach'
+};
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_RE = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Problems that would make the server reject the plan, or make compliance
+ * checks meaningless. Empty when the draft is good to assign.
+ */
+export function validateMentorPlan(draft: MentorPlanDraft): string[] {
+  const errors: string[] = [];
+  if (!draft.plan_name.trim()) errors.push('Plan name is required');
+
+  const { kcal, protein_g, carbs_g, fat_g } = draft.daily_targets;
+  if (!(kcal > 0)) errors.push('Daily calories must be positive');
+  if (!(protein_g > 0)) errors.push('Daily protein must be positive');
+  if (carbs_g < 0 || fat_g < 0) errors.push('Carb and fat targets cannot be negative');
+
+  if (!DATE_RE.test(draft.starts_on)) errors.push('Start date must be YYYY-MM-DD');
+  if (draft.ends_on) {
+    if (!DATE_RE.test(draft.ends_on)) errors.push('End date must be YYYY-MM-DD');
+    else if (draft.ends_on < draft.starts_on) errors.push('Plan cannot end before it starts');
+  }
+
+  for (const [slot, meal] of Object.entries(draft.meal_schedule ?? {})) {
+    if (!meal) continue;
+    if (!TIME_RE.test(meal.time)) errors.push(`${slot} time must be HH:MM`);
+    if (meal.kcal < 0) errors.push(`${slot} calories cannot be negative`);
+  }
+
+  return errors;
+}
+
+/** Assigns a plan to a client, retiring any plan they already had */
+export async function assignMentorPlan(orgId: string, clientId: string, draft: MentorPlanDraft): Promise<MentorPlan> {
+  const errors = validateMentorPlan(draft);
+  if (errors.length) throw new Error(errors[0]);
+
+  const restrictions = (draft.dietary_restrictions ?? []).map(r => r.trim()).filter(Boolean);
+  const { data, error } = await getSupabase().rpc('assign_mentor_plan', {
+    p_org_id: orgId,
+    p_client_id: clientId,
+    p_plan_name: draft.plan_name.trim(),
+    p_daily_targets: draft.daily_targets,
+    p_starts_on: draft.starts_on,
+    p_ends_on: draft.ends_on || null,
+    p_meal_schedule: draft.meal_schedule && Object.keys(draft.meal_schedule).length ? draft.meal_schedule : null,
+    p_dietary_restrictions: restrictions.length ? restrictions : null,
+    p_notes: draft.notes?.trim() || null
+  });
+  if (error) throw new Error(`Failed to assign mentor plan: ${error.message}`);
+  return data as MentorPlan;
+}
+
+/** The client's current plan, if any */
+export async function getActiveMentorPlan(clientId: string): Promise<MentorPlan | null> {
+  const { data, error } = await getSupabase()
+    .from('mentor_plans')
+    .select('*')
+    .eq('client_id', clientId)
+    .eq('active', true)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load mentor plan: ${error.message}`);
+  return (data as MentorPlan | null) ?? null;
+}
+
+/** Retire a plan; the RPC applies the same trainer/admin checks as assignment */
+export async function endMentorPlan(planId: string): Promise<void> {
+  const { error } = await getSupabase().rpc('end_mentor_plan', { p_plan_id: planId });
+  if (error) throw new Error(`Failed to end mentor plan: ${error.message}`);
+}
+
+export async function listComplianceEvents(
+  userId: string,
+  opts: { limit?: number; unreadOnly?: boolean } = {}
+): Promise<ComplianceEvent[]> {
+  let query = getSupabase()
+    .from('compliance_events')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(opts.limit ?? 20);
+  if (opts.unreadOnly) query = query.is('read_at', null);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to load compliance events: ${error.message}`);
+  return (data as ComplianceEvent[]) ?? [];
+}
+
+export async function markComplianceEventsRead(eventIds: string[]): Promise<void> {
+  if (!eventIds.length) return;
+  const { error } = await getSupabase().rpc('mark_compliance_events_read', { p_event_ids: eventIds });
+  if (error) throw new Error(`Failed to mark events read: ${error.message}`);
+}
@@ -0,0 +1,150 @@
+import { getSupabase } from './supabase';
+import type { MetricAlert } from '../types/metrics';
+import {
+  evaluateAlertRules,
+  mergeAlertConfig,
+  type AlertConfig,
+  type AlertConfigOverrides,
+  type AlertHistory,
+  type AlertType
+} from '../core/alerts/rules';
+
+export interface MetricAlertRow {
+  id: string;
+  user_id: string;
+  type: AlertType;
+  severity: MetricAlert['severity'];
+  message: string;
+  dedupe_key: string;
+  data: Record<string, number | string | null>;
+  created_at: string;
+  dismissed_at: string | null;
+}
+
+/** Enough history for the 28-day chronic training window plus the acute week */
+const HISTORY_DAYS = 35;
+/** How far back persisted alerts matter for cooldowns and the alert list */
+const RECENT_ALERT_DAYS = 14;
+
+function daysBefore(now: Date, days: number): Date {
+  const d = new Date(now);
+  d.setDate(d.getDate() - days);
+  return d;
+}
+
+function isoDate(d: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+export function toMetricAlert(row: MetricAlertRow): MetricAlert {
+  return {
+    id: row.id,
+    type: row.type,
+    message: row.message,
+    severity: row.severity,
+    timestamp: new Date(row.created_at),
+    dismissed: row.dismissed_at !== null
+  };
+}
+
+// ========== CONFIG ==========
+
+export async function getAlertConfig(userId: string): Promise<AlertConfig> {
+  const { data, error } = await getSupabase()
+    .from('metric_alert_settings')
+    .select('overrides')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load alert settings: ${error.message}`);
+  return mergeAlertConfig((data?.overrides as AlertConfigOverrides) ?? null);
+}
+
+/** Replaces a user's threshold/cooldown overrides; trainers may call this for their clients */
+export async function saveAlertOverrides(userId: string, overrides: AlertConfigOverrides): Promise<void> {
+  const { error } = await getSupabase()
+    .from('metric_alert_settings')
+    .upsert({ user_id: userId, overrides, updated_at: new Date().toISOString() });
+  if (error) throw new Error(`Failed to save alert settings: ${error.message}`);
+}
+
+// ========== HISTORY ==========
+
+export async function loadAlertHistory(userId: string, now: Date = new Date()): Promise<AlertHistory> {
+  const supabase = getSupabase();
+  const since = isoDate(daysBefore(now, HISTORY_DAYS));
+
+  const [sleep, workouts, days, weights] = await Promise.all([
+    supabase.from('sleep_logs').select('sleep_date, duration_minutes, bedtime').eq('user_id', userId).gte('sleep_date', since),
+    supabase
+      .from('workout_logs')
+      .select('workout_date, duration_minutes, workout_type, volume_lbs, avg_rpe')
+      .eq('user_id', userId)
+      .gte('workout_date', since),
+    supabase.from('day_rollups').select('date, totals, targets').eq('user_id', userId).gte('date', since),
+    supabase.from('weight_logs').select('log_date, weight_lbs').eq('user_id', userId).gte('log_date', since)
+  ]);
+
+  const failed = [sleep, workouts, days, weights].find(r => r.error);
+  if (failed?.error) throw new Error(`Failed to load alert history: ${failed.error.message}`);
+
+  return {
+    sleep: (sleep.data as AlertHistory['sleep']) ?? [],
+    workouts: (workouts.data as AlertHistory['workouts']) ?? [],
+    days: (days.data as AlertHistory['days']) ?? [],
+    weights: (weights.data as AlertHistory['weights']) ?? []
+  };
+}
+
+// ========== ALERTS ==========
+
+async function listAlertRows(userId: string, now: Date): Promise<MetricAlertRow[]> {
+  const { data, error } = await getSupabase()
+    .from('metric_alerts')
+    .select('*')
+    .eq('user_id', userId)
+    .gte('created_at', daysBefore(now, RECENT_ALERT_DAYS).toISOString())
+    .order('created_at', { ascending: false });
+  if (error) throw new Error(`Failed to load alerts: ${error.message}`);
+  return (data as MetricAlertRow[]) ?? [];
+}
+
+/** Recent alerts for a user (or a trainer's client), dismissed ones included */
+export async function listMetricAlerts(userId: string, now: Date = new Date()): Promise<MetricAlert[]> {
+  return (await listAlertRows(userId, now)).map(toMetricAlert);
+}
+
+/**
+ * Evaluate the rules over the user's recent logs, persist anything new and
+ * return the current alert list. Safe to call on every dashboard load: cooldowns
+ * and the (user_id, dedupe_key) constraint keep repeats out, including against
+ * the nightly metric-alerts-evaluate run for trainers' clients.
+ */
+export async function refreshMetricAlerts(userId: string, now: Date = new Date()): Promise<MetricAlert[]> {
+  const [history, config, existing] = await Promise.all([
+    loadAlertHistory(userId, now),
+    getAlertConfig(userId),
+    listAlertRows(userId, now)
+  ]);
+
+  const candidates = evaluateAlertRules(history, now, config, existing);
+  if (!candidates.length) return existing.map(toMetricAlert);
+
+  const { error } = await getSupabase()
+    .from('metric_alerts')
+    .upsert(
+      candidates.map(c => ({ ...c, user_id: userId })),
+      { onConflict: 'user_id,dedupe_key', ignoreDuplicates: true }
+    );
+  if (error) throw new Error(`Failed to save alerts: ${error.message}`);
+
+  return listMetricAlerts(userId, now);
+}
+
+export async function dismissMetricAlert(alertId: string): Promise<void> {
+  const { error } = await getSupabase()
+    .from('metric_alerts')
+    .update({ dismissed_at: new Date().toISOString() })
+    .eq('id', alertId);
+  if (error) throw new Error(`Failed to dismiss alert: ${error.message}`);
+}
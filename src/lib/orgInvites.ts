@@ -0,0 +1,105 @@
+import { getSupabase } from './supabase';
+
+export type OrgRole = 'owner' | 'admin' | 'trainer' | 'client' | 'member';
+export type InvitationStatus = 'pending' | 'accepted' | 'declined' | 'cancelled' | 'expired';
+
+export interface OrgInvitation {
+  id: string;
+  org_id: string;
+  invited_email: string | null;
+  invited_by: string;
+  role: Exclude<OrgRole, 'owner'>;
+  status: InvitationStatus;
+  token: string;
+  created_at: string;
+  expires_at: string;
+  last_sent_at: string;
+  reminders_sent: number;
+}
+
+/** Public view of an invitation, as shown to the invitee before they respond */
+export interface InvitationPreview {
+  id: string;
+  org_id: string;
+  org_name: string | null;
+  inviter_name: string | null;
+  role: OrgInvitation['role'];
+  invited_email: string | null;
+  status: InvitationStatus;
+  expires_at: string;
+}
+
+export const INVITE_EXPIRY_DAYS = 7;
+
+/**
+ * Effective status of an invitation. Rows are not swept when they lapse, so
+ * a pending invitation past its expiry reads as expired.
+ */
+export function invitationStatus(invite: Pick<OrgInvitation, 'status' | 'expires_at'>, now = new Date()): InvitationStatus {
+  if (invite.status === 'pending' && new Date(invite.expires_at).getTime() <= now.getTime()) return 'expired';
+  return invite.status;
+}
+
+export function inviteLink(token: string, origin = window.location.origin): string {
+  return `${origin}/invite/${encodeURIComponent(token)}`;
+}
+
+/** Email is optional: without one the invitation is a shareable link */
+export async function createInvitation(
+  orgId: string,
+  opts: { email?: string | null; role?: OrgInvitation['role']; expiresDays?: number } = {}
+): Promise<OrgInvitation> {
+  const { data, error } = await getSupabase().rpc('create_org_invitation', {
+    p_org_id: orgId,
+    p_email: opts.email?.trim() || null,
+    p_role: opts.role ?? 'client',
+    p_expires_days: opts.expiresDays ?? INVITE_EXPIRY_DAYS
+  });
+  if (error) throw new Error(`Failed to create invitation: ${error.message}`);
+  return data as OrgInvitation;
+}
+
+/** Pending invitations the caller can see for an org, newest first */
+export async function listInvitations(orgId: string): Promise<OrgInvitation[]> {
+  const { data, error } = await getSupabase()
+    .from('org_invitations')
+    .select('*')
+    .eq('org_id', orgId)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: false });
+  if (error) throw new Error(`Failed to load invitations: ${error.message}`);
+  return (data as OrgInvitation[]) ?? [];
+}
+
+export async function resendInvitation(invitationId: string, expiresDays = INVITE_EXPIRY_DAYS): Promise<OrgInvitation> {
+  const { data, error } = await getSupabase().rpc('resend_org_invitation', {
+    p_invitation_id: invitationId,
+    p_expires_days: expiresDays
+  });
+  if (error) throw new Error(`Failed to resend invitation: ${error.message}`);
+  return data as OrgInvitation;
+}
+
+export async function revokeInvitation(invitationId: string): Promise<void> {
+  const { error } = await getSupabase().rpc('revoke_org_invitation', { p_invitation_id: invitationId });
+  if (error) throw new Error(`Failed to revoke invitation: ${error.message}`);
+}
+
+/** Null when the token matches no invitation */
+export async function getInvitation(token: string): Promise<InvitationPreview | null> {
+  const { data, error } = await getSupabase().rpc('get_org_invitation', { p_token: token });
+  if (error) throw new Error(`Failed to load invitation: ${error.message}`);
+  return (data as InvitationPreview | null) ?? null;
+}
+
+/** Joins the org and returns its id */
+export async function acceptInvitation(token: string): Promise<string> {
+  const { data, error } = await getSupabase().rpc('accept_org_invitation', { p_token: token });
+  if (error) throw new Error(error.message);
+  return data as string;
+}
+
+export async function declineInvitation(token: string): Promise<void> {
+  const { error } = await getSupabase().rpc('decline_org_invitation', { p_token: token });
+  if (error) throw new Error(error.message);
+}
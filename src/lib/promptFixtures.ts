@@ -0,0 +1,186 @@
+import { getSupabase } from './supabase';
+import {
+  compareSuiteRuns,
+  createRecordedClient,
+  recordingsFromRun,
+  runFixtureSuite,
+  type FixturePrompt,
+  type FixtureResult,
+  type LLMClient,
+  type PromptFixture,
+  type Recording,
+  type SuiteComparison,
+  type SuiteRun
+} from '../core/swarm/fixtureRunner';
+
+export interface FixtureRunRow {
+  id: string;
+  agent_prompt_id: string;
+  baseline_prompt_id: string | null;
+  mode: LLMClient['mode'];
+  total: number;
+  passed: number;
+  pass_rate: number;
+  baseline_pass_rate: number | null;
+  regressed: boolean;
+  results: FixtureResult[];
+  /** agent_prompts.content_hash (content + model) of the version that ran */
+  content_hash: string | null;
+  created_at: string;
+}
+
+export interface RegressionReport {
+  fixtures: PromptFixture[];
+  candidate: SuiteRun;
+  baseline: SuiteRun | null;
+  comparison: SuiteComparison;
+}
+
+type PromptRow = FixturePrompt & { agent_id: string; content_hash: string };
+
+// ========== CLIENTS ==========
+
+/**
+ * Calls openai-chat in passthrough mode: the prompt under test is the system
+ * message. Tools are off so a fixture like "I had 2 eggs" never logs a meal
+ * on the admin's own account.
+ */
+export const liveLLMClient: LLMClient = {
+  mode: 'live',
+  async complete({ system, input, model }) {
+    const { data, error } = await getSupabase().functions.invoke('openai-chat', {
+      body: {
+        messages: [
+          { role: 'system', content: system },
+          { role: 'user', content: input }
+        ],
+        model,
+        temperature: 0,
+        stream: false,
+        tools: false
+      }
+    });
+    if (error) throw new Error(`LLM call failed: ${error.message}`);
+    if (data?.tool_calls?.length) throw new Error('LLM response ran tools during a fixture replay');
+    if (typeof data?.message !== 'string') throw new Error('No message in LLM response');
+    return data.message;
+  }
+};
+
+/** Outputs captured by earlier live runs of these prompt versions */
+export async function loadRecordings(prompts: FixturePrompt[]): Promise<Recording[]> {
+  if (!prompts.length) return [];
+  const { data, error } = await getSupabase()
+    .from('prompt_fixture_runs')
+    .select('agent_prompt_id, results')
+    .in('agent_prompt_id', prompts.map(p => p.id))
+    .eq('mode', 'live')
+    .order('created_at', { ascending: false })
+    .limit(50);
+  if (error) throw new Error(`Failed to load recorded fixture runs: ${error.message}`);
+
+  const runs = (data as Array<Pick<FixtureRunRow, 'agent_prompt_id' | 'results'>>) ?? [];
+  return runs.flatMap(run => {
+    const prompt = prompts.find(p => p.id === run.agent_prompt_id);
+    return prompt ? recordingsFromRun(prompt, run.results ?? []) : [];
+  });
+}
+
+// ========== FIXTURES ==========
+
+/** Fixtures for every version of an agent, so a new draft inherits them */
+export async function listAgentFixtures(agentId: string): Promise<PromptFixture[]> {
+  const { data, error } = await getSupabase()
+    .from('prompt_fixtures')
+    .select('id, agent_prompt_id, input_text, expected_output, description, agent_prompts!inner(agent_id)')
+    .eq('agent_prompts.agent_id', agentId)
+    .order('created_at', { ascending: true });
+  if (error) throw new Error(`Failed to load prompt fixtures: ${error.message}`);
+
+  return ((data as PromptFixture[]) ?? []).map(f => ({
+    id: f.id,
+    agent_prompt_id: f.agent_prompt_id,
+    input_text: f.input_text,
+    expected_output: f.expected_output,
+    description: f.description
+  }));
+}
+
+export async function getLatestFixtureRun(promptId: string): Promise<FixtureRunRow | null> {
+  const { data, error } = await getSupabase()
+    .from('prompt_fixture_runs')
+    .select('*')
+    .eq('agent_prompt_id', promptId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load fixture run: ${error.message}`);
+  return (data as FixtureRunRow) ?? null;
+}
+
+// ========== REGRESSION ==========
+
+async function loadPromptWithBaseline(promptId: string): Promise<{ prompt: PromptRow; baseline: PromptRow | null }> {
+  const supabase = getSupabase();
+  const { data: prompt, error } = await supabase
+    .from('agent_prompts')
+    .select('id, agent_id, content, model, content_hash')
+    .eq('id', promptId)
+    .single();
+  if (error) throw new Error(`Failed to load prompt: ${error.message}`);
+
+  const { data: baseline, error: baselineError } = await supabase
+    .from('agent_prompts')
+    .select('id, agent_id, content, model, content_hash')
+    .eq('agent_id', (prompt as PromptRow).agent_id)
+    .eq('status', 'published')
+    .neq('id', promptId)
+    .order('published_at', { ascending: false, nullsFirst: false })
+    .limit(1)
+    .maybeSingle();
+  if (baselineError) throw new Error(`Failed to load published prompt: ${baselineError.message}`);
+
+  return { prompt: prompt as PromptRow, baseline: (baseline as PromptRow) ?? null };
+}
+
+/**
+ * Run a prompt version and the agent's newest published version against the
+ * agent's fixtures, and store both runs. The candidate's run is what
+ * swarm-admin-api checks before publishing.
+ */
+export async function runPromptRegression(promptId: string, mode: LLMClient['mode'] = 'live'): Promise<RegressionReport> {
+  const { prompt, baseline } = await loadPromptWithBaseline(promptId);
+  const fixtures = await listAgentFixtures(prompt.agent_id);
+
+  const client = mode === 'live'
+    ? liveLLMClient
+    : createRecordedClient(await loadRecordings(baseline ? [prompt, baseline] : [prompt]));
+
+  const candidate = await runFixtureSuite(prompt, fixtures, client);
+  const baselineRun = baseline ? await runFixtureSuite(baseline, fixtures, client) : null;
+  const comparison = compareSuiteRuns(candidate, baselineRun);
+
+  const toRow = (run: SuiteRun, source: PromptRow) => ({
+    agent_prompt_id: run.prompt_id,
+    content_hash: source.content_hash,
+    mode: run.mode,
+    total: run.total,
+    passed: run.passed,
+    pass_rate: run.pass_rate,
+    results: run.results
+  });
+
+  const rows = [
+    ...(baselineRun && baseline ? [toRow(baselineRun, baseline)] : []),
+    {
+      ...toRow(candidate, prompt),
+      baseline_prompt_id: baseline?.id ?? null,
+      baseline_pass_rate: comparison.baseline_rate,
+      regressed: comparison.regressed
+    }
+  ];
+  const { error } = await getSupabase().from('prompt_fixture_runs').insert(rows);
+  if (error) throw new Error(`Failed to record fixture runs: ${error.message}`);
+
+  return { fixtures, candidate, baseline: baselineRun, comparison };
+}
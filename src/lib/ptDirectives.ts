@@ -0,0 +1,111 @@
+import { getSupabase } from './supabase';
+import type { DirectiveTrigger, PTDirective } from '../core/directives/evaluate';
+
+/** What a trainer edits; ownership and fire stats come from the server */
+export type DirectiveDraft = Pick<
+  PTDirective,
+  'title' | 'description' | 'category' | 'priority' | 'frequency' | 'triggers' | 'pat_instructions' | 'is_active'
+>;
+
+export interface DirectiveFire {
+  id: string;
+  directive_id: string;
+  message_id: string | null;
+  session_id: string | null;
+  message_excerpt: string | null;
+  matched: DirectiveTrigger[];
+  fired_at: string;
+}
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function cleanDraft(draft: DirectiveDraft): DirectiveDraft {
+  if (!draft.title.trim()) throw new Error('Title is required');
+  if (!draft.pat_instructions.trim()) throw new Error("Pat's instructions are required");
+  return {
+    ...draft,
+    title: draft.title.trim(),
+    description: draft.description.trim(),
+    pat_instructions: draft.pat_instructions.trim(),
+    triggers: draft.triggers
+      .map(t => (t.type === 'keyword' ? { ...t, keywords: t.keywords.map(k => k.trim()).filter(Boolean) } : t))
+      .filter(t => t.type !== 'keyword' || t.keywords.length > 0)
+  };
+}
+
+export async function listDirectives(clientId: string): Promise<PTDirective[]> {
+  const { data, error } = await getSupabase()
+    .from('pt_directives')
+    .select('*')
+    .eq('client_id', clientId)
+    .order('created_at', { ascending: false });
+  if (error) throw new Error(`Failed to load directives: ${error.message}`);
+  return (data as PTDirective[]) ?? [];
+}
+
+export async function createDirective(orgId: string, clientId: string, draft: DirectiveDraft): Promise<PTDirective> {
+  const { data, error } = await getSupabase()
+    .from('pt_directives')
+    .insert({ ...cleanDraft(draft), org_id: orgId, client_id: clientId })
+    .select('*')
+    .single();
+  if (error) throw new Error(`Failed to create directive: ${error.message}`);
+  return data as PTDirective;
+}
+
+export async function updateDirective(directiveId: string, patch: Partial<DirectiveDraft>): Promise<PTDirective> {
+  const { data, error } = await getSupabase()
+    .from('pt_directives')
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .eq('id', directiveId)
+    .select('*')
+    .single();
+  if (error) throw new Error(`Failed to update directive: ${error.message}`);
+  return data as PTDirective;
+}
+
+export async function saveDirective(directive: PTDirective): Promise<PTDirective> {
+  const { title, description, category, priority, frequency, triggers, pat_instructions, is_active } = directive;
+  return updateDirective(
+    directive.id,
+    cleanDraft({ title, description, category, priority, frequency, triggers, pat_instructions, is_active })
+  );
+}
+
+export async function deleteDirective(directiveId: string): Promise<void> {
+  const { error } = await getSupabase().from('pt_directives').delete().eq('id', directiveId);
+  if (error) throw new Error(`Failed to delete directive: ${error.message}`);
+}
+
+/** Most recent fires across the client's directives, newest first */
+export async function listDirectiveFires(clientId: string, limit = 50): Promise<DirectiveFire[]> {
+  const { data, error } = await getSupabase()
+    .from('pt_directive_fires')
+    .select('id, directive_id, message_id, session_id, message_excerpt, matched, fired_at')
+    .eq('client_id', clientId)
+    .order('fired_at', { ascending: false })
+    .limit(limit);
+  if (error) throw new Error(`Failed to load directive log: ${error.message}`);
+  return (data as DirectiveFire[]) ?? [];
+}
+
+/** Weekdays the client trains (0 = Sunday), or null when not set */
+export async function getTrainingDays(orgId: string, clientId: string): Promise<number[] | null> {
+  const { data, error } = await getSupabase()
+    .from('org_members')
+    .select('training_days')
+    .eq('org_id', orgId)
+    .eq('user_id', clientId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load training days: ${error.message}`);
+  return (data?.training_days as number[] | null) ?? null;
+}
+
+export async function setTrainingDays(orgId: string, clientId: string, days: number[]): Promise<void> {
+  const { error } = await getSupabase().rpc('set_client_training_days', {
+    p_org_id: orgId,
+    p_client_id: clientId,
+    p_days: days
+  });
+  if (error) throw new Error(`Failed to save training days: ${error.message}`);
+}
@@ -0,0 +1,92 @@
+import { getSupabase } from './supabase';
+import type { OrgRole } from './orgInvites';
+
+export type RosterStatus = 'active' | 'invited' | 'inactive';
+
+/** A member of the org, or a pending email invitation standing in for one */
+export interface RosterEntry {
+  user_id: string | null;
+  invitation_id: string | null;
+  name: string;
+  email: string | null;
+  role: OrgRole;
+  status: RosterStatus;
+  trainer_id: string | null;
+  /** Joined date for members, sent date for invitations */
+  since: string | null;
+  last_sign_in_at: string | null;
+  expires_at: string | null;
+}
+
+export interface RosterQuery {
+  search?: string;
+  status?: RosterStatus | null;
+  /** Defaults to clients; null lists every role */
+  role?: OrgRole | null;
+  /** 1-based */
+  page?: number;
+  pageSize?: number;
+}
+
+export interface RosterPage {
+  entries: RosterEntry[];
+  /** Entries matching search and status filter */
+  total: number;
+  /** Per-status totals for the search alone, so filter tabs can show counts */
+  counts: Record<RosterStatus, number>;
+  page: number;
+  pageSize: number;
+  pageCount: number;
+}
+
+export const ROSTER_PAGE_SIZE = 10;
+
+interface RawRoster {
+  total?: number | string | null;
+  counts?: Partial<Record<RosterStatus, number | string>> | null;
+  entries?: RosterEntry[] | null;
+}
+
+export function toRosterPage(raw: RawRoster | null, page: number, pageSize: number): RosterPage {
+  const total = Number(raw?.total ?? 0);
+  const counts = raw?.counts ?? {};
+  return {
+    entries: raw?.entries ?? [],
+    total,
+    counts: {
+      active: Number(counts.active ?? 0),
+      invited: Number(counts.invited ?? 0),
+      inactive: Number(counts.inactive ?? 0)
+    },
+    page,
+    pageSize,
+    pageCount: Math.max(1, Math.ceil(total / pageSize))
+  };
+}
+
+/**
+ * One page of an org's roster. Trainers see only their own clients and
+ * invitations; owners and admins see everyone.
+ */
+export async function listRoster(orgId: string, query: RosterQuery = {}): Promise<RosterPage> {
+  const pageSize = query.pageSize ?? ROSTER_PAGE_SIZE;
+  const page = Math.max(1, query.page ?? 1);
+
+  const { data, error } = await getSupabase().rpc('list_org_roster', {
+    p_org_id: orgId,
+    p_search: query.search?.trim() || null,
+    p_status: query.status ?? null,
+    p_role: query.role === undefined ? 'client' : query.role,
+    p_limit: pageSize,
+    p_offset: (page - 1) * pageSize
+  });
+  if (error) throw new Error(`Failed to load roster: ${error.message}`);
+
+  return toRosterPage(data as RawRoster | null, page, pageSize);
+}
+
+/** Deactivates a membership; the row stays so history remains attributable */
+export async function revokeMember(orgId: string, userId: string): Promise<void> {
+  const { error } = await getSupabase().rpc('revoke_org_member', { p_org_id: orgId, p_user_id: userId });
+  if (error) throw new Error(`Failed to remove member: ${error.message}`);
+}
@@ -1,4 +1,5 @@
 import type { Analysis, UserFeedback, ShopLensConfig, Ingredient, Claim, Verdict } from '../types/shoplens';
+import { lookupIngredient, compareDose, normalizeDoseUnit, type IngredientProfile } from './shoplensIngredients';
 
 const DEFAULT_CONFIG: ShopLensConfig = {
   sensitivity: 70,
@@ -30,24 +31,20 @@ export function saveConfig(config: ShopLensConfig): void {
 }
 
 export async function analyzeLabel(labelText: string, config?: ShopLensConfig): Promise<Analysis> {
-  // Simulate API delay
-  await new Promise(resolve => setTimeout(resolve, 1500));
-  
   const activeConfig = config || getConfig();
-  
-  // Deterministic parsing based on input content
-  const productName = extractProductName(labelText);
-  const ingredients = parseIngredients(labelText);
-  const claims = extractClaims(labelText);
-  const { verdict, notes } = determineVerdictWithConfig(ingredients, labelText, activeConfig);
-  
+
+  const label = parseLabel(labelText ?? '');
+  const resolved = resolveIngredients(label.ingredients);
+  const claims = label.claimSentences.map(sentence => classifyClaim(sentence, resolved));
+  const { verdict, notes } = determineVerdictWithConfig(resolved, claims, labelText ?? '', activeConfig);
+
   return {
-    productName,
-    ingredients,
+    productName: label.productName,
+    ingredients: resolved.map(r => r.ingredient),
     claims,
     verdict,
     notes,
-    confidence: 0.85
+    confidence: labelConfidence(resolved, label.hasFactsPanel)
   };
 }
 
@@ -82,96 +79,432 @@ export async function fetchUserFeedback(productName: string): Promise<UserFeedba
   ];
 }
 
-// Helper functions for deterministic parsing
-function extractProductName(text: string): string {
-  // Look for common product name patterns
-  const lines = text.split('\n');
-  const firstLine = lines[0]?.trim() || 'Unknown Product';
-  return firstLine.length > 50 ? firstLine.substring(0, 47) + '...' : firstLine;
+// ---------- Label parsing ----------
+
+interface LabelIngredient {
+  name: string;
+  amount?: number;
+  unit?: string;
+  /** Member names when this entry is a proprietary blend */
+  members?: string[];
+  /** Blend this entry belongs to (dose undisclosed) */
+  blend?: string;
 }
 
-function parseIngredients(text: string): Ingredient[] {
-  // Simple deterministic parsing
-  const baseIngredients = [
-    { name: 'Whey Protein Isolate', amount: 25, unit: 'g', riskLevel: 'low' as const },
-    { name: 'Natural Flavors', riskLevel: 'low' as const },
-    { name: 'Sucralose', riskLevel: 'low' as const, notes: 'Artificial sweetener' },
-    { name: 'Lecithin', riskLevel: 'low' as const },
-    { name: 'Xanthan Gum', riskLevel: 'low' as const }
-  ];
-  
-  // Add test ingredients based on text content
-  const detectedIngredients = [...baseIngredients];
-  
-  if (text.toLowerCase().includes('yohimbine')) {
-    detectedIngredients.push({ name: 'Yohimbine HCl', amount: 2.5, unit: 'mg', riskLevel: 'high', notes: 'Stimulant - may cause side effects' });
+interface ParsedLabel {
+  productName: string;
+  ingredients: LabelIngredient[];
+  claimSentences: string[];
+  hasFactsPanel: boolean;
+}
+
+const FACTS_HEADER = /^(?:supplement|nutrition)\s+facts\b/i;
+const INGREDIENTS_HEADER = /^(?:other\s+)?ingredients?\s*:\s*(.*)$/i;
+const PANEL_META = /^(?:serving\s+size|servings\s+per|amount\s+per|%\s*daily|daily\s+value|calories|total\s+fat|saturated\s+fat|trans\s+fat|cholesterol|total\s+carbohydrates?|dietary\s+fiber|total\s+sugars|sugars|added\s+sugars|includes|protein\b)/i;
+const NON_INGREDIENT_LINE = /^(?:warnings?|caution|contains|allergen|directions|suggested\s+use|manufactured|distributed|made\s+in|store|keep\s+out|these\s+statements|\*|†)/i;
+const PANEL_ROW = /^(.+?)\s*[:-]?\s+(\d+(?:[.,]\d+)?)\s*(mcg|µg|ug|mg|g|iu)\b\s*(.*)$/i;
+const INLINE_AMOUNT = /^(.+?)\s*[:-]?\s*\(?\s*(\d+(?:[.,]\d+)?)\s*(mcg|µg|ug|mg|g|iu)\s*\)?$/i;
+const BLEND_NAME = /\b(?:proprietary|blend|matrix)\b/i;
+const CLAIM_VERB = /\b(?:supports?|promotes?|boosts?|builds?|increases?|enhances?|improves?|burns?|helps?|reduces?|maximi[sz]es?|accelerates?|fuels?|shreds?|torches?|clinically|proven|scientifically|guaranteed?)\b/i;
+
+/**
+ * Split a label into product name, ingredients (facts panel + ingredient list) and claim sentences
+ */
+function parseLabel(text: string): ParsedLabel {
+  const lines = text.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+  const nameIndex = lines.findIndex(l => !FACTS_HEADER.test(l) && !INGREDIENTS_HEADER.test(l) && !PANEL_META.test(l) && !PANEL_ROW.test(l));
+  const productName = nameIndex >= 0 ? truncateName(lines[nameIndex]) : 'Unknown Product';
+
+  const panel: LabelIngredient[] = [];
+  const listed: LabelIngredient[] = [];
+  const claimSentences: string[] = [];
+  let hasFactsPanel = false;
+  let mode: 'free' | 'panel' | 'ingredients' = 'free';
+  let openBlend: LabelIngredient | null = null;
+
+  lines.forEach((line, index) => {
+    if (index === nameIndex) return;
+
+    if (FACTS_HEADER.test(line)) {
+      hasFactsPanel = true;
+      mode = 'panel';
+      return;
+    }
+
+    const header = line.match(INGREDIENTS_HEADER);
+    if (header) {
+      mode = 'ingredients';
+      openBlend = null;
+      listed.push(...splitIngredientList(header[1]));
+      return;
+    }
+
+    if (NON_INGREDIENT_LINE.test(line)) {
+      mode = 'free';
+      return;
+    }
+
+    if (CLAIM_VERB.test(line) && !PANEL_ROW.test(line)) {
+      claimSentences.push(...splitSentences(line).filter(s => CLAIM_VERB.test(s)));
+      return;
+    }
+
+    if (mode === 'panel') {
+      if (PANEL_META.test(line)) return;
+      const row = line.match(PANEL_ROW);
+      if (row) {
+        const entry: LabelIngredient = { name: cleanName(row[1]), amount: parseAmount(row[2]), unit: row[3].toLowerCase() };
+        if (BLEND_NAME.test(row[1])) {
+          entry.members = [];
+          openBlend = entry;
+          const inline = row[4].replace(/^[:\s]+/, '');
+          if (inline) entry.members.push(...splitIngredientList(inline).map(i => i.name));
+        } else {
+          openBlend = null;
+        }
+        panel.push(entry);
+        return;
+      }
+      // Rows without a dose inside a blend are its members
+      if (openBlend) {
+        openBlend.members!.push(...splitIngredientList(line).map(i => i.name));
+        return;
+      }
+      panel.push(...splitIngredientList(line));
+      return;
+    }
+
+    if (mode === 'ingredients') {
+      listed.push(...splitIngredientList(line));
+      return;
+    }
+
+    // Unlabelled text under the product name: treat as an ingredient list
+    listed.push(...splitIngredientList(line));
+  });
+
+  return { productName, ingredients: mergeIngredients([...panel, ...listed]), claimSentences, hasFactsPanel };
+}
+
+function truncateName(line: string): string {
+  return line.length > 50 ? line.substring(0, 47) + '...' : line;
+}
+
+function parseAmount(raw: string): number {
+  return Number(raw.replace(',', '.'));
+}
+
+function cleanName(raw: string): string {
+  return raw.replace(/[*†]+/g, '').replace(/[\s:-]+$/, '').trim();
+}
+
+function splitSentences(line: string): string[] {
+  return line.split(/(?<=[.!])\s+|\s*[•|]\s*/).map(s => s.replace(/[.!]+$/, '').trim()).filter(Boolean);
+}
+
+/**
+ * Split "A, B (500mg), Blend (C, D)" at top-level commas ("1,3-Dimethylamylamine" stays whole)
+ */
+function splitIngredientList(text: string): LabelIngredient[] {
+  const tokens: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '(' || ch === '[') depth++;
+    if (ch === ')' || ch === ']') depth = Math.max(0, depth - 1);
+    const numericComma = ch === ',' && /\d/.test(text[i - 1] ?? '') && /\d/.test(text[i + 1] ?? '');
+    if ((ch === ',' || ch === ';') && depth === 0 && !numericComma) {
+      tokens.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
   }
-  
-  if (text.toLowerCase().includes('proprietary blend')) {
-    detectedIngredients.push({ name: 'Proprietary Blend', amount: 500, unit: 'mg', riskLevel: 'medium', notes: 'Undisclosed ingredient amounts' });
+  tokens.push(current);
+
+  return tokens
+    .map(t => cleanName(t).replace(/^(?:and|&)\s+/i, '').replace(/\.+$/, '').trim())
+    .filter(Boolean)
+    .map(parseIngredientToken);
+}
+
+function parseIngredientToken(token: string): LabelIngredient {
+  const paren = token.match(/^(.*?)\s*\((.*)\)\s*(.*)$/);
+  const base = paren ? `${paren[1]} ${paren[3]}`.trim() : token;
+  const inner = paren?.[2] ?? '';
+
+  const entry: LabelIngredient = { name: cleanName(base) };
+  const amount = base.match(INLINE_AMOUNT) ?? (inner ? inner.match(/^\s*()(\d+(?:[.,]\d+)?)\s*(mcg|µg|ug|mg|g|iu)\s*$/i) : null);
+  if (amount) {
+    if (amount[1]) entry.name = cleanName(amount[1]);
+    entry.amount = parseAmount(amount[2]);
+    entry.unit = amount[3].toLowerCase();
   }
-  
-  return detectedIngredients;
+
+  if (BLEND_NAME.test(base)) {
+    entry.members = inner && !amount ? splitIngredientList(inner).map(i => i.name) : [];
+  }
+  return entry;
 }
 
-function extractClaims(text: string): Claim[] {
-  const claims: Claim[] = [];
-  if (text.toLowerCase().includes('build muscle')) {
-    claims.push({ text: 'Builds lean muscle', category: 'performance', credibility: 'verified' });
+/**
+ * De-duplicate panel and list entries, keeping the one that discloses a dose
+ */
+function mergeIngredients(entries: LabelIngredient[]): LabelIngredient[] {
+  const byKey = new Map<string, LabelIngredient>();
+  const blendMembers = new Map<string, string>();
+
+  for (const entry of entries) {
+    for (const member of entry.members ?? []) blendMembers.set(identity(member), entry.name);
   }
-  if (text.toLowerCase().includes('weight loss')) {
-    claims.push({ text: 'Supports weight loss', category: 'weight', credibility: 'questionable' });
+
+  for (const entry of entries) {
+    const key = identity(entry.name);
+    const existing = byKey.get(key);
+    if (!existing || (existing.amount === undefined && entry.amount !== undefined)) {
+      byKey.set(key, { ...entry, members: entry.members ?? existing?.members });
+    }
   }
-  if (text.toLowerCase().includes('energy')) {
-    claims.push({ text: 'Boosts energy levels', category: 'performance', credibility: 'questionable' });
+
+  // Blend members become their own rows, flagged with the blend that hides their dose
+  for (const [key, blendName] of blendMembers) {
+    const existing = byKey.get(key);
+    if (existing?.amount !== undefined) continue;
+    const name = existing?.name ?? [...byKey.values()].flatMap(e => e.members ?? []).find(m => identity(m) === key) ?? key;
+    byKey.delete(key);
+    byKey.set(key, { name, blend: blendName });
   }
-  return claims;
+
+  return [...byKey.values()];
 }
 
-function determineVerdictWithConfig(ingredients: Ingredient[], labelText: string, config: ShopLensConfig): { verdict: Verdict; notes: string[] } {
-  const notes: string[] = [];
-  
-  // Check banned ingredients
-  const bannedFound = ingredients.filter(ing => 
-    config.banned.some(banned => 
-      ing.name.toLowerCase().includes(banned.toLowerCase())
-    )
-  );
-  
+function identity(name: string): string {
+  return lookupIngredient(name)?.key ?? name.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+// ---------- Knowledge base resolution ----------
+
+interface ResolvedIngredient {
+  ingredient: Ingredient;
+  profile: IngredientProfile | null;
+  isBlend: boolean;
+  blend?: string;
+  /** Disclosed dose relative to the effective dose (1 = exactly effective) */
+  doseRatio: number | null;
+  aboveUpper: boolean;
+}
+
+function resolveIngredients(entries: LabelIngredient[]): ResolvedIngredient[] {
+  return entries.map(entry => {
+    const isBlend = entry.members !== undefined;
+    const profile = isBlend ? null : lookupIngredient(entry.name);
+    const notes: string[] = [];
+    let riskLevel: Ingredient['riskLevel'] = profile?.riskLevel;
+    let doseRatio: number | null = null;
+    let aboveUpper = false;
+
+    if (profile?.notes) notes.push(profile.notes);
+
+    if (isBlend) {
+      riskLevel = 'medium';
+      notes.push(entry.members!.length > 0
+        ? `Undisclosed ingredient amounts: ${entry.members!.join(', ')}`
+        : 'Undisclosed ingredient amounts');
+    } else if (entry.blend) {
+      notes.push(`Part of ${entry.blend} - dose not disclosed`);
+    }
+
+    if (profile && entry.amount !== undefined && entry.unit) {
+      if (profile.effectiveDose) {
+        doseRatio = compareDose(entry.amount, entry.unit, profile.effectiveDose);
+        if (doseRatio !== null && doseRatio < 1) {
+          notes.push(`Under-dosed: ${formatDose(entry.amount, entry.unit)} vs ${formatDose(profile.effectiveDose.amount, profile.effectiveDose.unit)} effective dose`);
+        }
+      }
+      if (profile.upperDose) {
+        const upperRatio = compareDose(entry.amount, entry.unit, profile.upperDose);
+        if (upperRatio !== null && upperRatio > 1) {
+          aboveUpper = true;
+          riskLevel = riskLevel === 'low' ? 'medium' : 'high';
+          notes.push(`Above the ${formatDose(profile.upperDose.amount, profile.upperDose.unit)} upper dose`);
+        }
+      }
+    }
+
+    if (!profile && !isBlend) notes.push('Not in ShopLens knowledge base');
+
+    const ingredient: Ingredient = { name: entry.name };
+    if (entry.amount !== undefined) ingredient.amount = entry.amount;
+    if (entry.unit) ingredient.unit = normalizeDoseUnit(entry.unit) ?? entry.unit;
+    if (riskLevel) ingredient.riskLevel = riskLevel;
+    if (notes.length > 0) ingredient.notes = notes.join('; ');
+
+    return { ingredient, profile, isBlend, blend: entry.blend, doseRatio, aboveUpper };
+  });
+}
+
+function formatDose(amount: number, unit: string): string {
+  return `${Math.round(amount * 100) / 100} ${unit}`;
+}
+
+// ---------- Claims ----------
+
+const CLAIM_CATEGORIES: Array<{ category: Claim['category']; pattern: RegExp }> = [
+  { category: 'weight', pattern: /\b(?:fat|weight|metabolism|metabolic|appetite|slim|thermogenic|calories?|cravings?)\b/i },
+  { category: 'performance', pattern: /\b(?:muscle|strength|power|endurance|performance|pumps?|recovery|energy|stamina|workouts?|training|athletic)\b/i },
+  { category: 'health', pattern: /\b(?:immun\w*|heart|joints?|sleep|stress|focus|mood|brain|cognitive|cognition|bones?|health|wellness|digest\w*|gut|skin|hair)\b/i },
+];
+
+const HYPE = /\b(?:miracle|guaranteed?|instant(?:ly)?|overnight|fast|100%|detox|cures?|melts?|effortless(?:ly)?|without\s+(?:diet|exercise))\b/i;
+
+/**
+ * Category from keywords; credibility from whether a recognised ingredient backs it at an effective dose
+ */
+function classifyClaim(text: string, ingredients: ResolvedIngredient[]): Claim {
+  const category = CLAIM_CATEGORIES.find(c => c.pattern.test(text))?.category ?? 'other';
+
+  if (HYPE.test(text)) {
+    return { text, category, credibility: 'unsubstantiated' };
+  }
+  if (category === 'other') {
+    return { text, category, credibility: 'questionable' };
+  }
+
+  const supporters = ingredients.filter(r => r.profile?.supports?.includes(category));
+  if (supporters.length === 0) {
+    return { text, category, credibility: 'unsubstantiated' };
+  }
+
+  const effective = supporters.some(r => r.doseRatio !== null ? r.doseRatio >= 1 : !r.profile?.effectiveDose && r.ingredient.amount !== undefined);
+  return { text, category, credibility: effective ? 'verified' : 'questionable' };
+}
+
+// ---------- Verdict ----------
+
+function listNames(items: ResolvedIngredient[]): string {
+  return items.map(r => r.ingredient.name).join(', ');
+}
+
+function matchesTerm(r: ResolvedIngredient, term: string): boolean {
+  const t = term.toLowerCase().trim();
+  if (!t) return false;
+  return r.ingredient.name.toLowerCase().includes(t)
+    || (r.profile?.key.replace(/_/g, ' ').includes(t) ?? false)
+    || (r.profile?.tags?.includes(t) ?? false);
+}
+
+/**
+ * Verdict from config; every note names the ingredient(s) or claim that triggered it
+ * Sensitivity (0-100) sets how much it takes to escalate:
+ * - high-risk ingredients → avoid at 50+, caution below
+ * - medium-risk ingredients → caution at 40+
+ * - under-dosed actives and unsubstantiated claims → caution at 80+ (always in strict mode)
+ */
+function determineVerdictWithConfig(
+  ingredients: ResolvedIngredient[],
+  claims: Claim[],
+  labelText: string,
+  config: ShopLensConfig
+): { verdict: Verdict; notes: string[] } {
+  const sensitivity = Math.max(0, Math.min(100, config.sensitivity ?? 70));
+  const strict = config.strictLabelMode;
+  const avoid: string[] = [];
+  const caution: string[] = [];
+  const info: string[] = [];
+
+  if (ingredients.length === 0) {
+    return { verdict: 'caution', notes: ['No ingredients could be read from the label'] };
+  }
+
+  // Banned ingredients
+  const bannedFound = ingredients.filter(r => config.banned.some(term => matchesTerm(r, term)));
   if (bannedFound.length > 0) {
-    notes.push(`Banned ingredients detected: ${bannedFound.map(ing => ing.name).join(', ')}`);
-    return { verdict: 'avoid', notes };
+    avoid.push(`Banned ingredients detected: ${listNames(bannedFound)}`);
   }
-  
-  // Check caution conditions
-  let cautionReasons: string[] = [];
-  
-  // Caution keywords
-  const cautionFound = config.caution.some(keyword => 
-    labelText.toLowerCase().includes(keyword.toLowerCase())
-  );
-  if (cautionFound) {
-    cautionReasons.push('Contains caution keywords');
+
+  // High-risk ingredients from the knowledge base
+  const highRisk = ingredients.filter(r => r.ingredient.riskLevel === 'high' && !bannedFound.includes(r));
+  for (const r of highRisk) {
+    const reason = r.aboveUpper ? `above safe dose` : (r.profile?.notes ?? 'high risk');
+    (sensitivity >= 50 ? avoid : caution).push(`High-risk ingredient: ${r.ingredient.name} (${reason})`);
   }
-  
-  // Strict label mode + proprietary blends
-  if (config.strictLabelMode && !config.allowProprietaryBlends) {
-    if (labelText.toLowerCase().includes('proprietary blend')) {
-      cautionReasons.push('Proprietary blend detected in strict mode');
+
+  // Caution keywords, matched against ingredients first, then the raw label
+  const cautionHits: string[] = [];
+  for (const keyword of config.caution) {
+    const hits = ingredients.filter(r => matchesTerm(r, keyword));
+    if (hits.length > 0) {
+      cautionHits.push(`"${keyword}" (${listNames(hits)})`);
+    } else if (keyword.trim() && labelText.toLowerCase().includes(keyword.toLowerCase().trim())) {
+      cautionHits.push(`"${keyword}" (label text)`);
     }
   }
-  
-  // Medium/high risk ingredients
-  const riskIngredients = ingredients.filter(ing => ing.riskLevel === 'medium' || ing.riskLevel === 'high');
-  if (riskIngredients.length > 0) {
-    cautionReasons.push(`${riskIngredients.length} ingredient(s) need attention`);
+  if (cautionHits.length > 0) {
+    caution.push(`Contains caution keywords: ${cautionHits.join(', ')}`);
   }
-  
-  if (cautionReasons.length > 0) {
-    notes.push(...cautionReasons);
-    return { verdict: 'caution', notes };
+
+  // Proprietary blends
+  const blends = ingredients.filter(r => r.isBlend);
+  if (blends.length > 0) {
+    if (strict) {
+      caution.push(`Proprietary blend detected in strict mode: ${listNames(blends)}`);
+    } else if (!config.allowProprietaryBlends) {
+      caution.push(`Proprietary blends not allowed: ${listNames(blends)}`);
+    } else if (sensitivity >= 40) {
+      caution.push(`Proprietary blend hides individual doses: ${listNames(blends)}`);
+    } else {
+      info.push(`Proprietary blend hides individual doses: ${listNames(blends)}`);
+    }
   }
-  
-  notes.push('No concerning ingredients or patterns detected');
-  return { verdict: 'safe', notes };
-}
\ No newline at end of file
+
+  // Medium-risk ingredients
+  const mediumRisk = ingredients.filter(r => r.ingredient.riskLevel === 'medium' && !r.isBlend && !bannedFound.includes(r));
+  for (const r of mediumRisk) {
+    const note = `Needs attention: ${r.ingredient.name}${r.profile?.notes ? ` (${r.profile.notes})` : ''}`;
+    (sensitivity >= 40 ? caution : info).push(note);
+  }
+
+  // Under-dosed actives
+  const underDosed = ingredients.filter(r => r.doseRatio !== null && r.doseRatio < 1);
+  for (const r of underDosed) {
+    const dose = r.profile!.effectiveDose!;
+    const note = `Under-dosed: ${r.ingredient.name} (${formatDose(r.ingredient.amount!, r.ingredient.unit!)} vs ${formatDose(dose.amount, dose.unit)} effective)`;
+    (strict || sensitivity >= 80 ? caution : info).push(note);
+  }
+
+  // Strict mode wants every ingredient identified
+  if (strict) {
+    const unknown = ingredients.filter(r => !r.profile && !r.isBlend);
+    if (unknown.length > 0) {
+      caution.push(`Unrecognized ingredients in strict mode: ${listNames(unknown)}`);
+    }
+  }
+
+  // Claims
+  for (const claim of claims.filter(c => c.credibility === 'unsubstantiated')) {
+    (strict || sensitivity >= 80 ? caution : info).push(`Unsubstantiated claim: "${claim.text}"`);
+  }
+  if (claims.length > 0 && !claims.some(c => c.category === config.intendedUse)) {
+    info.push(`No label claims target your intended use (${config.intendedUse})`);
+  }
+
+  if (avoid.length > 0) {
+    return { verdict: 'avoid', notes: [...avoid, ...caution, ...info] };
+  }
+  if (caution.length > 0) {
+    return { verdict: 'caution', notes: [...caution, ...info] };
+  }
+  return { verdict: 'safe', notes: ['No concerning ingredients or patterns detected', ...info] };
+}
+
+/**
+ * How much of the label we could actually read and recognise
+ */
+function labelConfidence(ingredients: ResolvedIngredient[], hasFactsPanel: boolean): number {
+  if (ingredients.length === 0) return 0.2;
+  const known = ingredients.filter(r => r.profile || r.isBlend).length / ingredients.length;
+  const hidden = ingredients.some(r => r.isBlend) ? 0.1 : 0;
+  const score = 0.4 + 0.45 * known + (hasFactsPanel ? 0.1 : 0) - hidden;
+  return Math.round(Math.max(0.2, Math.min(0.95, score)) * 100) / 100;
+}
@@ -0,0 +1,155 @@
+/**
+ * ShopLens ingredient knowledge base
+ * Risk levels, clinically effective doses and claim support for common
+ * supplement and food-label ingredients. Doses are per serving.
+ */
+
+import type { Claim, Ingredient } from '../types/shoplens';
+
+export type DoseUnit = 'mcg' | 'mg' | 'g' | 'IU';
+
+export interface IngredientProfile {
+  key: string;
+  aliases: string[];
+  riskLevel: NonNullable<Ingredient['riskLevel']>;
+  category: 'protein' | 'amino' | 'stimulant' | 'sweetener' | 'vitamin' | 'mineral' | 'botanical' | 'hormonal' | 'additive' | 'other';
+  /** Lowest dose with consistent evidence */
+  effectiveDose?: { amount: number; unit: DoseUnit };
+  /** Dose above which side effects become likely */
+  upperDose?: { amount: number; unit: DoseUnit };
+  /** Claim categories this ingredient can substantiate */
+  supports?: Claim['category'][];
+  /** Descriptors matched against caution keywords ("artificial", "synthetic", "stimulant") */
+  tags?: string[];
+  notes?: string;
+}
+
+export const INGREDIENT_KB: IngredientProfile[] = [
+  // Proteins
+  { key: 'whey_protein', aliases: ['whey protein isolate', 'whey protein concentrate', 'hydrolyzed whey protein', 'whey protein', 'whey isolate', 'whey'], riskLevel: 'low', category: 'protein', effectiveDose: { amount: 20, unit: 'g' }, supports: ['performance'] },
+  { key: 'casein', aliases: ['micellar casein', 'calcium caseinate', 'casein'], riskLevel: 'low', category: 'protein', effectiveDose: { amount: 20, unit: 'g' }, supports: ['performance'] },
+  { key: 'plant_protein', aliases: ['pea protein isolate', 'pea protein', 'soy protein isolate', 'soy protein', 'brown rice protein', 'hemp protein'], riskLevel: 'low', category: 'protein', effectiveDose: { amount: 20, unit: 'g' }, supports: ['performance'] },
+  { key: 'collagen', aliases: ['collagen peptides', 'hydrolyzed collagen', 'collagen'], riskLevel: 'low', category: 'protein', effectiveDose: { amount: 10, unit: 'g' }, supports: ['health'] },
+
+  // Aminos and performance compounds
+  { key: 'creatine', aliases: ['creatine monohydrate', 'creatine hcl', 'creapure', 'creatine'], riskLevel: 'low', category: 'amino', effectiveDose: { amount: 3, unit: 'g' }, supports: ['performance'] },
+  { key: 'beta_alanine', aliases: ['beta alanine', 'beta-alanine', 'carnosyn'], riskLevel: 'low', category: 'amino', effectiveDose: { amount: 3.2, unit: 'g' }, supports: ['performance'], notes: 'Harmless tingling (paresthesia) is common' },
+  { key: 'citrulline_malate', aliases: ['citrulline malate', 'l-citrulline malate'], riskLevel: 'low', category: 'amino', effectiveDose: { amount: 6, unit: 'g' }, supports: ['performance'] },
+  { key: 'citrulline', aliases: ['l-citrulline', 'citrulline'], riskLevel: 'low', category: 'amino', effectiveDose: { amount: 3, unit: 'g' }, supports: ['performance'] },
+  { key: 'arginine', aliases: ['l-arginine', 'arginine akg', 'arginine'], riskLevel: 'low', category: 'amino', supports: [], notes: 'Poor evidence for pump or performance effects' },
+  { key: 'betaine', aliases: ['betaine anhydrous', 'trimethylglycine', 'betaine'], riskLevel: 'low', category: 'amino', effectiveDose: { amount: 2.5, unit: 'g' }, supports: ['performance'] },
+  { key: 'bcaa', aliases: ['branched chain amino acids', 'bcaas', 'bcaa'], riskLevel: 'low', category: 'amino', effectiveDose: { amount: 5, unit: 'g' }, supports: ['performance'] },
+  { key: 'leucine', aliases: ['l-leucine', 'leucine'], riskLevel: 'low', category: 'amino', effectiveDose: { amount: 2.5, unit: 'g' }, supports: ['performance'] },
+  { key: 'glutamine', aliases: ['l-glutamine', 'glutamine'], riskLevel: 'low', category: 'amino', effectiveDose: { amount: 5, unit: 'g' }, supports: ['health'] },
+  { key: 'hmb', aliases: ['beta-hydroxy beta-methylbutyrate', 'calcium hmb', 'hmb'], riskLevel: 'low', category: 'amino', effectiveDose: { amount: 3, unit: 'g' }, supports: ['performance'] },
+  { key: 'taurine', aliases: ['l-taurine', 'taurine'], riskLevel: 'low', category: 'amino', effectiveDose: { amount: 1, unit: 'g' }, supports: ['performance'] },
+  { key: 'tyrosine', aliases: ['n-acetyl l-tyrosine', 'l-tyrosine', 'tyrosine'], riskLevel: 'low', category: 'amino', effectiveDose: { amount: 500, unit: 'mg' }, supports: ['health'] },
+  { key: 'theanine', aliases: ['l-theanine', 'theanine'], riskLevel: 'low', category: 'amino', effectiveDose: { amount: 100, unit: 'mg' }, supports: ['health'] },
+  { key: 'carnitine', aliases: ['acetyl l-carnitine', 'l-carnitine tartrate', 'l-carnitine', 'carnitine'], riskLevel: 'low', category: 'amino', effectiveDose: { amount: 2, unit: 'g' }, supports: ['performance'] },
+
+  // Stimulants
+  { key: 'caffeine', aliases: ['caffeine anhydrous', 'natural caffeine', 'dicaffeine malate', 'caffeine citrate', 'caffeine'], riskLevel: 'medium', category: 'stimulant', effectiveDose: { amount: 100, unit: 'mg' }, upperDose: { amount: 400, unit: 'mg' }, supports: ['performance', 'weight'], tags: ['stimulant'], notes: 'Stimulant - avoid late in the day' },
+  { key: 'yohimbine', aliases: ['yohimbine hcl', 'yohimbe bark extract', 'yohimbe', 'yohimbine'], riskLevel: 'high', category: 'stimulant', upperDose: { amount: 5, unit: 'mg' }, supports: ['weight'], tags: ['stimulant'], notes: 'Stimulant - may cause anxiety, raised heart rate and blood pressure' },
+  { key: 'dmaa', aliases: ['1,3-dimethylamylamine', '1 3-dimethylamylamine', 'methylhexanamine', 'geranium extract', 'dmaa'], riskLevel: 'high', category: 'stimulant', tags: ['stimulant', 'banned'], notes: 'Banned by FDA and WADA - linked to cardiovascular events' },
+  { key: 'dmha', aliases: ['2-aminoisoheptane', 'octodrine', 'dmha'], riskLevel: 'high', category: 'stimulant', tags: ['stimulant', 'banned'], notes: 'Unapproved stimulant, prohibited in sport' },
+  { key: 'ephedra', aliases: ['ephedrine', 'ma huang', 'ephedra'], riskLevel: 'high', category: 'stimulant', tags: ['stimulant', 'banned'], notes: 'Banned in supplements by FDA' },
+  { key: 'synephrine', aliases: ['bitter orange extract', 'citrus aurantium', 'p-synephrine', 'synephrine'], riskLevel: 'medium', category: 'stimulant', upperDose: { amount: 50, unit: 'mg' }, supports: ['weight'], tags: ['stimulant'], notes: 'Stimulant - raises heart rate, especially with caffeine' },
+  { key: 'higenamine', aliases: ['higenamine hcl', 'higenamine'], riskLevel: 'high', category: 'stimulant', tags: ['stimulant', 'banned'], notes: 'WADA-prohibited beta-2 agonist' },
+  { key: 'theacrine', aliases: ['teacrine', 'theacrine'], riskLevel: 'medium', category: 'stimulant', effectiveDose: { amount: 100, unit: 'mg' }, supports: ['performance'], tags: ['stimulant'] },
+  { key: 'green_tea_extract', aliases: ['green tea leaf extract', 'green tea extract', 'egcg'], riskLevel: 'medium', category: 'botanical', effectiveDose: { amount: 250, unit: 'mg' }, upperDose: { amount: 800, unit: 'mg' }, supports: ['weight'], notes: 'Concentrated extracts linked to liver injury on an empty stomach' },
+
+  // Botanicals and hormonal agents
+  { key: 'ashwagandha', aliases: ['ksm-66', 'sensoril', 'withania somnifera', 'ashwagandha'], riskLevel: 'low', category: 'botanical', effectiveDose: { amount: 300, unit: 'mg' }, supports: ['health', 'performance'] },
+  { key: 'rhodiola', aliases: ['rhodiola rosea', 'rhodiola'], riskLevel: 'low', category: 'botanical', effectiveDose: { amount: 200, unit: 'mg' }, supports: ['health'] },
+  { key: 'garcinia', aliases: ['garcinia cambogia', 'hydroxycitric acid', 'garcinia'], riskLevel: 'medium', category: 'botanical', supports: [], notes: 'Little evidence for weight loss; rare liver injury reports' },
+  { key: 'raspberry_ketones', aliases: ['raspberry ketones', 'raspberry ketone'], riskLevel: 'low', category: 'botanical', supports: [], notes: 'No human evidence for fat loss' },
+  { key: 'tribulus', aliases: ['tribulus terrestris', 'tribulus'], riskLevel: 'low', category: 'botanical', supports: [], notes: 'Does not raise testosterone in humans' },
+  { key: 'fenugreek', aliases: ['fenugreek seed extract', 'testofen', 'fenugreek'], riskLevel: 'low', category: 'botanical', effectiveDose: { amount: 500, unit: 'mg' }, supports: ['health'] },
+  { key: 'cla', aliases: ['conjugated linoleic acid', 'cla'], riskLevel: 'low', category: 'other', supports: [], notes: 'Negligible fat-loss effect' },
+  { key: 'dhea', aliases: ['dehydroepiandrosterone', 'dhea'], riskLevel: 'high', category: 'hormonal', tags: ['banned', 'hormone'], notes: 'Hormone precursor - WADA-prohibited' },
+  { key: 'melatonin', aliases: ['melatonin'], riskLevel: 'medium', category: 'hormonal', effectiveDose: { amount: 0.5, unit: 'mg' }, upperDose: { amount: 10, unit: 'mg' }, supports: ['health'], notes: 'Causes drowsiness' },
+  { key: 'five_htp', aliases: ['5-hydroxytryptophan', '5-htp'], riskLevel: 'medium', category: 'amino', supports: ['health'], notes: 'Interacts with antidepressants (serotonin syndrome risk)' },
+
+  // Vitamins and minerals
+  { key: 'vitamin_d', aliases: ['vitamin d3', 'cholecalciferol', 'vitamin d'], riskLevel: 'low', category: 'vitamin', effectiveDose: { amount: 15, unit: 'mcg' }, upperDose: { amount: 100, unit: 'mcg' }, supports: ['health'] },
+  { key: 'vitamin_b12', aliases: ['methylcobalamin', 'cyanocobalamin', 'vitamin b12'], riskLevel: 'low', category: 'vitamin', effectiveDose: { amount: 2.4, unit: 'mcg' }, supports: ['health'] },
+  { key: 'vitamin_c', aliases: ['ascorbic acid', 'vitamin c'], riskLevel: 'low', category: 'vitamin', effectiveDose: { amount: 75, unit: 'mg' }, upperDose: { amount: 2000, unit: 'mg' }, supports: ['health'] },
+  { key: 'niacin', aliases: ['nicotinic acid', 'niacinamide', 'vitamin b3', 'niacin'], riskLevel: 'low', category: 'vitamin', upperDose: { amount: 35, unit: 'mg' }, supports: ['health'], notes: 'Above ~35 mg can cause skin flushing' },
+  { key: 'zinc', aliases: ['zinc citrate', 'zinc gluconate', 'zinc picolinate', 'zinc'], riskLevel: 'low', category: 'mineral', effectiveDose: { amount: 8, unit: 'mg' }, upperDose: { amount: 40, unit: 'mg' }, supports: ['health'] },
+  { key: 'magnesium', aliases: ['magnesium glycinate', 'magnesium citrate', 'magnesium oxide', 'magnesium'], riskLevel: 'low', category: 'mineral', effectiveDose: { amount: 200, unit: 'mg' }, upperDose: { amount: 350, unit: 'mg' }, supports: ['health'] },
+  { key: 'iron', aliases: ['ferrous sulfate', 'ferrous bisglycinate', 'iron'], riskLevel: 'low', category: 'mineral', effectiveDose: { amount: 8, unit: 'mg' }, upperDose: { amount: 45, unit: 'mg' }, supports: ['health'] },
+  { key: 'sodium', aliases: ['sodium chloride', 'sodium citrate', 'sodium'], riskLevel: 'low', category: 'mineral', supports: ['performance'] },
+  { key: 'potassium', aliases: ['potassium citrate', 'potassium chloride', 'potassium'], riskLevel: 'low', category: 'mineral', supports: ['performance'] },
+
+  // Sweeteners
+  { key: 'sucralose', aliases: ['sucralose'], riskLevel: 'low', category: 'sweetener', tags: ['artificial'], notes: 'Artificial sweetener' },
+  { key: 'acesulfame_k', aliases: ['acesulfame potassium', 'acesulfame k', 'ace-k'], riskLevel: 'low', category: 'sweetener', tags: ['artificial'], notes: 'Artificial sweetener' },
+  { key: 'aspartame', aliases: ['aspartame'], riskLevel: 'medium', category: 'sweetener', tags: ['artificial'], notes: 'Artificial sweetener - contains phenylalanine (PKU warning)' },
+  { key: 'stevia', aliases: ['stevia leaf extract', 'rebaudioside a', 'reb a', 'stevia'], riskLevel: 'low', category: 'sweetener' },
+  { key: 'monk_fruit', aliases: ['monk fruit extract', 'luo han guo', 'monk fruit'], riskLevel: 'low', category: 'sweetener' },
+  { key: 'sugar_alcohol', aliases: ['erythritol', 'xylitol', 'sorbitol', 'maltitol'], riskLevel: 'low', category: 'sweetener', notes: 'Sugar alcohol - large amounts may upset digestion' },
+
+  // Additives
+  { key: 'natural_flavors', aliases: ['natural flavors', 'natural flavor', 'natural flavours'], riskLevel: 'low', category: 'additive' },
+  { key: 'artificial_flavors', aliases: ['natural and artificial flavors', 'artificial flavors', 'artificial flavor', 'artificial flavours'], riskLevel: 'low', category: 'additive', tags: ['artificial'] },
+  { key: 'artificial_colors', aliases: ['fd&c red no. 40', 'red 40', 'fd&c yellow no. 5', 'yellow 5', 'fd&c blue no. 1', 'blue 1', 'artificial color', 'artificial colors'], riskLevel: 'medium', category: 'additive', tags: ['artificial', 'synthetic'], notes: 'Synthetic food dye' },
+  { key: 'titanium_dioxide', aliases: ['titanium dioxide'], riskLevel: 'medium', category: 'additive', tags: ['synthetic'], notes: 'Colourant banned as a food additive in the EU' },
+  { key: 'lecithin', aliases: ['sunflower lecithin', 'soy lecithin', 'lecithin'], riskLevel: 'low', category: 'additive' },
+  { key: 'gums', aliases: ['xanthan gum', 'guar gum', 'gum arabic', 'acacia gum', 'cellulose gum'], riskLevel: 'low', category: 'additive' },
+  { key: 'acids', aliases: ['citric acid', 'malic acid', 'tartaric acid'], riskLevel: 'low', category: 'additive' },
+  { key: 'flow_agents', aliases: ['silicon dioxide', 'magnesium stearate', 'stearic acid', 'microcrystalline cellulose'], riskLevel: 'low', category: 'additive' },
+  { key: 'maltodextrin', aliases: ['maltodextrin', 'dextrose'], riskLevel: 'low', category: 'additive' },
+  { key: 'salt', aliases: ['sea salt', 'salt'], riskLevel: 'low', category: 'additive' },
+];
+
+function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\(.*?\)/g, ' ')
+    .replace(/[®™*†]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+const ALIAS_INDEX: Array<{ alias: string; pattern: RegExp; profile: IngredientProfile }> = INGREDIENT_KB
+  .flatMap(profile => profile.aliases.map(alias => ({
+    alias,
+    pattern: new RegExp(`(?:^|[^a-z0-9])${alias.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?:$|[^a-z0-9])`),
+    profile,
+  })))
+  // Longest alias first so "whey protein isolate" beats "whey"
+  .sort((a, b) => b.alias.length - a.alias.length);
+
+/**
+ * Knowledge base entry for a label ingredient name, or null when unknown
+ */
+export function lookupIngredient(name: string): IngredientProfile | null {
+  const normalized = normalizeName(name);
+  if (!normalized) return null;
+  const exact = ALIAS_INDEX.find(entry => entry.alias === normalized);
+  if (exact) return exact.profile;
+  return ALIAS_INDEX.find(entry => entry.pattern.test(normalized))?.profile ?? null;
+}
+
+const TO_MG: Record<Exclude<DoseUnit, 'IU'>, number> = { mcg: 0.001, mg: 1, g: 1000 };
+
+/**
+ * Compare an amount against a reference dose; null when units are incompatible
+ */
+export function compareDose(amount: number, unit: string, reference: { amount: number; unit: DoseUnit }): number | null {
+  const from = normalizeDoseUnit(unit);
+  if (!from) return null;
+  if (from === 'IU' || reference.unit === 'IU') {
+    return from === reference.unit ? amount / reference.amount : null;
+  }
+  return (amount * TO_MG[from]) / (reference.amount * TO_MG[reference.unit]);
+}
+
+export function normalizeDoseUnit(unit: string): DoseUnit | null {
+  const u = unit.trim().toLowerCase();
+  if (u === 'mcg' || u === 'µg' || u === 'ug') return 'mcg';
+  if (u === 'mg') return 'mg';
+  if (u === 'g' || u === 'grams' || u === 'gram') return 'g';
+  if (u === 'iu') return 'IU';
+  return null;
+}
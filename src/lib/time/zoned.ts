@@ -0,0 +1,103 @@
+/**
+ * Wall-clock helpers for IANA timezones
+ * Converts between UTC instants and calendar fields in a user's timezone
+ */
+
+export interface ZonedParts {
+  year: number;
+  month: number;   // 1-12
+  day: number;
+  hour: number;    // 0-23
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Sunday
+}
+
+export interface CalendarDay {
+  year: number;
+  month: number;
+  day: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let fmt = formatterCache.get(timeZone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short',
+    });
+    formatterCache.set(timeZone, fmt);
+  }
+  return fmt;
+}
+
+/**
+ * Valid IANA timezone, falling back to the runtime's zone (then UTC)
+ */
+export function resolveTimeZone(timeZone?: string | null): string {
+  if (timeZone) {
+    try {
+      formatterFor(timeZone);
+      return timeZone;
+    } catch {
+      console.warn('[zoned] Unknown timezone, using runtime default:', timeZone);
+    }
+  }
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * Calendar fields of an instant as seen in `timeZone`
+ */
+export function zonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, string> = {};
+  for (const p of formatterFor(timeZone).formatToParts(date)) parts[p.type] = p.value;
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour) % 24,
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+function offsetMs(date: Date, timeZone: string): number {
+  const p = zonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Instant for a wall-clock time in `timeZone` (DST gaps resolve forward)
+ */
+export function zonedDate(day: CalendarDay, hour: number, minute: number, timeZone: string): Date {
+  const guess = Date.UTC(day.year, day.month - 1, day.day, hour, minute);
+  const first = offsetMs(new Date(guess), timeZone);
+  const second = offsetMs(new Date(guess - first), timeZone);
+  return new Date(guess - second);
+}
+
+/**
+ * Calendar day `delta` days from `day`
+ */
+export function addDays(day: CalendarDay, delta: number): CalendarDay {
+  const d = new Date(Date.UTC(day.year, day.month - 1, day.day + delta));
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+}
+
+export function compareDays(a: CalendarDay, b: CalendarDay): number {
+  return (a.year - b.year) || (a.month - b.month) || (a.day - b.day);
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeMealPhoto, portionGrams, PLATE_PORTION_GRAMS, type MacroCascade } from '../photoMeal';
+import { createStubVisionProvider } from '../provider';
+
+const IMAGE = 'data:image/jpeg;base64,/9j/4AAQSkZJRgABAQ';
+
+const missCascade: MacroCascade = async () => ({ result: null, providerId: null });
+
+describe('createStubVisionProvider', () => {
+  it('returns the same plate for the same image', async () => {
+    const stub = createStubVisionProvider();
+    const a = await stub.analyze({ image: IMAGE });
+    const b = await stub.analyze({ image: IMAGE });
+
+    expect(a).toEqual(b);
+    expect(a.items.length).toBeGreaterThan(1);
+    expect(a.items.every(i => ['S', 'M', 'L'].includes(i.portion_hint))).toBe(true);
+  });
+});
+
+describe('portionGrams', () => {
+  it('uses the food size table when one exists', () => {
+    expect(portionGrams('banana', 'L').grams).toBe(136);
+  });
+
+  it('falls back to plate portions for unknown foods', () => {
+    expect(portionGrams('lentil curry', 'S').grams).toBe(PLATE_PORTION_GRAMS.S);
+    expect(portionGrams('lentil curry', 'L').grams).toBe(PLATE_PORTION_GRAMS.L);
+  });
+});
+
+describe('analyzeMealPhoto', () => {
+  const provider = createStubVisionProvider([
+    { name: 'grilled chicken breast', portion_hint: 'M', confidence: 0.9, candidates: [
+      { name: 'grilled chicken breast', macros: { kcal: 165, protein_g: 31, carbs_g: 0, fat_g: 3.6 }, confidence: 0.9 },
+      { name: 'turkey breast', macros: { kcal: 147, protein_g: 30, carbs_g: 0, fat_g: 2.1 }, confidence: 0.4 },
+    ] },
+    { name: 'brown rice', portion_hint: 'S', confidence: 0.7, candidates: [
+      { name: 'brown rice', macros: { kcal: 123, protein_g: 2.7, carbs_g: 25.6, fat_g: 1 }, confidence: 0.7 },
+    ] },
+  ]);
+
+  it('puts the cascade result first and keeps vision candidates as alternatives', async () => {
+    const seen: Array<{ name: string; grams: number | null | undefined }> = [];
+    const cascade: MacroCascade = async item => {
+      seen.push({ name: item.name, grams: item.grams });
+      return {
+        providerId: 'usdaLocal',
+        result: {
+          name: item.name,
+          serving_label: '150 g',
+          grams_per_serving: 150,
+          macros: { kcal: 240, protein_g: 45.2, carbs_g: 0, fat_g: 5.3, fiber_g: 0 },
+          confidence: 0.85,
+          source: 'usda',
+        },
+      };
+    };
+
+    const result = await analyzeMealPhoto({ image: IMAGE }, { provider, cascade });
+
+    expect(result.source).toBe('photo');
+    expect(seen).toEqual([
+      { name: 'grilled chicken breast', grams: 170 },
+      { name: 'brown rice', grams: 75 },
+    ]);
+
+    const [chicken] = result.items;
+    expect(chicken.grams).toBe(170);
+    // One 150 g serving scaled to the 170 g portion
+    expect(chicken.macros).toEqual({ kcal: 272, protein_g: 51.2, carbs_g: 0, fat_g: 6 });
+    expect(chicken.candidates?.map(c => c.name)).toEqual(['grilled chicken breast', 'grilled chicken breast', 'turkey breast']);
+    // Vision candidates are per 100 g, scaled to the portion
+    expect(chicken.candidates?.[2].macros.kcal).toBe(Math.round(147 * 1.7));
+    expect(chicken.source_hints).toMatchObject({ portion_hint: 'M', provider: 'usdaLocal' });
+  });
+
+  it('keeps results the provider already sized to the portion', async () => {
+    const cascade: MacroCascade = async item => ({
+      providerId: 'generic',
+      result: {
+        name: item.name,
+        serving_label: 'serving',
+        grams_per_serving: 100,
+        grams: item.grams ?? undefined,
+        macros: { kcal: 280, protein_g: 52.7, carbs_g: 0, fat_g: 6.1, fiber_g: 0 },
+        confidence: 0.8,
+        source: 'generic',
+      },
+    });
+
+    const result = await analyzeMealPhoto({ image: IMAGE }, { provider, cascade });
+    expect(result.items[0].macros?.kcal).toBe(280);
+  });
+
+  it('falls back to the top vision candidate when every provider misses', async () => {
+    const result = await analyzeMealPhoto({ image: IMAGE }, { provider, cascade: missCascade });
+    const rice = result.items[1];
+
+    expect(rice.macros).toEqual({ kcal: 92, protein_g: 2, carbs_g: 19.2, fat_g: 0.8 });
+    expect(rice.source_hints).toMatchObject({ provider: 'vision' });
+  });
+});
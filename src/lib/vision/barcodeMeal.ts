@@ -0,0 +1,46 @@
+import { productServing } from '../../agents/shared/nutrition/products/packagedProduct';
+import { productStore, type ProductStore } from '../../agents/shared/nutrition/products/productStore';
+import type { AnalysedFoodCandidate, AnalysisResult } from '../../types/food';
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/**
+ * Look a scanned barcode up in the packaged product store and shape it for
+ * the verification screen: one item, one label serving. Null when the
+ * product is not in the store.
+ */
+export async function analyzeBarcode(barcode: string, store: ProductStore = productStore): Promise<AnalysisResult | null> {
+  const product = await store.getByBarcode(barcode);
+  if (!product) {
+    console.log('[barcodeMeal] Unknown barcode', barcode);
+    return null;
+  }
+
+  const serving = productServing(product);
+  const candidate: AnalysedFoodCandidate = {
+    name: product.name,
+    brand: product.brand ?? undefined,
+    macros: {
+      kcal: Math.round(serving.macros.kcal),
+      protein_g: round1(serving.macros.protein_g),
+      carbs_g: round1(serving.macros.carbs_g),
+      fat_g: round1(serving.macros.fat_g)
+    },
+    confidence: 0.98
+  };
+
+  return {
+    items: [{
+      name: product.name,
+      brand: candidate.brand,
+      candidates: [candidate],
+      qty: 1,
+      unit: 'serving',
+      grams: serving.grams,
+      macros: candidate.macros,
+      confidence: candidate.confidence,
+      source_hints: { barcode: product.barcode, serving: serving.label, provider: 'packagedProducts' }
+    }],
+    source: 'barcode'
+  };
+}
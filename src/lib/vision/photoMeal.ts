@@ -0,0 +1,130 @@
+import { convertPortion, scalePer100g } from '../../agents/shared/nutrition/portionEngine';
+import { providerRegistry, scaleToGrams } from '../../agents/shared/nutrition/providers';
+import type { MacroResult, NormalizedItem } from '../../agents/shared/nutrition/providers/types';
+import type { AnalysedFoodCandidate, AnalysedFoodItemWithCandidates, AnalysisResult, VisionAnalysisResult } from '../../types/food';
+import { getVisionProvider, type VisionProvider, type VisionRequest } from './provider';
+
+type PortionHint = VisionAnalysisResult['items'][number]['portion_hint'];
+
+const HINT_SIZE: Record<PortionHint, string> = { S: 'small', M: 'medium', L: 'large' };
+
+/** Plated portion when the food has no household size table */
+export const PLATE_PORTION_GRAMS: Record<PortionHint, number> = { S: 75, M: 150, L: 250 };
+
+export type MacroCascade = (item: NormalizedItem, userId?: string) => Promise<{ result: MacroResult | null; providerId: string | null }>;
+
+export interface PhotoMealOptions {
+  userId?: string;
+  /** Defaults to the shared macro provider registry */
+  cascade?: MacroCascade;
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/**
+ * Grams for a portion hint: the food's own small/medium/large measure when
+ * the portion tables know it, otherwise a plate-sized default.
+ */
+export function portionGrams(name: string, hint: PortionHint): { grams: number; explanation: string } {
+  const conversion = convertPortion({ name, quantity: 1, unit: HINT_SIZE[hint] });
+  if (conversion.grams && conversion.method !== 'assumed' && conversion.method !== 'unknown') {
+    return { grams: conversion.grams, explanation: conversion.explanation };
+  }
+  const grams = PLATE_PORTION_GRAMS[hint];
+  return { grams, explanation: `${HINT_SIZE[hint]} plate portion of ${name} ≈ ${grams} g` };
+}
+
+function scaleCandidate(candidate: AnalysedFoodCandidate, grams: number): AnalysedFoodCandidate {
+  const scaled = scalePer100g({ ...candidate.macros, fiber_g: 0 }, grams);
+  return {
+    ...candidate,
+    macros: {
+      kcal: Math.round(scaled.kcal),
+      protein_g: round1(scaled.protein_g),
+      carbs_g: round1(scaled.carbs_g),
+      fat_g: round1(scaled.fat_g)
+    }
+  };
+}
+
+/**
+ * Turn vision items into verification-screen items: size each from its
+ * portion hint, price it through the macro cascade (scaled from one serving
+ * to the portion's grams), and keep the vision candidates as alternatives. When every provider misses, the top vision
+ * candidate's estimate stands in.
+ */
+export async function visionToAnalysisResult(
+  vision: VisionAnalysisResult,
+  { userId, cascade = (item, uid) => providerRegistry.resolve(item, uid) }: PhotoMealOptions = {}
+): Promise<AnalysisResult> {
+  const items: AnalysedFoodItemWithCandidates[] = [];
+
+  for (const item of vision.items) {
+    const { grams, explanation } = portionGrams(item.name, item.portion_hint);
+    const visionCandidates = (item.candidates ?? []).map(c => scaleCandidate(c, grams));
+
+    let resolved: AnalysedFoodCandidate | null = null;
+    let provider: string | null = null;
+    try {
+      const outcome = await cascade({
+        name: item.name,
+        amount: grams,
+        unit: 'g',
+        brand: item.brand ?? null,
+        is_branded: !!item.brand,
+        grams
+      }, userId);
+      if (outcome.result) {
+        const { macros } = scaleToGrams(outcome.result, grams);
+        resolved = {
+          name: item.name,
+          brand: item.brand,
+          macros: {
+            kcal: Math.round(macros.kcal),
+            protein_g: round1(macros.protein_g),
+            carbs_g: round1(macros.carbs_g),
+            fat_g: round1(macros.fat_g)
+          },
+          confidence: Math.min(item.confidence, outcome.result.confidence)
+        };
+        provider = outcome.providerId;
+      }
+    } catch (err) {
+      console.warn('[photoMeal] Macro cascade failed for', item.name, err);
+    }
+
+    const candidates = resolved ? [resolved, ...visionCandidates] : visionCandidates;
+    const top = candidates[0];
+    if (!top) {
+      console.warn('[photoMeal] No macros for', item.name, '- skipping');
+      continue;
+    }
+
+    items.push({
+      name: item.name,
+      brand: item.brand,
+      candidates,
+      qty: 1,
+      unit: 'g',
+      grams,
+      macros: top.macros,
+      confidence: item.confidence,
+      source_hints: { portion_hint: item.portion_hint, portion: explanation, provider: provider ?? 'vision' }
+    });
+  }
+
+  return { items, meal_slot: vision.meal_slot, source: 'photo' };
+}
+
+/**
+ * Recognise a meal photo and resolve it into verification-screen items
+ */
+export async function analyzeMealPhoto(
+  request: VisionRequest,
+  options: PhotoMealOptions & { provider?: VisionProvider } = {}
+): Promise<AnalysisResult> {
+  const provider = options.provider ?? getVisionProvider();
+  const vision = await provider.analyze(request);
+  console.log('[photoMeal]', provider.id, 'saw', vision.items.map(i => `${i.name} (${i.portion_hint})`).join(', ') || 'nothing');
+  return visionToAnalysisResult(vision, { userId: options.userId ?? request.userId, cascade: options.cascade });
+}
@@ -0,0 +1,129 @@
+import { supabase } from '../supabase';
+import type { AnalysedFoodCandidate, VisionAnalysisResult } from '../../types/food';
+
+/**
+ * Meal photo vision providers.
+ *
+ * Candidate macros coming out of a provider are per 100 g; photoMeal scales
+ * them to the portion the hint resolves to.
+ */
+
+export interface VisionRequest {
+  /** Base64 data URL ("data:image/jpeg;base64,...") */
+  image: string;
+  userId?: string;
+  sessionId?: string;
+}
+
+export interface VisionProvider {
+  id: string;
+  analyze(request: VisionRequest): Promise<VisionAnalysisResult>;
+}
+
+type VisionResponse = {
+  ok?: boolean;
+  result?: VisionAnalysisResult;
+  error?: string;
+};
+
+export const edgeVisionProvider: VisionProvider = {
+  id: 'vision-analyze',
+  async analyze({ image, userId, sessionId }) {
+    const { data, error } = await supabase.functions.invoke<VisionResponse>('vision-analyze', {
+      body: { image, userId, sessionId }
+    });
+    if (error) throw error;
+    if (!data?.ok || !data.result) {
+      throw new Error(data?.error || 'vision_failed');
+    }
+    if (!Array.isArray(data.result.items)) throw new Error('vision_invalid_response');
+    return data.result;
+  }
+};
+
+type StubItem = VisionAnalysisResult['items'][number];
+
+const per100g = (name: string, kcal: number, protein_g: number, carbs_g: number, fat_g: number, confidence: number): AnalysedFoodCandidate =>
+  ({ name, macros: { kcal, protein_g, carbs_g, fat_g }, confidence });
+
+/** Plates the stub can "see"; one is picked per image */
+const STUB_PLATES: StubItem[][] = [
+  [
+    { name: 'grilled chicken breast', portion_hint: 'M', confidence: 0.86, candidates: [
+      per100g('grilled chicken breast', 165, 31, 0, 3.6, 0.86),
+      per100g('grilled turkey breast', 147, 30, 0, 2.1, 0.42),
+    ] },
+    { name: 'brown rice', portion_hint: 'M', confidence: 0.8, candidates: [
+      per100g('brown rice', 123, 2.7, 25.6, 1, 0.8),
+      per100g('white rice', 130, 2.7, 28.2, 0.3, 0.55),
+    ] },
+    { name: 'steamed broccoli', portion_hint: 'S', confidence: 0.9, candidates: [
+      per100g('steamed broccoli', 35, 2.4, 7.2, 0.4, 0.9),
+    ] },
+  ],
+  [
+    { name: 'scrambled eggs', portion_hint: 'M', confidence: 0.84, candidates: [
+      per100g('scrambled eggs', 149, 10, 1.6, 11, 0.84),
+      per100g('omelette', 154, 11, 0.6, 12, 0.4),
+    ] },
+    { name: 'sourdough toast', portion_hint: 'S', confidence: 0.78, candidates: [
+      per100g('sourdough toast', 289, 11.5, 56, 1.8, 0.78),
+      per100g('white toast', 293, 9, 55, 3.8, 0.5),
+    ] },
+    { name: 'avocado', portion_hint: 'S', confidence: 0.82, candidates: [
+      per100g('avocado', 160, 2, 8.5, 14.7, 0.82),
+    ] },
+  ],
+  [
+    { name: 'salmon fillet', portion_hint: 'L', confidence: 0.83, candidates: [
+      per100g('baked salmon', 206, 22, 0, 12, 0.83),
+      per100g('trout', 190, 27, 0, 8.5, 0.38),
+    ] },
+    { name: 'sweet potato', portion_hint: 'M', confidence: 0.76, candidates: [
+      per100g('baked sweet potato', 90, 2, 20.7, 0.2, 0.76),
+    ] },
+  ],
+];
+
+function hashImage(image: string) {
+  // FNV-1a
+  let h = 0x811c9dc5;
+  for (let i = 0; i < image.length; i++) {
+    h ^= image.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Deterministic provider for tests and offline work: the same image always
+ * yields the same plate. Pass `items` to pin the result instead.
+ */
+export function createStubVisionProvider(items?: StubItem[]): VisionProvider {
+  return {
+    id: 'stub',
+    async analyze({ image }) {
+      const hash = hashImage(image);
+      return {
+        items: items ?? STUB_PLATES[hash % STUB_PLATES.length],
+        meal_slot: 'unknown',
+        source: 'photo',
+        vision_metadata: { model: 'stub', processing_time_ms: 0, image_hash: hash.toString(16) }
+      };
+    }
+  };
+}
+
+let activeProvider: VisionProvider = edgeVisionProvider;
+
+export function getVisionProvider(): VisionProvider {
+  return activeProvider;
+}
+
+/**
+ * Swap the vision backend (tests, offline work). Pass null to restore the
+ * `vision-analyze` edge function.
+ */
+export function setVisionProvider(provider: VisionProvider | null) {
+  activeProvider = provider ?? edgeVisionProvider;
+}
@@ -0,0 +1,338 @@
+import { getSupabase } from './supabase';
+import type { EffortData } from '../types/metrics';
+
+export type WeekDay = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
+export const WEEK_DAYS: WeekDay[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+export interface Exercise {
+  id: string;
+  name: string;
+  sets: number;
+  reps: string; // Can be "8-12" or "10" etc.
+  weight?: string;
+  restTime: number; // seconds
+  notes?: string;
+  muscleGroups: string[];
+  equipment: string[];
+}
+
+export interface WorkoutPlan {
+  id: string;
+  org_id: string | null;
+  client_id: string | null;
+  name: string;
+  description: string;
+  type: 'strength' | 'cardio' | 'hybrid' | 'recovery';
+  difficulty: 'beginner' | 'intermediate' | 'advanced';
+  estimated_duration_min: number;
+  exercises: Exercise[];
+  assigned_days: WeekDay[];
+  tags: string[];
+  is_active: boolean;
+  is_template: boolean;
+  version: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/** What a trainer edits; ownership and versioning come from the server */
+export type WorkoutPlanDraft = Pick<
+  WorkoutPlan,
+  'name' | 'description' | 'type' | 'difficulty' | 'estimated_duration_min' | 'exercises' | 'assigned_days' | 'tags' | 'is_active'
+>;
+
+export interface WorkoutPlanVersion {
+  id: string;
+  plan_id: string;
+  version: number;
+  snapshot: Omit<WorkoutPlan, 'id' | 'version'>;
+  created_at: string;
+}
+
+export interface WorkoutSession {
+  id: string;
+  user_id: string;
+  plan_id: string | null;
+  plan_version: number | null;
+  status: 'in_progress' | 'completed' | 'abandoned';
+  started_at: string;
+  ended_at: string | null;
+  workout_log_id: string | null;
+  rating: number | null;
+  notes: string | null;
+}
+
+export interface LoggedSet {
+  id: string;
+  session_id: string;
+  exercise_id: string | null;
+  exercise: string;
+  muscle_group: string;
+  set_number: number;
+  reps: number;
+  weight_lbs: number;
+  rpe: number | null;
+  rest_sec: number | null;
+  logged_at: string;
+}
+
+export interface SessionTotals {
+  duration_minutes: number;
+  volume_lbs: number;
+  avg_rpe: number | null;
+  exercises_completed: number;
+  sets: number;
+}
+
+/** The workout_logs row complete_workout_session writes */
+export interface WorkoutLog {
+  id: string;
+  workout_date: string;
+  duration_minutes: number;
+  workout_type: string;
+  exercises_completed: number;
+  volume_lbs: number | null;
+  avg_rpe: number | null;
+}
+
+/**
+ * Problems that would make the server reject the plan, or leave a client
+ * nothing to log. Empty when the draft is good to save.
+ */
+export function validateWorkoutPlan(draft: WorkoutPlanDraft): string[] {
+  const errors: string[] = [];
+  if (!draft.name.trim()) errors.push('Plan name is required');
+  if (!(draft.estimated_duration_min > 0)) errors.push('Duration must be positive');
+  if (!draft.exercises.length) errors.push('Add at least one exercise');
+  draft.exercises.forEach((ex, i) => {
+    if (!ex.name.trim()) errors.push(`Exercise ${i + 1} needs a name`);
+    if (!(ex.sets > 0)) errors.push(`${ex.name || `Exercise ${i + 1}`} needs at least one set`);
+  });
+  return errors;
+}
+
+/** Weekday name for a date in local time */
+export function weekDayOf(date: Date): WeekDay {
+  return WEEK_DAYS[(date.getDay() + 6) % 7];
+}
+
+/** Active client plans scheduled on the given day */
+export function plansForDay(plans: WorkoutPlan[], date: Date): WorkoutPlan[] {
+  const day = weekDayOf(date);
+  return plans.filter(p => p.is_active && !p.is_template && p.assigned_days.includes(day));
+}
+
+/** A logged set in the shape the effort charts consume; each row is one set */
+export function toEffortData(set: LoggedSet): EffortData {
+  return {
+    session_id: set.session_id,
+    exercise: set.exercise,
+    sets: 1,
+    reps: set.reps,
+    weight_lbs: set.weight_lbs,
+    rpe: set.rpe ?? 0,
+    rest_sec: set.rest_sec ?? 0,
+    muscle_group: set.muscle_group
+  };
+}
+
+/** Running totals for a session, matching what complete_workout_session writes */
+export function sessionTotals(sets: EffortData[], startedAt: Date, now: Date = new Date()): SessionTotals {
+  const rated = sets.filter(s => s.rpe > 0);
+  return {
+    duration_minutes: Math.max(1, Math.round((now.getTime() - startedAt.getTime()) / 60000)),
+    volume_lbs: sets.reduce((sum, s) => sum + s.weight_lbs * s.reps * s.sets, 0),
+    avg_rpe: rated.length ? Math.round((rated.reduce((sum, s) => sum + s.rpe, 0) / rated.length) * 10) / 10 : null,
+    exercises_completed: new Set(sets.map(s => s.exercise)).size,
+    sets: sets.reduce((sum, s) => sum + s.sets, 0)
+  };
+}
+
+function cleanDraft(draft: WorkoutPlanDraft): WorkoutPlanDraft {
+  const errors = validateWorkoutPlan(draft);
+  if (errors.length) throw new Error(errors[0]);
+  return {
+    ...draft,
+    name: draft.name.trim(),
+    description: draft.description.trim(),
+    exercises: draft.exercises.map(ex => ({ ...ex, name: ex.name.trim() })),
+    assigned_days: WEEK_DAYS.filter(d => draft.assigned_days.includes(d))
+  };
+}
+
+// ========== PLANS ==========
+
+export async function listWorkoutPlans(clientId: string): Promise<WorkoutPlan[]> {
+  const { data, error } = await getSupabase()
+    .from('workout_plans')
+    .select('*')
+    .eq('client_id', clientId)
+    .eq('is_template', false)
+    .order('created_at', { ascending: false });
+  if (error) throw new Error(`Failed to load workout plans: ${error.message}`);
+  return (data as WorkoutPlan[]) ?? [];
+}
+
+export async function listWorkoutTemplates(orgId: string): Promise<WorkoutPlan[]> {
+  const { data, error } = await getSupabase()
+    .from('workout_plans')
+    .select('*')
+    .eq('org_id', orgId)
+    .eq('is_template', true)
+    .order('name');
+  if (error) throw new Error(`Failed to load workout templates: ${error.message}`);
+  return (data as WorkoutPlan[]) ?? [];
+}
+
+/** Creates a client plan, or an org template when clientId is null */
+export async function createWorkoutPlan(orgId: string, clientId: string | null, draft: WorkoutPlanDraft): Promise<WorkoutPlan> {
+  const { data, error } = await getSupabase()
+    .from('workout_plans')
+    .insert({ ...cleanDraft(draft), org_id: orgId, client_id: clientId, is_template: clientId === null })
+    .select('*')
+    .single();
+  if (error) throw new Error(`Failed to create workout plan: ${error.message}`);
+  return data as WorkoutPlan;
+}
+
+/** Saves edits; the server bumps the version when the prescription changes */
+export async function updateWorkoutPlan(planId: string, draft: WorkoutPlanDraft): Promise<WorkoutPlan> {
+  const { data, error } = await getSupabase()
+    .from('workout_plans')
+    .update(cleanDraft(draft))
+    .eq('id', planId)
+    .select('*')
+    .single();
+  if (error) throw new Error(`Failed to update workout plan: ${error.message}`);
+  return data as WorkoutPlan;
+}
+
+export async function setWorkoutPlanActive(planId: string, isActive: boolean): Promise<WorkoutPlan> {
+  const { data, error } = await getSupabase()
+    .from('workout_plans')
+    .update({ is_active: isActive })
+    .eq('id', planId)
+    .select('*')
+    .single();
+  if (error) throw new Error(`Failed to update workout plan: ${error.message}`);
+  return data as WorkoutPlan;
+}
+
+export async function deleteWorkoutPlan(planId: string): Promise<void> {
+  const { error } = await getSupabase().from('workout_plans').delete().eq('id', planId);
+  if (error) throw new Error(`Failed to delete workout plan: ${error.message}`);
+}
+
+/** Earlier versions of a plan, newest first */
+export async function listPlanVersions(planId: string): Promise<WorkoutPlanVersion[]> {
+  const { data, error } = await getSupabase()
+    .from('workout_plan_versions')
+    .select('*')
+    .eq('plan_id', planId)
+    .order('version', { ascending: false });
+  if (error) throw new Error(`Failed to load plan history: ${error.message}`);
+  return (data as WorkoutPlanVersion[]) ?? [];
+}
+
+// ========== SESSIONS ==========
+
+export async function startWorkoutSession(plan: Pick<WorkoutPlan, 'id' | 'version'>): Promise<WorkoutSession> {
+  const { data, error } = await getSupabase()
+    .from('workout_sessions')
+    .insert({ plan_id: plan.id, plan_version: plan.version })
+    .select('*')
+    .single();
+  if (error) throw new Error(`Failed to start workout: ${error.message}`);
+  return data as WorkoutSession;
+}
+
+/** The user's unfinished session, if they left one open */
+export async function getOpenWorkoutSession(userId: string): Promise<WorkoutSession | null> {
+  const { data, error } = await getSupabase()
+    .from('workout_sessions')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('status', 'in_progress')
+    .order('started_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load workout session: ${error.message}`);
+  return (data as WorkoutSession | null) ?? null;
+}
+
+export async function listSessionSets(sessionId: string): Promise<LoggedSet[]> {
+  const { data, error } = await getSupabase()
+    .from('workout_sets')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('logged_at');
+  if (error) throw new Error(`Failed to load sets: ${error.message}`);
+  return (data as LoggedSet[]) ?? [];
+}
+
+export async function logWorkoutSet(
+  sessionId: string,
+  set: Pick<LoggedSet, 'exercise_id' | 'exercise' | 'muscle_group' | 'set_number' | 'reps' | 'weight_lbs' | 'rpe' | 'rest_sec'>
+): Promise<LoggedSet> {
+  if (!(set.reps >= 0) || !(set.weight_lbs >= 0)) throw new Error('Reps and weight cannot be negative');
+  if (set.rpe !== null && (set.rpe < 1 || set.rpe > 10)) throw new Error('RPE must be between 1 and 10');
+
+  const { data, error } = await getSupabase()
+    .from('workout_sets')
+    .insert({ ...set, session_id: sessionId })
+    .select('*')
+    .single();
+  if (error) throw new Error(`Failed to log set: ${error.message}`);
+  return data as LoggedSet;
+}
+
+export async function deleteWorkoutSet(setId: string): Promise<void> {
+  const { error } = await getSupabase().from('workout_sets').delete().eq('id', setId);
+  if (error) throw new Error(`Failed to delete set: ${error.message}`);
+}
+
+/** Closes the session and writes its totals to workout_logs */
+export async function completeWorkoutSession(
+  sessionId: string,
+  opts: { rating?: number; notes?: string } = {}
+): Promise<WorkoutLog> {
+  const { data, error } = await getSupabase().rpc('complete_workout_session', {
+    p_session_id: sessionId,
+    p_rating: opts.rating ?? null,
+    p_notes: opts.notes?.trim() || null
+  });
+  if (error) throw new Error(`Failed to finish workout: ${error.message}`);
+  return data as WorkoutLog;
+}
+
+export async function abandonWorkoutSession(sessionId: string): Promise<void> {
+  const { error } = await getSupabase()
+    .from('workout_sessions')
+    .update({ status: 'abandoned', ended_at: new Date().toISOString() })
+    .eq('id', sessionId)
+    .eq('status', 'in_progress');
+  if (error) throw new Error(`Failed to end workout: ${error.message}`);
+}
+
+/** Completed session counts and last session date per plan, for the trainer view */
+export async function planSessionStats(
+  clientId: string
+): Promise<Record<string, { sessions: number; lastSessionAt: string | null }>> {
+  const { data, error } = await getSupabase()
+    .from('workout_sessions')
+    .select('plan_id, ended_at')
+    .eq('user_id', clientId)
+    .eq('status', 'completed');
+  if (error) throw new Error(`Failed to load session history: ${error.message}`);
+
+  const stats: Record<string, { sessions: number; lastSessionAt: string | null }> = {};
+  for (const row of (data as Array<{ plan_id: string | null; ended_at: string | null }>) ?? []) {
+    if (!row.plan_id) continue;
+    const s = stats[row.plan_id] ?? { sessions: 0, lastSessionAt: null };
+    stats[row.plan_id] = s;
+    s.sessions += 1;
+    if (row.ended_at && (!s.lastSessionAt || row.ended_at > s.lastSessionAt)) s.lastSessionAt = row.ended_at;
+  }
+  return stats;
+}
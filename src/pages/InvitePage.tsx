@@ -0,0 +1,118 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { Check, Clock, UserX, Users } from 'lucide-react';
+import { setActiveOrgSafe } from '../lib/org';
+import { acceptInvitation, declineInvitation, getInvitation, type InvitationPreview } from '../lib/orgInvites';
+
+export default function InvitePage() {
+  const { token = '' } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const [invite, setInvite] = useState<InvitationPreview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [responding, setResponding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getInvitation(token)
+      .then(setInvite)
+      .catch(e => setError(e instanceof Error ? e.message : 'Failed to load invitation'))
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  async function handleAccept() {
+    setResponding(true);
+    setError(null);
+    try {
+      const orgId = await acceptInvitation(token);
+      await setActiveOrgSafe(orgId);
+      toast.success(`You joined ${invite?.org_name ?? 'the organization'}`);
+      navigate('/dashboard', { replace: true });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to accept invitation');
+      setResponding(false);
+    }
+  }
+
+  async function handleDecline() {
+    setResponding(true);
+    setError(null);
+    try {
+      await declineInvitation(token);
+      setInvite(prev => (prev ? { ...prev, status: 'declined' } : prev));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to decline invitation');
+    } finally {
+      setResponding(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="w-8 h-8 border-2 border-blue-600 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  const closedMessage: Record<Exclude<InvitationPreview['status'], 'pending'>, string> = {
+    accepted: 'This invitation has already been accepted.',
+    declined: 'This invitation was declined.',
+    cancelled: 'This invitation was withdrawn by the sender.',
+    expired: 'This invitation has expired. Ask your trainer to send a new one.'
+  };
+
+  return (
+    <div className="max-w-md mx-auto p-6 mt-12">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8 text-center">
+        {!invite ? (
+          <>
+            <UserX size={48} className="text-gray-400 mx-auto mb-4" />
+            <h1 className="text-xl font-semibold text-gray-900 mb-2">Invitation not found</h1>
+            <p className="text-gray-600">The link may be incomplete or the invitation was removed.</p>
+          </>
+        ) : invite.status !== 'pending' ? (
+          <>
+            <Clock size={48} className="text-gray-400 mx-auto mb-4" />
+            <h1 className="text-xl font-semibold text-gray-900 mb-2">{invite.org_name ?? 'Invitation'}</h1>
+            <p className="text-gray-600">{closedMessage[invite.status]}</p>
+          </>
+        ) : (
+          <>
+            <Users size={48} className="text-blue-600 mx-auto mb-4" />
+            <h1 className="text-xl font-semibold text-gray-900 mb-2">
+              Join {invite.org_name ?? 'this organization'}
+            </h1>
+            <p className="text-gray-600 mb-1">
+              {invite.inviter_name ?? 'Your trainer'} invited you as a {invite.role}.
+            </p>
+            <p className="text-sm text-gray-500 mb-6">
+              Expires {new Date(invite.expires_at).toLocaleDateString()}
+              {invite.invited_email ? ` · for ${invite.invited_email}` : ''}
+            </p>
+            <div className="flex gap-3 justify-center">
+              {invite.invited_email && (
+                <button
+                  onClick={handleDecline}
+                  disabled={responding}
+                  className="px-4 py-2 border border-gray-300 hover:bg-gray-50 disabled:opacity-50 rounded-lg font-medium transition-colors"
+                >
+                  Decline
+                </button>
+              )}
+              <button
+                onClick={handleAccept}
+                disabled={responding}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white rounded-lg font-medium transition-colors"
+              >
+                <Check size={16} />
+                Accept
+              </button>
+            </div>
+          </>
+        )}
+        {error && <p className="text-sm text-red-600 mt-4">{error}</p>}
+      </div>
+    </div>
+  );
+}
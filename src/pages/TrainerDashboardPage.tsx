@@ -10,7 +10,7 @@ interface TrainerDashboardPageProps {
 export default function TrainerDashboardPage({ userProfile }: TrainerDashboardPageProps) {
   return (
     <div style={{ position: 'relative' }}>
-      <DataSourceBadge source="mock" />
+      <DataSourceBadge source="live" />
       <TrainerDashboardComponent userProfile={userProfile} />
     </div>
   );
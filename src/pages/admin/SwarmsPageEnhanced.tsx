@@ -1,9 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { useSwarmsStore } from '../../store/swarms';
 import { useSwarmsEnhancedStore } from '../../store/swarmsEnhanced';
-import { Settings, ChevronRight, Edit2, Save, X, Play, Plus, Activity, CheckCircle, XCircle, Lock, FileText, Users } from 'lucide-react';
+import { Settings, ChevronRight, Edit2, Save, X, Play, Plus, Activity, CheckCircle, XCircle, Lock, FileText, Users, BarChart3 } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { TestRunnerModal } from '../../components/admin/TestRunnerModal';
+import { ExperimentReport } from '../../components/admin/ExperimentReport';
 import { getFeatureFlags } from '../../lib/featureFlags';
 import { getSupabase } from '../../lib/supabase';
 import * as swarmsAPI from '../../lib/api/swarmsEnhanced';
@@ -55,13 +56,15 @@ export default function SwarmsPageEnhanced() {
   const [editingManifest, setEditingManifest] = useState<string>('');
   const [isEditing, setIsEditing] = useState(false);
   const [rolloutValue, setRolloutValue] = useState(0);
+  const [holdoutValue, setHoldoutValue] = useState(0);
   const [testRunnerOpen, setTestRunnerOpen] = useState(false);
+  const [testPromptId, setTestPromptId] = useState<string | undefined>(undefined);
   const [hasAccess, setHasAccess] = useState<boolean | null>(null);
   const [healthStatus, setHealthStatus] = useState<{ checking: boolean; status: 'ok' | 'error' | null; message?: string }>({ checking: false, status: null });
   const [manifestError, setManifestError] = useState<string>('');
   const [cohortValue, setCohortValue] = useState<'beta' | 'paid' | 'all'>('beta');
   const [adminFlags, setAdminFlags] = useState<{ adminSwarmsEnhanced: boolean } | null>(null);
-  const [activeTab, setActiveTab] = useState<'agents' | 'manifest' | 'prompts'>('agents');
+  const [activeTab, setActiveTab] = useState<'agents' | 'manifest' | 'prompts' | 'experiments'>('agents');
   const [editingPrompt, setEditingPrompt] = useState<{ agentKeyOrId: string; model: string; text: string; title: string } | null>(null);
   const [promptError, setPromptError] = useState<string>('');
   const [promptsShape, setPromptsShape] = useState<PromptsShape>('unknown');
@@ -119,11 +122,16 @@ export default function SwarmsPageEnhanced() {
   }, [selectedSwarm, fetchSwarmVersions]);
 
   useEffect(() => {
-    const published = swarmVersions.find(v => v.status === 'published');
+    // The newest published version is the one being rolled out; an older one stays live as the control
+    const published = swarmVersions
+      .filter(v => v.status === 'published')
+      .sort((a, b) => (b.published_at ?? '').localeCompare(a.published_at ?? ''))[0];
     if (published) {
       setActiveVersion(published);
       setEditingManifest(JSON.stringify(published.manifest, null, 2));
       setRolloutValue(published.rollout_percent);
+      setHoldoutValue(published.holdout_percent ?? 0);
+      if (published.cohort) setCohortValue(published.cohort);
     }
   }, [swarmVersions]);
 
@@ -188,8 +196,8 @@ export default function SwarmsPageEnhanced() {
       return;
     }
     try {
-      await swarmsAPI.updateRollout(versionId, { rollout_percent: percent, cohort: cohortValue });
-      console.debug('[enhanced-swarms] rollout: update ok', { id: versionId, percent, cohort: cohortValue });
+      await swarmsAPI.updateRollout(versionId, { rollout_percent: percent, holdout_percent: holdoutValue, cohort: cohortValue });
+      console.debug('[enhanced-swarms] rollout: update ok', { id: versionId, percent, holdout: holdoutValue, cohort: cohortValue });
       setRolloutValue(percent);
       toast.success(`Rollout updated to ${percent}% for ${cohortValue} cohort`);
       await fetchSwarmVersions(selectedSwarm.id);
@@ -456,6 +464,7 @@ export default function SwarmsPageEnhanced() {
                       <button
                         onClick={() => {
                           if (WRITE_ENABLED) {
+                            setTestPromptId(undefined);
                             setTestRunnerOpen(true);
                           }
                         }}
@@ -519,9 +528,25 @@ export default function SwarmsPageEnhanced() {
                         Prompts
                       </div>
                     </button>
+                    <button
+                      onClick={() => setActiveTab('experiments')}
+                      className={`px-6 py-3 text-sm font-medium border-b-2 transition-colors ${
+                        activeTab === 'experiments'
+                          ? 'border-blue-500 text-blue-600'
+                          : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                      }`}
+                    >
+                      <div className="flex items-center gap-2">
+                        <BarChart3 className="h-4 w-4" />
+                        Experiments
+                      </div>
+                    </button>
                   </div>
                 </div>
 
+                {/* Experiments Tab */}
+                {activeTab === 'experiments' && <ExperimentReport swarmId={selectedSwarm.id} />}
+
                 {/* Agents Tab */}
                 {activeTab === 'agents' && (
                   <div className="p-6">
@@ -723,7 +748,13 @@ export default function SwarmsPageEnhanced() {
                                 )}
                               </div>
 
-                              {version.status === 'published' && (
+                              {version.status === 'published' && version.id !== activeVersion?.id && (
+                                <div className="mt-3 pt-3 border-t border-green-200 text-xs text-gray-600">
+                                  Control: serves users outside the newer version's rollout, its holdout and other cohorts.
+                                </div>
+                              )}
+
+                              {version.status === 'published' && version.id === activeVersion?.id && (
                                 <div className="mt-3 pt-3 border-t border-green-200">
                                   <label className="block text-sm font-medium text-gray-700 mb-2">
                                     Rollout Percentage: {version.rollout_percent}%
@@ -783,8 +814,29 @@ export default function SwarmsPageEnhanced() {
                                       <option value="all">All Users</option>
                                     </select>
                                   </div>
+                                  <div className="mb-3">
+                                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                                      Holdout: {holdoutValue}% of users always get the control
+                                    </label>
+                                    <input
+                                      type="range"
+                                      min="0"
+                                      max="50"
+                                      value={holdoutValue}
+                                      onChange={(e) => {
+                                        if (WRITE_ENABLED) {
+                                          setHoldoutValue(Number(e.target.value));
+                                        }
+                                      }}
+                                      disabled={!WRITE_ENABLED}
+                                      aria-disabled={!WRITE_ENABLED}
+                                      tabIndex={!WRITE_ENABLED ? -1 : 0}
+                                      className="w-full disabled:opacity-50 disabled:cursor-not-allowed"
+                                    />
+                                  </div>
                                   <div className="bg-blue-50 border border-blue-200 rounded p-2 text-xs text-blue-700">
-                                    Active rollout: {version.rollout_percent}% to {cohortValue} cohort
+                                    Active rollout: {version.rollout_percent}% to {version.cohort ?? cohortValue} cohort
+                                    {(version.holdout_percent ?? 0) > 0 && `, ${version.holdout_percent}% held out`}
                                   </div>
                                 </div>
                               )}
@@ -982,25 +1034,36 @@ export default function SwarmsPageEnhanced() {
                                       Created: {new Date(prompt.created_at).toLocaleString()}
                                     </p>
                                   </div>
-                                  {prompt.status === 'draft' && (
-                                    <div className="relative group">
-                                      <button
-                                        onClick={() => handlePublishPrompt(prompt.id)}
-                                        disabled={!WRITE_ENABLED}
-                                        aria-disabled={!WRITE_ENABLED}
-                                        tabIndex={!WRITE_ENABLED ? -1 : 0}
-                                        className="px-3 py-1 bg-green-600 text-white text-xs rounded hover:bg-green-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
-                                        title={!WRITE_ENABLED ? "Writes disabled in this environment" : ""}
-                                      >
-                                        Publish
-                                      </button>
-                                      {!WRITE_ENABLED && (
-                                        <div className="hidden group-hover:block absolute top-full mt-1 right-0 z-10 px-3 py-2 bg-gray-900 text-white text-xs rounded shadow-lg whitespace-nowrap">
-                                          Writes disabled in this environment
-                                        </div>
-                                      )}
-                                    </div>
-                                  )}
+                                  <div className="flex items-center gap-2">
+                                    <button
+                                      onClick={() => {
+                                        setTestPromptId(prompt.id);
+                                        setTestRunnerOpen(true);
+                                      }}
+                                      className="px-3 py-1 bg-white border border-gray-300 text-gray-700 text-xs rounded hover:bg-gray-50"
+                                    >
+                                      Fixtures
+                                    </button>
+                                    {prompt.status === 'draft' && (
+                                      <div className="relative group">
+                                        <button
+                                          onClick={() => handlePublishPrompt(prompt.id)}
+                                          disabled={!WRITE_ENABLED}
+                                          aria-disabled={!WRITE_ENABLED}
+                                          tabIndex={!WRITE_ENABLED ? -1 : 0}
+                                          className="px-3 py-1 bg-green-600 text-white text-xs rounded hover:bg-green-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+                                          title={!WRITE_ENABLED ? "Writes disabled in this environment" : ""}
+                                        >
+                                          Publish
+                                        </button>
+                                        {!WRITE_ENABLED && (
+                                          <div className="hidden group-hover:block absolute top-full mt-1 right-0 z-10 px-3 py-2 bg-gray-900 text-white text-xs rounded shadow-lg whitespace-nowrap">
+                                            Writes disabled in this environment
+                                          </div>
+                                        )}
+                                      </div>
+                                    )}
+                                  </div>
                                 </div>
                                 <details className="mt-2">
                                   <summary className="text-xs text-gray-600 cursor-pointer hover:text-gray-900">
@@ -1032,6 +1095,7 @@ export default function SwarmsPageEnhanced() {
       <TestRunnerModal
         isOpen={testRunnerOpen}
         onClose={() => setTestRunnerOpen(false)}
+        agentPromptId={testPromptId}
         swarmId={selectedSwarm?.id}
       />
     </div>
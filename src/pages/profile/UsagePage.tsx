@@ -1,6 +1,9 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/lib/supabase';
 import toast from 'react-hot-toast';
+import { getUsageSince, summarizeUsage, type UsageBucket, type UsageSummary } from '../../lib/credits/usage';
+
+const USAGE_WINDOW_DAYS = 30;
 
 interface CreditInfo {
   balance: number;
@@ -11,14 +14,47 @@ interface CreditInfo {
 
 interface Transaction {
   id: string;
-  amount: number;
+  delta_usd: number;
   reason: string;
   created_at: string;
 }
 
+function UsageTable({ title, keyLabel, buckets }: { title: string; keyLabel: string; buckets: UsageBucket[] }) {
+  return (
+    <div className="bg-white rounded-lg shadow overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h3 className="text-lg font-bold text-gray-900">{title}</h3>
+      </div>
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{keyLabel}</th>
+            <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Calls</th>
+            <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Tokens (in / out)</th>
+            <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Cost</th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {buckets.map((b) => (
+            <tr key={b.key} className="hover:bg-gray-50">
+              <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">{b.key}</td>
+              <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-gray-600">{b.calls}</td>
+              <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-gray-600">
+                {b.inputTokens.toLocaleString()} / {b.outputTokens.toLocaleString()}
+              </td>
+              <td className="px-6 py-3 whitespace-nowrap text-sm text-right font-medium text-gray-900">${b.costUsd.toFixed(4)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
 export default function UsagePage() {
   const [credits, setCredits] = useState<CreditInfo | null>(null);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
   const [loading, setLoading] = useState(true);
   const [showTopUp, setShowTopUp] = useState(false);
   const [processing, setProcessing] = useState(false);
@@ -46,6 +82,12 @@ export default function UsagePage() {
       if (transactionsRes.data) {
         setTransactions(transactionsRes.data);
       }
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (user) {
+        const since = new Date(Date.now() - USAGE_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+        setUsage(summarizeUsage(await getUsageSince(user.id, since)));
+      }
     } catch (err) {
       console.error('Error loading usage data:', err);
       toast.error('Failed to load usage data');
@@ -211,6 +253,20 @@ export default function UsagePage() {
         </div>
       )}
 
+      {usage && usage.byDay.length > 0 && (
+        <div className="mb-8">
+          <div className="flex items-baseline justify-between mb-4">
+            <h2 className="text-xl font-bold text-gray-900">AI Usage (last {USAGE_WINDOW_DAYS} days)</h2>
+            <div className="text-sm text-gray-600">Total ${usage.totalUsd.toFixed(4)}</div>
+          </div>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mb-4">
+            <UsageTable title="By Intent" keyLabel="Intent" buckets={usage.byIntent} />
+            <UsageTable title="By Model" keyLabel="Model" buckets={usage.byModel} />
+          </div>
+          <UsageTable title="By Day" keyLabel="Day" buckets={usage.byDay} />
+        </div>
+      )}
+
       <div className="bg-white rounded-lg shadow overflow-hidden">
         <div className="px-6 py-4 border-b border-gray-200">
           <h2 className="text-xl font-bold text-gray-900">Recent Transactions</h2>
@@ -240,9 +296,9 @@ export default function UsagePage() {
                     {tx.reason}
                   </td>
                   <td className={`px-6 py-4 whitespace-nowrap text-sm text-right font-medium ${
-                    tx.amount > 0 ? 'text-green-600' : 'text-red-600'
+                    tx.delta_usd > 0 ? 'text-green-600' : 'text-red-600'
                   }`}>
-                    {tx.amount > 0 ? '+' : ''}${Math.abs(tx.amount).toFixed(4)}
+                    {tx.delta_usd > 0 ? '+' : '-'}${Math.abs(tx.delta_usd).toFixed(4)}
                   </td>
                 </tr>
               ))}
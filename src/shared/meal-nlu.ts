@@ -5,6 +5,7 @@
  */
 
 import { z } from 'zod';
+import { getSupabase } from '../lib/supabase';
 // PROMPTS definition (inline to avoid missing config dependency)
 const PROMPTS = {
   SHARED_MACRO_NLU: `Parse meal descriptions into structured food items.
@@ -43,13 +44,14 @@ export type MealParse = z.infer<typeof MealParseSchema>;
  */
 export async function parseMeal(text: string): Promise<MealParse> {
   try {
-    // Call OpenAI with SHARED_MACRO_NLU prompt
+    // Call OpenAI with SHARED_MACRO_NLU prompt; openai-chat needs the user's JWT
+    const { data: { session } } = await getSupabase().auth.getSession();
     const response = await fetch(
       `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/openai-chat`,
       {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${session?.access_token ?? import.meta.env.VITE_SUPABASE_ANON_KEY}`,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
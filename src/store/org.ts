@@ -1,10 +1,11 @@
 import { create } from 'zustand';
 import { getActiveOrgIdSafe, setActiveOrgSafe, listOrganizationsSafe, type Org } from '../lib/org';
+import type { OrgRole } from '../lib/orgInvites';
 
 export interface OrgMember { 
   org_id: string; 
   user_id: string; 
-  role: 'owner'|'admin'|'member'; 
+  role: OrgRole; 
   status: 'active'|'invited'|'inactive'; 
 }
 
@@ -40,6 +40,8 @@ interface SwarmVersion {
   swarm_id: string;
   status: 'draft' | 'published' | 'archived';
   rollout_percent: number;
+  holdout_percent: number;
+  cohort: 'beta' | 'paid' | 'all';
   manifest: Record<string, any>;
   created_by: string | null;
   created_at: string;
@@ -1,8 +1,11 @@
+import type { WorkoutVerifyData } from '../core/workout/workoutParser';
+
 export interface ChatMessage {
   id: string;
   text: string;
   timestamp: Date;
   isUser: boolean;
+  turnId?: string; // chat_turn_variants row, for verify outcomes and thumbs
   meta?: {
     macros?: MacroPayload;
     route?: string;
@@ -20,13 +23,13 @@ export interface ChatMessage {
     ama_nutrition_estimate?: boolean;
   };
   roleData?: {
-    type?: 'tmwya.verify' | 'ama.meal_estimate_only';
+    type?: 'tmwya.verify' | 'ama.meal_estimate_only' | 'workout.verify';
     view?: any;
     items?: any[];
     totals?: any;
     tef?: any;
     tdee?: any;
-  };
+  } & Partial<Omit<WorkoutVerifyData, 'type'>>;
 }
 
 export interface MacroPayload {
@@ -268,7 +268,7 @@ export interface ComplianceEvent {
   id: string;
   user_id: string;
   mentor_plan_id: string;
-  meal_id?: string;
+  meal_log_id?: string | null;
   event_type: 'over_calories' | 'under_protein' | 'missed_meal' | 'excellent_day' | 'custom';
   severity: 'info' | 'warning' | 'success';
   message: string;
@@ -277,6 +277,8 @@ export interface ComplianceEvent {
     protein_short?: number;
     [key: string]: number | undefined;
   };
+  event_date?: string; // YYYY-MM-DD
+  read_at?: string | null;
   created_at: string;
 }
 
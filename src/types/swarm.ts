@@ -24,6 +24,7 @@ export interface MemoryRow {
   topics: string[];
   is_pii: boolean;
   conflict_priority: number;
+  embedding?: number[] | null;
   created_at: string;
   updated_at: string;
 }
@@ -90,7 +91,17 @@ export interface ChatSummaryWithEmbedding {
   created_at: string;
 }
 
-export type DietType = 'balanced' | 'keto' | 'low_carb' | 'carnivore' | 'vegetarian' | 'vegan';
+export type DietType =
+  | 'balanced'
+  | 'keto'
+  | 'low_carb'
+  | 'carnivore'
+  | 'vegetarian'
+  | 'vegan'
+  | 'pescatarian'
+  | 'mediterranean'
+  | 'paleo'
+  | 'low_fodmap';
 
 export interface DietaryPreferences {
   diet_type: DietType;
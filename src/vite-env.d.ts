@@ -3,6 +3,7 @@
 interface ImportMetaEnv {
   readonly VITE_BETA_HOLD?: string;
   readonly VITE_BETA_VIDEO_URL?: string;
+  readonly VITE_MACRO_PROVIDERS_DISABLED?: string;
 }
 
 interface ImportMeta {
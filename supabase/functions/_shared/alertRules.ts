@@ -0,0 +1,363 @@
+/**
+ * Metric alert rules
+ * Pure evaluation of logged sleep, workouts, nutrition day rollups and weigh-ins
+ * into MetricAlert candidates. Shared by the metric-alerts-evaluate edge
+ * function and the app (re-exported from src/core/alerts/rules.ts); persistence
+ * and cooldown lookups live with the callers, and everything here runs against
+ * plain fixture histories.
+ */
+
+import type { MetricAlert } from '../../../src/types/metrics.ts';
+
+export type AlertType = MetricAlert['type'];
+export type AlertSeverity = MetricAlert['severity'];
+
+export interface SleepEntry {
+  sleep_date: string;
+  duration_minutes: number;
+  /** HH:MM[:SS] local */
+  bedtime: string | null;
+}
+
+export interface WorkoutEntry {
+  workout_date: string;
+  duration_minutes: number;
+  workout_type: string;
+  volume_lbs: number | null;
+  avg_rpe: number | null;
+}
+
+export interface DayEntry {
+  date: string;
+  totals: { kcal?: number; protein_g?: number };
+  targets: { kcal?: number; protein_g?: number } | null;
+}
+
+export interface WeightEntry {
+  log_date: string;
+  weight_lbs: number;
+}
+
+/** Everything the rules read; dates are local YYYY-MM-DD, any order */
+export interface AlertHistory {
+  sleep: SleepEntry[];
+  workouts: WorkoutEntry[];
+  days: DayEntry[];
+  weights: WeightEntry[];
+}
+
+export interface AlertConfig {
+  sleep_debt: {
+    target_minutes: number;
+    window_days: number;
+    min_nights: number;
+    warning_minutes: number;
+    critical_minutes: number;
+    cooldown_days: number;
+  };
+  circadian_drift: {
+    window_days: number;
+    min_nights: number;
+    /** Standard deviation of bedtime that counts as drift */
+    stddev_minutes: number;
+    cooldown_days: number;
+  };
+  fatigue_flag: {
+    sessions: number;
+    rpe: number;
+    /** Average sleep over the same nights below this adds up to fatigue */
+    sleep_minutes: number;
+    cooldown_days: number;
+  };
+  overreaching: {
+    acute_days: number;
+    chronic_days: number;
+    warning_ratio: number;
+    critical_ratio: number;
+    /** Sessions needed in the chronic window before a ratio means anything */
+    min_chronic_sessions: number;
+    /** RPE assumed for sessions logged without one */
+    default_rpe: number;
+    cooldown_days: number;
+  };
+  protein_insufficient: {
+    days: number;
+    /** Share of the protein target below which a day counts as short */
+    pct: number;
+    /** Weekly bodyweight loss (%) that escalates short protein to critical */
+    weight_loss_pct_per_week: number;
+    cooldown_days: number;
+  };
+  pr_achieved: {
+    min_prior_sessions: number;
+    cooldown_days: number;
+  };
+  consistency_nudge: {
+    workout_gap_days: number;
+    weigh_in_gap_days: number;
+    cooldown_days: number;
+  };
+}
+
+export type AlertConfigOverrides = { [K in keyof AlertConfig]?: Partial<AlertConfig[K]> };
+
+export const DEFAULT_ALERT_CONFIG: AlertConfig = {
+  sleep_debt: { target_minutes: 480, window_days: 7, min_nights: 3, warning_minutes: 300, critical_minutes: 600, cooldown_days: 3 },
+  circadian_drift: { window_days: 7, min_nights: 4, stddev_minutes: 60, cooldown_days: 7 },
+  fatigue_flag: { sessions: 3, rpe: 8.5, sleep_minutes: 390, cooldown_days: 3 },
+  overreaching: { acute_days: 7, chronic_days: 28, warning_ratio: 1.5, critical_ratio: 1.8, min_chronic_sessions: 4, default_rpe: 6, cooldown_days: 7 },
+  protein_insufficient: { days: 3, pct: 0.8, weight_loss_pct_per_week: 1, cooldown_days: 3 },
+  pr_achieved: { min_prior_sessions: 3, cooldown_days: 0 },
+  consistency_nudge: { workout_gap_days: 4, weigh_in_gap_days: 7, cooldown_days: 4 }
+};
+
+/** An alert the rules want raised; dedupe_key keeps re-runs from duplicating it */
+export interface AlertCandidate {
+  type: AlertType;
+  severity: AlertSeverity;
+  message: string;
+  dedupe_key: string;
+  data: Record<string, number | string | null>;
+}
+
+/** A previously persisted alert, for cooldowns */
+export interface RecentAlert {
+  type: AlertType;
+  created_at: string;
+}
+
+export function mergeAlertConfig(overrides: AlertConfigOverrides | null | undefined): AlertConfig {
+  const merged = { ...DEFAULT_ALERT_CONFIG };
+  if (!overrides) return merged;
+  for (const key of Object.keys(DEFAULT_ALERT_CONFIG) as Array<keyof AlertConfig>) {
+    if (overrides[key]) {
+      (merged as Record<keyof AlertConfig, unknown>)[key] = { ...DEFAULT_ALERT_CONFIG[key], ...overrides[key] };
+    }
+  }
+  return merged;
+}
+
+// ========== DATE HELPERS ==========
+
+const DAY_MS = 86400000;
+
+function localDate(d: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/** Whole days from a YYYY-MM-DD date to today's local date */
+function daysAgo(date: string, today: string): number {
+  return Math.round((Date.parse(`${today}T00:00:00Z`) - Date.parse(`${date}T00:00:00Z`)) / DAY_MS);
+}
+
+function within<T>(rows: T[], dateOf: (row: T) => string, today: string, fromDays: number, toDays = 0): T[] {
+  return rows.filter(r => {
+    const ago = daysAgo(dateOf(r), today);
+    return ago >= toDays && ago < fromDays;
+  });
+}
+
+function byDateDesc<T>(rows: T[], dateOf: (row: T) => string): T[] {
+  return [...rows].sort((a, b) => dateOf(b).localeCompare(dateOf(a)));
+}
+
+/** Minutes after noon, so bedtimes either side of midnight stay close together */
+function bedtimeMinutes(bedtime: string): number {
+  const [h, m] = bedtime.split(':').map(Number);
+  return (((h - 12 + 24) % 24) * 60) + (m || 0);
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function hours(minutes: number): string {
+  return `${Math.round((minutes / 60) * 10) / 10}h`;
+}
+
+// ========== RULES ==========
+
+type Rule = (history: AlertHistory, config: AlertConfig, today: string) => AlertCandidate | null;
+
+const sleepDebt: Rule = (history, config, today) => {
+  const c = config.sleep_debt;
+  const nights = within(history.sleep, s => s.sleep_date, today, c.window_days);
+  if (nights.length < c.min_nights) return null;
+
+  const debt = nights.reduce((sum, n) => sum + Math.max(0, c.target_minutes - n.duration_minutes), 0);
+  if (debt < c.warning_minutes) return null;
+  return {
+    type: 'sleep_debt',
+    severity: debt >= c.critical_minutes ? 'critical' : 'warning',
+    message: `You're carrying about ${hours(debt)} of sleep debt over the last ${c.window_days} days.`,
+    dedupe_key: `sleep_debt:${today}`,
+    data: { debt_minutes: debt, nights: nights.length }
+  };
+};
+
+const circadianDrift: Rule = (history, config, today) => {
+  const c = config.circadian_drift;
+  const bedtimes = within(history.sleep, s => s.sleep_date, today, c.window_days)
+    .filter(s => s.bedtime)
+    .map(s => bedtimeMinutes(s.bedtime as string));
+  if (bedtimes.length < c.min_nights) return null;
+
+  const avg = mean(bedtimes);
+  const stddev = Math.sqrt(mean(bedtimes.map(b => (b - avg) ** 2)));
+  if (stddev < c.stddev_minutes) return null;
+  return {
+    type: 'circadian_drift',
+    severity: 'warning',
+    message: `Your bedtime has varied by about ${Math.round(stddev)} minutes this week. A steadier schedule helps recovery.`,
+    dedupe_key: `circadian_drift:${today}`,
+    data: { stddev_minutes: Math.round(stddev), nights: bedtimes.length }
+  };
+};
+
+const fatigueFlag: Rule = (history, config, today) => {
+  const c = config.fatigue_flag;
+  const sessions = byDateDesc(history.workouts.filter(w => w.avg_rpe !== null), w => w.workout_date).slice(0, c.sessions);
+  if (sessions.length < c.sessions || daysAgo(sessions[0].workout_date, today) > 2) return null;
+
+  const rpe = mean(sessions.map(s => s.avg_rpe as number));
+  const nights = byDateDesc(history.sleep, s => s.sleep_date).slice(0, c.sessions);
+  if (rpe < c.rpe || !nights.length) return null;
+
+  const sleep = mean(nights.map(n => n.duration_minutes));
+  if (sleep >= c.sleep_minutes) return null;
+  return {
+    type: 'fatigue_flag',
+    severity: 'warning',
+    message: `Your last ${sessions.length} sessions averaged RPE ${Math.round(rpe * 10) / 10} on ${hours(sleep)} of sleep. Consider an easier day.`,
+    dedupe_key: `fatigue_flag:${sessions[0].workout_date}`,
+    data: { avg_rpe: Math.round(rpe * 10) / 10, avg_sleep_minutes: Math.round(sleep) }
+  };
+};
+
+const overreaching: Rule = (history, config, today) => {
+  const c = config.overreaching;
+  const load = (rows: WorkoutEntry[]) => rows.reduce((sum, w) => sum + w.duration_minutes * (w.avg_rpe ?? c.default_rpe), 0);
+
+  const acute = load(within(history.workouts, w => w.workout_date, today, c.acute_days));
+  const chronicRows = within(history.workouts, w => w.workout_date, today, c.acute_days + c.chronic_days, c.acute_days);
+  if (chronicRows.length < c.min_chronic_sessions) return null;
+
+  // Weekly-equivalent load over the chronic window
+  const chronic = load(chronicRows) * (c.acute_days / c.chronic_days);
+  const ratio = acute / chronic;
+  if (!(ratio >= c.warning_ratio)) return null;
+  return {
+    type: 'overreaching',
+    severity: ratio >= c.critical_ratio ? 'critical' : 'warning',
+    message: `This week's training load is ${Math.round(ratio * 10) / 10}× your recent average. Watch for signs of overreaching.`,
+    dedupe_key: `overreaching:${today}`,
+    data: { acute_load: Math.round(acute), chronic_load: Math.round(chronic), ratio: Math.round(ratio * 100) / 100 }
+  };
+};
+
+const proteinInsufficient: Rule = (history, config, today) => {
+  const c = config.protein_insufficient;
+  // Today is still in progress, so judge the last completed logged days
+  const days = byDateDesc(history.days.filter(d => d.date < today && (d.targets?.protein_g ?? 0) > 0), d => d.date)
+    .slice(0, c.days);
+  if (days.length < c.days) return null;
+
+  const short = days.every(d => (d.totals.protein_g ?? 0) < (d.targets?.protein_g as number) * c.pct);
+  if (!short) return null;
+
+  const avgPct = Math.round(mean(days.map(d => (d.totals.protein_g ?? 0) / (d.targets?.protein_g as number))) * 100);
+  const weights = byDateDesc(within(history.weights, w => w.log_date, today, 14), w => w.log_date);
+  let weeklyLossPct: number | null = null;
+  if (weights.length >= 2) {
+    const span = daysAgo(weights[weights.length - 1].log_date, weights[0].log_date);
+    const first = weights[weights.length - 1].weight_lbs;
+    if (span > 0 && first > 0) weeklyLossPct = ((first - weights[0].weight_lbs) / first) * 100 * (7 / span);
+  }
+  const losing = weeklyLossPct !== null && weeklyLossPct >= c.weight_loss_pct_per_week;
+
+  return {
+    type: 'protein_insufficient',
+    severity: losing ? 'critical' : 'warning',
+    message: losing
+      ? `Protein has averaged ${avgPct}% of target for ${c.days} days while weight is dropping fast. Muscle is at risk.`
+      : `Protein has averaged ${avgPct}% of target for the last ${c.days} days.`,
+    dedupe_key: `protein_insufficient:${days[0].date}`,
+    data: { avg_pct: avgPct, weekly_loss_pct: weeklyLossPct === null ? null : Math.round(weeklyLossPct * 10) / 10 }
+  };
+};
+
+const prAchieved: Rule = (history, config, today) => {
+  const c = config.pr_achieved;
+  const sessions = byDateDesc(history.workouts.filter(w => (w.volume_lbs ?? 0) > 0), w => w.workout_date);
+  if (!sessions.length || daysAgo(sessions[0].workout_date, today) > 1) return null;
+
+  const [latest, ...prior] = sessions;
+  const sameType = prior.filter(p => p.workout_type === latest.workout_type);
+  if (sameType.length < c.min_prior_sessions) return null;
+
+  const best = Math.max(...sameType.map(p => p.volume_lbs as number));
+  if ((latest.volume_lbs as number) <= best) return null;
+  return {
+    type: 'pr_achieved',
+    severity: 'info',
+    message: `New volume PR: ${Math.round(latest.volume_lbs as number).toLocaleString()} lbs, beating your previous best of ${Math.round(best).toLocaleString()} lbs.`,
+    dedupe_key: `pr_achieved:${latest.workout_date}`,
+    data: { volume_lbs: latest.volume_lbs, previous_best: best }
+  };
+};
+
+const consistencyNudge: Rule = (history, config, today) => {
+  const c = config.consistency_nudge;
+  const lastWorkout = byDateDesc(history.workouts, w => w.workout_date)[0];
+  const lastWeighIn = byDateDesc(history.weights, w => w.log_date)[0];
+  const workoutGap = lastWorkout ? daysAgo(lastWorkout.workout_date, today) : null;
+  const weighInGap = lastWeighIn ? daysAgo(lastWeighIn.log_date, today) : null;
+
+  // Only nudge people who have the habit to lose
+  let nudge: AlertCandidate | null = null;
+  if (workoutGap !== null && workoutGap >= c.workout_gap_days) {
+    nudge = {
+      type: 'consistency_nudge',
+      severity: 'info',
+      message: `It's been ${workoutGap} days since your last workout. Even a short session keeps the streak alive.`,
+      dedupe_key: `consistency_nudge:workout:${lastWorkout.workout_date}`,
+      data: { workout_gap_days: workoutGap }
+    };
+  } else if (weighInGap !== null && weighInGap >= c.weigh_in_gap_days) {
+    nudge = {
+      type: 'consistency_nudge',
+      severity: 'info',
+      message: `No weigh-in for ${weighInGap} days. A quick check keeps your trend line honest.`,
+      dedupe_key: `consistency_nudge:weigh_in:${lastWeighIn.log_date}`,
+      data: { weigh_in_gap_days: weighInGap }
+    };
+  }
+  return nudge;
+};
+
+const RULES: Rule[] = [sleepDebt, circadianDrift, fatigueFlag, overreaching, proteinInsufficient, prAchieved, consistencyNudge];
+
+/**
+ * Run every rule over the history. Candidates whose type fired within its
+ * cooldown (per `recent`) are dropped; `now` fixes "today" for fixtures.
+ * `today` is the user's local date when the caller runs in another timezone.
+ */
+export function evaluateAlertRules(
+  history: AlertHistory,
+  now: Date = new Date(),
+  config: AlertConfig = DEFAULT_ALERT_CONFIG,
+  recent: RecentAlert[] = [],
+  today: string = localDate(now)
+): AlertCandidate[] {
+  const candidates: AlertCandidate[] = [];
+  for (const rule of RULES) {
+    const candidate = rule(history, config, today);
+    if (!candidate) continue;
+
+    const cooldownMs = config[candidate.type].cooldown_days * DAY_MS;
+    const cooling = recent.some(r => r.type === candidate.type && now.getTime() - new Date(r.created_at).getTime() < cooldownMs);
+    if (!cooling) candidates.push(candidate);
+  }
+  return candidates;
+}
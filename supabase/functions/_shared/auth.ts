@@ -0,0 +1,20 @@
+import { createClient } from "npm:@supabase/supabase-js@2.53.0";
+
+/**
+ * The caller's user id from a verified JWT, or null. Metered functions bill
+ * this user, so a userId in the request body is never trusted.
+ */
+export async function getAuthUserId(req: Request): Promise<string | null> {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader?.startsWith("Bearer ")) return null;
+
+  const url = Deno.env.get("SUPABASE_URL");
+  const anonKey = Deno.env.get("SUPABASE_ANON_KEY");
+  if (!url || !anonKey) return null;
+
+  const supabase = createClient(url, anonKey, {
+    global: { headers: { Authorization: authHeader } },
+  });
+  const { data: { user }, error } = await supabase.auth.getUser(authHeader.slice("Bearer ".length));
+  return error || !user ? null : user.id;
+}
@@ -0,0 +1,82 @@
+import { createClient } from "npm:@supabase/supabase-js@2.53.0";
+
+type Provider = "openai" | "gemini";
+type Tier = "pro" | "flash" | "mini";
+
+// Mirrors PLAN_BUDGETS and TIER_MODELS in src/core/router/modelRouter.ts
+const TIER_ORDER: Tier[] = ["pro", "flash", "mini"];
+
+const PLAN_BUDGETS: Record<string, { dailyUsd: number | null; maxTier: Tier; intentDailyUsd?: Record<string, number> }> = {
+  free: { dailyUsd: 0.05, maxTier: "flash", intentDailyUsd: { ama: 0.03 } },
+  pro: { dailyUsd: 1.0, maxTier: "pro", intentDailyUsd: { ama: 0.6 } },
+  unlimited: { dailyUsd: null, maxTier: "pro" },
+};
+
+const TIER_MODELS: Record<Provider, Record<Tier, string>> = {
+  openai: { pro: "gpt-4o", flash: "gpt-4o-mini", mini: "gpt-4o-mini" },
+  gemini: { pro: "gemini-2.5-pro", flash: "gemini-2.5-flash", mini: "gemini-2.5-flash-lite" },
+};
+
+export type BudgetLimit = "balance" | "daily_cap" | "intent_cap";
+
+export interface BudgetCheck {
+  allowed: boolean;
+  /** The requested model, capped to the best tier the plan allows */
+  model: string;
+  limit?: BudgetLimit;
+}
+
+// Unknown models count as the top tier so they are capped to the plan's model
+function tierOf(provider: Provider, model: string): Tier {
+  const tiers = TIER_MODELS[provider];
+  return TIER_ORDER.find(t => tiers[t] === model) ?? "pro";
+}
+
+/**
+ * Server-side budget gate for metered calls: caps the model at the plan's
+ * tier and refuses the call once the balance, the rolling 24h cap or the
+ * intent's 24h cap is spent. The client router degrades before this point;
+ * this stops callers that skip it. Fails open when budget data can't load,
+ * like recordUsage.
+ */
+export async function enforceBudget(userId: string, provider: Provider, model: string, intent?: string): Promise<BudgetCheck> {
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!url || !serviceKey) {
+    console.warn("[budget] Missing Supabase service configuration");
+    return { allowed: true, model };
+  }
+
+  const supabase = createClient(url, serviceKey);
+  const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+  const [walletRes, usageRes] = await Promise.all([
+    supabase.from("v_user_credits").select("plan, is_unlimited, balance_usd").eq("user_id", userId).maybeSingle(),
+    supabase.from("llm_usage").select("cost_usd, intent").eq("user_id", userId).gte("created_at", since),
+  ]);
+  if (walletRes.error || usageRes.error) {
+    console.error("[budget] Failed to load budget state:", walletRes.error ?? usageRes.error);
+    return { allowed: true, model };
+  }
+  if (!walletRes.data) return { allowed: true, model };
+
+  const wallet = walletRes.data as { plan: string; is_unlimited: boolean; balance_usd: number };
+  const plan = PLAN_BUDGETS[wallet.is_unlimited ? "unlimited" : wallet.plan] ?? PLAN_BUDGETS.free;
+
+  const capped = TIER_ORDER.indexOf(tierOf(provider, model)) < TIER_ORDER.indexOf(plan.maxTier)
+    ? TIER_MODELS[provider][plan.maxTier]
+    : model;
+
+  const usage = (usageRes.data as Array<{ cost_usd: number; intent: string | null }>) ?? [];
+  const spent = usage.reduce((sum, row) => sum + Number(row.cost_usd), 0);
+  const intentKey = intent?.toLowerCase();
+  const intentSpent = usage
+    .filter(row => intentKey && row.intent?.toLowerCase() === intentKey)
+    .reduce((sum, row) => sum + Number(row.cost_usd), 0);
+  const intentCap = intentKey ? plan.intentDailyUsd?.[intentKey] : undefined;
+
+  if (!wallet.is_unlimited && Number(wallet.balance_usd) <= 0) return { allowed: false, model: capped, limit: "balance" };
+  if (plan.dailyUsd !== null && spent >= plan.dailyUsd) return { allowed: false, model: capped, limit: "daily_cap" };
+  if (intentCap !== undefined && intentSpent >= intentCap) return { allowed: false, model: capped, limit: "intent_cap" };
+
+  return { allowed: true, model: capped };
+}
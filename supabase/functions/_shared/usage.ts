@@ -0,0 +1,47 @@
+import { createClient } from "npm:@supabase/supabase-js@2.53.0";
+
+export interface UsageRecord {
+  userId?: string;
+  provider: "openai" | "gemini";
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  intent?: string;
+  sessionId?: string;
+  source: string;
+}
+
+/**
+ * Write one metered LLM call to llm_usage via record_llm_usage (prices from
+ * model_rates and debits the wallet). Never throws: metering must not break chat.
+ */
+export async function recordUsage(record: UsageRecord): Promise<void> {
+  if (!record.userId) {
+    console.warn(`[usage] ${record.source}: no user, skipping usage record`);
+    return;
+  }
+
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!url || !serviceKey) {
+    console.warn("[usage] Missing Supabase service configuration");
+    return;
+  }
+
+  try {
+    const supabase = createClient(url, serviceKey);
+    const { error } = await supabase.rpc("record_llm_usage", {
+      p_user_id: record.userId,
+      p_provider: record.provider,
+      p_model: record.model,
+      p_input_tokens: record.inputTokens,
+      p_output_tokens: record.outputTokens,
+      p_intent: record.intent ?? null,
+      p_session_id: record.sessionId ?? null,
+      p_source: record.source,
+    });
+    if (error) console.error("[usage] record_llm_usage failed:", error);
+  } catch (e) {
+    console.error("[usage] record_llm_usage crashed:", e);
+  }
+}
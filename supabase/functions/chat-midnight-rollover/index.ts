@@ -39,11 +39,18 @@ Deno.serve(async (req: Request) => {
     const sessionCount = closedSessions?.length || 0;
     console.log(`Closed ${sessionCount} sessions at midnight`);
 
+    // Expired ephemeral / short-term memories; a failure here shouldn't fail the rollover
+    const { data: purgedMemories, error: purgeError } = await supabase.rpc("purge_expired_memory");
+    if (purgeError) {
+      console.error("Failed to purge expired memory:", purgeError);
+    }
+
     return new Response(
       JSON.stringify({
         success: true,
         closed_sessions: sessionCount,
         sessions: closedSessions,
+        purged_memories: purgedMemories ?? 0,
       }),
       {
         status: 200,
@@ -0,0 +1,75 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey, X-Cron-Secret",
+};
+
+function jsonResponse(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// Nightly: evaluate each client's local yesterday against their active mentor plan.
+// POST { "date": "YYYY-MM-DD" } re-runs a past day; events are deduplicated.
+// Callers must send the CRON_SECRET in X-Cron-Secret.
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  const cronSecret = Deno.env.get("CRON_SECRET");
+  if (!cronSecret || req.headers.get("X-Cron-Secret") !== cronSecret) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    let date: string | undefined;
+    if (req.method === "POST") {
+      const body = await req.json().catch(() => ({}));
+      if (typeof body?.date === "string" && /^\d{4}-\d{2}-\d{2}$/.test(body.date)) {
+        date = body.date;
+      }
+    }
+
+    // Today has not ended anywhere west of UTC; the RPC also skips days that
+    // are still open in each client's own timezone
+    if (date && date >= new Date().toISOString().slice(0, 10)) {
+      return jsonResponse({ error: "Only past days can be closed" }, 400);
+    }
+
+    const { data: created, error } = await supabase.rpc(
+      "close_compliance_day",
+      date ? { p_date: date } : {}
+    );
+
+    if (error) {
+      console.error("Failed to close compliance day:", error);
+      return jsonResponse({ error: "Failed to close compliance day", details: error.message }, 500);
+    }
+
+    console.log(`Compliance day close${date ? ` for ${date}` : ""}: ${created ?? 0} events`);
+
+    return jsonResponse({
+      success: true,
+      date: date ?? null,
+      events_created: created ?? 0,
+    }, 200);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Internal server error";
+    console.error("Compliance day close error:", error);
+    return jsonResponse({ error: message }, 500);
+  }
+});
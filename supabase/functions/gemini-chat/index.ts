@@ -1,4 +1,27 @@
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import { recordUsage } from "../_shared/usage.ts";
+import { getAuthUserId } from "../_shared/auth.ts";
+import { enforceBudget } from "../_shared/budget.ts";
+
+const DEFAULT_MODEL = "gemini-2.5-flash";
+const MODELS = new Set(["gemini-2.5-flash", "gemini-2.5-pro", "gemini-2.5-flash-lite"]);
+
+interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+// System messages become systemInstruction; assistant turns are Gemini "model" turns
+function toGeminiRequest(messages: ChatMessage[], search: boolean) {
+  const system = messages.filter(m => m.role === "system").map(m => m.content).join("\n\n");
+  return {
+    ...(system ? { systemInstruction: { parts: [{ text: system }] } } : {}),
+    contents: messages
+      .filter(m => m.role !== "system")
+      .map(m => ({ role: m.role === "assistant" ? "model" : "user", parts: [{ text: String(m.content ?? "") }] })),
+    ...(search ? { tools: [{ google_search: {} }] } : {}),
+  };
+}
 
 const cors = {
   "Access-Control-Allow-Origin": "*",
@@ -22,14 +45,40 @@ serve(async (req: Request) => {
       );
     }
 
-    const { prompt } = await req.json().catch(() => ({ prompt: "" }));
-    const body = {
-      contents: [{ role: "user", parts: [{ text: String(prompt ?? "") }] }],
-      tools: [{ google_search: {} }],
-    };
+    // Either { prompt } for a one-shot web search, or a full chat with
+    // { messages, model, search } when the router fails over from OpenAI
+    const { prompt, messages, model, search = true, intent, sessionId } = await req.json().catch(() => ({ prompt: "" }));
+
+    // Usage is billed to this user, so only a verified JWT identifies them
+    const effectiveUserId = await getAuthUserId(req);
+    if (!effectiveUserId) {
+      return new Response(
+        JSON.stringify({ ok: false, error: "Unauthorized" }),
+        { status: 401, headers: cors }
+      );
+    }
+
+    const budget = await enforceBudget(
+      effectiveUserId,
+      "gemini",
+      typeof model === "string" && MODELS.has(model) ? model : DEFAULT_MODEL,
+      intent
+    );
+    if (!budget.allowed) {
+      return new Response(
+        JSON.stringify({ ok: false, error: "Usage limit reached", limit: budget.limit }),
+        { status: 402, headers: cors }
+      );
+    }
+    const chatModel = budget.model;
+
+    const chat: ChatMessage[] = Array.isArray(messages) && messages.length
+      ? messages
+      : [{ role: "user", content: String(prompt ?? "") }];
+    const body = toGeminiRequest(chat, search !== false);
 
     const resp = await fetch(
-      "https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent?key=" +
+      `https://generativelanguage.googleapis.com/v1beta/models/${chatModel}:generateContent?key=` +
         encodeURIComponent(GEMINI_API_KEY),
       {
         method: "POST",
@@ -48,6 +97,17 @@ serve(async (req: Request) => {
 
     const data = await resp.json();
 
+    await recordUsage({
+      userId: effectiveUserId,
+      provider: "gemini",
+      model: chatModel,
+      inputTokens: data?.usageMetadata?.promptTokenCount ?? 0,
+      outputTokens: (data?.usageMetadata?.candidatesTokenCount ?? 0) + (data?.usageMetadata?.thoughtsTokenCount ?? 0),
+      intent,
+      sessionId,
+      source: "gemini-chat",
+    });
+
     // Flatten text parts (answer-first)
     const parts =
       data?.candidates?.[0]?.content?.parts?.map((p: any) => p?.text)?.filter(Boolean) ?? [];
@@ -0,0 +1,147 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2";
+import {
+  evaluateAlertRules,
+  mergeAlertConfig,
+  type AlertConfigOverrides,
+  type AlertHistory,
+  type RecentAlert,
+} from "../_shared/alertRules.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey, X-Cron-Secret",
+};
+
+// Same windows as src/lib/metricAlerts.ts
+const HISTORY_DAYS = 35;
+const RECENT_ALERT_DAYS = 14;
+const DAY_MS = 86400000;
+
+function jsonResponse(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function shiftDate(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** Evaluate one user's rules and store new alerts; returns how many were raised */
+async function evaluateUser(supabase: SupabaseClient, userId: string, now: Date): Promise<number> {
+  const { data: today, error: dateError } = await supabase.rpc("get_user_local_date", {
+    p_user_id: userId,
+    p_utc_timestamp: now.toISOString(),
+  });
+  if (dateError) throw new Error(`Failed to load local date: ${dateError.message}`);
+  const since = shiftDate(today as string, -HISTORY_DAYS);
+
+  const [sleep, workouts, days, weights, settings, existing] = await Promise.all([
+    supabase.from("sleep_logs").select("sleep_date, duration_minutes, bedtime").eq("user_id", userId).gte("sleep_date", since),
+    supabase
+      .from("workout_logs")
+      .select("workout_date, duration_minutes, workout_type, volume_lbs, avg_rpe")
+      .eq("user_id", userId)
+      .gte("workout_date", since),
+    supabase.from("day_rollups").select("date, totals, targets").eq("user_id", userId).gte("date", since),
+    supabase.from("weight_logs").select("log_date, weight_lbs").eq("user_id", userId).gte("log_date", since),
+    supabase.from("metric_alert_settings").select("overrides").eq("user_id", userId).maybeSingle(),
+    supabase
+      .from("metric_alerts")
+      .select("type, created_at")
+      .eq("user_id", userId)
+      .gte("created_at", new Date(now.getTime() - RECENT_ALERT_DAYS * DAY_MS).toISOString()),
+  ]);
+
+  const failed = [sleep, workouts, days, weights, settings, existing].find(r => r.error);
+  if (failed?.error) throw new Error(`Failed to load alert history: ${failed.error.message}`);
+
+  const history: AlertHistory = {
+    sleep: (sleep.data as AlertHistory["sleep"]) ?? [],
+    workouts: (workouts.data as AlertHistory["workouts"]) ?? [],
+    days: (days.data as AlertHistory["days"]) ?? [],
+    weights: (weights.data as AlertHistory["weights"]) ?? [],
+  };
+  const config = mergeAlertConfig((settings.data?.overrides as AlertConfigOverrides) ?? null);
+
+  const candidates = evaluateAlertRules(history, now, config, (existing.data as RecentAlert[]) ?? [], today as string);
+  if (!candidates.length) return 0;
+
+  // Duplicates are skipped, so only newly raised alerts come back
+  const { data: inserted, error } = await supabase
+    .from("metric_alerts")
+    .upsert(
+      candidates.map(c => ({ ...c, user_id: userId })),
+      { onConflict: "user_id,dedupe_key", ignoreDuplicates: true },
+    )
+    .select("id");
+  if (error) throw new Error(`Failed to save alerts: ${error.message}`);
+  return inserted?.length ?? 0;
+}
+
+// Nightly: run the metric alert rules for every active client so trainers see
+// alerts without the client opening the dashboard. The dashboard still runs
+// them on load; (user_id, dedupe_key) keeps the two from duplicating.
+// Callers must send the CRON_SECRET in X-Cron-Secret.
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  const cronSecret = Deno.env.get("CRON_SECRET");
+  if (!cronSecret || req.headers.get("X-Cron-Secret") !== cronSecret) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: members, error } = await supabase
+      .from("org_members")
+      .select("user_id")
+      .eq("role", "member")
+      .eq("status", "active");
+
+    if (error) {
+      console.error("Failed to load active clients:", error);
+      return jsonResponse({ error: "Failed to load active clients", details: error.message }, 500);
+    }
+
+    const userIds = [...new Set((members ?? []).map((m: { user_id: string }) => m.user_id))];
+    const now = new Date();
+    let created = 0;
+    let failed = 0;
+
+    // One client's bad data shouldn't stop the rest of the run
+    for (const userId of userIds) {
+      try {
+        created += await evaluateUser(supabase, userId, now);
+      } catch (err) {
+        failed++;
+        console.error(`Metric alert evaluation failed for ${userId}:`, err);
+      }
+    }
+
+    console.log(`Metric alerts: ${userIds.length} clients, ${created} alerts, ${failed} failures`);
+
+    return jsonResponse({
+      success: true,
+      clients: userIds.length,
+      alerts_created: created,
+      failures: failed,
+    }, 200);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Internal server error";
+    console.error("Metric alert evaluation error:", error);
+    return jsonResponse({ error: message }, 500);
+  }
+});
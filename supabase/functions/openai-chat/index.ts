@@ -21,9 +21,11 @@ function corsHeaders(req: Request) {
   };
 }
 import { PAT_TOOLS, executeTool } from './tools.ts';
-import { createClient } from 'npm:@supabase/supabase-js@2.53.0';
 import { loadSwarmFromDB, buildSwarmPrompt } from './swarm-loader.ts';
 import { executePostAgents } from './post-executor.ts';
+import { recordUsage } from '../_shared/usage.ts';
+import { getAuthUserId } from '../_shared/auth.ts';
+import { enforceBudget } from '../_shared/budget.ts';
 
 interface ChatMessage {
   role: 'system' | 'user' | 'assistant';
@@ -33,12 +35,19 @@ interface ChatMessage {
 interface ChatRequest {
   messages: ChatMessage[];
   stream?: boolean;
-  userId?: string;
+  /** false for side-effect-free completions (fixture replays); default true */
+  tools?: boolean;
   temperature?: number;
   model?: string;
   provider?: string;
+  intent?: string;
+  sessionId?: string;
 }
 
+// Only models llm_usage can price and the budget gate can tier
+const MODELS = new Set(['gpt-4o-mini', 'gpt-4o']);
+const DEFAULT_MODEL = 'gpt-4o-mini';
+
 // CRITICAL: Personality now loads via swarm system (10-agent dynamic composition)
 // Emergency fallback if swarm load fails
 const EMERGENCY_FALLBACK = 'You are Pat. Speak clearly and concisely.';
@@ -52,20 +61,18 @@ Deno.serve(async (req: Request) => {
   }
 
   try {
-    const { messages, stream = false, userId, temperature = 0.55, model, provider }: ChatRequest = await req.json();
+    const { messages, stream = false, tools: toolsEnabled = true, temperature = 0.55, model, provider, intent, sessionId }: ChatRequest = await req.json();
 
-    let effectiveUserId = userId;
+    // Usage is billed to this user, so only a verified JWT identifies them
+    const effectiveUserId = await getAuthUserId(req);
     if (!effectiveUserId) {
-      const authHeader = req.headers.get('Authorization');
-      if (authHeader?.startsWith('Bearer ')) {
-        const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-        const supabaseKey = Deno.env.get('SUPABASE_ANON_KEY')!;
-        const supabase = createClient(supabaseUrl, supabaseKey, {
-          global: { headers: { Authorization: authHeader } }
-        });
-        const { data: { user } } = await supabase.auth.getUser();
-        effectiveUserId = user?.id;
-      }
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        {
+          status: 401,
+          headers: corsHeaders(req),
+        }
+      );
     }
 
     if (!messages || !Array.isArray(messages)) {
@@ -78,6 +85,28 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    if (model !== undefined && (typeof model !== 'string' || !MODELS.has(model))) {
+      return new Response(
+        JSON.stringify({ error: 'Unsupported model' }),
+        {
+          status: 400,
+          headers: corsHeaders(req),
+        }
+      );
+    }
+
+    const budget = await enforceBudget(effectiveUserId, 'openai', model ?? DEFAULT_MODEL, intent);
+    if (!budget.allowed) {
+      return new Response(
+        JSON.stringify({ error: 'Usage limit reached', limit: budget.limit }),
+        {
+          status: 402,
+          headers: corsHeaders(req),
+        }
+      );
+    }
+    const chatModel = budget.model;
+
     const openaiApiKey = Deno.env.get('OPENAI_API_KEY')?.trim();
     if (!openaiApiKey) {
       console.error('[openai-chat] Missing OPENAI_API_KEY secret');
@@ -117,7 +146,7 @@ Deno.serve(async (req: Request) => {
       console.log('[openai-chat] systemPrompt: source=client');
     } else {
       // Load personality swarm from database
-      const swarm = await loadSwarmFromDB('personality', supabaseUrl, supabaseServiceKey);
+      const swarm = await loadSwarmFromDB('personality', supabaseUrl, supabaseServiceKey, effectiveUserId);
 
       if (!swarm) {
         console.error('[openai-chat] ✗ CRITICAL: Personality swarm not found in database!');
@@ -147,11 +176,12 @@ Deno.serve(async (req: Request) => {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          model: model || 'gpt-4o-mini',
+          model: chatModel,
           messages: messagesWithSystem,
           max_tokens: 700,
           temperature: temperature,
           stream: true,
+          stream_options: { include_usage: true },
         }),
       });
 
@@ -204,6 +234,20 @@ Deno.serve(async (req: Request) => {
                     const parsed = JSON.parse(data);
                     const content = parsed.choices?.[0]?.delta?.content;
 
+                    // Final chunk (include_usage) carries token counts and no choices
+                    if (parsed.usage) {
+                      await recordUsage({
+                        userId: effectiveUserId,
+                        provider: 'openai',
+                        model: chatModel,
+                        inputTokens: parsed.usage.prompt_tokens ?? 0,
+                        outputTokens: parsed.usage.completion_tokens ?? 0,
+                        intent,
+                        sessionId,
+                        source: 'openai-chat:stream',
+                      });
+                    }
+
                     if (content) {
                       controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify({ token: content })}\n\n`));
                     }
@@ -237,12 +281,11 @@ Deno.serve(async (req: Request) => {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
-        model: model || 'gpt-4o-mini',
+        model: chatModel,
         messages: messagesWithSystem,
         max_tokens: 700,
         temperature: temperature,
-        tools: PAT_TOOLS,
-        tool_choice: 'auto'
+        ...(toolsEnabled ? { tools: PAT_TOOLS, tool_choice: 'auto' } : {}),
       }),
     });
 
@@ -272,6 +315,17 @@ Deno.serve(async (req: Request) => {
     const data = await openaiResponse.json();
     const firstChoice = data.choices?.[0];
 
+    await recordUsage({
+      userId: effectiveUserId,
+      provider: 'openai',
+      model: chatModel,
+      inputTokens: data.usage?.prompt_tokens ?? 0,
+      outputTokens: data.usage?.completion_tokens ?? 0,
+      intent,
+      sessionId,
+      source: 'openai-chat',
+    });
+
     if (!firstChoice) {
       return new Response(
         JSON.stringify({ error: 'No response from OpenAI' }),
@@ -282,7 +336,7 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    const toolCalls = firstChoice.message?.tool_calls;
+    const toolCalls = toolsEnabled ? firstChoice.message?.tool_calls : undefined;
     if (toolCalls && toolCalls.length > 0) {
       console.log('[openai-chat] Tool calls detected:', toolCalls.length);
       const toolResults = [];
@@ -320,7 +374,7 @@ Deno.serve(async (req: Request) => {
 
     if (!hasSystemPrompt) {
       // Load swarm again to check for post-agents
-      const swarm = await loadSwarmFromDB('personality', supabaseUrl, supabaseServiceKey);
+      const swarm = await loadSwarmFromDB('personality', supabaseUrl, supabaseServiceKey, effectiveUserId);
       const postMode = (Deno.env.get('VITE_PERSONALITY_POST_EXECUTOR') || 'combined') as 'combined' | 'sequential' | 'off';
 
       if (swarm && postMode !== 'off') {
@@ -335,6 +389,7 @@ Deno.serve(async (req: Request) => {
               supabaseUrl,
               supabaseServiceKey,
               openaiApiKey,
+              { userId: effectiveUserId, intent, sessionId },
               postMode
             );
             console.log(`[personality-post] mode=${postMode}, original=${finalMessage.length}, refined=${refined.length}`);
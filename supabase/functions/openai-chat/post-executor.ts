@@ -6,9 +6,13 @@
 
 import type { SwarmConfig, AgentConfig } from './swarm-loader.ts';
 import { resolvePromptRef } from './swarm-loader.ts';
+import { recordUsage, type UsageRecord } from '../_shared/usage.ts';
 
 export type ExecutionMode = 'combined' | 'sequential' | 'off';
 
+/** Who the refinement calls are billed to */
+export type PostUsage = Pick<UsageRecord, 'userId' | 'intent' | 'sessionId'>;
+
 /**
  * Execute post-phase agents on a draft response
  * @param draft - Initial LLM response to refine
@@ -16,6 +20,7 @@ export type ExecutionMode = 'combined' | 'sequential' | 'off';
  * @param supabaseUrl - Supabase URL
  * @param supabaseKey - Supabase key
  * @param openaiApiKey - OpenAI API key for refinement calls
+ * @param usage - User, intent and session the refinement calls are metered to
  * @param mode - Execution mode (combined, sequential, off)
  * @returns Refined response text
  */
@@ -25,6 +30,7 @@ export async function executePostAgents(
   supabaseUrl: string,
   supabaseKey: string,
   openaiApiKey: string,
+  usage: PostUsage,
   mode: ExecutionMode = 'combined'
 ): Promise<string> {
   if (mode === 'off') {
@@ -44,9 +50,9 @@ export async function executePostAgents(
   console.log(`[post-executor] Executing ${postAgents.length} post agents in ${mode} mode`);
 
   if (mode === 'combined') {
-    return await executeCombinedPass(draft, postAgents, supabaseUrl, supabaseKey, openaiApiKey);
+    return await executeCombinedPass(draft, postAgents, supabaseUrl, supabaseKey, openaiApiKey, usage);
   } else {
-    return await executeSequentialPass(draft, postAgents, supabaseUrl, supabaseKey, openaiApiKey);
+    return await executeSequentialPass(draft, postAgents, supabaseUrl, supabaseKey, openaiApiKey, usage);
   }
 }
 
@@ -58,7 +64,8 @@ async function executeCombinedPass(
   postAgents: AgentConfig[],
   supabaseUrl: string,
   supabaseKey: string,
-  openaiApiKey: string
+  openaiApiKey: string,
+  usage: PostUsage
 ): Promise<string> {
   // Build role cards for each post agent
   const roleCards: string[] = [];
@@ -87,7 +94,7 @@ async function executeCombinedPass(
   ].join('\n');
 
   try {
-    const refined = await callLLMForPost(combinedPostPrompt, openaiApiKey);
+    const refined = await callLLMForPost(combinedPostPrompt, openaiApiKey, usage);
     console.log(`[post-executor] Combined pass complete, length: ${refined.length}`);
     return refined;
   } catch (error) {
@@ -104,7 +111,8 @@ async function executeSequentialPass(
   postAgents: AgentConfig[],
   supabaseUrl: string,
   supabaseKey: string,
-  openaiApiKey: string
+  openaiApiKey: string,
+  usage: PostUsage
 ): Promise<string> {
   let refined = draft;
 
@@ -131,7 +139,7 @@ async function executeSequentialPass(
     ].join('\n');
 
     try {
-      refined = await callLLMForPost(agentPrompt, openaiApiKey);
+      refined = await callLLMForPost(agentPrompt, openaiApiKey, usage);
       console.log(`[post-executor] ${agent.name} complete, length: ${refined.length}`);
     } catch (error) {
       console.error(`[post-executor] ${agent.name} failed:`, error);
@@ -146,7 +154,7 @@ async function executeSequentialPass(
  * Call LLM for post-processing
  * Uses gpt-4o-mini with lower temperature for faithful refinement
  */
-async function callLLMForPost(systemPrompt: string, openaiApiKey: string): Promise<string> {
+async function callLLMForPost(systemPrompt: string, openaiApiKey: string, usage: PostUsage): Promise<string> {
   const response = await fetch('https://api.openai.com/v1/chat/completions', {
     method: 'POST',
     headers: {
@@ -170,6 +178,15 @@ async function callLLMForPost(systemPrompt: string, openaiApiKey: string): Promi
   }
 
   const data = await response.json();
+  await recordUsage({
+    ...usage,
+    provider: 'openai',
+    model: 'gpt-4o-mini',
+    inputTokens: data.usage?.prompt_tokens ?? 0,
+    outputTokens: data.usage?.completion_tokens ?? 0,
+    source: 'openai-chat:post',
+  });
+
   const message = data.choices?.[0]?.message?.content;
 
   if (!message) {
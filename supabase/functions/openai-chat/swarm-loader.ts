@@ -17,9 +17,45 @@ export interface AgentConfig {
   prompt?: string; // Direct prompt override
 }
 
+export interface VariantAssignment {
+  experiment_key: string | null;
+  version_id: string;
+  variant: 'control' | 'treatment' | 'holdout';
+}
+
 export interface SwarmConfig {
   swarm_name: string;
   agents: AgentConfig[];
+  variant?: VariantAssignment;
+}
+
+/**
+ * The swarm version a user is bucketed into. experiment_assignment_for does
+ * the bucketing (holdout, kill switch, cohort, sticky assignment) and stores
+ * it, so browser and edge always agree on every user's variant.
+ */
+async function resolveSwarmVersion(
+  supabase: ReturnType<typeof createClient>,
+  swarmName: string,
+  userId: string
+): Promise<{ variant: VariantAssignment; agents: AgentConfig[] | null } | null> {
+  const { data: assignment, error } = await supabase.rpc('experiment_assignment_for', {
+    p_user_id: userId,
+    p_kind: 'swarm',
+    p_target: swarmName
+  });
+  if (error || !assignment) return null;
+
+  const variant = assignment as VariantAssignment;
+  const { data: version, error: versionError } = await supabase
+    .from('swarm_versions')
+    .select('manifest')
+    .eq('id', variant.version_id)
+    .maybeSingle();
+  if (versionError || !version) return null;
+
+  const manifest = version.manifest as { agents?: AgentConfig[] } | null;
+  return { variant, agents: Array.isArray(manifest?.agents) ? manifest.agents : null };
 }
 
 /**
@@ -27,15 +63,23 @@ export interface SwarmConfig {
  * @param swarmName - Name of swarm to load (e.g., 'personality')
  * @param supabaseUrl - Supabase project URL
  * @param supabaseKey - Supabase service role key
+ * @param userId - When given, the user's bucketed swarm version overrides agent_configs
  */
 export async function loadSwarmFromDB(
   swarmName: string,
   supabaseUrl: string,
-  supabaseKey: string
+  supabaseKey: string,
+  userId?: string
 ): Promise<SwarmConfig | null> {
   try {
     const supabase = createClient(supabaseUrl, supabaseKey);
 
+    const versioned = userId ? await resolveSwarmVersion(supabase, swarmName, userId) : null;
+    if (versioned?.agents?.length) {
+      console.log(`[swarm-loader] ✓ Loaded swarm: ${swarmName} version ${versioned.variant.version_id} (${versioned.variant.variant})`);
+      return { swarm_name: swarmName, agents: versioned.agents, variant: versioned.variant };
+    }
+
     const { data, error } = await supabase
       .from('agent_configs')
       .select('config')
@@ -52,7 +96,7 @@ export async function loadSwarmFromDB(
       return null;
     }
 
-    const swarm = data.config as SwarmConfig;
+    const swarm: SwarmConfig = versioned ? { ...data.config, variant: versioned.variant } : data.config;
     const hasRouter = swarm.agents?.some(a => a.promptRef === 'PERSONALITY_ROUTER') || false;
     console.log(`[swarm-loader] ✓ Loaded swarm: ${swarmName}`);
     if (swarmName === 'personality') {
@@ -72,6 +72,48 @@ export const PAT_TOOLS = [
       }
     }
   },
+  {
+    type: "function",
+    function: {
+      name: "log_workout",
+      description: "Prepare a workout for the user to verify. Use this when the user reports exercise they did (e.g. '3x8 bench 185, then 20 min zone 2 run'). Nothing is saved until the user confirms the verify card.",
+      parameters: {
+        type: "object",
+        properties: {
+          exercises: {
+            type: "array",
+            description: "Exercises performed, in order",
+            items: {
+              type: "object",
+              properties: {
+                name: { type: "string", description: "Exercise name (e.g., 'Bench Press', 'Run')" },
+                sets: { type: "number", description: "Working sets, for lifts" },
+                reps: { type: "number", description: "Reps per set, for lifts" },
+                weight_lbs: { type: "number", description: "Load per rep in pounds, for lifts" },
+                duration_min: { type: "number", description: "Minutes, for cardio" },
+                distance_mi: { type: "number", description: "Distance in miles, for cardio" },
+                zone: { type: "number", description: "Heart-rate zone, for cardio" }
+              },
+              required: ["name"]
+            }
+          }
+        },
+        required: ["exercises"]
+      }
+    }
+  },
+  {
+    type: "function",
+    function: {
+      name: "undo_last_workout",
+      description: "Delete the most recently logged workout. Use when user says 'undo that workout', 'remove my last workout', etc.",
+      parameters: {
+        type: "object",
+        properties: {},
+        required: []
+      }
+    }
+  },
   {
     type: "function",
     function: {
@@ -112,6 +154,12 @@ export async function executeTool(
       case 'undo_last_meal':
         return await undoLastMealTool(context.userId, supabase);
 
+      case 'log_workout':
+        return logWorkoutTool(toolArgs);
+
+      case 'undo_last_workout':
+        return await undoLastWorkoutTool(context.userId, supabase);
+
       default:
         return {
           success: false,
@@ -288,3 +336,94 @@ async function undoLastMealTool(userId: string, supabase: any) {
     }
   };
 }
+
+// ParsedExercise in src/core/workout/workoutParser.ts
+interface WorkoutToolExercise {
+  name: string;
+  kind: 'strength' | 'cardio';
+  sets: number | null;
+  reps: number | null;
+  weight_lbs: number | null;
+  duration_min: number | null;
+  distance_mi: number | null;
+  zone: number | null;
+  original: string;
+}
+
+/**
+ * Normalize the exercises the model extracted; nothing is written until the
+ * user confirms the verify card built from them.
+ */
+function logWorkoutTool(args: { exercises?: Array<Record<string, unknown>> }) {
+  const raw = Array.isArray(args?.exercises) ? args.exercises : [];
+  const num = (v: unknown) => (typeof v === 'number' && v > 0 ? v : null);
+
+  const exercises: WorkoutToolExercise[] = raw
+    .filter(e => e && typeof e.name === 'string' && e.name.trim())
+    .map(e => {
+      const name = String(e.name).trim();
+      const sets = num(e.sets);
+      const reps = num(e.reps);
+      const strength = sets !== null && reps !== null;
+      return {
+        name,
+        kind: strength ? 'strength' as const : 'cardio' as const,
+        sets: strength ? sets : null,
+        reps: strength ? reps : null,
+        weight_lbs: strength ? num(e.weight_lbs) : null,
+        duration_min: num(e.duration_min),
+        distance_mi: strength ? null : num(e.distance_mi),
+        zone: strength ? null : num(e.zone),
+        original: name
+      };
+    })
+    .filter(e => e.kind === 'strength' || e.duration_min !== null || e.distance_mi !== null);
+
+  if (exercises.length === 0) {
+    return { success: false, error: 'No exercises with sets, reps, duration or distance provided' };
+  }
+
+  // The client totals these with workoutParser and dates the card in the user's local day
+  return {
+    success: true,
+    result: {
+      type: 'workout.draft',
+      exercises
+    }
+  };
+}
+
+async function undoLastWorkoutTool(userId: string, supabase: ReturnType<typeof createClient>) {
+  const { data: lastWorkout, error: fetchError } = await supabase
+    .from('workout_logs')
+    .select('id, workout_date')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (fetchError) {
+    return { success: false, error: fetchError.message };
+  }
+
+  if (!lastWorkout) {
+    return { success: false, error: 'No workouts to undo' };
+  }
+
+  const { error: deleteError } = await supabase
+    .from('workout_logs')
+    .delete()
+    .eq('id', lastWorkout.id);
+
+  if (deleteError) {
+    return { success: false, error: deleteError.message };
+  }
+
+  return {
+    success: true,
+    result: {
+      deleted_workout_id: lastWorkout.id,
+      workout_date: lastWorkout.workout_date
+    }
+  };
+}
@@ -80,7 +80,9 @@ Deno.serve(async (req: Request) => {
 
 Return only the JSON object, no other text. Use realistic values based on standard nutritional data.`;
 
+    // openai-chat bills the caller, so forward their JWT rather than the service role
     const { data, error } = await supabase.functions.invoke('openai-chat', {
+      headers: { Authorization: req.headers.get('Authorization') ?? '' },
       body: {
         messages: [{ role: 'user', content: prompt }],
         temperature: 0.1,
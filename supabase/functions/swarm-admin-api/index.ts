@@ -59,6 +59,54 @@ async function logAdminAction(
   }
 }
 
+// Fixture regression gate for prompt publishes. Returns why the prompt can't
+// be published, or null. Runs are recorded by the admin fixture runner
+// (src/lib/promptFixtures.ts) against the newest published version.
+async function fixtureGateError(
+  supabase: ReturnType<typeof createClient>,
+  prompt: { id: string; agent_id: string; content_hash: string | null }
+): Promise<string | null> {
+  const promptId = prompt.id;
+  const agentId = prompt.agent_id;
+  const { count } = await supabase
+    .from('prompt_fixtures')
+    .select('id, agent_prompts!inner(agent_id)', { count: 'exact', head: true })
+    .eq('agent_prompts.agent_id', agentId);
+  if (!count) return null;
+
+  const [{ data: published }, { data: run }] = await Promise.all([
+    supabase
+      .from('agent_prompts')
+      .select('id')
+      .eq('agent_id', agentId)
+      .eq('status', 'published')
+      .neq('id', promptId)
+      .order('published_at', { ascending: false, nullsFirst: false })
+      .limit(1)
+      .maybeSingle(),
+    supabase
+      .from('prompt_fixture_runs')
+      .select('baseline_prompt_id, pass_rate, baseline_pass_rate, regressed, content_hash')
+      .eq('agent_prompt_id', promptId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+  ]);
+
+  if (!run) return 'Run the fixture suite for this prompt before publishing';
+  if (!run.content_hash || run.content_hash !== prompt.content_hash) {
+    return 'The prompt changed since the last fixture run; run the suite again';
+  }
+  if ((run.baseline_prompt_id ?? null) !== (published?.id ?? null)) {
+    return 'The published version changed since the last fixture run; run the suite again';
+  }
+  if (run.regressed) {
+    const pct = (v: number | null) => `${Math.round(Number(v ?? 0) * 100)}%`;
+    return `Fixture pass rate regressed: ${pct(run.pass_rate)} vs ${pct(run.baseline_pass_rate)} for the published version`;
+  }
+  return null;
+}
+
 Deno.serve(async (req) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -752,7 +800,7 @@ Deno.serve(async (req) => {
       const pathParts = path.split('/').filter(p => p);
       const identifier = pathParts[1]; // Could be 'id' (UUID) or 'agent_id' (string)
       
-      if (method === 'PUT') {
+      if (method === 'PUT' && !path.endsWith('/publish')) {
         // Validate admin
         const { user, error: authError } = await validateAdmin(req, supabase);
         if (authError) {
@@ -846,7 +894,7 @@ Deno.serve(async (req) => {
         // Get the prompt to find its agent_id
         const { data: prompt } = await supabase
           .from('agent_prompts')
-          .select('agent_id')
+          .select('id, agent_id, content_hash')
           .eq('id', id)
           .single();
 
@@ -857,17 +905,35 @@ Deno.serve(async (req) => {
           });
         }
 
-        // Archive any existing published prompts for this agent_id
-        await supabase
+        const gateError = await fixtureGateError(supabase, prompt);
+        if (gateError) {
+          return new Response(JSON.stringify({ error: gateError }), {
+            status: 409,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+        }
+
+        // A partial rollout keeps the newest published prompt live as the
+        // control; a full one archives every other published version
+        const requestBody = body || {};
+        const rolloutPercent = requestBody.rollout_percent !== undefined ? Number(requestBody.rollout_percent) : 100;
+        const { data: live } = await supabase
           .from('agent_prompts')
-          .update({ status: 'archived' })
+          .select('id')
           .eq('agent_id', prompt.agent_id)
-          .eq('status', 'published');
+          .eq('status', 'published')
+          .neq('id', id)
+          .order('published_at', { ascending: false });
+
+        const stale = (live || []).slice(rolloutPercent < 100 ? 1 : 0).map((p: { id: string }) => p.id);
+        if (stale.length) {
+          await supabase.from('agent_prompts').update({ status: 'archived' }).in('id', stale);
+        }
 
         // Publish this prompt
         const { data, error } = await supabase
           .from('agent_prompts')
-          .update({ status: 'published' })
+          .update({ status: 'published', published_at: new Date().toISOString(), rollout_percent: rolloutPercent })
           .eq('id', id)
           .select()
           .single();
@@ -877,6 +943,7 @@ Deno.serve(async (req) => {
         // Audit log
         await logAdminAction(supabase, user.id, 'publish_prompt', `agent_prompts:${id}`, {
           agent_id: prompt.agent_id,
+          rollout_percent: rolloutPercent,
         });
 
         return new Response(JSON.stringify({ ok: true, data }), {
@@ -950,17 +1017,25 @@ Deno.serve(async (req) => {
           });
         }
 
-        // Archive any existing published versions for this swarm
-        await supabase
+        // Keep the newest published version live as the control for this
+        // one's rollout; anything older is archived
+        const { data: live } = await supabase
           .from('swarm_versions')
-          .update({ status: 'archived' })
+          .select('id')
           .eq('swarm_id', version.swarm_id)
-          .eq('status', 'published');
+          .eq('status', 'published')
+          .order('published_at', { ascending: false });
+
+        const stale = (live || []).slice(1).map((v: { id: string }) => v.id);
+        if (stale.length) {
+          await supabase.from('swarm_versions').update({ status: 'archived' }).in('id', stale);
+        }
 
-        // Publish this version
+        // Publish this version at 0% until an admin ramps it up; with no
+        // control to fall back on it serves everyone regardless
         const { data, error } = await supabase
           .from('swarm_versions')
-          .update({ status: 'published' })
+          .update({ status: 'published', published_at: new Date().toISOString(), rollout_percent: 0 })
           .eq('id', id)
           .select()
           .single();
@@ -976,6 +1051,55 @@ Deno.serve(async (req) => {
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         });
       }
+
+      if (action === 'rollout' && method === 'PUT') {
+        // Validate admin
+        const { user, error: authError } = await validateAdmin(req, supabase);
+        if (authError) {
+          return new Response(JSON.stringify({ error: authError }), {
+            status: user ? 403 : 401,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+        }
+
+        const requestBody = body || await req.json();
+        const update: Record<string, unknown> = {};
+        if (requestBody.rollout_percent !== undefined) update.rollout_percent = Number(requestBody.rollout_percent);
+        if (requestBody.holdout_percent !== undefined) update.holdout_percent = Number(requestBody.holdout_percent);
+        if (requestBody.cohort !== undefined) update.cohort = requestBody.cohort;
+
+        const { data, error } = await supabase
+          .from('swarm_versions')
+          .update(update)
+          .eq('id', id)
+          .eq('status', 'published')
+          .select()
+          .single();
+
+        if (error || !data) {
+          return new Response(JSON.stringify({ error: error?.message || 'Published version not found' }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+        }
+
+        // A finished rollout retires the control
+        if (data.rollout_percent >= 100) {
+          await supabase
+            .from('swarm_versions')
+            .update({ status: 'archived' })
+            .eq('swarm_id', data.swarm_id)
+            .eq('status', 'published')
+            .neq('id', id);
+        }
+
+        // Audit log
+        await logAdminAction(supabase, user.id, 'update_swarm_rollout', `swarm_versions:${id}`, update);
+
+        return new Response(JSON.stringify({ ok: true, data }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
     }
 
     // Agent Configs CRUD
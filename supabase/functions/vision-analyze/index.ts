@@ -0,0 +1,172 @@
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import { recordUsage } from "../_shared/usage.ts";
+import { getAuthUserId } from "../_shared/auth.ts";
+
+const MODEL = "gpt-4o-mini";
+const MAX_ITEMS = 8;
+
+const cors = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, cache-control, pragma, expires, accept",
+  "Content-Type": "application/json",
+};
+
+const PROMPT = `You identify foods in a meal photo. Output JSON only:
+{"meal_slot":"breakfast|lunch|dinner|snack|unknown","items":[{"name":"food","brand":null,"portion_hint":"S|M|L","confidence":0.0-1.0,"candidates":[{"name":"food","kcal":number,"protein_g":number,"carbs_g":number,"fat_g":number,"confidence":0.0-1.0}]}]}
+Rules:
+- One item per distinct food on the plate; ignore plates, cutlery and garnish
+- portion_hint: S, M or L relative to a typical single serving
+- candidates: 1-3 likely identities, most likely first, macros PER 100 g
+- brand only when a label is clearly readable
+- If no food is visible return {"items":[]}`;
+
+const clamp01 = (n: unknown) => Math.min(1, Math.max(0, Number(n) || 0));
+const num = (n: unknown) => Math.max(0, Number(n) || 0);
+
+interface RawCandidate {
+  name?: unknown;
+  kcal?: unknown;
+  protein_g?: unknown;
+  carbs_g?: unknown;
+  fat_g?: unknown;
+  confidence?: unknown;
+}
+
+interface RawItem {
+  name?: unknown;
+  brand?: unknown;
+  portion_hint?: unknown;
+  confidence?: unknown;
+  candidates?: RawCandidate[];
+}
+
+interface RawVision {
+  meal_slot?: unknown;
+  items?: RawItem[];
+}
+
+/** Coerce model JSON into VisionAnalysisResult items, dropping anything unusable */
+function normalizeItems(raw: RawVision | null) {
+  if (!Array.isArray(raw?.items)) return [];
+  return raw.items
+    .filter((i): i is RawItem & { name: string } => typeof i?.name === "string" && !!i.name.trim())
+    .slice(0, MAX_ITEMS)
+    .map(i => ({
+      name: i.name.trim().toLowerCase(),
+      brand: typeof i.brand === "string" && i.brand.trim() ? i.brand.trim() : undefined,
+      portion_hint: i.portion_hint === "S" || i.portion_hint === "L" ? i.portion_hint : "M",
+      confidence: clamp01(i.confidence),
+      candidates: (Array.isArray(i.candidates) ? i.candidates : [])
+        .filter((c): c is RawCandidate & { name: string } => typeof c?.name === "string")
+        .slice(0, 3)
+        .map(c => ({
+          name: c.name.trim().toLowerCase(),
+          macros: { kcal: num(c.kcal), protein_g: num(c.protein_g), carbs_g: num(c.carbs_g), fat_g: num(c.fat_g) },
+          confidence: clamp01(c.confidence),
+        })),
+    }));
+}
+
+async function sha256(text: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, "0")).join("").slice(0, 16);
+}
+
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: cors });
+  }
+
+  try {
+    const OPENAI_API_KEY = Deno.env.get("OPENAI_API_KEY");
+    if (!OPENAI_API_KEY) {
+      return new Response(
+        JSON.stringify({ ok: false, error: "Missing OPENAI_API_KEY" }),
+        { status: 500, headers: cors }
+      );
+    }
+
+    const { image, sessionId } = await req.json().catch(() => ({ image: "" }));
+    if (typeof image !== "string" || !image.startsWith("data:image/")) {
+      return new Response(
+        JSON.stringify({ ok: false, error: "image must be a base64 data URL" }),
+        { status: 400, headers: cors }
+      );
+    }
+
+    // Usage is billed to this user, so only a verified JWT identifies them
+    const effectiveUserId = await getAuthUserId(req);
+    if (!effectiveUserId) {
+      return new Response(
+        JSON.stringify({ ok: false, error: "Unauthorized" }),
+        { status: 401, headers: cors }
+      );
+    }
+
+    const started = Date.now();
+    const resp = await fetch("https://api.openai.com/v1/chat/completions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${OPENAI_API_KEY}` },
+      body: JSON.stringify({
+        model: MODEL,
+        temperature: 0.1,
+        response_format: { type: "json_object" },
+        messages: [
+          { role: "system", content: PROMPT },
+          { role: "user", content: [{ type: "image_url", image_url: { url: image, detail: "low" } }] },
+        ],
+      }),
+    });
+
+    if (!resp.ok) {
+      const detail = await resp.text().catch(() => "");
+      return new Response(
+        JSON.stringify({ ok: false, error: "Vision call failed", detail }),
+        { status: 502, headers: cors }
+      );
+    }
+
+    const data = await resp.json();
+
+    await recordUsage({
+      userId: effectiveUserId,
+      provider: "openai",
+      model: MODEL,
+      inputTokens: data?.usage?.prompt_tokens ?? 0,
+      outputTokens: data?.usage?.completion_tokens ?? 0,
+      intent: "food_photo",
+      sessionId,
+      source: "vision-analyze",
+    });
+
+    let parsed: RawVision | null = null;
+    try {
+      parsed = JSON.parse(data?.choices?.[0]?.message?.content ?? "");
+    } catch {
+      console.warn("[vision-analyze] Non-JSON model output");
+    }
+
+    const slot = String(parsed?.meal_slot ?? "");
+    const result = {
+      items: normalizeItems(parsed),
+      meal_slot: ["breakfast", "lunch", "dinner", "snack"].includes(slot) ? slot : "unknown",
+      source: "photo",
+      vision_metadata: {
+        model: MODEL,
+        processing_time_ms: Date.now() - started,
+        image_hash: await sha256(image),
+      },
+    };
+
+    console.log("[vision-analyze]", result.items.length, "items in", result.vision_metadata.processing_time_ms, "ms");
+    return new Response(JSON.stringify({ ok: true, result }), { headers: cors, status: 200 });
+  } catch (e) {
+    console.error("[vision-analyze] crash:", e);
+    return new Response(
+      JSON.stringify({ ok: false, error: "Function crashed", detail: String(e) }),
+      { status: 500, headers: cors }
+    );
+  }
+});
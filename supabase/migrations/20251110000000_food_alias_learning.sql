@@ -0,0 +1,112 @@
+/*
+  # Food Alias Learning
+
+  1. Purpose
+    - Let confirmed verify cards teach new aliases ("eggs scrambled" → "scrambled eggs")
+    - Track provenance so learned aliases never overwrite curated seeds
+
+  2. Changes
+    - food_aliases: source, confirm_count, last_confirmed_at
+    - food_alias_votes: each user's confirmed mapping per alias, written by the client
+    - record_food_alias(): promotes a mapping once enough distinct users agree;
+      runs from the votes trigger only, not callable by clients
+    - pg_trgm index on global_nutrition_cache.normalized_name for fuzzy candidate lookups
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+ALTER TABLE public.food_aliases
+  ADD COLUMN IF NOT EXISTS source text NOT NULL DEFAULT 'seed',
+  ADD COLUMN IF NOT EXISTS confirm_count int NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS last_confirmed_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_global_nutrition_cache_name_trgm
+  ON public.global_nutrition_cache USING gin (normalized_name gin_trgm_ops);
+
+-- ========== VOTES ==========
+-- One vote per user per alias. food_aliases is global, so a single account
+-- must not be able to redirect name resolution for everyone: a learned alias
+-- only appears once several distinct users confirmed the same mapping.
+CREATE TABLE IF NOT EXISTS public.food_alias_votes (
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  alias text NOT NULL,
+  canonical_name text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, alias)
+);
+
+CREATE INDEX IF NOT EXISTS food_alias_votes_alias_idx
+  ON public.food_alias_votes(alias, canonical_name);
+
+ALTER TABLE public.food_alias_votes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own food alias votes" ON public.food_alias_votes;
+CREATE POLICY "Users can manage own food alias votes"
+  ON public.food_alias_votes
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- ========== PROMOTION ==========
+-- Learned aliases appear at 3 distinct voters (0.75) and gain 0.03 per
+-- further voter up to 0.9. Seeded aliases only have their confirm count
+-- bumped when voters agree with them.
+CREATE OR REPLACE FUNCTION public.record_food_alias(p_alias text, p_canonical_name text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_alias text := lower(trim(p_alias));
+  v_voters int;
+BEGIN
+  IF coalesce(v_alias, '') = '' OR coalesce(trim(p_canonical_name), '') = '' THEN
+    RETURN;
+  END IF;
+
+  SELECT count(DISTINCT user_id) INTO v_voters
+    FROM public.food_alias_votes
+   WHERE alias = v_alias AND canonical_name = p_canonical_name;
+
+  IF v_voters < 3 THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.food_aliases (alias, canonical_name, confidence, source, confirm_count, last_confirmed_at)
+  VALUES (v_alias, p_canonical_name, least(0.75 + 0.03 * (v_voters - 3), 0.9), 'user_confirmed', v_voters, now())
+  ON CONFLICT (alias) DO UPDATE SET
+    confirm_count     = CASE
+      WHEN public.food_aliases.canonical_name = EXCLUDED.canonical_name THEN EXCLUDED.confirm_count
+      ELSE public.food_aliases.confirm_count
+    END,
+    last_confirmed_at = now(),
+    confidence        = CASE
+      WHEN public.food_aliases.source = 'user_confirmed'
+       AND public.food_aliases.canonical_name = EXCLUDED.canonical_name
+      THEN EXCLUDED.confidence
+      ELSE public.food_aliases.confidence
+    END;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.promote_food_alias_vote()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.record_food_alias(NEW.alias, NEW.canonical_name);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS food_alias_votes_promote ON public.food_alias_votes;
+CREATE TRIGGER food_alias_votes_promote
+  AFTER INSERT OR UPDATE ON public.food_alias_votes
+  FOR EACH ROW EXECUTE FUNCTION public.promote_food_alias_vote();
+
+DROP FUNCTION IF EXISTS public.record_food_alias(text, text, float);
+REVOKE EXECUTE ON FUNCTION public.record_food_alias(text, text) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,29 @@
+-- Food-group diet filters (vegan, vegetarian, pescatarian, Mediterranean, paleo, low-FODMAP)
+-- condition.exclude: groups flagged as warnings; condition.limit: groups noted as info
+-- substitutions: optional [{ group, suggested }] overrides for the default swaps
+
+insert into public.dietary_filter_rules (id, type, condition, annotations, substitutions, enabled)
+select gen_random_uuid(), v.type, v.condition, '[]'::jsonb, v.substitutions, true
+from (values
+  ('vegan',
+    jsonb_build_object('exclude', jsonb_build_array('meat', 'seafood', 'dairy', 'eggs', 'honey', 'gelatin')),
+    '[]'::jsonb),
+  ('vegetarian',
+    jsonb_build_object('exclude', jsonb_build_array('meat', 'seafood', 'gelatin')),
+    jsonb_build_array(jsonb_build_object('group', 'seafood', 'suggested', 'Tofu, paneer, eggs, or beans'))),
+  ('pescatarian',
+    jsonb_build_object('exclude', jsonb_build_array('meat')),
+    jsonb_build_array(jsonb_build_object('group', 'meat', 'suggested', 'Salmon, tuna, shrimp, or tofu'))),
+  ('mediterranean',
+    jsonb_build_object('limit', jsonb_build_array('red_meat', 'processed_meat', 'refined_grains', 'refined_sugar')),
+    '[]'::jsonb),
+  ('paleo',
+    jsonb_build_object('exclude', jsonb_build_array('grains', 'legumes', 'dairy', 'refined_sugar', 'processed')),
+    jsonb_build_array(jsonb_build_object('group', 'dairy', 'suggested', 'Coconut milk, almond milk, or ghee'))),
+  ('low_fodmap',
+    jsonb_build_object('exclude', jsonb_build_array('fodmap_fructans', 'fodmap_lactose', 'fodmap_fructose', 'fodmap_gos', 'fodmap_polyols')),
+    '[]'::jsonb)
+) as v(type, condition, substitutions)
+where not exists (
+  select 1 from public.dietary_filter_rules r where r.type = v.type
+);
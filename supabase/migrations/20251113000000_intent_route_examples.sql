@@ -0,0 +1,28 @@
+-- Several example utterances per route for the kNN semantic router.
+-- Thresholds stay as fallbacks; routes with 3+ examples are calibrated client-side.
+
+update public.intent_routes set examples = array[
+  'i ate 4 eggs', 'log my meal', 'add breakfast', 'i had a chicken salad for lunch',
+  'just ate a protein bar', 'log 2 cups of rice and salmon', 'had oatmeal with berries this morning',
+  'dinner was steak and potatoes'
+] where name = 'food_log';
+
+update public.intent_routes set examples = array[
+  'what are the macros for 4 eggs', 'protein in salmon', 'how many calories in an avocado',
+  'is rice high in carbs', 'how much fiber is in oatmeal', 'what is the fat content of a ribeye'
+] where name = 'food_question';
+
+update public.intent_routes set examples = array[
+  'log my workout', 'i did legs today', 'ran 3 miles this morning', 'bench pressed 3 sets of 10',
+  'finished a 45 minute spin class', 'squats 5x5 at 185', 'did an upper body session'
+] where name = 'workout_log';
+
+update public.intent_routes set examples = array[
+  'who are you?', 'tell me a story', 'talk to me', 'how are you doing', 'tell me a joke',
+  'thanks pat', 'good morning'
+] where name = 'general';
+
+update public.intent_routes set examples = array[
+  'search the web', 'UEFA Euro final score', 'latest news on creatine research',
+  'what is the weather tomorrow', 'who won the game last night', 'look up the newest study on fasting'
+] where name = 'web';
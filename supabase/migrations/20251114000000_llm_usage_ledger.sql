@@ -0,0 +1,197 @@
+/*
+  # LLM usage ledger
+
+  1. model_rates: versioned USD-per-1M-token prices (mirrors src/lib/credits/rates.ts)
+  2. llm_usage: one row per metered LLM call (tokens, model, intent, session, cost)
+  3. record_llm_usage: prices a call from the current rate version, writes the
+     ledger row and debits the wallet by the actual cost. Models without a
+     rate are refused rather than billed at a cheaper model's price
+  4. Wallet/transaction amounts widened to 6 decimals so sub-cent calls register
+
+  ## Security
+  - Users read their own usage; only record_llm_usage writes it
+  - record_llm_usage is service role only: edge functions meter the calls
+    they make, so users can't report their own token counts
+*/
+
+CREATE TABLE IF NOT EXISTS public.model_rates (
+  version text NOT NULL,
+  model text NOT NULL,
+  provider text NOT NULL CHECK (provider IN ('openai', 'gemini')),
+  input_per_1m numeric(10,4) NOT NULL,
+  output_per_1m numeric(10,4) NOT NULL,
+  effective_from timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (version, model)
+);
+
+ALTER TABLE public.model_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read model rates"
+  ON public.model_rates FOR SELECT
+  TO authenticated
+  USING (true);
+
+INSERT INTO public.model_rates (version, model, provider, input_per_1m, output_per_1m, effective_from)
+VALUES
+  ('2025-11-01', 'gpt-4o-mini',           'openai', 0.15,  0.60,  '2025-11-01'),
+  ('2025-11-01', 'gpt-4o',                'openai', 2.50,  10.00, '2025-11-01'),
+  ('2025-11-01', 'gemini-2.5-flash',      'gemini', 0.075, 0.30,  '2025-11-01'),
+  ('2025-11-01', 'gemini-2.5-pro',        'gemini', 1.25,  5.00,  '2025-11-01'),
+  ('2025-11-01', 'gemini-2.5-flash-lite', 'gemini', 0.05,  0.20,  '2025-11-01')
+ON CONFLICT (version, model) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.llm_usage (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  session_id text,
+  intent text,
+  provider text NOT NULL,
+  model text NOT NULL,
+  input_tokens integer NOT NULL DEFAULT 0,
+  output_tokens integer NOT NULL DEFAULT 0,
+  cost_usd numeric(12,6) NOT NULL,
+  rate_version text NOT NULL,
+  source text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.llm_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own usage"
+  ON public.llm_usage FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_user_created
+  ON public.llm_usage(user_id, created_at DESC);
+
+-- Widen amounts; the view depends on both columns
+DROP VIEW IF EXISTS public.v_user_credits;
+
+ALTER TABLE public.token_wallets ALTER COLUMN balance_usd TYPE numeric(12,6);
+ALTER TABLE public.token_transactions ALTER COLUMN delta_usd TYPE numeric(12,6);
+
+CREATE VIEW public.v_user_credits AS
+SELECT
+  w.user_id,
+  w.plan,
+  (w.plan = 'unlimited') AS is_unlimited,
+  w.balance_usd,
+  COALESCE((
+    SELECT SUM(delta_usd)
+    FROM public.token_transactions t
+    WHERE t.user_id = w.user_id
+      AND date_trunc('month', t.created_at) = date_trunc('month', now())
+  ), 0) AS month_delta_usd
+FROM public.token_wallets w;
+
+-- Shared debit; usage debits may overdraw since the call already happened
+CREATE OR REPLACE FUNCTION public.debit_credits(p_user uuid, p_amount_usd numeric, p_reason text, p_allow_overdraft boolean)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_bal  numeric;
+  v_plan text;
+BEGIN
+  SELECT plan, balance_usd INTO v_plan, v_bal
+  FROM public.token_wallets
+  WHERE user_id = p_user
+  FOR UPDATE;
+
+  -- Unlimited users never deduct balance
+  IF v_plan = 'unlimited' THEN
+    RETURN COALESCE(v_bal, 0);
+  END IF;
+
+  v_bal := COALESCE(v_bal, 0);
+
+  IF v_bal < p_amount_usd AND NOT p_allow_overdraft THEN
+    RAISE EXCEPTION 'Insufficient credits';
+  END IF;
+
+  INSERT INTO public.token_wallets (user_id, balance_usd, plan)
+  VALUES (p_user, -p_amount_usd, 'free')
+  ON CONFLICT (user_id) DO UPDATE
+  SET balance_usd = public.token_wallets.balance_usd - p_amount_usd,
+      updated_at = now()
+  RETURNING balance_usd INTO v_bal;
+
+  INSERT INTO public.token_transactions(user_id, delta_usd, reason)
+  VALUES (p_user, -p_amount_usd, COALESCE(p_reason, 'spend'));
+
+  RETURN v_bal;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.debit_credits(uuid, numeric, text, boolean) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.spend_credits(p_amount_usd numeric, p_reason text)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN public.debit_credits(auth.uid(), p_amount_usd, p_reason, false);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_llm_usage(
+  p_user_id uuid,
+  p_provider text,
+  p_model text,
+  p_input_tokens integer,
+  p_output_tokens integer,
+  p_intent text,
+  p_session_id text,
+  p_source text
+)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user uuid := p_user_id;
+  v_rate public.model_rates%ROWTYPE;
+  v_cost numeric;
+BEGIN
+  IF v_user IS NULL THEN
+    RAISE EXCEPTION 'User is required';
+  END IF;
+
+  -- Latest effective version for the model
+  SELECT * INTO v_rate
+  FROM public.model_rates
+  WHERE model = p_model AND effective_from <= now()
+  ORDER BY effective_from DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No rate for model %', p_model;
+  END IF;
+
+  v_cost := round(
+    (GREATEST(p_input_tokens, 0) * v_rate.input_per_1m
+      + GREATEST(p_output_tokens, 0) * v_rate.output_per_1m) / 1000000.0,
+    6
+  );
+
+  INSERT INTO public.llm_usage (user_id, session_id, intent, provider, model, input_tokens, output_tokens, cost_usd, rate_version, source)
+  VALUES (v_user, p_session_id, p_intent, p_provider, p_model, GREATEST(p_input_tokens, 0), GREATEST(p_output_tokens, 0), v_cost, v_rate.version, p_source);
+
+  IF v_cost > 0 THEN
+    PERFORM public.debit_credits(v_user, v_cost, COALESCE(p_intent, 'llm') || ': ' || p_model, true);
+  END IF;
+
+  RETURN v_cost;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_llm_usage(uuid, text, text, integer, integer, text, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_llm_usage(uuid, text, text, integer, integer, text, text, text) TO service_role;
@@ -0,0 +1,43 @@
+/*
+  # Packaged products
+
+  1. packaged_products: label nutrition per barcode (GTIN-13, or 8 digits for
+     EAN-8), bulk-loaded from Open Food Facts dumps by `npm run import-products`
+  2. Macros are per 100 g; serving_g is the label serving in grams (1 g/ml for
+     liquids), null when the label has none
+  3. pg_trgm index on name for brand + name searches from the macro cascade
+
+  ## Security
+  - Authenticated users can read products
+  - Only the service role (import script) writes
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE TABLE IF NOT EXISTS public.packaged_products (
+  barcode text PRIMARY KEY CHECK (barcode ~ '^[0-9]{8}$|^[0-9]{13}$'),
+  name text NOT NULL,
+  brand text,
+  serving_label text,
+  serving_g numeric(8,1) CHECK (serving_g IS NULL OR serving_g > 0),
+  kcal_100g numeric(7,1) NOT NULL CHECK (kcal_100g >= 0),
+  protein_100g numeric(7,2) NOT NULL DEFAULT 0,
+  carbs_100g numeric(7,2) NOT NULL DEFAULT 0,
+  fat_100g numeric(7,2) NOT NULL DEFAULT 0,
+  fiber_100g numeric(7,2) NOT NULL DEFAULT 0,
+  source text NOT NULL DEFAULT 'open_food_facts',
+  imported_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_packaged_products_brand
+  ON public.packaged_products (lower(brand));
+
+CREATE INDEX IF NOT EXISTS idx_packaged_products_name_trgm
+  ON public.packaged_products USING gin (name gin_trgm_ops);
+
+ALTER TABLE public.packaged_products ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read packaged products"
+  ON public.packaged_products FOR SELECT
+  TO authenticated
+  USING (true);
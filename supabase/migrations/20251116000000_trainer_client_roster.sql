@@ -0,0 +1,484 @@
+/*
+  # Trainer client roster
+
+  1. org_members: trainer and client roles; trainer_id links a client to the
+     trainer who coaches them; revocation is recorded instead of deleting rows
+  2. org_invitations: unguessable token, mandatory expiry, reminder tracking;
+     invited_email may be null for shareable link invitations
+  3. RPCs
+     - create_org_invitation / resend_org_invitation / revoke_org_invitation
+     - get_org_invitation (preview by token), accept_org_invitation,
+       decline_org_invitation
+     - revoke_org_member
+     - list_org_roster: search, status filter and pagination over members
+       plus pending invitations
+
+  ## Security
+  - Owners and admins manage everyone in the org; trainers invite clients
+    and see or revoke only their own clients
+  - Email-bound invitations can only be accepted by that email's account
+  - Invitations are only written through the RPCs: inviters keep read access
+    to their rows, and accepting re-checks that the inviter may still grant
+    the invited role
+*/
+
+-- ========== ROLES ==========
+ALTER TABLE public.org_members DROP CONSTRAINT IF EXISTS org_members_role_check;
+ALTER TABLE public.org_members ADD CONSTRAINT org_members_role_check
+  CHECK (role IN ('owner', 'admin', 'trainer', 'client', 'member'));
+
+ALTER TABLE public.org_members
+  ADD COLUMN IF NOT EXISTS trainer_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS invited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS revoked_at timestamptz,
+  ADD COLUMN IF NOT EXISTS revoked_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS org_members_trainer_idx
+  ON public.org_members(trainer_id) WHERE trainer_id IS NOT NULL;
+
+-- ========== INVITATIONS ==========
+ALTER TABLE public.org_invitations ALTER COLUMN invited_email DROP NOT NULL;
+
+ALTER TABLE public.org_invitations DROP CONSTRAINT IF EXISTS org_invitations_role_check;
+ALTER TABLE public.org_invitations ADD CONSTRAINT org_invitations_role_check
+  CHECK (role IN ('admin', 'trainer', 'client', 'member'));
+
+ALTER TABLE public.org_invitations DROP CONSTRAINT IF EXISTS org_invitations_status_check;
+ALTER TABLE public.org_invitations ADD CONSTRAINT org_invitations_status_check
+  CHECK (status IN ('pending', 'accepted', 'declined', 'cancelled', 'expired'));
+
+ALTER TABLE public.org_invitations
+  ADD COLUMN IF NOT EXISTS token text,
+  ADD COLUMN IF NOT EXISTS accepted_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS responded_at timestamptz,
+  ADD COLUMN IF NOT EXISTS reminders_sent integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS last_sent_at timestamptz NOT NULL DEFAULT now();
+
+-- 256 bits from two v4 UUIDs; gen_random_uuid needs no extension
+UPDATE public.org_invitations
+   SET token = replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', '')
+ WHERE token IS NULL;
+ALTER TABLE public.org_invitations
+  ALTER COLUMN token SET DEFAULT replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', ''),
+  ALTER COLUMN token SET NOT NULL;
+
+UPDATE public.org_invitations SET expires_at = created_at + interval '7 days' WHERE expires_at IS NULL;
+ALTER TABLE public.org_invitations
+  ALTER COLUMN expires_at SET DEFAULT now() + interval '7 days',
+  ALTER COLUMN expires_at SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS org_invitations_token_idx ON public.org_invitations(token);
+
+-- The original FOR ALL policy let any user insert an invitation to any org
+-- with any role, or edit the role on their own; writes now go through the RPCs
+DROP POLICY IF EXISTS org_inviter_manage ON public.org_invitations;
+DROP POLICY IF EXISTS org_inviter_read ON public.org_invitations;
+CREATE POLICY org_inviter_read ON public.org_invitations
+  FOR SELECT TO authenticated
+  USING (invited_by = auth.uid());
+CREATE INDEX IF NOT EXISTS org_invitations_email_idx
+  ON public.org_invitations(org_id, lower(invited_email)) WHERE status = 'pending';
+
+-- ========== HELPERS ==========
+-- Caller's active role in an org, null when not a member
+CREATE OR REPLACE FUNCTION public.org_role(p_org_id uuid)
+RETURNS text
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+  SELECT role FROM public.org_members
+   WHERE org_id = p_org_id AND user_id = auth.uid() AND status = 'active';
+$$;
+
+-- Higher outranks lower; accepting an invitation never lowers a role
+CREATE OR REPLACE FUNCTION public.org_role_rank(p_role text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_role
+    WHEN 'owner' THEN 5
+    WHEN 'admin' THEN 4
+    WHEN 'trainer' THEN 3
+    WHEN 'client' THEN 2
+    WHEN 'member' THEN 1
+    ELSE 0
+  END;
+$$;
+
+-- ========== INVITATION RPCs ==========
+CREATE OR REPLACE FUNCTION public.create_org_invitation(
+  p_org_id uuid,
+  p_email text DEFAULT NULL,
+  p_role text DEFAULT 'client',
+  p_expires_days integer DEFAULT 7
+)
+RETURNS public.org_invitations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_role text := public.org_role(p_org_id);
+  v_email text := nullif(lower(trim(p_email)), '');
+  v_invite public.org_invitations;
+BEGIN
+  IF v_caller_role IS NULL OR v_caller_role NOT IN ('owner', 'admin', 'trainer') THEN
+    RAISE EXCEPTION 'Not allowed to invite to this organization';
+  END IF;
+  IF v_caller_role = 'trainer' AND p_role <> 'client' THEN
+    RAISE EXCEPTION 'Trainers can only invite clients';
+  END IF;
+  IF p_expires_days NOT BETWEEN 1 AND 90 THEN
+    RAISE EXCEPTION 'Invitation expiry must be between 1 and 90 days';
+  END IF;
+
+  IF v_email IS NOT NULL THEN
+    IF EXISTS (
+      SELECT 1 FROM public.org_members m
+        JOIN public.profiles p ON p.user_id = m.user_id
+       WHERE m.org_id = p_org_id AND m.status = 'active' AND lower(p.email) = v_email
+    ) THEN
+      RAISE EXCEPTION 'Already a member of this organization';
+    END IF;
+    IF EXISTS (
+      SELECT 1 FROM public.org_invitations
+       WHERE org_id = p_org_id AND lower(invited_email) = v_email
+         AND status = 'pending' AND expires_at > now()
+    ) THEN
+      RAISE EXCEPTION 'An invitation is already pending for this email';
+    END IF;
+  END IF;
+
+  INSERT INTO public.org_invitations (org_id, invited_email, invited_by, role, expires_at)
+  VALUES (p_org_id, v_email, auth.uid(), p_role, now() + make_interval(days => p_expires_days))
+  RETURNING * INTO v_invite;
+
+  RETURN v_invite;
+END;
+$$;
+
+-- Extend a pending or expired invitation and count the reminder
+CREATE OR REPLACE FUNCTION public.resend_org_invitation(p_invitation_id uuid, p_expires_days integer DEFAULT 7)
+RETURNS public.org_invitations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invite public.org_invitations;
+BEGIN
+  SELECT * INTO v_invite FROM public.org_invitations WHERE id = p_invitation_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+  IF v_invite.invited_by <> auth.uid() AND coalesce(public.org_role(v_invite.org_id), '') NOT IN ('owner', 'admin') THEN
+    RAISE EXCEPTION 'Not allowed to manage this invitation';
+  END IF;
+  IF v_invite.status NOT IN ('pending', 'expired') THEN
+    RAISE EXCEPTION 'Invitation is already %', v_invite.status;
+  END IF;
+
+  UPDATE public.org_invitations
+     SET status = 'pending',
+         expires_at = now() + make_interval(days => greatest(1, least(p_expires_days, 90))),
+         reminders_sent = reminders_sent + 1,
+         last_sent_at = now()
+   WHERE id = p_invitation_id
+  RETURNING * INTO v_invite;
+
+  RETURN v_invite;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.revoke_org_invitation(p_invitation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invite public.org_invitations;
+BEGIN
+  SELECT * INTO v_invite FROM public.org_invitations WHERE id = p_invitation_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+  IF v_invite.invited_by <> auth.uid() AND coalesce(public.org_role(v_invite.org_id), '') NOT IN ('owner', 'admin') THEN
+    RAISE EXCEPTION 'Not allowed to manage this invitation';
+  END IF;
+  IF v_invite.status <> 'pending' THEN
+    RAISE EXCEPTION 'Invitation is already %', v_invite.status;
+  END IF;
+
+  UPDATE public.org_invitations SET status = 'cancelled', responded_at = now() WHERE id = p_invitation_id;
+END;
+$$;
+
+-- What the invitee sees before accepting; the token is the credential
+CREATE OR REPLACE FUNCTION public.get_org_invitation(p_token text)
+RETURNS jsonb
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+  SELECT jsonb_build_object(
+    'id', i.id,
+    'org_id', i.org_id,
+    'org_name', o.name,
+    'inviter_name', coalesce(p.name, p.email),
+    'role', i.role,
+    'invited_email', i.invited_email,
+    'status', CASE WHEN i.status = 'pending' AND i.expires_at <= now() THEN 'expired' ELSE i.status END,
+    'expires_at', i.expires_at
+  )
+  FROM public.org_invitations i
+  JOIN public.organizations o ON o.id = i.org_id
+  LEFT JOIN public.profiles p ON p.user_id = i.invited_by
+  WHERE i.token = p_token;
+$$;
+
+CREATE OR REPLACE FUNCTION public.accept_org_invitation(p_token text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invite public.org_invitations;
+  v_email text;
+  v_inviter_role text;
+BEGIN
+  SELECT * INTO v_invite FROM public.org_invitations WHERE token = p_token FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+  IF v_invite.status <> 'pending' THEN
+    RAISE EXCEPTION 'Invitation is already %', v_invite.status;
+  END IF;
+  IF v_invite.expires_at <= now() THEN
+    RAISE EXCEPTION 'Invitation has expired';
+  END IF;
+  IF v_invite.invited_by = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot accept your own invitation';
+  END IF;
+
+  SELECT lower(email) INTO v_email FROM public.profiles WHERE user_id = auth.uid();
+  IF v_invite.invited_email IS NOT NULL AND v_invite.invited_email <> coalesce(v_email, '') THEN
+    RAISE EXCEPTION 'This invitation was sent to a different email address';
+  END IF;
+
+  -- The inviter may have been demoted or removed since sending it
+  SELECT role INTO v_inviter_role FROM public.org_members
+   WHERE org_id = v_invite.org_id AND user_id = v_invite.invited_by AND status = 'active';
+  IF NOT (
+    v_inviter_role IN ('owner', 'admin')
+    OR (v_inviter_role = 'trainer' AND v_invite.role = 'client')
+  ) THEN
+    RAISE EXCEPTION 'This invitation is no longer valid';
+  END IF;
+
+  INSERT INTO public.org_members (org_id, user_id, role, status, trainer_id, invited_by, joined_at)
+  VALUES (
+    v_invite.org_id, auth.uid(), v_invite.role, 'active',
+    CASE WHEN v_invite.role = 'client' THEN v_invite.invited_by END,
+    v_invite.invited_by, now()
+  )
+  ON CONFLICT (org_id, user_id) DO UPDATE
+    SET role = CASE
+          WHEN org_members.status = 'active'
+           AND public.org_role_rank(org_members.role) > public.org_role_rank(excluded.role)
+          THEN org_members.role
+          ELSE excluded.role
+        END,
+        status = 'active',
+        trainer_id = CASE
+          WHEN org_members.status = 'active'
+           AND public.org_role_rank(org_members.role) > public.org_role_rank(excluded.role)
+          THEN org_members.trainer_id
+          ELSE coalesce(excluded.trainer_id, org_members.trainer_id)
+        END,
+        invited_by = excluded.invited_by,
+        revoked_at = NULL,
+        revoked_by = NULL,
+        joined_at = now();
+
+  UPDATE public.org_invitations
+     SET status = 'accepted', accepted_by = auth.uid(), responded_at = now()
+   WHERE id = v_invite.id;
+
+  RETURN v_invite.org_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.decline_org_invitation(p_token text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invite public.org_invitations;
+  v_email text;
+BEGIN
+  SELECT * INTO v_invite FROM public.org_invitations WHERE token = p_token FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+  IF v_invite.status <> 'pending' THEN
+    RAISE EXCEPTION 'Invitation is already %', v_invite.status;
+  END IF;
+
+  -- Only the invited account or the inviter; a shared link can't be killed
+  -- by whoever happens to open it
+  SELECT lower(email) INTO v_email FROM public.profiles WHERE user_id = auth.uid();
+  IF v_invite.invited_by <> auth.uid()
+     AND (v_invite.invited_email IS NULL OR v_invite.invited_email <> coalesce(v_email, '')) THEN
+    RAISE EXCEPTION 'Not allowed to decline this invitation';
+  END IF;
+
+  UPDATE public.org_invitations SET status = 'declined', responded_at = now() WHERE id = v_invite.id;
+END;
+$$;
+
+-- ========== MEMBERSHIP ==========
+CREATE OR REPLACE FUNCTION public.revoke_org_member(p_org_id uuid, p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_role text := public.org_role(p_org_id);
+  v_member public.org_members;
+BEGIN
+  SELECT * INTO v_member FROM public.org_members
+   WHERE org_id = p_org_id AND user_id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not a member of this organization';
+  END IF;
+  IF v_member.role = 'owner' THEN
+    RAISE EXCEPTION 'The organization owner cannot be removed';
+  END IF;
+  IF NOT (
+    v_caller_role IN ('owner', 'admin')
+    OR (v_caller_role = 'trainer' AND v_member.role = 'client' AND v_member.trainer_id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to remove this member';
+  END IF;
+
+  UPDATE public.org_members
+     SET status = 'inactive', revoked_at = now(), revoked_by = auth.uid()
+   WHERE org_id = p_org_id AND user_id = p_user_id;
+END;
+$$;
+
+-- ========== ROSTER ==========
+-- Members plus pending email invitations, one page at a time.
+-- Returns { total, counts: {active, invited, inactive}, entries: [...] }
+CREATE OR REPLACE FUNCTION public.list_org_roster(
+  p_org_id uuid,
+  p_search text DEFAULT NULL,
+  p_status text DEFAULT NULL,
+  p_role text DEFAULT 'client',
+  p_limit integer DEFAULT 25,
+  p_offset integer DEFAULT 0
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+DECLARE
+  v_caller_role text := public.org_role(p_org_id);
+  v_manage boolean;
+  v_search text := nullif(trim(p_search), '');
+  v_result jsonb;
+BEGIN
+  IF v_caller_role IS NULL OR v_caller_role NOT IN ('owner', 'admin', 'trainer') THEN
+    RAISE EXCEPTION 'Not allowed to view this roster';
+  END IF;
+  v_manage := v_caller_role IN ('owner', 'admin');
+  v_search := replace(replace(replace(v_search, '\', '\\'), '%', '\%'), '_', '\_');
+
+  WITH roster AS (
+    SELECT m.user_id,
+           NULL::uuid AS invitation_id,
+           coalesce(p.name, p.email, '') AS name,
+           p.email,
+           m.role,
+           CASE WHEN m.status = 'active' THEN 'active' ELSE 'inactive' END AS status,
+           m.trainer_id,
+           m.joined_at AS since,
+           u.last_sign_in_at,
+           NULL::timestamptz AS expires_at
+      FROM public.org_members m
+      LEFT JOIN public.profiles p ON p.user_id = m.user_id
+      LEFT JOIN auth.users u ON u.id = m.user_id
+     WHERE m.org_id = p_org_id
+       AND m.status <> 'invited'
+       AND (p_role IS NULL OR m.role = p_role)
+       AND (v_manage OR m.trainer_id = auth.uid())
+    UNION ALL
+    SELECT NULL::uuid,
+           i.id,
+           i.invited_email,
+           i.invited_email,
+           i.role,
+           'invited',
+           CASE WHEN i.role = 'client' THEN i.invited_by END,
+           i.created_at,
+           NULL::timestamptz,
+           i.expires_at
+      FROM public.org_invitations i
+     WHERE i.org_id = p_org_id
+       AND i.status = 'pending'
+       AND i.expires_at > now()
+       AND i.invited_email IS NOT NULL
+       AND (p_role IS NULL OR i.role = p_role)
+       AND (v_manage OR i.invited_by = auth.uid())
+  ),
+  searched AS (
+    SELECT * FROM roster
+     WHERE v_search IS NULL OR name ILIKE '%' || v_search || '%' OR email ILIKE '%' || v_search || '%'
+  ),
+  filtered AS (
+    SELECT * FROM searched WHERE p_status IS NULL OR status = p_status
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT count(*) FROM filtered),
+    'counts', (SELECT coalesce(jsonb_object_agg(status, n), '{}'::jsonb)
+                 FROM (SELECT status, count(*) AS n FROM searched GROUP BY status) c),
+    'entries', coalesce((
+      SELECT jsonb_agg(to_jsonb(page) ORDER BY page.status <> 'active', lower(page.name))
+        FROM (
+          SELECT * FROM filtered
+           ORDER BY status <> 'active', lower(name)
+           LIMIT greatest(1, least(p_limit, 100)) OFFSET greatest(0, p_offset)
+        ) page
+    ), '[]'::jsonb)
+  ) INTO v_result;
+
+  RETURN v_result;
+END;
+$$;
+
+-- Trainers read their clients' membership rows directly as well
+DROP POLICY IF EXISTS org_members_trainer_read_clients ON public.org_members;
+CREATE POLICY org_members_trainer_read_clients ON public.org_members
+  FOR SELECT TO authenticated
+  USING (trainer_id = auth.uid());
+
+GRANT EXECUTE ON FUNCTION public.org_role(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.create_org_invitation(uuid, text, text, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.resend_org_invitation(uuid, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_org_invitation(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_org_invitation(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.accept_org_invitation(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.decline_org_invitation(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_org_member(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.list_org_roster(uuid, text, text, text, integer, integer) TO authenticated;
@@ -0,0 +1,375 @@
+/*
+  # Mentor plan compliance
+
+  1. assign_mentor_plan: trainers (for their own clients) and org owners/admins
+     assign a plan; any previously active plan for the client in that org is
+     retired. end_mentor_plan retires one with the same checks. Trainers only
+     read mentor_plans directly; their writes go through these functions
+  2. Meal evaluation: trigger on meal_logs emits over_calories when the day's
+     running total first passes 110% of the plan target, or a meal exceeds its
+     scheduled slot by more than 25%
+  3. Day close: close_compliance_day(date) emits under_protein, missed_meal and
+     excellent_day per plan; called nightly by the compliance-day-close function
+  4. compliance_events gains event_date, dedupe_key (one event per plan, day
+     and kind) and read_at for the client inbox; clients set read_at through
+     mark_compliance_events_read, never by updating rows directly
+
+  ## Thresholds
+  - over_calories: kcal > 110% of daily target, or meal > 125% of slot kcal
+  - under_protein: protein < 90% of target at day close
+  - excellent_day: kcal within ±10%, protein >= 95%, no missed scheduled meals
+
+  Days are the client's local dates (get_user_local_date), matching
+  day_rollups. A day is only closed once it has ended in the client's timezone.
+*/
+
+-- ========== EVENTS ==========
+ALTER TABLE public.compliance_events
+  ADD COLUMN IF NOT EXISTS event_date date,
+  ADD COLUMN IF NOT EXISTS dedupe_key text,
+  ADD COLUMN IF NOT EXISTS read_at timestamptz;
+
+CREATE UNIQUE INDEX IF NOT EXISTS compliance_events_dedupe_idx
+  ON public.compliance_events(mentor_plan_id, dedupe_key) WHERE dedupe_key IS NOT NULL;
+
+-- Events are only written by the security definer functions below
+DROP POLICY IF EXISTS "System can write compliance events" ON public.compliance_events;
+
+DROP POLICY IF EXISTS "Users can mark own compliance events read" ON public.compliance_events;
+
+-- The only client write: stamp read_at on the caller's own unread events
+CREATE OR REPLACE FUNCTION public.mark_compliance_events_read(p_event_ids uuid[])
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE public.compliance_events
+     SET read_at = now()
+   WHERE id = ANY(p_event_ids)
+     AND user_id = auth.uid()
+     AND read_at IS NULL;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Trainers see their own clients' events, alongside the owner/admin policy
+DROP POLICY IF EXISTS "Trainers can read own clients compliance events" ON public.compliance_events;
+CREATE POLICY "Trainers can read own clients compliance events"
+  ON public.compliance_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.mentor_plans mp
+      JOIN public.org_members om ON om.org_id = mp.org_id AND om.user_id = mp.client_id
+      WHERE mp.id = compliance_events.mentor_plan_id
+        AND om.trainer_id = auth.uid()
+        AND om.status = 'active'
+    )
+  );
+
+DROP POLICY IF EXISTS "Trainers can manage own clients plans" ON public.mentor_plans;
+DROP POLICY IF EXISTS "Trainers can read own clients plans" ON public.mentor_plans;
+CREATE POLICY "Trainers can read own clients plans"
+  ON public.mentor_plans
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.org_members om
+      WHERE om.org_id = mentor_plans.org_id
+        AND om.user_id = mentor_plans.client_id
+        AND om.trainer_id = auth.uid()
+        AND om.status = 'active'
+    )
+  );
+
+-- ========== PLAN ASSIGNMENT ==========
+CREATE OR REPLACE FUNCTION public.assign_mentor_plan(
+  p_org_id uuid,
+  p_client_id uuid,
+  p_plan_name text,
+  p_daily_targets jsonb,
+  p_starts_on date,
+  p_ends_on date DEFAULT NULL,
+  p_meal_schedule jsonb DEFAULT NULL,
+  p_dietary_restrictions text[] DEFAULT NULL,
+  p_notes text DEFAULT NULL
+)
+RETURNS public.mentor_plans
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_role text := public.org_role(p_org_id);
+  v_plan public.mentor_plans;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.org_members
+     WHERE org_id = p_org_id AND user_id = p_client_id AND status = 'active'
+       AND (v_caller_role IN ('owner', 'admin') OR (v_caller_role = 'trainer' AND trainer_id = auth.uid()))
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to assign plans to this client';
+  END IF;
+  IF coalesce((p_daily_targets->>'kcal')::numeric, 0) <= 0
+     OR coalesce((p_daily_targets->>'protein_g')::numeric, 0) <= 0 THEN
+    RAISE EXCEPTION 'Daily targets need positive kcal and protein';
+  END IF;
+  IF p_ends_on IS NOT NULL AND p_ends_on < p_starts_on THEN
+    RAISE EXCEPTION 'Plan cannot end before it starts';
+  END IF;
+
+  UPDATE public.mentor_plans
+     SET active = false, updated_at = now()
+   WHERE org_id = p_org_id AND client_id = p_client_id AND active;
+
+  INSERT INTO public.mentor_plans (
+    org_id, client_id, created_by_trainer_id, plan_name, daily_targets,
+    meal_schedule, dietary_restrictions, notes, active, starts_on, ends_on
+  )
+  VALUES (
+    p_org_id, p_client_id, auth.uid(), p_plan_name, p_daily_targets,
+    p_meal_schedule, p_dietary_restrictions, p_notes, true, p_starts_on, p_ends_on
+  )
+  RETURNING * INTO v_plan;
+
+  RETURN v_plan;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.end_mentor_plan(p_plan_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_plan public.mentor_plans;
+  v_caller_role text;
+BEGIN
+  SELECT * INTO v_plan FROM public.mentor_plans WHERE id = p_plan_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Mentor plan not found';
+  END IF;
+
+  v_caller_role := public.org_role(v_plan.org_id);
+  IF NOT EXISTS (
+    SELECT 1 FROM public.org_members
+     WHERE org_id = v_plan.org_id AND user_id = v_plan.client_id AND status = 'active'
+       AND (v_caller_role IN ('owner', 'admin') OR (v_caller_role = 'trainer' AND trainer_id = auth.uid()))
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to end this plan';
+  END IF;
+
+  UPDATE public.mentor_plans
+     SET active = false, updated_at = now()
+   WHERE id = p_plan_id;
+END;
+$$;
+
+-- Active plan covering a date for a client; internal to the functions below
+CREATE OR REPLACE FUNCTION public.mentor_plan_for(p_client_id uuid, p_date date)
+RETURNS public.mentor_plans
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+  SELECT * FROM public.mentor_plans
+   WHERE client_id = p_client_id
+     AND active
+     AND starts_on <= p_date
+     AND (ends_on IS NULL OR ends_on >= p_date)
+   ORDER BY created_at DESC
+   LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION public.emit_compliance_event(
+  p_plan public.mentor_plans,
+  p_date date,
+  p_dedupe_key text,
+  p_event_type text,
+  p_severity text,
+  p_message text,
+  p_delta jsonb DEFAULT NULL,
+  p_meal_log_id uuid DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.compliance_events (
+    user_id, mentor_plan_id, meal_log_id, event_type, severity,
+    message, delta, event_date, dedupe_key
+  )
+  VALUES (
+    p_plan.client_id, p_plan.id, p_meal_log_id, p_event_type, p_severity,
+    p_message, p_delta, p_date, p_date::text || ':' || p_dedupe_key
+  )
+  ON CONFLICT (mentor_plan_id, dedupe_key) WHERE dedupe_key IS NOT NULL DO NOTHING;
+  RETURN FOUND;
+END;
+$$;
+
+-- ========== MEAL EVALUATION ==========
+CREATE OR REPLACE FUNCTION public.evaluate_meal_compliance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_date date := public.get_user_local_date(NEW.user_id, NEW.ts);
+  v_plan public.mentor_plans;
+  v_target numeric;
+  v_day_kcal numeric;
+  v_meal_kcal numeric := coalesce((NEW.totals->>'kcal')::numeric, 0);
+  v_slot_kcal numeric;
+BEGIN
+  v_plan := public.mentor_plan_for(NEW.user_id, v_date);
+  IF v_plan.id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  v_target := (v_plan.daily_targets->>'kcal')::numeric;
+  SELECT coalesce(SUM((totals->>'kcal')::numeric), 0) INTO v_day_kcal
+    FROM public.meal_logs
+   WHERE user_id = NEW.user_id AND public.get_user_local_date(user_id, ts) = v_date;
+
+  IF v_target > 0 AND v_day_kcal > v_target * 1.10 THEN
+    PERFORM public.emit_compliance_event(
+      v_plan, v_date, 'over_calories', 'over_calories', 'warning',
+      format('Over today''s calorie target by %s kcal (%s of %s)',
+             round(v_day_kcal - v_target), round(v_day_kcal), round(v_target)),
+      jsonb_build_object('kcal_over', round(v_day_kcal - v_target), 'kcal_total', round(v_day_kcal), 'kcal_target', v_target),
+      NEW.id
+    );
+  END IF;
+
+  v_slot_kcal := (v_plan.meal_schedule->NEW.meal_slot->>'kcal')::numeric;
+  IF v_slot_kcal > 0 AND v_meal_kcal > v_slot_kcal * 1.25 THEN
+    PERFORM public.emit_compliance_event(
+      v_plan, v_date, 'over_calories:' || NEW.meal_slot, 'over_calories', 'info',
+      format('%s came in at %s kcal against a planned %s',
+             initcap(NEW.meal_slot), round(v_meal_kcal), round(v_slot_kcal)),
+      jsonb_build_object('kcal_over', round(v_meal_kcal - v_slot_kcal), 'kcal_meal', round(v_meal_kcal), 'kcal_planned', v_slot_kcal),
+      NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS meal_logs_evaluate_compliance ON public.meal_logs;
+CREATE TRIGGER meal_logs_evaluate_compliance
+  AFTER INSERT ON public.meal_logs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.evaluate_meal_compliance();
+
+-- ========== DAY CLOSE ==========
+-- Evaluates every client's plan for p_date, or for the client's local
+-- yesterday when p_date is NULL. Days that have not ended in the client's
+-- timezone are skipped. Safe to re-run. Returns events created.
+DROP FUNCTION IF EXISTS public.close_compliance_day(date);
+CREATE OR REPLACE FUNCTION public.close_compliance_day(p_date date DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_client_id uuid;
+  v_today date;
+  v_date date;
+  v_plan public.mentor_plans;
+  v_created integer := 0;
+  v_kcal numeric;
+  v_protein numeric;
+  v_meals integer;
+  v_kcal_target numeric;
+  v_protein_target numeric;
+  v_missed integer;
+  v_slot text;
+  v_slot_time text;
+BEGIN
+  FOR v_client_id IN
+    SELECT DISTINCT client_id FROM public.mentor_plans WHERE active
+  LOOP
+    v_today := public.get_user_local_date(v_client_id, now());
+    v_date := coalesce(p_date, v_today - 1);
+    CONTINUE WHEN v_date >= v_today;
+
+    v_plan := public.mentor_plan_for(v_client_id, v_date);
+    CONTINUE WHEN v_plan.id IS NULL;
+
+    SELECT coalesce(SUM((totals->>'kcal')::numeric), 0),
+           coalesce(SUM((totals->>'protein_g')::numeric), 0),
+           COUNT(*)
+      INTO v_kcal, v_protein, v_meals
+      FROM public.meal_logs
+     WHERE user_id = v_plan.client_id AND public.get_user_local_date(user_id, ts) = v_date;
+
+    v_kcal_target := (v_plan.daily_targets->>'kcal')::numeric;
+    v_protein_target := (v_plan.daily_targets->>'protein_g')::numeric;
+    v_missed := 0;
+
+    FOREACH v_slot IN ARRAY ARRAY['breakfast', 'lunch', 'dinner', 'snack'] LOOP
+      CONTINUE WHEN v_plan.meal_schedule IS NULL OR NOT (v_plan.meal_schedule ? v_slot);
+      CONTINUE WHEN EXISTS (
+        SELECT 1 FROM public.meal_logs
+         WHERE user_id = v_plan.client_id AND public.get_user_local_date(user_id, ts) = v_date AND meal_slot = v_slot
+      );
+      v_missed := v_missed + 1;
+      v_slot_time := v_plan.meal_schedule->v_slot->>'time';
+      IF public.emit_compliance_event(
+        v_plan, v_date, 'missed_meal:' || v_slot, 'missed_meal', 'warning',
+        format('No %s logged%s', v_slot, CASE WHEN v_slot_time IS NOT NULL THEN format(' (planned for %s)', v_slot_time) ELSE '' END),
+        NULL
+      ) THEN
+        v_created := v_created + 1;
+      END IF;
+    END LOOP;
+
+    IF v_protein_target > 0 AND v_protein < v_protein_target * 0.90 THEN
+      IF public.emit_compliance_event(
+        v_plan, v_date, 'under_protein', 'under_protein', 'warning',
+        format('Protein finished %sg short of the %sg target', round(v_protein_target - v_protein), round(v_protein_target)),
+        jsonb_build_object('protein_short', round(v_protein_target - v_protein), 'protein_total', round(v_protein), 'protein_target', v_protein_target)
+      ) THEN
+        v_created := v_created + 1;
+      END IF;
+    END IF;
+
+    IF v_meals > 0 AND v_missed = 0
+       AND v_kcal BETWEEN v_kcal_target * 0.90 AND v_kcal_target * 1.10
+       AND v_protein >= v_protein_target * 0.95 THEN
+      IF public.emit_compliance_event(
+        v_plan, v_date, 'excellent_day', 'excellent_day', 'success',
+        format('Excellent day: %s kcal and %sg protein, right on plan', round(v_kcal), round(v_protein)),
+        jsonb_build_object('kcal_total', round(v_kcal), 'protein_total', round(v_protein))
+      ) THEN
+        v_created := v_created + 1;
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN v_created;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.close_compliance_day(date) FROM PUBLIC, authenticated;
+REVOKE EXECUTE ON FUNCTION public.mentor_plan_for(uuid, date) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.emit_compliance_event(public.mentor_plans, date, text, text, text, text, jsonb, uuid) FROM PUBLIC, authenticated;
+GRANT EXECUTE ON FUNCTION public.close_compliance_day(date) TO service_role;
+GRANT EXECUTE ON FUNCTION public.assign_mentor_plan(uuid, uuid, text, jsonb, date, date, jsonb, text[], text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_compliance_events_read(uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.end_mentor_plan(uuid) TO authenticated;
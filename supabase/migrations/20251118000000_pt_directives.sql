@@ -0,0 +1,230 @@
+/*
+  # PT directives
+
+  1. pt_directives: per-client instructions a trainer gives Pat. triggers is a
+     jsonb array of structured triggers evaluated client-side in the chat
+     runtime (keyword, intent, time_of_day, day_type, metric)
+  2. pt_directive_fires: audit trail of which directive fired on which chat
+     message, readable by the client's trainer and org owners/admins
+  3. org_members.training_days: weekdays (0 = Sunday .. 6 = Saturday) the client
+     trains, used for workout_days / rest_days directives
+  4. RPCs
+     - record_directive_fires: called by the client's chat runtime; writes the
+       audit rows and bumps trigger_count / last_triggered_at
+     - directive_context: today's intake against the active mentor plan plus
+       training days, for metric and day_type triggers
+     - set_client_training_days: trainers/admins set a client's training days
+*/
+
+-- ========== DIRECTIVES ==========
+CREATE TABLE IF NOT EXISTS public.pt_directives (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  client_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  title text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  category text NOT NULL DEFAULT 'general'
+    CHECK (category IN ('nutrition', 'workout', 'recovery', 'motivation', 'general')),
+  priority text NOT NULL DEFAULT 'medium' CHECK (priority IN ('high', 'medium', 'low')),
+  frequency text NOT NULL DEFAULT 'as_needed'
+    CHECK (frequency IN ('daily', 'weekly', 'workout_days', 'rest_days', 'as_needed')),
+  triggers jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(triggers) = 'array'),
+  pat_instructions text NOT NULL CHECK (length(trim(pat_instructions)) > 0),
+  is_active boolean NOT NULL DEFAULT true,
+  trigger_count integer NOT NULL DEFAULT 0,
+  last_triggered_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.pt_directives ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS pt_directives_client_idx ON public.pt_directives(client_id) WHERE is_active;
+
+-- True when the caller coaches this client: their trainer, or an org owner/admin
+CREATE OR REPLACE FUNCTION public.coaches_client(p_org_id uuid, p_client_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.org_members
+     WHERE org_id = p_org_id AND user_id = p_client_id AND status = 'active'
+       AND (trainer_id = auth.uid() OR public.org_role(p_org_id) IN ('owner', 'admin'))
+  );
+$$;
+
+DROP POLICY IF EXISTS "Coaches can manage client directives" ON public.pt_directives;
+CREATE POLICY "Coaches can manage client directives"
+  ON public.pt_directives
+  FOR ALL
+  TO authenticated
+  USING (public.coaches_client(org_id, client_id))
+  WITH CHECK (public.coaches_client(org_id, client_id));
+
+-- The chat runtime runs as the client, so they read their own directives
+DROP POLICY IF EXISTS "Clients can read own directives" ON public.pt_directives;
+CREATE POLICY "Clients can read own directives"
+  ON public.pt_directives
+  FOR SELECT
+  TO authenticated
+  USING (client_id = auth.uid());
+
+-- ========== FIRE AUDIT ==========
+CREATE TABLE IF NOT EXISTS public.pt_directive_fires (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  directive_id uuid NOT NULL REFERENCES public.pt_directives(id) ON DELETE CASCADE,
+  client_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  message_id uuid REFERENCES public.chat_messages(id) ON DELETE SET NULL,
+  session_id uuid,
+  message_excerpt text,
+  matched jsonb NOT NULL DEFAULT '[]'::jsonb,
+  fired_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.pt_directive_fires ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS pt_directive_fires_directive_idx ON public.pt_directive_fires(directive_id, fired_at DESC);
+CREATE INDEX IF NOT EXISTS pt_directive_fires_client_idx ON public.pt_directive_fires(client_id, fired_at DESC);
+
+-- Fires are only written by record_directive_fires
+DROP POLICY IF EXISTS "Coaches can read directive fires" ON public.pt_directive_fires;
+CREATE POLICY "Coaches can read directive fires"
+  ON public.pt_directive_fires
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.pt_directives d
+      WHERE d.id = pt_directive_fires.directive_id
+        AND public.coaches_client(d.org_id, d.client_id)
+    )
+  );
+
+-- ========== TRAINING DAYS ==========
+ALTER TABLE public.org_members
+  ADD COLUMN IF NOT EXISTS training_days smallint[];
+
+CREATE OR REPLACE FUNCTION public.set_client_training_days(p_org_id uuid, p_client_id uuid, p_days smallint[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.coaches_client(p_org_id, p_client_id) THEN
+    RAISE EXCEPTION 'Not allowed to update this client';
+  END IF;
+  IF EXISTS (SELECT 1 FROM unnest(p_days) d WHERE d NOT BETWEEN 0 AND 6) THEN
+    RAISE EXCEPTION 'Training days must be 0 (Sunday) to 6 (Saturday)';
+  END IF;
+
+  UPDATE public.org_members
+     SET training_days = (SELECT array_agg(DISTINCT d ORDER BY d) FROM unnest(p_days) d)
+   WHERE org_id = p_org_id AND user_id = p_client_id;
+END;
+$$;
+
+-- ========== RUNTIME ==========
+-- Everything metric and day_type triggers need, for the calling client.
+-- p_date is the client's local date; meal totals use UTC days like day_rollups.
+CREATE OR REPLACE FUNCTION public.directive_context(p_date date DEFAULT ((now() AT TIME ZONE 'utc')::date))
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+DECLARE
+  v_user uuid := auth.uid();
+  v_plan public.mentor_plans;
+  v_kcal numeric;
+  v_protein numeric;
+  v_meals integer;
+  v_target_kcal numeric;
+  v_target_protein numeric;
+  v_days smallint[];
+BEGIN
+  IF v_user IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT coalesce(SUM((totals->>'kcal')::numeric), 0),
+         coalesce(SUM((totals->>'protein_g')::numeric), 0),
+         COUNT(*)
+    INTO v_kcal, v_protein, v_meals
+    FROM public.meal_logs
+   WHERE user_id = v_user AND DATE(ts) = p_date;
+
+  v_plan := public.mentor_plan_for(v_user, p_date);
+  v_target_kcal := nullif((v_plan.daily_targets->>'kcal')::numeric, 0);
+  v_target_protein := nullif((v_plan.daily_targets->>'protein_g')::numeric, 0);
+
+  SELECT training_days INTO v_days
+    FROM public.org_members
+   WHERE user_id = v_user AND status = 'active' AND training_days IS NOT NULL
+   ORDER BY joined_at DESC
+   LIMIT 1;
+
+  RETURN jsonb_build_object(
+    'metrics', jsonb_strip_nulls(jsonb_build_object(
+      'kcal', round(v_kcal),
+      'protein_g', round(v_protein),
+      'meals_logged', v_meals,
+      'kcal_pct', round(v_kcal / v_target_kcal * 100),
+      'protein_pct', round(v_protein / v_target_protein * 100)
+    )),
+    'training_days', to_jsonb(v_days)
+  );
+END;
+$$;
+
+-- p_fires: [{ "directive_id": uuid, "matched": [trigger, ...] }, ...]
+CREATE OR REPLACE FUNCTION public.record_directive_fires(
+  p_fires jsonb,
+  p_message_id uuid DEFAULT NULL,
+  p_session_id uuid DEFAULT NULL,
+  p_message_excerpt text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  WITH fired AS (
+    SELECT d.id, coalesce(f->'matched', '[]'::jsonb) AS matched
+      FROM jsonb_array_elements(p_fires) f
+      JOIN public.pt_directives d ON d.id = (f->>'directive_id')::uuid
+     WHERE d.client_id = auth.uid() AND d.is_active
+  ),
+  logged AS (
+    INSERT INTO public.pt_directive_fires (directive_id, client_id, message_id, session_id, message_excerpt, matched)
+    SELECT id, auth.uid(), p_message_id, p_session_id, left(p_message_excerpt, 280), matched
+      FROM fired
+    RETURNING directive_id
+  )
+  UPDATE public.pt_directives d
+     SET trigger_count = d.trigger_count + 1,
+         last_triggered_at = now()
+    FROM logged
+   WHERE d.id = logged.directive_id;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.coaches_client(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_client_training_days(uuid, uuid, smallint[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.directive_context(date) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.record_directive_fires(jsonb, uuid, uuid, text) TO authenticated;
@@ -0,0 +1,327 @@
+/*
+  # Workout plans and session logging
+
+  1. workout_plans: per-client plans and org templates. exercises is the
+     Exercise[] the trainer builds; assigned_days holds lowercase weekday names.
+     Every edit to the prescription (name, type, exercises, schedule) bumps
+     version and snapshots the previous row into workout_plan_versions
+  2. workout_sessions: a client working through a plan, pinned to the plan
+     version they started from
+  3. workout_sets: one row per logged set (weight, reps, RPE, rest)
+  4. complete_workout_session: closes a session and writes its totals
+     (duration, volume, avg RPE, exercises) to workout_logs, which the FREE
+     frequency and effort scores already read
+  5. directive_context falls back to the weekdays of active assigned plans
+     when the trainer has not set training days explicitly
+*/
+
+-- ========== PLANS ==========
+CREATE TABLE IF NOT EXISTS public.workout_plans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid REFERENCES public.organizations(id) ON DELETE CASCADE,
+  client_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  description text NOT NULL DEFAULT '',
+  type text NOT NULL DEFAULT 'strength' CHECK (type IN ('strength', 'cardio', 'hybrid', 'recovery')),
+  difficulty text NOT NULL DEFAULT 'intermediate' CHECK (difficulty IN ('beginner', 'intermediate', 'advanced')),
+  estimated_duration_min integer NOT NULL DEFAULT 60 CHECK (estimated_duration_min > 0),
+  exercises jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(exercises) = 'array'),
+  assigned_days text[] NOT NULL DEFAULT '{}'
+    CHECK (assigned_days <@ ARRAY['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday']),
+  tags text[] NOT NULL DEFAULT '{}',
+  is_active boolean NOT NULL DEFAULT true,
+  is_template boolean NOT NULL DEFAULT false,
+  version integer NOT NULL DEFAULT 1,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  -- Plans belong to a client; templates belong to an org
+  CHECK (is_template OR client_id IS NOT NULL),
+  CHECK (NOT is_template OR org_id IS NOT NULL)
+);
+
+ALTER TABLE public.workout_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS workout_plans_client_idx ON public.workout_plans(client_id) WHERE NOT is_template;
+CREATE INDEX IF NOT EXISTS workout_plans_templates_idx ON public.workout_plans(org_id) WHERE is_template;
+
+DROP POLICY IF EXISTS "Coaches can manage client workout plans" ON public.workout_plans;
+CREATE POLICY "Coaches can manage client workout plans"
+  ON public.workout_plans
+  FOR ALL
+  TO authenticated
+  USING (NOT is_template AND public.coaches_client(org_id, client_id))
+  WITH CHECK (NOT is_template AND public.coaches_client(org_id, client_id));
+
+DROP POLICY IF EXISTS "Coaches can manage org workout templates" ON public.workout_plans;
+CREATE POLICY "Coaches can manage org workout templates"
+  ON public.workout_plans
+  FOR ALL
+  TO authenticated
+  USING (is_template AND public.org_role(org_id) IN ('owner', 'admin', 'trainer'))
+  WITH CHECK (is_template AND public.org_role(org_id) IN ('owner', 'admin', 'trainer'));
+
+DROP POLICY IF EXISTS "Clients can read own workout plans" ON public.workout_plans;
+CREATE POLICY "Clients can read own workout plans"
+  ON public.workout_plans
+  FOR SELECT
+  TO authenticated
+  USING (client_id = auth.uid());
+
+-- ========== VERSIONS ==========
+CREATE TABLE IF NOT EXISTS public.workout_plan_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  plan_id uuid NOT NULL REFERENCES public.workout_plans(id) ON DELETE CASCADE,
+  version integer NOT NULL,
+  snapshot jsonb NOT NULL,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (plan_id, version)
+);
+
+ALTER TABLE public.workout_plan_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Plan readers can read versions" ON public.workout_plan_versions;
+CREATE POLICY "Plan readers can read versions"
+  ON public.workout_plan_versions
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.workout_plans p WHERE p.id = workout_plan_versions.plan_id));
+
+CREATE OR REPLACE FUNCTION public.version_workout_plan()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  IF (NEW.name, NEW.type, NEW.difficulty, NEW.estimated_duration_min, NEW.exercises, NEW.assigned_days)
+     IS DISTINCT FROM
+     (OLD.name, OLD.type, OLD.difficulty, OLD.estimated_duration_min, OLD.exercises, OLD.assigned_days) THEN
+    INSERT INTO public.workout_plan_versions (plan_id, version, snapshot, created_by)
+    VALUES (OLD.id, OLD.version, to_jsonb(OLD) - 'id' - 'version', auth.uid())
+    ON CONFLICT (plan_id, version) DO NOTHING;
+    NEW.version := OLD.version + 1;
+  ELSE
+    NEW.version := OLD.version;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS workout_plans_version ON public.workout_plans;
+CREATE TRIGGER workout_plans_version
+  BEFORE UPDATE ON public.workout_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION public.version_workout_plan();
+
+-- ========== SESSIONS ==========
+CREATE TABLE IF NOT EXISTS public.workout_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  plan_id uuid REFERENCES public.workout_plans(id) ON DELETE SET NULL,
+  plan_version integer,
+  status text NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed', 'abandoned')),
+  started_at timestamptz NOT NULL DEFAULT now(),
+  ended_at timestamptz,
+  workout_log_id uuid REFERENCES public.workout_logs(id) ON DELETE SET NULL,
+  rating smallint CHECK (rating BETWEEN 1 AND 5),
+  notes text
+);
+
+ALTER TABLE public.workout_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS workout_sessions_user_idx ON public.workout_sessions(user_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS workout_sessions_plan_idx ON public.workout_sessions(plan_id);
+
+CREATE TABLE IF NOT EXISTS public.workout_sets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id uuid NOT NULL REFERENCES public.workout_sessions(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  exercise_id text,
+  exercise text NOT NULL,
+  muscle_group text NOT NULL DEFAULT '',
+  set_number integer NOT NULL CHECK (set_number > 0),
+  reps integer NOT NULL CHECK (reps >= 0),
+  weight_lbs numeric NOT NULL DEFAULT 0 CHECK (weight_lbs >= 0),
+  rpe numeric CHECK (rpe IS NULL OR (rpe >= 1 AND rpe <= 10)),
+  rest_sec integer CHECK (rest_sec IS NULL OR rest_sec >= 0),
+  logged_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.workout_sets ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS workout_sets_session_idx ON public.workout_sets(session_id, logged_at);
+
+DROP POLICY IF EXISTS "Users can manage own workout sessions" ON public.workout_sessions;
+CREATE POLICY "Users can manage own workout sessions"
+  ON public.workout_sessions
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Trainers can read own clients workout sessions" ON public.workout_sessions;
+CREATE POLICY "Trainers can read own clients workout sessions"
+  ON public.workout_sessions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.org_members om
+      WHERE om.user_id = workout_sessions.user_id
+        AND om.trainer_id = auth.uid()
+        AND om.status = 'active'
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can manage own workout sets" ON public.workout_sets;
+CREATE POLICY "Users can manage own workout sets"
+  ON public.workout_sets
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.workout_sessions s
+      WHERE s.id = workout_sets.session_id AND s.user_id = auth.uid() AND s.status = 'in_progress'
+    )
+  );
+
+DROP POLICY IF EXISTS "Trainers can read own clients workout sets" ON public.workout_sets;
+CREATE POLICY "Trainers can read own clients workout sets"
+  ON public.workout_sets
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.org_members om
+      WHERE om.user_id = workout_sets.user_id
+        AND om.trainer_id = auth.uid()
+        AND om.status = 'active'
+    )
+  );
+
+-- ========== COMPLETION ==========
+CREATE OR REPLACE FUNCTION public.complete_workout_session(
+  p_session_id uuid,
+  p_rating smallint DEFAULT NULL,
+  p_notes text DEFAULT NULL
+)
+RETURNS public.workout_logs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session public.workout_sessions;
+  v_type text;
+  v_log public.workout_logs;
+BEGIN
+  SELECT * INTO v_session FROM public.workout_sessions
+   WHERE id = p_session_id AND user_id = auth.uid()
+   FOR UPDATE;
+  IF v_session.id IS NULL THEN
+    RAISE EXCEPTION 'Workout session not found';
+  END IF;
+  IF v_session.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Workout session is already %', v_session.status;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM public.workout_sets WHERE session_id = p_session_id) THEN
+    RAISE EXCEPTION 'Log at least one set before finishing';
+  END IF;
+
+  -- workout_logs uses 'resistance' where plans say 'strength'
+  SELECT CASE p.type WHEN 'strength' THEN 'resistance' ELSE p.type END INTO v_type
+    FROM public.workout_plans p WHERE p.id = v_session.plan_id;
+
+  INSERT INTO public.workout_logs (
+    user_id, workout_date, duration_minutes, workout_type,
+    exercises_completed, volume_lbs, avg_rpe, notes
+  )
+  SELECT
+    v_session.user_id,
+    (v_session.started_at AT TIME ZONE 'utc')::date,
+    greatest(1, round(extract(epoch FROM now() - v_session.started_at) / 60))::integer,
+    coalesce(v_type, 'resistance'),
+    COUNT(DISTINCT s.exercise),
+    SUM(s.weight_lbs * s.reps),
+    round(AVG(s.rpe), 1),
+    p_notes
+  FROM public.workout_sets s
+  WHERE s.session_id = p_session_id
+  RETURNING * INTO v_log;
+
+  UPDATE public.workout_sessions
+     SET status = 'completed', ended_at = now(), workout_log_id = v_log.id,
+         rating = p_rating, notes = p_notes
+   WHERE id = p_session_id;
+
+  RETURN v_log;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.complete_workout_session(uuid, smallint, text) TO authenticated;
+
+-- ========== DIRECTIVE DAY TYPE ==========
+CREATE OR REPLACE FUNCTION public.directive_context(p_date date DEFAULT ((now() AT TIME ZONE 'utc')::date))
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+DECLARE
+  v_user uuid := auth.uid();
+  v_plan public.mentor_plans;
+  v_kcal numeric;
+  v_protein numeric;
+  v_meals integer;
+  v_target_kcal numeric;
+  v_target_protein numeric;
+  v_days smallint[];
+BEGIN
+  IF v_user IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT coalesce(SUM((totals->>'kcal')::numeric), 0),
+         coalesce(SUM((totals->>'protein_g')::numeric), 0),
+         COUNT(*)
+    INTO v_kcal, v_protein, v_meals
+    FROM public.meal_logs
+   WHERE user_id = v_user AND DATE(ts) = p_date;
+
+  v_plan := public.mentor_plan_for(v_user, p_date);
+  v_target_kcal := nullif((v_plan.daily_targets->>'kcal')::numeric, 0);
+  v_target_protein := nullif((v_plan.daily_targets->>'protein_g')::numeric, 0);
+
+  SELECT training_days INTO v_days
+    FROM public.org_members
+   WHERE user_id = v_user AND status = 'active' AND training_days IS NOT NULL
+   ORDER BY joined_at DESC
+   LIMIT 1;
+
+  IF v_days IS NULL THEN
+    SELECT array_agg(DISTINCT array_position(
+             ARRAY['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'], d
+           )::smallint - 1)
+      INTO v_days
+      FROM public.workout_plans p, unnest(p.assigned_days) d
+     WHERE p.client_id = v_user AND p.is_active AND NOT p.is_template;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'metrics', jsonb_strip_nulls(jsonb_build_object(
+      'kcal', round(v_kcal),
+      'protein_g', round(v_protein),
+      'meals_logged', v_meals,
+      'kcal_pct', round(v_kcal / v_target_kcal * 100),
+      'protein_pct', round(v_protein / v_target_protein * 100)
+    )),
+    'training_days', to_jsonb(v_days)
+  );
+END;
+$$;
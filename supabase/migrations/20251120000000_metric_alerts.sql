@@ -0,0 +1,95 @@
+/*
+  # Metric alerts
+
+  1. metric_alerts: alerts raised by the rules engine (supabase/functions/_shared/alertRules.ts)
+     over sleep_logs, workout_logs, day_rollups and weight_logs. It runs on each
+     dashboard load and nightly for active clients (metric-alerts-evaluate).
+     dedupe_key is unique per user so re-runs never duplicate an alert;
+     dismissed_at records dismissal
+  2. metric_alert_settings: per-user threshold and cooldown overrides, merged
+     over the engine defaults. Trainers can tune them for their clients
+  3. Trainers read their active clients' alerts
+*/
+
+-- ========== ALERTS ==========
+CREATE TABLE IF NOT EXISTS public.metric_alerts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  type text NOT NULL CHECK (type IN (
+    'consistency_nudge', 'fatigue_flag', 'sleep_debt', 'circadian_drift',
+    'protein_insufficient', 'overreaching', 'pr_achieved'
+  )),
+  severity text NOT NULL CHECK (severity IN ('info', 'warning', 'critical')),
+  message text NOT NULL,
+  dedupe_key text NOT NULL,
+  data jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  dismissed_at timestamptz,
+  UNIQUE (user_id, dedupe_key)
+);
+
+ALTER TABLE public.metric_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS metric_alerts_user_created_idx ON public.metric_alerts(user_id, created_at DESC);
+
+DROP POLICY IF EXISTS "Users can manage own metric alerts" ON public.metric_alerts;
+CREATE POLICY "Users can manage own metric alerts"
+  ON public.metric_alerts
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Trainers can read own clients metric alerts" ON public.metric_alerts;
+CREATE POLICY "Trainers can read own clients metric alerts"
+  ON public.metric_alerts
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.org_members om
+      WHERE om.user_id = metric_alerts.user_id
+        AND om.trainer_id = auth.uid()
+        AND om.status = 'active'
+    )
+  );
+
+-- ========== SETTINGS ==========
+CREATE TABLE IF NOT EXISTS public.metric_alert_settings (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  overrides jsonb NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(overrides) = 'object'),
+  updated_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.metric_alert_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own alert settings" ON public.metric_alert_settings;
+CREATE POLICY "Users can manage own alert settings"
+  ON public.metric_alert_settings
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Trainers can manage own clients alert settings" ON public.metric_alert_settings;
+CREATE POLICY "Trainers can manage own clients alert settings"
+  ON public.metric_alert_settings
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.org_members om
+      WHERE om.user_id = metric_alert_settings.user_id
+        AND om.trainer_id = auth.uid()
+        AND om.status = 'active'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.org_members om
+      WHERE om.user_id = metric_alert_settings.user_id
+        AND om.trainer_id = auth.uid()
+        AND om.status = 'active'
+    )
+  );
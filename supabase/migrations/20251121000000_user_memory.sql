@@ -0,0 +1,129 @@
+/*
+  # Structured user memory
+
+  1. user_memory: durable facts Pat keeps about a user (injuries, schedule,
+     disliked foods, home equipment, goals), written by the post-turn extractor
+     (src/core/memory/factExtractor.ts) through MemoryService
+     - tier: ephemeral / short_term rows carry a ttl (expiry timestamp);
+       long_term rows have none
+     - conflict_priority: explicit (2) > inferred (1) > system (0); a lower
+       priority source never overwrites a higher one for the same key
+     - embedding: vector of the fact text from the `embed` function, stored as
+       a plain array because the provider (and so the dimension) can vary
+  2. resolve_memory_conflict: upsert-by-key honouring conflict_priority
+  3. purge_expired_memory: deletes rows past their ttl; called nightly by
+     chat-midnight-rollover. Reads also filter expired rows so nothing stale is
+     recalled in between
+*/
+
+-- ========== MEMORY ==========
+CREATE TABLE IF NOT EXISTS public.user_memory (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  tier text NOT NULL DEFAULT 'long_term' CHECK (tier IN ('ephemeral', 'short_term', 'long_term')),
+  key text NOT NULL,
+  value jsonb NOT NULL,
+  source text NOT NULL DEFAULT 'inferred' CHECK (source IN ('explicit', 'inferred', 'system')),
+  confidence real NOT NULL DEFAULT 1.0 CHECK (confidence >= 0 AND confidence <= 1),
+  ttl timestamptz,
+  topics text[] NOT NULL DEFAULT '{}',
+  is_pii boolean NOT NULL DEFAULT false,
+  conflict_priority smallint NOT NULL DEFAULT 1,
+  embedding double precision[],
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, key)
+);
+
+ALTER TABLE public.user_memory ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS user_memory_topics_idx ON public.user_memory USING gin(topics);
+CREATE INDEX IF NOT EXISTS user_memory_ttl_idx ON public.user_memory(ttl) WHERE ttl IS NOT NULL;
+
+DROP POLICY IF EXISTS "Users can manage own memory" ON public.user_memory;
+CREATE POLICY "Users can manage own memory"
+  ON public.user_memory
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- ========== CONFLICT RESOLUTION ==========
+CREATE OR REPLACE FUNCTION public.resolve_memory_conflict(
+  p_user_id uuid,
+  p_key text,
+  p_new_value jsonb,
+  p_source text,
+  p_confidence real DEFAULT 1.0,
+  p_tier text DEFAULT 'long_term',
+  p_topics text[] DEFAULT '{}',
+  p_ttl timestamptz DEFAULT NULL,
+  p_embedding double precision[] DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_priority smallint := CASE p_source WHEN 'explicit' THEN 2 WHEN 'inferred' THEN 1 ELSE 0 END;
+  v_existing public.user_memory%ROWTYPE;
+  v_keep_tier boolean;
+  v_id uuid;
+BEGIN
+  IF p_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Cannot write memory for another user';
+  END IF;
+
+  SELECT * INTO v_existing FROM public.user_memory
+   WHERE user_id = p_user_id AND key = p_key
+   FOR UPDATE;
+
+  IF NOT FOUND THEN
+    INSERT INTO public.user_memory (user_id, tier, key, value, source, confidence, ttl, topics, conflict_priority, embedding)
+    VALUES (p_user_id, p_tier, p_key, p_new_value, p_source, p_confidence, p_ttl, p_topics, v_priority, p_embedding)
+    RETURNING id INTO v_id;
+    RETURN v_id;
+  END IF;
+
+  -- An expired row never blocks a new fact; otherwise a weaker source loses
+  IF (v_existing.ttl IS NULL OR v_existing.ttl > now()) AND v_existing.conflict_priority > v_priority THEN
+    RETURN v_existing.id;
+  END IF;
+
+  -- Re-stating a long-term fact as temporary ("knee is sore today") doesn't make it expire
+  v_keep_tier := v_existing.tier = 'long_term' AND p_tier <> 'long_term';
+
+  UPDATE public.user_memory
+     SET value = p_new_value,
+         source = p_source,
+         confidence = p_confidence,
+         conflict_priority = v_priority,
+         tier = CASE WHEN v_keep_tier THEN v_existing.tier ELSE p_tier END,
+         ttl = CASE WHEN v_keep_tier THEN NULL ELSE p_ttl END,
+         topics = p_topics,
+         embedding = COALESCE(p_embedding, embedding),
+         updated_at = now()
+   WHERE id = v_existing.id;
+
+  RETURN v_existing.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.resolve_memory_conflict(uuid, text, jsonb, text, real, text, text[], timestamptz, double precision[]) TO authenticated;
+
+-- ========== EXPIRY ==========
+CREATE OR REPLACE FUNCTION public.purge_expired_memory()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  DELETE FROM public.user_memory WHERE ttl IS NOT NULL AND ttl < now();
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
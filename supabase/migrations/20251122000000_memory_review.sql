@@ -0,0 +1,57 @@
+/*
+  # Memory review
+
+  1. Health facts (injury:*, allergy:*) are flagged is_pii on write so users can
+     bulk-purge them from the memory review page
+  2. forget_user_memory: the caller's right-to-be-forgotten. Deletes their
+     user_memory rows: all of them, only the PII-flagged ones, or a single
+     memory. Fact embeddings live on the memory rows and go with them
+*/
+
+-- ========== PII FLAG ==========
+CREATE OR REPLACE FUNCTION public.flag_memory_pii()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.key LIKE 'injury:%' OR NEW.key LIKE 'allergy:%' THEN
+    NEW.is_pii := true;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS user_memory_flag_pii ON public.user_memory;
+CREATE TRIGGER user_memory_flag_pii
+  BEFORE INSERT OR UPDATE OF key ON public.user_memory
+  FOR EACH ROW EXECUTE FUNCTION public.flag_memory_pii();
+
+UPDATE public.user_memory SET is_pii = true
+ WHERE NOT is_pii AND (key LIKE 'injury:%' OR key LIKE 'allergy:%');
+
+-- ========== FORGET ==========
+DROP FUNCTION IF EXISTS public.forget_user_memory(boolean);
+CREATE OR REPLACE FUNCTION public.forget_user_memory(p_pii_only boolean DEFAULT false, p_memory_id uuid DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  DELETE FROM public.user_memory
+   WHERE user_id = auth.uid()
+     AND (NOT p_pii_only OR is_pii)
+     AND (p_memory_id IS NULL OR id = p_memory_id);
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.forget_user_memory(boolean, uuid) TO authenticated;
@@ -0,0 +1,376 @@
+/*
+  # Swarm and prompt experiments
+
+  1. swarm_versions gain holdout_percent and cohort. The newest published
+     version is served to rollout_percent of its cohort (hash-bucketed by user
+     id in experiment_assignment_for); the previous published version stays
+     live as the control until the rollout reaches 100%
+  2. agent_prompts gain rollout_percent (default 100, i.e. today's behaviour)
+     and published_at so prompt versions can be ramped the same way
+  3. Chat builds its prompt in the browser, so signed-in users may read
+     published swarm versions and prompts
+  4. experiment_assignments: sticky per-user variant per experiment. Only
+     experiment_assignment_for writes them; users call it through
+     assign_experiment and can read their own rows
+  5. chat_turn_variants: one row per assistant turn tagged with the variants
+     that produced it, plus outcomes (verify confirm/edit, thumbs, cost,
+     latency) for the admin comparison report. Users write through
+     record_chat_turn, which takes variants from experiment_assignments, and
+     record_chat_turn_outcome. cost_usd is summed from llm_usage for the
+     turn's session since it started; clients can't set it
+*/
+
+-- ========== VERSION ROLLOUT COLUMNS ==========
+ALTER TABLE public.swarm_versions
+  ADD COLUMN IF NOT EXISTS holdout_percent int NOT NULL DEFAULT 0 CHECK (holdout_percent BETWEEN 0 AND 50),
+  ADD COLUMN IF NOT EXISTS cohort text NOT NULL DEFAULT 'all' CHECK (cohort IN ('beta', 'paid', 'all'));
+
+ALTER TABLE public.agent_prompts
+  ADD COLUMN IF NOT EXISTS rollout_percent int NOT NULL DEFAULT 100 CHECK (rollout_percent BETWEEN 0 AND 100),
+  ADD COLUMN IF NOT EXISTS published_at timestamptz;
+
+UPDATE public.agent_prompts SET published_at = updated_at
+ WHERE status = 'published' AND published_at IS NULL;
+
+DROP POLICY IF EXISTS "Users can read published swarm versions" ON public.swarm_versions;
+CREATE POLICY "Users can read published swarm versions"
+  ON public.swarm_versions
+  FOR SELECT
+  TO authenticated
+  USING (status = 'published');
+
+DROP POLICY IF EXISTS "Users can read published agent prompts" ON public.agent_prompts;
+CREATE POLICY "Users can read published agent prompts"
+  ON public.agent_prompts
+  FOR SELECT
+  TO authenticated
+  USING (status = 'published');
+
+-- ========== ASSIGNMENTS ==========
+CREATE TABLE IF NOT EXISTS public.experiment_assignments (
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  experiment_key text NOT NULL,
+  variant text NOT NULL CHECK (variant IN ('control', 'treatment', 'holdout')),
+  version_id uuid NOT NULL,
+  assigned_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, experiment_key)
+);
+
+ALTER TABLE public.experiment_assignments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own experiment assignments" ON public.experiment_assignments;
+DROP POLICY IF EXISTS "Users can read own experiment assignments" ON public.experiment_assignments;
+CREATE POLICY "Users can read own experiment assignments"
+  ON public.experiment_assignments
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- FNV-1a, 32-bit, in basis points so rollouts can go below 1%
+CREATE OR REPLACE FUNCTION public.experiment_bucket(p_user_id uuid, p_salt text)
+RETURNS int
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_input text := p_salt || ':' || p_user_id::text;
+  v_hash bigint := 2166136261;
+BEGIN
+  FOR i IN 1..length(v_input) LOOP
+    v_hash := ((v_hash # ascii(substr(v_input, i, 1))) * 16777619) % 4294967296;
+  END LOOP;
+  RETURN (v_hash % 10000)::int;
+END;
+$$;
+
+/*
+  Pick the version a user sees for a swarm ('swarm') or agent prompt ('prompt')
+  and store it. The newest published version is the treatment at its
+  rollout_percent; the one before it is the control.
+  - Holdout users (holdout_percent, hashed per target) always get the control
+  - A rollout of 0% is the kill switch: everyone gets the control
+  - Users outside the treatment's cohort get the control, whatever is stored
+  - A stored assignment is sticky: someone already in treatment stays there
+    if the rollout is dialled back, and ramping up only adds users
+  Returns {experiment_key, version_id, variant}, experiment_key null when no
+  experiment is running, or NULL when the target has no published version.
+*/
+CREATE OR REPLACE FUNCTION public.experiment_assignment_for(p_user_id uuid, p_kind text, p_target text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_treatment record;
+  v_control record;
+  v_key text;
+  v_variant text;
+  v_stored text;
+  v_in_cohort boolean := true;
+BEGIN
+  IF p_kind = 'swarm' THEN
+    SELECT id, rollout_percent, holdout_percent, cohort INTO v_treatment
+      FROM public.swarm_versions
+     WHERE swarm_id = p_target AND status = 'published'
+     ORDER BY published_at DESC NULLS LAST
+     LIMIT 1;
+    SELECT id INTO v_control
+      FROM public.swarm_versions
+     WHERE swarm_id = p_target AND status = 'published'
+     ORDER BY published_at DESC NULLS LAST
+     OFFSET 1 LIMIT 1;
+  ELSIF p_kind = 'prompt' THEN
+    SELECT id, coalesce(rollout_percent, 100) AS rollout_percent, 0 AS holdout_percent, 'all' AS cohort INTO v_treatment
+      FROM public.agent_prompts
+     WHERE agent_id = p_target AND status = 'published'
+     ORDER BY coalesce(published_at, created_at) DESC
+     LIMIT 1;
+    SELECT id INTO v_control
+      FROM public.agent_prompts
+     WHERE agent_id = p_target AND status = 'published'
+     ORDER BY coalesce(published_at, created_at) DESC
+     OFFSET 1 LIMIT 1;
+  ELSE
+    RAISE EXCEPTION 'Unknown experiment kind: %', p_kind;
+  END IF;
+
+  IF v_treatment.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+  IF v_control.id IS NULL OR v_treatment.rollout_percent >= 100 THEN
+    RETURN jsonb_build_object('experiment_key', NULL, 'version_id', v_treatment.id, 'variant', 'control');
+  END IF;
+
+  v_key := p_kind || ':' || p_target || ':' || v_treatment.id;
+
+  IF v_treatment.cohort = 'beta' THEN
+    SELECT coalesce(bool_or(beta_user), false) INTO v_in_cohort FROM public.profiles WHERE user_id = p_user_id;
+  ELSIF v_treatment.cohort = 'paid' THEN
+    SELECT coalesce(bool_or(is_unlimited OR plan <> 'free'), false) INTO v_in_cohort FROM public.v_user_credits WHERE user_id = p_user_id;
+  END IF;
+
+  IF public.experiment_bucket(p_user_id, p_kind || ':' || p_target || ':holdout')
+       < round(greatest(0, least(100, v_treatment.holdout_percent)) * 100) THEN
+    v_variant := 'holdout';
+  ELSIF v_treatment.rollout_percent <= 0 OR NOT v_in_cohort THEN
+    v_variant := 'control';
+  ELSE
+    SELECT variant INTO v_stored
+      FROM public.experiment_assignments
+     WHERE user_id = p_user_id AND experiment_key = v_key;
+    IF v_stored IS NOT NULL AND v_stored <> 'control' THEN
+      v_variant := v_stored;
+    ELSIF public.experiment_bucket(p_user_id, v_key) < round(greatest(0, v_treatment.rollout_percent) * 100) THEN
+      v_variant := 'treatment';
+    ELSE
+      v_variant := 'control';
+    END IF;
+  END IF;
+
+  INSERT INTO public.experiment_assignments (user_id, experiment_key, variant, version_id, assigned_at)
+  VALUES (p_user_id, v_key, v_variant, CASE WHEN v_variant = 'treatment' THEN v_treatment.id ELSE v_control.id END, now())
+  ON CONFLICT (user_id, experiment_key) DO UPDATE
+    SET variant = EXCLUDED.variant, version_id = EXCLUDED.version_id, assigned_at = EXCLUDED.assigned_at
+    WHERE experiment_assignments.variant IS DISTINCT FROM EXCLUDED.variant;
+
+  RETURN jsonb_build_object(
+    'experiment_key', v_key,
+    'version_id', CASE WHEN v_variant = 'treatment' THEN v_treatment.id ELSE v_control.id END,
+    'variant', v_variant
+  );
+END;
+$$;
+
+-- The signed-in user's own assignment
+CREATE OR REPLACE FUNCTION public.assign_experiment(p_kind text, p_target text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  RETURN public.experiment_assignment_for(auth.uid(), p_kind, p_target);
+END;
+$$;
+
+-- ========== TURNS ==========
+CREATE TABLE IF NOT EXISTS public.chat_turn_variants (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  session_id uuid,
+  message_id uuid,
+  swarm_id text NOT NULL,
+  experiment_key text,
+  version_id uuid,
+  variant text NOT NULL CHECK (variant IN ('control', 'treatment', 'holdout')),
+  prompt_variants jsonb NOT NULL DEFAULT '[]'::jsonb,
+  intent text,
+  model text,
+  cost_usd numeric NOT NULL DEFAULT 0,
+  started_at timestamptz,
+  latency_ms int,
+  has_verify boolean NOT NULL DEFAULT false,
+  outcome text CHECK (outcome IN ('confirmed', 'cancelled')),
+  edited boolean NOT NULL DEFAULT false,
+  thumbs smallint CHECK (thumbs IN (-1, 1)),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.chat_turn_variants ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS chat_turn_variants_experiment_idx
+  ON public.chat_turn_variants(swarm_id, experiment_key, created_at DESC);
+
+-- Cost is metered, not self-reported: sum the session's llm_usage since the
+-- turn started (and after the previous tagged turn); later updates keep it
+CREATE OR REPLACE FUNCTION public.set_chat_turn_cost()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_since timestamptz;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    NEW.cost_usd := OLD.cost_usd;
+    NEW.started_at := OLD.started_at;
+    RETURN NEW;
+  END IF;
+
+  SELECT GREATEST(coalesce(NEW.started_at, now() - interval '5 minutes'), coalesce(MAX(created_at), '-infinity'))
+    INTO v_since
+    FROM public.chat_turn_variants
+   WHERE user_id = NEW.user_id AND session_id = NEW.session_id;
+
+  SELECT coalesce(SUM(cost_usd), 0) INTO NEW.cost_usd
+    FROM public.llm_usage
+   WHERE user_id = NEW.user_id
+     AND session_id = NEW.session_id::text
+     AND created_at >= v_since;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS chat_turn_variants_cost ON public.chat_turn_variants;
+CREATE TRIGGER chat_turn_variants_cost
+  BEFORE INSERT OR UPDATE ON public.chat_turn_variants
+  FOR EACH ROW EXECUTE FUNCTION public.set_chat_turn_cost();
+
+DROP POLICY IF EXISTS "Users can manage own chat turn variants" ON public.chat_turn_variants;
+DROP POLICY IF EXISTS "Users can read own chat turn variants" ON public.chat_turn_variants;
+CREATE POLICY "Users can read own chat turn variants"
+  ON public.chat_turn_variants
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Tag a turn. Variants come from the caller's stored assignments, never from
+-- the request; untracked prompt variants are dropped
+CREATE OR REPLACE FUNCTION public.record_chat_turn(
+  p_id uuid,
+  p_swarm_id text,
+  p_experiment_key text,
+  p_version_id uuid,
+  p_prompt_variants jsonb,
+  p_session_id uuid DEFAULT NULL,
+  p_message_id uuid DEFAULT NULL,
+  p_intent text DEFAULT NULL,
+  p_model text DEFAULT NULL,
+  p_started_at timestamptz DEFAULT NULL,
+  p_latency_ms int DEFAULT NULL,
+  p_has_verify boolean DEFAULT false
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user uuid := auth.uid();
+  v_variant text := 'control';
+  v_version uuid := p_version_id;
+  v_prompts jsonb;
+BEGIN
+  IF v_user IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_experiment_key IS NOT NULL THEN
+    SELECT variant, version_id INTO v_variant, v_version
+      FROM public.experiment_assignments
+     WHERE user_id = v_user AND experiment_key = p_experiment_key;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'No experiment assignment for %', p_experiment_key;
+    END IF;
+  END IF;
+
+  SELECT coalesce(jsonb_agg(
+           CASE WHEN ea.experiment_key IS NULL
+             THEN jsonb_build_object('prompt_ref', pv->>'prompt_ref', 'experiment_key', NULL, 'version_id', pv->>'version_id', 'variant', 'control')
+             ELSE jsonb_build_object('prompt_ref', pv->>'prompt_ref', 'experiment_key', ea.experiment_key, 'version_id', ea.version_id, 'variant', ea.variant)
+           END), '[]'::jsonb)
+    INTO v_prompts
+    FROM jsonb_array_elements(coalesce(p_prompt_variants, '[]'::jsonb)) pv
+    LEFT JOIN public.experiment_assignments ea
+      ON ea.user_id = v_user AND ea.experiment_key = pv->>'experiment_key'
+   WHERE pv->>'experiment_key' IS NULL OR ea.experiment_key IS NOT NULL;
+
+  INSERT INTO public.chat_turn_variants (
+    id, user_id, session_id, message_id, swarm_id, experiment_key, version_id, variant,
+    prompt_variants, intent, model, started_at, latency_ms, has_verify
+  )
+  VALUES (
+    p_id, v_user, p_session_id, p_message_id, p_swarm_id, p_experiment_key, v_version, v_variant,
+    v_prompts, p_intent, p_model,
+    -- A turn can't claim usage from before it plausibly started
+    greatest(coalesce(p_started_at, now()), now() - interval '5 minutes'),
+    greatest(p_latency_ms, 0), coalesce(p_has_verify, false)
+  );
+END;
+$$;
+
+-- Outcomes on the caller's own turn: a verify outcome is set once, edited
+-- only turns on, thumbs can change
+CREATE OR REPLACE FUNCTION public.record_chat_turn_outcome(
+  p_turn_id uuid,
+  p_outcome text DEFAULT NULL,
+  p_edited boolean DEFAULT NULL,
+  p_thumbs smallint DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.chat_turn_variants
+     SET outcome = CASE WHEN has_verify AND outcome IS NULL THEN coalesce(p_outcome, outcome) ELSE outcome END,
+         edited = edited OR (has_verify AND coalesce(p_edited, false)),
+         thumbs = coalesce(p_thumbs, thumbs)
+   WHERE id = p_turn_id AND user_id = auth.uid();
+END;
+$$;
+
+DROP POLICY IF EXISTS "Admins can read chat turn variants" ON public.chat_turn_variants;
+CREATE POLICY "Admins can read chat turn variants"
+  ON public.chat_turn_variants
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.user_id = auth.uid()
+        AND profiles.role = 'admin'
+    )
+  );
+
+REVOKE EXECUTE ON FUNCTION public.experiment_assignment_for(uuid, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.experiment_assignment_for(uuid, text, text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.assign_experiment(text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.record_chat_turn(uuid, text, text, uuid, jsonb, uuid, uuid, text, text, timestamptz, int, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.record_chat_turn_outcome(uuid, text, boolean, smallint) TO authenticated;
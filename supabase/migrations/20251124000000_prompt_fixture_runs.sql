@@ -0,0 +1,88 @@
+/*
+  # Prompt fixture runs
+
+  1. prompt_fixture_runs: one row per prompt version per fixture suite run,
+     with per-fixture outputs and failures (see src/core/swarm/fixtureRunner.ts).
+     Live runs double as recordings for offline replays
+  2. A candidate run records the published version it was compared against
+     and whether its pass rate regressed; swarm-admin-api refuses to publish
+     a prompt whose latest run regressed, is stale, or is missing while the
+     agent has fixtures
+  3. agent_prompts.content_hash covers content and model; each run stores
+     the hash it ran against, so a draft edited after a passing run needs a
+     new run before it can be published
+*/
+
+-- ========== PROMPT HASH ==========
+ALTER TABLE public.agent_prompts
+  ADD COLUMN IF NOT EXISTS content_hash text
+  GENERATED ALWAYS AS (md5(content || E'\n' || coalesce(model, ''))) STORED;
+
+-- ========== RUNS ==========
+CREATE TABLE IF NOT EXISTS public.prompt_fixture_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_prompt_id uuid NOT NULL REFERENCES public.agent_prompts(id) ON DELETE CASCADE,
+  baseline_prompt_id uuid REFERENCES public.agent_prompts(id) ON DELETE SET NULL,
+  mode text NOT NULL CHECK (mode IN ('live', 'recorded')),
+  total int NOT NULL DEFAULT 0,
+  passed int NOT NULL DEFAULT 0,
+  pass_rate numeric NOT NULL DEFAULT 1,
+  baseline_pass_rate numeric,
+  regressed boolean NOT NULL DEFAULT false,
+  results jsonb NOT NULL DEFAULT '[]'::jsonb,
+  content_hash text,
+  created_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.prompt_fixture_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS prompt_fixture_runs_prompt_idx
+  ON public.prompt_fixture_runs(agent_prompt_id, created_at DESC);
+
+-- The runner sends the hash of the prompt it ran; it must still match the
+-- prompt row, so a draft edited mid-run is rejected. Stored hashes never change.
+CREATE OR REPLACE FUNCTION public.check_prompt_fixture_run_hash()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_current text;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    NEW.content_hash := OLD.content_hash;
+    RETURN NEW;
+  END IF;
+
+  SELECT content_hash INTO v_current FROM public.agent_prompts WHERE id = NEW.agent_prompt_id;
+  IF NEW.content_hash IS DISTINCT FROM v_current THEN
+    RAISE EXCEPTION 'Prompt changed during the fixture run; run the suite again';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prompt_fixture_runs_hash ON public.prompt_fixture_runs;
+CREATE TRIGGER prompt_fixture_runs_hash
+  BEFORE INSERT OR UPDATE ON public.prompt_fixture_runs
+  FOR EACH ROW EXECUTE FUNCTION public.check_prompt_fixture_run_hash();
+
+DROP POLICY IF EXISTS "Admins can manage prompt fixture runs" ON public.prompt_fixture_runs;
+CREATE POLICY "Admins can manage prompt fixture runs"
+  ON public.prompt_fixture_runs
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.user_id = auth.uid()
+        AND profiles.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.user_id = auth.uid()
+        AND profiles.role = 'admin'
+    )
+  );